@@ -0,0 +1,35 @@
+/**
+ * Mock for expo-localization
+ * Reports an English (United States) device
+ */
+
+const locale = {
+  languageTag: 'en-US',
+  languageCode: 'en',
+  languageScriptCode: null,
+  regionCode: 'US',
+  languageRegionCode: 'US',
+  currencyCode: 'USD',
+  currencySymbol: '$',
+  languageCurrencyCode: 'USD',
+  languageCurrencySymbol: '$',
+  decimalSeparator: '.',
+  digitGroupingSeparator: ',',
+  textDirection: 'ltr',
+  measurementSystem: 'us',
+  temperatureUnit: 'fahrenheit',
+};
+
+const calendar = {
+  calendar: 'gregory',
+  uses24hourClock: false,
+  firstWeekday: 1,
+  timeZone: 'America/New_York',
+};
+
+module.exports = {
+  getLocales: jest.fn(() => [locale]),
+  getCalendars: jest.fn(() => [calendar]),
+  useLocales: jest.fn(() => [locale]),
+  useCalendars: jest.fn(() => [calendar]),
+};
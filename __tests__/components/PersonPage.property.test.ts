@@ -0,0 +1,203 @@
+/**
+ * Property-based tests for Person Page
+ * Feature: person-pages
+ *
+ * Properties tested:
+ * - Filmography merging keeps one entry per title with every role
+ * - Filmography sorting orders entries by the selected option
+ * - Known-for selection respects the limit and ranks by votes
+ * - Lifespan formatting
+ */
+
+import * as fc from 'fast-check';
+import {
+  mergePersonCredits,
+  sortFilmography,
+  getKnownForCredits,
+  getCreditRole,
+  formatLifespan,
+  FILMOGRAPHY_SORT_OPTIONS,
+  type FilmographySort,
+} from '../../components/person/person-utils';
+import type { PersonCredit } from '../../types/media';
+
+// Arbitraries for generating test data
+const mediaTypeArb = fc.constantFrom<'movie' | 'tv'>('movie', 'tv');
+
+const releaseDateArb = fc.oneof(
+  fc.constant(''),
+  fc.tuple(
+    fc.integer({ min: 1950, max: 2030 }),
+    fc.integer({ min: 1, max: 12 }),
+    fc.integer({ min: 1, max: 28 })
+  ).map(([year, month, day]) =>
+    `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+  )
+);
+
+const departmentArb = fc.constantFrom('Acting', 'Directing', 'Writing', 'Production');
+
+const personCreditArb: fc.Arbitrary<PersonCredit> = fc.record({
+  id: fc.integer({ min: 1, max: 20 }),
+  title: fc.string({ minLength: 1, maxLength: 50 }),
+  originalTitle: fc.string({ minLength: 1, maxLength: 50 }),
+  posterPath: fc.constant(null),
+  backdropPath: fc.constant(null),
+  overview: fc.string({ maxLength: 100 }),
+  releaseDate: releaseDateArb,
+  voteAverage: fc.option(fc.float({ min: Math.fround(0), max: Math.fround(10), noNaN: true }), { nil: null }),
+  voteCount: fc.integer({ min: 0, max: 100000 }),
+  mediaType: mediaTypeArb,
+  genreIds: fc.constant([]),
+  creditId: fc.uuid(),
+  character: fc.option(fc.string({ minLength: 1, maxLength: 30 }), { nil: null }),
+  job: fc.option(fc.constantFrom('Director', 'Writer', 'Producer'), { nil: null }),
+  department: departmentArb,
+});
+
+const creditsArb = fc.array(personCreditArb, { maxLength: 40 });
+
+const sortArb = fc.constantFrom<FilmographySort>(...FILMOGRAPHY_SORT_OPTIONS.map(o => o.value));
+
+const titleKey = (credit: PersonCredit) => `${credit.mediaType}-${credit.id}`;
+
+describe('Person Page Property Tests', () => {
+  describe('Filmography merging', () => {
+    it('produces exactly one entry per title in first-seen order', () => {
+      fc.assert(
+        fc.property(creditsArb, (credits) => {
+          const entries = mergePersonCredits(credits);
+          const expectedKeys = [...new Set(credits.map(titleKey))];
+
+          expect(entries.map(e => titleKey(e.credit))).toEqual(expectedKeys);
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('keeps every distinct role the person held on a title', () => {
+      fc.assert(
+        fc.property(creditsArb, (credits) => {
+          const entries = mergePersonCredits(credits);
+
+          entries.forEach(entry => {
+            const roles = credits
+              .filter(c => titleKey(c) === titleKey(entry.credit))
+              .map(getCreditRole);
+
+            expect(new Set(entry.roles)).toEqual(new Set(roles));
+            expect(entry.roles.length).toBe(new Set(entry.roles).size);
+          });
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Filmography sorting', () => {
+    it('returns the same entries for any sort option', () => {
+      fc.assert(
+        fc.property(creditsArb, sortArb, (credits, sort) => {
+          const entries = mergePersonCredits(credits);
+          const sorted = sortFilmography(entries, sort);
+
+          expect(sorted.length).toBe(entries.length);
+          expect(new Set(sorted)).toEqual(new Set(entries));
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('orders entries by the selected option', () => {
+      fc.assert(
+        fc.property(creditsArb, sortArb, (credits, sort) => {
+          const sorted = sortFilmography(mergePersonCredits(credits), sort);
+
+          for (let i = 1; i < sorted.length; i++) {
+            const prev = sorted[i - 1].credit;
+            const curr = sorted[i].credit;
+
+            switch (sort) {
+              case 'newest':
+                expect((prev.releaseDate || '9999') >= (curr.releaseDate || '9999')).toBe(true);
+                break;
+              case 'oldest':
+                expect((prev.releaseDate || '9999') <= (curr.releaseDate || '9999')).toBe(true);
+                break;
+              case 'rating':
+                expect(prev.voteAverage ?? 0).toBeGreaterThanOrEqual(curr.voteAverage ?? 0);
+                break;
+              case 'title':
+                expect(prev.title.localeCompare(curr.title)).toBeLessThanOrEqual(0);
+                break;
+            }
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('does not mutate the input entries', () => {
+      fc.assert(
+        fc.property(creditsArb, sortArb, (credits, sort) => {
+          const entries = mergePersonCredits(credits);
+          const before = [...entries];
+          sortFilmography(entries, sort);
+
+          expect(entries).toEqual(before);
+          return true;
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Known for selection', () => {
+    it('respects the limit, keeps titles unique and ranks by vote count', () => {
+      fc.assert(
+        fc.property(creditsArb, fc.integer({ min: 1, max: 15 }), (credits, limit) => {
+          const knownFor = getKnownForCredits(credits, undefined, limit);
+          const keys = knownFor.map(titleKey);
+
+          expect(knownFor.length).toBeLessThanOrEqual(limit);
+          expect(new Set(keys).size).toBe(keys.length);
+          for (let i = 1; i < knownFor.length; i++) {
+            expect(knownFor[i - 1].voteCount).toBeGreaterThanOrEqual(knownFor[i].voteCount);
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('prefers credits in the person\'s own department when there are any', () => {
+      fc.assert(
+        fc.property(creditsArb, departmentArb, (credits, department) => {
+          const knownFor = getKnownForCredits(credits, department);
+          const hasDepartmentCredits = credits.some(c => c.department === department);
+
+          if (hasDepartmentCredits) {
+            knownFor.forEach(credit => expect(credit.department).toBe(department));
+          } else {
+            expect(knownFor.length).toBe(Math.min(new Set(credits.map(titleKey)).size, 10));
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Lifespan formatting', () => {
+    it('describes birth and death dates', () => {
+      expect(formatLifespan('1964-09-02', null)).toBe('Born September 2, 1964');
+      expect(formatLifespan(null, '2008-01-22')).toBe('Died January 22, 2008');
+      expect(formatLifespan('1979-04-04', '2008-01-22')).toBe('April 4, 1979 – January 22, 2008');
+      expect(formatLifespan(null, null)).toBeNull();
+    });
+  });
+});
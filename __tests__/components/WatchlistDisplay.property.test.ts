@@ -15,7 +15,10 @@ import {
   calculateGridConfig,
   sortByDateAdded,
   sortByTitle,
+  sortByRating,
   filterByMediaType,
+  filterByStatus,
+  getStatusCounts,
   getSyncStatusSummary,
   isFullySynced,
   hasSyncErrors,
@@ -211,6 +214,35 @@ describe('Feature: moviestream-mvp, Property 17: Watchlist Grid Display', () =>
         { numRuns: 100 }
       );
     });
+
+    it('for any watchlist, sorting by rating puts higher-rated titles first and unrated last', () => {
+      fc.assert(
+        fc.property(
+          watchlistArrayArb,
+          fc.array(fc.option(fc.integer({ min: 0, max: 10 }), { nil: null }), { maxLength: 50 }),
+          (items, values) => {
+            const ratings = items.map((item, i) => ({
+              id: item.id,
+              mediaType: item.mediaType,
+              rating: values[i] ?? null,
+            }));
+            const ratingOf = (item: WatchlistItem) =>
+              ratings.find(r => r.id === item.id && r.mediaType === item.mediaType)?.rating ?? -1;
+
+            const sorted = sortByRating(items, ratings);
+
+            expect(sorted.length).toBe(items.length);
+            for (const item of items) {
+              expect(sorted).toContainEqual(item);
+            }
+            for (let i = 1; i < sorted.length; i++) {
+              expect(ratingOf(sorted[i - 1])).toBeGreaterThanOrEqual(ratingOf(sorted[i]));
+            }
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
   });
 
   describe('Filtering by media type', () => {
@@ -242,6 +274,38 @@ describe('Feature: moviestream-mvp, Property 17: Watchlist Grid Display', () =>
     });
   });
 
+  describe('Filtering by status', () => {
+    const statusArb = fc.constantFrom(
+      'plan_to_watch' as const,
+      'watching' as const,
+      'completed' as const,
+      'dropped' as const
+    );
+    const itemsWithStatusArb = fc.array(
+      fc.tuple(watchlistItemArb, fc.option(statusArb, { nil: undefined }))
+        .map(([item, status]) => ({ ...item, status })),
+      { maxLength: 50 }
+    );
+
+    it('for any watchlist, status filters partition the items and match the counts', () => {
+      fc.assert(
+        fc.property(itemsWithStatusArb, statusArb, (items, status) => {
+          const filtered = filterByStatus(items, status);
+          const counts = getStatusCounts(items);
+
+          // Items saved before statuses existed count as plan to watch
+          for (const item of filtered) {
+            expect(item.status ?? 'plan_to_watch').toBe(status);
+          }
+          expect(filtered.length).toBe(counts[status]);
+          expect(Object.values(counts).reduce((a, b) => a + b, 0)).toBe(items.length);
+          expect(filterByStatus(items, 'all')).toEqual(items);
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
   describe('Sync status tracking', () => {
     it('for any watchlist, sync status summary should be accurate', () => {
       fc.assert(
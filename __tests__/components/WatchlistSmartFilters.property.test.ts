@@ -0,0 +1,193 @@
+/**
+ * Property-based tests for Watchlist Smart Filters
+ * Feature: smart-watchlist
+ *
+ * Properties tested:
+ * - Every filtered item matches each active filter, and every dropped item fails one
+ * - Items without metadata only pass when no smart filter is active
+ * - Metadata sorts keep every item and put items without a value last
+ */
+
+import * as fc from 'fast-check';
+import {
+  countActiveSmartFilters,
+  filterBySmartFilters,
+  getItemMetadata,
+  getWatchlistServices,
+  sortWatchlist,
+} from '@/components/watchlist/watchlist-utils';
+import { getWatchlistKey } from '@/services/sync';
+import {
+  DEFAULT_WATCHLIST_SMART_FILTERS,
+  type WatchlistItem,
+  type WatchlistItemMetadata,
+  type WatchlistMetadataCache,
+  type WatchlistSmartFilters,
+} from '@/types/watchlist';
+
+const TODAY = '2025-06-15';
+
+const dayArb = fc.record({
+  year: fc.integer({ min: 2020, max: 2030 }),
+  month: fc.integer({ min: 1, max: 12 }),
+  day: fc.integer({ min: 1, max: 28 }),
+}).map(({ year, month, day }) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+);
+
+const metadataArb: fc.Arbitrary<WatchlistItemMetadata> = fc.record({
+  runtime: fc.option(fc.integer({ min: 20, max: 240 }), { nil: null }),
+  releaseDate: fc.option(dayArb, { nil: null }),
+  genres: fc.uniqueArray(fc.constantFrom(18, 27, 28, 35, 878), { maxLength: 3 })
+    .map(ids => ids.map(id => ({ id, name: `Genre ${id}` }))),
+  voteAverage: fc.option(fc.float({ min: 0, max: 10, noNaN: true }), { nil: null }),
+  streamingProviders: fc.uniqueArray(fc.constantFrom(8, 9, 337), { maxLength: 3 })
+    .map(ids => ids.map(providerId => ({ providerId, providerName: `Service ${providerId}` }))),
+  countryCode: fc.constant('US'),
+  fetchedAt: fc.constant('2025-06-15T00:00:00.000Z'),
+});
+
+/** Items with distinct keys, each with metadata or none */
+const watchlistArb = fc.uniqueArray(
+  fc.record({
+    id: fc.integer({ min: 1, max: 10000 }),
+    mediaType: fc.constantFrom('movie' as const, 'tv' as const),
+    title: fc.string({ minLength: 1, maxLength: 20 }),
+    metadata: fc.option(metadataArb, { nil: null }),
+  }),
+  { maxLength: 25, selector: item => `${item.mediaType}:${item.id}` }
+).map(records => {
+  const items: WatchlistItem[] = records.map(({ id, mediaType, title }) => ({
+    id,
+    mediaType,
+    title,
+    posterPath: null,
+    addedAt: '2025-01-01T00:00:00.000Z',
+    syncStatus: 'synced',
+  }));
+  const metadata: WatchlistMetadataCache = {};
+  for (const record of records) {
+    if (record.metadata) metadata[getWatchlistKey(record.id, record.mediaType)] = record.metadata;
+  }
+  return { items, metadata };
+});
+
+const filtersArb: fc.Arbitrary<WatchlistSmartFilters> = fc.record({
+  maxRuntime: fc.constantFrom(null, 90, 120, 180),
+  releasedOnly: fc.boolean(),
+  onMyServices: fc.boolean(),
+  serviceIds: fc.uniqueArray(fc.constantFrom(8, 9, 337), { maxLength: 2 }),
+  genreIds: fc.uniqueArray(fc.constantFrom(18, 28, 35), { maxLength: 2 }),
+  voteAverage: fc.constantFrom(
+    { min: null, max: null },
+    { min: 8, max: null },
+    { min: 6, max: 7 },
+    { min: null, max: 6 }
+  ),
+});
+
+/** Check one filter at a time against the metadata */
+const failedChecks = (metadata: WatchlistItemMetadata | null, filters: WatchlistSmartFilters) => {
+  const m = metadata;
+  const vote = filters.voteAverage;
+  return [
+    filters.maxRuntime !== null && !(m?.runtime != null && m.runtime < filters.maxRuntime),
+    filters.releasedOnly && !(m?.releaseDate != null && m.releaseDate <= TODAY),
+    filters.onMyServices && !(m && m.streamingProviders.some(p =>
+      filters.serviceIds.length === 0 || filters.serviceIds.includes(p.providerId)
+    )),
+    filters.genreIds.length > 0 && !m?.genres.some(g => filters.genreIds.includes(g.id)),
+    (vote.min !== null || vote.max !== null) && !(m?.voteAverage != null &&
+      (vote.min === null || m.voteAverage >= vote.min) &&
+      (vote.max === null || m.voteAverage < vote.max)),
+  ].filter(Boolean).length;
+};
+
+describe('Watchlist Smart Filters Property Tests', () => {
+  it('keeps exactly the items that pass every active filter', () => {
+    fc.assert(
+      fc.property(watchlistArb, filtersArb, ({ items, metadata }, filters) => {
+        const filtered = filterBySmartFilters(items, metadata, filters, TODAY);
+
+        for (const item of items) {
+          const passes = failedChecks(getItemMetadata(item, metadata), filters) === 0;
+          expect(filtered.includes(item)).toBe(passes);
+        }
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('only keeps items without metadata when no smart filter is active', () => {
+    fc.assert(
+      fc.property(watchlistArb, filtersArb, ({ items }, filters) => {
+        const filtered = filterBySmartFilters(items, {}, filters, TODAY);
+
+        expect(filtered).toEqual(countActiveSmartFilters(filters) === 0 ? items : []);
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('treats "under 2 hours" as strictly shorter than 120 minutes', () => {
+    const item: WatchlistItem = {
+      id: 1, mediaType: 'movie', title: 'Heat', posterPath: null,
+      addedAt: '2025-01-01T00:00:00.000Z', syncStatus: 'synced',
+    };
+    const [sample] = fc.sample(metadataArb, 1);
+    const filters = { ...DEFAULT_WATCHLIST_SMART_FILTERS, maxRuntime: 120 };
+    const withRuntime = (runtime: number) => ({ 'movie:1': { ...sample, runtime } });
+
+    expect(filterBySmartFilters([item], withRuntime(119), filters, TODAY)).toHaveLength(1);
+    expect(filterBySmartFilters([item], withRuntime(120), filters, TODAY)).toHaveLength(0);
+  });
+
+  it('sorts by metadata keeping every item, with unknown values last', () => {
+    fc.assert(
+      fc.property(
+        watchlistArb,
+        fc.constantFrom('runtime' as const, 'release_date' as const, 'vote_average' as const),
+        ({ items, metadata }, order) => {
+          const value = (item: WatchlistItem) => {
+            const m = getItemMetadata(item, metadata);
+            if (!m) return null;
+            return order === 'runtime' ? m.runtime : order === 'release_date' ? m.releaseDate : m.voteAverage;
+          };
+          const sorted = sortWatchlist(items, order, [], metadata);
+
+          expect([...sorted].sort((a, b) => a.id - b.id || a.mediaType.localeCompare(b.mediaType)))
+            .toEqual([...items].sort((a, b) => a.id - b.id || a.mediaType.localeCompare(b.mediaType)));
+
+          const values = sorted.map(value);
+          const firstUnknown = values.indexOf(null);
+          if (firstUnknown >= 0) {
+            expect(values.slice(firstUnknown).every(v => v === null)).toBe(true);
+          }
+          const known = values.filter(v => v !== null) as (number | string)[];
+          for (let i = 1; i < known.length; i++) {
+            if (order === 'runtime') expect(known[i - 1] <= known[i]).toBe(true);
+            else expect(known[i - 1] >= known[i]).toBe(true);
+          }
+          return true;
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  it('lists each streaming service once, by name', () => {
+    fc.assert(
+      fc.property(watchlistArb, ({ items, metadata }) => {
+        const services = getWatchlistServices(items, metadata);
+        const names = services.map(s => s.providerName);
+
+        expect(new Set(services.map(s => s.providerId)).size).toBe(services.length);
+        expect(names).toEqual([...names].sort((a, b) => a.localeCompare(b)));
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -10,13 +10,18 @@
  * **Validates: Requirements 1.2**
  */
 
-import type { MediaApiAdapter, PaginatedResponse } from '@/services/api/types';
+import type { MediaApiAdapter, PaginatedResponse, CuratedListKind } from '@/services/api/types';
 import type {
   TrendingItem,
   MediaDetails,
   CastMember,
   StreamingProvider,
   MediaItem,
+  SeasonDetails,
+  EpisodeSummary,
+  EpisodeDetails,
+  PersonDetails,
+  PersonCredit,
 } from '@/types/media';
 import type { SearchResults } from '@/types/user';
 
@@ -92,6 +97,42 @@ jest.mock('@/services/api/omdb', () => {
       Type: 'movie' as const,
       Response: 'True' as const,
     })),
+    getSeason: jest.fn().mockImplementation(async (params: { season: number }) => ({
+      Title: 'Test Series',
+      Season: String(params.season),
+      totalSeasons: '3',
+      Episodes: [
+        { Title: 'Pilot', Released: '2023-01-01', Episode: '1', imdbRating: '8.1', imdbID: 'tt2000001' },
+        { Title: 'Second', Released: '2023-01-08', Episode: '2', imdbRating: 'N/A', imdbID: 'tt2000002' },
+      ],
+      Response: 'True' as const,
+    })),
+    getEpisode: jest.fn().mockImplementation(async (params: { season: number; episode: number }) => ({
+      Title: 'Pilot',
+      Year: '2023',
+      Rated: 'TV-14',
+      Released: '01 Jan 2023',
+      Season: String(params.season),
+      Episode: String(params.episode),
+      Runtime: '52 min',
+      Genre: 'Drama',
+      Director: 'Test Director',
+      Writer: 'Test Writer, Second Writer (story)',
+      Actors: 'Actor One, Actor Two',
+      Plot: 'A test episode plot',
+      Language: 'English',
+      Country: 'United States',
+      Awards: 'N/A',
+      Poster: 'https://example.com/still.jpg',
+      Ratings: [],
+      Metascore: 'N/A',
+      imdbRating: '8.1',
+      imdbVotes: '1,234',
+      imdbID: 'tt2000001',
+      seriesID: 'tt0944947',
+      Type: 'episode' as const,
+      Response: 'True' as const,
+    })),
     getImdbIdFromNumeric: jest.fn().mockImplementation((numericId: number) => mockIdCache.get(numericId)),
     generateNumericId,
     OMDbError: MockOMDbError,
@@ -103,6 +144,7 @@ jest.mock('@/services/api/omdb', () => {
 import { omdbAdapter } from '@/services/api/adapters/omdb-adapter';
 import { tmdbAdapter } from '@/services/api/adapters/tmdb-adapter';
 import { mockAdapter } from '@/services/api/adapters/mock-adapter';
+import { generateNumericId } from '@/services/api/omdb';
 
 /**
  * Helper function to check if a value matches the expected type
@@ -190,6 +232,92 @@ function validatePaginatedResponse<T>(response: PaginatedResponse<T>): void {
   expect(response.totalResults).toBeGreaterThanOrEqual(0);
 }
 
+/**
+ * Helper function to validate EpisodeSummary structure
+ */
+function validateEpisodeSummary(episode: EpisodeSummary): void {
+  expect(typeof episode.id).toBe('number');
+  expect(typeof episode.episodeNumber).toBe('number');
+  expect(typeof episode.seasonNumber).toBe('number');
+  expect(typeof episode.name).toBe('string');
+  expect(typeof episode.overview).toBe('string');
+  expect(typeof episode.airDate).toBe('string');
+  expect(typeof episode.voteAverage).toBe('number');
+  expect(typeof episode.voteCount).toBe('number');
+
+  if (episode.stillPath !== null) {
+    expect(typeof episode.stillPath).toBe('string');
+  }
+  if (episode.runtime !== null) {
+    expect(typeof episode.runtime).toBe('number');
+  }
+}
+
+/**
+ * Helper function to validate SeasonDetails structure
+ */
+function validateSeasonDetails(season: SeasonDetails, seasonNumber: number): void {
+  expect(typeof season.id).toBe('number');
+  expect(season.seasonNumber).toBe(seasonNumber);
+  expect(typeof season.name).toBe('string');
+  expect(typeof season.overview).toBe('string');
+  expect(typeof season.airDate).toBe('string');
+  expect(Array.isArray(season.episodes)).toBe(true);
+
+  season.episodes.forEach(episode => {
+    validateEpisodeSummary(episode);
+    expect(episode.seasonNumber).toBe(seasonNumber);
+  });
+}
+
+/**
+ * Helper function to validate EpisodeDetails structure
+ */
+function validateEpisodeDetails(episode: EpisodeDetails): void {
+  validateEpisodeSummary(episode);
+  expect(Array.isArray(episode.crew)).toBe(true);
+  expect(Array.isArray(episode.guestStars)).toBe(true);
+
+  episode.crew.forEach(member => {
+    expect(typeof member.id).toBe('number');
+    expect(typeof member.name).toBe('string');
+    expect(typeof member.job).toBe('string');
+    expect(typeof member.department).toBe('string');
+  });
+  episode.guestStars.forEach(star => {
+    expect(typeof star.id).toBe('number');
+    expect(typeof star.name).toBe('string');
+    expect(typeof star.character).toBe('string');
+  });
+}
+
+/**
+ * Helper function to validate PersonDetails structure
+ */
+function validatePersonDetails(person: PersonDetails): void {
+  expect(typeof person.id).toBe('number');
+  expect(typeof person.name).toBe('string');
+  expect(typeof person.biography).toBe('string');
+  expect(typeof person.knownForDepartment).toBe('string');
+
+  if (person.profilePath !== null) {
+    expect(typeof person.profilePath).toBe('string');
+  }
+  if (person.birthday !== null) {
+    expect(typeof person.birthday).toBe('string');
+  }
+}
+
+/**
+ * Helper function to validate PersonCredit structure
+ */
+function validatePersonCredit(credit: PersonCredit): void {
+  validateMediaItem(credit);
+  expect(typeof credit.creditId).toBe('string');
+  expect(typeof credit.department).toBe('string');
+  expect(credit.character !== null || credit.job !== null || credit.department.length > 0).toBe(true);
+}
+
 /**
  * Helper function to validate SearchResults structure
  */
@@ -203,13 +331,14 @@ function validateSearchResults(results: SearchResults): void {
 
 describe('Adapter Interface Compliance Tests', () => {
   // Test all available adapters
-  const adaptersToTest: { name: string; adapter: MediaApiAdapter }[] = [
-    { name: 'OMDb Adapter', adapter: omdbAdapter },
-    { name: 'Mock Adapter', adapter: mockAdapter },
+  // A TV show each adapter can resolve (OMDb IDs are hashed IMDb IDs)
+  const adaptersToTest: { name: string; adapter: MediaApiAdapter; tvId: number }[] = [
+    { name: 'OMDb Adapter', adapter: omdbAdapter, tvId: generateNumericId('tt0944947') },
+    { name: 'Mock Adapter', adapter: mockAdapter, tvId: 101 },
   ];
 
   describe('MediaApiAdapter Interface Implementation', () => {
-    adaptersToTest.forEach(({ name, adapter }) => {
+    adaptersToTest.forEach(({ name, adapter, tvId }) => {
       describe(`${name}`, () => {
         /**
          * Verify all required methods exist
@@ -239,6 +368,22 @@ describe('Adapter Interface Compliance Tests', () => {
             expect(typeof adapter.getTvCredits).toBe('function');
           });
 
+          it('should have getSeasonDetails method', () => {
+            expect(typeof adapter.getSeasonDetails).toBe('function');
+          });
+
+          it('should have getEpisodeDetails method', () => {
+            expect(typeof adapter.getEpisodeDetails).toBe('function');
+          });
+
+          it('should have getPersonDetails method', () => {
+            expect(typeof adapter.getPersonDetails).toBe('function');
+          });
+
+          it('should have getPersonCredits method', () => {
+            expect(typeof adapter.getPersonCredits).toBe('function');
+          });
+
           it('should have getWatchProviders method', () => {
             expect(typeof adapter.getWatchProviders).toBe('function');
           });
@@ -247,6 +392,10 @@ describe('Adapter Interface Compliance Tests', () => {
             expect(typeof adapter.getRecommendations).toBe('function');
           });
 
+          it('should have getCuratedList method', () => {
+            expect(typeof adapter.getCuratedList).toBe('function');
+          });
+
           it('should have discoverByCountry method', () => {
             expect(typeof adapter.discoverByCountry).toBe('function');
           });
@@ -301,6 +450,37 @@ describe('Adapter Interface Compliance Tests', () => {
             result.tvShows.forEach(validateMediaItem);
           });
 
+          it('getSeasonDetails should return SeasonDetails with episodes', async () => {
+            const result = await adapter.getSeasonDetails(tvId, 1);
+
+            validateSeasonDetails(result, 1);
+            expect(result.episodes.length).toBeGreaterThan(0);
+          });
+
+          it('getEpisodeDetails should return EpisodeDetails with crew and guest stars', async () => {
+            const result = await adapter.getEpisodeDetails(tvId, 1, 2);
+
+            validateEpisodeDetails(result);
+            expect(result.seasonNumber).toBe(1);
+            expect(result.episodeNumber).toBe(2);
+            expect(result.crew.length).toBeGreaterThan(0);
+            expect(result.guestStars.length).toBeGreaterThan(0);
+          });
+
+          it('getPersonDetails and getPersonCredits should describe a credited cast member', async () => {
+            const [member] = await adapter.getTvCredits(tvId);
+            expect(member).toBeDefined();
+
+            const person = await adapter.getPersonDetails(member.id);
+            validatePersonDetails(person);
+            expect(person.id).toBe(member.id);
+            expect(person.name).toBe(member.name);
+
+            const credits = await adapter.getPersonCredits(member.id);
+            expect(credits.length).toBeGreaterThan(0);
+            credits.forEach(validatePersonCredit);
+          });
+
           it('getWatchProviders should return StreamingProvider[]', async () => {
             const result = await adapter.getWatchProviders('movie', 12345, 'US');
             
@@ -318,6 +498,19 @@ describe('Adapter Interface Compliance Tests', () => {
             }
           });
 
+          it('getCuratedList should return PaginatedResponse<MediaItem> for every list kind', async () => {
+            const listKinds: CuratedListKind[] = ['popular', 'top_rated', 'now_playing', 'upcoming'];
+
+            for (const listKind of listKinds) {
+              for (const mediaType of ['movie', 'tv'] as const) {
+                const result = await adapter.getCuratedList(listKind, mediaType, 1);
+
+                validatePaginatedResponse(result);
+                result.items.forEach(validateMediaItem);
+              }
+            }
+          });
+
           it('discoverByCountry should return PaginatedResponse<TrendingItem>', async () => {
             const result = await adapter.discoverByCountry('movie', 'US', { page: 1 });
             
@@ -506,6 +699,30 @@ describe('Adapter Interface Compliance Tests', () => {
       expect(Object.keys(omdbResult).sort()).toEqual(Object.keys(mockResult).sort());
     });
 
+    it('should return same structure from getSeasonDetails and getEpisodeDetails across adapters', async () => {
+      const omdbSeason = await omdbAdapter.getSeasonDetails(generateNumericId('tt0944947'), 1);
+      const mockSeason = await mockAdapter.getSeasonDetails(101, 1);
+      expect(Object.keys(omdbSeason).sort()).toEqual(Object.keys(mockSeason).sort());
+      expect(Object.keys(omdbSeason.episodes[0]).sort()).toEqual(Object.keys(mockSeason.episodes[0]).sort());
+
+      const omdbEpisode = await omdbAdapter.getEpisodeDetails(generateNumericId('tt0944947'), 1, 1);
+      const mockEpisode = await mockAdapter.getEpisodeDetails(101, 1, 1);
+      expect(Object.keys(omdbEpisode).sort()).toEqual(Object.keys(mockEpisode).sort());
+    });
+
+    it('should return same structure from getPersonDetails and getPersonCredits across adapters', async () => {
+      const [omdbMember] = await omdbAdapter.getTvCredits(generateNumericId('tt0944947'));
+      const [mockMember] = await mockAdapter.getTvCredits(101);
+
+      const omdbPerson = await omdbAdapter.getPersonDetails(omdbMember.id);
+      const mockPerson = await mockAdapter.getPersonDetails(mockMember.id);
+      expect(Object.keys(omdbPerson).sort()).toEqual(Object.keys(mockPerson).sort());
+
+      const [omdbCredit] = await omdbAdapter.getPersonCredits(omdbMember.id);
+      const [mockCredit] = await mockAdapter.getPersonCredits(mockMember.id);
+      expect(Object.keys(omdbCredit).sort()).toEqual(expect.arrayContaining(Object.keys(mockCredit).sort()));
+    });
+
     it('should return same structure from getRecommendations across adapters', async () => {
       const omdbResult = await omdbAdapter.getRecommendations('movie', 12345, 1);
       const mockResult = await mockAdapter.getRecommendations('movie', 12345, 1);
@@ -514,6 +731,14 @@ describe('Adapter Interface Compliance Tests', () => {
       expect(Object.keys(omdbResult).sort()).toEqual(Object.keys(mockResult).sort());
     });
 
+    it('should return same structure from getCuratedList across adapters', async () => {
+      const omdbResult = await omdbAdapter.getCuratedList('popular', 'movie', 1);
+      const mockResult = await mockAdapter.getCuratedList('popular', 'movie', 1);
+
+      // Both should have same keys
+      expect(Object.keys(omdbResult).sort()).toEqual(Object.keys(mockResult).sort());
+    });
+
     it('should return same structure from discoverByCountry across adapters', async () => {
       const omdbResult = await omdbAdapter.discoverByCountry('movie', 'US', { page: 1 });
       const mockResult = await mockAdapter.discoverByCountry('movie', 'US', { page: 1 });
@@ -547,6 +772,11 @@ describe('Adapter Interface Compliance Tests', () => {
       expect(Array.isArray(result)).toBe(true);
     });
 
+    it('should handle unknown people gracefully in the OMDb person fallback', async () => {
+      expect(await omdbAdapter.getPersonDetails(999999999)).toBeNull();
+      expect(await omdbAdapter.getPersonCredits(999999999)).toEqual([]);
+    });
+
     it('should handle unknown country codes gracefully', async () => {
       const result = await omdbAdapter.discoverByCountry('movie', 'XX', { page: 1 });
       
@@ -0,0 +1,203 @@
+/**
+ * Property-based tests for localized media metadata
+ * Feature: localized-metadata
+ *
+ * Properties tested:
+ * - Translated text is kept and empty text is filled from English, field by field
+ * - TMDB requests carry the content language and only ask for English when
+ *   a translation is missing
+ * - Posters in the content language are preferred when TMDB has them
+ */
+
+import * as fc from 'fast-check';
+import {
+  fillMissingFields,
+  fillMissingFieldsById,
+  setContentLanguage,
+  toLanguageTag,
+} from '@/services/api/content-language';
+import { clearHttpCache } from '@/services/api/http-cache';
+import { getMovieDetails, type TMDBMovieDetails } from '@/services/api/tmdb';
+
+const TEXT_FIELDS = ['title', 'overview', 'tagline'] as const;
+
+const textArb = fc.oneof(fc.constant(''), fc.string({ minLength: 1, maxLength: 20 }).filter(s => s.trim() !== ''));
+const recordArb = fc.record({ id: fc.integer({ min: 1 }), title: textArb, overview: textArb, tagline: textArb });
+const languageArb = fc.constantFrom('es', 'fr', 'de', 'ja', 'zh');
+
+function movieDetails(overrides: Partial<TMDBMovieDetails>): TMDBMovieDetails {
+  return {
+    id: 1,
+    title: 'Spirited Away',
+    original_title: '千と千尋の神隠し',
+    poster_path: '/default.jpg',
+    backdrop_path: null,
+    overview: 'A young girl wanders into a world of spirits.',
+    release_date: '2001-07-20',
+    vote_average: 8.5,
+    vote_count: 16000,
+    genres: [],
+    runtime: 125,
+    tagline: 'The tunnel led Chihiro to a mysterious town.',
+    status: 'Released',
+    production_countries: [],
+    spoken_languages: [],
+    budget: 0,
+    revenue: 0,
+    ...overrides,
+  };
+}
+
+/** Mock fetch, answering each request with the response for its language */
+function mockFetch(responses: Record<string, TMDBMovieDetails | Error>): jest.Mock {
+  const fetchMock = jest.fn().mockImplementation((url: string) => {
+    const language = new URL(url).searchParams.get('language') ?? '';
+    const response = responses[language];
+    if (!response || response instanceof Error) {
+      return Promise.resolve({ ok: false, status: 404, statusText: 'Not Found' });
+    }
+    return Promise.resolve({ ok: true, status: 200, json: () => Promise.resolve(response) });
+  });
+  global.fetch = fetchMock;
+  return fetchMock;
+}
+
+function requestedLanguages(fetchMock: jest.Mock): (string | null)[] {
+  return fetchMock.mock.calls.map(([url]) => new URL(url as string).searchParams.get('language'));
+}
+
+describe('Feature: localized-metadata, Per-field English fallback', () => {
+  it('keeps translated fields and fills empty ones from English', () => {
+    fc.assert(
+      fc.property(recordArb, recordArb, (localized, english) => {
+        const filled = fillMissingFields(localized, english, TEXT_FIELDS);
+
+        TEXT_FIELDS.forEach(field => {
+          expect(filled[field]).toBe(localized[field] !== '' ? localized[field] : english[field]);
+        });
+        expect(filled.id).toBe(localized.id);
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('fills list items from the English item with the same ID only', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(recordArb, { selector: item => item.id, maxLength: 10 }),
+        fc.uniqueArray(recordArb, { selector: item => item.id, maxLength: 10 }),
+        (localized, english) => {
+          const filled = fillMissingFieldsById(localized, english, TEXT_FIELDS);
+
+          expect(filled.map(item => item.id)).toEqual(localized.map(item => item.id));
+          filled.forEach((item, index) => {
+            const match = english.find(candidate => candidate.id === item.id);
+            expect(item).toEqual(fillMissingFields(localized[index], match, TEXT_FIELDS));
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Feature: localized-metadata, TMDB content language', () => {
+  let originalFetch: typeof global.fetch;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    originalFetch = global.fetch;
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    await clearHttpCache();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    warnSpy.mockRestore();
+    setContentLanguage(null);
+  });
+
+  it('requests the content language and asks for English only when text is missing', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        languageArb,
+        fc.integer({ min: 1, max: 1_000_000 }),
+        fc.boolean(),
+        async (language, id, overviewTranslated) => {
+          await clearHttpCache();
+          setContentLanguage(language);
+          const english = movieDetails({ id });
+          const localized = movieDetails({
+            id,
+            title: `${language} title`,
+            overview: overviewTranslated ? `${language} overview` : '',
+            tagline: `${language} tagline`,
+          });
+          const fetchMock = mockFetch({ [toLanguageTag(language)]: localized, 'en-US': english });
+
+          const details = await getMovieDetails(id);
+
+          expect(details.title).toBe(localized.title);
+          expect(details.tagline).toBe(localized.tagline);
+          expect(details.overview).toBe(overviewTranslated ? localized.overview : english.overview);
+          expect(requestedLanguages(fetchMock)).toEqual(
+            overviewTranslated ? [toLanguageTag(language)] : [toLanguageTag(language), 'en-US']
+          );
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  it('never asks for a fallback when the content language is English', async () => {
+    setContentLanguage('en');
+    const fetchMock = mockFetch({ 'en-US': movieDetails({ id: 7, tagline: '' }) });
+
+    const details = await getMovieDetails(7);
+
+    expect(details.tagline).toBe('');
+    expect(requestedLanguages(fetchMock)).toEqual(['en-US']);
+  });
+
+  it('keeps the localized text when the English request fails', async () => {
+    setContentLanguage('ja');
+    mockFetch({ 'ja-JP': movieDetails({ id: 8, title: '千と千尋の神隠し', overview: '' }) });
+
+    const details = await getMovieDetails(8);
+
+    expect(details.title).toBe('千と千尋の神隠し');
+    expect(details.overview).toBe('');
+  });
+
+  it('prefers the best-rated poster in the content language', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        languageArb,
+        fc.array(
+          fc.record({
+            file_path: fc.stringMatching(/^\/[a-z]{1,8}\.jpg$/),
+            iso_639_1: fc.constantFrom('es', 'fr', 'de', 'ja', 'zh', null),
+            vote_average: fc.double({ min: 0, max: 10, noNaN: true }),
+          }),
+          { maxLength: 6 }
+        ),
+        async (language, posters) => {
+          await clearHttpCache();
+          setContentLanguage(language);
+          mockFetch({ [toLanguageTag(language)]: movieDetails({ id: 9, images: { posters } }) });
+
+          const details = await getMovieDetails(9);
+
+          const inLanguage = posters.filter(poster => poster.iso_639_1 === language);
+          const best = Math.max(...inLanguage.map(poster => poster.vote_average));
+          if (inLanguage.length === 0) {
+            expect(details.posterPath).toBe('/default.jpg');
+          } else {
+            expect(inLanguage.find(poster => poster.file_path === details.posterPath)?.vote_average).toBe(best);
+          }
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Property-based tests for the fallback (composite) API adapter
+ * Feature: provider-fallback-chain
+ *
+ * Validates that calls are routed to the first healthy provider, that
+ * retryable provider failures fall through the chain, and that the
+ * serving provider is recorded for every call.
+ */
+
+import * as fc from 'fast-check';
+import type { MediaApiAdapter } from '@/services/api/types';
+import { mockAdapter } from '@/services/api/adapters/mock-adapter';
+import {
+  createFallbackAdapter,
+  isProviderFailover,
+  parseProviderChain,
+  type ProviderCallRecord,
+} from '@/services/api/adapters/fallback-adapter';
+import { TMDBApiError } from '@/services/api/tmdb';
+import { CloudflareApiError } from '@/services/api/cloudflare';
+import { OMDbError } from '@/services/api/omdb/errors';
+
+/** Build an adapter whose getTrailerKey resolves or rejects as requested */
+function makeAdapter(behaviour: { key?: string; error?: unknown }): MediaApiAdapter {
+  return {
+    ...mockAdapter,
+    getTrailerKey: jest.fn(async () => {
+      if (behaviour.error) throw behaviour.error;
+      return behaviour.key ?? null;
+    }),
+  };
+}
+
+describe('Feature: provider-fallback-chain, Error classification', () => {
+  it('should fall through on retryable errors from any provider error class', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 500, max: 599 }),
+        fc.string(),
+        (status, message) => {
+          expect(isProviderFailover(new TMDBApiError(message, status, true))).toBe(true);
+          expect(isProviderFailover(new CloudflareApiError(message, status, 'req', true))).toBe(true);
+          expect(isProviderFailover(new OMDbError(message, 'SERVER_ERROR', status, true))).toBe(true);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should not fall through on non-retryable errors', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 400, max: 499 }),
+        (status) => {
+          expect(isProviderFailover(new TMDBApiError('nope', status, false))).toBe(false);
+          expect(isProviderFailover(new CloudflareApiError('nope', status, undefined, false))).toBe(false);
+          expect(isProviderFailover(new OMDbError('nope', 'NOT_FOUND', status, false))).toBe(false);
+          expect(isProviderFailover(new Error('generic'))).toBe(false);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should treat raw fetch network failures as retryable', () => {
+    expect(isProviderFailover(new TypeError('Network request failed'))).toBe(true);
+  });
+});
+
+describe('Feature: provider-fallback-chain, Routing', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should be served by the first provider that does not fail, for any number of failing providers', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 0, max: 4 }),
+        fc.integer({ min: 0, max: 3 }),
+        async (failingCount, healthyCount) => {
+          const failing = Array.from({ length: failingCount }, (_, i) => ({
+            name: `down-${i}`,
+            adapter: makeAdapter({ error: new TMDBApiError('HTTP 503', 503, true) }),
+          }));
+          const healthy = Array.from({ length: healthyCount + 1 }, (_, i) => ({
+            name: `up-${i}`,
+            adapter: makeAdapter({ key: `key-${i}` }),
+          }));
+
+          const records: ProviderCallRecord[] = [];
+          const adapter = createFallbackAdapter([...failing, ...healthy], {
+            onProviderServed: record => records.push(record),
+          });
+
+          const key = await adapter.getTrailerKey('movie', 1);
+
+          expect(key).toBe('key-0');
+          expect(adapter.getServedBy('getTrailerKey')).toBe('up-0');
+          expect(records).toHaveLength(1);
+          expect(records[0].provider).toBe('up-0');
+          expect(records[0].failedProviders).toEqual(failing.map(p => p.name));
+
+          // Later healthy providers are never consulted
+          healthy.slice(1).forEach(p => {
+            expect(p.adapter.getTrailerKey).not.toHaveBeenCalled();
+          });
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should re-throw non-retryable errors without trying the next provider', async () => {
+    const notFound = new CloudflareApiError('Not found', 404, 'req-1', false);
+    const first = makeAdapter({ error: notFound });
+    const second = makeAdapter({ key: 'second' });
+
+    const adapter = createFallbackAdapter([
+      { name: 'cloudflare', adapter: first },
+      { name: 'tmdb', adapter: second },
+    ]);
+
+    await expect(adapter.getTrailerKey('tv', 7)).rejects.toBe(notFound);
+    expect(second.getTrailerKey).not.toHaveBeenCalled();
+  });
+
+  it('should throw the last error when every provider fails', async () => {
+    const lastError = new CloudflareApiError('HTTP 504', 504, 'req-2', true);
+    const adapter = createFallbackAdapter([
+      { name: 'tmdb', adapter: makeAdapter({ error: new TMDBApiError('HTTP 500', 500, true) }) },
+      { name: 'cloudflare', adapter: makeAdapter({ error: lastError }) },
+    ]);
+
+    await expect(adapter.getTrailerKey('movie', 1)).rejects.toBe(lastError);
+  });
+
+  it('should skip an unhealthy provider until its cooldown expires', async () => {
+    let clock = 1000;
+    let primaryDown = true;
+    const primary: MediaApiAdapter = {
+      ...mockAdapter,
+      getTrailerKey: jest.fn(async () => {
+        if (primaryDown) throw new TMDBApiError('HTTP 502', 502, true);
+        return 'primary';
+      }),
+    };
+    const backup = makeAdapter({ key: 'backup' });
+
+    const adapter = createFallbackAdapter(
+      [
+        { name: 'primary', adapter: primary },
+        { name: 'backup', adapter: backup },
+      ],
+      { cooldownMs: 500, now: () => clock }
+    );
+
+    expect(await adapter.getTrailerKey('movie', 1)).toBe('backup');
+    expect(adapter.getProviderHealth().primary.healthy).toBe(false);
+
+    // Within cooldown the primary is not retried
+    primaryDown = false;
+    clock += 100;
+    expect(await adapter.getTrailerKey('movie', 1)).toBe('backup');
+    expect(primary.getTrailerKey).toHaveBeenCalledTimes(1);
+
+    // After cooldown the primary is preferred again
+    clock += 500;
+    expect(await adapter.getTrailerKey('movie', 1)).toBe('primary');
+    expect(adapter.getServedBy('getTrailerKey')).toBe('primary');
+    expect(adapter.getProviderHealth().primary.healthy).toBe(true);
+  });
+
+  it('should resolve image URLs with the provider that returned the path', async () => {
+    let firstDown = true;
+    const first: MediaApiAdapter = {
+      ...mockAdapter,
+      getMovieCredits: jest.fn(async () => {
+        if (firstDown) throw new TMDBApiError('HTTP 500', 500, true);
+        return [{ id: 1, name: 'A', character: 'B', profilePath: '/first.jpg', order: 0 }];
+      }),
+      getImageUrl: path => `first${path}`,
+    };
+    const second: MediaApiAdapter = {
+      ...mockAdapter,
+      getMovieCredits: jest.fn(async () => [
+        { id: 2, name: 'C', character: 'D', profilePath: '/second.jpg', order: 0 },
+      ]),
+      getImageUrl: path => `second${path}`,
+    };
+    const adapter = createFallbackAdapter(
+      [
+        { name: 'first', adapter: first },
+        { name: 'second', adapter: second },
+      ],
+      { cooldownMs: 0 }
+    );
+
+    await adapter.getMovieCredits(1);
+    firstDown = false;
+    await adapter.getMovieCredits(1);
+
+    // Each path keeps its own provider, whichever served last
+    expect(adapter.getImageUrl('/second.jpg')).toBe('second/second.jpg');
+    expect(adapter.getImageUrl('/first.jpg')).toBe('first/first.jpg');
+    // Paths this session hasn't seen resolve with the primary provider
+    expect(adapter.getImageUrl('/stored.jpg')).toBe('first/stored.jpg');
+  });
+
+  it('should only fall through to providers in the first provider\'s ID space', async () => {
+    const tmdb = makeAdapter({ error: new TMDBApiError('HTTP 503', 503, true) });
+    const omdb = makeAdapter({ key: 'omdb' });
+    const cloudflare = makeAdapter({ key: 'cloudflare' });
+
+    const adapter = createFallbackAdapter([
+      { name: 'tmdb', adapter: tmdb },
+      { name: 'omdb', adapter: omdb },
+      { name: 'cloudflare', adapter: cloudflare },
+    ]);
+
+    expect(adapter.getProviderNames()).toEqual(['tmdb', 'cloudflare']);
+    expect(await adapter.getTrailerKey('movie', 550)).toBe('cloudflare');
+    expect(omdb.getTrailerKey).not.toHaveBeenCalled();
+  });
+});
+
+describe('Feature: provider-fallback-chain, Configuration', () => {
+  it('should parse comma-separated provider chains in order without duplicates', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.constantFrom('tmdb', 'omdb', 'cloudflare', 'mock'), { minLength: 1, maxLength: 6 }),
+        fc.constantFrom(',', ' , ', ', '),
+        (providers, separator) => {
+          const expected = providers.filter((p, i) => providers.indexOf(p) === i);
+          expect(parseProviderChain(providers.join(separator))).toEqual(expected);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should normalise case and ignore empty entries', () => {
+    expect(parseProviderChain('Cloudflare,,TMDB, ')).toEqual(['cloudflare', 'tmdb']);
+    expect(parseProviderChain('')).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Property-based tests for the persistent HTTP response cache
+ * Feature: offline-cache
+ *
+ * Validates cache keys, per-endpoint TTLs, stale-while-revalidate,
+ * offline fallback to stale data and LRU eviction.
+ */
+
+import * as fc from 'fast-check';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  withHttpCache,
+  getCacheKey,
+  getTtlForUrl,
+  getHttpCacheStatus,
+  getHttpCacheStats,
+  subscribeToHttpCacheStatus,
+  clearHttpCache,
+  type HttpCacheStatus,
+} from '@/services/api/http-cache';
+import { HTTP_CACHE_CONFIG } from '@/constants/api';
+
+const BASE = 'https://api.example.com';
+
+/** Let background revalidations settle */
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('Feature: offline-cache, Cache keys and TTLs', () => {
+  it('should produce the same key regardless of parameter order or credentials', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.stringMatching(/^[a-z]{1,8}$/), { minLength: 1, maxLength: 5 }),
+        fc.string({ minLength: 1, maxLength: 12 }),
+        (keys, apiKey) => {
+          const params = keys.filter(k => k !== 'api_key' && k !== 'apikey').map(k => `${k}=${k}1`);
+          const forward = `${BASE}/movie/1?${[...params, `api_key=${encodeURIComponent(apiKey)}`].join('&')}`;
+          const reversed = `${BASE}/movie/1?${[...params].reverse().join('&')}`;
+
+          expect(getCacheKey(forward)).toBe(getCacheKey(reversed));
+          expect(getCacheKey(forward)).not.toContain('api_key');
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should expire search and trending sooner than details', () => {
+    const search = getTtlForUrl(`${BASE}/search/multi?query=dune`);
+    const trending = getTtlForUrl(`${BASE}/trending/all/week`);
+    const details = getTtlForUrl(`${BASE}/movie/438631`);
+    const genres = getTtlForUrl(`${BASE}/genre/movie/list`);
+
+    expect(search).toBeLessThan(trending);
+    expect(trending).toBeLessThan(details);
+    expect(getTtlForUrl(`${BASE}/tv/genres`)).toBeGreaterThan(details);
+    expect(genres).toBe(HTTP_CACHE_CONFIG.DEFAULT_TTL_MS);
+    expect(getTtlForUrl('https://www.omdbapi.com/?i=tt0111161')).toBe(details);
+  });
+});
+
+describe('Feature: offline-cache, Cached requests', () => {
+  let now: number;
+
+  beforeEach(async () => {
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await clearHttpCache();
+    (AsyncStorage as unknown as { __resetStore: () => void }).__resetStore();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should serve fresh entries from the cache without hitting the network', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 1, max: 100000 }),
+        fc.jsonValue(),
+        async (id, payload) => {
+          await clearHttpCache();
+          const url = `${BASE}/movie/${id}`;
+          const fetcher = jest.fn(async () => payload);
+
+          const first = await withHttpCache(url, fetcher);
+          const second = await withHttpCache(url, fetcher);
+
+          expect(second).toEqual(first);
+          expect(fetcher).toHaveBeenCalledTimes(1);
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should return expired data immediately and refresh it in the background', async () => {
+    const url = `${BASE}/trending/movie/week`;
+    await withHttpCache(url, async () => ({ version: 1 }));
+
+    now += getTtlForUrl(url) + 1;
+    const fetcher = jest.fn(async () => ({ version: 2 }));
+
+    expect(await withHttpCache(url, fetcher)).toEqual({ version: 1 });
+    await flushPromises();
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    expect(await withHttpCache(url, fetcher)).toEqual({ version: 2 });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fall back to stale data when the network fails and report it', async () => {
+    const url = `${BASE}/movie/42`;
+    const storedAt = now;
+    await withHttpCache(url, async () => ({ title: 'Cached' }));
+
+    const statuses: HttpCacheStatus[] = [];
+    const unsubscribe = subscribeToHttpCacheStatus(status => statuses.push(status));
+
+    now += 2 * getTtlForUrl(url);
+    const offline = jest.fn(async () => {
+      throw new TypeError('Network request failed');
+    });
+
+    expect(await withHttpCache(url, offline, { forceRefresh: true })).toEqual({ title: 'Cached' });
+    expect(getHttpCacheStatus()).toEqual({
+      isShowingStaleData: true,
+      staleEntryCount: 1,
+      oldestStaleAt: new Date(storedAt).toISOString(),
+    });
+    expect(statuses[statuses.length - 1].isShowingStaleData).toBe(true);
+
+    // A successful refresh clears the stale flag
+    await withHttpCache(url, async () => ({ title: 'Fresh' }), { forceRefresh: true });
+    expect(getHttpCacheStatus().isShowingStaleData).toBe(false);
+
+    unsubscribe();
+  });
+
+  it('should re-throw when the network fails and nothing is cached', async () => {
+    const error = new TypeError('Network request failed');
+    await expect(
+      withHttpCache(`${BASE}/movie/7`, async () => {
+        throw error;
+      })
+    ).rejects.toBe(error);
+  });
+
+  it('should evict least recently used entries beyond the entry cap', async () => {
+    const extra = 5;
+    const total = HTTP_CACHE_CONFIG.MAX_ENTRIES + extra;
+
+    for (let i = 0; i < total; i++) {
+      now += 1;
+      await withHttpCache(`${BASE}/movie/${i}`, async () => ({ id: i }));
+    }
+
+    const stats = await getHttpCacheStats();
+    expect(stats.entryCount).toBe(HTTP_CACHE_CONFIG.MAX_ENTRIES);
+
+    // Oldest entries were evicted and must be fetched again
+    const fetcher = jest.fn(async () => ({ id: 0 }));
+    await withHttpCache(`${BASE}/movie/0`, fetcher);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    // Most recent entries are still cached
+    const cachedFetcher = jest.fn(async () => ({ id: -1 }));
+    expect(await withHttpCache(`${BASE}/movie/${total - 1}`, cachedFetcher)).toEqual({ id: total - 1 });
+    expect(cachedFetcher).not.toHaveBeenCalled();
+  });
+});
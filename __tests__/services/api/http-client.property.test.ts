@@ -0,0 +1,265 @@
+/**
+ * Property-based tests for the shared HTTP client
+ * Feature: unified-http-client
+ *
+ * Validates backoff with jitter, Retry-After handling, timeouts,
+ * in-flight request de-duplication, interceptors and the error hierarchy.
+ */
+
+import * as fc from 'fast-check';
+import {
+  createHttpClient,
+  createAuthInterceptor,
+  createMetricsInterceptor,
+  calculateBackoffDelay,
+  parseRetryAfter,
+  getRetryDelay,
+  ApiError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  type HttpMetric,
+  type RetryConfig,
+} from '@/services/api/http';
+import { TMDBApiError } from '@/services/api/tmdb';
+import { CloudflareApiError } from '@/services/api/cloudflare';
+import { OMDbError } from '@/services/api/omdb/errors';
+import { getErrorTypeFromError, getErrorTypeFromStatusCode } from '@/components/ui/error-state-utils';
+
+const FAST_RETRY: RetryConfig = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+/** Build a minimal fetch Response */
+function mockResponse(status: number, body: unknown = {}, headers: Record<string, string> = {}) {
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: `HTTP ${status}`,
+    url: 'https://api.example.com/test',
+    headers: { get: (name: string) => headers[name] ?? null },
+    json: () => Promise.resolve(body),
+  } as unknown as Response;
+}
+
+describe('Feature: unified-http-client, Backoff and Retry-After', () => {
+  it('should keep jittered delays within ±25% of the exponential delay and below the cap', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 6 }),
+        fc.integer({ min: 100, max: 2000 }),
+        fc.integer({ min: 2000, max: 30000 }),
+        (attempt, baseDelayMs, maxDelayMs) => {
+          const config: RetryConfig = { maxAttempts: 5, baseDelayMs, maxDelayMs, jitter: true };
+          const exponential = Math.min(baseDelayMs * Math.pow(2, attempt), maxDelayMs);
+          const delay = calculateBackoffDelay(attempt, config);
+
+          expect(delay).toBeLessThanOrEqual(maxDelayMs);
+          expect(delay).toBeGreaterThanOrEqual(Math.floor(exponential * 0.75));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should parse Retry-After as seconds or an HTTP date', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 3600 }), (seconds) => {
+        const now = Date.UTC(2024, 0, 1);
+        expect(parseRetryAfter(String(seconds), now)).toBe(seconds * 1000);
+        expect(parseRetryAfter(new Date(now + seconds * 1000).toUTCString(), now)).toBe(seconds * 1000);
+      }),
+      { numRuns: 50 }
+    );
+
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+
+  it('should prefer the server-suggested delay, capped at maxDelayMs', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 120000 }),
+        fc.integer({ min: 1000, max: 60000 }),
+        (retryAfterMs, maxDelayMs) => {
+          const error = new HttpError('Too many requests', 429, true, 'RATE_LIMIT', { retryAfterMs });
+          const delay = getRetryDelay(error, 0, { maxAttempts: 3, baseDelayMs: 100, maxDelayMs });
+          expect(delay).toBe(Math.min(retryAfterMs, maxDelayMs));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should read Retry-After from 429 responses', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(mockResponse(429, {}, { 'Retry-After': '3' }))
+      .mockResolvedValueOnce(mockResponse(200, { ok: true }));
+    global.fetch = fetchMock;
+
+    const delays: number[] = [];
+    const client = createHttpClient({
+      provider: 'test',
+      retry: FAST_RETRY,
+      getRetryDelay: (error) => {
+        delays.push(error.retryAfterMs ?? -1);
+        return 0;
+      },
+    });
+
+    await expect(client.get('https://api.example.com/rate-limited')).resolves.toEqual({ ok: true });
+    expect(delays).toEqual([3000]);
+  });
+});
+
+describe('Feature: unified-http-client, Request pipeline', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should share one network request between identical in-flight GETs', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 2, max: 8 }), async (callers) => {
+        let resolveFetch: (response: Response) => void = () => {};
+        const fetchMock = jest.fn(
+          () => new Promise<Response>(resolve => { resolveFetch = resolve; })
+        );
+        global.fetch = fetchMock as unknown as typeof fetch;
+
+        const client = createHttpClient({ provider: 'test', retry: FAST_RETRY });
+        const requests = Array.from({ length: callers }, () =>
+          client.get<{ id: number }>('https://api.example.com/movie/1')
+        );
+
+        // Let the shared request reach fetch before it resolves
+        await new Promise(resolve => setTimeout(resolve, 0));
+        resolveFetch(mockResponse(200, { id: 1 }));
+        const results = await Promise.all(requests);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        results.forEach(result => expect(result).toEqual({ id: 1 }));
+
+        // Once settled, the next call goes to the network again
+        global.fetch = jest.fn().mockResolvedValue(mockResponse(200, { id: 2 }));
+        expect(await client.get('https://api.example.com/movie/1')).toEqual({ id: 2 });
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should abort slow requests with a retryable TimeoutError', async () => {
+    global.fetch = jest.fn((_url: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          const error = new Error('Aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      })
+    ) as unknown as typeof fetch;
+
+    const client = createHttpClient({
+      provider: 'test',
+      timeoutMs: 10,
+      retry: { maxAttempts: 1, baseDelayMs: 1, maxDelayMs: 1 },
+    });
+
+    const error = await client.get('https://api.example.com/slow').catch((e: TimeoutError) => e) as TimeoutError;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.isRetryable).toBe(true);
+    expect(error.provider).toBe('test');
+  });
+
+  it('should map fetch network failures to NetworkError and retry them', async () => {
+    const fetchMock = jest.fn().mockRejectedValue(new TypeError('Network request failed'));
+    global.fetch = fetchMock;
+
+    const client = createHttpClient({ provider: 'test', retry: FAST_RETRY });
+
+    await expect(client.get('https://api.example.com/offline')).rejects.toBeInstanceOf(NetworkError);
+    expect(fetchMock).toHaveBeenCalledTimes(FAST_RETRY.maxAttempts);
+  });
+
+  it('should apply auth interceptors and report one metric per request', async () => {
+    const fetchMock = jest.fn()
+      .mockResolvedValueOnce(mockResponse(503))
+      .mockResolvedValueOnce(mockResponse(200, { ok: true }));
+    global.fetch = fetchMock;
+
+    const metrics: HttpMetric[] = [];
+    const client = createHttpClient({
+      provider: 'test',
+      retry: FAST_RETRY,
+      interceptors: [
+        createAuthInterceptor({
+          headers: () => ({ Authorization: 'Bearer token' }),
+          query: () => ({ api_key: 'secret' }),
+        }),
+        createMetricsInterceptor(metric => metrics.push(metric)),
+      ],
+    });
+
+    await client.get('https://api.example.com/movie/1?language=en');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(new URL(url).searchParams.get('api_key')).toBe('secret');
+    expect(init.headers.Authorization).toBe('Bearer token');
+
+    expect(metrics).toHaveLength(1);
+    expect(metrics[0]).toMatchObject({ ok: true, status: 200, attempts: 2 });
+    expect(metrics[0].url).not.toContain('secret');
+  });
+
+  it('should let providers map error bodies to their own error classes', async () => {
+    global.fetch = jest.fn().mockResolvedValue(
+      mockResponse(404, { success: false, error: 'Movie not found', requestId: 'req-42' })
+    );
+
+    const client = createHttpClient({
+      provider: 'cloudflare',
+      retry: FAST_RETRY,
+      createError: (response, body) => {
+        const { error, requestId } = body as { error: string; requestId: string };
+        return new CloudflareApiError(error, response.status, requestId);
+      },
+    });
+
+    const error = await client.get('https://api.example.com/movie/404').catch((e: CloudflareApiError) => e) as CloudflareApiError;
+    expect(error).toBeInstanceOf(CloudflareApiError);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error).toMatchObject({ message: 'Movie not found', requestId: 'req-42', code: 'NOT_FOUND' });
+  });
+});
+
+describe('Feature: unified-http-client, Error hierarchy', () => {
+  it('should make every provider error an ApiError with a consistent status mapping', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 400, max: 599 }),
+        (status) => {
+          const retryable = status >= 500 || status === 429;
+          const errors = [
+            new TMDBApiError('tmdb', status, retryable),
+            new CloudflareApiError('cf', status, undefined, retryable),
+            new OMDbError('omdb', 'HTTP_ERROR', status, retryable),
+          ];
+
+          errors.forEach(error => {
+            expect(error).toBeInstanceOf(ApiError);
+            expect(error.statusCode).toBe(status);
+            expect(error.isRetryable).toBe(retryable);
+          });
+
+          expect(getErrorTypeFromError(errors[0])).toBe(getErrorTypeFromStatusCode(status));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should classify network and timeout errors for the error state', () => {
+    expect(getErrorTypeFromError(new NetworkError())).toBe('network_offline');
+    expect(getErrorTypeFromError(new TimeoutError(1000))).toBe('timeout');
+    expect(getErrorTypeFromError(new Error('boom'))).toBe('unknown');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Property-based tests for the cross-provider ID mapping registry
+ * Feature: cross-provider-id-mapping
+ *
+ * Validates merging and lookup of learned IDs, persistence, and the
+ * re-resolution of stored references after a provider switch.
+ */
+
+import * as fc from 'fast-check';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  clearIdMappings,
+  flushIdMappings,
+  getCachedExternalIds,
+  lookupExternalIds,
+  rememberExternalIds,
+  resolveMediaRef,
+  resolveMediaRefs,
+  setMediaIdResolver,
+  tagMediaRef,
+  type MediaIdResolver,
+} from '@/services/api/id-mapping';
+import { generateNumericId } from '@/services/api/omdb/id-mapping';
+import { ID_MAPPING_CONFIG } from '@/constants/api';
+import type { MediaIdSpace, MediaRef } from '@/types/media';
+
+const imdbIdArb = fc.integer({ min: 1, max: 9999999 }).map(n => `tt${String(n).padStart(7, '0')}`);
+const tmdbIdArb = fc.integer({ min: 1, max: 1000000 });
+const mediaTypeArb = fc.constantFrom<'movie' | 'tv'>('movie', 'tv');
+
+/** Resolver backed by a fixed table, counting lookups */
+function createFakeResolver(
+  idSpace: MediaIdSpace,
+  table: { imdbId: string; tmdbId: number }[]
+): MediaIdResolver & { calls: number } {
+  const resolver = {
+    idSpace,
+    calls: 0,
+    async getExternalIds(space: MediaIdSpace, _mediaType: 'movie' | 'tv', id: number) {
+      resolver.calls++;
+      const entry = table.find(e => (space === 'omdb' ? generateNumericId(e.imdbId) : e.tmdbId) === id);
+      return entry ? { imdbId: entry.imdbId, tmdbId: entry.tmdbId, omdbId: generateNumericId(entry.imdbId) } : null;
+    },
+    async findByImdbId(_mediaType: 'movie' | 'tv', imdbId: string) {
+      resolver.calls++;
+      const entry = table.find(e => e.imdbId === imdbId);
+      if (!entry) return null;
+      return idSpace === 'omdb' ? generateNumericId(entry.imdbId) : entry.tmdbId;
+    },
+  };
+  return resolver;
+}
+
+beforeEach(async () => {
+  (AsyncStorage as unknown as { __resetStore: () => void }).__resetStore();
+  setMediaIdResolver(null);
+  await clearIdMappings();
+});
+
+afterAll(() => {
+  setMediaIdResolver(null);
+});
+
+describe('Feature: cross-provider-id-mapping, Registry', () => {
+  it('should link IDs learned separately and derive the OMDb ID from the IMDb ID', async () => {
+    await fc.assert(
+      fc.asyncProperty(imdbIdArb, tmdbIdArb, mediaTypeArb, async (imdbId, tmdbId, mediaType) => {
+        await clearIdMappings();
+
+        // An OMDb search result reveals the IMDb ID, a TMDB lookup the TMDB ID
+        rememberExternalIds(mediaType, { imdbId });
+        rememberExternalIds(mediaType, { imdbId, tmdbId });
+
+        const expected = { imdbId, tmdbId, omdbId: generateNumericId(imdbId) };
+        expect(getCachedExternalIds('tmdb', mediaType, tmdbId)).toEqual(expected);
+        expect(getCachedExternalIds('omdb', mediaType, generateNumericId(imdbId))).toEqual(expected);
+
+        // TMDB IDs are scoped by media type
+        const otherType = mediaType === 'movie' ? 'tv' : 'movie';
+        expect(getCachedExternalIds('tmdb', otherType, tmdbId)).toBeNull();
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should survive a restart once flushed', async () => {
+    rememberExternalIds('movie', { imdbId: 'tt0133093', tmdbId: 603 });
+    await flushIdMappings();
+
+    const persisted = (await AsyncStorage.getItem(ID_MAPPING_CONFIG.STORAGE_KEY)) as string;
+    expect(JSON.parse(persisted)).toHaveLength(1);
+
+    // Simulate a fresh app session reading the persisted registry
+    let restarted: typeof import('@/services/api/id-mapping') | undefined;
+    let freshStorage: typeof AsyncStorage | undefined;
+    jest.isolateModules(() => {
+      restarted = require('@/services/api/id-mapping');
+      freshStorage = require('@react-native-async-storage/async-storage');
+    });
+    await freshStorage!.setItem(ID_MAPPING_CONFIG.STORAGE_KEY, persisted);
+
+    expect(restarted!.getCachedExternalIds('tmdb', 'movie', 603)).toBeNull();
+    expect(await restarted!.lookupExternalIds('tmdb', 'movie', 603)).toMatchObject({ imdbId: 'tt0133093' });
+  });
+});
+
+describe('Feature: cross-provider-id-mapping, Reference resolution', () => {
+  it('should leave references alone when no resolver is registered or the space already matches', async () => {
+    const ref: MediaRef = { id: 603, mediaType: 'movie', idSpace: 'tmdb' };
+    expect(await resolveMediaRef(ref)).toBe(ref);
+
+    setMediaIdResolver(createFakeResolver('tmdb', []));
+    expect(await resolveMediaRef(ref)).toBe(ref);
+  });
+
+  it('should translate TMDB references to OMDb IDs and back', async () => {
+    await fc.assert(
+      fc.asyncProperty(imdbIdArb, tmdbIdArb, mediaTypeArb, async (imdbId, tmdbId, mediaType) => {
+        await clearIdMappings();
+        const table = [{ imdbId, tmdbId }];
+
+        setMediaIdResolver(createFakeResolver('omdb', table));
+        const toOmdb = await resolveMediaRef({ id: tmdbId, mediaType, idSpace: 'tmdb' as const });
+        expect(toOmdb).toEqual({ id: generateNumericId(imdbId), mediaType, idSpace: 'omdb', imdbId });
+
+        // The way back only needs the registry
+        const resolver = createFakeResolver('tmdb', []);
+        setMediaIdResolver(resolver);
+        const back = await resolveMediaRef(toOmdb);
+        expect(back).toEqual({ id: tmdbId, mediaType, idSpace: 'tmdb', imdbId });
+        expect(resolver.calls).toBe(0);
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should keep references it cannot resolve and drop duplicates after resolving', async () => {
+    setMediaIdResolver(createFakeResolver('omdb', [{ imdbId: 'tt0133093', tmdbId: 603 }]));
+
+    const refs = [
+      { id: 603, mediaType: 'movie' as const, idSpace: 'tmdb' as const, title: 'The Matrix' },
+      { id: generateNumericId('tt0133093'), mediaType: 'movie' as const, idSpace: 'omdb' as const, title: 'The Matrix' },
+      { id: 999, mediaType: 'movie' as const, idSpace: 'tmdb' as const, title: 'Unknown' },
+    ];
+
+    const result = await resolveMediaRefs(refs);
+    expect(result.changed).toBe(true);
+    expect(result.items.map(item => item.title)).toEqual(['The Matrix', 'Unknown']);
+    expect(result.items[0]).toMatchObject({ idSpace: 'omdb', imdbId: 'tt0133093' });
+    expect(result.items[1]).toBe(refs[2]);
+  });
+
+  it('should tag new references with the active ID space and known IMDb ID', () => {
+    const untagged = { id: 603, mediaType: 'movie' as const };
+    expect(tagMediaRef(untagged)).toBe(untagged);
+
+    rememberExternalIds('movie', { imdbId: 'tt0133093', tmdbId: 603 });
+    setMediaIdResolver(createFakeResolver('tmdb', []));
+    expect(tagMediaRef(untagged)).toEqual({ id: 603, mediaType: 'movie', idSpace: 'tmdb', imdbId: 'tt0133093' });
+  });
+
+  it('should tag legacy references without an ID space with the space active on first run', async () => {
+    setMediaIdResolver(createFakeResolver('tmdb', []));
+    const legacy = [{ id: 603, mediaType: 'movie' as const }];
+
+    const result = await resolveMediaRefs(legacy);
+    expect(result).toEqual({ items: [{ id: 603, mediaType: 'movie', idSpace: 'tmdb' }], changed: true });
+    expect(await AsyncStorage.getItem(ID_MAPPING_CONFIG.LEGACY_ID_SPACE_KEY)).toBe('tmdb');
+  });
+
+  it('should translate legacy references after a provider switch', async () => {
+    // First run of ID tracking records the provider the untagged items were saved with
+    setMediaIdResolver(createFakeResolver('tmdb', []));
+
+    // Later the provider is switched, before the items were ever loaded
+    setMediaIdResolver(createFakeResolver('omdb', [{ imdbId: 'tt0133093', tmdbId: 603 }]));
+    const legacy = [{ id: 603, mediaType: 'movie' as const, title: 'The Matrix' }];
+
+    const result = await resolveMediaRefs(legacy);
+    expect(result.changed).toBe(true);
+    expect(result.items).toEqual([
+      { id: generateNumericId('tt0133093'), mediaType: 'movie', idSpace: 'omdb', imdbId: 'tt0133093', title: 'The Matrix' },
+    ]);
+    expect(await lookupExternalIds('tmdb', 'movie', 603)).toMatchObject({ imdbId: 'tt0133093' });
+  });
+});
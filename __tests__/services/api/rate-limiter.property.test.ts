@@ -0,0 +1,224 @@
+/**
+ * Property-based tests for the client-side rate limiter
+ * Feature: api-rate-limiter
+ *
+ * Validates priority lanes, the daily quota and low-priority reserve,
+ * persisted counters, server hints and integration with the HTTP client.
+ */
+
+import * as fc from 'fast-check';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  createRateLimiter,
+  createHttpClient,
+  getQuotaStatus,
+  subscribeToQuotaStatus,
+  QuotaExceededError,
+  type QuotaStatus,
+  type RequestPriority,
+} from '@/services/api/http';
+import { isProviderFailover } from '@/services/api/adapters/fallback-adapter';
+import { API_HEADERS } from '@/constants/api';
+
+/** Let fire-and-forget AsyncStorage writes settle */
+const flushPromises = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const priorityArb = fc.constantFrom<RequestPriority>('high', 'normal', 'low');
+
+let providerCounter = 0;
+/** Unique provider name so limiters don't share persisted counters */
+const nextProvider = () => `test-provider-${++providerCounter}`;
+
+beforeEach(() => {
+  (AsyncStorage as unknown as { __resetStore: () => void }).__resetStore();
+});
+
+describe('Feature: api-rate-limiter, Priority lanes', () => {
+  it('should serve queued requests highest priority first, FIFO within a lane', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.array(priorityArb, { minLength: 1, maxLength: 12 }), async (priorities) => {
+        // Hold the clock still until every request is queued
+        let frozen = true;
+        const limiter = createRateLimiter({
+          provider: nextProvider(),
+          capacity: 1,
+          refillPerSecond: 1000,
+          now: () => (frozen ? 0 : Date.now()),
+        });
+
+        // Use the only token so everything below has to queue
+        await limiter.acquire('low');
+
+        const order: number[] = [];
+        const requests = priorities.map((priority, index) =>
+          limiter.acquire(priority).then(() => order.push(index))
+        );
+        await flushPromises();
+        frozen = false;
+        await Promise.all(requests);
+
+        const rank: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+        const expected = priorities
+          .map((priority, index) => ({ priority, index }))
+          .sort((a, b) => rank[a.priority] - rank[b.priority] || a.index - b.index)
+          .map(entry => entry.index);
+
+        expect(order).toEqual(expected);
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
+
+describe('Feature: api-rate-limiter, Daily quota', () => {
+  it('should refuse requests once the daily limit is reached', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 1, max: 15 }), async (dailyLimit) => {
+        const limiter = createRateLimiter({
+          provider: nextProvider(),
+          capacity: 100,
+          refillPerSecond: 100,
+          dailyLimit,
+        });
+
+        for (let i = 0; i < dailyLimit; i++) {
+          await limiter.acquire('high');
+        }
+
+        const error = await limiter.acquire('high').catch((e: QuotaExceededError) => e);
+        expect(error).toBeInstanceOf(QuotaExceededError);
+        expect(limiter.getStatus()).toMatchObject({ used: dailyLimit, remaining: 0, isExhausted: true });
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should keep the reserve for non-low-priority requests', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.integer({ min: 2, max: 20 }),
+        fc.integer({ min: 1, max: 10 }),
+        async (dailyLimit, reserveSeed) => {
+          const reserve = Math.min(reserveSeed, dailyLimit - 1);
+          const limiter = createRateLimiter({
+            provider: nextProvider(),
+            capacity: 100,
+            refillPerSecond: 100,
+            dailyLimit,
+            lowPriorityReserve: reserve,
+          });
+
+          let lowGranted = 0;
+          while (await limiter.acquire('low').then(() => true, () => false)) {
+            lowGranted++;
+          }
+          expect(lowGranted).toBe(dailyLimit - reserve);
+
+          // The reserve is still available to the detail page
+          for (let i = 0; i < reserve; i++) {
+            await limiter.acquire('high');
+          }
+          await expect(limiter.acquire('high')).rejects.toBeInstanceOf(QuotaExceededError);
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should persist the daily counter and reset it at UTC midnight', async () => {
+    const provider = nextProvider();
+    let now = Date.UTC(2024, 5, 1, 23, 0);
+    const config = { provider, capacity: 10, refillPerSecond: 10, dailyLimit: 50, now: () => now };
+
+    const first = createRateLimiter(config);
+    await first.acquire();
+    await first.acquire();
+    await flushPromises();
+
+    // Simulate an app restart
+    const restarted = createRateLimiter(config);
+    await restarted.acquire();
+    expect(restarted.getStatus()).toMatchObject({ used: 3, remaining: 47 });
+    expect(restarted.getStatus().resetsAt).toBe(new Date(Date.UTC(2024, 5, 2)).toISOString());
+
+    now = Date.UTC(2024, 5, 2, 0, 30);
+    await restarted.acquire();
+    expect(restarted.getStatus()).toMatchObject({ used: 1, remaining: 49 });
+  });
+
+  it('should tighten the estimate with X-RateLimit-Remaining and honour markExhausted', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.integer({ min: 0, max: 500 }), async (serverRemaining) => {
+        const limiter = createRateLimiter({
+          provider: nextProvider(),
+          capacity: 10,
+          refillPerSecond: 10,
+          dailyLimit: 1000,
+        });
+        await limiter.acquire();
+
+        limiter.recordResponse({
+          get: (name: string) => (name === API_HEADERS.RATE_LIMIT_REMAINING ? String(serverRemaining) : null),
+        });
+        expect(limiter.getStatus().remaining).toBe(serverRemaining);
+
+        limiter.markExhausted();
+        expect(limiter.getStatus().isExhausted).toBe(true);
+        await expect(limiter.acquire('high')).rejects.toBeInstanceOf(QuotaExceededError);
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('should publish status changes for the registered provider', async () => {
+    const provider = nextProvider();
+    const limiter = createRateLimiter({ provider, capacity: 5, refillPerSecond: 5, dailyLimit: 10 });
+    const seen: QuotaStatus[] = [];
+    const unsubscribe = subscribeToQuotaStatus(statuses => {
+      const status = statuses.find(s => s.provider === provider);
+      if (status) seen.push(status);
+    });
+
+    await limiter.acquire();
+    unsubscribe();
+
+    expect(seen[seen.length - 1]).toMatchObject({ used: 1, remaining: 9 });
+    expect(getQuotaStatus(provider)).toMatchObject({ dailyLimit: 10, used: 1 });
+  });
+});
+
+describe('Feature: api-rate-limiter, HTTP client integration', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('should count each attempt and stop sending once the quota is used up', async () => {
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      headers: { get: () => null },
+      json: () => Promise.resolve({ ok: true }),
+    });
+    global.fetch = fetchMock;
+
+    const rateLimiter = createRateLimiter({
+      provider: nextProvider(),
+      capacity: 10,
+      refillPerSecond: 10,
+      dailyLimit: 2,
+    });
+    const client = createHttpClient({ provider: 'test', rateLimiter });
+
+    await client.get('https://api.example.com/a', { priority: 'high' });
+    await client.get('https://api.example.com/b');
+    const error = await client.get('https://api.example.com/c').catch((e: QuotaExceededError) => e) as QuotaExceededError;
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.isRetryable).toBe(false);
+    // The fallback chain moves on to the next provider
+    expect(isProviderFailover(error)).toBe(true);
+  });
+});
@@ -136,7 +136,8 @@ describe('Feature: moviestream-mvp, Property 40: Network Retry Logic', () => {
     it('should not retry for non-retryable errors (4xx)', async () => {
       await fc.assert(
         fc.asyncProperty(
-          fc.integer({ min: 400, max: 499 }), // 4xx status codes
+          // 4xx status codes, except 429 (rate limited), which is retried
+          fc.integer({ min: 400, max: 499 }).filter(status => status !== 429),
           async (statusCode) => {
             fetchCallCount = 0;
 
@@ -0,0 +1,155 @@
+/**
+ * Property-based tests for the shipped locale files
+ * Feature: app-translations
+ *
+ * Properties tested:
+ * - Every supported locale has a file with exactly the keys of en.json
+ * - Translations keep the placeholders of the English string
+ * - Every key used in app/ and components/ exists in en.json
+ * - Switching locale translates with the new language and notifies subscribers
+ */
+
+import * as fc from 'fast-check';
+import * as fs from 'fs';
+import * as path from 'path';
+import { i18n, SUPPORTED_LOCALES, subscribeToLocale, t, type SupportedLocale } from '@/services/localization';
+
+jest.mock('@/services/storage', () => ({
+  getLocalePreference: jest.fn().mockResolvedValue(null),
+  saveLocalePreference: jest.fn().mockResolvedValue(undefined),
+}));
+
+const ROOT = path.join(__dirname, '..', '..');
+const LOCALES_DIR = path.join(ROOT, 'locales');
+const SOURCE_DIRS = ['app', 'components', 'constants', 'utils', 'services', 'hooks'];
+
+type Translations = { [key: string]: string | Translations };
+
+/** Flatten nested translations into dotted keys */
+function flatten(translations: Translations, prefix = ''): Record<string, string> {
+  return Object.entries(translations).reduce<Record<string, string>>((flat, [key, value]) => {
+    const fullKey = prefix ? `${prefix}.${key}` : key;
+    return typeof value === 'string'
+      ? { ...flat, [fullKey]: value }
+      : { ...flat, ...flatten(value, fullKey) };
+  }, {});
+}
+
+function loadLocale(code: string): Translations {
+  return JSON.parse(fs.readFileSync(path.join(LOCALES_DIR, `${code}.json`), 'utf8'));
+}
+
+function placeholders(text: string): string[] {
+  return Array.from(text.matchAll(/\{\{(\w+)\}\}/g), match => match[1]).sort();
+}
+
+/** Source files under the given directory */
+function listSourceFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listSourceFiles(entryPath);
+    return /\.tsx?$/.test(entry.name) ? [entryPath] : [];
+  });
+}
+
+/** Keys passed as string literals to t(), translate() or labelKey */
+function findUsedKeys(source: string): string[] {
+  const patterns = [
+    /\b(?:t|translate)\(\s*'([\w.]+)'/g,
+    /\b(?:t|translate)\([^'()]*\?\s*'([\w.]+)'\s*:\s*'([\w.]+)'/g,
+    /\blabelKey:\s*'([\w.]+)'/g,
+  ];
+  return patterns.flatMap(pattern =>
+    Array.from(source.matchAll(pattern), match => match.slice(1).filter(Boolean)).flat()
+  );
+}
+
+const english = loadLocale('en');
+const englishFlat = flatten(english);
+const englishKeys = Object.keys(englishFlat);
+const localeCodes = Object.keys(SUPPORTED_LOCALES) as SupportedLocale[];
+
+/** Whether a dotted key names a string or a plural group in en.json */
+function existsInEnglish(key: string): boolean {
+  let node: string | Translations | undefined = english;
+  for (const part of key.split('.')) {
+    if (typeof node !== 'object' || !(part in node)) return false;
+    node = node[part];
+  }
+  return true;
+}
+
+describe('Locale Files Property Tests', () => {
+  afterEach(() => {
+    i18n.locale = 'en';
+  });
+
+  it('ships a locale file for exactly the supported locales', () => {
+    const files = fs.readdirSync(LOCALES_DIR)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.replace(/\.json$/, ''))
+      .sort();
+    expect(files).toEqual([...localeCodes].sort());
+  });
+
+  it.each(localeCodes)('%s has exactly the keys of en.json', (code) => {
+    const keys = Object.keys(flatten(loadLocale(code))).sort();
+    expect(keys).toEqual([...englishKeys].sort());
+  });
+
+  it('keeps the placeholders of every English string', () => {
+    const flatLocales = Object.fromEntries(localeCodes.map(code => [code, flatten(loadLocale(code))]));
+    fc.assert(
+      fc.property(fc.constantFrom(...localeCodes), fc.constantFrom(...englishKeys), (code, key) => {
+        const translated = flatLocales[code][key];
+        expect(typeof translated).toBe('string');
+        expect(translated.trim().length).toBeGreaterThan(0);
+        // Singular forms may spell out the count ("Titles suggested in the last day")
+        const expected = placeholders(englishFlat[key]).filter(name => !key.endsWith('.one') || name !== 'count');
+        const actual = placeholders(translated).filter(name => !key.endsWith('.one') || name !== 'count');
+        expect(actual).toEqual(expected);
+        return true;
+      }),
+      { numRuns: 500 }
+    );
+  });
+
+  it('defines every key used by screens and components', () => {
+    const missing = SOURCE_DIRS
+      .flatMap(dir => listSourceFiles(path.join(ROOT, dir)))
+      .flatMap(file => findUsedKeys(fs.readFileSync(file, 'utf8'))
+        .filter(key => !existsInEnglish(key))
+        .map(key => `${path.relative(ROOT, file)}: ${key}`));
+    expect(missing).toEqual([]);
+  });
+
+  it('translates with the chosen locale and notifies subscribers when it changes', () => {
+    const flatLocales = Object.fromEntries(localeCodes.map(code => [code, flatten(loadLocale(code))]));
+    fc.assert(
+      fc.property(fc.constantFrom(...localeCodes), fc.constantFrom(...englishKeys), (code, key) => {
+        i18n.locale = 'en';
+        const listener = jest.fn();
+        const unsubscribe = subscribeToLocale(listener);
+        i18n.locale = code;
+        unsubscribe();
+        expect(listener).toHaveBeenCalledTimes(code === 'en' ? 0 : 1);
+
+        // Plural forms are looked up through their group with a count, and the
+        // language's own plural rules pick the form ("other" when it has none)
+        const [, group, form] = key.match(/^(.+)\.(one|other)$/) ?? [key, key, null];
+        const count = form === 'one' ? 1 : 2;
+        const rule = `${group}.${new Intl.PluralRules(code).select(count)}`;
+        const selected = !form ? key : rule in flatLocales[code] ? rule : `${group}.other`;
+        const values: Record<string, string | number> = Object.fromEntries(
+          [...placeholders(englishFlat[key]), ...placeholders(englishFlat[selected])].map(name => [name, `<${name}>`])
+        );
+        if (form) values.count = count;
+        const expected = flatLocales[code][selected].replace(/\{\{(\w+)\}\}/g, (_, name: string) => String(values[name]));
+
+        expect(t(group, values)).toBe(expected);
+        return true;
+      }),
+      { numRuns: 300 }
+    );
+  });
+});
@@ -0,0 +1,219 @@
+/**
+ * Property-based tests for storage schema migrations
+ * Feature: app-backup
+ *
+ * Properties tested:
+ * - Pending migrations run once, in order, and record the schema version
+ * - A failed migration stops the run and is retried next time
+ * - Data from a newer app version is left alone
+ * - Each migration brings its data up to date and is safe to run twice
+ */
+
+import * as fc from 'fast-check';
+import type { RecentlyViewedItem, UserPreferences } from '@/types/user';
+
+// In-memory AsyncStorage holding raw strings
+const mockStore = new Map<string, string>();
+
+jest.mock('@react-native-async-storage/async-storage', () => ({
+  __esModule: true,
+  default: {
+    getItem: jest.fn(async (key: string) => mockStore.get(key) ?? null),
+    setItem: jest.fn(async (key: string, value: string) => {
+      mockStore.set(key, value);
+    }),
+    removeItem: jest.fn(async (key: string) => {
+      mockStore.delete(key);
+    }),
+    multiRemove: jest.fn(async (keys: string[]) => {
+      keys.forEach(key => mockStore.delete(key));
+    }),
+  },
+}));
+
+// Import after mock setup
+import {
+  runStorageMigrations,
+  STORAGE_MIGRATIONS,
+  STORAGE_SCHEMA_VERSION,
+  type StorageMigration,
+} from '@/services/storage-migrations';
+import { STORAGE_KEYS, MAX_RECENTLY_VIEWED } from '@/services/storage';
+import { STORAGE_KEYS as LEGACY_STORAGE_KEYS } from '@/constants/test-ids';
+import { DEFAULT_USER_PREFERENCES } from '@/types/user';
+
+const read = (key: string) => {
+  const value = mockStore.get(key);
+  return value === undefined ? undefined : JSON.parse(value);
+};
+const write = (key: string, value: unknown) => mockStore.set(key, JSON.stringify(value));
+
+/** Migrations that record the order they ran in */
+const recordingMigrations = (versions: number[], log: number[]): StorageMigration[] =>
+  versions.map(version => ({
+    version,
+    description: `Step ${version}`,
+    migrate: async () => {
+      log.push(version);
+    },
+  }));
+
+const recentlyViewedArb: fc.Arbitrary<RecentlyViewedItem> = fc.record({
+  id: fc.integer({ min: 1, max: 20 }),
+  mediaType: fc.constantFrom('movie' as const, 'tv' as const),
+  title: fc.string({ maxLength: 10 }),
+  posterPath: fc.constant(null),
+  viewedAt: fc.integer({ min: Date.UTC(2020, 0, 1), max: Date.UTC(2025, 0, 1) })
+    .map(ts => new Date(ts).toISOString()),
+});
+
+describe('Storage Migrations Property Tests', () => {
+  beforeEach(() => {
+    mockStore.clear();
+  });
+
+  describe('Runner', () => {
+    it('runs pending migrations once, oldest first', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      await fc.assert(
+        fc.asyncProperty(
+          fc.uniqueArray(fc.integer({ min: 1, max: 30 }), { minLength: 1, maxLength: 8 }),
+          fc.integer({ min: 0, max: 30 }),
+          async (versions, stored) => {
+            mockStore.clear();
+            write(STORAGE_KEYS.SCHEMA_VERSION, stored);
+            const log: number[] = [];
+            const latest = Math.max(...versions);
+            const expected = stored > latest ? [] : versions.filter(v => v > stored).sort((a, b) => a - b);
+
+            const version = await runStorageMigrations(recordingMigrations(versions, log));
+
+            expect(log).toEqual(expected);
+            expect(version).toBe(Math.max(stored, latest));
+            // Nothing runs a second time
+            await runStorageMigrations(recordingMigrations(versions, log));
+            expect(log).toEqual(expected);
+            return true;
+          }
+        ),
+        { numRuns: 100 }
+      );
+      warn.mockRestore();
+    });
+
+    it('stops at a failed migration and retries it next time', async () => {
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const log: number[] = [];
+      let fail = true;
+      const migrations: StorageMigration[] = [
+        ...recordingMigrations([1], log),
+        {
+          version: 2,
+          description: 'Flaky',
+          migrate: async () => {
+            if (fail) throw new Error('Disk full');
+            log.push(2);
+          },
+        },
+        ...recordingMigrations([3], log),
+      ];
+
+      expect(await runStorageMigrations(migrations)).toBe(1);
+      expect(log).toEqual([1]);
+
+      fail = false;
+      expect(await runStorageMigrations(migrations)).toBe(3);
+      expect(log).toEqual([1, 2, 3]);
+      error.mockRestore();
+    });
+
+    it('leaves data from a newer app version alone', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      write(STORAGE_KEYS.SCHEMA_VERSION, STORAGE_SCHEMA_VERSION + 1);
+
+      expect(await runStorageMigrations()).toBe(STORAGE_SCHEMA_VERSION + 1);
+      expect(read(STORAGE_KEYS.SCHEMA_VERSION)).toBe(STORAGE_SCHEMA_VERSION + 1);
+      warn.mockRestore();
+    });
+  });
+
+  describe('Migrations', () => {
+    it('brings data from before versioning up to date', async () => {
+      write(STORAGE_KEYS.WATCHLIST, [
+        { id: 1, mediaType: 'movie', title: 'Alien', posterPath: null, addedAt: '2024-01-01T00:00:00.000Z', syncStatus: 'synced' },
+      ]);
+      write(STORAGE_KEYS.USER_PREFERENCES, { themeMode: 'dark' });
+      write(LEGACY_STORAGE_KEYS.DOWNLOADS_DATA, [
+        { id: 'd1', mediaId: 1, mediaType: 'movie', title: 'Alien', posterPath: null, filePath: '/alien.mp4', fileSize: 10, downloadedAt: '2024-01-01', expiresAt: null },
+      ]);
+      // The legacy locale was saved as a bare string
+      mockStore.set(LEGACY_STORAGE_KEYS.USER_LOCALE_PREFERENCE, 'fr');
+
+      expect(await runStorageMigrations()).toBe(STORAGE_SCHEMA_VERSION);
+
+      const [watchlist] = read(STORAGE_KEYS.LISTS);
+      expect(watchlist.items[0].status).toBe('plan_to_watch');
+      expect(watchlist.items[0].statusHistory).toHaveLength(1);
+      expect(read(STORAGE_KEYS.USER_PREFERENCES)).toEqual({ ...DEFAULT_USER_PREFERENCES, themeMode: 'dark' });
+      expect(read(STORAGE_KEYS.DOWNLOADS)).toHaveLength(1);
+      expect(read(STORAGE_KEYS.LOCALE)).toBe('fr');
+      expect(mockStore.has(LEGACY_STORAGE_KEYS.DOWNLOADS_DATA)).toBe(false);
+      expect(mockStore.has(LEGACY_STORAGE_KEYS.USER_LOCALE_PREFERENCE)).toBe(false);
+      expect(read(STORAGE_KEYS.SCHEMA_VERSION)).toBe(STORAGE_SCHEMA_VERSION);
+    });
+
+    it('keeps the newest view of each title in recently viewed', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.array(recentlyViewedArb, { maxLength: 30 }), async (items) => {
+          mockStore.clear();
+          write(STORAGE_KEYS.SCHEMA_VERSION, 2);
+          write(STORAGE_KEYS.RECENTLY_VIEWED, items);
+
+          await runStorageMigrations();
+
+          const cleaned: RecentlyViewedItem[] = read(STORAGE_KEYS.RECENTLY_VIEWED);
+          const keys = cleaned.map(item => `${item.mediaType}:${item.id}`);
+          expect(new Set(keys).size).toBe(keys.length);
+          expect(cleaned.length).toBe(Math.min(MAX_RECENTLY_VIEWED, new Set(items.map(i => `${i.mediaType}:${i.id}`)).size));
+          for (let i = 1; i < cleaned.length; i++) {
+            expect(cleaned[i - 1].viewedAt >= cleaned[i].viewedAt).toBe(true);
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('adds the certification ceiling to preferences saved before it existed', async () => {
+      const saved: Partial<UserPreferences> = { ...DEFAULT_USER_PREFERENCES };
+      delete saved.certificationCeiling;
+      delete saved.certificationCeilingMode;
+      write(STORAGE_KEYS.SCHEMA_VERSION, 7);
+      write(STORAGE_KEYS.USER_PREFERENCES, { ...saved, themeMode: 'dark' });
+
+      await runStorageMigrations();
+
+      expect(read(STORAGE_KEYS.USER_PREFERENCES)).toEqual({
+        ...saved,
+        themeMode: 'dark',
+        certificationCeiling: null,
+        certificationCeilingMode: 'blur',
+      });
+    });
+
+    it('gives the same result when every migration runs twice', async () => {
+      write(STORAGE_KEYS.USER_PREFERENCES, { themeMode: 'light', notificationTypes: { downloads: false } });
+      write(LEGACY_STORAGE_KEYS.DOWNLOADS_DATA, []);
+      for (const migration of STORAGE_MIGRATIONS) {
+        await migration.migrate();
+      }
+      const once = new Map(mockStore);
+
+      for (const migration of STORAGE_MIGRATIONS) {
+        await migration.migrate();
+      }
+
+      expect(new Map(mockStore)).toEqual(once);
+    });
+  });
+});
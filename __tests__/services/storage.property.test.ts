@@ -52,10 +52,17 @@ import {
   removeFromWatchlist,
   isInWatchlist,
   toggleWatchlist,
+  getLists,
+  saveLists,
+  saveCustomLists,
   getRecentlyViewed,
   saveRecentlyViewed,
   addToRecentlyViewed,
   clearRecentlyViewed,
+  getDiaryMonths,
+  getDiaryMonth,
+  saveDiaryMonth,
+  updateDiaryMonth,
   STORAGE_KEYS,
   MAX_RECENTLY_VIEWED,
 } from '@/services/storage';
@@ -214,6 +221,187 @@ describe('Feature: moviestream-mvp, Property 16: Watchlist Toggle (persistence)'
   });
 });
 
+describe('Feature: custom-lists, Watchlist migration', () => {
+  beforeEach(() => {
+    mockStorageInstance.clear();
+    jest.clearAllMocks();
+  });
+
+  it('migrates the legacy watchlist into the default list once', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(watchlistItemArb, { minLength: 0, maxLength: 10 }),
+        async (items) => {
+          mockStorageInstance.clear();
+          mockStorageInstance.set(STORAGE_KEYS.WATCHLIST, items);
+
+          const lists = await getLists();
+
+          expect(lists).toHaveLength(1);
+          expect(lists[0].items).toEqual(items);
+          // The legacy key is removed so the migration doesn't run again
+          expect(mockStorageInstance.removeItem).toHaveBeenLastCalledWith(STORAGE_KEYS.WATCHLIST);
+          expect(await getLists()).toEqual(lists);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('keeps custom lists when the watchlist is saved', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(watchlistItemArb, { minLength: 0, maxLength: 10 }),
+        async (items) => {
+          mockStorageInstance.clear();
+          const [defaultList] = await getLists();
+          const customList = { ...defaultList, id: 'list-a', name: 'Date night', items };
+          await saveLists([defaultList, customList]);
+
+          await saveWatchlist(items);
+
+          const lists = await getLists();
+          expect(lists.map(l => l.id)).toEqual([defaultList.id, 'list-a']);
+          expect(lists[1].items).toEqual(items);
+          expect(await getWatchlist()).toEqual(items);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('keeps both changes when the watchlist and custom lists are saved at once', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(watchlistItemArb, { minLength: 1, maxLength: 10 }),
+        fc.array(watchlistItemArb, { minLength: 0, maxLength: 10 }),
+        async (watchlistItems, listItems) => {
+          mockStorageInstance.clear();
+          const [defaultList] = await getLists();
+          const customList = { ...defaultList, id: 'list-a', name: 'Date night', items: listItems };
+
+          // The lists store's copy of the watchlist is stale; the stored one wins
+          await Promise.all([
+            saveWatchlist(watchlistItems),
+            saveCustomLists([defaultList, customList]),
+          ]);
+
+          const lists = await getLists();
+          expect(lists.map(l => l.id)).toEqual([defaultList.id, 'list-a']);
+          expect(lists[0].items).toEqual(watchlistItems);
+          expect(lists[1].items).toEqual(listItems);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('keeps every title added or removed at once', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uniqueArray(watchlistItemArb, { minLength: 2, maxLength: 10, selector: item => `${item.mediaType}:${item.id}` }),
+        async (items) => {
+          mockStorageInstance.clear();
+          const [removed, ...kept] = items;
+          await addToWatchlist(removed);
+
+          await Promise.all([
+            ...kept.map(item => addToWatchlist(item)),
+            removeFromWatchlist(removed.id, removed.mediaType),
+          ]);
+
+          expect(await getWatchlist()).toEqual(kept);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('Feature: watch-diary, Month partitions', () => {
+  const NOW = '2025-06-15T12:00:00.000Z';
+
+  beforeEach(() => {
+    mockStorageInstance.clear();
+    jest.clearAllMocks();
+  });
+
+  it('keeps the month index in step with the stored months', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uniqueArray(
+          fc.record({
+            year: fc.integer({ min: 2000, max: 2030 }),
+            month: fc.integer({ min: 1, max: 12 }),
+          }).map(({ year, month }) => `${year}-${String(month).padStart(2, '0')}`),
+          { minLength: 1, maxLength: 12 }
+        ),
+        async (months) => {
+          mockStorageInstance.clear();
+          const entry = {
+            entryId: 'diary-1',
+            id: 1,
+            mediaType: 'movie' as const,
+            title: 'Up',
+            posterPath: null,
+            watchedOn: '',
+            isRewatch: false,
+            note: '',
+            createdAt: NOW,
+            updatedAt: NOW,
+          };
+
+          for (const month of months) {
+            await saveDiaryMonth(month, [{ ...entry, watchedOn: `${month}-01` }]);
+          }
+          expect(await getDiaryMonths()).toEqual([...months].sort().reverse());
+          expect(await getDiaryMonth(months[0])).toHaveLength(1);
+
+          // Emptying a month drops its key and its index entry
+          await saveDiaryMonth(months[0], []);
+          expect(await getDiaryMonths()).not.toContain(months[0]);
+          expect(mockStorageInstance.removeItem).toHaveBeenLastCalledWith(
+            `${STORAGE_KEYS.DIARY_MONTH_PREFIX}${months[0]}`
+          );
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('keeps every entry when months are updated at once', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.constantFrom('2025-04', '2025-05', '2025-06'), { minLength: 1, maxLength: 12 }),
+        async (months) => {
+          mockStorageInstance.clear();
+          const entry = (index: number, month: string) => ({
+            entryId: `diary-${index}`,
+            id: index,
+            mediaType: 'movie' as const,
+            title: 'Up',
+            posterPath: null,
+            watchedOn: `${month}-01`,
+            isRewatch: false,
+            note: '',
+            createdAt: NOW,
+            updatedAt: NOW,
+          });
+
+          await Promise.all(months.map((month, index) =>
+            updateDiaryMonth(month, entries => [...entries, entry(index, month)])
+          ));
+
+          const stored = await Promise.all([...new Set(months)].map(month => getDiaryMonth(month)));
+          expect(stored.flat()).toHaveLength(months.length);
+          expect(await getDiaryMonths()).toEqual([...new Set(months)].sort().reverse());
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+});
+
 describe('Feature: moviestream-mvp, Property 34: Recently Viewed Persistence', () => {
   beforeEach(() => {
     mockStorageInstance.clear();
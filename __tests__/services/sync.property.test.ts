@@ -0,0 +1,302 @@
+/**
+ * Property-based tests for the watchlist sync service
+ * Feature: watchlist-sync
+ *
+ * Properties tested:
+ * - The outbox holds only the latest change per title
+ * - Edits made outside the store become the removals and adds that replay them
+ * - Remote changes converge on the newest change per title in any order,
+ *   with removals (tombstones) beating older adds
+ * - Queued local changes beat older remote changes
+ * - Sync keys keep ID spaces apart and stay with a title whose ID is translated
+ * - Push results mark items synced, adopt newer server copies or surface
+ *   per-item errors
+ * - Offline and server errors are retryable; bad requests are not
+ */
+
+import * as fc from 'fast-check';
+import {
+  applyPushResults,
+  applyRemoteChanges,
+  createSyncKey,
+  diffWatchlists,
+  enqueueOperation,
+  getSyncKey,
+  getWatchlistKey,
+  pullWatchlistChanges,
+  pushWatchlistChanges,
+  toSyncedItem,
+  SyncNetworkError,
+} from '@/services/sync';
+import type { WatchlistItem } from '@/types/watchlist';
+import type { SyncOperation, WatchlistChange } from '@/types/sync';
+
+const ENDPOINT = 'https://sync.test';
+
+const timestampArb = fc.integer({ min: Date.UTC(2024, 0, 1), max: Date.UTC(2025, 0, 1) })
+  .map(ts => new Date(ts).toISOString());
+
+const item = (id: number, updatedAt: string, title = `Title ${id}`): WatchlistItem => ({
+  id,
+  mediaType: 'movie',
+  title,
+  posterPath: null,
+  addedAt: updatedAt,
+  updatedAt,
+  syncStatus: 'synced',
+});
+
+const change = (id: number, updatedAt: string, removed = false, title?: string): WatchlistChange => ({
+  key: getWatchlistKey(id, 'movie'),
+  item: removed ? null : toSyncedItem(item(id, updatedAt, title)),
+  updatedAt,
+});
+
+const operation = (id: number, updatedAt: string, removed = false): SyncOperation => ({
+  ...change(id, updatedAt, removed),
+  type: removed ? 'remove' : 'add',
+  error: null,
+});
+
+/** Changes to a few titles with distinct timestamps */
+const changesArb = fc.uniqueArray(
+  fc.record({
+    id: fc.integer({ min: 1, max: 5 }),
+    updatedAt: timestampArb,
+    removed: fc.boolean(),
+  }),
+  { maxLength: 20, selector: c => c.updatedAt }
+).map(records => records.map(({ id, updatedAt, removed }) => change(id, updatedAt, removed)));
+
+describe('Watchlist Sync Property Tests', () => {
+  describe('Outbox', () => {
+    it('keeps only the latest change per title', () => {
+      fc.assert(
+        fc.property(changesArb, (changes) => {
+          let outbox: SyncOperation[] = [];
+          for (const c of changes) {
+            outbox = enqueueOperation(outbox, { ...c, type: c.item ? 'add' : 'remove' });
+          }
+
+          const keys = outbox.map(op => op.key);
+          expect(new Set(keys).size).toBe(keys.length);
+          for (const op of outbox) {
+            const last = changes.filter(c => c.key === op.key).pop();
+            expect(op.updatedAt).toBe(last?.updatedAt);
+            expect(op.error).toBeNull();
+          }
+          return true;
+        })
+      );
+    });
+
+    it('turns an edited watchlist into the changes that replay the edit', () => {
+      const watchlistArb = fc.uniqueArray(
+        fc.record({ id: fc.integer({ min: 1, max: 8 }), updatedAt: timestampArb }),
+        { maxLength: 8, selector: entry => entry.id }
+      ).map(entries => entries.map(({ id, updatedAt }) => item(id, updatedAt)));
+      const removedAt = '2025-06-01T00:00:00.000Z';
+
+      fc.assert(
+        fc.property(watchlistArb, watchlistArb, (previous, items) => {
+          const operations = diffWatchlists(previous, items, removedAt);
+
+          // Replaying the changes on the old watchlist gives the new one
+          const merged = applyRemoteChanges(
+            { items: previous, outbox: [], tombstones: {} },
+            operations.map(op => ({ key: op.key, item: op.item, updatedAt: op.updatedAt }))
+          );
+          const sortByKey = (list: WatchlistItem[]) =>
+            list.map(i => getWatchlistKey(i.id, i.mediaType)).sort();
+          expect(sortByKey(merged.items)).toEqual(sortByKey(items));
+
+          // Unchanged titles aren't sent again
+          for (const op of operations.filter(o => o.type === 'add')) {
+            const old = previous.find(i => getWatchlistKey(i.id, i.mediaType) === op.key);
+            expect(old?.updatedAt).not.toBe(op.updatedAt);
+          }
+          return true;
+        })
+      );
+    });
+  });
+
+  describe('Remote changes', () => {
+    it('converge on the newest change per title in any order', () => {
+      fc.assert(
+        fc.property(
+          changesArb.chain(changes => fc.shuffledSubarray(changes, { minLength: changes.length })
+            .map(shuffled => ({ changes, shuffled }))),
+          ({ changes, shuffled }) => {
+            const inOrder = applyRemoteChanges({ items: [], outbox: [], tombstones: {} }, changes);
+            const anyOrder = applyRemoteChanges({ items: [], outbox: [], tombstones: {} }, shuffled);
+
+            const newest = new Map<string, WatchlistChange>();
+            for (const c of changes) {
+              const current = newest.get(c.key);
+              if (!current || c.updatedAt > current.updatedAt) newest.set(c.key, c);
+            }
+            const expected = [...newest.values()].filter(c => c.item !== null).map(c => c.key).sort();
+            const keys = (items: WatchlistItem[]) => items.map(i => getWatchlistKey(i.id, i.mediaType)).sort();
+
+            expect(keys(inOrder.items)).toEqual(expected);
+            expect(keys(anyOrder.items)).toEqual(expected);
+            expect(anyOrder.items.every(i => i.syncStatus === 'synced')).toBe(true);
+            return true;
+          }
+        )
+      );
+    });
+
+    it('lets a queued local change beat an older remote one', () => {
+      const local = [item(1, '2024-06-02T00:00:00.000Z', 'Local')];
+      const outbox = [operation(1, '2024-06-02T00:00:00.000Z')];
+
+      const older = applyRemoteChanges({ items: local, outbox, tombstones: {} }, [change(1, '2024-06-01T00:00:00.000Z', true)]);
+      expect(older.items).toEqual(local);
+      expect(older.outbox).toEqual(outbox);
+      expect(older.changed).toBe(false);
+
+      // A newer remote removal wins and drops the queued change
+      const newer = applyRemoteChanges({ items: local, outbox, tombstones: {} }, [change(1, '2024-06-03T00:00:00.000Z', true)]);
+      expect(newer.items).toEqual([]);
+      expect(newer.outbox).toEqual([]);
+      expect(newer.tombstones).toEqual({ 'movie:1': '2024-06-03T00:00:00.000Z' });
+    });
+  });
+
+  describe('Sync keys', () => {
+    it('keep OMDb and TMDB titles with the same ID apart', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({ min: 1, max: 1000000 }),
+          fc.constantFrom<'movie' | 'tv'>('movie', 'tv'),
+          (id, mediaType) => {
+            expect(createSyncKey({ id, mediaType, idSpace: 'tmdb' }))
+              .not.toBe(createSyncKey({ id, mediaType, idSpace: 'omdb' }));
+            // A known IMDb ID gives the same key in either ID space
+            expect(createSyncKey({ id, mediaType, idSpace: 'tmdb', imdbId: 'tt0133093' }))
+              .toBe(createSyncKey({ id: id + 1, mediaType, idSpace: 'omdb', imdbId: 'tt0133093' }));
+            return true;
+          }
+        )
+      );
+    });
+
+    it('stay with a pulled title whose ID was translated', () => {
+      const addedAt = '2024-06-01T00:00:00.000Z';
+      const pulled: WatchlistChange = {
+        key: 'movie:tmdb:603',
+        item: { ...toSyncedItem(item(98765, addedAt)), idSpace: 'omdb' },
+        updatedAt: addedAt,
+      };
+      const added = applyRemoteChanges({ items: [], outbox: [], tombstones: {} }, [pulled]);
+      expect(added.items.map(getSyncKey)).toEqual(['movie:tmdb:603']);
+
+      // Translating it again doesn't re-key it
+      const translated = added.items.map(i => ({ ...i, id: 603, idSpace: 'tmdb' as const }));
+      expect(diffWatchlists(added.items, translated, '2024-06-02T00:00:00.000Z')).toEqual([]);
+
+      // Removals from the other device still find it
+      const removed = applyRemoteChanges(
+        { items: translated, outbox: [], tombstones: {} },
+        [{ key: 'movie:tmdb:603', item: null, updatedAt: '2024-06-02T00:00:00.000Z' }]
+      );
+      expect(removed.items).toEqual([]);
+    });
+
+    it('ignore a pulled title already on the watchlist under another key', () => {
+      const local = [item(1, '2024-06-01T00:00:00.000Z')];
+      const pulled = { ...change(1, '2024-06-02T00:00:00.000Z'), key: 'movie:tt0133093' };
+
+      const merged = applyRemoteChanges({ items: local, outbox: [], tombstones: {} }, [pulled]);
+      expect(merged.items).toEqual(local);
+      expect(merged.changed).toBe(false);
+    });
+  });
+
+  describe('Push results', () => {
+    it('marks applied changes synced and keeps changes replaced in flight', () => {
+      const items = [
+        { ...item(1, '2024-06-01T00:00:00.000Z'), syncStatus: 'pending' as const },
+        { ...item(2, '2024-06-05T00:00:00.000Z'), syncStatus: 'pending' as const },
+      ];
+      const sent = [operation(1, '2024-06-01T00:00:00.000Z'), operation(2, '2024-06-01T00:00:00.000Z')];
+      // Title 2 changed again while the push was in flight
+      const outbox = [sent[0], operation(2, '2024-06-05T00:00:00.000Z')];
+
+      const outcome = applyPushResults({ items, outbox, tombstones: {} }, sent, sent.map(op => ({
+        key: op.key, status: 'applied' as const, current: null, error: null,
+      })));
+
+      expect(outcome.items.map(i => i.syncStatus)).toEqual(['synced', 'pending']);
+      expect(outcome.outbox).toEqual([outbox[1]]);
+    });
+
+    it('adopts the server copy of a stale change', () => {
+      const items = [{ ...item(1, '2024-06-01T00:00:00.000Z', 'Mine'), syncStatus: 'pending' as const }];
+      const sent = [operation(1, '2024-06-01T00:00:00.000Z')];
+      const current = change(1, '2024-06-02T00:00:00.000Z', false, 'Theirs');
+
+      const outcome = applyPushResults({ items, outbox: sent, tombstones: {} }, sent, [{ key: sent[0].key, status: 'stale', current, error: null }]);
+
+      expect(outcome.items).toHaveLength(1);
+      expect(outcome.items[0].title).toBe('Theirs');
+      expect(outcome.items[0].syncStatus).toBe('synced');
+      expect(outcome.outbox).toEqual([]);
+    });
+
+    it('surfaces rejected changes on the item and keeps them out of retries', () => {
+      const items = [{ ...item(1, '2024-06-01T00:00:00.000Z'), syncStatus: 'pending' as const }];
+      const sent = [operation(1, '2024-06-01T00:00:00.000Z'), operation(2, '2024-06-01T00:00:00.000Z', true)];
+      const results = sent.map(op => ({ key: op.key, status: 'rejected' as const, current: null, error: 'Invalid' }));
+
+      const outcome = applyPushResults({ items, outbox: sent, tombstones: {} }, sent, results);
+
+      expect(outcome.items[0]).toMatchObject({ syncStatus: 'error', syncError: 'Invalid' });
+      expect(outcome.outbox).toEqual([{ ...sent[0], error: 'Invalid' }]);
+      // A rejected removal has no item to show its error on
+      expect(outcome.errors).toEqual(['Invalid']);
+    });
+  });
+
+  describe('Client', () => {
+    const originalFetch = global.fetch;
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('treats offline and server errors as retryable, and bad requests as final', async () => {
+      await fc.assert(
+        fc.asyncProperty(fc.integer({ min: 400, max: 599 }), async (status) => {
+          global.fetch = jest.fn(async () => new Response('{}', { status })) as typeof fetch;
+
+          const error = await pushWatchlistChanges([], ENDPOINT).catch(e => e);
+
+          expect(error).toBeInstanceOf(SyncNetworkError);
+          expect(error.isRetryable).toBe(status >= 500 || status === 429);
+          return true;
+        }),
+        { numRuns: 50 }
+      );
+
+      global.fetch = jest.fn(async () => {
+        throw new TypeError('Network request failed');
+      }) as typeof fetch;
+      await expect(pullWatchlistChanges(null, ENDPOINT)).rejects.toMatchObject({ isRetryable: true, statusCode: 0 });
+    });
+
+    it('pulls from the last cursor', async () => {
+      const fetchMock = jest.fn(async () =>
+        new Response(JSON.stringify({ changes: [change(1, '2024-06-01T00:00:00.000Z')], cursor: '7' }))
+      );
+      global.fetch = fetchMock as typeof fetch;
+
+      const pulled = await pullWatchlistChanges('3', ENDPOINT);
+
+      expect(fetchMock).toHaveBeenCalledWith(`${ENDPOINT}/watchlist/changes?since=3`, expect.anything());
+      expect(pulled.cursor).toBe('7');
+      expect(pulled.changes).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,524 @@
+/**
+ * Property-based tests for the import/export service
+ * Feature: import-export
+ *
+ * Properties tested:
+ * - Letterboxd, IMDb and Trakt exports read back with the same ratings,
+ *   watches and watchlist flags
+ * - Other trackers' own exports are read correctly
+ * - Search results are matched by known ID, then by title and year
+ * - Backups read back unchanged and restore every diary month
+ * - Damaged or edited backups are rejected
+ * - Merging keeps every title from both sides and the newest copy of each
+ */
+
+import * as fc from 'fast-check';
+import {
+  BACKUP_VERSION,
+  createAppBackup,
+  detectImportFormat,
+  exportImdbCsv,
+  exportLetterboxdCsv,
+  exportTraktJson,
+  matchImportRecord,
+  mergeAppBackup,
+  parseAppBackup,
+  parseImdbCsv,
+  parseLetterboxdCsv,
+  parseTraktJson,
+  pickMatch,
+  restoreAppBackup,
+  type ExportData,
+} from '@/services/transfer';
+import * as api from '@/services/api';
+import * as storage from '@/services/storage';
+import type { MediaItem } from '@/types/media';
+import type { AppBackup, ImportRecord } from '@/types/transfer';
+import { DEFAULT_USER_PREFERENCES } from '@/types/user';
+import { runStorageMigrations } from '@/services/storage-migrations';
+import type { DiaryEntry } from '@/types/diary';
+import type { UserRating } from '@/types/ratings';
+import type { WatchlistItem } from '@/types/watchlist';
+
+// Mock the API service
+jest.mock('@/services/api', () => ({
+  searchMulti: jest.fn(),
+  findByImdbId: jest.fn(),
+  getMovieDetails: jest.fn(),
+  getTvDetails: jest.fn(),
+  getConfiguredIdSpace: jest.fn(() => 'omdb'),
+}));
+
+// Mock the storage service
+jest.mock('@/services/storage', () => ({
+  getLists: jest.fn(),
+  saveLists: jest.fn(),
+  getUserRatings: jest.fn(),
+  saveUserRatings: jest.fn(),
+  getWatchProgress: jest.fn(),
+  saveWatchProgress: jest.fn(),
+  getAllDiaryEntries: jest.fn(),
+  getDiaryMonths: jest.fn(),
+  getDiaryMonth: jest.fn(),
+  saveDiaryMonth: jest.fn(),
+  getUserPreferences: jest.fn(),
+  saveUserPreferences: jest.fn(),
+  getRecentlyViewed: jest.fn(),
+  saveRecentlyViewed: jest.fn(),
+  getLocalePreference: jest.fn(),
+  saveLocalePreference: jest.fn(),
+  saveSchemaVersion: jest.fn(),
+  MAX_RECENTLY_VIEWED: 10,
+}));
+
+// Migrations have their own tests
+jest.mock('@/services/storage-migrations', () => ({
+  STORAGE_SCHEMA_VERSION: 5,
+  runStorageMigrations: jest.fn(),
+}));
+
+const mockApi = api as jest.Mocked<typeof api>;
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+const NOW = '2025-06-15T12:00:00.000Z';
+
+const titleArb = fc.string({ minLength: 1, maxLength: 30 })
+  .map(title => title.trim())
+  .filter(title => title.length > 0);
+
+const dateArb = fc.date({ min: new Date(2000, 0, 1), max: new Date(2025, 11, 31), noInvalidDate: true })
+  .map(date => date.toISOString().slice(0, 10));
+
+const noteArb = fc.string({ maxLength: 40 }).map(note => note.trim());
+
+/** A title the user has watched, rated and/or watchlisted */
+interface TitleFixture {
+  id: number;
+  mediaType: 'movie' | 'tv';
+  title: string;
+  rating: number | null;
+  ratingNote: string;
+  watchlisted: boolean;
+  watches: { watchedOn: string; isRewatch: boolean; note: string }[];
+}
+
+const fixturesArb = (mediaTypes: ('movie' | 'tv')[]) =>
+  fc.uniqueArray(
+    fc.record({
+      id: fc.integer({ min: 1, max: 100000 }),
+      mediaType: fc.constantFrom(...mediaTypes),
+      title: titleArb,
+      rating: fc.option(fc.integer({ min: 1, max: 10 }), { nil: null }),
+      ratingNote: noteArb,
+      watchlisted: fc.boolean(),
+      watches: fc.uniqueArray(
+        fc.record({ watchedOn: dateArb, isRewatch: fc.boolean(), note: noteArb }),
+        { maxLength: 3, selector: w => w.watchedOn }
+      ),
+    }),
+    { maxLength: 8, selector: t => t.id }
+  );
+
+/** Build the exporters' input from fixtures */
+const toExportData = (titles: TitleFixture[]): ExportData => {
+  const ref = (t: TitleFixture) => ({
+    id: t.id,
+    mediaType: t.mediaType,
+    idSpace: 'tmdb' as const,
+    imdbId: `tt${t.id}`,
+    title: t.title,
+    posterPath: null,
+  });
+
+  return {
+    watchlist: titles.filter(t => t.watchlisted).map((t): WatchlistItem => ({
+      ...ref(t),
+      addedAt: NOW,
+      syncStatus: 'synced',
+    })),
+    ratings: titles.filter(t => t.rating !== null || t.ratingNote).map((t): UserRating => ({
+      ...ref(t),
+      rating: t.rating,
+      note: t.ratingNote,
+      createdAt: NOW,
+      updatedAt: NOW,
+    })),
+    diary: titles.flatMap(t => t.watches.map((w, i): DiaryEntry => ({
+      ...ref(t),
+      entryId: `${t.id}-${i}`,
+      episode: null,
+      watchedOn: w.watchedOn,
+      isRewatch: w.isRewatch,
+      note: w.note,
+      createdAt: NOW,
+      updatedAt: NOW,
+    }))),
+  };
+};
+
+const findRecord = (records: ImportRecord[], t: TitleFixture) =>
+  records.find(r => r.imdbId === `tt${t.id}`);
+
+const sortWatches = <T extends { watchedOn: string }>(watches: T[]) =>
+  [...watches].sort((a, b) => a.watchedOn.localeCompare(b.watchedOn));
+
+const mediaItem = (overrides: Partial<MediaItem>): MediaItem => ({
+  id: 1,
+  title: 'Alien',
+  originalTitle: 'Alien',
+  posterPath: null,
+  backdropPath: null,
+  overview: '',
+  releaseDate: '1979-05-25',
+  voteAverage: null,
+  voteCount: 0,
+  mediaType: 'movie',
+  genreIds: [],
+  ...overrides,
+});
+
+const record = (overrides: Partial<ImportRecord>): ImportRecord => ({
+  title: 'Alien',
+  year: 1979,
+  mediaType: 'movie',
+  imdbId: null,
+  tmdbId: null,
+  watchlist: true,
+  rating: null,
+  review: '',
+  watches: [],
+  ...overrides,
+});
+
+describe('Import/Export Service Property Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Round trips', () => {
+    it('Letterboxd export reads back with the same ratings, watches and notes', () => {
+      fc.assert(
+        fc.property(fixturesArb(['movie']), (titles) => {
+          const records = parseLetterboxdCsv(exportLetterboxdCsv(toExportData(titles)));
+
+          for (const t of titles) {
+            const found = findRecord(records, t);
+            const hasAnything = t.watchlisted || t.rating !== null || t.ratingNote || t.watches.length > 0;
+            if (!hasAnything) {
+              expect(found).toBeUndefined();
+              continue;
+            }
+
+            expect(found?.title).toBe(t.title);
+            expect(found?.tmdbId).toBe(t.id);
+            expect(found?.rating).toBe(t.rating);
+            expect(found?.review).toBe(t.ratingNote);
+            expect(sortWatches(found!.watches)).toEqual(
+              sortWatches(t.watches.map(w => ({ ...w, episode: null })))
+            );
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('IMDb export reads back the watchlist with ratings', () => {
+      fc.assert(
+        fc.property(fixturesArb(['movie', 'tv']), (titles) => {
+          const records = parseImdbCsv(exportImdbCsv(toExportData(titles)));
+
+          expect(records).toHaveLength(titles.filter(t => t.watchlisted).length);
+          for (const t of titles.filter(t => t.watchlisted)) {
+            const found = findRecord(records, t);
+            expect(found?.watchlist).toBe(true);
+            expect(found?.mediaType).toBe(t.mediaType);
+            expect(found?.rating).toBe(t.rating);
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('Trakt export reads back the watchlist, ratings and history', () => {
+      fc.assert(
+        fc.property(fixturesArb(['movie', 'tv']), (titles) => {
+          const records = parseTraktJson(exportTraktJson(toExportData(titles)));
+
+          for (const t of titles) {
+            const found = findRecord(records, t);
+            if (!t.watchlisted && t.rating === null && t.watches.length === 0) {
+              expect(found).toBeUndefined();
+              continue;
+            }
+
+            expect(found?.mediaType).toBe(t.mediaType);
+            expect(found?.watchlist).toBe(t.watchlisted);
+            expect(found?.rating).toBe(t.rating);
+            expect(sortWatches(found!.watches).map(w => w.watchedOn))
+              .toEqual(sortWatches(t.watches).map(w => w.watchedOn));
+            // Later plays are rewatches
+            expect(sortWatches(found!.watches).map(w => w.isRewatch))
+              .toEqual(t.watches.map((_, i) => i > 0));
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Other trackers exports', () => {
+    it('reads a Letterboxd diary export', () => {
+      const csv = [
+        'Date,Name,Year,Letterboxd URI,Rating,Rewatch,Tags,Watched Date',
+        '2024-03-02,Alien,1979,https://boxd.it/2bg8,4.5,,,2024-03-01',
+        '2024-04-10,Alien,1979,https://boxd.it/2bg9,5,Yes,,2024-04-09',
+        '2024-05-01,Heat,1995,https://boxd.it/2a1c,,,,',
+      ].join('\n');
+
+      const [alien, heat] = parseLetterboxdCsv(csv);
+
+      expect(detectImportFormat(csv)).toBe('letterboxd');
+      expect(alien).toMatchObject({ title: 'Alien', year: 1979, mediaType: 'movie', rating: 10, watchlist: false });
+      expect(alien.watches.map(w => [w.watchedOn, w.isRewatch])).toEqual([
+        ['2024-03-01', false],
+        ['2024-04-09', true],
+      ]);
+      expect(heat).toMatchObject({ title: 'Heat', watchlist: true, rating: null, watches: [] });
+    });
+
+    it('reads an IMDb ratings export and skips episodes', () => {
+      const csv = [
+        'Const,Your Rating,Date Rated,Title,URL,Title Type,IMDb Rating,Runtime (mins),Year',
+        'tt0078748,9,2024-01-01,Alien,https://www.imdb.com/title/tt0078748/,movie,8.5,117,1979',
+        'tt0903747,10,2024-01-02,Breaking Bad,https://www.imdb.com/title/tt0903747/,tvSeries,9.5,49,2008',
+        'tt0959621,8,2024-01-03,Pilot,https://www.imdb.com/title/tt0959621/,tvEpisode,8.2,58,2008',
+      ].join('\n');
+
+      const records = parseImdbCsv(csv);
+
+      expect(detectImportFormat(csv)).toBe('imdb');
+      expect(records.map(r => [r.imdbId, r.mediaType, r.rating, r.watchlist])).toEqual([
+        ['tt0078748', 'movie', 9, false],
+        ['tt0903747', 'tv', 10, false],
+      ]);
+    });
+
+    it('reads Trakt episode history into episode watches', () => {
+      const json = JSON.stringify([
+        {
+          watched_at: '2024-02-01T20:00:00.000Z',
+          action: 'watch',
+          type: 'episode',
+          episode: { season: 1, number: 2, title: 'Cat’s in the Bag...' },
+          show: { title: 'Breaking Bad', year: 2008, ids: { imdb: 'tt0903747', tmdb: 1396 } },
+        },
+      ]);
+
+      const [show] = parseTraktJson(json);
+
+      expect(detectImportFormat(json)).toBe('trakt');
+      expect(show).toMatchObject({ mediaType: 'tv', tmdbId: 1396, watchlist: false });
+      expect(show.watches[0].episode).toEqual({ seasonNumber: 1, episodeNumber: 2 });
+    });
+
+    it('rejects files that are not JSON', () => {
+      expect(() => parseTraktJson('not json')).toThrow();
+    });
+  });
+
+  describe('Matching', () => {
+    it('prefers the known ID, then a unique title and year', () => {
+      const original = mediaItem({ id: 1 });
+      const remake = mediaItem({ id: 2, releaseDate: '2024-01-01' });
+      const series = mediaItem({ id: 3, mediaType: 'tv' });
+
+      expect(pickMatch(record({}), [remake, original, series], 2)).toMatchObject({
+        status: 'matched',
+        selected: remake,
+        candidates: [remake, original],
+      });
+      expect(pickMatch(record({}), [remake, original, series]).selected).toBe(original);
+      expect(pickMatch(record({ year: null }), [remake, original])).toMatchObject({
+        status: 'ambiguous',
+        selected: remake,
+      });
+      expect(pickMatch(record({}), [series])).toMatchObject({ status: 'unmatched', selected: null });
+    });
+
+    it('matches a unique exact title whatever the search order', () => {
+      fc.assert(
+        fc.property(
+          titleArb,
+          fc.integer({ min: 1900, max: 2030 }),
+          fc.array(titleArb, { maxLength: 5 }),
+          fc.nat(),
+          (title, year, others, position) => {
+            const target = mediaItem({ id: 0, title, originalTitle: title, releaseDate: `${year}-06-01` });
+            const noise = others.map((other, i) =>
+              mediaItem({ id: i + 1, title: `${other} ${title} II`, originalTitle: '', releaseDate: `${year}-06-01` })
+            );
+            noise.splice(position % (noise.length + 1), 0, target);
+
+            const match = pickMatch(record({ title, year }), noise);
+
+            expect(match.status).toBe('matched');
+            expect(match.selected).toBe(target);
+            return true;
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('looks up IMDb IDs and loads titles the search missed', async () => {
+      const details = { ...mediaItem({ id: 42 }), runtime: 117 } as unknown as Awaited<ReturnType<typeof api.getMovieDetails>>;
+      mockApi.findByImdbId.mockResolvedValue(42);
+      mockApi.searchMulti.mockResolvedValue({ movies: [mediaItem({ id: 7 })], tvShows: [], totalResults: 1, page: 1, totalPages: 1 });
+      mockApi.getMovieDetails.mockResolvedValue(details);
+
+      const match = await matchImportRecord(record({ imdbId: 'tt0078748' }));
+
+      expect(mockApi.findByImdbId).toHaveBeenCalledWith('movie', 'tt0078748');
+      expect(match.status).toBe('matched');
+      expect(match.selected).toBe(details);
+    });
+
+    it('leaves a record unmatched when the search fails', async () => {
+      mockApi.searchMulti.mockRejectedValue(new Error('Network error'));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const match = await matchImportRecord(record({}));
+
+      expect(match.status).toBe('unmatched');
+      warn.mockRestore();
+    });
+  });
+
+  describe('Backups', () => {
+    it('reads back a backup and restores every diary month', async () => {
+      await fc.assert(
+        fc.asyncProperty(fixturesArb(['movie', 'tv']), async (titles) => {
+          jest.clearAllMocks();
+          const data = toExportData(titles);
+          mockStorage.getLists.mockResolvedValue([]);
+          mockStorage.getUserRatings.mockResolvedValue(data.ratings);
+          mockStorage.getWatchProgress.mockResolvedValue([]);
+          mockStorage.getAllDiaryEntries.mockResolvedValue(data.diary);
+          mockStorage.getDiaryMonths.mockResolvedValue(['1999-01']);
+          mockStorage.getUserPreferences.mockResolvedValue(DEFAULT_USER_PREFERENCES);
+          mockStorage.getRecentlyViewed.mockResolvedValue([]);
+          mockStorage.getLocalePreference.mockResolvedValue('fr');
+
+          const backup = await createAppBackup(NOW);
+          const parsed = parseAppBackup(JSON.stringify(backup));
+          expect(parsed).toEqual(backup);
+
+          await restoreAppBackup(parsed);
+
+          expect(mockStorage.saveUserRatings).toHaveBeenCalledWith(data.ratings);
+          // A month that isn't in the backup is cleared
+          expect(mockStorage.saveDiaryMonth).toHaveBeenCalledWith('1999-01', []);
+          const restored = mockStorage.saveDiaryMonth.mock.calls.flatMap(([, entries]) => entries);
+          expect(restored).toHaveLength(data.diary.length);
+          expect(mockStorage.saveLocalePreference).toHaveBeenCalledWith('fr');
+          expect(mockStorage.saveSchemaVersion).toHaveBeenCalledWith(5);
+          expect(runStorageMigrations).toHaveBeenCalled();
+          return true;
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('rejects other files and newer backups', () => {
+      expect(() => parseAppBackup('{"watchlist":[]}')).toThrow('not a MovieStream backup');
+      expect(() => parseAppBackup(JSON.stringify({ app: 'moviestream', version: BACKUP_VERSION + 1 })))
+        .toThrow('newer version');
+      expect(detectImportFormat(JSON.stringify({ app: 'moviestream', version: 1 }))).toBe('backup');
+    });
+
+    it('rejects a backup that was edited after export', async () => {
+      await fc.assert(
+        fc.asyncProperty(fixturesArb(['movie']).filter(titles => titles.length > 0), async (titles) => {
+          const data = toExportData(titles);
+          mockStorage.getLists.mockResolvedValue([]);
+          mockStorage.getUserRatings.mockResolvedValue(data.ratings);
+          mockStorage.getWatchProgress.mockResolvedValue([]);
+          mockStorage.getAllDiaryEntries.mockResolvedValue(data.diary);
+          mockStorage.getUserPreferences.mockResolvedValue(DEFAULT_USER_PREFERENCES);
+          mockStorage.getRecentlyViewed.mockResolvedValue([]);
+          mockStorage.getLocalePreference.mockResolvedValue(null);
+
+          const backup = await createAppBackup(NOW);
+          const edited = { ...backup, diary: [], ratings: [], lists: [{ id: 'x', name: titles[0].title, items: [], createdAt: NOW, updatedAt: NOW }] };
+
+          expect(() => parseAppBackup(JSON.stringify(edited))).toThrow('damaged or was edited');
+          expect(() => parseAppBackup(JSON.stringify({ ...backup, checksum: undefined })))
+            .toThrow('damaged or was edited');
+          return true;
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('reads version 1 backups without a checksum and migrates them', async () => {
+      const parsed = parseAppBackup(JSON.stringify({
+        app: 'moviestream', version: 1, exportedAt: NOW, lists: [], ratings: [], diary: [], progress: [],
+      }));
+
+      expect(parsed.schemaVersion).toBe(0);
+      expect(parsed.preferences).toBeNull();
+
+      jest.clearAllMocks();
+      mockStorage.getDiaryMonths.mockResolvedValue([]);
+      await restoreAppBackup(parsed);
+
+      // Settings weren't in version 1 backups, so the device's are kept
+      expect(mockStorage.saveUserPreferences).not.toHaveBeenCalled();
+      expect(mockStorage.saveLocalePreference).not.toHaveBeenCalled();
+      expect(mockStorage.saveSchemaVersion).toHaveBeenCalledWith(0);
+      expect(runStorageMigrations).toHaveBeenCalled();
+    });
+
+    it('merges every title from both sides, keeping the newest copy', () => {
+      fc.assert(
+        fc.property(fixturesArb(['movie', 'tv']), fixturesArb(['movie', 'tv']), (localTitles, incomingTitles) => {
+          const LATER = '2025-07-01T00:00:00.000Z';
+          const toBackup = (data: ExportData, updatedAt: string): AppBackup => ({
+            app: 'moviestream',
+            version: BACKUP_VERSION,
+            schemaVersion: 5,
+            exportedAt: updatedAt,
+            lists: [{ id: 'default', name: 'Watchlist', items: data.watchlist, createdAt: NOW, updatedAt }],
+            ratings: data.ratings.map(r => ({ ...r, updatedAt })),
+            diary: data.diary.map(e => ({ ...e, entryId: `${updatedAt}-${e.entryId}`, updatedAt })),
+            progress: [],
+            preferences: DEFAULT_USER_PREFERENCES,
+            recentlyViewed: [],
+            locale: updatedAt,
+          });
+          const local = toBackup(toExportData(localTitles), NOW);
+          const incoming = toBackup(toExportData(incomingTitles), LATER);
+
+          const merged = mergeAppBackup(local, incoming);
+
+          const keys = (refs: { id: number; mediaType: string }[]) =>
+            new Set(refs.map(r => `${r.mediaType}:${r.id}`));
+          expect(merged.lists).toHaveLength(1);
+          expect(keys(merged.lists[0].items)).toEqual(keys([...local.lists[0].items, ...incoming.lists[0].items]));
+          expect(merged.lists[0].items).toHaveLength(keys(merged.lists[0].items).size);
+          expect(keys(merged.ratings)).toEqual(keys([...local.ratings, ...incoming.ratings]));
+          for (const rating of incoming.ratings) {
+            expect(merged.ratings).toContainEqual(rating);
+          }
+          expect(merged.diary).toHaveLength(local.diary.length + incoming.diary.length);
+          expect(merged.locale).toBe(NOW);
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Property-based tests for the Up Next service
+ * Feature: up-next
+ *
+ * Properties tested:
+ * - Air dates are classified as aired, upcoming (within 7 days) or ignored
+ * - Series watched most recently come first
+ * - Feed entries land in the right section, upcoming ones ordered by air date
+ * - Next episode lookup rolls over to the next season
+ */
+
+import * as fc from 'fast-check';
+import {
+  classifyAirDate,
+  orderUpNextSeries,
+  buildUpNextFeed,
+  getUpNextEntry,
+  getUpNextFeed,
+  toDateKey,
+  MAX_UP_NEXT_SERIES,
+  UPCOMING_WINDOW_DAYS,
+} from '@/services/up-next';
+import * as api from '@/services/api';
+import type { EpisodeSummary, MediaDetails, SeasonDetails } from '@/types/media';
+import type { SeriesProgress, UpNextEntry } from '@/types/progress';
+import type { WatchlistItem, WatchlistStatus } from '@/types/watchlist';
+
+// Mock the API service
+jest.mock('@/services/api', () => ({
+  getTvDetails: jest.fn(),
+  getSeasonDetails: jest.fn(),
+}));
+
+const mockApi = api as jest.Mocked<typeof api>;
+
+const NOW = new Date(2025, 5, 15, 12, 0, 0);
+
+/** Date key `days` from NOW */
+const daysFromNow = (days: number): string => {
+  const date = new Date(NOW);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+const makeEpisode = (seasonNumber: number, episodeNumber: number, airDate: string): EpisodeSummary => ({
+  id: seasonNumber * 100 + episodeNumber,
+  seasonNumber,
+  episodeNumber,
+  name: `Episode ${episodeNumber}`,
+  overview: '',
+  stillPath: null,
+  airDate,
+  runtime: 45,
+  voteAverage: 8,
+  voteCount: 100,
+});
+
+const makeSeason = (seasonNumber: number, airDates: string[]): SeasonDetails => ({
+  id: seasonNumber,
+  seasonNumber,
+  name: `Season ${seasonNumber}`,
+  overview: '',
+  posterPath: null,
+  airDate: airDates[0] ?? '',
+  episodes: airDates.map((date, i) => makeEpisode(seasonNumber, i + 1, date)),
+});
+
+const makeWatchlistItem = (id: number, mediaType: 'movie' | 'tv' = 'tv'): WatchlistItem => ({
+  id,
+  mediaType,
+  title: `Title ${id}`,
+  posterPath: null,
+  addedAt: '2025-01-01T00:00:00.000Z',
+  syncStatus: 'synced',
+});
+
+const makeProgress = (id: number, watched: [number, number][], updatedAt: string): SeriesProgress => ({
+  id,
+  mediaType: 'tv',
+  title: `Title ${id}`,
+  posterPath: null,
+  watchedEpisodes: watched.map(([seasonNumber, episodeNumber]) => ({
+    seasonNumber,
+    episodeNumber,
+    watchedAt: updatedAt,
+  })),
+  seasonEpisodeCounts: {},
+  totalEpisodes: null,
+  totalSeasons: null,
+  updatedAt,
+});
+
+const mockSeries = (numberOfSeasons: number) => {
+  mockApi.getTvDetails.mockResolvedValue({
+    id: 1,
+    title: 'Test Series',
+    posterPath: '/poster.jpg',
+    numberOfSeasons,
+  } as MediaDetails);
+};
+
+describe('Up Next Service Property Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Air date classification', () => {
+    it('classifies any offset from today by the upcoming window', () => {
+      fc.assert(
+        fc.property(fc.integer({ min: -365, max: 365 }), (offset) => {
+          const status = classifyAirDate(daysFromNow(offset), NOW);
+
+          if (offset <= 0) {
+            expect(status).toBe('aired');
+          } else if (offset <= UPCOMING_WINDOW_DAYS) {
+            expect(status).toBe('upcoming');
+          } else {
+            expect(status).toBeNull();
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('ignores episodes without an air date', () => {
+      expect(classifyAirDate('', NOW)).toBeNull();
+    });
+  });
+
+  describe('Series ordering', () => {
+    it('keeps only TV series, most recently watched first, within the limit', () => {
+      fc.assert(
+        fc.property(
+          fc.uniqueArray(fc.integer({ min: 1, max: 1000 }), { maxLength: 30 }),
+          fc.array(fc.boolean(), { maxLength: 30 }),
+          (ids, tracked) => {
+            const watchlist = ids.map((id, i) => makeWatchlistItem(id, i % 4 === 3 ? 'movie' : 'tv'));
+            const progress = ids
+              .filter((_, i) => tracked[i])
+              .map((id, i) => makeProgress(id, [[1, 1]], new Date(2025, 0, i + 1).toISOString()));
+
+            const ordered = orderUpNextSeries(watchlist, progress);
+            const updatedAt = (id: number) => progress.find(p => p.id === id)?.updatedAt ?? '';
+
+            expect(ordered.length).toBeLessThanOrEqual(MAX_UP_NEXT_SERIES);
+            ordered.forEach(item => expect(item.mediaType).toBe('tv'));
+            for (let i = 1; i < ordered.length; i++) {
+              expect(updatedAt(ordered[i - 1].id) >= updatedAt(ordered[i].id)).toBe(true);
+            }
+            return true;
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('leaves out completed and dropped series', () => {
+      fc.assert(
+        fc.property(
+          fc.array(
+            fc.constantFrom<WatchlistStatus | undefined>(undefined, 'plan_to_watch', 'watching', 'completed', 'dropped'),
+            { maxLength: MAX_UP_NEXT_SERIES }
+          ),
+          (statuses) => {
+            const watchlist = statuses.map((status, i) => ({ ...makeWatchlistItem(i + 1), status }));
+
+            const ordered = orderUpNextSeries(watchlist, []);
+
+            expect(ordered.map(item => item.id)).toEqual(
+              watchlist.filter(item => item.status !== 'completed' && item.status !== 'dropped').map(item => item.id)
+            );
+            return true;
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Feed sections', () => {
+    it('splits entries by status and orders upcoming episodes by air date', () => {
+      const entryArb: fc.Arbitrary<UpNextEntry> = fc.record({
+        seriesId: fc.integer({ min: 1, max: 1000 }),
+        seriesTitle: fc.string({ minLength: 1, maxLength: 30 }),
+        posterPath: fc.constant(null),
+        episode: fc.integer({ min: -10, max: 7 }).map(offset => makeEpisode(1, 1, daysFromNow(offset))),
+        status: fc.constantFrom<UpNextEntry['status']>('aired', 'upcoming'),
+      });
+
+      fc.assert(
+        fc.property(fc.array(entryArb, { maxLength: 20 }), (entries) => {
+          const feed = buildUpNextFeed(entries);
+
+          expect(feed.upNext.length + feed.comingThisWeek.length).toBe(entries.length);
+          feed.upNext.forEach(e => expect(e.status).toBe('aired'));
+          feed.comingThisWeek.forEach(e => expect(e.status).toBe('upcoming'));
+          for (let i = 1; i < feed.comingThisWeek.length; i++) {
+            expect(feed.comingThisWeek[i - 1].episode.airDate <= feed.comingThisWeek[i].episode.airDate).toBe(true);
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Next episode lookup', () => {
+    it('returns the episode after the furthest watched one when it has aired', async () => {
+      mockSeries(2);
+      mockApi.getSeasonDetails.mockResolvedValue(
+        makeSeason(1, [daysFromNow(-30), daysFromNow(-23), daysFromNow(-16)])
+      );
+
+      const entry = await getUpNextEntry(makeWatchlistItem(1), makeProgress(1, [[1, 1]], NOW.toISOString()), NOW);
+
+      expect(entry?.status).toBe('aired');
+      expect(entry?.episode.episodeNumber).toBe(2);
+      expect(entry?.posterPath).toBe('/poster.jpg');
+    });
+
+    it('rolls over to the next season when the current one has no further episodes', async () => {
+      mockSeries(2);
+      mockApi.getSeasonDetails.mockImplementation(async (_id, season) =>
+        season === 1
+          ? makeSeason(1, [daysFromNow(-60), daysFromNow(-53)])
+          : makeSeason(2, [daysFromNow(3)])
+      );
+
+      const entry = await getUpNextEntry(makeWatchlistItem(1), makeProgress(1, [[1, 2]], NOW.toISOString()), NOW);
+
+      expect(entry?.status).toBe('upcoming');
+      expect(entry?.episode.seasonNumber).toBe(2);
+      expect(entry?.episode.episodeNumber).toBe(1);
+    });
+
+    it('skips series whose next episode is more than a week away or fails to load', async () => {
+      mockApi.getTvDetails.mockImplementation(async (id) => {
+        if (id === 2) throw new Error('Network error');
+        return { id, title: `Series ${id}`, posterPath: null, numberOfSeasons: 1 } as MediaDetails;
+      });
+      mockApi.getSeasonDetails.mockResolvedValue(makeSeason(1, [daysFromNow(-7), daysFromNow(30)]));
+
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const feed = await getUpNextFeed(
+        [makeWatchlistItem(1), makeWatchlistItem(2), makeWatchlistItem(3)],
+        [makeProgress(1, [[1, 1]], NOW.toISOString())],
+        NOW
+      );
+      warn.mockRestore();
+
+      // Series 1 has watched E1 and E2 airs in a month; series 3 has not started and E1 has aired
+      expect(feed.upNext.map(e => e.seriesId)).toEqual([3]);
+      expect(feed.comingThisWeek).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Property-based tests for the Watchlist Metadata Service
+ * Feature: smart-watchlist
+ *
+ * Properties tested:
+ * - A refresh fetches missing titles first and never more than one batch
+ * - Fresh metadata is kept; stale and other-region metadata is fetched again
+ * - Failed fetches keep the old metadata, and removed titles are pruned
+ *   unless pruning is turned off
+ */
+
+import * as fc from 'fast-check';
+import * as api from '@/services/api';
+import {
+  fetchWatchlistItemMetadata,
+  getTitlesToRefresh,
+  isMetadataStale,
+  refreshWatchlistMetadata,
+} from '@/services/watchlist-metadata';
+import { getWatchlistKey } from '@/services/sync';
+import { WATCHLIST_METADATA_CONFIG } from '@/constants/api';
+import type { MediaDetails, MediaRef, StreamingProvider } from '@/types/media';
+import type { WatchlistItemMetadata, WatchlistMetadataCache } from '@/types/watchlist';
+
+// Mock the API service
+jest.mock('@/services/api', () => ({
+  getMovieDetails: jest.fn(),
+  getTvDetails: jest.fn(),
+  getWatchProviders: jest.fn(),
+}));
+
+const mockApi = api as jest.Mocked<typeof api>;
+
+const NOW = new Date('2025-06-15T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const details = (id: number, mediaType: 'movie' | 'tv'): MediaDetails => ({
+  id,
+  title: `Title ${id}`,
+  originalTitle: `Title ${id}`,
+  posterPath: null,
+  backdropPath: null,
+  overview: '',
+  releaseDate: '2020-01-01',
+  voteAverage: 7.5,
+  voteCount: 100,
+  mediaType,
+  genreIds: [18],
+  runtime: 100 + (id % 60),
+  genres: [{ id: 18, name: 'Drama' }],
+  tagline: '',
+  status: 'Released',
+  productionCountries: [],
+  spokenLanguages: [],
+});
+
+const provider = (providerId: number, type: StreamingProvider['type']): StreamingProvider => ({
+  providerId,
+  providerName: `Service ${providerId}`,
+  logoPath: '',
+  link: '#',
+  type,
+  isAvailable: true,
+});
+
+const metadataAt = (fetchedAt: Date, countryCode = 'US'): WatchlistItemMetadata => ({
+  runtime: 90,
+  releaseDate: '2020-01-01',
+  genres: [],
+  voteAverage: 6,
+  streamingProviders: [],
+  countryCode,
+  fetchedAt: fetchedAt.toISOString(),
+});
+
+const refsArb = fc.uniqueArray(
+  fc.record({
+    id: fc.integer({ min: 1, max: 10000 }),
+    mediaType: fc.constantFrom('movie' as const, 'tv' as const),
+  }),
+  { maxLength: 40, selector: ref => `${ref.mediaType}:${ref.id}` }
+);
+
+/** Cached metadata for some of the titles, fetched up to three days ago */
+const cacheFor = (refs: MediaRef[], ages: (number | null)[]): WatchlistMetadataCache => {
+  const cache: WatchlistMetadataCache = {};
+  refs.forEach((ref, index) => {
+    const age = ages[index % Math.max(ages.length, 1)];
+    if (age !== null && age !== undefined) {
+      cache[getWatchlistKey(ref.id, ref.mediaType)] = metadataAt(new Date(NOW.getTime() - age));
+    }
+  });
+  return cache;
+};
+
+describe('Watchlist Metadata Service Property Tests', () => {
+  beforeEach(() => {
+    mockApi.getMovieDetails.mockImplementation(async (id: number) => details(id, 'movie'));
+    mockApi.getTvDetails.mockImplementation(async (id: number) => details(id, 'tv'));
+    mockApi.getWatchProviders.mockResolvedValue([]);
+  });
+
+  it('refreshes missing titles first, then the oldest, one batch at a time', () => {
+    fc.assert(
+      fc.property(
+        refsArb,
+        fc.array(fc.option(fc.integer({ min: 0, max: 3 * DAY_MS }), { nil: null }), { minLength: 1, maxLength: 5 }),
+        fc.integer({ min: 1, max: 10 }),
+        (refs, ages, batchSize) => {
+          const cache = cacheFor(refs, ages);
+          const picked = getTitlesToRefresh(refs, cache, { now: NOW, batchSize });
+          const stale = refs.filter(ref => isMetadataStale(cache[getWatchlistKey(ref.id, ref.mediaType)], NOW));
+
+          expect(picked).toHaveLength(Math.min(batchSize, stale.length));
+          const fetchedAt = picked.map(ref => cache[getWatchlistKey(ref.id, ref.mediaType)]?.fetchedAt ?? '');
+          expect(fetchedAt).toEqual([...fetchedAt].sort());
+          if (stale.some(ref => !cache[getWatchlistKey(ref.id, ref.mediaType)])) {
+            expect(fetchedAt[0]).toBe('');
+          }
+          return true;
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  it('treats day-old and other-region metadata as stale', () => {
+    expect(isMetadataStale(undefined, NOW)).toBe(true);
+    expect(isMetadataStale(metadataAt(new Date(NOW.getTime() - DAY_MS + 1)), NOW)).toBe(false);
+    expect(isMetadataStale(metadataAt(new Date(NOW.getTime() - DAY_MS)), NOW)).toBe(true);
+    expect(isMetadataStale(metadataAt(NOW, 'GB'), NOW, 'US')).toBe(true);
+  });
+
+  it('keeps old metadata when a fetch fails and prunes removed titles', async () => {
+    await fc.assert(
+      fc.asyncProperty(refsArb, fc.integer({ min: 2, max: 5 }), async (refs, failEvery) => {
+        const stale = metadataAt(new Date(NOW.getTime() - 2 * DAY_MS));
+        const cache: WatchlistMetadataCache = { 'movie:999999': stale };
+        refs.forEach(ref => {
+          cache[getWatchlistKey(ref.id, ref.mediaType)] = stale;
+        });
+        mockApi.getMovieDetails.mockImplementation(async (id: number) => {
+          if (id % failEvery === 0) throw new Error('Network error');
+          return details(id, 'movie');
+        });
+        const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const result = await refreshWatchlistMetadata(refs, cache, { now: NOW, batchSize: refs.length });
+        warn.mockRestore();
+
+        expect(result.metadata['movie:999999']).toBeUndefined();
+        expect(result.changed).toBe(true);
+        let failed = 0;
+        for (const ref of refs) {
+          const metadata = result.metadata[getWatchlistKey(ref.id, ref.mediaType)];
+          const fails = ref.mediaType === 'movie' && ref.id % failEvery === 0;
+          if (fails) failed++;
+          expect(metadata).toEqual(fails ? stale : expect.objectContaining({ fetchedAt: NOW.toISOString() }));
+        }
+        expect(result.failed).toBe(failed);
+        return true;
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('keeps metadata for unlisted titles when pruning is off', async () => {
+    const cached = metadataAt(NOW);
+    const cache: WatchlistMetadataCache = { 'movie:1': cached, 'tv:2': cached };
+
+    // An empty watchlist that failed to load must not wipe the cache
+    const result = await refreshWatchlistMetadata([], cache, { now: NOW, prune: false });
+
+    expect(result.metadata).toEqual(cache);
+    expect(result.changed).toBe(false);
+    expect((await refreshWatchlistMetadata([], cache, { now: NOW })).metadata).toEqual({});
+  });
+
+  it('records subscription services only, and no availability when providers fail', async () => {
+    mockApi.getWatchProviders.mockResolvedValueOnce([provider(8, 'flatrate'), provider(2, 'rent')]);
+    const streaming = await fetchWatchlistItemMetadata({ id: 1, mediaType: 'movie' }, 'US', NOW);
+
+    mockApi.getWatchProviders.mockRejectedValueOnce(new Error('Not found'));
+    const unavailable = await fetchWatchlistItemMetadata({ id: 2, mediaType: 'tv' }, 'US', NOW);
+
+    expect(streaming.streamingProviders).toEqual([{ providerId: 8, providerName: 'Service 8' }]);
+    expect(unavailable.streamingProviders).toEqual([]);
+    expect(unavailable.runtime).toBe(details(2, 'tv').runtime);
+    expect(streaming.fetchedAt).toBe(NOW.toISOString());
+    expect(WATCHLIST_METADATA_CONFIG.COUNTRY_CODE).toBe(streaming.countryCode);
+  });
+});
@@ -18,6 +18,11 @@ jest.mock('react-native', () => ({
     OS: 'ios',
     select: jest.fn((options) => options.ios || options.default),
   },
+  I18nManager: {
+    isRTL: false,
+    allowRTL: jest.fn(),
+    forceRTL: jest.fn(),
+  },
   NativeModules: {},
   TurboModuleRegistry: {
     get: jest.fn(),
@@ -0,0 +1,108 @@
+/**
+ * Property-based tests for Certification Zustand Store
+ * Feature: regional-certifications
+ *
+ * Properties tested:
+ * - Looked-up certifications are stored and read back on the next launch
+ * - Lookups that find nothing leave the certifications untouched
+ * - Nothing is looked up while a provider has a daily quota
+ */
+
+import * as fc from 'fast-check';
+import { useCertificationStore } from '@/stores/certificationStore';
+import * as storage from '@/services/storage';
+import * as api from '@/services/api';
+import { createRateLimiter } from '@/services/api/http';
+import type { MediaDetails } from '@/types/media';
+
+// Mock the storage service
+jest.mock('@/services/storage', () => ({
+  getCertificationCache: jest.fn(),
+  saveCertificationCache: jest.fn(),
+}));
+
+// Mock the API service
+jest.mock('@/services/api', () => ({
+  getApiProviderChain: jest.fn(() => ['tmdb']),
+  getMovieDetails: jest.fn(),
+  getTvDetails: jest.fn(),
+}));
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+const mockApi = api as jest.Mocked<typeof api>;
+
+const titlesArb = fc.uniqueArray(
+  fc.record({
+    id: fc.integer({ min: 1, max: 1000000 }),
+    mediaType: fc.constantFrom<'movie' | 'tv'>('movie', 'tv'),
+  }),
+  { minLength: 1, maxLength: 10, selector: title => `${title.mediaType}:${title.id}` }
+);
+
+// Helper to reset store state between tests
+const resetStore = () => {
+  useCertificationStore.setState({ certifications: {}, isLoaded: false, pending: [] });
+};
+
+describe('Certification Store Property Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetStore();
+    mockStorage.getCertificationCache.mockResolvedValue({});
+    mockStorage.saveCertificationCache.mockResolvedValue();
+    mockApi.getApiProviderChain.mockReturnValue(['tmdb']);
+  });
+
+  it('stores looked-up certifications and reads them back', async () => {
+    await fc.assert(
+      fc.asyncProperty(titlesArb, async (titles) => {
+        resetStore();
+        mockStorage.saveCertificationCache.mockClear();
+        mockApi.getMovieDetails.mockResolvedValue({ ageRating: 'R', releases: [] } as unknown as MediaDetails);
+        mockApi.getTvDetails.mockResolvedValue({ ageRating: 'TV-MA', releases: [] } as unknown as MediaDetails);
+
+        await useCertificationStore.getState().lookUp(titles);
+
+        const { certifications } = useCertificationStore.getState();
+        expect(Object.keys(certifications).sort()).toEqual(titles.map(t => `${t.mediaType}:${t.id}`).sort());
+        expect(mockStorage.saveCertificationCache).toHaveBeenLastCalledWith(certifications);
+
+        // The next launch starts from the stored lookups and sends nothing
+        resetStore();
+        mockStorage.getCertificationCache.mockResolvedValueOnce(certifications);
+        mockApi.getMovieDetails.mockClear();
+        mockApi.getTvDetails.mockClear();
+        await useCertificationStore.getState().lookUp(titles);
+        expect(useCertificationStore.getState().certifications).toEqual(certifications);
+        expect(mockApi.getMovieDetails).not.toHaveBeenCalled();
+        expect(mockApi.getTvDetails).not.toHaveBeenCalled();
+        return true;
+      }),
+      { numRuns: 30 }
+    );
+  });
+
+  it('leaves the certifications untouched when every lookup fails', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockApi.getMovieDetails.mockRejectedValue(new Error('Network error'));
+    mockApi.getTvDetails.mockRejectedValue(new Error('Network error'));
+    await useCertificationStore.getState().loadCertifications();
+    const before = useCertificationStore.getState().certifications;
+
+    await useCertificationStore.getState().lookUp([{ id: 603, mediaType: 'movie' }]);
+
+    expect(useCertificationStore.getState().certifications).toBe(before);
+    expect(mockStorage.saveCertificationCache).not.toHaveBeenCalled();
+    jest.restoreAllMocks();
+  });
+
+  it('looks nothing up while a provider has a daily quota', async () => {
+    createRateLimiter({ provider: 'capped', capacity: 1, refillPerSecond: 1, dailyLimit: 1000 });
+    mockApi.getApiProviderChain.mockReturnValue(['tmdb', 'capped']);
+
+    await useCertificationStore.getState().lookUp([{ id: 603, mediaType: 'movie' }]);
+
+    expect(mockApi.getMovieDetails).not.toHaveBeenCalled();
+    expect(useCertificationStore.getState().pending).toEqual([]);
+  });
+});
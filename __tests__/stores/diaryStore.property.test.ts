@@ -0,0 +1,231 @@
+/**
+ * Property-based tests for Watch Diary Zustand Store
+ * Feature: watch-diary
+ *
+ * Properties tested:
+ * - Logged watches are stored under their month, rewatches included
+ * - Loading is paged by month and eventually returns every entry
+ * - Editing the day moves an entry between months; deleting removes it
+ * - Logging a movie marks it completed in the watchlist
+ * - Failed saves roll back
+ * - Entries saved under another provider's IDs are translated one by one
+ */
+
+import * as fc from 'fast-check';
+import { useDiaryStore, DIARY_PAGE_MONTHS } from '@/stores/diaryStore';
+import * as storage from '@/services/storage';
+import { setMediaIdResolver, type MediaIdResolver } from '@/services/api/id-mapping';
+import { generateNumericId } from '@/services/api/omdb/id-mapping';
+import { createDiaryEntry, toDiaryMonth } from '@/utils/diary';
+import type { DiaryEntry, DiaryTitle } from '@/types/diary';
+
+// In-memory month partitions behind the mocked storage service
+const mockMonths = new Map<string, DiaryEntry[]>();
+
+jest.mock('@/services/storage', () => ({
+  getDiaryMonths: jest.fn(async () => [...mockMonths.keys()].sort().reverse()),
+  getDiaryMonth: jest.fn(async (month: string) => mockMonths.get(month) ?? []),
+  updateDiaryMonth: jest.fn(async (month: string, update: (entries: DiaryEntry[]) => DiaryEntry[]) => {
+    const entries = update(mockMonths.get(month) ?? []);
+    if (entries.length === 0) {
+      mockMonths.delete(month);
+    } else {
+      mockMonths.set(month, entries);
+    }
+    return entries;
+  }),
+}));
+
+// Mock the watchlist store (its analytics dependency isn't needed here)
+const mockRecordWatchActivity = jest.fn();
+jest.mock('@/stores/watchlistStore', () => ({
+  useWatchlistStore: {
+    getState: () => ({ recordWatchActivity: mockRecordWatchActivity }),
+  },
+}));
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+const titleArb: fc.Arbitrary<DiaryTitle> = fc.record({
+  id: fc.integer({ min: 1, max: 1000000 }),
+  mediaType: fc.constantFrom<'movie' | 'tv'>('movie', 'tv'),
+  title: fc.string({ minLength: 1, maxLength: 100 }),
+  posterPath: fc.constant(null),
+});
+
+const dayArb = fc.record({
+  year: fc.integer({ min: 2015, max: 2025 }),
+  month: fc.integer({ min: 1, max: 12 }),
+  day: fc.integer({ min: 1, max: 28 }),
+}).map(({ year, month, day }) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+);
+
+// Helper to reset store state and storage between tests
+const resetStore = () => {
+  mockMonths.clear();
+  useDiaryStore.setState({
+    entries: [],
+    months: [],
+    oldestLoadedMonth: null,
+    hasMore: false,
+    isLoading: false,
+    isLoadingMore: false,
+    error: null,
+  });
+};
+
+describe('Watch Diary Store Property Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetStore();
+  });
+
+  describe('Logging watches', () => {
+    it('stores every watch under its month, rewatches as separate entries', async () => {
+      await fc.assert(
+        fc.asyncProperty(titleArb, fc.array(dayArb, { minLength: 1, maxLength: 5 }), async (title, days) => {
+          resetStore();
+
+          for (const [i, watchedOn] of days.entries()) {
+            await useDiaryStore.getState().logWatch(title, { watchedOn, isRewatch: i > 0, note: '' });
+          }
+
+          const state = useDiaryStore.getState();
+          expect(state.getEntriesForTitle(title.id, title.mediaType)).toHaveLength(days.length);
+          expect(state.months).toEqual([...new Set(days.map(toDiaryMonth))].sort().reverse());
+          for (const entry of state.entries) {
+            expect(mockMonths.get(toDiaryMonth(entry.watchedOn))).toContainEqual(entry);
+          }
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('marks a logged movie as completed in the watchlist', async () => {
+      await useDiaryStore.getState().logWatch(
+        { id: 5, mediaType: 'movie', title: 'Jaws', posterPath: null },
+        { watchedOn: '2025-06-01', isRewatch: false, note: '' }
+      );
+      await useDiaryStore.getState().logWatch(
+        { id: 6, mediaType: 'tv', title: 'Lost', posterPath: null },
+        { watchedOn: '2025-06-02', isRewatch: false, note: '', episode: { seasonNumber: 1, episodeNumber: 1 } }
+      );
+
+      expect(mockRecordWatchActivity).toHaveBeenCalledTimes(1);
+      expect(mockRecordWatchActivity).toHaveBeenCalledWith(5, 'movie', true);
+    });
+  });
+
+  describe('Paging', () => {
+    it('loads a page of months at a time until every entry is loaded', async () => {
+      await fc.assert(
+        fc.asyncProperty(titleArb, fc.array(dayArb, { minLength: 1, maxLength: 20 }), async (title, days) => {
+          resetStore();
+          for (const watchedOn of days) {
+            await useDiaryStore.getState().logWatch(title, { watchedOn, isRewatch: false, note: '' });
+          }
+          const monthCount = new Set(days.map(toDiaryMonth)).size;
+          useDiaryStore.setState({ entries: [], months: [], hasMore: false, oldestLoadedMonth: null });
+
+          await useDiaryStore.getState().loadDiary();
+          expect(mockStorage.getDiaryMonth).toHaveBeenCalled();
+          expect(new Set(useDiaryStore.getState().entries.map(e => toDiaryMonth(e.watchedOn))).size)
+            .toBe(Math.min(monthCount, DIARY_PAGE_MONTHS));
+          expect(useDiaryStore.getState().hasMore).toBe(monthCount > DIARY_PAGE_MONTHS);
+
+          while (useDiaryStore.getState().hasMore) {
+            await useDiaryStore.getState().loadMoreDiary();
+          }
+          expect(useDiaryStore.getState().entries).toHaveLength(days.length);
+        }),
+        { numRuns: 30 }
+      );
+    });
+  });
+
+  describe('Editing entries', () => {
+    it('moves an entry to another month when its day changes, and deletes it', async () => {
+      await fc.assert(
+        fc.asyncProperty(titleArb, dayArb, dayArb, async (title, first, second) => {
+          resetStore();
+          const entry = (await useDiaryStore.getState().logWatch(title, { watchedOn: first, isRewatch: false, note: '' }))!;
+
+          expect(await useDiaryStore.getState().updateEntry(entry.entryId, { watchedOn: second })).toBe(true);
+          expect(useDiaryStore.getState().getEntry(entry.entryId)?.watchedOn).toBe(second);
+          expect(mockMonths.get(toDiaryMonth(second))?.map(e => e.entryId)).toEqual([entry.entryId]);
+          if (toDiaryMonth(first) !== toDiaryMonth(second)) {
+            expect(mockMonths.has(toDiaryMonth(first))).toBe(false);
+          }
+
+          await useDiaryStore.getState().deleteEntry(entry.entryId);
+          expect(useDiaryStore.getState().entries).toEqual([]);
+          expect(useDiaryStore.getState().months).toEqual([]);
+          expect(mockMonths.size).toBe(0);
+        }),
+        { numRuns: 30 }
+      );
+    });
+
+    it('rolls back and reports an error when saving fails', async () => {
+      const title: DiaryTitle = { id: 1, mediaType: 'movie', title: 'Heat', posterPath: null };
+      const entry = (await useDiaryStore.getState().logWatch(title, { watchedOn: '2025-05-05', isRewatch: false, note: '' }))!;
+      const before = useDiaryStore.getState().entries;
+      mockStorage.updateDiaryMonth.mockRejectedValueOnce(new Error('Disk full'));
+
+      await useDiaryStore.getState().updateEntry(entry.entryId, { note: 'Second half drags' });
+
+      expect(useDiaryStore.getState().entries).toEqual(before);
+      expect(useDiaryStore.getState().error).toBe('Disk full');
+    });
+  });
+
+  describe('Provider switches', () => {
+    afterEach(() => {
+      setMediaIdResolver(null);
+    });
+
+    it('translates every entry, keeping rewatches and episodes of one title', async () => {
+      const imdbIds: Record<string, string> = { 'movie:603': 'tt0133093', 'tv:1399': 'tt0944947' };
+      const resolver: MediaIdResolver = {
+        idSpace: 'omdb',
+        getExternalIds: async (_space, mediaType, id) => {
+          const imdbId = imdbIds[`${mediaType}:${id}`];
+          return imdbId ? { imdbId, tmdbId: id, omdbId: generateNumericId(imdbId) } : null;
+        },
+        findByImdbId: async (_mediaType, imdbId) => generateNumericId(imdbId),
+      };
+
+      const movie: DiaryTitle = { id: 603, mediaType: 'movie', title: 'The Matrix', posterPath: null, idSpace: 'tmdb' };
+      const series: DiaryTitle = { id: 1399, mediaType: 'tv', title: 'Game of Thrones', posterPath: null, idSpace: 'tmdb' };
+      const now = '2025-06-01T00:00:00.000Z';
+      // The first watch is in a month beyond the first page
+      const stored = [
+        createDiaryEntry(movie, { watchedOn: '2025-01-10', isRewatch: false, note: '' }, now, 'first'),
+        createDiaryEntry(movie, { watchedOn: '2025-05-10', isRewatch: true, note: '' }, now, 'rewatch'),
+        createDiaryEntry(series, { watchedOn: '2025-04-01', isRewatch: false, note: '', episode: { seasonNumber: 1, episodeNumber: 1 } }, now, 'e1'),
+        createDiaryEntry(series, { watchedOn: '2025-03-02', isRewatch: false, note: '', episode: { seasonNumber: 1, episodeNumber: 2 } }, now, 'e2'),
+      ];
+      for (const entry of stored) {
+        const month = toDiaryMonth(entry.watchedOn);
+        mockMonths.set(month, [...(mockMonths.get(month) ?? []), entry]);
+      }
+      setMediaIdResolver(resolver);
+
+      await useDiaryStore.getState().loadDiary();
+      while (useDiaryStore.getState().hasMore) {
+        await useDiaryStore.getState().loadMoreDiary();
+      }
+
+      const expectedIds = { first: 'tt0133093', rewatch: 'tt0133093', e1: 'tt0944947', e2: 'tt0944947' };
+      const { entries } = useDiaryStore.getState();
+      expect(entries.map(e => e.entryId).sort()).toEqual(Object.keys(expectedIds).sort());
+      for (const entry of [...entries, ...[...mockMonths.values()].flat()]) {
+        const imdbId = expectedIds[entry.entryId as keyof typeof expectedIds];
+        expect(entry).toMatchObject({ id: generateNumericId(imdbId), idSpace: 'omdb', imdbId });
+      }
+      expect([...mockMonths.values()].flat()).toHaveLength(stored.length);
+      expect(useDiaryStore.getState().getEntry('e2')?.episode).toEqual({ seasonNumber: 1, episodeNumber: 2 });
+    });
+  });
+});
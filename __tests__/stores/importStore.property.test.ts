@@ -0,0 +1,228 @@
+/**
+ * Property-based tests for Import Zustand Store
+ * Feature: import-export
+ *
+ * Properties tested:
+ * - Parsed titles are matched and wait for review
+ * - Applying an import watchlists, rates and logs the selected titles only
+ * - Applying the same import twice adds nothing the second time
+ * - Unreadable files report an error without leaving the idle phase
+ */
+
+import * as fc from 'fast-check';
+import { useImportStore } from '@/stores/importStore';
+import { useWatchlistStore } from '@/stores/watchlistStore';
+import { useRatingsStore } from '@/stores/ratingsStore';
+import { useDiaryStore } from '@/stores/diaryStore';
+import * as api from '@/services/api';
+import { getImportRecordKey } from '@/services/transfer';
+import type { DiaryEntry } from '@/types/diary';
+import type { MediaItem } from '@/types/media';
+import type { ImportMatch, ImportRecord } from '@/types/transfer';
+
+// In-memory diary months behind the mocked storage service
+const mockMonths = new Map<string, DiaryEntry[]>();
+
+jest.mock('@/services/storage', () => ({
+  getLists: jest.fn(async () => []),
+  saveLists: jest.fn(),
+  saveCustomLists: jest.fn(),
+  getWatchlist: jest.fn(async () => []),
+  saveWatchlist: jest.fn(),
+  addToWatchlist: jest.fn(async () => []),
+  removeFromWatchlist: jest.fn(async () => []),
+  getUserRatings: jest.fn(async () => []),
+  saveUserRatings: jest.fn(),
+  getWatchProgress: jest.fn(async () => []),
+  saveWatchProgress: jest.fn(),
+  getAllDiaryEntries: jest.fn(async () => []),
+  getDiaryMonths: jest.fn(async () => [...mockMonths.keys()].sort().reverse()),
+  getDiaryMonth: jest.fn(async (month: string) => mockMonths.get(month) ?? []),
+  updateDiaryMonth: jest.fn(async (month: string, update: (entries: DiaryEntry[]) => DiaryEntry[]) => {
+    const entries = update(mockMonths.get(month) ?? []);
+    if (entries.length === 0) {
+      mockMonths.delete(month);
+    } else {
+      mockMonths.set(month, entries);
+    }
+    return entries;
+  }),
+}));
+
+// Mock the API service
+jest.mock('@/services/api', () => ({
+  searchMulti: jest.fn(),
+  findByImdbId: jest.fn(),
+  getMovieDetails: jest.fn(),
+  getTvDetails: jest.fn(),
+  getConfiguredIdSpace: jest.fn(() => 'tmdb'),
+}));
+
+// Mock analytics used by the watchlist store
+jest.mock('@/services/analytics', () => ({
+  logWatchlistAction: jest.fn(),
+}));
+
+// Mock localization, which is reloaded after a backup is restored
+jest.mock('@/services/localization', () => ({
+  initializeLocalization: jest.fn(),
+}));
+
+const mockApi = api as jest.Mocked<typeof api>;
+
+const mediaItem = (id: number, title: string): MediaItem => ({
+  id,
+  title,
+  originalTitle: title,
+  posterPath: null,
+  backdropPath: null,
+  overview: '',
+  releaseDate: '2000-01-01',
+  voteAverage: null,
+  voteCount: 0,
+  mediaType: 'movie',
+  genreIds: [],
+});
+
+const dayArb = fc.record({
+  year: fc.integer({ min: 2015, max: 2025 }),
+  month: fc.integer({ min: 1, max: 12 }),
+  day: fc.integer({ min: 1, max: 28 }),
+}).map(({ year, month, day }) =>
+  `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+);
+
+const matchArb: fc.Arbitrary<ImportMatch> = fc.record({
+  id: fc.integer({ min: 1, max: 100000 }),
+  title: fc.string({ minLength: 1, maxLength: 30 }),
+  watchlist: fc.boolean(),
+  rating: fc.option(fc.integer({ min: 0, max: 10 }), { nil: null }),
+  days: fc.uniqueArray(dayArb, { maxLength: 3 }),
+  skip: fc.boolean(),
+}).map(({ id, title, watchlist, rating, days, skip }) => {
+  const record: ImportRecord = {
+    title,
+    year: null,
+    mediaType: 'movie',
+    imdbId: null,
+    tmdbId: id,
+    watchlist,
+    rating,
+    review: '',
+    watches: days.map(watchedOn => ({ watchedOn, isRewatch: false, episode: null, note: '' })),
+  };
+  return {
+    key: getImportRecordKey(record),
+    record,
+    status: 'matched',
+    candidates: [mediaItem(id, title)],
+    selected: skip ? null : mediaItem(id, title),
+  };
+});
+
+// Helper to reset store state and storage between tests
+const resetStores = () => {
+  mockMonths.clear();
+  useImportStore.getState().reset();
+  useWatchlistStore.setState({ items: [], isLoading: false, isSyncing: false, error: null });
+  useRatingsStore.setState({ items: [], isLoading: false, error: null });
+  useDiaryStore.setState({
+    entries: [],
+    months: [],
+    oldestLoadedMonth: null,
+    hasMore: false,
+    isLoading: false,
+    isLoadingMore: false,
+    error: null,
+  });
+};
+
+describe('Import Store Property Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    resetStores();
+  });
+
+  describe('Matching', () => {
+    it('matches every title in the file and waits for review', async () => {
+      mockApi.searchMulti.mockImplementation(async (query: string) => ({
+        movies: [mediaItem(query.length, query)],
+        tvShows: [],
+        totalResults: 1,
+        page: 1,
+        totalPages: 1,
+      }));
+      const csv = 'Name,Year,Rating\nAlien,,4\nHeat,,\nAlien,,5';
+
+      await useImportStore.getState().startImport(csv, 'letterboxd');
+
+      const state = useImportStore.getState();
+      expect(state.phase).toBe('review');
+      expect(state.recordCount).toBe(2);
+      expect(state.matches.map(m => [m.record.title, m.status, m.selected?.id])).toEqual([
+        ['Alien', 'matched', 5],
+        ['Heat', 'matched', 4],
+      ]);
+      expect(mockApi.searchMulti).toHaveBeenCalledTimes(2);
+    });
+
+    it('reports unreadable files and stays idle', async () => {
+      await useImportStore.getState().startImport('not json', 'trakt');
+
+      expect(useImportStore.getState().phase).toBe('idle');
+      expect(useImportStore.getState().error).not.toBeNull();
+      expect(mockApi.searchMulti).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Applying', () => {
+    it('imports selected titles once, however often it is applied', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.uniqueArray(matchArb, { maxLength: 6, selector: m => m.record.tmdbId }),
+          async (matches) => {
+            resetStores();
+            const selected = matches.filter(m => m.selected);
+            useImportStore.setState({ phase: 'review', matches });
+
+            const summary = await useImportStore.getState().applyImport();
+
+            expect(summary).toEqual({
+              watchlisted: selected.filter(m => m.record.watchlist).length,
+              rated: selected.filter(m => m.record.rating !== null).length,
+              logged: selected.reduce((sum, m) => sum + m.record.watches.length, 0),
+              skipped: matches.length - selected.length,
+            });
+            expect(useImportStore.getState().phase).toBe('done');
+            for (const { record, selected: item } of selected) {
+              expect(useWatchlistStore.getState().isInWatchlist(item!.id, 'movie')).toBe(record.watchlist);
+              expect(useRatingsStore.getState().getRating(item!.id, 'movie')?.rating ?? null).toBe(record.rating);
+            }
+
+            // Applying again finds everything already imported
+            useImportStore.setState({ phase: 'review', matches });
+            const again = await useImportStore.getState().applyImport();
+            expect(again?.watchlisted).toBe(0);
+            expect(again?.logged).toBe(0);
+            expect([...mockMonths.values()].flat()).toHaveLength(summary!.logged);
+            return true;
+          }
+        ),
+        { numRuns: 30 }
+      );
+    });
+
+    it('imports nothing for a title the user skipped', async () => {
+      const [match] = fc.sample(matchArb.filter(m => m.selected !== null), 1);
+      useImportStore.setState({ phase: 'review', matches: [match] });
+
+      useImportStore.getState().selectCandidate(match.key, null);
+      const summary = await useImportStore.getState().applyImport();
+
+      expect(summary).toEqual({ watchlisted: 0, rated: 0, logged: 0, skipped: 1 });
+      expect(useWatchlistStore.getState().items).toHaveLength(0);
+      expect(useRatingsStore.getState().items).toHaveLength(0);
+      expect(mockMonths.size).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Property-based tests for Custom Lists Zustand Store
+ * Feature: custom-lists
+ *
+ * Properties tested:
+ * - Created lists are persisted and duplicate names are rejected
+ * - Toggling a title in a list twice restores its membership
+ * - The watchlist list mirrors the watchlist store and can't be deleted
+ * - Failed saves roll back
+ */
+
+import * as fc from 'fast-check';
+import { useListsStore } from '@/stores/listsStore';
+import { useWatchlistStore } from '@/stores/watchlistStore';
+import * as storage from '@/services/storage';
+import { createDefaultList } from '@/utils/custom-lists';
+import { DEFAULT_LIST_ID, type ListItemInput } from '@/types/lists';
+
+// Mock the storage service
+jest.mock('@/services/storage', () => ({
+  getLists: jest.fn(),
+  saveCustomLists: jest.fn(),
+  getWatchlist: jest.fn(),
+  saveWatchlist: jest.fn(),
+  addToWatchlist: jest.fn(),
+  removeFromWatchlist: jest.fn(),
+  toggleWatchlist: jest.fn(),
+}));
+
+// Mock analytics used by the watchlist store
+jest.mock('@/services/analytics', () => ({
+  logWatchlistAction: jest.fn(),
+}));
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+const itemArb: fc.Arbitrary<ListItemInput> = fc.record({
+  id: fc.integer({ min: 1, max: 1000000 }),
+  mediaType: fc.constantFrom<'movie' | 'tv'>('movie', 'tv'),
+  title: fc.string({ minLength: 1, maxLength: 100 }),
+  posterPath: fc.option(fc.string({ minLength: 1, maxLength: 100 }), { nil: null }),
+});
+
+const listNameArb = fc.string({ minLength: 1, maxLength: 30 }).filter(name => name.trim().length > 0);
+
+// Helper to reset store state between tests
+const resetStores = () => {
+  useWatchlistStore.setState({ items: [], isLoading: false, isSyncing: false, error: null });
+  useListsStore.setState({
+    lists: [createDefaultList('2025-01-01T00:00:00.000Z')],
+    isLoading: false,
+    error: null,
+  });
+};
+
+describe('Custom Lists Store Property Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockStorage.saveCustomLists.mockResolvedValue(undefined);
+    mockStorage.addToWatchlist.mockResolvedValue([]);
+    mockStorage.removeFromWatchlist.mockResolvedValue([]);
+    resetStores();
+  });
+
+  describe('Creating lists', () => {
+    it('creates a persisted list and rejects a duplicate name', async () => {
+      await fc.assert(
+        fc.asyncProperty(listNameArb, async (name) => {
+          resetStores();
+          const store = useListsStore.getState();
+
+          const listId = await store.createList(name);
+          expect(listId).not.toBeNull();
+          expect(useListsStore.getState().getList(listId!)?.name).toBe(name.trim().replace(/\s+/g, ' '));
+          expect(mockStorage.saveCustomLists).toHaveBeenLastCalledWith(useListsStore.getState().lists);
+
+          expect(await store.createList(` ${name.toUpperCase()} `)).toBeNull();
+          expect(useListsStore.getState().error).not.toBeNull();
+          expect(useListsStore.getState().lists).toHaveLength(2);
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('List membership', () => {
+    it('toggling a title twice restores its membership', async () => {
+      await fc.assert(
+        fc.asyncProperty(itemArb, async (item) => {
+          resetStores();
+          const listId = (await useListsStore.getState().createList('Date night'))!;
+          const store = useListsStore.getState();
+
+          expect(await store.toggleInList(listId, item)).toBe(true);
+          expect(useListsStore.getState().isInList(listId, item.id, item.mediaType)).toBe(true);
+          expect(useListsStore.getState().getListsContaining(item.id, item.mediaType).map(l => l.id))
+            .toEqual([listId]);
+
+          expect(await store.toggleInList(listId, item)).toBe(false);
+          expect(useListsStore.getState().isInList(listId, item.id, item.mediaType)).toBe(false);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('adding to the watchlist list goes through the watchlist store', async () => {
+      await fc.assert(
+        fc.asyncProperty(itemArb, async (item) => {
+          resetStores();
+          jest.clearAllMocks();
+
+          await useListsStore.getState().addToList(DEFAULT_LIST_ID, item);
+
+          expect(useWatchlistStore.getState().isInWatchlist(item.id, item.mediaType)).toBe(true);
+          expect(useListsStore.getState().getList(DEFAULT_LIST_ID)?.items)
+            .toEqual(useWatchlistStore.getState().items);
+          expect(mockStorage.addToWatchlist).toHaveBeenCalledTimes(1);
+          expect(mockStorage.saveCustomLists).not.toHaveBeenCalled();
+        }),
+        { numRuns: 25 }
+      );
+    });
+
+    it('never deletes the watchlist list', async () => {
+      await useListsStore.getState().deleteList(DEFAULT_LIST_ID);
+
+      expect(useListsStore.getState().getList(DEFAULT_LIST_ID)).toBeDefined();
+      expect(mockStorage.saveCustomLists).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Persistence', () => {
+    it('rolls back and reports an error when saving fails', async () => {
+      const listId = (await useListsStore.getState().createList('Kids'))!;
+      const before = useListsStore.getState().lists;
+      mockStorage.saveCustomLists.mockRejectedValueOnce(new Error('Disk full'));
+
+      await useListsStore.getState().renameList(listId, 'Family');
+
+      expect(useListsStore.getState().lists).toEqual(before);
+      expect(useListsStore.getState().error).toBe('Disk full');
+    });
+
+    it('loads stored lists', async () => {
+      await useListsStore.getState().createList('Horror marathon');
+      const stored = useListsStore.getState().lists;
+      resetStores();
+      mockStorage.getLists.mockResolvedValue(stored);
+
+      await useListsStore.getState().loadLists();
+
+      expect(useListsStore.getState().lists).toEqual(stored);
+      expect(useListsStore.getState().isLoading).toBe(false);
+    });
+  });
+});
@@ -13,6 +13,8 @@ import * as fc from 'fast-check';
 import { usePreferencesStore } from '@/stores/preferencesStore';
 import * as storage from '@/services/storage';
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { getContentLanguage } from '@/services/api/content-language';
+import { getCurrentLocale } from '@/services/localization';
 import type { UserPreferences, ThemeMode } from '@/types/user';
 
 // Mock the storage service
@@ -20,6 +22,8 @@ jest.mock('@/services/storage', () => ({
   getUserPreferences: jest.fn(),
   saveUserPreferences: jest.fn(),
   updateUserPreferences: jest.fn(),
+  getLocalePreference: jest.fn(),
+  saveLocalePreference: jest.fn(),
 }));
 
 // Mock the color scheme hook
@@ -32,8 +36,9 @@ const mockUseColorScheme = useColorScheme as jest.MockedFunction<typeof useColor
 
 // Arbitraries for generating test data
 const themeModeArb = fc.constantFrom('light' as const, 'dark' as const, 'system' as const);
-const languageArb = fc.constantFrom('en', 'es', 'fr', 'de', 'ja', 'zh');
+const languageArb = fc.constantFrom('en', 'es', 'fr', 'de', 'ja', 'zh', 'ar', 'he');
 const deviceColorSchemeArb = fc.constantFrom('light' as const, 'dark' as const);
+const serviceIdsArb = fc.uniqueArray(fc.constantFrom(8, 9, 15, 337, 1899), { maxLength: 5 });
 
 const userPreferencesArb = fc.record({
   themeMode: themeModeArb,
@@ -46,6 +51,10 @@ const userPreferencesArb = fc.record({
   }),
   gdprConsentGiven: fc.boolean(),
   gdprConsentDate: fc.option(fc.date().map(d => d.toISOString()), { nil: null }),
+  streamingServices: serviceIdsArb,
+  contentLanguage: fc.option(languageArb, { nil: null }),
+  certificationCeiling: fc.option(fc.constantFrom(6, 12, 16), { nil: null }),
+  certificationCeilingMode: fc.constantFrom('hide' as const, 'blur' as const),
 });
 
 // Helper to reset store state between tests
@@ -62,6 +71,10 @@ const resetStore = () => {
       },
       gdprConsentGiven: false,
       gdprConsentDate: null,
+      streamingServices: [],
+      contentLanguage: null,
+      certificationCeiling: null,
+      certificationCeilingMode: 'blur',
     },
     isLoading: false,
     error: null,
@@ -295,6 +308,135 @@ describe('Feature: moviestream-mvp, Property 22: System Theme Respect', () => {
     });
   });
 
+  describe('Streaming services updates', () => {
+    it('for any services chosen, they are stored once each, or rolled back when storage fails', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          serviceIdsArb,
+          fc.array(fc.constantFrom(8, 9, 15, 337, 1899), { maxLength: 8 }),
+          fc.boolean(),
+          async (initialServices, chosen, storageFails) => {
+            resetStore();
+            usePreferencesStore.setState({
+              preferences: { ...usePreferencesStore.getState().preferences, streamingServices: initialServices },
+            });
+
+            mockStorage.updateUserPreferences.mockReset();
+            if (storageFails) {
+              mockStorage.updateUserPreferences.mockRejectedValue(new Error('Storage failed'));
+            } else {
+              mockStorage.updateUserPreferences.mockImplementation(async (updates) => ({
+                ...usePreferencesStore.getState().preferences,
+                ...updates,
+              }));
+            }
+
+            await usePreferencesStore.getState().setStreamingServices(chosen);
+
+            const { preferences, error } = usePreferencesStore.getState();
+            const expected = [...new Set(chosen)];
+            expect(mockStorage.updateUserPreferences).toHaveBeenCalledWith({ streamingServices: expected });
+            if (storageFails) {
+              expect(preferences.streamingServices).toEqual(initialServices);
+              expect(error).toBeTruthy();
+            } else {
+              expect(preferences.streamingServices).toEqual(expected);
+            }
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Certification ceiling updates', () => {
+    it('for any ceiling and mode, both are stored, or rolled back when storage fails', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.option(fc.integer({ min: 0, max: 18 }), { nil: null }),
+          fc.constantFrom('hide' as const, 'blur' as const),
+          fc.boolean(),
+          async (ceiling, mode, storageFails) => {
+            resetStore();
+
+            mockStorage.updateUserPreferences.mockReset();
+            if (storageFails) {
+              mockStorage.updateUserPreferences.mockRejectedValue(new Error('Storage failed'));
+            } else {
+              mockStorage.updateUserPreferences.mockImplementation(async (updates) => ({
+                ...usePreferencesStore.getState().preferences,
+                ...updates,
+              }));
+            }
+
+            await usePreferencesStore.getState().setCertificationCeiling(ceiling);
+            await usePreferencesStore.getState().setCertificationCeilingMode(mode);
+
+            const { preferences, error } = usePreferencesStore.getState();
+            expect(mockStorage.updateUserPreferences).toHaveBeenCalledWith({ certificationCeiling: ceiling });
+            expect(mockStorage.updateUserPreferences).toHaveBeenCalledWith({ certificationCeilingMode: mode });
+            if (storageFails) {
+              expect(preferences.certificationCeiling).toBeNull();
+              expect(preferences.certificationCeilingMode).toBe('blur');
+              expect(error).toBeTruthy();
+            } else {
+              expect(preferences.certificationCeiling).toBe(ceiling);
+              expect(preferences.certificationCeilingMode).toBe(mode);
+            }
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Content language updates', () => {
+    it('for any content language, metadata is requested in it, or in the app language when unset', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          fc.option(languageArb, { nil: null }),
+          fc.boolean(),
+          async (language, storageFails) => {
+            resetStore();
+
+            mockStorage.updateUserPreferences.mockReset();
+            if (storageFails) {
+              mockStorage.updateUserPreferences.mockRejectedValue(new Error('Storage failed'));
+            } else {
+              mockStorage.updateUserPreferences.mockImplementation(async (updates) => ({
+                ...usePreferencesStore.getState().preferences,
+                ...updates,
+              }));
+            }
+
+            await usePreferencesStore.getState().setContentLanguage(language);
+
+            const { preferences, error } = usePreferencesStore.getState();
+            if (storageFails) {
+              expect(preferences.contentLanguage).toBeNull();
+              expect(error).toBeTruthy();
+              expect(getContentLanguage()).toBe(getCurrentLocale());
+            } else {
+              expect(preferences.contentLanguage).toBe(language);
+              expect(getContentLanguage()).toBe(language ?? getCurrentLocale());
+            }
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('rejects languages the app does not support', async () => {
+      resetStore();
+      await usePreferencesStore.getState().setContentLanguage('xx');
+
+      const { preferences, error } = usePreferencesStore.getState();
+      expect(preferences.contentLanguage).toBeNull();
+      expect(error).toContain('xx');
+      expect(mockStorage.updateUserPreferences).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Notification type updates preserve other settings', () => {
     it('for any notification type update, other preferences should remain unchanged', async () => {
       await fc.assert(
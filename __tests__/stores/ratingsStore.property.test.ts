@@ -0,0 +1,118 @@
+/**
+ * Property-based tests for Ratings Zustand Store
+ * Feature: personal-ratings
+ *
+ * Properties tested:
+ * - Saved ratings and notes are persisted and can be read back
+ * - Setting the rating keeps the note (and vice versa)
+ * - Failed saves roll back
+ */
+
+import * as fc from 'fast-check';
+import { useRatingsStore } from '@/stores/ratingsStore';
+import * as storage from '@/services/storage';
+import type { RatedTitle } from '@/types/ratings';
+
+// Mock the storage service
+jest.mock('@/services/storage', () => ({
+  getUserRatings: jest.fn(),
+  saveUserRatings: jest.fn(),
+}));
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+const titleArb: fc.Arbitrary<RatedTitle> = fc.record({
+  id: fc.integer({ min: 1, max: 1000000 }),
+  mediaType: fc.constantFrom<'movie' | 'tv'>('movie', 'tv'),
+  title: fc.string({ minLength: 1, maxLength: 100 }),
+  posterPath: fc.option(fc.string({ minLength: 1, maxLength: 100 }), { nil: null }),
+});
+
+const ratingArb = fc.integer({ min: 0, max: 10 });
+const noteArb = fc.string({ minLength: 1, maxLength: 100 }).filter(note => note.trim().length > 0);
+
+// Helper to reset store state between tests
+const resetStore = () => {
+  useRatingsStore.setState({ items: [], isLoading: false, error: null });
+};
+
+describe('Ratings Store Property Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockStorage.saveUserRatings.mockResolvedValue(undefined);
+    resetStore();
+  });
+
+  describe('Saving ratings', () => {
+    it('persists a rating and note and reads them back', async () => {
+      await fc.assert(
+        fc.asyncProperty(titleArb, ratingArb, noteArb, async (title, rating, note) => {
+          resetStore();
+
+          await useRatingsStore.getState().saveRating(title, { rating, note });
+
+          const saved = useRatingsStore.getState().getRating(title.id, title.mediaType);
+          expect(saved).toMatchObject({ rating, note: note.trim(), title: title.title });
+          expect(mockStorage.saveUserRatings).toHaveBeenLastCalledWith(useRatingsStore.getState().items);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('changing the rating keeps the note and changing the note keeps the rating', async () => {
+      await fc.assert(
+        fc.asyncProperty(titleArb, ratingArb, ratingArb, noteArb, async (title, first, second, note) => {
+          resetStore();
+          const store = useRatingsStore.getState();
+
+          await store.saveRating(title, { rating: first, note });
+          await store.setRating(title, second);
+          expect(store.getRating(title.id, title.mediaType)).toMatchObject({ rating: second, note: note.trim() });
+
+          await store.setNote(title, '');
+          expect(store.getRating(title.id, title.mediaType)).toMatchObject({ rating: second, note: '' });
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('removes a rating', async () => {
+      const title: RatedTitle = { id: 42, mediaType: 'movie', title: 'Alien', posterPath: null };
+      await useRatingsStore.getState().saveRating(title, { rating: 9, note: '' });
+
+      await useRatingsStore.getState().removeRating(42, 'movie');
+
+      expect(useRatingsStore.getState().getRating(42, 'movie')).toBeUndefined();
+      expect(mockStorage.saveUserRatings).toHaveBeenLastCalledWith([]);
+    });
+  });
+
+  describe('Persistence', () => {
+    it('rolls back and reports an error when saving fails', async () => {
+      const title: RatedTitle = { id: 7, mediaType: 'tv', title: 'Severance', posterPath: null };
+      await useRatingsStore.getState().saveRating(title, { rating: 8, note: '' });
+      const before = useRatingsStore.getState().items;
+      mockStorage.saveUserRatings.mockRejectedValueOnce(new Error('Disk full'));
+
+      await useRatingsStore.getState().setRating(title, 10);
+
+      expect(useRatingsStore.getState().items).toEqual(before);
+      expect(useRatingsStore.getState().error).toBe('Disk full');
+    });
+
+    it('loads stored ratings', async () => {
+      await useRatingsStore.getState().saveRating(
+        { id: 3, mediaType: 'movie', title: 'Up', posterPath: null },
+        { rating: 6, note: 'Opening montage' }
+      );
+      const stored = useRatingsStore.getState().items;
+      resetStore();
+      mockStorage.getUserRatings.mockResolvedValue(stored);
+
+      await useRatingsStore.getState().loadRatings();
+
+      expect(useRatingsStore.getState().items).toEqual(stored);
+      expect(useRatingsStore.getState().isLoading).toBe(false);
+    });
+  });
+});
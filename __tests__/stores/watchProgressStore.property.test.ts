@@ -0,0 +1,202 @@
+/**
+ * Property-based tests for Watch Progress Zustand Store
+ * Feature: watch-progress
+ *
+ * Properties tested:
+ * - Toggling an episode twice restores its watched state
+ * - Marking a season watched records every episode and the season length
+ * - Every change is persisted, and rolled back when saving fails
+ * - Marking episodes moves the series along in the watchlist
+ */
+
+import * as fc from 'fast-check';
+import { useWatchProgressStore } from '@/stores/watchProgressStore';
+import * as storage from '@/services/storage';
+import type { SeriesProgressInfo } from '@/types/progress';
+
+// Mock the storage service
+jest.mock('@/services/storage', () => ({
+  getWatchProgress: jest.fn(),
+  saveWatchProgress: jest.fn(),
+}));
+
+// Mock the watchlist store that receives status updates
+const mockRecordWatchActivity = jest.fn();
+jest.mock('@/stores/watchlistStore', () => ({
+  useWatchlistStore: {
+    getState: () => ({ recordWatchActivity: mockRecordWatchActivity }),
+  },
+}));
+
+const mockStorage = storage as jest.Mocked<typeof storage>;
+
+// Arbitraries for generating test data
+const seriesArb: fc.Arbitrary<SeriesProgressInfo> = fc.record({
+  id: fc.integer({ min: 1, max: 1000000 }),
+  title: fc.string({ minLength: 1, maxLength: 100 }),
+  posterPath: fc.option(fc.string({ minLength: 1, maxLength: 100 }), { nil: null }),
+  totalEpisodes: fc.option(fc.integer({ min: 1, max: 200 }), { nil: null }),
+  totalSeasons: fc.option(fc.integer({ min: 1, max: 20 }), { nil: null }),
+});
+
+const seasonNumberArb = fc.integer({ min: 1, max: 10 });
+const episodeNumberArb = fc.integer({ min: 1, max: 30 });
+
+// Helper to reset store state between tests
+const resetStore = () => {
+  useWatchProgressStore.setState({
+    items: [],
+    isLoading: false,
+    error: null,
+  });
+};
+
+describe('Watch Progress Store Property Tests', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockStorage.saveWatchProgress.mockResolvedValue(undefined);
+    resetStore();
+  });
+
+  describe('Episode toggling', () => {
+    it('toggling an episode twice restores its watched state', async () => {
+      await fc.assert(
+        fc.asyncProperty(seriesArb, seasonNumberArb, episodeNumberArb, async (series, season, episode) => {
+          resetStore();
+          const store = useWatchProgressStore.getState();
+
+          expect(await store.toggleEpisodeWatched(series, season, episode)).toBe(true);
+          expect(useWatchProgressStore.getState().isEpisodeWatched(series.id, season, episode)).toBe(true);
+
+          expect(await store.toggleEpisodeWatched(series, season, episode)).toBe(false);
+          expect(useWatchProgressStore.getState().isEpisodeWatched(series.id, season, episode)).toBe(false);
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('marking an episode starts tracking the series once', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          seriesArb,
+          fc.array(fc.tuple(seasonNumberArb, episodeNumberArb), { minLength: 1, maxLength: 10 }),
+          async (series, episodes) => {
+            resetStore();
+
+            for (const [season, episode] of episodes) {
+              await useWatchProgressStore.getState().markEpisodeWatched(series, season, episode);
+            }
+
+            const { items } = useWatchProgressStore.getState();
+            expect(items).toHaveLength(1);
+            expect(items[0].id).toBe(series.id);
+            expect(items[0].mediaType).toBe('tv');
+            expect(mockStorage.saveWatchProgress).toHaveBeenLastCalledWith(items);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Season marking', () => {
+    it('marking a season watched records every episode and the season length', async () => {
+      await fc.assert(
+        fc.asyncProperty(
+          seriesArb,
+          seasonNumberArb,
+          fc.integer({ min: 1, max: 25 }),
+          async (series, season, episodeCount) => {
+            resetStore();
+            const episodeNumbers = Array.from({ length: episodeCount }, (_, i) => i + 1);
+
+            await useWatchProgressStore.getState().markSeasonWatched(series, season, episodeNumbers);
+
+            const state = useWatchProgressStore.getState();
+            const progress = state.getProgress(series.id)!;
+            expect(progress.seasonEpisodeCounts[season]).toBe(episodeCount);
+            episodeNumbers.forEach(n => expect(state.isEpisodeWatched(series.id, season, n)).toBe(true));
+
+            // Next episode moves past the finished season (or the series is done)
+            const next = state.getNextEpisode(series.id);
+            if (next) {
+              expect(next).toEqual({ seasonNumber: season + 1, episodeNumber: 1 });
+            } else {
+              expect(series.totalSeasons).not.toBeNull();
+              expect(season).toBeGreaterThanOrEqual(series.totalSeasons!);
+            }
+
+            await state.unmarkSeasonWatched(series.id, season);
+            expect(useWatchProgressStore.getState().getProgress(series.id)!.watchedEpisodes).toHaveLength(0);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+
+    it('does not start tracking a series just by learning its season length', async () => {
+      await useWatchProgressStore.getState().setSeasonEpisodeCount(1399, 1, 10);
+
+      expect(useWatchProgressStore.getState().items).toHaveLength(0);
+      expect(mockStorage.saveWatchProgress).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Watchlist status', () => {
+    it('reports progress, and completion once every episode is watched', async () => {
+      const series = { id: 1399, title: 'Test Series', posterPath: null, totalEpisodes: 3, totalSeasons: 1 };
+
+      await useWatchProgressStore.getState().markEpisodeWatched(series, 1, 1);
+      expect(mockRecordWatchActivity).toHaveBeenLastCalledWith(1399, 'tv', false);
+
+      await useWatchProgressStore.getState().markSeasonWatched(series, 1, [1, 2, 3]);
+      expect(mockRecordWatchActivity).toHaveBeenLastCalledWith(1399, 'tv', true);
+    });
+
+    it('does not report progress that failed to save', async () => {
+      mockStorage.saveWatchProgress.mockRejectedValueOnce(new Error('Disk full'));
+
+      await useWatchProgressStore.getState().markEpisodeWatched(
+        { id: 1399, title: 'Test Series', posterPath: null, totalEpisodes: null, totalSeasons: null },
+        1,
+        1
+      );
+
+      expect(mockRecordWatchActivity).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Persistence', () => {
+    it('rolls back and reports an error when saving fails', async () => {
+      await fc.assert(
+        fc.asyncProperty(seriesArb, seasonNumberArb, episodeNumberArb, async (series, season, episode) => {
+          resetStore();
+          mockStorage.saveWatchProgress.mockRejectedValueOnce(new Error('Disk full'));
+
+          await useWatchProgressStore.getState().markEpisodeWatched(series, season, episode);
+
+          const state = useWatchProgressStore.getState();
+          expect(state.items).toHaveLength(0);
+          expect(state.error).toBe('Disk full');
+        }),
+        { numRuns: 25 }
+      );
+    });
+
+    it('loads stored progress', async () => {
+      await useWatchProgressStore.getState().markEpisodeWatched(
+        { id: 1399, title: 'Test Series', posterPath: null, totalEpisodes: 10, totalSeasons: 1 },
+        1,
+        1
+      );
+      const stored = useWatchProgressStore.getState().items;
+      resetStore();
+      mockStorage.getWatchProgress.mockResolvedValue(stored);
+
+      await useWatchProgressStore.getState().loadProgress();
+
+      expect(useWatchProgressStore.getState().items).toEqual(stored);
+      expect(useWatchProgressStore.getState().isLoading).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Property-based tests for watchlist sync in the Watchlist Zustand Store
+ * Feature: watchlist-sync
+ *
+ * Properties tested:
+ * - Local adds, removals and status changes reach the server and end synced
+ * - Changes made on another device are pulled, removals included
+ * - Failed syncs keep changes queued and retry once the device is back online
+ * - Rejected changes show an error on the item until retried
+ * - Titles saved before sync and restored watchlists reach the server
+ * - Titles keep their key when a provider switch translates their IDs, and
+ *   titles pulled from a device on another provider are translated
+ */
+
+import * as fc from 'fast-check';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import { useWatchlistStore } from '@/stores/watchlistStore';
+import { saveWatchlist } from '@/services/storage';
+import { setMediaIdResolver } from '@/services/api/id-mapping';
+import { generateNumericId } from '@/services/api/omdb/id-mapping';
+import type { SyncPushResult, WatchlistChange } from '@/types/sync';
+import type { WatchlistItem } from '@/types/watchlist';
+
+// Mock analytics used by the watchlist store
+jest.mock('@/services/analytics', () => ({
+  logWatchlistAction: jest.fn(),
+}));
+
+const ENDPOINT = 'https://sync.test';
+
+/** In-memory stand-in for the sync server (same rules as scripts/sync-server.js) */
+const server = {
+  entries: new Map<string, { change: WatchlistChange; seq: number }>(),
+  seq: 0,
+  offline: false,
+  rejectKeys: new Set<string>(),
+  reset() {
+    this.entries.clear();
+    this.seq = 0;
+    this.offline = false;
+    this.rejectKeys.clear();
+  },
+  write(change: WatchlistChange) {
+    this.entries.set(change.key, { change, seq: ++this.seq });
+  },
+  push(changes: WatchlistChange[]): SyncPushResult[] {
+    return changes.map(change => {
+      if (this.rejectKeys.has(change.key)) {
+        return { key: change.key, status: 'rejected', current: null, error: 'Title not allowed' };
+      }
+      const stored = this.entries.get(change.key);
+      if (stored && stored.change.updatedAt > change.updatedAt) {
+        return { key: change.key, status: 'stale', current: stored.change, error: null };
+      }
+      this.write(change);
+      return { key: change.key, status: 'applied', current: null, error: null };
+    });
+  },
+  pull(since: number) {
+    const changes = [...this.entries.values()].filter(e => e.seq > since).map(e => e.change);
+    return { changes, cursor: String(this.seq) };
+  },
+  /** Titles the server holds, tombstones excluded */
+  titles() {
+    return [...this.entries.values()].filter(e => e.change.item).map(e => e.change.key).sort();
+  },
+};
+
+const fetchMock = jest.fn(async (url: string, init?: RequestInit) => {
+  if (server.offline) throw new TypeError('Network request failed');
+  const { pathname, searchParams } = new URL(url);
+  if (pathname !== '/watchlist/changes') return new Response('{}', { status: 404 });
+  const body = init?.method === 'POST'
+    ? { results: server.push(JSON.parse(String(init.body)).changes) }
+    : server.pull(Number(searchParams.get('since')) || 0);
+  return new Response(JSON.stringify(body), { status: 200 });
+});
+
+const mockNetInfo = NetInfo as jest.Mocked<typeof NetInfo>;
+
+/** Connectivity listener registered by the scheduler */
+const connectivityListener = () =>
+  mockNetInfo.addEventListener.mock.calls[mockNetInfo.addEventListener.mock.calls.length - 1][0] as
+    (state: { isConnected: boolean }) => void;
+
+const title = (id: number) => ({ id, mediaType: 'movie' as const, title: `Title ${id}`, posterPath: null });
+
+/** Item saved on the device before sync was set up */
+const stored = (id: number): WatchlistItem => ({
+  ...title(id),
+  idSpace: 'tmdb',
+  addedAt: '2024-01-01T00:00:00.000Z',
+  syncStatus: 'synced',
+});
+
+const keys = () => useWatchlistStore.getState().items.map(i => `${i.mediaType}:${i.id}`).sort();
+
+const resetStore = async () => {
+  useWatchlistStore.getState().stopSync();
+  await AsyncStorage.clear();
+  server.reset();
+  useWatchlistStore.setState({
+    items: [],
+    outbox: [],
+    tombstones: {},
+    lastSyncedAt: null,
+    isLoading: false,
+    isSyncing: false,
+    error: null,
+  });
+};
+
+describe('Watchlist Sync Store Property Tests', () => {
+  const originalFetch = global.fetch;
+
+  beforeAll(() => {
+    process.env.EXPO_PUBLIC_SYNC_API_URL = ENDPOINT;
+    global.fetch = fetchMock as unknown as typeof fetch;
+  });
+
+  afterAll(() => {
+    delete process.env.EXPO_PUBLIC_SYNC_API_URL;
+    global.fetch = originalFetch;
+  });
+
+  beforeEach(resetStore);
+  afterEach(() => useWatchlistStore.getState().stopSync());
+
+  it('sends local changes and ends with everything synced', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.array(fc.record({ id: fc.integer({ min: 1, max: 6 }), action: fc.constantFrom('toggle', 'complete') }), {
+          maxLength: 12,
+        }),
+        async (actions) => {
+          await resetStore();
+          const store = useWatchlistStore.getState();
+
+          for (const { id, action } of actions) {
+            if (action === 'toggle') {
+              await store.toggleItem(title(id));
+            } else {
+              await store.setStatus(id, 'movie', 'completed');
+            }
+          }
+          await store.syncNow();
+
+          const state = useWatchlistStore.getState();
+          expect(state.outbox).toEqual([]);
+          expect(state.items.every(i => i.syncStatus === 'synced')).toBe(true);
+          expect(server.titles()).toEqual(keys());
+          for (const item of state.items.filter(i => i.status === 'completed')) {
+            expect(server.entries.get(`movie:${item.id}`)?.change.item?.status).toBe('completed');
+          }
+          return true;
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+
+  it('pulls additions and removals made on another device', async () => {
+    const store = useWatchlistStore.getState();
+    await store.addItem(title(1));
+    await store.addItem(title(2));
+    await store.syncNow();
+
+    const later = new Date(Date.now() + 60000).toISOString();
+    server.write({ key: 'movie:1', item: null, updatedAt: later });
+    server.write({
+      key: 'movie:3',
+      item: { ...title(3), addedAt: later, updatedAt: later, status: 'watching' },
+      updatedAt: later,
+    });
+    await store.syncNow();
+
+    expect(keys()).toEqual(['movie:2', 'movie:3']);
+    expect(useWatchlistStore.getState().getStatus(3, 'movie')).toBe('watching');
+    // An older add of the removed title doesn't bring it back
+    server.write({ key: 'movie:1', item: { ...title(1), addedAt: '2020-01-01T00:00:00.000Z' }, updatedAt: '2020-01-01T00:00:00.000Z' });
+    await store.syncNow();
+    expect(keys()).toEqual(['movie:2', 'movie:3']);
+  });
+
+  it('keeps changes queued while offline and retries when back online', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const store = useWatchlistStore.getState();
+    store.startSync();
+    const onConnectivityChange = connectivityListener();
+
+    server.offline = true;
+    await store.addItem(title(7));
+    await store.syncNow();
+
+    expect(useWatchlistStore.getState().items[0].syncStatus).toBe('pending');
+    expect(useWatchlistStore.getState().outbox).toHaveLength(1);
+    expect(server.titles()).toEqual([]);
+
+    server.offline = false;
+    onConnectivityChange({ isConnected: false });
+    onConnectivityChange({ isConnected: true });
+    await store.syncNow();
+
+    expect(useWatchlistStore.getState().items[0].syncStatus).toBe('synced');
+    expect(useWatchlistStore.getState().outbox).toEqual([]);
+    expect(server.titles()).toEqual(['movie:7']);
+    jest.restoreAllMocks();
+  });
+
+  it('shows a rejected change on the item until it is retried', async () => {
+    const store = useWatchlistStore.getState();
+    server.rejectKeys.add('movie:9');
+
+    await store.addItem(title(9));
+    await store.syncNow();
+
+    expect(useWatchlistStore.getState().items[0]).toMatchObject({ syncStatus: 'error', syncError: 'Title not allowed' });
+    // Rejected changes aren't resent automatically
+    await store.syncNow();
+    expect(server.titles()).toEqual([]);
+
+    server.rejectKeys.clear();
+    await store.retrySync(9, 'movie');
+
+    expect(useWatchlistStore.getState().items[0]).toMatchObject({ syncStatus: 'synced', syncError: null });
+    expect(server.titles()).toEqual(['movie:9']);
+  });
+
+  it('uploads titles saved before sync was set up on the first sync', async () => {
+    await saveWatchlist([stored(1), stored(2)]);
+    const store = useWatchlistStore.getState();
+
+    await store.loadWatchlist();
+    await store.syncNow();
+
+    expect(server.titles()).toEqual(['movie:1', 'movie:2']);
+    expect(keys()).toEqual(['movie:1', 'movie:2']);
+    expect(useWatchlistStore.getState().outbox).toEqual([]);
+  });
+
+  it('keeps titles re-keyed by a provider switch under their key on the server', async () => {
+    await saveWatchlist([stored(603)]);
+    const store = useWatchlistStore.getState();
+    await store.loadWatchlist();
+    await store.syncNow();
+    expect(server.titles()).toEqual(['movie:603']);
+
+    const omdbId = generateNumericId('tt0133093');
+    setMediaIdResolver({
+      idSpace: 'omdb',
+      getExternalIds: async () => ({ imdbId: 'tt0133093', tmdbId: 603, omdbId }),
+      findByImdbId: async () => omdbId,
+    });
+    try {
+      await store.loadWatchlist();
+      await store.syncNow();
+    } finally {
+      setMediaIdResolver(null);
+    }
+
+    expect(keys()).toEqual([`movie:${omdbId}`]);
+    expect(server.titles()).toEqual(['movie:603']);
+    expect(useWatchlistStore.getState().outbox).toEqual([]);
+  });
+
+  it('translates titles pulled from a device on another provider', async () => {
+    const omdbId = generateNumericId('tt0133093');
+    setMediaIdResolver({
+      idSpace: 'omdb',
+      getExternalIds: async () => ({ imdbId: 'tt0133093', tmdbId: 603, omdbId }),
+      findByImdbId: async () => omdbId,
+    });
+    try {
+      const store = useWatchlistStore.getState();
+      const addedAt = new Date(Date.now() + 60000).toISOString();
+      server.write({
+        key: 'movie:tmdb:603',
+        item: { ...title(603), idSpace: 'tmdb', imdbId: null, addedAt, updatedAt: addedAt },
+        updatedAt: addedAt,
+      });
+      await store.syncNow();
+      expect(keys()).toEqual([`movie:${omdbId}`]);
+
+      // Reloading doesn't re-key it on the server
+      await store.loadWatchlist();
+      await store.syncNow();
+      expect(server.titles()).toEqual(['movie:tmdb:603']);
+
+      // A removal on the other device still reaches it
+      const removedAt = new Date(Date.now() + 120000).toISOString();
+      server.write({ key: 'movie:tmdb:603', item: null, updatedAt: removedAt });
+      await store.syncNow();
+      expect(keys()).toEqual([]);
+    } finally {
+      setMediaIdResolver(null);
+    }
+  });
+
+  it('sends a restored watchlist to the server', async () => {
+    const store = useWatchlistStore.getState();
+    await store.addItem(title(1));
+    await store.syncNow();
+
+    // A backup restore writes the watchlist straight to storage
+    await saveWatchlist([stored(2)]);
+    await store.reloadWatchlist();
+    await store.syncNow();
+
+    expect(keys()).toEqual(['movie:2']);
+    expect(server.titles()).toEqual(['movie:2']);
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Property-based tests for regional releases and the certification ceiling
+ * Feature: regional-certifications
+ *
+ * Properties tested:
+ * - Certifications compare as viewer ages, by number or per-country table
+ * - The user's region is used first, then the US, then the provider's own rating
+ * - Titles above the ceiling are left out; unrated titles never are
+ * - TMDB release dates and content ratings give one release per country
+ * - List titles without a certification have it looked up once, until stale,
+ *   and stale lookups aren't stored
+ */
+
+import * as fc from 'fast-check';
+import {
+  filterByCeiling,
+  getCertificationAge,
+  getRegionalCertification,
+  getRegionalRelease,
+  isAboveCeiling,
+  normalizeCertification,
+} from '@/utils/certifications';
+import { transformContentRatings, transformReleaseDates } from '@/services/api/tmdb/transformers';
+import { parseRegionalReleases } from '@/services/api/omdb-mappers';
+import {
+  getTitlesToLookUp,
+  isCertificationStale,
+  lookUpCertifications,
+  pruneCertifications,
+} from '@/services/certification-lookup';
+import * as api from '@/services/api';
+import { CERTIFICATION_LOOKUP_CONFIG } from '@/constants/api';
+import type { MediaDetails, RegionalRelease, TitleCertification } from '@/types/media';
+
+jest.mock('@/services/api', () => ({
+  getApiProviderChain: jest.fn(() => ['tmdb']),
+  getMovieDetails: jest.fn(),
+  getTvDetails: jest.fn(),
+}));
+
+const mockApi = api as jest.Mocked<typeof api>;
+const NOW = new Date('2025-06-15T20:00:00.000Z');
+
+const COUNTRIES = ['US', 'GB', 'DE', 'FR', 'JP'];
+
+const countryArb = fc.constantFrom(...COUNTRIES);
+const ageArb = fc.integer({ min: 0, max: 18 });
+const ceilingArb = fc.option(ageArb, { nil: null });
+
+/** Certifications whose age is their number, in any country */
+const numberedCertificationArb = ageArb.map(age => `FSK ${age}`);
+
+const releasesArb = fc.uniqueArray(
+  fc.record({
+    countryCode: countryArb,
+    releaseDate: fc.constant<string | null>(null),
+    certification: fc.option(numberedCertificationArb, { nil: null }),
+  }),
+  { selector: release => release.countryCode, maxLength: COUNTRIES.length }
+);
+
+describe('Feature: regional-certifications, Certification ages', () => {
+  it('reads the age from numbered certifications', () => {
+    fc.assert(
+      fc.property(ageArb, countryArb, (age, country) => {
+        expect(getCertificationAge(`FSK ${age}`, country)).toBe(age);
+        expect(getCertificationAge(`${age}+`, country)).toBe(age);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('looks up certifications without a number per country, then in the US table', () => {
+    expect(getCertificationAge('PG-13', 'US')).toBe(13);
+    expect(getCertificationAge('R', 'US')).toBe(17);
+    expect(getCertificationAge('R', 'CA')).toBe(18);
+    expect(getCertificationAge('U', 'GB')).toBe(0);
+    expect(getCertificationAge('TV-MA', 'DE')).toBe(17);
+    expect(getCertificationAge('Banned', 'US')).toBeNull();
+  });
+
+  it('treats "not rated" values as no certification', () => {
+    for (const unrated of ['', ' ', 'NR', 'N/A', 'Not Rated', 'Unrated', null, undefined]) {
+      expect(normalizeCertification(unrated)).toBeNull();
+      expect(getCertificationAge(unrated, 'US')).toBeNull();
+    }
+  });
+});
+
+describe('Feature: regional-certifications, Regional fallback', () => {
+  it('uses the region, then the US release', () => {
+    fc.assert(
+      fc.property(releasesArb, countryArb, (releases, region) => {
+        const release = getRegionalRelease(releases, region);
+        const expected = releases.find(r => r.countryCode === region)
+          ?? releases.find(r => r.countryCode === 'US')
+          ?? null;
+        expect(release).toBe(expected);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('falls back to the provider rating when no release is certified', () => {
+    fc.assert(
+      fc.property(releasesArb, countryArb, fc.option(numberedCertificationArb, { nil: undefined }), (releases, region, ageRating) => {
+        const regional = getRegionalCertification({ releases, ageRating }, region);
+        const certified = releases.filter(r => r.certification);
+        const release = certified.find(r => r.countryCode === region) ?? certified.find(r => r.countryCode === 'US');
+
+        if (release) {
+          expect(regional).toEqual({ certification: release.certification, countryCode: release.countryCode });
+        } else if (ageRating) {
+          expect(regional).toEqual({ certification: ageRating, countryCode: null });
+        } else {
+          expect(regional).toBeNull();
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Feature: regional-certifications, Certification ceiling', () => {
+  it('leaves out exactly the titles rated above the ceiling, in order', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.record({ id: fc.integer(), ageRating: fc.option(ageArb, { nil: undefined }) }), { maxLength: 20 }),
+        ceilingArb,
+        countryArb,
+        (ages, ceiling, region) => {
+          const items = ages.map(({ id, ageRating }) => ({
+            id,
+            ageRating: ageRating === undefined ? undefined : `FSK ${ageRating}`,
+          }));
+          const expected = ceiling === null
+            ? items
+            : items.filter((_, index) => ages[index].ageRating === undefined || ages[index].ageRating! <= ceiling);
+
+          expect(filterByCeiling(items, ceiling, region)).toEqual(expected);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('holds the regional certification against the ceiling rather than the provider rating', () => {
+    const releases: RegionalRelease[] = [
+      { countryCode: 'US', releaseDate: null, certification: 'R' },
+      { countryCode: 'DE', releaseDate: null, certification: '12' },
+    ];
+    expect(isAboveCeiling({ ageRating: 'R', releases }, 12, 'DE')).toBe(false);
+    expect(isAboveCeiling({ ageRating: 'R', releases }, 12, 'US')).toBe(true);
+    expect(isAboveCeiling({ ageRating: 'R', releases }, 12, 'JP')).toBe(true);
+    expect(isAboveCeiling({ ageRating: 'R', releases }, null, 'US')).toBe(false);
+  });
+});
+
+describe('Feature: regional-certifications, Provider releases', () => {
+  it('gives each TMDB country its earliest theatrical date and certification', () => {
+    const releases = transformReleaseDates({
+      results: [
+        {
+          iso_3166_1: 'DE',
+          release_dates: [
+            { certification: '', release_date: '2023-12-01T00:00:00.000Z', type: 1, note: 'Festival' },
+            { certification: '12', release_date: '2023-12-21T00:00:00.000Z', type: 3, note: '' },
+            { certification: '', release_date: '2023-12-20T00:00:00.000Z', type: 3, note: 'Preview' },
+          ],
+        },
+        {
+          iso_3166_1: 'US',
+          release_dates: [
+            { certification: 'PG-13', release_date: '2024-03-01T00:00:00.000Z', type: 4, note: '' },
+          ],
+        },
+      ],
+    });
+
+    expect(releases).toEqual([
+      { countryCode: 'DE', releaseDate: '2023-12-20', certification: '12' },
+      { countryCode: 'US', releaseDate: '2024-03-01', certification: 'PG-13' },
+    ]);
+    expect(transformReleaseDates(undefined)).toEqual([]);
+  });
+
+  it('gives each TMDB TV country its rating without a date', () => {
+    fc.assert(
+      fc.property(
+        fc.uniqueArray(fc.record({ iso_3166_1: countryArb, rating: fc.constantFrom('', 'TV-MA', '16', 'NR') }), {
+          selector: rating => rating.iso_3166_1,
+        }),
+        (results) => {
+          const releases = transformContentRatings({ results });
+          expect(releases.map(r => r.countryCode)).toEqual(results.map(r => r.iso_3166_1));
+          releases.forEach((release, index) => {
+            expect(release.releaseDate).toBeNull();
+            expect(release.certification).toBe(normalizeCertification(results[index].rating));
+          });
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('attributes OMDb US ratings to the US', () => {
+    expect(parseRegionalReleases('PG-13', '15 Dec 2023', 'United Kingdom, United States')).toEqual([
+      { countryCode: 'US', releaseDate: '2023-12-15', certification: 'PG-13' },
+    ]);
+  });
+
+  it('attributes other OMDb ratings to the first country', () => {
+    expect(parseRegionalReleases('12A', 'N/A', 'United Kingdom')).toEqual([
+      { countryCode: 'GB', releaseDate: null, certification: '12A' },
+    ]);
+  });
+
+  it('gives no OMDb release without a rating or date', () => {
+    expect(parseRegionalReleases('N/A', 'N/A', 'Germany')).toEqual([]);
+  });
+});
+
+describe('Feature: regional-certifications, List lookups', () => {
+  const refsArb = fc.uniqueArray(
+    fc.record({
+      id: fc.integer({ min: 1, max: 500 }),
+      mediaType: fc.constantFrom('movie' as const, 'tv' as const),
+      ageRating: fc.option(fc.constantFrom('PG', 'R'), { nil: undefined }),
+    }),
+    { maxLength: 20, selector: ref => `${ref.mediaType}:${ref.id}` }
+  );
+  const lookupArb = fc.option(
+    fc.integer({ min: 0, max: 2 * CERTIFICATION_LOOKUP_CONFIG.MAX_AGE_MS }).map((age): TitleCertification => ({
+      ageRating: 'R',
+      releases: [],
+      checkedAt: new Date(NOW.getTime() - age).toISOString(),
+    })),
+    { nil: undefined }
+  );
+
+  it('looks up uncertified titles never looked up or looked up too long ago, once each', () => {
+    fc.assert(
+      fc.property(refsArb, fc.array(lookupArb, { maxLength: 20 }), (refs, lookups) => {
+        const certifications: Record<string, TitleCertification> = {};
+        refs.forEach((ref, i) => {
+          if (lookups[i]) certifications[`${ref.mediaType}:${ref.id}`] = lookups[i]!;
+        });
+
+        const toLookUp = getTitlesToLookUp([...refs, ...refs], certifications, NOW);
+
+        expect(toLookUp).toEqual(refs.filter(ref => {
+          const known = certifications[`${ref.mediaType}:${ref.id}`];
+          return !ref.ageRating
+            && (!known || NOW.getTime() - new Date(known.checkedAt).getTime() >= CERTIFICATION_LOOKUP_CONFIG.MAX_AGE_MS);
+        }));
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('stores only lookups that are still fresh', () => {
+    fc.assert(
+      fc.property(refsArb, fc.array(lookupArb, { maxLength: 20 }), (refs, lookups) => {
+        const certifications: Record<string, TitleCertification> = {};
+        refs.forEach((ref, i) => {
+          if (lookups[i]) certifications[`${ref.mediaType}:${ref.id}`] = lookups[i]!;
+        });
+
+        const pruned = pruneCertifications(certifications, NOW);
+
+        expect(Object.keys(pruned)).toEqual(
+          Object.keys(certifications).filter(key => !isCertificationStale(certifications[key], NOW))
+        );
+        Object.entries(pruned).forEach(([key, certification]) => expect(certification).toBe(certifications[key]));
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('takes certifications from title details and leaves failed lookups out', async () => {
+    const releases: RegionalRelease[] = [{ countryCode: 'US', releaseDate: '1999-03-31', certification: 'R' }];
+    mockApi.getMovieDetails.mockResolvedValue({ ageRating: 'R', releases } as MediaDetails);
+    mockApi.getTvDetails.mockRejectedValue(new Error('Network error'));
+
+    const result = await lookUpCertifications([
+      { id: 603, mediaType: 'movie' },
+      { id: 1399, mediaType: 'tv' },
+    ], NOW);
+
+    expect(result.certifications).toEqual({
+      'movie:603': { ageRating: 'R', releases, checkedAt: NOW.toISOString() },
+    });
+    expect(result.failed).toBe(1);
+    expect(isAboveCeiling(result.certifications['movie:603'], 12, 'US')).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * Property-based tests for checksum helpers
+ * Feature: app-backup
+ *
+ * Properties tested:
+ * - SHA-256 and HMAC-SHA-256 match published test vectors
+ * - Canonical JSON doesn't depend on key order
+ * - Any change to signed data changes its signature
+ */
+
+import * as fc from 'fast-check';
+import { canonicalJson, hmacSha256, sha256, utf8Encode } from '@/utils/checksum';
+
+describe('Checksum Helpers Property Tests', () => {
+  it('matches SHA-256 test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('matches HMAC-SHA-256 test vectors', () => {
+    expect(hmacSha256('Jefe', 'what do ya want for nothing?'))
+      .toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+    // Keys longer than a block are hashed first
+    expect(hmacSha256('k'.repeat(100), 'Test Using Larger Than Block-Size Key'))
+      .toBe('a5d81dde3923c7c8898faecb702b7ae392a13d0a88a45cc5a3bb4da80f466b88');
+  });
+
+  it('encodes text as UTF-8', () => {
+    expect(utf8Encode('aé€😀')).toEqual([0x61, 0xc3, 0xa9, 0xe2, 0x82, 0xac, 0xf0, 0x9f, 0x98, 0x80]);
+  });
+
+  it('serializes objects the same whatever their key order', () => {
+    fc.assert(
+      fc.property(fc.dictionary(fc.string(), fc.jsonValue()), (value) => {
+        const reversed = Object.fromEntries(Object.entries(value).reverse());
+
+        expect(canonicalJson(reversed)).toBe(canonicalJson(value));
+        expect(JSON.parse(canonicalJson(value))).toEqual(JSON.parse(JSON.stringify(value)));
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('gives different signatures for different text', () => {
+    fc.assert(
+      fc.property(fc.string(), fc.string(), (a, b) => {
+        fc.pre(a !== b);
+        expect(hmacSha256('key', a)).not.toBe(hmacSha256('key', b));
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
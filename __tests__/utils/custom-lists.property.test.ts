@@ -0,0 +1,119 @@
+/**
+ * Property-based tests for custom list helpers
+ * Feature: custom-lists
+ *
+ * Properties tested:
+ * - List names are trimmed, bounded and unique regardless of case
+ * - Moving a list keeps every list and the watchlist pinned at the top
+ * - Adding a title twice keeps a single entry; removing it drops it
+ */
+
+import * as fc from 'fast-check';
+import {
+  MAX_LIST_NAME_LENGTH,
+  addItemToList,
+  createDefaultList,
+  createList,
+  listContains,
+  moveList,
+  normalizeListName,
+  removeItemFromList,
+  validateListName,
+} from '@/utils/custom-lists';
+import { DEFAULT_LIST_ID, type CustomList } from '@/types/lists';
+import type { WatchlistItem } from '@/types/watchlist';
+
+const NOW = '2025-06-15T12:00:00.000Z';
+
+const nameArb = fc.string({ minLength: 1, maxLength: MAX_LIST_NAME_LENGTH })
+  .filter(name => normalizeListName(name).length > 0);
+
+const itemArb: fc.Arbitrary<WatchlistItem> = fc.record({
+  id: fc.integer({ min: 1, max: 1000000 }),
+  mediaType: fc.constantFrom<'movie' | 'tv'>('movie', 'tv'),
+  title: fc.string({ minLength: 1, maxLength: 50 }),
+  posterPath: fc.constant(null),
+  addedAt: fc.constant(NOW),
+  syncStatus: fc.constant<'synced'>('synced'),
+});
+
+/** Watchlist followed by `count` custom lists */
+const makeLists = (count: number): CustomList[] => [
+  createDefaultList(NOW),
+  ...Array.from({ length: count }, (_, i) => createList(`List ${i}`, NOW, `list-${i}`)),
+];
+
+describe('Custom List Helpers Property Tests', () => {
+  describe('Name validation', () => {
+    it('accepts new names and rejects case-insensitive duplicates', () => {
+      fc.assert(
+        fc.property(nameArb, (name) => {
+          const list = createList(name, NOW, 'list-a');
+          expect(list.name).toBe(normalizeListName(name));
+          expect(validateListName(name, [])).toBeNull();
+          expect(validateListName(name.toUpperCase(), [list])).not.toBeNull();
+          // Renaming a list to its own name is allowed
+          expect(validateListName(name, [list], list.id)).toBeNull();
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('rejects blank and overlong names', () => {
+      expect(validateListName('   ', [])).not.toBeNull();
+      expect(validateListName('x'.repeat(MAX_LIST_NAME_LENGTH + 1), [])).not.toBeNull();
+      expect(validateListName('watchlist', [createDefaultList(NOW)])).not.toBeNull();
+    });
+  });
+
+  describe('Reordering', () => {
+    it('keeps every list and leaves the watchlist first', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({ min: 0, max: 8 }),
+          fc.nat(),
+          fc.integer({ min: -10, max: 10 }),
+          (count, pick, offset) => {
+            const lists = makeLists(count);
+            const target = lists[pick % lists.length];
+
+            const moved = moveList(lists, target.id, offset);
+
+            expect(moved.map(l => l.id).sort()).toEqual(lists.map(l => l.id).sort());
+            expect(moved[0].id).toBe(DEFAULT_LIST_ID);
+            if (target.id !== DEFAULT_LIST_ID) {
+              const expected = Math.min(Math.max(lists.indexOf(target) + offset, 1), lists.length - 1);
+              expect(moved.findIndex(l => l.id === target.id)).toBe(expected);
+            }
+            return true;
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Membership', () => {
+    it('adding a title twice keeps one entry, removing drops it', () => {
+      fc.assert(
+        fc.property(fc.array(itemArb, { maxLength: 10 }), itemArb, (existing, item) => {
+          const base = existing.reduce(
+            (list, i) => addItemToList(list, i, NOW),
+            createList('Date night', NOW, 'list-a')
+          );
+
+          const added = addItemToList(addItemToList(base, item, NOW), item, NOW);
+          const matches = added.items.filter(i => i.id === item.id && i.mediaType === item.mediaType);
+          expect(matches).toHaveLength(1);
+          expect(added.items[added.items.length - 1]).toEqual(item);
+
+          const removed = removeItemFromList(added, item.id, item.mediaType, NOW);
+          expect(listContains(removed, item.id, item.mediaType)).toBe(false);
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Property-based tests for watch diary helpers
+ * Feature: watch-diary
+ *
+ * Properties tested:
+ * - Diary days round-trip through dates and map to their month
+ * - Calendar grids hold every day of the month in whole weeks
+ * - Timeline groups are ordered newest first and keep every entry
+ * - Rewatch detection matches title and episode
+ */
+
+import * as fc from 'fast-check';
+import {
+  countEntriesByDay,
+  createDiaryEntry,
+  getCalendarWeeks,
+  groupDiaryByDay,
+  hasDiaryEntry,
+  isValidDiaryDate,
+  parseDiaryDate,
+  shiftDiaryMonth,
+  toDiaryDate,
+  toDiaryMonth,
+  updateDiaryEntry,
+  validateDiaryDate,
+} from '@/utils/diary';
+import type { DiaryEntry, DiaryTitle } from '@/types/diary';
+
+const NOW = '2025-06-15T12:00:00.000Z';
+
+const dateArb = fc.date({ min: new Date(2000, 0, 1), max: new Date(2035, 11, 31), noInvalidDate: true });
+const dayArb = dateArb.map(toDiaryDate);
+const monthArb = dayArb.map(toDiaryMonth);
+
+const titleArb: fc.Arbitrary<DiaryTitle> = fc.record({
+  id: fc.integer({ min: 1, max: 50 }),
+  mediaType: fc.constantFrom<'movie' | 'tv'>('movie', 'tv'),
+  title: fc.string({ minLength: 1, maxLength: 30 }),
+  posterPath: fc.constant(null),
+});
+
+const entryArb: fc.Arbitrary<DiaryEntry> = fc.record({
+  title: titleArb,
+  watchedOn: dayArb,
+  isRewatch: fc.boolean(),
+  id: fc.uuid(),
+}).map(({ title, watchedOn, isRewatch, id }) =>
+  createDiaryEntry(title, { watchedOn, isRewatch, note: '' }, NOW, id)
+);
+
+describe('Watch Diary Helpers Property Tests', () => {
+  describe('Dates', () => {
+    it('diary days round-trip and belong to their month', () => {
+      fc.assert(
+        fc.property(dateArb, (date) => {
+          const day = toDiaryDate(date);
+          expect(isValidDiaryDate(day)).toBe(true);
+          expect(toDiaryDate(parseDiaryDate(day))).toBe(day);
+          expect(day.startsWith(toDiaryMonth(day))).toBe(true);
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('rejects malformed, impossible and future days', () => {
+      expect(isValidDiaryDate('2025-02-30')).toBe(false);
+      expect(isValidDiaryDate('2025-2-3')).toBe(false);
+      expect(validateDiaryDate('2024-02-29', '2025-01-01')).toBeNull();
+      expect(validateDiaryDate('2025-01-02', '2025-01-01')).not.toBeNull();
+      expect(validateDiaryDate('yesterday', '2025-01-01')).not.toBeNull();
+    });
+
+    it('shifting a month there and back returns the same month', () => {
+      fc.assert(
+        fc.property(monthArb, fc.integer({ min: -36, max: 36 }), (month, offset) => {
+          expect(shiftDiaryMonth(shiftDiaryMonth(month, offset), -offset)).toBe(month);
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+      expect(shiftDiaryMonth('2025-01', -1)).toBe('2024-12');
+    });
+  });
+
+  describe('Calendar', () => {
+    it('holds every day of the month in whole weeks', () => {
+      fc.assert(
+        fc.property(monthArb, (month) => {
+          const weeks = getCalendarWeeks(month);
+          const days = weeks.flat().filter((day): day is string => day !== null);
+          const dayCount = new Date(Number(month.slice(0, 4)), Number(month.slice(5)), 0).getDate();
+
+          expect(weeks.every(week => week.length === 7)).toBe(true);
+          expect(days).toHaveLength(dayCount);
+          expect(days.every(day => toDiaryMonth(day) === month && isValidDiaryDate(day))).toBe(true);
+          // The first day sits in its weekday column
+          expect(weeks[0].indexOf(days[0])).toBe(parseDiaryDate(days[0]).getDay());
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Timeline', () => {
+    it('groups entries by day, newest first, without losing any', () => {
+      fc.assert(
+        fc.property(fc.array(entryArb, { maxLength: 30 }), (entries) => {
+          const days = groupDiaryByDay(entries);
+          const counts = countEntriesByDay(entries);
+
+          expect(days.flatMap(d => d.entries)).toHaveLength(entries.length);
+          for (let i = 1; i < days.length; i++) {
+            expect(days[i - 1].date > days[i].date).toBe(true);
+          }
+          for (const day of days) {
+            expect(day.entries.every(e => e.watchedOn === day.date)).toBe(true);
+            expect(counts[day.date]).toBe(day.entries.length);
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Entries', () => {
+    it('detects earlier watches of the same title and episode', () => {
+      fc.assert(
+        fc.property(titleArb, dayArb, fc.nat({ max: 5 }), fc.nat({ max: 20 }), (title, watchedOn, season, episode) => {
+          const entry = createDiaryEntry(
+            title,
+            { watchedOn, isRewatch: false, note: '', episode: { seasonNumber: season, episodeNumber: episode } },
+            NOW
+          );
+          const logged = entry.episode ?? null;
+
+          expect(hasDiaryEntry([entry], title.id, title.mediaType, logged)).toBe(true);
+          expect(hasDiaryEntry([entry], title.id + 1, title.mediaType, logged)).toBe(false);
+          if (title.mediaType === 'tv') {
+            expect(hasDiaryEntry([entry], title.id, 'tv', { seasonNumber: season, episodeNumber: episode + 1 })).toBe(false);
+          } else {
+            // Movies never carry an episode
+            expect(entry.episode).toBeNull();
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('edits keep the entry identity and creation date', () => {
+      fc.assert(
+        fc.property(entryArb, dayArb, fc.string({ maxLength: 30 }), (entry, watchedOn, note) => {
+          const later = '2025-07-01T00:00:00.000Z';
+          const updated = updateDiaryEntry(entry, { watchedOn, note: ` ${note} ` }, later);
+
+          expect(updated.entryId).toBe(entry.entryId);
+          expect(updated.createdAt).toBe(entry.createdAt);
+          expect(updated.updatedAt).toBe(later);
+          expect(updated.watchedOn).toBe(watchedOn);
+          expect(updated.note).toBe(note.trim());
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Property-based tests for locale-aware formatting
+ * Feature: locale-formatting
+ *
+ * Properties tested:
+ * - Runtimes, file sizes and compact numbers follow the app language
+ * - Numbers use the separators reported for the app language
+ * - Date-only strings format as the same calendar day in every time zone
+ * - Weekday names start on Sunday and change with the language
+ * - Plural strings pick the form the language's plural rules select
+ */
+
+import * as fc from 'fast-check';
+import {
+  formatAirDate,
+  formatCompactNumber,
+  formatCurrency,
+  formatDate,
+  formatFileSize,
+  formatNumber,
+  formatRuntime,
+  getIntlLocale,
+  getLocaleSeparators,
+  getWeekdayNames,
+} from '@/utils/formatting';
+import { i18n, t, SUPPORTED_LOCALES, type SupportedLocale } from '@/services/localization';
+
+jest.mock('@/services/storage', () => ({
+  getLocalePreference: jest.fn().mockResolvedValue(null),
+  saveLocalePreference: jest.fn().mockResolvedValue(undefined),
+}));
+
+const localeArb = fc.constantFrom(...(Object.keys(SUPPORTED_LOCALES) as SupportedLocale[]));
+
+afterEach(() => {
+  i18n.locale = 'en';
+});
+
+describe('Feature: locale-formatting, Units and numbers', () => {
+  it('formats runtimes as hours and minutes', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 1, max: 600 }), (minutes) => {
+        const hours = Math.floor(minutes / 60);
+        const rest = minutes % 60;
+        const expected = [hours > 0 ? `${hours}h` : '', rest > 0 ? `${rest}m` : ''].filter(Boolean).join(' ');
+        expect(formatRuntime(minutes)).toBe(expected);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('leaves unknown runtimes empty', () => {
+    expect(formatRuntime(null)).toBe('');
+    expect(formatRuntime(undefined)).toBe('');
+    expect(formatRuntime(0)).toBe('');
+  });
+
+  it('formats runtimes in the app language', () => {
+    i18n.locale = 'de';
+    expect(formatRuntime(150)).toBe(
+      `${new Intl.NumberFormat('de-DE', { style: 'unit', unit: 'hour', unitDisplay: 'narrow' }).format(2)} ` +
+      new Intl.NumberFormat('de-DE', { style: 'unit', unit: 'minute', unitDisplay: 'narrow' }).format(30)
+    );
+    expect(formatRuntime(150)).not.toBe('2h 30m');
+  });
+
+  it('formats file sizes in 1024 steps', () => {
+    expect(formatFileSize(0)).toBe('0 byte');
+    expect(formatFileSize(1536)).toBe('1.5 kB');
+    expect(formatFileSize(1.5 * 1024 ** 3)).toBe('1.5 GB');
+  });
+
+  it('abbreviates vote counts and budgets', () => {
+    expect(formatCompactNumber(1234)).toBe('1.2K');
+    expect(formatCompactNumber(987)).toBe('987');
+    expect(formatCurrency(150_000_000, 'USD', true)).toBe('$150M');
+    expect(formatCurrency(1_500_000_000, 'USD', true)).toBe('$1.5B');
+  });
+
+  it('groups digits with the separators of the app language', () => {
+    fc.assert(
+      fc.property(localeArb, fc.integer({ min: 1_000_000, max: 9_999_999 }), (locale, value) => {
+        i18n.locale = locale;
+        const { grouping } = getLocaleSeparators();
+        expect(formatNumber(value)).toBe(new Intl.NumberFormat(getIntlLocale()).format(value));
+        expect(formatNumber(value)).toContain(grouping);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('Feature: locale-formatting, Dates', () => {
+  it('formats date-only strings as the same calendar day', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1950, max: 2040 }),
+        fc.integer({ min: 1, max: 12 }),
+        fc.integer({ min: 1, max: 28 }),
+        (year, month, day) => {
+          const iso = `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+          expect(formatDate(iso)).toBe(formatDate(new Date(year, month - 1, day)));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('shows TBA for air dates that are not known yet', () => {
+    expect(formatAirDate('')).toBe(t('common.tba'));
+    expect(formatAirDate(null)).toBe(t('common.tba'));
+    expect(formatAirDate('2023-12-15')).toBe('Dec 15, 2023');
+  });
+
+  it('names the days of the week from Sunday in the app language', () => {
+    expect(getWeekdayNames()).toEqual(['S', 'M', 'T', 'W', 'T', 'F', 'S']);
+    fc.assert(
+      fc.property(localeArb, (locale) => {
+        i18n.locale = locale;
+        const names = getWeekdayNames('long');
+        expect(names).toHaveLength(7);
+        expect(new Set(names).size).toBe(7);
+        expect(names[0]).toBe(formatDate(new Date(2024, 0, 7), { weekday: 'long', year: undefined, month: undefined, day: undefined }));
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
+
+describe('Feature: locale-formatting, Plural rules', () => {
+  it('picks the plural form the language selects', () => {
+    fc.assert(
+      fc.property(localeArb, fc.integer({ min: 1, max: 200 }), (locale, count) => {
+        i18n.locale = locale;
+        const form = new Intl.PluralRules(locale).select(count);
+        const forms = i18n.translations[locale].detail.seasonCount as Record<string, string>;
+        const expected = (forms[form] ?? forms.other).replace('{{count}}', String(count));
+        expect(t('detail.seasonCount', { count })).toBe(expected);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('uses the same form for one as for many in Japanese and Chinese', () => {
+    i18n.locale = 'ja';
+    expect(t('picker.startOverHint', { count: 1 })).toBe(t('picker.startOverHint', { count: 2 }).replace('2', '1'));
+    i18n.locale = 'zh';
+    expect(t('picker.startOverHint', { count: 1 })).toBe(t('picker.startOverHint', { count: 2 }).replace('2', '1'));
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Property-based tests for right-to-left layouts
+ * Feature: rtl-layout
+ *
+ * Properties tested:
+ * - Directional icons are swapped only in right-to-left layouts, and
+ *   mirroring twice gives the original icon
+ * - Mirrored gradients run the opposite way horizontally and keep their
+ *   vertical direction
+ * - Carousel pages count from the right edge in right-to-left layouts
+ * - The native layout direction follows the chosen language and reports
+ *   when a restart is needed
+ */
+
+import * as fc from 'fast-check';
+import { I18nManager } from 'react-native';
+import { getDirectionalIcon, getPageIndex, mirrorGradient } from '@/utils/rtl';
+import {
+  applyLayoutDirection,
+  i18n,
+  isLayoutDirectionPending,
+  isRTL,
+  SUPPORTED_LOCALES,
+  type SupportedLocale,
+} from '@/services/localization';
+
+jest.mock('@/services/storage', () => ({
+  getLocalePreference: jest.fn().mockResolvedValue(null),
+  saveLocalePreference: jest.fn().mockResolvedValue(undefined),
+}));
+
+const DIRECTIONAL_PAIRS = [
+  ['chevron-back', 'chevron-forward'],
+  ['arrow-back', 'arrow-forward'],
+  ['chevron.left', 'chevron.right'],
+] as const;
+
+const directionalIconArb = fc.constantFrom(...DIRECTIONAL_PAIRS.flat());
+const otherIconArb = fc.constantFrom('chevron-down', 'chevron-up', 'film', 'play-circle', 'chevron.left.forwardslash.chevron.right');
+const unitArb = fc.double({ min: 0, max: 1, noNaN: true });
+const pointArb = fc.record({ x: unitArb, y: unitArb });
+const localeArb = fc.constantFrom(...(Object.keys(SUPPORTED_LOCALES) as SupportedLocale[]));
+
+describe('Feature: rtl-layout, Directional icons', () => {
+  it('swaps back and forward icons only in right-to-left layouts', () => {
+    fc.assert(
+      fc.property(directionalIconArb, (name) => {
+        const pair = DIRECTIONAL_PAIRS.find(([back, forward]) => back === name || forward === name)!;
+        const opposite = pair[0] === name ? pair[1] : pair[0];
+
+        expect(getDirectionalIcon(name, false)).toBe(name);
+        expect(getDirectionalIcon(name, true)).toBe(opposite);
+        expect(getDirectionalIcon(getDirectionalIcon(name, true), true)).toBe(name);
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('leaves icons without a direction as they are', () => {
+    fc.assert(
+      fc.property(otherIconArb, fc.boolean(), (name, rightToLeft) => {
+        expect(getDirectionalIcon(name, rightToLeft)).toBe(name);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+describe('Feature: rtl-layout, Mirrored gradients', () => {
+  it('flips gradients horizontally and keeps their vertical direction', () => {
+    fc.assert(
+      fc.property(pointArb, pointArb, (start, end) => {
+        const direction = { start, end };
+        const mirrored = mirrorGradient(direction, true);
+
+        expect(mirrorGradient(direction, false)).toEqual(direction);
+        expect(mirrored.start.x).toBeCloseTo(1 - start.x);
+        expect(mirrored.end.x).toBeCloseTo(1 - end.x);
+        expect(mirrored.start.y).toBe(start.y);
+        expect(mirrored.end.y).toBe(end.y);
+        expect(mirrored.end.x - mirrored.start.x).toBeCloseTo(start.x - end.x);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+describe('Feature: rtl-layout, Carousel pages', () => {
+  it('counts pages from the right edge in right-to-left layouts', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 20 }),
+        fc.integer({ min: 100, max: 1200 }),
+        fc.nat(),
+        fc.double({ min: -0.4, max: 0.4, noNaN: true }),
+        (pageCount, pageWidth, seed, drift) => {
+          const fromLeft = seed % pageCount;
+          const offsetX = (fromLeft + drift) * pageWidth;
+
+          expect(getPageIndex(offsetX, pageWidth, pageCount, false)).toBe(fromLeft);
+          expect(getPageIndex(offsetX, pageWidth, pageCount, true)).toBe(pageCount - 1 - fromLeft);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+
+  it('stays within the pages there are when scrolled past either end', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 20 }),
+        fc.integer({ min: 100, max: 1200 }),
+        fc.double({ min: -5000, max: 50000, noNaN: true }),
+        fc.boolean(),
+        (pageCount, pageWidth, offsetX, rightToLeft) => {
+          const index = getPageIndex(offsetX, pageWidth, pageCount, rightToLeft);
+          expect(index).toBeGreaterThanOrEqual(0);
+          expect(index).toBeLessThan(pageCount);
+        }
+      ),
+      { numRuns: 200 }
+    );
+  });
+});
+
+describe('Feature: rtl-layout, Native layout direction', () => {
+  const manager = I18nManager as unknown as {
+    isRTL: boolean;
+    allowRTL: jest.Mock;
+    forceRTL: jest.Mock;
+  };
+
+  afterEach(() => {
+    i18n.locale = 'en';
+    manager.isRTL = false;
+    manager.allowRTL.mockClear();
+    manager.forceRTL.mockClear();
+  });
+
+  it('lays Arabic and Hebrew out right to left', () => {
+    expect(isRTL('ar')).toBe(true);
+    expect(isRTL('he')).toBe(true);
+    expect(isRTL('en')).toBe(false);
+    expect(isRTL('ja')).toBe(false);
+  });
+
+  it('forces the direction of the chosen language and reports when a restart is needed', () => {
+    fc.assert(
+      fc.property(fc.boolean(), localeArb, (laidOutRightToLeft, locale) => {
+        manager.isRTL = laidOutRightToLeft;
+        manager.forceRTL.mockClear();
+        i18n.locale = locale;
+
+        const restartNeeded = applyLayoutDirection();
+
+        expect(manager.forceRTL).toHaveBeenLastCalledWith(isRTL(locale));
+        expect(restartNeeded).toBe(laidOutRightToLeft !== isRTL(locale));
+        expect(isLayoutDirectionPending()).toBe(restartNeeded);
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
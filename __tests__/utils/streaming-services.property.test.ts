@@ -0,0 +1,134 @@
+/**
+ * Property-based tests for the streaming service helpers
+ * Feature: my-streaming-services
+ *
+ * Properties tested:
+ * - "Available to me" keeps exactly the checked titles streaming on my services
+ *   (any service when none are chosen), in order
+ * - My services are listed first without reordering either part
+ * - Only unchecked, stale or other-region titles are checked again, once each
+ */
+
+import * as fc from 'fast-check';
+import {
+  filterAvailableToMe,
+  isMyService,
+  isOnMyServices,
+  sortProvidersByServices,
+} from '@/utils/streaming-services';
+import { getTitlesToCheck } from '@/services/streaming-availability';
+import { STREAMING_AVAILABILITY_CONFIG } from '@/constants/api';
+import type { StreamingAvailability, StreamingProvider } from '@/types/media';
+
+jest.mock('@/services/api', () => ({
+  getWatchProviders: jest.fn(),
+}));
+
+const NOW = new Date('2025-06-15T20:00:00.000Z');
+const PROVIDER_IDS = [8, 9, 15, 337, 1899];
+
+const serviceIdsArb = fc.uniqueArray(fc.constantFrom(...PROVIDER_IDS), { maxLength: 3 });
+
+const refsArb = fc.uniqueArray(
+  fc.record({
+    id: fc.integer({ min: 1, max: 500 }),
+    mediaType: fc.constantFrom('movie' as const, 'tv' as const),
+  }),
+  { maxLength: 20, selector: ref => `${ref.mediaType}:${ref.id}` }
+);
+
+const availabilityArb = fc.record({
+  providerIds: fc.uniqueArray(fc.constantFrom(...PROVIDER_IDS), { maxLength: 3 }),
+  countryCode: fc.constantFrom(STREAMING_AVAILABILITY_CONFIG.COUNTRY_CODE, 'GB'),
+  checkedAt: fc.integer({ min: 0, max: 48 }).map(hours => new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString()),
+});
+
+const providersArb = fc.array(
+  fc.record({
+    providerId: fc.constantFrom(...PROVIDER_IDS),
+    providerName: fc.constant('Service'),
+    logoPath: fc.constant(''),
+    link: fc.constant(''),
+    type: fc.constantFrom('flatrate' as const, 'rent' as const, 'buy' as const),
+    isAvailable: fc.boolean(),
+  }),
+  { maxLength: 10 }
+).map(providers => providers.map((p, i): StreamingProvider => ({ ...p, providerName: `Service ${i}` })));
+
+describe('Streaming Services Property Tests', () => {
+  it('keeps exactly the checked titles streaming on my services, in order', () => {
+    fc.assert(
+      fc.property(refsArb, fc.array(availabilityArb, { maxLength: 20 }), serviceIdsArb, (refs, checks, serviceIds) => {
+        const availability: Record<string, StreamingAvailability> = {};
+        refs.forEach((ref, i) => {
+          if (checks[i]) availability[`${ref.mediaType}:${ref.id}`] = checks[i];
+        });
+
+        const kept = filterAvailableToMe(refs, availability, serviceIds);
+
+        expect(kept).toEqual(refs.filter(ref => {
+          const checked = availability[`${ref.mediaType}:${ref.id}`];
+          if (!checked) return false;
+          return serviceIds.length === 0
+            ? checked.providerIds.length > 0
+            : checked.providerIds.some(id => serviceIds.includes(id));
+        }));
+        // Choosing no services is the widest filter
+        expect(kept.length).toBeLessThanOrEqual(filterAvailableToMe(refs, availability, []).length);
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('matches any of my services, or any service when none are chosen', () => {
+    fc.assert(
+      fc.property(serviceIdsArb, serviceIdsArb, (providerIds, serviceIds) => {
+        const expected = serviceIds.length === 0
+          ? providerIds.length > 0
+          : providerIds.some(id => serviceIds.includes(id));
+        expect(isOnMyServices(providerIds, serviceIds)).toBe(expected);
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('lists my subscription services first without reordering either part', () => {
+    fc.assert(
+      fc.property(providersArb, serviceIdsArb, (providers, serviceIds) => {
+        const sorted = sortProvidersByServices(providers, serviceIds);
+        const mine = providers.filter(p => p.type === 'flatrate' && serviceIds.includes(p.providerId));
+        const others = providers.filter(p => !mine.includes(p));
+
+        expect(sorted).toEqual([...mine, ...others]);
+        expect(sorted.filter(p => isMyService(p, serviceIds))).toEqual(mine);
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('checks only unchecked, stale or other-region titles, once each', () => {
+    fc.assert(
+      fc.property(refsArb, fc.array(availabilityArb, { maxLength: 20 }), (refs, checks) => {
+        const availability: Record<string, StreamingAvailability> = {};
+        refs.forEach((ref, i) => {
+          if (checks[i]) availability[`${ref.mediaType}:${ref.id}`] = checks[i];
+        });
+
+        // Titles shown twice (e.g. on two pages) are only checked once
+        const toCheck = getTitlesToCheck([...refs, ...refs], availability, NOW);
+
+        expect(toCheck).toEqual(refs.filter(ref => {
+          const checked = availability[`${ref.mediaType}:${ref.id}`];
+          return !checked
+            || checked.countryCode !== STREAMING_AVAILABILITY_CONFIG.COUNTRY_CODE
+            || NOW.getTime() - new Date(checked.checkedAt).getTime() >= STREAMING_AVAILABILITY_CONFIG.MAX_AGE_MS;
+        }));
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Property-based tests for the tonight picker helpers
+ * Feature: tonight-picker
+ *
+ * Properties tested:
+ * - A suggestion always fits the constraints and wasn't suggested this week
+ * - Rerolling never repeats a title until every fitting title has been suggested
+ * - Suggestions older than a week can come up again
+ * - Weighted picks follow the weights
+ */
+
+import * as fc from 'fast-check';
+import {
+  fitsConstraints,
+  getCandidateWeight,
+  getEligibleCandidates,
+  mergeCandidates,
+  pickTonight,
+  pickWeighted,
+  pruneHistory,
+  recordPick,
+} from '@/utils/tonight-picker';
+import { PICKER_CONFIG, PICKER_MOODS } from '@/constants/picker';
+import type { PickerCandidate, PickerConstraints } from '@/types/picker';
+
+const NOW = new Date('2025-06-15T20:00:00.000Z');
+const TODAY = '2025-06-15';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const candidatesArb = fc.uniqueArray(
+  fc.record({
+    id: fc.integer({ min: 1, max: 5000 }),
+    mediaType: fc.constantFrom('movie' as const, 'tv' as const),
+    source: fc.constantFrom('watchlist' as const, 'recommendation' as const),
+    status: fc.constantFrom('plan_to_watch' as const, 'watching' as const, 'completed' as const, 'dropped' as const),
+    metadata: fc.option(fc.record({
+      runtime: fc.option(fc.integer({ min: 20, max: 200 }), { nil: null }),
+      releaseDate: fc.constantFrom('2019-05-01', '2025-06-15', '2025-12-01', null),
+      genres: fc.uniqueArray(fc.constantFrom(18, 27, 28, 35, 878), { maxLength: 2 })
+        .map(ids => ids.map(id => ({ id, name: `Genre ${id}` }))),
+      voteAverage: fc.option(fc.integer({ min: 0, max: 10 }), { nil: null }),
+      streamingProviders: fc.uniqueArray(fc.constantFrom(8, 9), { maxLength: 2 })
+        .map(ids => ids.map(providerId => ({ providerId, providerName: `Service ${providerId}` }))),
+      countryCode: fc.constant('US'),
+      fetchedAt: fc.constant(NOW.toISOString()),
+    }), { nil: null }),
+  }),
+  { maxLength: 20, selector: c => `${c.mediaType}:${c.id}` }
+).map(records => records.map((record): PickerCandidate => ({
+  ...record,
+  key: `${record.mediaType}:${record.id}`,
+  title: `Title ${record.id}`,
+  posterPath: null,
+  status: record.source === 'watchlist' ? record.status : null,
+})));
+
+const constraintsArb: fc.Arbitrary<PickerConstraints> = fc.record({
+  minutesAvailable: fc.constantFrom(null, 30, 90, 120),
+  moodId: fc.constantFrom(null, ...PICKER_MOODS.map(m => m.id)),
+  mediaType: fc.constantFrom('all' as const, 'movie' as const, 'tv' as const),
+  onMyServices: fc.boolean(),
+  serviceIds: fc.uniqueArray(fc.constantFrom(8, 9), { maxLength: 1 }),
+});
+
+const randomArb = fc.infiniteStream(fc.double({ min: 0, max: 1, maxExcluded: true, noNaN: true }))
+  .map(stream => () => stream.next().value as number);
+
+describe('Tonight Picker Property Tests', () => {
+  it('suggests a fitting title not suggested this week, or nothing when none is left', () => {
+    fc.assert(
+      fc.property(candidatesArb, constraintsArb, randomArb, (candidates, constraints, random) => {
+        const history = candidates.slice(0, 3).map((c, i) => ({
+          key: c.key,
+          title: c.title,
+          pickedAt: new Date(NOW.getTime() - i * DAY_MS).toISOString(),
+        }));
+        const eligible = getEligibleCandidates(candidates, constraints, history, NOW);
+        const pick = pickTonight(candidates, constraints, history, NOW, random);
+
+        if (eligible.length === 0) {
+          expect(pick).toBeNull();
+        } else {
+          expect(eligible).toContain(pick);
+          expect(fitsConstraints(pick!, constraints, TODAY)).toBe(true);
+          expect(history.some(entry => entry.key === pick!.key)).toBe(false);
+        }
+        return true;
+      }),
+      { numRuns: 200 }
+    );
+  });
+
+  it('never repeats a title while rerolling until everything fitting was suggested', () => {
+    fc.assert(
+      fc.property(candidatesArb, constraintsArb, randomArb, (candidates, constraints, random) => {
+        const fitting = candidates.filter(c => fitsConstraints(c, constraints, TODAY));
+        // A suggestion from last week doesn't hold anything back
+        let history = fitting.length > 0
+          ? recordPick([], fitting[0], new Date(NOW.getTime() - 8 * DAY_MS))
+          : [];
+        const seen = new Set<string>();
+
+        for (let i = 0; i <= fitting.length; i++) {
+          const now = new Date(NOW.getTime() + i * 60 * 1000);
+          const pick = pickTonight(candidates, constraints, history, now, random);
+          if (i === fitting.length) {
+            expect(pick).toBeNull();
+            break;
+          }
+          expect(pick).not.toBeNull();
+          expect(seen.has(pick!.key)).toBe(false);
+          seen.add(pick!.key);
+          history = recordPick(history, pick!, now);
+        }
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('forgets suggestions after a week', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer({ min: 0, max: 14 * 24 }), { maxLength: 20 }), (hoursAgo) => {
+        const history = hoursAgo.map((hours, i) => ({
+          key: `movie:${i}`,
+          title: `Title ${i}`,
+          pickedAt: new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString(),
+        }));
+        const kept = pruneHistory(history, NOW);
+
+        expect(kept.map(e => e.key)).toEqual(
+          history.filter((_, i) => hoursAgo[i] < PICKER_CONFIG.HISTORY_DAYS * 24).map(e => e.key)
+        );
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('picks in proportion to weight and never picks zero weights', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.nat({ max: 5 }), { minLength: 1, maxLength: 8 }),
+        fc.double({ min: 0, max: 1, maxExcluded: true, noNaN: true }),
+        (weights, r) => {
+          const indexes = weights.map((_, i) => i);
+          const pick = pickWeighted(indexes, i => weights[i], () => r);
+          const total = weights.reduce((a, b) => a + b, 0);
+
+          if (total === 0) {
+            expect(pick).toBeNull();
+            return true;
+          }
+          // The pick owns the slice of [0, total) that r * total falls in
+          const before = weights.slice(0, pick!).reduce((a, b) => a + b, 0);
+          expect(weights[pick!]).toBeGreaterThan(0);
+          expect(r * total).toBeGreaterThanOrEqual(before - 1e-9);
+          expect(r * total).toBeLessThanOrEqual(before + weights[pick!] + 1e-9);
+          return true;
+        }
+      ),
+      { numRuns: 300 }
+    );
+  });
+
+  it('weights watchlist titles above recommendations and keeps the watchlist copy of a title', () => {
+    fc.assert(
+      fc.property(candidatesArb, (candidates) => {
+        for (const candidate of candidates) {
+          const asRecommendation = { ...candidate, source: 'recommendation' as const, status: null };
+          const asWatchlist = { ...candidate, source: 'watchlist' as const, status: 'plan_to_watch' as const };
+          expect(getCandidateWeight(asWatchlist)).toBeGreaterThan(getCandidateWeight(asRecommendation));
+        }
+
+        const watchlist = candidates.filter(c => c.source === 'watchlist');
+        const merged = mergeCandidates(watchlist, candidates.map(c => ({ ...c, source: 'recommendation' as const })));
+        expect(merged).toHaveLength(candidates.length);
+        expect(merged.slice(0, watchlist.length)).toEqual(watchlist);
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
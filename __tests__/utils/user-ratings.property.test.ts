@@ -0,0 +1,115 @@
+/**
+ * Property-based tests for personal rating helpers
+ * Feature: personal-ratings
+ *
+ * Properties tested:
+ * - Ratings snap to whole half-star steps within 0-10
+ * - Star fills add up to the rating
+ * - Saving keeps one entry per title; clearing rating and note removes it
+ */
+
+import * as fc from 'fast-check';
+import {
+  STAR_COUNT,
+  findUserRating,
+  formatUserRating,
+  getStarFills,
+  normalizeRating,
+  upsertUserRating,
+} from '@/utils/user-ratings';
+import { MAX_USER_RATING, type RatedTitle } from '@/types/ratings';
+
+const NOW = '2025-06-15T12:00:00.000Z';
+const LATER = '2025-06-16T12:00:00.000Z';
+
+const titleArb: fc.Arbitrary<RatedTitle> = fc.record({
+  id: fc.integer({ min: 1, max: 1000000 }),
+  mediaType: fc.constantFrom<'movie' | 'tv'>('movie', 'tv'),
+  title: fc.string({ minLength: 1, maxLength: 50 }),
+  posterPath: fc.constant(null),
+});
+
+const ratingArb = fc.integer({ min: 0, max: MAX_USER_RATING });
+
+describe('Personal Rating Helpers Property Tests', () => {
+  describe('Normalization', () => {
+    it('snaps any number to a whole value within 0-10', () => {
+      fc.assert(
+        fc.property(fc.double({ min: -100, max: 100, noNaN: true }), (value) => {
+          const rating = normalizeRating(value);
+          expect(Number.isInteger(rating)).toBe(true);
+          expect(rating).toBeGreaterThanOrEqual(0);
+          expect(rating).toBeLessThanOrEqual(MAX_USER_RATING);
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('treats missing values as unrated', () => {
+      expect(normalizeRating(null)).toBeNull();
+      expect(normalizeRating(undefined)).toBeNull();
+      expect(normalizeRating(NaN)).toBeNull();
+      expect(formatUserRating(null)).toBe('Not rated');
+      expect(formatUserRating(7)).toBe('3.5/5');
+    });
+  });
+
+  describe('Star display', () => {
+    it('star fills add up to the rating', () => {
+      fc.assert(
+        fc.property(ratingArb, (rating) => {
+          const fills = getStarFills(rating);
+          const total = fills.reduce(
+            (sum, fill) => sum + (fill === 'full' ? 2 : fill === 'half' ? 1 : 0),
+            0
+          );
+          expect(fills).toHaveLength(STAR_COUNT);
+          expect(total).toBe(rating);
+          return true;
+        }),
+        { numRuns: 50 }
+      );
+    });
+  });
+
+  describe('Saving', () => {
+    it('keeps one entry per title and preserves its creation date', () => {
+      fc.assert(
+        fc.property(titleArb, ratingArb, ratingArb, fc.string({ maxLength: 50 }), (title, first, second, note) => {
+          const once = upsertUserRating([], title, { rating: first, note }, NOW);
+          const twice = upsertUserRating(once, title, { rating: second, note: '' }, LATER);
+
+          expect(twice).toHaveLength(1);
+          const entry = findUserRating(twice, title.id, title.mediaType);
+          expect(entry?.rating).toBe(second);
+          expect(entry?.createdAt).toBe(NOW);
+          expect(entry?.updatedAt).toBe(LATER);
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('removes the entry when rating and note are both cleared', () => {
+      fc.assert(
+        fc.property(titleArb, ratingArb, (title, rating) => {
+          const saved = upsertUserRating([], title, { rating, note: 'Great score' }, NOW);
+          expect(upsertUserRating(saved, title, { rating: null, note: '   ' }, LATER)).toEqual([]);
+          return true;
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('keeps a note without a rating', () => {
+      const saved = upsertUserRating(
+        [],
+        { id: 1, mediaType: 'movie', title: 'Heat', posterPath: null },
+        { rating: null, note: '  Rewatch the heist scene  ' },
+        NOW
+      );
+      expect(saved[0]).toMatchObject({ rating: null, note: 'Rewatch the heist scene' });
+    });
+  });
+});
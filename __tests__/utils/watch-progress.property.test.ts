@@ -0,0 +1,195 @@
+/**
+ * Property-based tests for episode watch progress helpers
+ * Feature: watch-progress
+ *
+ * Properties tested:
+ * - Marking episodes keeps a sorted, duplicate-free watched list
+ * - Unmarking removes exactly the given episodes
+ * - Progress fractions stay between 0 and 1
+ * - Next episode follows the furthest watched episode and rolls over seasons
+ */
+
+import * as fc from 'fast-check';
+import {
+  addWatchedEpisodes,
+  compareEpisodes,
+  createSeriesProgress,
+  getEpisodeKey,
+  getNextEpisode,
+  getProgressFraction,
+  getSeasonProgress,
+  getSeriesProgress,
+  isEpisodeWatched,
+  isSeriesComplete,
+  removeWatchedEpisodes,
+} from '../../utils/watch-progress';
+import type { EpisodeRef, SeriesProgress } from '../../types/progress';
+
+const NOW = '2025-01-01T00:00:00.000Z';
+const LATER = '2025-02-01T00:00:00.000Z';
+
+// Arbitraries for generating test data
+const episodeRefArb: fc.Arbitrary<EpisodeRef> = fc.record({
+  seasonNumber: fc.integer({ min: 1, max: 5 }),
+  episodeNumber: fc.integer({ min: 1, max: 12 }),
+});
+
+const episodesArb = fc.array(episodeRefArb, { maxLength: 40 });
+
+const emptyProgress = (overrides: Partial<SeriesProgress> = {}): SeriesProgress => ({
+  ...createSeriesProgress(
+    { id: 1399, title: 'Test Series', posterPath: null, totalEpisodes: 60, totalSeasons: 5 },
+    NOW
+  ),
+  ...overrides,
+});
+
+describe('Watch Progress Property Tests', () => {
+  describe('Marking episodes watched', () => {
+    it('keeps the watched list sorted and free of duplicates', () => {
+      fc.assert(
+        fc.property(episodesArb, (episodes) => {
+          const progress = addWatchedEpisodes(emptyProgress(), episodes, NOW);
+          const keys = progress.watchedEpisodes.map(e => getEpisodeKey(e.seasonNumber, e.episodeNumber));
+
+          expect(new Set(keys).size).toBe(keys.length);
+          expect(new Set(keys)).toEqual(new Set(episodes.map(e => getEpisodeKey(e.seasonNumber, e.episodeNumber))));
+          for (let i = 1; i < progress.watchedEpisodes.length; i++) {
+            expect(compareEpisodes(progress.watchedEpisodes[i - 1], progress.watchedEpisodes[i])).toBeLessThan(0);
+          }
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('keeps the original timestamp when an episode is marked again', () => {
+      fc.assert(
+        fc.property(episodeRefArb, (episode) => {
+          const first = addWatchedEpisodes(emptyProgress(), [episode], NOW);
+          const second = addWatchedEpisodes(first, [episode], LATER);
+
+          expect(second.watchedEpisodes).toHaveLength(1);
+          expect(second.watchedEpisodes[0].watchedAt).toBe(NOW);
+          expect(second.updatedAt).toBe(LATER);
+          return true;
+        }),
+        { numRuns: 50 }
+      );
+    });
+
+    it('unmarking removes exactly the given episodes', () => {
+      fc.assert(
+        fc.property(episodesArb, episodesArb, (marked, unmarked) => {
+          const progress = removeWatchedEpisodes(
+            addWatchedEpisodes(emptyProgress(), marked, NOW),
+            unmarked,
+            LATER
+          );
+
+          marked.forEach(e => {
+            const shouldRemain = !unmarked.some(
+              u => u.seasonNumber === e.seasonNumber && u.episodeNumber === e.episodeNumber
+            );
+            expect(isEpisodeWatched(progress, e.seasonNumber, e.episodeNumber)).toBe(shouldRemain);
+          });
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+  });
+
+  describe('Progress summaries', () => {
+    it('fractions are always between 0 and 1', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({ min: 0, max: 500 }),
+          fc.option(fc.integer({ min: -5, max: 500 }), { nil: null }),
+          (watched, total) => {
+            const fraction = getProgressFraction(watched, total);
+            expect(fraction).toBeGreaterThanOrEqual(0);
+            expect(fraction).toBeLessThanOrEqual(1);
+            return true;
+          }
+        ),
+        { numRuns: 100 }
+      );
+    });
+
+    it('season progress counts only episodes in that season', () => {
+      fc.assert(
+        fc.property(episodesArb, fc.integer({ min: 1, max: 5 }), (episodes, season) => {
+          const progress = addWatchedEpisodes(emptyProgress(), episodes, NOW);
+          const summary = getSeasonProgress(progress, season, 12);
+          const expected = new Set(
+            episodes.filter(e => e.seasonNumber === season).map(e => e.episodeNumber)
+          ).size;
+
+          expect(summary.watched).toBe(expected);
+          expect(summary.total).toBe(12);
+          expect(summary.fraction).toBeCloseTo(expected / 12);
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('reports an unknown total when nothing is known about the series', () => {
+      expect(getSeriesProgress(undefined)).toEqual({ watched: 0, total: null, fraction: 0 });
+      expect(getSeasonProgress(undefined, 1)).toEqual({ watched: 0, total: null, fraction: 0 });
+    });
+  });
+
+  describe('Next episode', () => {
+    it('starts at S1E1 when nothing is watched', () => {
+      expect(getNextEpisode(undefined)).toEqual({ seasonNumber: 1, episodeNumber: 1 });
+      expect(getNextEpisode(emptyProgress())).toEqual({ seasonNumber: 1, episodeNumber: 1 });
+    });
+
+    it('is always after every watched episode', () => {
+      fc.assert(
+        fc.property(fc.array(episodeRefArb, { minLength: 1, maxLength: 40 }), (episodes) => {
+          const progress = addWatchedEpisodes(emptyProgress({ totalSeasons: null }), episodes, NOW);
+          const next = getNextEpisode(progress);
+
+          expect(next).not.toBeNull();
+          progress.watchedEpisodes.forEach(e => {
+            expect(compareEpisodes(next!, e)).toBeGreaterThan(0);
+          });
+          return true;
+        }),
+        { numRuns: 100 }
+      );
+    });
+
+    it('rolls over to the next season once a season is finished', () => {
+      const progress = addWatchedEpisodes(
+        emptyProgress({ seasonEpisodeCounts: { 1: 10 } }),
+        [{ seasonNumber: 1, episodeNumber: 10 }],
+        NOW
+      );
+      expect(getNextEpisode(progress)).toEqual({ seasonNumber: 2, episodeNumber: 1 });
+    });
+
+    it('returns null once the final episode of the final season is watched', () => {
+      const progress = addWatchedEpisodes(
+        emptyProgress({ totalSeasons: 2, seasonEpisodeCounts: { 2: 8 } }),
+        [{ seasonNumber: 2, episodeNumber: 8 }],
+        NOW
+      );
+      expect(getNextEpisode(progress)).toBeNull();
+      expect(isSeriesComplete(progress)).toBe(true);
+    });
+
+    it('is only complete once every known episode is watched', () => {
+      const progress = emptyProgress({ totalEpisodes: 3, totalSeasons: null });
+      const partial = addWatchedEpisodes(progress, [{ seasonNumber: 1, episodeNumber: 1 }], NOW);
+      const full = addWatchedEpisodes(partial, [2, 3].map(episodeNumber => ({ seasonNumber: 1, episodeNumber })), NOW);
+
+      expect(isSeriesComplete(progress)).toBe(false);
+      expect(isSeriesComplete(partial)).toBe(false);
+      expect(isSeriesComplete(full)).toBe(true);
+    });
+  });
+});
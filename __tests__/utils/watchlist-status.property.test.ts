@@ -0,0 +1,61 @@
+/**
+ * Property-based tests for watchlist status helpers
+ * Feature: watchlist-status
+ *
+ * Properties tested:
+ * - Every status change is appended to the history; repeated statuses are ignored
+ * - Items saved before statuses existed start as plan to watch
+ * - Recorded progress moves items to watching, or completed once finished
+ */
+
+import * as fc from 'fast-check';
+import { applyStatusChange, getItemStatus, getProgressStatus } from '@/utils/watchlist-status';
+import type { WatchlistItem, WatchlistStatus } from '@/types/watchlist';
+
+const statusArb = fc.constantFrom<WatchlistStatus>('plan_to_watch', 'watching', 'completed', 'dropped');
+
+const isoDateArb = fc.integer({ min: 1577836800000, max: 1767225600000 })
+  .map(timestamp => new Date(timestamp).toISOString());
+
+const legacyItem: WatchlistItem = {
+  id: 550,
+  mediaType: 'movie',
+  title: 'Fight Club',
+  posterPath: null,
+  addedAt: '2024-01-01T00:00:00.000Z',
+  syncStatus: 'synced',
+};
+
+describe('Watchlist Status Property Tests', () => {
+  it('records each transition and ignores repeated statuses', () => {
+    fc.assert(
+      fc.property(fc.array(fc.tuple(statusArb, isoDateArb), { maxLength: 20 }), (changes) => {
+        const item = changes.reduce(
+          (current, [status, changedAt]) => applyStatusChange(current, status, changedAt),
+          legacyItem
+        );
+
+        const expected = changes.reduce<WatchlistStatus[]>(
+          (statuses, [status]) => (statuses[statuses.length - 1] === status ? statuses : [...statuses, status]),
+          ['plan_to_watch']
+        );
+
+        expect(getItemStatus(item)).toBe(expected[expected.length - 1]);
+        if (expected.length === 1) {
+          // No change from the default leaves the item untouched
+          expect(item).toBe(legacyItem);
+        } else {
+          expect(item.statusHistory?.map(change => change.status)).toEqual(expected);
+          expect(item.statusHistory?.[0].changedAt).toBe(legacyItem.addedAt);
+        }
+        return true;
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('moves items to watching, or completed once finished', () => {
+    expect(getProgressStatus(false)).toBe('watching');
+    expect(getProgressStatus(true)).toBe('completed');
+  });
+});
@@ -5,10 +5,12 @@ import { HapticTab } from '@/components/haptic-tab';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Colors } from '@/constants/theme';
 import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
 
 export default function TabLayout() {
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
+  const { t } = useLocalization();
 
   return (
     <Tabs
@@ -21,46 +23,46 @@ export default function TabLayout() {
           backgroundColor: colors.background,
           borderTopColor: colors.border,
         },
-        tabBarAccessibilityLabel: 'Main navigation',
+        tabBarAccessibilityLabel: t('navigation.mainNavigation'),
       }}>
       <Tabs.Screen
         name="index"
         options={{
-          title: 'Home',
+          title: t('navigation.home'),
           tabBarIcon: ({ color }) => <IconSymbol size={28} name="house.fill" color={color} />,
-          tabBarAccessibilityLabel: 'Home tab',
+          tabBarAccessibilityLabel: t('navigation.homeTab'),
         }}
       />
       <Tabs.Screen
         name="browse"
         options={{
-          title: 'Browse',
+          title: t('navigation.browse'),
           tabBarIcon: ({ color }) => <IconSymbol size={28} name="globe" color={color} />,
-          tabBarAccessibilityLabel: 'Browse countries tab',
+          tabBarAccessibilityLabel: t('navigation.browseTab'),
         }}
       />
       <Tabs.Screen
         name="downloads"
         options={{
-          title: 'Downloads',
+          title: t('navigation.downloads'),
           tabBarIcon: ({ color }) => <IconSymbol size={28} name="arrow.down.circle.fill" color={color} />,
-          tabBarAccessibilityLabel: 'Downloads tab',
+          tabBarAccessibilityLabel: t('navigation.downloadsTab'),
         }}
       />
       <Tabs.Screen
         name="search"
         options={{
-          title: 'Search',
+          title: t('navigation.search'),
           tabBarIcon: ({ color }) => <IconSymbol size={28} name="magnifyingglass" color={color} />,
-          tabBarAccessibilityLabel: 'Search tab',
+          tabBarAccessibilityLabel: t('navigation.searchTab'),
         }}
       />
       <Tabs.Screen
         name="profile"
         options={{
-          title: 'Profile',
+          title: t('navigation.profile'),
           tabBarIcon: ({ color }) => <IconSymbol size={28} name="person.fill" color={color} />,
-          tabBarAccessibilityLabel: 'Profile and settings tab',
+          tabBarAccessibilityLabel: t('navigation.profileTab'),
         }}
       />
       {/* Hide the old explore tab */}
@@ -19,12 +19,15 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 
 import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { useLayoutDirection } from '@/hooks/use-layout-direction';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { COUNTRY_GRADIENTS, OVERLAY_COLORS } from '@/constants/colors';
 import { DIMENSIONS } from '@/constants/layout';
 import {
   SUPPORTED_COUNTRIES,
   getCountryIcon,
+  getCountryName,
   getRegionLabel,
   getContentCount,
   type CountryConfig,
@@ -36,6 +39,9 @@ const GRID_GAP = Spacing.sm;
 const NUM_COLUMNS = 2;
 const CARD_WIDTH = (SCREEN_WIDTH - GRID_PADDING * 2 - GRID_GAP * (NUM_COLUMNS - 1)) / NUM_COLUMNS;
 
+/** Card gradient runs from the leading top corner to the trailing bottom corner */
+const CARD_GRADIENT_DIRECTION = { start: { x: 0, y: 0 }, end: { x: 1, y: 1 } };
+
 /** Get gradient colors for each country */
 function getCountryGradient(code: string, isDark: boolean): readonly [string, string] {
   const countryGradient = COUNTRY_GRADIENTS[code as keyof typeof COUNTRY_GRADIENTS];
@@ -57,13 +63,16 @@ interface CountryCardProps {
 function CountryCard({ country, onPress, colors, isDark }: CountryCardProps) {
   const gradient = getCountryGradient(country.code, isDark);
   const icon = getCountryIcon(country.code);
+  const { t } = useLocalization();
+  const { directionalIcon, gradientDirection } = useLayoutDirection();
+  const name = getCountryName(country.code);
 
   return (
     <Pressable
       onPress={onPress}
       accessibilityRole="button"
-      accessibilityLabel={`Browse content from ${country.name}`}
-      accessibilityHint="Double tap to view top content from this country"
+      accessibilityLabel={t('browse.countryLabel', { country: name })}
+      accessibilityHint={t('browse.countryHint')}
       style={({ pressed }) => [
         styles.countryCard,
         {
@@ -75,8 +84,7 @@ function CountryCard({ country, onPress, colors, isDark }: CountryCardProps) {
     >
       <LinearGradient
         colors={gradient}
-        start={{ x: 0, y: 0 }}
-        end={{ x: 1, y: 1 }}
+        {...gradientDirection(CARD_GRADIENT_DIRECTION)}
         style={styles.cardGradient}
       >
         {/* Overlay for better text contrast */}
@@ -84,7 +92,7 @@ function CountryCard({ country, onPress, colors, isDark }: CountryCardProps) {
         
         {/* Flag and Icon Row */}
         <View style={styles.cardHeader}>
-          <Text style={styles.countryFlag} accessibilityLabel={`${country.name} flag`}>
+          <Text style={styles.countryFlag} accessibilityLabel={t('browse.flagLabel', { country: name })}>
             {country.flag}
           </Text>
           <View style={[styles.iconBadge, { backgroundColor: isDark ? OVERLAY_COLORS.WHITE_10 : OVERLAY_COLORS.BLACK_05 }]}>
@@ -95,7 +103,7 @@ function CountryCard({ country, onPress, colors, isDark }: CountryCardProps) {
         {/* Country Info */}
         <View style={styles.cardBody}>
           <Text style={[styles.countryName, { color: colors.text }]}>
-            {country.name}
+            {name}
           </Text>
           <Text style={[styles.countryRegion, { color: colors.textSecondary }]}>
             {getRegionLabel(country.code)}
@@ -110,7 +118,7 @@ function CountryCard({ country, onPress, colors, isDark }: CountryCardProps) {
               {getContentCount(country.code)}
             </Text>
           </View>
-          <Ionicons name="chevron-forward" size={16} color={colors.textMuted} />
+          <Ionicons name={directionalIcon('chevron-forward')} size={16} color={colors.textMuted} />
         </View>
       </LinearGradient>
     </Pressable>
@@ -122,6 +130,7 @@ export default function BrowseScreen() {
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
   const isDark = colorScheme === 'dark';
+  const { t } = useLocalization();
 
   const handleCountryPress = useCallback(
     (countryCode: string) => {
@@ -137,10 +146,10 @@ export default function BrowseScreen() {
         <View style={styles.headerTop}>
           <View style={styles.headerText}>
             <Text style={[styles.title, { color: colors.text }]} accessibilityRole="header">
-              Browse by Country
+              {t('browse.title')}
             </Text>
             <Text style={[styles.subtitle, { color: colors.textSecondary }]}>
-              Discover regional content worldwide
+              {t('browse.subtitle')}
             </Text>
           </View>
         </View>
@@ -149,17 +158,17 @@ export default function BrowseScreen() {
         <View style={[styles.statsRow, { backgroundColor: colors.backgroundSecondary }]}>
           <View style={styles.statItem}>
             <Text style={[styles.statValue, { color: colors.text }]}>7</Text>
-            <Text style={[styles.statLabel, { color: colors.textMuted }]}>Regions</Text>
+            <Text style={[styles.statLabel, { color: colors.textMuted }]}>{t('browse.regions')}</Text>
           </View>
           <View style={[styles.statDivider, { backgroundColor: colors.border }]} />
           <View style={styles.statItem}>
             <Text style={[styles.statValue, { color: colors.text }]}>34K+</Text>
-            <Text style={[styles.statLabel, { color: colors.textMuted }]}>Titles</Text>
+            <Text style={[styles.statLabel, { color: colors.textMuted }]}>{t('browse.titles')}</Text>
           </View>
           <View style={[styles.statDivider, { backgroundColor: colors.border }]} />
           <View style={styles.statItem}>
             <Text style={[styles.statValue, { color: colors.text }]}>15+</Text>
-            <Text style={[styles.statLabel, { color: colors.textMuted }]}>Languages</Text>
+            <Text style={[styles.statLabel, { color: colors.textMuted }]}>{t('browse.languages')}</Text>
           </View>
         </View>
       </View>
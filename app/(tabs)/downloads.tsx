@@ -8,6 +8,7 @@
 import React, { useEffect } from 'react';
 import { StyleSheet, View, ScrollView, RefreshControl } from 'react-native';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing } from '@/constants/theme';
 import { useDownloadsStore } from '@/stores/downloadsStore';
 import { DownloadsHeader } from '@/components/downloads/DownloadsHeader';
@@ -18,6 +19,7 @@ import type { DownloadQueueItem, DownloadItem } from '@/types/downloads';
 
 export default function DownloadsScreen() {
   const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useLocalization();
 
   const {
     downloads,
@@ -57,7 +59,7 @@ export default function DownloadsScreen() {
     return (
       <View style={[styles.container, { backgroundColor }]}>
         <ErrorState
-          title="Failed to load downloads"
+          title={t('downloads.loadFailed')}
           message={error}
           onRetry={handleRefresh}
         />
@@ -1,70 +1,42 @@
 /**
  * Home Screen - Trending Feed
- * Displays hero carousel, trending content rows, recently viewed, and recommendations
+ * Displays hero carousel, up next episodes, trending content rows, recently viewed, and recommendations
  * 
  * Requirements: 1.1, 1.4, 1.6, 14.1, 14.2, 14.4
  */
 
-import { useCallback, useEffect, useMemo } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { StyleSheet, ScrollView, View, RefreshControl } from 'react-native';
 import { useRouter } from 'expo-router';
 import { useQuery } from '@tanstack/react-query';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useOfflineStatus } from '@/hooks/use-offline-status';
+import { useAvailableToMe } from '@/hooks/use-available-to-me';
+import { useLocalization } from '@/hooks/use-localization';
 import { HeroCarousel } from '@/components/media/HeroCarousel';
 import { ContentRow } from '@/components/media/ContentRow';
+import { AvailableToMeChip } from '@/components/media/AvailableToMeChip';
 import { Skeleton } from '@/components/ui/Skeleton';
 import { ErrorState } from '@/components/ui/ErrorState';
+import { OfflineBanner } from '@/components/ui/OfflineBanner';
 import { Spacing } from '@/constants/theme';
 import { COMPONENT_TEST_IDS } from '@/constants/test-ids';
-import { getTrending, getRecommendations } from '@/services/api';
+import { getTrending, getRecommendations, getCuratedList } from '@/services/api';
 import {
-  getPopularMovies,
-  getTopRatedMovies,
-  getTopRatedTVShows,
-} from '@/services/api/cloudflare-extended';
-import type { CFMovieResult, CFTVShowResult } from '@/services/api/cloudflare-types';
+  getUpNextFeed,
+  upNextEntryToMediaItem,
+  formatUpcomingAirDay,
+} from '@/services/up-next';
+import { formatEpisodeLabel } from '@/utils/watch-progress';
 import { useRecentlyViewedStore } from '@/stores/recentlyViewedStore';
 import { useWatchlistStore } from '@/stores/watchlistStore';
+import { useWatchProgressStore } from '@/stores/watchProgressStore';
 import type { TrendingItem, MediaItem } from '@/types/media';
 
 /** Number of hero items to display */
 const HERO_ITEMS_COUNT = 5;
 
-/** Convert Cloudflare movie result to MediaItem */
-function cfMovieToMediaItem(movie: CFMovieResult): MediaItem {
-  return {
-    id: movie.id,
-    title: movie.title,
-    originalTitle: movie.title,
-    posterPath: movie.posterPath,
-    backdropPath: movie.backdropPath,
-    overview: movie.overview,
-    releaseDate: movie.releaseDate,
-    voteAverage: movie.voteAverage,
-    voteCount: movie.voteCount,
-    mediaType: 'movie',
-    genreIds: movie.genreIds,
-  };
-}
-
-/** Convert Cloudflare TV result to MediaItem */
-function cfTVToMediaItem(tv: CFTVShowResult): MediaItem {
-  return {
-    id: tv.id,
-    title: tv.name,
-    originalTitle: tv.name,
-    posterPath: tv.posterPath,
-    backdropPath: tv.backdropPath,
-    overview: tv.overview,
-    releaseDate: tv.firstAirDate,
-    voteAverage: tv.voteAverage,
-    voteCount: tv.voteCount,
-    mediaType: 'tv',
-    genreIds: tv.genreIds,
-  };
-}
-
 /** Convert recently viewed items to MediaItem format */
 function recentlyViewedToMediaItems(
   items: { id: number; mediaType: 'movie' | 'tv'; title: string; posterPath: string | null }[]
@@ -86,8 +58,10 @@ function recentlyViewedToMediaItems(
 
 export default function HomeScreen() {
   const router = useRouter();
+  const { t } = useLocalization();
   const backgroundColor = useThemeColor({}, 'background');
   const tintColor = useThemeColor({}, 'tint');
+  const { isOffline, isShowingStaleData, staleSince } = useOfflineStatus();
 
   // Stores
   const {
@@ -101,11 +75,17 @@ export default function HomeScreen() {
     loadWatchlist,
   } = useWatchlistStore();
 
+  const {
+    items: progressItems,
+    loadProgress,
+  } = useWatchProgressStore();
+
   // Load stores on mount
   useEffect(() => {
     loadRecentlyViewed();
     loadWatchlist();
-  }, [loadRecentlyViewed, loadWatchlist]);
+    loadProgress();
+  }, [loadRecentlyViewed, loadWatchlist, loadProgress]);
 
   // Fetch trending movies
   const {
@@ -159,13 +139,34 @@ export default function HomeScreen() {
     staleTime: 5 * 60 * 1000,
   });
 
+  // Followed series and how far we've got, used to key the Up Next query
+  const watchlistSeries = useMemo(
+    () => watchlistItems.filter(item => item.mediaType === 'tv'),
+    [watchlistItems]
+  );
+  const progressKey = useMemo(
+    () => progressItems.map(p => `${p.id}:${p.watchedEpisodes.length}:${p.updatedAt}`).join(','),
+    [progressItems]
+  );
+
+  // Fetch next episodes for watchlisted series
+  const {
+    data: upNextData,
+    refetch: refetchUpNext,
+  } = useQuery({
+    queryKey: ['up-next', watchlistSeries.map(item => item.id).join(','), progressKey],
+    queryFn: () => getUpNextFeed(watchlistSeries, progressItems),
+    enabled: watchlistSeries.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
   // Fetch popular movies
   const {
     data: popularMoviesData,
     refetch: refetchPopular,
   } = useQuery({
-    queryKey: ['popular', 'movies'],
-    queryFn: () => getPopularMovies(1),
+    queryKey: ['curated', 'popular', 'movie'],
+    queryFn: () => getCuratedList('popular', 'movie', 1),
     staleTime: 5 * 60 * 1000,
   });
 
@@ -174,8 +175,8 @@ export default function HomeScreen() {
     data: topRatedMoviesData,
     refetch: refetchTopRated,
   } = useQuery({
-    queryKey: ['top-rated', 'movies'],
-    queryFn: () => getTopRatedMovies(1),
+    queryKey: ['curated', 'top_rated', 'movie'],
+    queryFn: () => getCuratedList('top_rated', 'movie', 1),
     staleTime: 5 * 60 * 1000,
   });
 
@@ -184,8 +185,8 @@ export default function HomeScreen() {
     data: topRatedTVData,
     refetch: refetchTopRatedTV,
   } = useQuery({
-    queryKey: ['top-rated', 'tv'],
-    queryFn: () => getTopRatedTVShows(1),
+    queryKey: ['curated', 'top_rated', 'tv'],
+    queryFn: () => getCuratedList('top_rated', 'tv', 1),
     staleTime: 5 * 60 * 1000,
   });
 
@@ -209,6 +210,15 @@ export default function HomeScreen() {
     return trendingTvData?.items || [];
   }, [trendingTvData]);
 
+  // Up Next rows
+  const upNextItems: MediaItem[] = useMemo(() => {
+    return (upNextData?.upNext || []).map(upNextEntryToMediaItem);
+  }, [upNextData]);
+
+  const comingThisWeekItems: MediaItem[] = useMemo(() => {
+    return (upNextData?.comingThisWeek || []).map(upNextEntryToMediaItem);
+  }, [upNextData]);
+
   // Recently viewed as MediaItems
   const recentlyViewed: MediaItem[] = useMemo(() => {
     return recentlyViewedToMediaItems(recentlyViewedItems);
@@ -218,20 +228,25 @@ export default function HomeScreen() {
   const recommendations: MediaItem[] = useMemo(() => {
     return recommendationsData?.items || [];
   }, [recommendationsData]);
+  const [recommendationsAvailableToMe, setRecommendationsAvailableToMe] = useState(false);
+  const {
+    items: shownRecommendations,
+    isChecking: isCheckingRecommendations,
+  } = useAvailableToMe(recommendations, recommendationsAvailableToMe);
 
   // Popular movies
   const popularMovies: MediaItem[] = useMemo(() => {
-    return (popularMoviesData?.data || []).map(cfMovieToMediaItem);
+    return popularMoviesData?.items || [];
   }, [popularMoviesData]);
 
   // Top rated movies (global ratings)
   const topRatedMovies: MediaItem[] = useMemo(() => {
-    return (topRatedMoviesData?.data || []).map(cfMovieToMediaItem);
+    return topRatedMoviesData?.items || [];
   }, [topRatedMoviesData]);
 
   // Top web series (top rated TV)
   const topWebSeries: MediaItem[] = useMemo(() => {
-    return (topRatedTVData?.data || []).map(cfTVToMediaItem);
+    return topRatedTVData?.items || [];
   }, [topRatedTVData]);
 
   // Check if we should show recommendations row
@@ -252,6 +267,39 @@ export default function HomeScreen() {
     [router]
   );
 
+  // Up Next entries open the episode itself
+  const findUpNextEntry = useCallback(
+    (seriesId: number) =>
+      [...(upNextData?.upNext || []), ...(upNextData?.comingThisWeek || [])]
+        .find(entry => entry.seriesId === seriesId),
+    [upNextData]
+  );
+
+  const handleUpNextPress = useCallback(
+    (id: number) => {
+      const entry = findUpNextEntry(id);
+      if (!entry) {
+        router.push(`/web-series/${id}` as any);
+        return;
+      }
+      const { seasonNumber, episodeNumber } = entry.episode;
+      router.push(`/web-series/${id}/season/${seasonNumber}/episode/${episodeNumber}` as any);
+    },
+    [router, findUpNextEntry]
+  );
+
+  const getUpNextSubtitle = useCallback(
+    (item: MediaItem) => {
+      const entry = findUpNextEntry(item.id);
+      if (!entry) return null;
+      const label = formatEpisodeLabel(entry.episode);
+      return entry.status === 'upcoming'
+        ? `${label} · ${formatUpcomingAirDay(entry.episode.airDate)}`
+        : label;
+    },
+    [findUpNextEntry]
+  );
+
   // Refresh handler
   const handleRefresh = useCallback(async () => {
     await Promise.all([
@@ -261,8 +309,18 @@ export default function HomeScreen() {
       refetchPopular(),
       refetchTopRated(),
       refetchTopRatedTV(),
+      ...(watchlistSeries.length > 0 ? [refetchUpNext()] : []),
     ]);
-  }, [refetchAll, refetchMovies, refetchTv, refetchPopular, refetchTopRated, refetchTopRatedTV]);
+  }, [
+    refetchAll,
+    refetchMovies,
+    refetchTv,
+    refetchPopular,
+    refetchTopRated,
+    refetchTopRatedTV,
+    refetchUpNext,
+    watchlistSeries.length,
+  ]);
 
   // Retry handler for errors
   const handleRetry = useCallback(() => {
@@ -274,8 +332,8 @@ export default function HomeScreen() {
     return (
       <View style={[styles.container, { backgroundColor }]}>
         <ErrorState
-          title="Unable to load content"
-          message="Please check your connection and try again."
+          title={t('home.loadFailed')}
+          message={t('errors.checkConnection')}
           onRetry={handleRetry}
           testID="home-error-state"
         />
@@ -302,6 +360,13 @@ export default function HomeScreen() {
 
   return (
     <View style={[styles.container, { backgroundColor }]} testID="home-screen">
+      <OfflineBanner
+        isOffline={isOffline}
+        isShowingStaleData={isShowingStaleData}
+        staleSince={staleSince}
+        onRetry={handleRetry}
+        testID="home-offline-banner"
+      />
       <ScrollView
         style={styles.scrollView}
         contentContainerStyle={styles.scrollContent}
@@ -323,10 +388,32 @@ export default function HomeScreen() {
           />
         )}
 
+        {/* Up Next Row - next aired episode of each watchlisted series */}
+        {upNextItems.length > 0 && (
+          <ContentRow
+            title={t('home.upNext')}
+            items={upNextItems}
+            onItemPress={handleUpNextPress}
+            getItemSubtitle={getUpNextSubtitle}
+            testID={COMPONENT_TEST_IDS.UP_NEXT_ROW}
+          />
+        )}
+
+        {/* Coming This Week - episodes airing in the next 7 days */}
+        {comingThisWeekItems.length > 0 && (
+          <ContentRow
+            title={t('home.comingThisWeek')}
+            items={comingThisWeekItems}
+            onItemPress={handleUpNextPress}
+            getItemSubtitle={getUpNextSubtitle}
+            testID={COMPONENT_TEST_IDS.COMING_THIS_WEEK_ROW}
+          />
+        )}
+
         {/* Recently Viewed Row - Conditional on non-empty */}
         {showRecentlyViewed && (
           <ContentRow
-            title="Recently Viewed"
+            title={t('home.recentlyViewed')}
             items={recentlyViewed}
             onItemPress={handleItemPress}
             testID={COMPONENT_TEST_IDS.RECENTLY_VIEWED_ROW}
@@ -336,9 +423,20 @@ export default function HomeScreen() {
         {/* Recommendations Row - Conditional on watchlist */}
         {showRecommendations && (
           <ContentRow
-            title="Recommended for You"
-            items={recommendations}
+            title={t('home.recommendedForYou')}
+            items={shownRecommendations}
             onItemPress={handleItemPress}
+            headerAccessory={
+              <AvailableToMeChip
+                isSelected={recommendationsAvailableToMe}
+                isChecking={isCheckingRecommendations}
+                onPress={() => setRecommendationsAvailableToMe(on => !on)}
+                testID="recommendations-available-to-me"
+              />
+            }
+            emptyMessage={isCheckingRecommendations
+              ? t('availability.checking')
+              : t('availability.noneOnMyServices')}
             testID={COMPONENT_TEST_IDS.RECOMMENDATIONS_ROW}
           />
         )}
@@ -346,7 +444,7 @@ export default function HomeScreen() {
         {/* Trending Movies Row */}
         {trendingMovies.length > 0 && (
           <ContentRow
-            title="Trending This Week"
+            title={t('home.trendingThisWeek')}
             items={trendingMovies}
             onItemPress={handleItemPress}
             testID={COMPONENT_TEST_IDS.TRENDING_MOVIES_ROW}
@@ -356,7 +454,7 @@ export default function HomeScreen() {
         {/* Top Rated Movies (Global) */}
         {topRatedMovies.length > 0 && (
           <ContentRow
-            title="Top Rated"
+            title={t('home.topRated')}
             items={topRatedMovies}
             onItemPress={handleItemPress}
             testID="home-top-rated-row"
@@ -366,7 +464,7 @@ export default function HomeScreen() {
         {/* Popular Movies */}
         {popularMovies.length > 0 && (
           <ContentRow
-            title="Popular Movies"
+            title={t('home.popularMovies')}
             items={popularMovies}
             onItemPress={handleItemPress}
             testID={COMPONENT_TEST_IDS.POPULAR_MOVIES_ROW}
@@ -376,7 +474,7 @@ export default function HomeScreen() {
         {/* Top Web Series (Top Rated TV) */}
         {topWebSeries.length > 0 && (
           <ContentRow
-            title="Top Web Series"
+            title={t('home.topWebSeries')}
             items={topWebSeries}
             onItemPress={handleItemPress}
             testID={COMPONENT_TEST_IDS.TOP_WEB_SERIES_ROW}
@@ -386,7 +484,7 @@ export default function HomeScreen() {
         {/* Trending TV Shows Row */}
         {trendingTv.length > 0 && (
           <ContentRow
-            title="Trending TV Shows"
+            title={t('home.trendingTvShows')}
             items={trendingTv}
             onItemPress={handleItemPress}
             testID={COMPONENT_TEST_IDS.TRENDING_TV_ROW}
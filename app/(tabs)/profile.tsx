@@ -1,11 +1,11 @@
 /**
- * Profile Screen with Settings and Watchlist
- * Displays user settings and watchlist management
+ * Profile Screen with Settings, Watchlist and Lists
+ * Displays user settings, watchlist and custom list management
  * 
  * Requirements: 7.4, 7.5, 7.6, 9.2, 11.3, 15.3, 19.3
  */
 
-import { useEffect, useCallback, useState } from 'react';
+import { useEffect, useCallback, useMemo, useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -15,17 +15,27 @@ import {
   RefreshControl,
   ScrollView,
   Switch,
+  Alert,
 } from 'react-native';
+import { reloadAppAsync } from 'expo';
 import { useRouter } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useApiQuota } from '@/hooks/use-api-quota';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS } from '@/constants/colors';
-import { PROFILE_GRID, getLanguageName, getThemeLabel } from '@/constants/profile';
+import { PROFILE_GRID, getThemeLabel, getQuotaLabel, getCertificationCeilingLabel } from '@/constants/profile';
 import { COMPONENT_TEST_IDS } from '@/constants/test-ids';
 import { useWatchlistStore } from '@/stores/watchlistStore';
+import { useWatchProgressStore } from '@/stores/watchProgressStore';
+import { useListsStore } from '@/stores/listsStore';
+import { useRatingsStore } from '@/stores/ratingsStore';
+import { useDiaryStore } from '@/stores/diaryStore';
+import { useWatchlistMetadataStore } from '@/stores/watchlistMetadataStore';
 import { usePreferencesStore } from '@/stores/preferencesStore';
+import { clearHttpCache } from '@/services/api/http-cache';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { ErrorState } from '@/components/ui/ErrorState';
 import { Skeleton } from '@/components/ui/Skeleton';
@@ -34,21 +44,66 @@ import {
   SettingsRow,
   SettingsSeparator,
   LanguageModal,
+  ContentLanguageModal,
   ThemeModal,
+  StreamingServicesModal,
+  CertificationCeilingModal,
   WatchlistCard,
+  WatchlistFilters,
 } from '@/components/profile';
-import type { WatchlistItem } from '@/types/watchlist';
+import {
+  filterByMediaType,
+  filterBySmartFilters,
+  filterByStatus,
+  getStatusCounts,
+  getWatchlistGenres,
+  sortWatchlist,
+} from '@/components/watchlist';
+import { ListNameModal, ListRow } from '@/components/lists';
+import { DiaryView, LogWatchModal } from '@/components/diary';
+import { getSeriesProgress } from '@/utils/watch-progress';
+import { describeStreamingServices } from '@/utils/streaming-services';
+import { formatDate } from '@/utils/formatting';
+import {
+  isLayoutDirectionPending,
+  isRTL,
+  isValidLocale,
+  SUPPORTED_LOCALES,
+} from '@/services/localization';
+import {
+  DEFAULT_WATCHLIST_SMART_FILTERS,
+  type WatchlistItem,
+  type WatchlistSmartFilters,
+  type WatchlistSortOrder,
+  type WatchlistStatus,
+} from '@/types/watchlist';
+import type { CustomList } from '@/types/lists';
+import type { DiaryEntry, DiaryEntryInput } from '@/types/diary';
 import type { ThemeMode } from '@/types/user';
 
 export default function ProfileScreen() {
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
   const router = useRouter();
+  const { t, currentLocale } = useLocalization();
 
   // State for modals
   const [showLanguageModal, setShowLanguageModal] = useState(false);
+  const [showContentLanguageModal, setShowContentLanguageModal] = useState(false);
   const [showThemeModal, setShowThemeModal] = useState(false);
-  const [activeTab, setActiveTab] = useState<'watchlist' | 'settings'>('watchlist');
+  const [showServicesModal, setShowServicesModal] = useState(false);
+  const [showCeilingModal, setShowCeilingModal] = useState(false);
+  const [activeTab, setActiveTab] = useState<'watchlist' | 'lists' | 'diary' | 'settings'>('watchlist');
+  const [showListNameModal, setShowListNameModal] = useState(false);
+  const [listToRename, setListToRename] = useState<CustomList | null>(null);
+  const [entryToEdit, setEntryToEdit] = useState<DiaryEntry | null>(null);
+  const [mediaTypeFilter, setMediaTypeFilter] = useState<'movie' | 'tv' | 'all'>('all');
+  const [statusFilter, setStatusFilter] = useState<WatchlistStatus | 'all'>('all');
+  const [sortOrder, setSortOrder] = useState<WatchlistSortOrder>('date_added');
+  const [smartFilters, setSmartFilters] = useState<WatchlistSmartFilters>(DEFAULT_WATCHLIST_SMART_FILTERS);
+
+  // OMDb request quota (only tracked once the OMDb client is in use)
+  const omdbQuota = useApiQuota('omdb');
 
   // Watchlist store
   const {
@@ -58,9 +113,71 @@ export default function ProfileScreen() {
     error,
     loadWatchlist,
     removeItem,
+    syncNow,
+    retrySync,
     clearError,
   } = useWatchlistStore();
 
+  // Episode watch progress for series in the watchlist
+  const { items: progressItems, loadProgress } = useWatchProgressStore();
+
+  // Custom lists store
+  const {
+    lists,
+    isLoading: listsLoading,
+    loadLists,
+    createList,
+    renameList,
+    deleteList,
+    moveList,
+  } = useListsStore();
+
+  // Watch diary store
+  const {
+    entries: diaryEntries,
+    oldestLoadedMonth,
+    hasMore: diaryHasMore,
+    isLoading: diaryLoading,
+    isLoadingMore: diaryLoadingMore,
+    loadDiary,
+    loadMoreDiary,
+    updateEntry,
+    deleteEntry,
+  } = useDiaryStore();
+
+  // Personal ratings, used by the rating sort order
+  const { items: ratings, loadRatings } = useRatingsStore();
+
+  // Runtime, genres and availability, used by the smart filters and sorts
+  const { metadata, refreshMetadata } = useWatchlistMetadataStore();
+
+  // "On My Services" uses the services chosen in settings
+  const streamingServices = usePreferencesStore(state => state.preferences.streamingServices);
+  const activeSmartFilters = useMemo(
+    () => ({ ...smartFilters, serviceIds: streamingServices }),
+    [smartFilters, streamingServices]
+  );
+
+  // Watchlist filtered and sorted by the chips above the grid
+  const filteredItems = useMemo(
+    () => sortWatchlist(
+      filterBySmartFilters(
+        filterByStatus(filterByMediaType(items, mediaTypeFilter), statusFilter),
+        metadata,
+        activeSmartFilters
+      ),
+      sortOrder,
+      ratings,
+      metadata
+    ),
+    [items, mediaTypeFilter, statusFilter, activeSmartFilters, sortOrder, ratings, metadata]
+  );
+  const watchlistGenres = useMemo(() => getWatchlistGenres(items, metadata), [items, metadata]);
+  const statusCounts = useMemo(
+    () => getStatusCounts(filterByMediaType(items, mediaTypeFilter)),
+    [items, mediaTypeFilter]
+  );
+
   // Preferences store
   const {
     preferences,
@@ -69,9 +186,13 @@ export default function ProfileScreen() {
     loadPreferences,
     setThemeMode,
     setLanguage,
+    setContentLanguage,
     setAnalyticsEnabled,
     setNotificationsEnabled,
     setNotificationType,
+    setStreamingServices,
+    setCertificationCeiling,
+    setCertificationCeilingMode,
     clearError: clearPrefsError,
   } = usePreferencesStore();
 
@@ -79,7 +200,18 @@ export default function ProfileScreen() {
   useEffect(() => {
     loadWatchlist();
     loadPreferences();
-  }, [loadWatchlist, loadPreferences]);
+    loadProgress();
+    loadLists();
+    loadRatings();
+    loadDiary();
+  }, [loadWatchlist, loadPreferences, loadProgress, loadLists, loadRatings, loadDiary]);
+
+  // Fetch details for newly added titles (only missing and stale metadata is fetched)
+  useEffect(() => {
+    if (items.length > 0) {
+      refreshMetadata();
+    }
+  }, [items, refreshMetadata]);
 
   const handleItemPress = useCallback((item: WatchlistItem) => {
     if (item.mediaType === 'movie') {
@@ -93,10 +225,16 @@ export default function ProfileScreen() {
     await removeItem(item.id, item.mediaType);
   }, [removeItem]);
 
-  const handleRefresh = useCallback(() => {
-    loadWatchlist();
+  const handleRetrySync = useCallback((item: WatchlistItem) => {
+    retrySync(item.id, item.mediaType);
+  }, [retrySync]);
+
+  const handleRefresh = useCallback(async () => {
     loadPreferences();
-  }, [loadWatchlist, loadPreferences]);
+    await loadWatchlist();
+    syncNow();
+    refreshMetadata();
+  }, [loadWatchlist, loadPreferences, syncNow, refreshMetadata]);
 
   const handleRetry = useCallback(() => {
     clearError();
@@ -105,6 +243,42 @@ export default function ProfileScreen() {
     loadPreferences();
   }, [clearError, clearPrefsError, loadWatchlist, loadPreferences]);
 
+  // List handlers
+  const handleListPress = useCallback((list: CustomList) => {
+    router.push(`/list/${list.id}` as any);
+  }, [router]);
+
+  const handleNewList = useCallback(() => {
+    setListToRename(null);
+    setShowListNameModal(true);
+  }, []);
+
+  const handleRenameList = useCallback((list: CustomList) => {
+    setListToRename(list);
+    setShowListNameModal(true);
+  }, []);
+
+  const handleListNameSubmit = useCallback(async (name: string) => {
+    if (listToRename) {
+      await renameList(listToRename.id, name);
+    } else {
+      await createList(name);
+    }
+  }, [listToRename, renameList, createList]);
+
+  // Diary handlers
+  const handleDiaryEntrySubmit = useCallback(async (input: DiaryEntryInput) => {
+    if (entryToEdit) {
+      await updateEntry(entryToEdit.entryId, input);
+    }
+  }, [entryToEdit, updateEntry]);
+
+  const handleDiaryEntryDelete = useCallback(async () => {
+    if (entryToEdit) {
+      await deleteEntry(entryToEdit.entryId);
+    }
+  }, [entryToEdit, deleteEntry]);
+
   // Settings handlers
   const handleThemeChange = useCallback(async (theme: ThemeMode) => {
     await setThemeMode(theme);
@@ -112,12 +286,43 @@ export default function ProfileScreen() {
 
   const handleLanguageChange = useCallback(async (language: string) => {
     await setLanguage(language);
-  }, [setLanguage]);
+
+    // Switching between left-to-right and right-to-left languages only lays
+    // the app out the other way after a restart
+    if (isValidLocale(language) && isLayoutDirectionPending()) {
+      const values = { language: SUPPORTED_LOCALES[language] };
+      Alert.alert(
+        t('settings.restartRequired'),
+        isRTL(language)
+          ? t('settings.restartRequiredMessage', values)
+          : t('settings.restartRequiredMessageLtr', values),
+        [
+          { text: t('settings.restartLater'), style: 'cancel' },
+          { text: t('settings.restartNow'), onPress: () => reloadAppAsync() },
+        ]
+      );
+    }
+  }, [setLanguage, t]);
+
+  const handleContentLanguageChange = useCallback(async (language: string | null) => {
+    await setContentLanguage(language);
+  }, [setContentLanguage]);
 
   const handleAnalyticsToggle = useCallback(async (enabled: boolean) => {
     await setAnalyticsEnabled(enabled);
   }, [setAnalyticsEnabled]);
 
+  const handleClearCache = useCallback(() => {
+    Alert.alert(
+      t('settings.clearCache'),
+      t('settings.clearCacheMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('settings.clearCacheConfirm'), style: 'destructive', onPress: () => void clearHttpCache() },
+      ]
+    );
+  }, [t]);
+
   const handleNotificationsToggle = useCallback(async (enabled: boolean) => {
     await setNotificationsEnabled(enabled);
   }, [setNotificationsEnabled]);
@@ -134,8 +339,15 @@ export default function ProfileScreen() {
       item={item}
       onPress={() => handleItemPress(item)}
       onRemove={() => handleRemoveItem(item)}
+      onRetrySync={() => handleRetrySync(item)}
+      showStatus
+      progress={
+        item.mediaType === 'tv'
+          ? getSeriesProgress(progressItems.find(p => p.id === item.id))
+          : undefined
+      }
     />
-  ), [handleItemPress, handleRemoveItem]);
+  ), [handleItemPress, handleRemoveItem, handleRetrySync, progressItems]);
 
   const keyExtractor = useCallback((item: WatchlistItem) => 
     `${item.mediaType}-${item.id}`, []);
@@ -157,7 +369,39 @@ export default function ProfileScreen() {
               { color: activeTab === 'watchlist' ? SOLID_COLORS.WHITE : colors.text },
             ]}
           >
-            Watchlist
+            {t('watchlist.title')}
+          </Text>
+        </Pressable>
+        <Pressable
+          onPress={() => setActiveTab('lists')}
+          style={[
+            styles.tabButton,
+            activeTab === 'lists' && { backgroundColor: colors.tint },
+          ]}
+        >
+          <Text
+            style={[
+              styles.tabButtonText,
+              { color: activeTab === 'lists' ? SOLID_COLORS.WHITE : colors.text },
+            ]}
+          >
+            {t('profile.tabs.lists')}
+          </Text>
+        </Pressable>
+        <Pressable
+          onPress={() => setActiveTab('diary')}
+          style={[
+            styles.tabButton,
+            activeTab === 'diary' && { backgroundColor: colors.tint },
+          ]}
+        >
+          <Text
+            style={[
+              styles.tabButtonText,
+              { color: activeTab === 'diary' ? SOLID_COLORS.WHITE : colors.text },
+            ]}
+          >
+            {t('profile.tabs.diary')}
           </Text>
         </Pressable>
         <Pressable
@@ -173,13 +417,58 @@ export default function ProfileScreen() {
               { color: activeTab === 'settings' ? SOLID_COLORS.WHITE : colors.text },
             ]}
           >
-            Settings
+            {t('settings.title')}
           </Text>
         </Pressable>
       </View>
     </View>
   );
 
+  // Lists content
+  const renderLists = () => (
+    <FlatList
+      data={lists}
+      keyExtractor={(list) => list.id}
+      renderItem={({ item: list, index }) => (
+        <ListRow
+          list={list}
+          // The watchlist stays pinned at the top
+          canMoveUp={index > 1}
+          canMoveDown={index < lists.length - 1}
+          onPress={() => handleListPress(list)}
+          onMoveUp={() => moveList(list.id, -1)}
+          onMoveDown={() => moveList(list.id, 1)}
+          onRename={() => handleRenameList(list)}
+          onDelete={() => deleteList(list.id)}
+        />
+      )}
+      ListHeaderComponent={
+        <Pressable
+          onPress={handleNewList}
+          style={({ pressed }) => [
+            styles.newListButton,
+            { borderColor: colors.tint, opacity: pressed ? 0.7 : 1 },
+          ]}
+          accessibilityRole="button"
+          testID="new-list-button"
+        >
+          <Ionicons name="add" size={20} color={colors.tint} />
+          <Text style={[styles.newListText, { color: colors.tint }]}>{t('lists.newList')}</Text>
+        </Pressable>
+      }
+      contentContainerStyle={styles.listContent}
+      showsVerticalScrollIndicator={false}
+      refreshControl={
+        <RefreshControl
+          refreshing={listsLoading}
+          onRefresh={loadLists}
+          tintColor={colors.tint}
+        />
+      }
+      testID="custom-lists"
+    />
+  );
+
   // Settings content
   const renderSettings = () => (
     <ScrollView 
@@ -194,9 +483,9 @@ export default function ProfileScreen() {
       }
     >
       {/* Appearance Settings */}
-      <SettingsSection title="Appearance" testID="appearance-section">
+      <SettingsSection title={t('settings.appearance')} testID="appearance-section">
         <SettingsRow
-          title="Theme"
+          title={t('settings.theme')}
           subtitle={getThemeLabel(preferences.themeMode)}
           icon="color-palette"
           onPress={() => setShowThemeModal(true)}
@@ -204,19 +493,48 @@ export default function ProfileScreen() {
         />
         <SettingsSeparator />
         <SettingsRow
-          title="Language"
-          subtitle={getLanguageName(preferences.language)}
+          title={t('settings.language')}
+          subtitle={SUPPORTED_LOCALES[currentLocale]}
           icon="language"
           onPress={() => setShowLanguageModal(true)}
           testID="language-setting"
         />
+        <SettingsSeparator />
+        <SettingsRow
+          title={t('settings.contentLanguage')}
+          subtitle={preferences.contentLanguage && isValidLocale(preferences.contentLanguage)
+            ? SUPPORTED_LOCALES[preferences.contentLanguage]
+            : t('settings.sameAsAppLanguage')}
+          icon="film"
+          onPress={() => setShowContentLanguageModal(true)}
+          testID="content-language-setting"
+        />
+      </SettingsSection>
+
+      {/* Streaming Settings */}
+      <SettingsSection title={t('settings.streaming')} testID="streaming-section">
+        <SettingsRow
+          title={t('settings.myServices')}
+          subtitle={describeStreamingServices(preferences.streamingServices)}
+          icon="tv"
+          onPress={() => setShowServicesModal(true)}
+          testID="streaming-services-setting"
+        />
+        <SettingsSeparator />
+        <SettingsRow
+          title={t('settings.certificationCeiling')}
+          subtitle={getCertificationCeilingLabel(preferences.certificationCeiling)}
+          icon="shield-checkmark"
+          onPress={() => setShowCeilingModal(true)}
+          testID="certification-ceiling-setting"
+        />
       </SettingsSection>
 
       {/* Notifications Settings */}
-      <SettingsSection title="Notifications" testID={COMPONENT_TEST_IDS.NOTIFICATIONS_SECTION}>
+      <SettingsSection title={t('settings.notifications')} testID={COMPONENT_TEST_IDS.NOTIFICATIONS_SECTION}>
         <SettingsRow
-          title="Enable Notifications"
-          subtitle="Receive push notifications"
+          title={t('settings.enableNotifications')}
+          subtitle={t('settings.enableNotificationsDescription')}
           icon="notifications"
           rightElement={
             <Switch
@@ -233,8 +551,8 @@ export default function ProfileScreen() {
           <>
             <SettingsSeparator />
             <SettingsRow
-              title="Download Complete"
-              subtitle="Notify when downloads finish"
+              title={t('settings.downloadComplete')}
+              subtitle={t('settings.downloadCompleteDescription')}
               icon="download"
               rightElement={
                 <Switch
@@ -249,8 +567,8 @@ export default function ProfileScreen() {
             />
             <SettingsSeparator />
             <SettingsRow
-              title="New Releases"
-              subtitle="Notify about new content"
+              title={t('settings.newReleases')}
+              subtitle={t('settings.newReleasesDescription')}
               icon="star"
               rightElement={
                 <Switch
@@ -267,11 +585,30 @@ export default function ProfileScreen() {
         )}
       </SettingsSection>
 
+      {/* Data Settings */}
+      <SettingsSection title={t('settings.yourData')} testID="data-section">
+        <SettingsRow
+          title={t('settings.importExport')}
+          subtitle={t('settings.importExportDescription')}
+          icon="swap-vertical"
+          onPress={() => router.push('/import-export' as any)}
+          testID="import-export-setting"
+        />
+        <SettingsSeparator />
+        <SettingsRow
+          title={t('settings.clearCache')}
+          subtitle={t('settings.clearCacheDescription')}
+          icon="trash-outline"
+          onPress={handleClearCache}
+          testID="clear-cache-setting"
+        />
+      </SettingsSection>
+
       {/* Privacy Settings */}
-      <SettingsSection title="Privacy & Analytics" testID="privacy-section">
+      <SettingsSection title={t('settings.privacyAnalytics')} testID="privacy-section">
         <SettingsRow
-          title="Analytics & Telemetry"
-          subtitle={preferences.analyticsEnabled ? "Enabled" : "Disabled"}
+          title={t('settings.analyticsTelemetry')}
+          subtitle={preferences.analyticsEnabled ? t('settings.enabled') : t('settings.disabled')}
           icon="analytics"
           rightElement={
             <Switch
@@ -286,11 +623,23 @@ export default function ProfileScreen() {
         />
       </SettingsSection>
 
+      {/* API Usage */}
+      {omdbQuota && omdbQuota.dailyLimit !== null && (
+        <SettingsSection title={t('settings.apiUsage')} testID="api-usage-section">
+          <SettingsRow
+            title={t('settings.omdbQuota')}
+            subtitle={getQuotaLabel(omdbQuota)}
+            icon="speedometer"
+            testID="omdb-quota-setting"
+          />
+        </SettingsSection>
+      )}
+
       {/* GDPR Consent Info */}
       {preferences.gdprConsentGiven && preferences.gdprConsentDate && (
         <View style={styles.consentInfo}>
           <Text style={[styles.consentText, { color: colors.textSecondary }]}>
-            Privacy consent given on {new Date(preferences.gdprConsentDate).toLocaleDateString()}
+            {t('settings.consentGiven', { date: formatDate(preferences.gdprConsentDate) })}
           </Text>
         </View>
       )}
@@ -315,8 +664,8 @@ export default function ProfileScreen() {
       <View style={[styles.container, { backgroundColor: colors.background }]}>
         {renderTabHeader()}
         <ErrorState
-          title="Failed to load data"
-          message={error || prefsError || 'Unknown error'}
+          title={t('profile.loadFailed')}
+          message={error || prefsError || t('errors.unknown')}
           onRetry={handleRetry}
           testID="profile-error"
         />
@@ -330,37 +679,76 @@ export default function ProfileScreen() {
       
       {activeTab === 'settings' ? (
         renderSettings()
+      ) : activeTab === 'lists' ? (
+        renderLists()
+      ) : activeTab === 'diary' ? (
+        <DiaryView
+          entries={diaryEntries}
+          oldestLoadedMonth={oldestLoadedMonth}
+          hasMore={diaryHasMore}
+          isLoading={diaryLoading}
+          isLoadingMore={diaryLoadingMore}
+          onLoadMore={loadMoreDiary}
+          onRefresh={loadDiary}
+          onEntryPress={setEntryToEdit}
+          onBrowse={() => router.push('/(tabs)/browse' as any)}
+        />
       ) : (
         <>
           {items.length === 0 ? (
             <EmptyState
-              title="Your watchlist is empty"
-              message="Start adding movies and series to keep track of what you want to watch"
+              title={t('watchlist.empty')}
+              message={t('watchlist.emptyMessage')}
               icon="bookmark-outline"
-              actionText="Browse Content"
+              actionText={t('watchlist.browseContent')}
               onAction={() => router.push('/(tabs)/browse' as any)}
               testID="watchlist-empty"
             />
           ) : (
             <>
               <View style={styles.watchlistHeader}>
+                <Pressable
+                  onPress={() => router.push('/tonight' as any)}
+                  style={({ pressed }) => [styles.pickButton, { opacity: pressed ? 0.7 : 1 }]}
+                  accessibilityRole="button"
+                  accessibilityLabel={t('picker.title')}
+                  testID="watchlist-pick-tonight"
+                >
+                  <Ionicons name="dice-outline" size={18} color={colors.tint} />
+                  <Text style={[styles.pickButtonText, { color: colors.tint }]}>{t('watchlist.pickForTonight')}</Text>
+                </Pressable>
                 <View style={styles.headerRight}>
                   {isSyncing && (
                     <View style={styles.syncingIndicator}>
                       <Ionicons name="sync" size={18} color={colors.tint} />
                       <Text style={[styles.syncingText, { color: colors.textSecondary }]}>
-                        Syncing...
+                        {t('watchlist.syncStatus.pending')}
                       </Text>
                     </View>
                   )}
                   <Text style={[styles.itemCount, { color: colors.textSecondary }]}>
-                    {items.length} {items.length === 1 ? 'title' : 'titles'}
+                    {filteredItems.length === items.length
+                      ? t('watchlist.titleCount', { count: items.length })
+                      : t('watchlist.filteredCount', { count: items.length, shown: filteredItems.length })}
                   </Text>
                 </View>
               </View>
 
+              <WatchlistFilters
+                mediaType={mediaTypeFilter}
+                status={statusFilter}
+                statusCounts={statusCounts}
+                sortOrder={sortOrder}
+                smartFilters={activeSmartFilters}
+                genres={watchlistGenres}
+                onMediaTypeChange={setMediaTypeFilter}
+                onStatusChange={setStatusFilter}
+                onSortOrderChange={setSortOrder}
+                onSmartFiltersChange={setSmartFilters}
+              />
+
               <FlatList
-                data={items}
+                data={filteredItems}
                 renderItem={renderItem}
                 keyExtractor={keyExtractor}
                 numColumns={PROFILE_GRID.NUM_COLUMNS}
@@ -374,8 +762,13 @@ export default function ProfileScreen() {
                     tintColor={colors.tint}
                   />
                 }
+                ListEmptyComponent={
+                  <Text style={[styles.noMatchesText, { color: colors.textSecondary }]}>
+                    {t('watchlist.noMatches')}
+                  </Text>
+                }
                 testID="watchlist-grid"
-                accessibilityLabel={`Watchlist with ${items.length} items`}
+                accessibilityLabel={t('watchlist.gridLabel', { count: items.length })}
               />
             </>
           )}
@@ -385,10 +778,17 @@ export default function ProfileScreen() {
       {/* Modals */}
       <LanguageModal
         visible={showLanguageModal}
-        currentLanguage={preferences.language}
+        currentLanguage={currentLocale}
         onSelect={handleLanguageChange}
         onClose={() => setShowLanguageModal(false)}
       />
+
+      <ContentLanguageModal
+        visible={showContentLanguageModal}
+        currentLanguage={preferences.contentLanguage}
+        onSelect={handleContentLanguageChange}
+        onClose={() => setShowContentLanguageModal(false)}
+      />
       
       <ThemeModal
         visible={showThemeModal}
@@ -396,6 +796,40 @@ export default function ProfileScreen() {
         onSelect={handleThemeChange}
         onClose={() => setShowThemeModal(false)}
       />
+
+      <StreamingServicesModal
+        visible={showServicesModal}
+        selectedIds={preferences.streamingServices}
+        onChange={setStreamingServices}
+        onClose={() => setShowServicesModal(false)}
+      />
+
+      <CertificationCeilingModal
+        visible={showCeilingModal}
+        currentCeiling={preferences.certificationCeiling}
+        currentMode={preferences.certificationCeilingMode}
+        onSelectCeiling={setCertificationCeiling}
+        onSelectMode={setCertificationCeilingMode}
+        onClose={() => setShowCeilingModal(false)}
+      />
+
+      <ListNameModal
+        visible={showListNameModal}
+        list={listToRename}
+        lists={lists}
+        onSubmit={handleListNameSubmit}
+        onClose={() => setShowListNameModal(false)}
+      />
+
+      <LogWatchModal
+        visible={entryToEdit !== null}
+        title={entryToEdit?.title ?? ''}
+        mediaType={entryToEdit?.mediaType ?? 'movie'}
+        entry={entryToEdit}
+        onSubmit={handleDiaryEntrySubmit}
+        onDelete={handleDiaryEntryDelete}
+        onClose={() => setEntryToEdit(null)}
+      />
     </View>
   );
 }
@@ -427,11 +861,21 @@ const styles = StyleSheet.create({
   },
   watchlistHeader: {
     flexDirection: 'row',
-    justifyContent: 'flex-end',
+    justifyContent: 'space-between',
     alignItems: 'center',
     paddingHorizontal: Spacing.md,
     paddingBottom: Spacing.sm,
   },
+  pickButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    minHeight: 44,
+  },
+  pickButtonText: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.semibold,
+  },
   headerRight: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -448,6 +892,11 @@ const styles = StyleSheet.create({
   itemCount: {
     fontSize: Typography.sizes.sm,
   },
+  noMatchesText: {
+    fontSize: Typography.sizes.sm,
+    textAlign: 'center',
+    paddingVertical: Spacing.xl,
+  },
   listContent: {
     paddingHorizontal: Spacing.md,
     paddingBottom: Spacing.xl,
@@ -456,6 +905,21 @@ const styles = StyleSheet.create({
     gap: PROFILE_GRID.CARD_SPACING,
     marginBottom: Spacing.md,
   },
+  newListButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    minHeight: 44,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.md,
+  },
+  newListText: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.medium,
+  },
   skeletonContainer: {
     flex: 1,
     padding: Spacing.md,
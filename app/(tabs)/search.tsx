@@ -5,11 +5,12 @@
  * Requirements: 6.1, 6.2, 6.3, 6.4, 6.5, 6.6
  */
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { StyleSheet, View, Keyboard } from 'react-native';
 import { useQuery } from '@tanstack/react-query';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useAvailableToMe } from '@/hooks/use-available-to-me';
 import { 
   SearchHeader,
   SearchFiltersComponent,
@@ -32,6 +33,7 @@ export default function SearchScreen() {
   const [debouncedQuery, setDebouncedQuery] = useState('');
   const [filters, setFilters] = useState<SearchFiltersType>(DEFAULT_SEARCH_FILTERS);
   const [activeDropdown, setActiveDropdown] = useState<FilterType>(null);
+  const [availableToMe, setAvailableToMe] = useState(false);
   
   // Refs
   const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -65,6 +67,19 @@ export default function SearchScreen() {
     staleTime: 5 * 60 * 1000,
   });
 
+  // "Available to Me" keeps the results streaming on the user's services
+  const allResults = useMemo(
+    () => (searchResults ? [...searchResults.movies, ...searchResults.tvShows] : []),
+    [searchResults]
+  );
+  const { items: availableResults, isChecking } = useAvailableToMe(allResults, availableToMe);
+  const shownResults = useMemo<SearchResultsType | undefined>(() => {
+    if (!searchResults || !availableToMe) return searchResults;
+    const movies = searchResults.movies.filter(item => availableResults.includes(item));
+    const tvShows = searchResults.tvShows.filter(item => availableResults.includes(item));
+    return { ...searchResults, movies, tvShows, totalResults: movies.length + tvShows.length };
+  }, [searchResults, availableToMe, availableResults]);
+
   // Log analytics when search completes
   useEffect(() => {
     if (searchResults && debouncedQuery) {
@@ -108,14 +123,17 @@ export default function SearchScreen() {
         activeDropdown={activeDropdown}
         onFiltersChange={handleFiltersChange}
         onDropdownToggle={handleDropdownToggle}
+        availableToMe={availableToMe}
+        isCheckingAvailability={isChecking}
+        onAvailableToMeToggle={() => setAvailableToMe(on => !on)}
       />
 
       <SearchResultsComponent
         query={debouncedQuery}
-        results={searchResults}
+        results={shownResults}
         filters={filters}
         isLoading={isLoading}
-        isFetching={isFetching}
+        isFetching={isFetching || isChecking}
       />
     </View>
   );
@@ -6,16 +6,41 @@ import { useEffect, useState, useMemo } from 'react';
 import 'react-native-reanimated';
 
 import { useColorScheme } from '@/hooks/use-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
 import { useRouteAnnouncements } from '@/hooks/use-route-announcements';
-import { initializeAnalytics } from '@/services/analytics';
+import { initializeAnalytics, logError } from '@/services/analytics';
+import {
+  addHttpInterceptor,
+  createLoggingInterceptor,
+  createMetricsInterceptor,
+} from '@/services/api/http';
 import { initializeLocalization } from '@/services/localization';
+import { runStorageMigrations } from '@/services/storage-migrations';
 import { usePreferencesStore } from '@/stores/preferencesStore';
+import { useWatchlistStore } from '@/stores/watchlistStore';
+import { useWatchlistMetadataStore } from '@/stores/watchlistMetadataStore';
 import { GdprConsentModal } from '@/components/ui/GdprConsentModal';
 
 export const unstable_settings = {
   anchor: '(tabs)',
 };
 
+// Log API retries in development and report failed requests to analytics
+if (__DEV__) {
+  addHttpInterceptor(createLoggingInterceptor());
+}
+addHttpInterceptor(
+  createMetricsInterceptor((metric) => {
+    if (metric.ok) return;
+    logError(`HTTP ${metric.errorCode}`, {
+      url: metric.url,
+      status: metric.status ?? 0,
+      attempts: metric.attempts,
+      durationMs: metric.durationMs,
+    });
+  })
+);
+
 // Create a client
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -31,6 +56,10 @@ export default function RootLayout() {
   const systemColorScheme = useColorScheme();
   const [isConsentModalVisible, setIsConsentModalVisible] = useState(false);
   const [isConsentLoading, setIsConsentLoading] = useState(false);
+  const [isStorageReady, setIsStorageReady] = useState(false);
+
+  // Every screen re-renders with the new strings when the language changes
+  const { t } = useLocalization();
 
   // Enable route announcements for screen readers
   useRouteAnnouncements();
@@ -53,9 +82,13 @@ export default function RootLayout() {
   // Initialize analytics service and check consent status
   useEffect(() => {
     const initializeApp = async () => {
-      // Initialize localization first
+      // Bring saved data up to date before anything reads it
+      await runStorageMigrations();
+
+      // Initialize localization before the first screen renders
       await initializeLocalization();
-      
+      setIsStorageReady(true);
+
       // Load preferences
       await loadPreferences();
       
@@ -66,6 +99,23 @@ export default function RootLayout() {
     initializeApp();
   }, [loadPreferences]);
 
+  // Sync the watchlist with the server while the app is open
+  useEffect(() => {
+    if (!isStorageReady) return;
+
+    const { loadWatchlist, startSync, stopSync } = useWatchlistStore.getState();
+    const { startAutoRefresh, stopAutoRefresh } = useWatchlistMetadataStore.getState();
+    // The outbox is loaded with the watchlist, so sync starts after it
+    loadWatchlist().then(() => {
+      startSync();
+      startAutoRefresh();
+    });
+    return () => {
+      stopSync();
+      stopAutoRefresh();
+    };
+  }, [isStorageReady]);
+
   // Show consent modal if GDPR consent hasn't been given
   useEffect(() => {
     if (preferences && !preferences.gdprConsentGiven) {
@@ -101,6 +151,11 @@ export default function RootLayout() {
     }
   };
 
+  // Screens load their data on mount, so wait for the migrations
+  if (!isStorageReady) {
+    return null;
+  }
+
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider value={effectiveColorScheme === 'dark' ? DarkTheme : DefaultTheme}>
@@ -133,6 +188,20 @@ export default function RootLayout() {
             animation: 'slide_from_right',
           }} 
         />
+        <Stack.Screen 
+          name="person/[id]" 
+          options={{ 
+            headerShown: false,
+            animation: 'slide_from_right',
+          }} 
+        />
+        <Stack.Screen 
+          name="list/[id]" 
+          options={{ 
+            headerShown: false,
+            animation: 'slide_from_right',
+          }} 
+        />
         <Stack.Screen 
           name="country/[code]" 
           options={{ 
@@ -140,6 +209,20 @@ export default function RootLayout() {
             animation: 'slide_from_right',
           }} 
         />
+        <Stack.Screen 
+          name="import-export" 
+          options={{ 
+            headerShown: false,
+            animation: 'slide_from_right',
+          }} 
+        />
+        <Stack.Screen 
+          name="tonight" 
+          options={{ 
+            headerShown: false,
+            animation: 'slide_from_right',
+          }} 
+        />
         <Stack.Screen 
           name="trailer/[key]" 
           options={{ 
@@ -148,7 +231,7 @@ export default function RootLayout() {
             animation: 'fade',
           }} 
         />
-        <Stack.Screen name="modal" options={{ presentation: 'modal', title: 'Modal' }} />
+        <Stack.Screen name="modal" options={{ presentation: 'modal', title: t('navigation.modal') }} />
       </Stack>
       
       {/* GDPR Consent Modal */}
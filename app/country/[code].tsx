@@ -11,15 +11,20 @@ import { useLocalSearchParams } from 'expo-router';
 import { useInfiniteQuery } from '@tanstack/react-query';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useAvailableToMe } from '@/hooks/use-available-to-me';
 import { discoverByCountry } from '@/services/api';
 import { CountryHubHeader } from '@/components/country/CountryHubHeader';
 import { CountryHubFilters, type CountryHubFiltersState as FiltersType } from '@/components/country/CountryHubFilters';
 import { CountryContentList } from '@/components/country/CountryContentList';
+import { AvailableToMeChip } from '@/components/media/AvailableToMeChip';
 import { ErrorState } from '@/components/ui/ErrorState';
+import { Spacing } from '@/constants/theme';
 
 export default function CountryHubScreen() {
   const { code } = useLocalSearchParams<{ code: string }>();
   const backgroundColor = useThemeColor({}, 'background');
+  const { t } = useLocalization();
 
   // Filter state
   const [filters, setFilters] = useState<FiltersType>({
@@ -27,6 +32,7 @@ export default function CountryHubScreen() {
     genre: null,
     year: null,
   });
+  const [availableToMe, setAvailableToMe] = useState(false);
 
   // Query key for caching
   const queryKey = useMemo(() => [
@@ -82,6 +88,9 @@ export default function CountryHubScreen() {
     return data?.pages.flatMap(page => page.items) || [];
   }, [data]);
 
+  // "Available to Me" keeps the titles streaming on the user's services
+  const { items: shownItems, isChecking } = useAvailableToMe(contentItems, availableToMe);
+
   // Handlers
   const handleRefresh = useCallback(() => {
     refetch();
@@ -107,8 +116,8 @@ export default function CountryHubScreen() {
         <CountryHubHeader countryCode="" />
         <View style={styles.content}>
           <ErrorState
-            title="Invalid Country"
-            message="Country code is required"
+            title={t('countryHub.invalidCountry')}
+            message={t('countryHub.countryCodeRequired')}
             onRetry={() => {}}
           />
         </View>
@@ -125,9 +134,18 @@ export default function CountryHubScreen() {
         onFiltersChange={handleFiltersChange}
       />
 
+      <View style={styles.availabilityRow}>
+        <AvailableToMeChip
+          isSelected={availableToMe}
+          isChecking={isChecking}
+          onPress={() => setAvailableToMe(on => !on)}
+          testID="country-available-to-me"
+        />
+      </View>
+
       <View style={styles.content}>
         <CountryContentList
-          data={contentItems}
+          data={shownItems}
           isLoading={isLoading}
           isError={isError}
           error={error}
@@ -150,4 +168,8 @@ const styles = StyleSheet.create({
   content: {
     flex: 1,
   },
+  availabilityRow: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.sm,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,515 @@
+/**
+ * Import & Export Screen
+ * Moves the watchlist, ratings and diary to and from Letterboxd, IMDb and Trakt,
+ * and saves or restores a full app backup
+ *
+ * Exports are shared as files. Imports are picked from a file or pasted in;
+ * backups are only restored from a picked file.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { router } from 'expo-router';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { ComponentTokens, SOLID_COLORS } from '@/constants/colors';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { ImportMatchRow } from '@/components/import-export';
+import { useImportStore } from '@/stores/importStore';
+import { useWatchlistStore } from '@/stores/watchlistStore';
+import { useRatingsStore } from '@/stores/ratingsStore';
+import { TRANSFER_FORMAT_LABELS, createExport, detectImportFormat } from '@/services/transfer';
+import { pickImportFile, shareExportFile } from '@/services/transfer/files';
+import type { ImportMatch, RestoreMode, TransferFormat } from '@/types/transfer';
+
+const FORMATS: TransferFormat[] = ['letterboxd', 'imdb', 'trakt', 'backup'];
+
+/** Format chip */
+function FormatChip({ format, isSelected, onPress }: {
+  format: TransferFormat;
+  isSelected: boolean;
+  onPress: () => void;
+}) {
+  const colors = Colors[useEffectiveColorScheme()];
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.chip,
+        {
+          backgroundColor: isSelected ? colors.tint : colors.backgroundSecondary,
+          borderColor: isSelected ? colors.tint : colors.border,
+          opacity: pressed ? 0.8 : 1,
+        },
+      ]}
+      accessibilityRole="radio"
+      accessibilityState={{ selected: isSelected }}
+      testID={`import-format-${format}`}
+    >
+      <Text style={[styles.chipText, { color: isSelected ? SOLID_COLORS.WHITE : colors.text }]}>
+        {TRANSFER_FORMAT_LABELS[format]}
+      </Text>
+    </Pressable>
+  );
+}
+
+export default function ImportExportScreen() {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+
+  const {
+    phase,
+    matches,
+    recordCount,
+    matchedCount,
+    summary,
+    error,
+    startImport,
+    selectCandidate,
+    applyImport,
+    restoreBackup,
+    reset,
+    clearError,
+  } = useImportStore();
+  const { loadWatchlist } = useWatchlistStore();
+  const { loadRatings } = useRatingsStore();
+
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<TransferFormat>('letterboxd');
+  const [exporting, setExporting] = useState<TransferFormat | null>(null);
+
+  // The import skips titles already watchlisted and keeps existing notes,
+  // so both need to be current
+  useEffect(() => {
+    loadWatchlist();
+    loadRatings();
+  }, [loadWatchlist, loadRatings]);
+
+  // Start over when leaving the screen
+  useEffect(() => reset, [reset]);
+
+  const handleChangeText = useCallback((value: string) => {
+    setText(value);
+    clearError();
+    const detected = detectImportFormat(value);
+    if (detected) setFormat(detected);
+  }, [clearError]);
+
+  /** Ask whether a backup should be merged in or replace everything, then restore it */
+  const confirmRestore = useCallback((contents: string) => {
+    const restore = async (mode: RestoreMode) => {
+      if (await restoreBackup(contents, mode)) {
+        setText('');
+        Alert.alert(t('importExport.backupRestored'), t('importExport.backupRestoredMessage'));
+      }
+    };
+
+    Alert.alert(
+      t('importExport.restoreBackup'),
+      t('importExport.restoreBackupMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('importExport.merge'), onPress: () => restore('merge') },
+        { text: t('importExport.replace'), style: 'destructive', onPress: () => restore('replace') },
+      ]
+    );
+  }, [restoreBackup, t]);
+
+  const handleImport = useCallback(() => {
+    if (format === 'backup') return;
+    startImport(text, format);
+  }, [format, text, startImport]);
+
+  const handleChooseFile = useCallback(async () => {
+    clearError();
+    try {
+      const contents = await pickImportFile();
+      if (contents === null) return;
+
+      if (format === 'backup' || detectImportFormat(contents) === 'backup') {
+        setFormat('backup');
+        confirmRestore(contents);
+      } else {
+        handleChangeText(contents);
+      }
+    } catch (err) {
+      Alert.alert(t('importExport.fileFailed'), err instanceof Error ? err.message : t('importExport.fileFailedMessage'));
+    }
+  }, [format, clearError, confirmRestore, handleChangeText, t]);
+
+  const handleExport = useCallback(async (exportFormat: TransferFormat) => {
+    setExporting(exportFormat);
+    try {
+      const contents = await createExport(exportFormat);
+      await shareExportFile(exportFormat, contents);
+    } catch (err) {
+      Alert.alert(t('importExport.exportFailed'), err instanceof Error ? err.message : t('importExport.exportFailedMessage'));
+    } finally {
+      setExporting(null);
+    }
+  }, [t]);
+
+  const handleDone = useCallback(() => {
+    setText('');
+    reset();
+  }, [reset]);
+
+  const renderMatch = useCallback(({ item }: { item: ImportMatch }) => (
+    <ImportMatchRow
+      match={item}
+      onSelect={(selected) => selectCandidate(item.key, selected)}
+      testID={`import-match-${item.key}`}
+    />
+  ), [selectCandidate]);
+
+  const selectedCount = matches.filter(m => m.selected).length;
+  const reviewCount = matches.filter(m => m.status !== 'matched').length;
+
+  const renderContent = () => {
+    if (phase === 'matching' || phase === 'importing') {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+          <Text style={[styles.body, { color: colors.textSecondary }]}>
+            {phase === 'matching'
+              ? t('importExport.matching', { count: recordCount, matched: matchedCount })
+              : t('importExport.importing')}
+          </Text>
+          {phase === 'matching' && (
+            <Pressable onPress={handleDone} accessibilityRole="button" style={styles.textButton}>
+              <Text style={[styles.textButtonLabel, { color: colors.tint }]}>{t('common.cancel')}</Text>
+            </Pressable>
+          )}
+        </View>
+      );
+    }
+
+    if (phase === 'done' && summary) {
+      return (
+        <View style={styles.centered} testID="import-summary">
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('importExport.importComplete')}</Text>
+          <Text style={[styles.body, { color: colors.textSecondary }]}>
+            {t('importExport.summary', {
+              watchlisted: summary.watchlisted,
+              rated: summary.rated,
+              logged: summary.logged,
+            })}
+            {summary.skipped > 0 ? t('importExport.summarySkipped', { count: summary.skipped }) : ''}
+          </Text>
+          <Pressable
+            onPress={handleDone}
+            style={({ pressed }) => [styles.button, { backgroundColor: colors.tint, opacity: pressed ? 0.7 : 1 }]}
+            accessibilityRole="button"
+          >
+            <Text style={styles.buttonText}>{t('common.done')}</Text>
+          </Pressable>
+        </View>
+      );
+    }
+
+    if (phase === 'review') {
+      return (
+        <FlatList
+          data={matches}
+          renderItem={renderMatch}
+          keyExtractor={(item) => item.key}
+          contentContainerStyle={styles.content}
+          ListHeaderComponent={
+            <Text style={[styles.body, styles.reviewHeader, { color: colors.textSecondary }]}>
+              {reviewCount > 0
+                ? t('importExport.needsChecking', { count: matches.length, review: reviewCount })
+                : t('importExport.allMatched', { count: matches.length })}
+            </Text>
+          }
+          ListFooterComponent={
+            <View style={styles.footer}>
+              {error && <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>}
+              <Pressable
+                onPress={applyImport}
+                disabled={selectedCount === 0}
+                style={({ pressed }) => [
+                  styles.button,
+                  { backgroundColor: colors.tint, opacity: selectedCount === 0 ? 0.5 : pressed ? 0.7 : 1 },
+                ]}
+                accessibilityRole="button"
+                testID="import-apply"
+              >
+                <Text style={styles.buttonText}>
+                  {t('importExport.importTitles', { count: selectedCount })}
+                </Text>
+              </Pressable>
+              <Pressable onPress={handleDone} accessibilityRole="button" style={styles.textButton}>
+                <Text style={[styles.textButtonLabel, { color: colors.tint }]}>{t('common.cancel')}</Text>
+              </Pressable>
+            </View>
+          }
+          testID="import-review-list"
+        />
+      );
+    }
+
+    return (
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('importExport.export')}</Text>
+        <Text style={[styles.body, { color: colors.textSecondary }]}>
+          {t('importExport.exportDescription')}
+        </Text>
+        <View style={styles.exportGrid}>
+          {FORMATS.map(exportFormat => (
+            <Pressable
+              key={exportFormat}
+              onPress={() => handleExport(exportFormat)}
+              disabled={exporting !== null}
+              style={({ pressed }) => [
+                styles.exportButton,
+                { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.7 : 1 },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={t('importExport.exportAs', { format: TRANSFER_FORMAT_LABELS[exportFormat] })}
+              testID={`export-${exportFormat}`}
+            >
+              {exporting === exportFormat ? (
+                <ActivityIndicator size="small" color={colors.tint} />
+              ) : (
+                <Text style={[styles.exportButtonText, { color: colors.text }]}>
+                  {TRANSFER_FORMAT_LABELS[exportFormat]}
+                </Text>
+              )}
+            </Pressable>
+          ))}
+        </View>
+
+        <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('importExport.import')}</Text>
+        <Text style={[styles.body, { color: colors.textSecondary }]}>
+          {t('importExport.importDescription')}
+        </Text>
+        <View style={styles.chipRow}>
+          {FORMATS.map(option => (
+            <FormatChip
+              key={option}
+              format={option}
+              isSelected={format === option}
+              onPress={() => setFormat(option)}
+            />
+          ))}
+        </View>
+        {format === 'backup' ? (
+          <Text style={[styles.body, { color: colors.textSecondary }]}>
+            {t('importExport.backupDescription')}
+          </Text>
+        ) : (
+          <TextInput
+            style={[
+              styles.input,
+              { color: colors.text, backgroundColor: colors.backgroundSecondary, borderColor: colors.border },
+            ]}
+            placeholder={t('importExport.inputPlaceholder')}
+            placeholderTextColor={colors.textMuted}
+            value={text}
+            onChangeText={handleChangeText}
+            multiline
+            textAlignVertical="top"
+            autoCapitalize="none"
+            autoCorrect={false}
+            accessibilityLabel={t('importExport.inputLabel')}
+            testID="import-input"
+          />
+        )}
+        {error && <Text style={[styles.errorText, { color: colors.error }]}>{error}</Text>}
+        {format === 'backup' ? (
+          <Pressable
+            onPress={handleChooseFile}
+            style={({ pressed }) => [styles.button, { backgroundColor: colors.tint, opacity: pressed ? 0.7 : 1 }]}
+            accessibilityRole="button"
+            testID="import-choose-backup"
+          >
+            <Text style={styles.buttonText}>{t('importExport.chooseBackupFile')}</Text>
+          </Pressable>
+        ) : (
+          <>
+            <Pressable
+              onPress={handleImport}
+              disabled={!text.trim()}
+              style={({ pressed }) => [
+                styles.button,
+                { backgroundColor: colors.tint, opacity: !text.trim() ? 0.5 : pressed ? 0.7 : 1 },
+              ]}
+              accessibilityRole="button"
+              testID="import-start"
+            >
+              <Text style={styles.buttonText}>{t('importExport.import')}</Text>
+            </Pressable>
+            <Pressable
+              onPress={handleChooseFile}
+              accessibilityRole="button"
+              style={styles.textButton}
+              testID="import-choose-file"
+            >
+              <Text style={[styles.textButtonLabel, { color: colors.tint }]}>{t('importExport.chooseFile')}</Text>
+            </Pressable>
+          </>
+        )}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]} testID="import-export-screen">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable
+          onPress={() => router.back()}
+          style={styles.backButton}
+          accessibilityLabel={t('accessibility.backButton')}
+          accessibilityRole="button"
+        >
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.text }]} numberOfLines={1}>
+          {t('settings.importExport')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {renderContent()}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingTop: Spacing.xl,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    minWidth: ComponentTokens.touchTarget.min,
+    minHeight: ComponentTokens.touchTarget.min,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: Typography.sizes.lg,
+    fontWeight: Typography.weights.semibold,
+  },
+  headerSpacer: {
+    width: ComponentTokens.touchTarget.min,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.md,
+    padding: Spacing.lg,
+  },
+  sectionTitle: {
+    fontSize: Typography.sizes.lg,
+    fontWeight: Typography.weights.semibold,
+    marginTop: Spacing.md,
+  },
+  body: {
+    fontSize: Typography.sizes.sm,
+    textAlign: 'left',
+  },
+  reviewHeader: {
+    marginBottom: Spacing.sm,
+  },
+  exportGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  exportButton: {
+    flexBasis: '48%',
+    flexGrow: 1,
+    minHeight: ComponentTokens.touchTarget.min,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+  },
+  exportButtonText: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  chipText: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+  },
+  input: {
+    minHeight: 160,
+    maxHeight: 280,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    fontSize: Typography.sizes.sm,
+  },
+  errorText: {
+    fontSize: Typography.sizes.sm,
+  },
+  footer: {
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  button: {
+    minHeight: ComponentTokens.touchTarget.min,
+    paddingHorizontal: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+    alignSelf: 'stretch',
+  },
+  buttonText: {
+    color: SOLID_COLORS.WHITE,
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.semibold,
+  },
+  textButton: {
+    minHeight: ComponentTokens.touchTarget.min,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  textButtonLabel: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.medium,
+  },
+});
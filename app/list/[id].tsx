@@ -0,0 +1,175 @@
+/**
+ * List Screen
+ * Displays the titles in a custom list (or the watchlist) as a grid
+ */
+
+import { useCallback, useEffect } from 'react';
+import { StyleSheet, View, Text, FlatList, Pressable, RefreshControl } from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography } from '@/constants/theme';
+import { ComponentTokens } from '@/constants/colors';
+import { PROFILE_GRID } from '@/constants/profile';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { WatchlistCard } from '@/components/profile';
+import { useListsStore } from '@/stores/listsStore';
+import { useWatchProgressStore } from '@/stores/watchProgressStore';
+import { getSeriesProgress } from '@/utils/watch-progress';
+import { isDefaultList } from '@/utils/custom-lists';
+import type { WatchlistItem } from '@/types/watchlist';
+
+export default function ListScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const listId = id || '';
+
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+
+  // Stores
+  const { lists, isLoading, loadLists, removeFromList } = useListsStore();
+  const { items: progressItems } = useWatchProgressStore();
+
+  const list = lists.find(l => l.id === listId);
+
+  // Load lists when opened directly
+  useEffect(() => {
+    if (lists.length === 0) {
+      loadLists();
+    }
+  }, [lists.length, loadLists]);
+
+  const handleItemPress = useCallback((item: WatchlistItem) => {
+    if (item.mediaType === 'movie') {
+      router.push(`/movie/${item.id}` as any);
+    } else {
+      router.push(`/web-series/${item.id}` as any);
+    }
+  }, []);
+
+  const renderItem = useCallback(({ item }: { item: WatchlistItem }) => (
+    <WatchlistCard
+      item={item}
+      listName={list?.name}
+      onPress={() => handleItemPress(item)}
+      onRemove={() => removeFromList(listId, item.id, item.mediaType)}
+      showStatus={isDefaultList(listId)}
+      progress={
+        item.mediaType === 'tv'
+          ? getSeriesProgress(progressItems.find(p => p.id === item.id))
+          : undefined
+      }
+    />
+  ), [list?.name, listId, handleItemPress, removeFromList, progressItems]);
+
+  const keyExtractor = useCallback((item: WatchlistItem) =>
+    `${item.mediaType}-${item.id}`, []);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]} testID="list-screen">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable
+          onPress={() => router.back()}
+          style={styles.backButton}
+          accessibilityLabel={t('accessibility.backButton')}
+          accessibilityRole="button"
+        >
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.text }]} numberOfLines={1}>
+          {list?.name ?? t('lists.list')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {!list ? (
+        !isLoading && (
+          <EmptyState
+            title={t('lists.notFound')}
+            message={t('lists.notFoundMessage')}
+            icon="albums-outline"
+            testID="list-not-found"
+          />
+        )
+      ) : list.items.length === 0 ? (
+        <EmptyState
+          title={t('lists.emptyTitle')}
+          message={t('lists.emptyMessage')}
+          icon="albums-outline"
+          actionText={t('watchlist.browseContent')}
+          onAction={() => router.push('/(tabs)/browse' as any)}
+          testID="list-empty"
+        />
+      ) : (
+        <FlatList
+          data={list.items}
+          renderItem={renderItem}
+          keyExtractor={keyExtractor}
+          numColumns={PROFILE_GRID.NUM_COLUMNS}
+          contentContainerStyle={styles.listContent}
+          columnWrapperStyle={styles.columnWrapper}
+          showsVerticalScrollIndicator={false}
+          ListHeaderComponent={
+            <Text style={[styles.itemCount, { color: colors.textSecondary }]}>
+              {t('watchlist.titleCount', { count: list.items.length })}
+            </Text>
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={isLoading}
+              onRefresh={loadLists}
+              tintColor={colors.tint}
+            />
+          }
+          testID="list-grid"
+          accessibilityLabel={t('lists.gridLabel', { count: list.items.length, list: list.name })}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingTop: Spacing.xl,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    minWidth: ComponentTokens.touchTarget.min,
+    minHeight: ComponentTokens.touchTarget.min,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: Typography.sizes.lg,
+    fontWeight: Typography.weights.semibold,
+  },
+  headerSpacer: {
+    width: ComponentTokens.touchTarget.min,
+  },
+  itemCount: {
+    fontSize: Typography.sizes.sm,
+    paddingVertical: Spacing.sm,
+  },
+  listContent: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+  columnWrapper: {
+    gap: PROFILE_GRID.CARD_SPACING,
+    marginBottom: Spacing.md,
+  },
+});
@@ -3,14 +3,17 @@ import { StyleSheet } from 'react-native';
 
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing } from '@/constants/theme';
 
 export default function ModalScreen() {
+  const { t } = useLocalization();
+
   return (
     <ThemedView style={styles.container}>
-      <ThemedText type="title">This is a modal</ThemedText>
+      <ThemedText type="title">{t('modal.title')}</ThemedText>
       <Link href="/" dismissTo style={styles.link}>
-        <ThemedText type="link">Go to home screen</ThemedText>
+        <ThemedText type="link">{t('modal.goHome')}</ThemedText>
       </Link>
     </ThemedView>
   );
@@ -6,7 +6,7 @@
  * Requirements: 4.2, 7.2, 8.1, 17.1, 17.6
  */
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -22,11 +22,13 @@ import Animated, {
 } from 'react-native-reanimated';
 
 import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS, ComponentTokens } from '@/constants/colors';
 import { COMPONENT_TEST_IDS } from '@/constants/test-ids';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { ErrorState } from '@/components/ui/ErrorState';
+import { getErrorConfig, getErrorTypeFromError, type ErrorType } from '@/components/ui/error-state-utils';
 import { DetailPageSkeleton } from '@/components/ui/Skeleton';
 import {
   DetailHeader,
@@ -39,7 +41,11 @@ import {
   RatingsSection,
   GenreTags,
   ProductionInfo,
+  WatchlistStatusPicker,
+  RatingEditorModal,
 } from '@/components/detail';
+import { ListPickerSheet } from '@/components/lists';
+import { LogWatchModal } from '@/components/diary';
 import {
   getMovieDetails,
   getMovieCredits,
@@ -49,6 +55,13 @@ import {
 } from '@/services/api';
 import { useWatchlistStore } from '@/stores/watchlistStore';
 import { useRecentlyViewedStore } from '@/stores/recentlyViewedStore';
+import { useListsStore } from '@/stores/listsStore';
+import { useRatingsStore } from '@/stores/ratingsStore';
+import { useDiaryStore } from '@/stores/diaryStore';
+import { DEFAULT_LIST_ID } from '@/types/lists';
+import type { WatchlistStatus } from '@/types/watchlist';
+import type { UserRatingInput } from '@/types/ratings';
+import type { DiaryEntryInput } from '@/types/diary';
 import type { MediaDetails, CastMember, StreamingProvider, MediaItem, Genre } from '@/types/media';
 
 const AnimatedScrollView = Animated.createAnimatedComponent(ScrollView);
@@ -59,6 +72,7 @@ export default function MovieDetailScreen() {
   
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
+  const { t } = useLocalization();
 
   // State
   const [details, setDetails] = useState<MediaDetails | null>(null);
@@ -69,10 +83,17 @@ export default function MovieDetailScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorType, setErrorType] = useState<ErrorType>('unknown');
+  const [isListPickerVisible, setListPickerVisible] = useState(false);
+  const [isRatingEditorVisible, setRatingEditorVisible] = useState(false);
+  const [isLogWatchVisible, setLogWatchVisible] = useState(false);
 
   // Stores
-  const { isInWatchlist, toggleItem } = useWatchlistStore();
+  const { isInWatchlist, toggleItem, getStatus, setStatus } = useWatchlistStore();
   const { addItem: addToRecentlyViewed } = useRecentlyViewedStore();
+  const { lists, loadLists, isInList, toggleInList, createList, addToList } = useListsStore();
+  const { loadRatings, getRating, saveRating } = useRatingsStore();
+  const { loadDiary, logWatch, getEntriesForTitle } = useDiaryStore();
 
   // Animation
   const scrollY = useSharedValue(0);
@@ -84,6 +105,27 @@ export default function MovieDetailScreen() {
 
   // Check if in watchlist
   const inWatchlist = details ? isInWatchlist(details.id, 'movie') : false;
+  const watchlistStatus = details ? getStatus(details.id, 'movie') : null;
+
+  // Lists containing this title (the watchlist counts as a list in the picker)
+  const selectedListIds = details
+    ? lists.filter(list => isInList(list.id, details.id, 'movie')).map(list => list.id)
+    : [];
+  const customListCount = selectedListIds.filter(listId => listId !== DEFAULT_LIST_ID).length;
+
+  const listItem = useMemo(() => details && {
+    id: details.id,
+    mediaType: 'movie' as const,
+    title: details.title,
+    posterPath: details.posterPath,
+    imdbId: details.imdbId ?? null,
+  }, [details]);
+
+  // Personal rating and note
+  const userRating = details ? getRating(details.id, 'movie') : undefined;
+
+  // Diary entries for this title
+  const diaryEntries = details ? getEntriesForTitle(details.id, 'movie') : [];
 
   // Fetch movie data
   const fetchMovieData = useCallback(async (showRefresh = false) => {
@@ -118,8 +160,10 @@ export default function MovieDetailScreen() {
         mediaType: 'movie',
         title: movieDetails.title,
         posterPath: movieDetails.posterPath,
+        imdbId: movieDetails.imdbId ?? null,
       });
     } catch (err) {
+      setErrorType(getErrorTypeFromError(err));
       setError(err instanceof Error ? err.message : 'Failed to load movie details');
     } finally {
       setIsLoading(false);
@@ -141,9 +185,58 @@ export default function MovieDetailScreen() {
       mediaType: 'movie',
       title: details.title,
       posterPath: details.posterPath,
+      imdbId: details.imdbId ?? null,
     });
   }, [details, toggleItem]);
 
+  // Handle watchlist status change
+  const handleStatusChange = useCallback(async (status: WatchlistStatus) => {
+    if (!details) return;
+    await setStatus(details.id, 'movie', status);
+  }, [details, setStatus]);
+
+  // Load lists for the picker
+  useEffect(() => {
+    loadLists();
+  }, [loadLists]);
+
+  // Load personal ratings
+  useEffect(() => {
+    loadRatings();
+  }, [loadRatings]);
+
+  // Load the diary for watch counts and rewatch suggestions
+  useEffect(() => {
+    loadDiary();
+  }, [loadDiary]);
+
+  // Save the personal rating and note from the editor
+  const handleRatingSubmit = useCallback(async (input: UserRatingInput) => {
+    if (!listItem) return;
+    await saveRating(listItem, input);
+  }, [listItem, saveRating]);
+
+  // Log a watch to the diary
+  const handleLogWatch = useCallback(async (input: DiaryEntryInput) => {
+    if (!listItem) return;
+    await logWatch(listItem, input);
+  }, [listItem, logWatch]);
+
+  // Handle list toggle from the picker
+  const handleListToggle = useCallback(async (listId: string) => {
+    if (!listItem) return;
+    await toggleInList(listId, listItem);
+  }, [listItem, toggleInList]);
+
+  // Create a list from the picker and add this title to it
+  const handleCreateList = useCallback(async (name: string) => {
+    if (!listItem) return;
+    const listId = await createList(name);
+    if (listId) {
+      await addToList(listId, listItem);
+    }
+  }, [listItem, createList, addToList]);
+
   // Handle play trailer
   const handlePlayTrailer = useCallback(() => {
     if (trailerKey) {
@@ -160,6 +253,11 @@ export default function MovieDetailScreen() {
     }
   }, []);
 
+  // Handle cast member press
+  const handleCastPress = useCallback((member: CastMember) => {
+    router.push(`/person/${member.id}` as any);
+  }, []);
+
   // Handle genre press
   const handleGenrePress = useCallback((genre: Genre) => {
     // Navigate to search with genre filter
@@ -189,17 +287,18 @@ export default function MovieDetailScreen() {
           <Pressable
             onPress={() => router.back()}
             style={styles.backButton}
-            accessibilityLabel="Go back"
+            accessibilityLabel={t('accessibility.backButton')}
             accessibilityRole="button"
           >
             <IconSymbol name="chevron.left" size={24} color={colors.text} />
           </Pressable>
-          <Text style={[styles.headerTitle, { color: colors.text }]}>Movie Details</Text>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>{t('detail.movieDetails')}</Text>
           <View style={styles.headerSpacer} />
         </View>
         <ErrorState
-          message={error || 'Movie not found'}
-          onRetry={handleRetry}
+          title={getErrorConfig(errorType).title}
+          message={errorType === 'unknown' ? error || t('detail.movieNotFound') : getErrorConfig(errorType).message}
+          onRetry={getErrorConfig(errorType).canRetry ? handleRetry : undefined}
         />
       </View>
     );
@@ -212,7 +311,7 @@ export default function MovieDetailScreen() {
         <Pressable
           onPress={() => router.back()}
           style={[styles.backButton, styles.headerButton, { backgroundColor: OVERLAY_COLORS.BLACK_50 }]}
-          accessibilityLabel="Go back"
+          accessibilityLabel={t('accessibility.backButton')}
           accessibilityRole="button"
         >
           <IconSymbol name="chevron.left" size={24} color={SOLID_COLORS.WHITE} />
@@ -248,9 +347,22 @@ export default function MovieDetailScreen() {
           isInWatchlist={inWatchlist}
           canDownload={providers.length > 0}
           onWatchlistPress={handleWatchlistToggle}
+          listCount={customListCount}
+          onListsPress={() => setListPickerVisible(true)}
+          watchCount={diaryEntries.length}
+          onLogPress={() => setLogWatchVisible(true)}
           testID="movie-quick-actions"
         />
 
+        {/* Watchlist Status */}
+        {watchlistStatus && (
+          <WatchlistStatusPicker
+            status={watchlistStatus}
+            onStatusChange={handleStatusChange}
+            testID="movie-watchlist-status"
+          />
+        )}
+
         {/* Genre Tags */}
         <GenreTags
           genres={details.genres}
@@ -270,6 +382,8 @@ export default function MovieDetailScreen() {
         <RatingsSection
           voteAverage={details.voteAverage}
           voteCount={details.voteCount}
+          userRating={userRating}
+          onRatePress={() => setRatingEditorVisible(true)}
           testID="movie-ratings"
         />
 
@@ -282,6 +396,7 @@ export default function MovieDetailScreen() {
         {/* Cast Carousel */}
         <CastCarousel
           cast={cast}
+          onMemberPress={handleCastPress}
           testID="movie-cast"
         />
 
@@ -307,6 +422,34 @@ export default function MovieDetailScreen() {
         {/* Bottom padding */}
         <View style={styles.bottomPadding} />
       </AnimatedScrollView>
+
+      <ListPickerSheet
+        visible={isListPickerVisible}
+        title={details.title}
+        lists={lists}
+        selectedListIds={selectedListIds}
+        onToggleList={handleListToggle}
+        onCreateList={handleCreateList}
+        onClose={() => setListPickerVisible(false)}
+        testID="movie-list-picker"
+      />
+
+      <RatingEditorModal
+        visible={isRatingEditorVisible}
+        title={details.title}
+        userRating={userRating}
+        onSubmit={handleRatingSubmit}
+        onClose={() => setRatingEditorVisible(false)}
+      />
+
+      <LogWatchModal
+        visible={isLogWatchVisible}
+        title={details.title}
+        mediaType="movie"
+        suggestRewatch={diaryEntries.length > 0}
+        onSubmit={handleLogWatch}
+        onClose={() => setLogWatchVisible(false)}
+      />
     </View>
   );
 }
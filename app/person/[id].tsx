@@ -0,0 +1,258 @@
+/**
+ * Person Screen
+ * Displays an actor's or director's biography, best-known titles and a
+ * sortable filmography with watchlist toggles
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+  StyleSheet,
+  View,
+  ScrollView,
+  Pressable,
+  Text,
+  RefreshControl,
+} from 'react-native';
+import { useLocalSearchParams, router } from 'expo-router';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography } from '@/constants/theme';
+import { ComponentTokens } from '@/constants/colors';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { ErrorState } from '@/components/ui/ErrorState';
+import { getErrorConfig, getErrorTypeFromError, type ErrorType } from '@/components/ui/error-state-utils';
+import { DetailPageSkeleton } from '@/components/ui/Skeleton';
+import { Synopsis, RecommendationsRow } from '@/components/detail';
+import {
+  PersonHeader,
+  FilmographyList,
+  getKnownForCredits,
+  mergePersonCredits,
+  sortFilmography,
+  type FilmographySort,
+} from '@/components/person';
+import { getPersonDetails, getPersonCredits } from '@/services/api';
+import { useWatchlistStore } from '@/stores/watchlistStore';
+import type { PersonDetails, PersonCredit } from '@/types/media';
+
+export default function PersonScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const personId = parseInt(id || '0', 10);
+
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+
+  // State
+  const [person, setPerson] = useState<PersonDetails | null>(null);
+  const [credits, setCredits] = useState<PersonCredit[]>([]);
+  const [sort, setSort] = useState<FilmographySort>('newest');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [errorType, setErrorType] = useState<ErrorType>('unknown');
+
+  // Stores
+  const { isInWatchlist, toggleItem } = useWatchlistStore();
+
+  const knownFor = useMemo(
+    () => getKnownForCredits(credits, person?.knownForDepartment),
+    [credits, person?.knownForDepartment]
+  );
+  const filmography = useMemo(
+    () => sortFilmography(mergePersonCredits(credits), sort),
+    [credits, sort]
+  );
+
+  // Fetch person data
+  const fetchPersonData = useCallback(async (showRefresh = false) => {
+    if (!personId) return;
+
+    if (showRefresh) {
+      setIsRefreshing(true);
+    } else {
+      setIsLoading(true);
+    }
+    setError(null);
+
+    try {
+      const [personDetails, personCredits] = await Promise.all([
+        getPersonDetails(personId),
+        getPersonCredits(personId).catch(() => []),
+      ]);
+
+      // Some providers report missing people as null rather than throwing
+      if (!personDetails) {
+        throw new Error('Person not found');
+      }
+
+      setPerson(personDetails);
+      setCredits(personCredits);
+    } catch (err) {
+      setErrorType(getErrorTypeFromError(err));
+      setError(err instanceof Error ? err.message : 'Failed to load person details');
+    } finally {
+      setIsLoading(false);
+      setIsRefreshing(false);
+    }
+  }, [personId]);
+
+  // Initial fetch
+  useEffect(() => {
+    fetchPersonData();
+  }, [fetchPersonData]);
+
+  // Handle watchlist toggle for a credit
+  const handleWatchlistToggle = useCallback(async (credit: PersonCredit) => {
+    await toggleItem({
+      id: credit.id,
+      mediaType: credit.mediaType,
+      title: credit.title,
+      posterPath: credit.posterPath,
+    });
+  }, [toggleItem]);
+
+  // Handle title press
+  const handleItemPress = useCallback((itemId: number, mediaType: 'movie' | 'tv') => {
+    if (mediaType === 'movie') {
+      router.push(`/movie/${itemId}` as any);
+    } else {
+      router.push(`/web-series/${itemId}` as any);
+    }
+  }, []);
+
+  // Handle refresh
+  const handleRefresh = useCallback(() => {
+    fetchPersonData(true);
+  }, [fetchPersonData]);
+
+  // Handle retry
+  const handleRetry = useCallback(() => {
+    fetchPersonData();
+  }, [fetchPersonData]);
+
+  // Loading state
+  if (isLoading) {
+    return <DetailPageSkeleton />;
+  }
+
+  const header = (
+    <View style={[styles.header, { borderBottomColor: colors.border }]}>
+      <Pressable
+        onPress={() => router.back()}
+        style={styles.backButton}
+        accessibilityLabel={t('accessibility.backButton')}
+        accessibilityRole="button"
+      >
+        <IconSymbol name="chevron.left" size={24} color={colors.text} />
+      </Pressable>
+      <Text style={[styles.headerTitle, { color: colors.text }]} numberOfLines={1}>
+        {person?.name ?? t('person.person')}
+      </Text>
+      <View style={styles.headerSpacer} />
+    </View>
+  );
+
+  // Error state
+  if (error || !person) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        {header}
+        <ErrorState
+          title={getErrorConfig(errorType).title}
+          message={errorType === 'unknown' ? error || t('person.notFound') : getErrorConfig(errorType).message}
+          onRetry={getErrorConfig(errorType).canRetry ? handleRetry : undefined}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      {header}
+
+      <ScrollView
+        style={styles.scrollView}
+        refreshControl={
+          <RefreshControl
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.tint}
+          />
+        }
+      >
+        <PersonHeader
+          person={person}
+          creditCount={filmography.length}
+          testID="person-header"
+        />
+
+        {/* Biography */}
+        <Synopsis
+          overview={person.biography}
+          title={t('person.biography')}
+          testID="person-biography"
+        />
+
+        {/* Known For */}
+        <RecommendationsRow
+          recommendations={knownFor}
+          onItemPress={handleItemPress}
+          title={t('person.knownFor')}
+          testID="person-known-for"
+        />
+
+        {/* Filmography */}
+        <FilmographyList
+          entries={filmography}
+          sort={sort}
+          onSortChange={setSort}
+          isInWatchlist={isInWatchlist}
+          onWatchlistToggle={handleWatchlistToggle}
+          onItemPress={handleItemPress}
+          testID="person-filmography"
+        />
+
+        {/* Bottom padding */}
+        <View style={styles.bottomPadding} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingTop: Spacing.xl,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    minWidth: ComponentTokens.touchTarget.min,
+    minHeight: ComponentTokens.touchTarget.min,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: Typography.sizes.lg,
+    fontWeight: Typography.weights.semibold,
+  },
+  headerSpacer: {
+    width: ComponentTokens.touchTarget.min,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  bottomPadding: {
+    height: Spacing.xxl,
+  },
+});
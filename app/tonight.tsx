@@ -0,0 +1,326 @@
+/**
+ * Tonight Picker Screen
+ * "What should I watch tonight?": picks a title from the watchlist and
+ * recommendations that fits the time available, mood, media type and
+ * streaming services
+ */
+
+import { useCallback, useEffect } from 'react';
+import {
+  StyleSheet,
+  View,
+  Text,
+  ScrollView,
+  Pressable,
+  ActivityIndicator,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { ComponentTokens, SOLID_COLORS } from '@/constants/colors';
+import { PICKER_CONFIG, PICKER_MEDIA_OPTIONS, PICKER_MOODS, PICKER_TIME_OPTIONS } from '@/constants/picker';
+import { IconSymbol } from '@/components/ui/icon-symbol';
+import { PickCard } from '@/components/picker';
+import { usePickerStore } from '@/stores/pickerStore';
+import { useWatchlistStore } from '@/stores/watchlistStore';
+import { usePreferencesStore } from '@/stores/preferencesStore';
+import { describeStreamingServices } from '@/utils/streaming-services';
+
+/** Constraint chip */
+function Chip({ label, icon, isSelected, onPress, testID }: {
+  label: string;
+  icon?: keyof typeof Ionicons.glyphMap;
+  isSelected: boolean;
+  onPress: () => void;
+  testID?: string;
+}) {
+  const colors = Colors[useEffectiveColorScheme()];
+  const contentColor = isSelected ? SOLID_COLORS.WHITE : colors.text;
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.chip,
+        {
+          backgroundColor: isSelected ? colors.tint : colors.backgroundSecondary,
+          borderColor: isSelected ? colors.tint : colors.border,
+          opacity: pressed ? 0.8 : 1,
+        },
+      ]}
+      accessibilityRole="button"
+      accessibilityState={{ selected: isSelected }}
+      testID={testID}
+    >
+      {icon && <Ionicons name={icon} size={14} color={contentColor} />}
+      <Text style={[styles.chipText, { color: contentColor }]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+export default function TonightScreen() {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+
+  const {
+    constraints,
+    current,
+    history,
+    hasNoMatch,
+    isLoading,
+    error,
+    loadPicker,
+    setConstraints,
+    pick,
+    clearHistory,
+    reset,
+  } = usePickerStore();
+  const { loadWatchlist } = useWatchlistStore();
+  const streamingServices = usePreferencesStore(state => state.preferences.streamingServices);
+
+  useEffect(() => {
+    loadWatchlist().then(loadPicker);
+  }, [loadWatchlist, loadPicker]);
+
+  // Start over when leaving the screen
+  useEffect(() => reset, [reset]);
+
+  const handleOpen = useCallback(() => {
+    if (!current) return;
+    router.push((current.mediaType === 'movie' ? `/movie/${current.id}` : `/web-series/${current.id}`) as any);
+  }, [current]);
+
+  const renderSection = (title: string, children: React.ReactNode) => (
+    <View style={styles.section}>
+      <Text style={[styles.sectionTitle, { color: colors.textSecondary }]}>{title}</Text>
+      <View style={styles.chipRow}>{children}</View>
+    </View>
+  );
+
+  const renderResult = () => {
+    if (isLoading) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={colors.tint} />
+          <Text style={[styles.body, { color: colors.textSecondary }]}>{t('picker.loading')}</Text>
+        </View>
+      );
+    }
+
+    if (current) {
+      return <PickCard candidate={current} onOpen={handleOpen} onReject={pick} testID="picker-result" />;
+    }
+
+    return (
+      <View style={styles.centered}>
+        {hasNoMatch && (
+          <Text style={[styles.body, { color: colors.textSecondary }]} testID="picker-no-match">
+            {history.length > 0
+              ? t('picker.noMatchWithHistory', { count: history.length })
+              : t('picker.noMatch')}
+          </Text>
+        )}
+        <Pressable
+          onPress={pick}
+          style={({ pressed }) => [styles.button, { backgroundColor: colors.tint, opacity: pressed ? 0.7 : 1 }]}
+          accessibilityRole="button"
+          testID="picker-pick"
+        >
+          <Ionicons name="dice-outline" size={20} color={SOLID_COLORS.WHITE} />
+          <Text style={styles.buttonText}>{t('picker.pickForMe')}</Text>
+        </Pressable>
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]} testID="tonight-screen">
+      <View style={[styles.header, { borderBottomColor: colors.border }]}>
+        <Pressable
+          onPress={() => router.back()}
+          style={styles.backButton}
+          accessibilityLabel={t('accessibility.backButton')}
+          accessibilityRole="button"
+        >
+          <IconSymbol name="chevron.left" size={24} color={colors.text} />
+        </Pressable>
+        <Text style={[styles.headerTitle, { color: colors.text }]} numberOfLines={1}>
+          {t('picker.screenTitle')}
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {renderSection(t('picker.sections.time'), PICKER_TIME_OPTIONS.map(option => (
+          <Chip
+            key={option.value ?? 'any'}
+            label={t(option.labelKey)}
+            isSelected={constraints.minutesAvailable === option.value}
+            onPress={() => setConstraints({ minutesAvailable: option.value })}
+            testID={`picker-time-${option.value ?? 'any'}`}
+          />
+        )))}
+        {renderSection(t('picker.sections.mood'), [
+          <Chip
+            key="any"
+            label={t('picker.anything')}
+            isSelected={constraints.moodId === null}
+            onPress={() => setConstraints({ moodId: null })}
+            testID="picker-mood-any"
+          />,
+          ...PICKER_MOODS.map(mood => (
+            <Chip
+              key={mood.id}
+              label={t(mood.labelKey)}
+              icon={mood.icon}
+              isSelected={constraints.moodId === mood.id}
+              onPress={() => setConstraints({ moodId: mood.id })}
+              testID={`picker-mood-${mood.id}`}
+            />
+          )),
+        ])}
+        {renderSection(t('picker.sections.type'), PICKER_MEDIA_OPTIONS.map(option => (
+          <Chip
+            key={option.value}
+            label={t(option.labelKey)}
+            isSelected={constraints.mediaType === option.value}
+            onPress={() => setConstraints({ mediaType: option.value })}
+            testID={`picker-type-${option.value}`}
+          />
+        )))}
+        {renderSection(t('picker.sections.streaming'), (
+          <Chip
+            label={t('picker.onlyOnMyServices')}
+            icon="tv-outline"
+            isSelected={constraints.onMyServices}
+            onPress={() => setConstraints({ onMyServices: !constraints.onMyServices })}
+            testID="picker-services"
+          />
+        ))}
+        {constraints.onMyServices && (
+          <Text style={[styles.hint, { color: colors.textSecondary }]} testID="picker-services-hint">
+            {t('picker.servicesHint', { services: describeStreamingServices(streamingServices, Infinity) })}
+          </Text>
+        )}
+
+        {renderResult()}
+
+        {error && <Text style={[styles.body, { color: colors.error }]}>{error}</Text>}
+
+        {history.length > 0 && (
+          <Pressable
+            onPress={clearHistory}
+            style={styles.textButton}
+            accessibilityRole="button"
+            accessibilityHint={t('picker.startOverHint', { count: PICKER_CONFIG.HISTORY_DAYS })}
+            testID="picker-clear-history"
+          >
+            <Text style={[styles.textButtonLabel, { color: colors.tint }]}>
+              {t('picker.startOver', { count: history.length })}
+            </Text>
+          </Pressable>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingTop: Spacing.xl,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    minWidth: ComponentTokens.touchTarget.min,
+    minHeight: ComponentTokens.touchTarget.min,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: Typography.sizes.lg,
+    fontWeight: Typography.weights.semibold,
+  },
+  headerSpacer: {
+    width: ComponentTokens.touchTarget.min,
+  },
+  content: {
+    padding: Spacing.md,
+    paddingBottom: Spacing.xl,
+    gap: Spacing.md,
+  },
+  section: {
+    gap: Spacing.xs,
+  },
+  sectionTitle: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.semibold,
+    textTransform: 'uppercase',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    minHeight: 32,
+  },
+  chipText: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+  },
+  hint: {
+    fontSize: Typography.sizes.xs,
+  },
+  centered: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.md,
+    padding: Spacing.lg,
+  },
+  body: {
+    fontSize: Typography.sizes.sm,
+    textAlign: 'center',
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.xl,
+    borderRadius: BorderRadius.full,
+    minHeight: 44,
+  },
+  buttonText: {
+    color: SOLID_COLORS.WHITE,
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.semibold,
+  },
+  textButton: {
+    alignSelf: 'center',
+    padding: Spacing.sm,
+  },
+  textButtonLabel: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+  },
+});
@@ -6,7 +6,7 @@
  * Requirements: 4.2
  */
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -22,10 +22,12 @@ import Animated, {
 } from 'react-native-reanimated';
 
 import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS, ComponentTokens } from '@/constants/colors';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { ErrorState } from '@/components/ui/ErrorState';
+import { getErrorConfig, getErrorTypeFromError, type ErrorType } from '@/components/ui/error-state-utils';
 import { DetailPageSkeleton } from '@/components/ui/Skeleton';
 import {
   DetailHeader,
@@ -38,8 +40,12 @@ import {
   RatingsSection,
   GenreTags,
   ProductionInfo,
+  WatchlistStatusPicker,
   SeasonsSection,
+  RatingEditorModal,
 } from '@/components/detail';
+import { ListPickerSheet } from '@/components/lists';
+import { LogWatchModal } from '@/components/diary';
 import {
   getTvDetails,
   getTvCredits,
@@ -49,6 +55,17 @@ import {
 } from '@/services/api';
 import { useWatchlistStore } from '@/stores/watchlistStore';
 import { useRecentlyViewedStore } from '@/stores/recentlyViewedStore';
+import { useListsStore } from '@/stores/listsStore';
+import { useRatingsStore } from '@/stores/ratingsStore';
+import { useDiaryStore } from '@/stores/diaryStore';
+import { useWatchProgressStore } from '@/stores/watchProgressStore';
+import { toSeriesProgressInfo } from '@/utils/watch-progress';
+import { hasDiaryEntry } from '@/utils/diary';
+import type { EpisodeRef } from '@/types/progress';
+import { DEFAULT_LIST_ID } from '@/types/lists';
+import type { WatchlistStatus } from '@/types/watchlist';
+import type { UserRatingInput } from '@/types/ratings';
+import type { DiaryEntryInput } from '@/types/diary';
 import type { MediaDetails, CastMember, StreamingProvider, MediaItem, Genre } from '@/types/media';
 
 const AnimatedScrollView = Animated.createAnimatedComponent(ScrollView);
@@ -59,6 +76,7 @@ export default function WebSeriesDetailScreen() {
   
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
+  const { t } = useLocalization();
 
   // State
   const [details, setDetails] = useState<MediaDetails | null>(null);
@@ -69,10 +87,18 @@ export default function WebSeriesDetailScreen() {
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorType, setErrorType] = useState<ErrorType>('unknown');
+  const [isListPickerVisible, setListPickerVisible] = useState(false);
+  const [isRatingEditorVisible, setRatingEditorVisible] = useState(false);
+  const [isLogWatchVisible, setLogWatchVisible] = useState(false);
 
   // Stores
-  const { isInWatchlist, toggleItem } = useWatchlistStore();
+  const { isInWatchlist, toggleItem, getStatus, setStatus } = useWatchlistStore();
   const { addItem: addToRecentlyViewed } = useRecentlyViewedStore();
+  const { lists, loadLists, isInList, toggleInList, createList, addToList } = useListsStore();
+  const { loadRatings, getRating, saveRating } = useRatingsStore();
+  const { loadDiary, logWatch, getEntriesForTitle } = useDiaryStore();
+  const { getProgress, getNextEpisode, markEpisodeWatched } = useWatchProgressStore();
 
   // Animation
   const scrollY = useSharedValue(0);
@@ -84,6 +110,31 @@ export default function WebSeriesDetailScreen() {
 
   // Check if in watchlist
   const inWatchlist = details ? isInWatchlist(details.id, 'tv') : false;
+  const watchlistStatus = details ? getStatus(details.id, 'tv') : null;
+
+  // Lists containing this title (the watchlist counts as a list in the picker)
+  const selectedListIds = details
+    ? lists.filter(list => isInList(list.id, details.id, 'tv')).map(list => list.id)
+    : [];
+  const customListCount = selectedListIds.filter(listId => listId !== DEFAULT_LIST_ID).length;
+
+  const listItem = useMemo(() => details && {
+    id: details.id,
+    mediaType: 'tv' as const,
+    title: details.title,
+    posterPath: details.posterPath,
+    imdbId: details.imdbId ?? null,
+  }, [details]);
+
+  // Personal rating and note
+  const userRating = details ? getRating(details.id, 'tv') : undefined;
+
+  // Diary entries for this title
+  const diaryEntries = details ? getEntriesForTitle(details.id, 'tv') : [];
+
+  // Episode watch progress
+  const progress = getProgress(seriesId);
+  const nextEpisode = getNextEpisode(seriesId);
 
   // Fetch web series data
   const fetchSeriesData = useCallback(async (showRefresh = false) => {
@@ -118,8 +169,10 @@ export default function WebSeriesDetailScreen() {
         mediaType: 'tv',
         title: seriesDetails.title,
         posterPath: seriesDetails.posterPath,
+        imdbId: seriesDetails.imdbId ?? null,
       });
     } catch (err) {
+      setErrorType(getErrorTypeFromError(err));
       setError(err instanceof Error ? err.message : 'Failed to load web series details');
     } finally {
       setIsLoading(false);
@@ -141,9 +194,65 @@ export default function WebSeriesDetailScreen() {
       mediaType: 'tv',
       title: details.title,
       posterPath: details.posterPath,
+      imdbId: details.imdbId ?? null,
     });
   }, [details, toggleItem]);
 
+  // Handle watchlist status change
+  const handleStatusChange = useCallback(async (status: WatchlistStatus) => {
+    if (!details) return;
+    await setStatus(details.id, 'tv', status);
+  }, [details, setStatus]);
+
+  // Load lists for the picker
+  useEffect(() => {
+    loadLists();
+  }, [loadLists]);
+
+  // Load personal ratings
+  useEffect(() => {
+    loadRatings();
+  }, [loadRatings]);
+
+  // Load the diary for watch counts and rewatch suggestions
+  useEffect(() => {
+    loadDiary();
+  }, [loadDiary]);
+
+  // Save the personal rating and note from the editor
+  const handleRatingSubmit = useCallback(async (input: UserRatingInput) => {
+    if (!listItem) return;
+    await saveRating(listItem, input);
+  }, [listItem, saveRating]);
+
+  // Log a watch to the diary; a logged episode also counts as watched
+  const handleLogWatch = useCallback(async (input: DiaryEntryInput) => {
+    if (!listItem || !details) return;
+    const entry = await logWatch(listItem, input);
+    if (entry?.episode) {
+      await markEpisodeWatched(
+        toSeriesProgressInfo(details),
+        entry.episode.seasonNumber,
+        entry.episode.episodeNumber
+      );
+    }
+  }, [listItem, details, logWatch, markEpisodeWatched]);
+
+  // Handle list toggle from the picker
+  const handleListToggle = useCallback(async (listId: string) => {
+    if (!listItem) return;
+    await toggleInList(listId, listItem);
+  }, [listItem, toggleInList]);
+
+  // Create a list from the picker and add this title to it
+  const handleCreateList = useCallback(async (name: string) => {
+    if (!listItem) return;
+    const listId = await createList(name);
+    if (listId) {
+      await addToList(listId, listItem);
+    }
+  }, [listItem, createList, addToList]);
+
   // Handle play trailer
   const handlePlayTrailer = useCallback(() => {
     if (trailerKey) {
@@ -160,6 +269,11 @@ export default function WebSeriesDetailScreen() {
     }
   }, []);
 
+  // Handle cast member press
+  const handleCastPress = useCallback((member: CastMember) => {
+    router.push(`/person/${member.id}` as any);
+  }, []);
+
   // Handle genre press
   const handleGenrePress = useCallback((genre: Genre) => {
     router.push(`/(tabs)/search?genre=${genre.id}` as any);
@@ -170,6 +284,11 @@ export default function WebSeriesDetailScreen() {
     router.push(`/web-series/${seriesId}/season/${seasonNumber}` as any);
   }, [seriesId]);
 
+  // Handle next episode press - navigate to episode detail page
+  const handleNextEpisodePress = useCallback((episode: EpisodeRef) => {
+    router.push(`/web-series/${seriesId}/season/${episode.seasonNumber}/episode/${episode.episodeNumber}` as any);
+  }, [seriesId]);
+
   // Handle refresh
   const handleRefresh = useCallback(() => {
     fetchSeriesData(true);
@@ -193,17 +312,18 @@ export default function WebSeriesDetailScreen() {
           <Pressable
             onPress={() => router.back()}
             style={styles.backButton}
-            accessibilityLabel="Go back"
+            accessibilityLabel={t('accessibility.backButton')}
             accessibilityRole="button"
           >
             <IconSymbol name="chevron.left" size={24} color={colors.text} />
           </Pressable>
-          <Text style={[styles.headerTitle, { color: colors.text }]}>Web Series Details</Text>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>{t('detail.seriesDetails')}</Text>
           <View style={styles.headerSpacer} />
         </View>
         <ErrorState
-          message={error || 'Web series not found'}
-          onRetry={handleRetry}
+          title={getErrorConfig(errorType).title}
+          message={errorType === 'unknown' ? error || t('detail.seriesNotFound') : getErrorConfig(errorType).message}
+          onRetry={getErrorConfig(errorType).canRetry ? handleRetry : undefined}
         />
       </View>
     );
@@ -216,7 +336,7 @@ export default function WebSeriesDetailScreen() {
         <Pressable
           onPress={() => router.back()}
           style={[styles.backButton, styles.headerButton, { backgroundColor: OVERLAY_COLORS.BLACK_50 }]}
-          accessibilityLabel="Go back"
+          accessibilityLabel={t('accessibility.backButton')}
           accessibilityRole="button"
         >
           <IconSymbol name="chevron.left" size={24} color={SOLID_COLORS.WHITE} />
@@ -252,9 +372,22 @@ export default function WebSeriesDetailScreen() {
           isInWatchlist={inWatchlist}
           canDownload={providers.length > 0}
           onWatchlistPress={handleWatchlistToggle}
+          listCount={customListCount}
+          onListsPress={() => setListPickerVisible(true)}
+          watchCount={diaryEntries.length}
+          onLogPress={() => setLogWatchVisible(true)}
           testID="web-series-quick-actions"
         />
 
+        {/* Watchlist Status */}
+        {watchlistStatus && (
+          <WatchlistStatusPicker
+            status={watchlistStatus}
+            onStatusChange={handleStatusChange}
+            testID="web-series-watchlist-status"
+          />
+        )}
+
         {/* Genre Tags */}
         <GenreTags
           genres={details.genres}
@@ -274,6 +407,8 @@ export default function WebSeriesDetailScreen() {
         <RatingsSection
           voteAverage={details.voteAverage}
           voteCount={details.voteCount}
+          userRating={userRating}
+          onRatePress={() => setRatingEditorVisible(true)}
           testID="web-series-ratings"
         />
 
@@ -281,6 +416,9 @@ export default function WebSeriesDetailScreen() {
         <SeasonsSection
           details={details}
           onSeasonPress={handleSeasonPress}
+          progress={progress}
+          nextEpisode={nextEpisode}
+          onNextEpisodePress={handleNextEpisodePress}
           testID="web-series-seasons"
         />
 
@@ -293,6 +431,7 @@ export default function WebSeriesDetailScreen() {
         {/* Cast Carousel */}
         <CastCarousel
           cast={cast}
+          onMemberPress={handleCastPress}
           testID="web-series-cast"
         />
 
@@ -318,6 +457,35 @@ export default function WebSeriesDetailScreen() {
         {/* Bottom padding */}
         <View style={styles.bottomPadding} />
       </AnimatedScrollView>
+
+      <ListPickerSheet
+        visible={isListPickerVisible}
+        title={details.title}
+        lists={lists}
+        selectedListIds={selectedListIds}
+        onToggleList={handleListToggle}
+        onCreateList={handleCreateList}
+        onClose={() => setListPickerVisible(false)}
+        testID="web-series-list-picker"
+      />
+
+      <RatingEditorModal
+        visible={isRatingEditorVisible}
+        title={details.title}
+        userRating={userRating}
+        onSubmit={handleRatingSubmit}
+        onClose={() => setRatingEditorVisible(false)}
+      />
+
+      <LogWatchModal
+        visible={isLogWatchVisible}
+        title={details.title}
+        mediaType="tv"
+        suggestRewatch={hasDiaryEntry(diaryEntries, details.id, 'tv', nextEpisode)}
+        defaultEpisode={nextEpisode}
+        onSubmit={handleLogWatch}
+        onClose={() => setLogWatchVisible(false)}
+      />
     </View>
   );
 }
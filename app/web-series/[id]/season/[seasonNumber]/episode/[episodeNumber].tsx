@@ -1,6 +1,6 @@
 /**
  * Episode Detail Screen
- * Displays episode information with play option
+ * Displays episode information with play option and watched toggle
  * URL: /web-series/[id]/season/[seasonNumber]/episode/[episodeNumber]
  * 
  * Requirements: 4.2
@@ -18,6 +18,7 @@ import {
 import { useLocalSearchParams, router } from 'expo-router';
 
 import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS, ComponentTokens } from '@/constants/colors';
 import { IconSymbol } from '@/components/ui/icon-symbol';
@@ -30,8 +31,10 @@ import {
   GuestStarsSection,
   EpisodeNavigation,
 } from '@/components/episode';
-import type { EpisodeDetail, CrewMember, GuestStar } from '@/components/episode';
-import { getTvDetails } from '@/services/api';
+import type { EpisodeDetail } from '@/components/episode';
+import { getTvDetails, getEpisodeDetails } from '@/services/api';
+import { useWatchProgressStore } from '@/stores/watchProgressStore';
+import { toSeriesProgressInfo } from '@/utils/watch-progress';
 import type { MediaDetails } from '@/types/media';
 
 export default function EpisodeDetailScreen() {
@@ -46,6 +49,7 @@ export default function EpisodeDetailScreen() {
   
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
+  const { t } = useLocalization();
 
   // State
   const [seriesDetails, setSeriesDetails] = useState<MediaDetails | null>(null);
@@ -54,6 +58,10 @@ export default function EpisodeDetailScreen() {
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Watch progress
+  const { isEpisodeWatched, toggleEpisodeWatched } = useWatchProgressStore();
+  const isWatched = isEpisodeWatched(seriesId, season, episode);
+
   // Fetch episode data
   const fetchEpisodeData = useCallback(async (showRefresh = false) => {
     if (!seriesId || !season || !episode) return;
@@ -66,41 +74,12 @@ export default function EpisodeDetailScreen() {
     setError(null);
 
     try {
-      const details = await getTvDetails(seriesId);
+      const [details, episodeData] = await Promise.all([
+        getTvDetails(seriesId),
+        getEpisodeDetails(seriesId, season, episode),
+      ]);
       setSeriesDetails(details);
-
-      // Generate mock data (in production, call dedicated episode API)
-      const mockCrew: CrewMember[] = [
-        { id: 1, name: 'R. Scott Gemmill', job: 'Director', department: 'Directing', profilePath: details.posterPath },
-        { id: 2, name: 'John Wells', job: 'Executive Producer', department: 'Production', profilePath: null },
-        { id: 3, name: 'David Zabel', job: 'Writer', department: 'Writing', profilePath: null },
-        { id: 4, name: 'Simran Sethi', job: 'Writer', department: 'Writing', profilePath: details.posterPath },
-        { id: 5, name: 'Alex Zakrzewski', job: 'Director of Photography', department: 'Camera', profilePath: null },
-      ];
-
-      const mockGuestStars: GuestStar[] = [
-        { id: 101, name: 'Katherine LaNasa', character: 'Dr. Dana Evans', profilePath: details.posterPath },
-        { id: 102, name: 'Isa Briones', character: 'Dr. Anna Okafor', profilePath: details.posterPath },
-        { id: 103, name: 'Taylor Dearden', character: 'Collins', profilePath: null },
-        { id: 104, name: 'Gerardo Celasco', character: 'Javier Medina', profilePath: details.posterPath },
-        { id: 105, name: 'Shabana Azmi', character: 'Dr. Patel', profilePath: null },
-        { id: 106, name: 'Fiona Gubelmann', character: 'Dr. Morgan Reznick', profilePath: details.posterPath },
-      ];
-
-      setEpisodeDetail({
-        id: season * 100 + episode,
-        episodeNumber: episode,
-        seasonNumber: season,
-        name: `Episode ${episode}`,
-        overview: `This is episode ${episode} of season ${season} of ${details.title}. ${details.overview || 'No description available.'}`,
-        stillPath: details.backdropPath,
-        airDate: details.releaseDate || '',
-        runtime: details.runtime || 45,
-        voteAverage: details.voteAverage || 0,
-        voteCount: details.voteCount || 0,
-        crew: mockCrew,
-        guestStars: mockGuestStars,
-      });
+      setEpisodeDetail(episodeData);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load episode details');
     } finally {
@@ -130,6 +109,15 @@ export default function EpisodeDetailScreen() {
     router.replace(`/web-series/${seriesId}/season/${season}/episode/${episode + 1}` as any);
   }, [seriesId, season, episode]);
 
+  const handleToggleWatched = useCallback(() => {
+    if (!seriesDetails) return;
+    toggleEpisodeWatched(toSeriesProgressInfo(seriesDetails), season, episode);
+  }, [seriesDetails, season, episode, toggleEpisodeWatched]);
+
+  const handlePersonPress = useCallback((person: { id: number }) => {
+    router.push(`/person/${person.id}` as any);
+  }, []);
+
   if (isLoading) {
     return <DetailPageSkeleton />;
   }
@@ -141,10 +129,10 @@ export default function EpisodeDetailScreen() {
           <Pressable onPress={() => router.back()} style={styles.backButton}>
             <IconSymbol name="chevron.left" size={24} color={colors.text} />
           </Pressable>
-          <Text style={[styles.headerTitle, { color: colors.text }]}>Episode {episode}</Text>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>{t('episode.episodeNumber', { episode })}</Text>
           <View style={styles.headerSpacer} />
         </View>
-        <ErrorState message={error || 'Episode not found'} onRetry={handleRetry} />
+        <ErrorState message={error || t('episode.notFound')} onRetry={handleRetry} />
       </View>
     );
   }
@@ -156,7 +144,7 @@ export default function EpisodeDetailScreen() {
         <Pressable
           onPress={() => router.back()}
           style={[styles.floatingButton, { backgroundColor: OVERLAY_COLORS.BLACK_50 }]}
-          accessibilityLabel="Go back"
+          accessibilityLabel={t('accessibility.backButton')}
           accessibilityRole="button"
         >
           <IconSymbol name="chevron.left" size={24} color={SOLID_COLORS.WHITE} />
@@ -174,7 +162,7 @@ export default function EpisodeDetailScreen() {
         }
       >
         <EpisodeHero
-          stillPath={episodeDetail.stillPath}
+          stillPath={episodeDetail.stillPath ?? seriesDetails.backdropPath}
           seriesTitle={seriesDetails.title}
           seasonNumber={season}
           episodeNumber={episode}
@@ -194,21 +182,31 @@ export default function EpisodeDetailScreen() {
         {/* Overview */}
         {episodeDetail.overview && (
           <View style={styles.section}>
-            <Text style={[styles.sectionTitle, { color: colors.text }]}>Overview</Text>
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>{t('episode.overview')}</Text>
             <Text style={[styles.overview, { color: colors.textSecondary }]}>
               {episodeDetail.overview}
             </Text>
           </View>
         )}
 
-        <CrewSection crew={episodeDetail.crew} testID="episode-crew" />
+        <CrewSection
+          crew={episodeDetail.crew}
+          onMemberPress={handlePersonPress}
+          testID="episode-crew"
+        />
 
-        <GuestStarsSection guestStars={episodeDetail.guestStars} testID="episode-guest-stars" />
+        <GuestStarsSection
+          guestStars={episodeDetail.guestStars}
+          onStarPress={handlePersonPress}
+          testID="episode-guest-stars"
+        />
 
         <EpisodeNavigation
           currentEpisode={episode}
           onPrevious={handlePreviousEpisode}
           onNext={handleNextEpisode}
+          isWatched={isWatched}
+          onToggleWatched={handleToggleWatched}
           testID="episode-navigation"
         />
 
@@ -1,12 +1,12 @@
 /**
  * Season Detail Screen
- * Displays season information with episode list for a web series
+ * Displays season information with episode list and watch progress for a web series
  * URL: /web-series/[id]/season/[seasonNumber]
  * 
  * Requirements: 4.2
  */
 
-import { useCallback, useEffect, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -20,38 +20,20 @@ import { Image } from 'expo-image';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS, ComponentTokens } from '@/constants/colors';
 import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { ErrorState } from '@/components/ui/ErrorState';
 import { ContentSkeleton, CarouselSkeleton } from '@/components/ui/Skeleton';
-import { getTvDetails } from '@/services/api';
+import { ProgressBar } from '@/components/ui/ProgressBar';
+import { getTvDetails, getSeasonDetails } from '@/services/api';
 import { API_BASE_URLS } from '@/constants/api';
-import type { MediaDetails } from '@/types/media';
-
-/** Episode type for season detail */
-interface Episode {
-  id: number;
-  episodeNumber: number;
-  name: string;
-  overview: string;
-  stillPath: string | null;
-  airDate: string;
-  runtime: number | null;
-  voteAverage: number;
-}
-
-/** Season detail type */
-interface SeasonDetail {
-  id: number;
-  seasonNumber: number;
-  name: string;
-  overview: string;
-  posterPath: string | null;
-  airDate: string;
-  episodes: Episode[];
-}
+import { useWatchProgressStore } from '@/stores/watchProgressStore';
+import { getSeasonProgress, isEpisodeWatched, toSeriesProgressInfo } from '@/utils/watch-progress';
+import { formatAirDate, formatRating, formatRuntime } from '@/utils/formatting';
+import type { MediaDetails, SeasonDetails, EpisodeSummary } from '@/types/media';
 
 /** Check if mock data mode */
 function isMockDataMode(): boolean {
@@ -65,19 +47,6 @@ function getImageUrl(path: string | null, size: string = 'w300'): string | null
   return `${API_BASE_URLS.TMDB_IMAGES}/${size}${path}`;
 }
 
-/** Format air date */
-function formatAirDate(dateString: string): string {
-  if (!dateString) return 'TBA';
-  const date = new Date(dateString);
-  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-}
-
-/** Format runtime */
-function formatRuntime(minutes: number | null): string {
-  if (!minutes) return '';
-  return `${minutes}m`;
-}
-
 export default function SeasonDetailScreen() {
   const { id, seasonNumber } = useLocalSearchParams<{ id: string; seasonNumber: string }>();
   const seriesId = parseInt(id || '0', 10);
@@ -85,14 +54,30 @@ export default function SeasonDetailScreen() {
   
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
+  const { t: translate } = useLocalization();
 
   // State
   const [seriesDetails, setSeriesDetails] = useState<MediaDetails | null>(null);
-  const [seasonDetail, setSeasonDetail] = useState<SeasonDetail | null>(null);
+  const [seasonDetail, setSeasonDetail] = useState<SeasonDetails | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Watch progress
+  const {
+    getProgress,
+    toggleEpisodeWatched,
+    markSeasonWatched,
+    unmarkSeasonWatched,
+    setSeasonEpisodeCount,
+  } = useWatchProgressStore();
+  const progress = getProgress(seriesId);
+  const seasonProgress = useMemo(
+    () => getSeasonProgress(progress, season, seasonDetail?.episodes.length),
+    [progress, season, seasonDetail]
+  );
+  const isSeasonWatched = seasonProgress.total !== null && seasonProgress.watched >= seasonProgress.total;
+
   // Fetch season data
   const fetchSeasonData = useCallback(async (showRefresh = false) => {
     if (!seriesId || !season) return;
@@ -105,37 +90,12 @@ export default function SeasonDetailScreen() {
     setError(null);
 
     try {
-      // Fetch series details first
-      const details = await getTvDetails(seriesId);
+      const [details, seasonData] = await Promise.all([
+        getTvDetails(seriesId),
+        getSeasonDetails(seriesId, season),
+      ]);
       setSeriesDetails(details);
-
-      // Generate mock season data based on series info
-      const avgEpisodesPerSeason = details.numberOfEpisodes && details.numberOfSeasons
-        ? Math.ceil(details.numberOfEpisodes / details.numberOfSeasons)
-        : 10;
-
-      const mockEpisodes: Episode[] = Array.from({ length: avgEpisodesPerSeason }, (_, i) => ({
-        id: season * 100 + i + 1,
-        episodeNumber: i + 1,
-        name: `Episode ${i + 1}`,
-        overview: `Episode ${i + 1} of Season ${season}. ${details.overview?.slice(0, 100) || 'No description available.'}...`,
-        stillPath: details.backdropPath,
-        airDate: details.releaseDate || '',
-        runtime: details.runtime || 45,
-        voteAverage: details.voteAverage || 0,
-      }));
-
-      const mockSeasonDetail: SeasonDetail = {
-        id: season,
-        seasonNumber: season,
-        name: `Season ${season}`,
-        overview: `Season ${season} of ${details.title}. ${details.overview || ''}`,
-        posterPath: details.posterPath,
-        airDate: details.releaseDate || '',
-        episodes: mockEpisodes,
-      };
-
-      setSeasonDetail(mockSeasonDetail);
+      setSeasonDetail(seasonData);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load season details');
     } finally {
@@ -148,6 +108,13 @@ export default function SeasonDetailScreen() {
     fetchSeasonData();
   }, [fetchSeasonData]);
 
+  // Remember the episode count so progress bars and "up next" know where the season ends
+  useEffect(() => {
+    if (seasonDetail && seasonDetail.episodes.length > 0) {
+      setSeasonEpisodeCount(seriesId, season, seasonDetail.episodes.length);
+    }
+  }, [seasonDetail, seriesId, season, setSeasonEpisodeCount]);
+
   const handleRefresh = useCallback(() => {
     fetchSeasonData(true);
   }, [fetchSeasonData]);
@@ -157,12 +124,33 @@ export default function SeasonDetailScreen() {
   }, [fetchSeasonData]);
 
   // Handle episode press - navigate to episode detail page
-  const handleEpisodePress = useCallback((episode: Episode) => {
+  const handleEpisodePress = useCallback((episode: EpisodeSummary) => {
     router.push(`/web-series/${seriesId}/season/${season}/episode/${episode.episodeNumber}` as any);
   }, [seriesId, season]);
 
-  const renderEpisode = useCallback(({ item }: { item: Episode }) => {
+  // Toggle a single episode's watched state
+  const handleEpisodeWatchedToggle = useCallback((episode: EpisodeSummary) => {
+    if (!seriesDetails) return;
+    toggleEpisodeWatched(toSeriesProgressInfo(seriesDetails), season, episode.episodeNumber);
+  }, [seriesDetails, season, toggleEpisodeWatched]);
+
+  // Mark the whole season watched, or clear it when already complete
+  const handleSeasonWatchedToggle = useCallback(() => {
+    if (!seriesDetails || !seasonDetail) return;
+    if (isSeasonWatched) {
+      unmarkSeasonWatched(seriesId, season);
+    } else {
+      markSeasonWatched(
+        toSeriesProgressInfo(seriesDetails),
+        season,
+        seasonDetail.episodes.map(e => e.episodeNumber)
+      );
+    }
+  }, [seriesDetails, seasonDetail, isSeasonWatched, seriesId, season, markSeasonWatched, unmarkSeasonWatched]);
+
+  const renderEpisode = useCallback(({ item }: { item: EpisodeSummary }) => {
     const stillUrl = getImageUrl(item.stillPath, 'w300');
+    const watched = isEpisodeWatched(progress, season, item.episodeNumber);
     
     return (
       <Pressable
@@ -172,7 +160,10 @@ export default function SeasonDetailScreen() {
           { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.8 : 1 },
         ]}
         accessibilityRole="button"
-        accessibilityLabel={`Episode ${item.episodeNumber}: ${item.name}`}
+        accessibilityLabel={translate(watched ? 'season.episodeWatchedLabel' : 'season.episodeLabel', {
+          episode: item.episodeNumber,
+          title: item.name,
+        })}
       >
         <View style={styles.episodeThumbnail}>
           {stillUrl ? (
@@ -212,7 +203,7 @@ export default function SeasonDetailScreen() {
             )}
             {item.voteAverage > 0 && (
               <Text style={[styles.episodeMetaText, { color: colors.textSecondary }]}>
-                • ★ {item.voteAverage.toFixed(1)}
+                • ★ {formatRating(item.voteAverage)}
               </Text>
             )}
           </View>
@@ -222,12 +213,26 @@ export default function SeasonDetailScreen() {
           </Text>
         </View>
 
-        <View style={styles.playIconContainer}>
-          <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
-        </View>
+        <Pressable
+          onPress={() => handleEpisodeWatchedToggle(item)}
+          hitSlop={Spacing.sm}
+          style={styles.watchedButton}
+          accessibilityRole="checkbox"
+          accessibilityState={{ checked: watched }}
+          accessibilityLabel={translate(watched ? 'season.markEpisodeUnwatched' : 'season.markEpisodeWatched', {
+            episode: item.episodeNumber,
+          })}
+          testID={`episode-${item.episodeNumber}-watched`}
+        >
+          <Ionicons
+            name={watched ? 'checkmark-circle' : 'ellipse-outline'}
+            size={24}
+            color={watched ? colors.success : colors.textSecondary}
+          />
+        </Pressable>
       </Pressable>
     );
-  }, [colors, handleEpisodePress]);
+  }, [colors, progress, season, handleEpisodePress, handleEpisodeWatchedToggle, translate]);
 
   if (isLoading) {
     return (
@@ -251,15 +256,15 @@ export default function SeasonDetailScreen() {
           <Pressable onPress={() => router.back()} style={styles.backButton}>
             <IconSymbol name="chevron.left" size={24} color={colors.text} />
           </Pressable>
-          <Text style={[styles.headerTitle, { color: colors.text }]}>Season {season}</Text>
+          <Text style={[styles.headerTitle, { color: colors.text }]}>{translate('detail.seasonNumber', { season })}</Text>
           <View style={styles.headerSpacer} />
         </View>
-        <ErrorState message={error || 'Season not found'} onRetry={handleRetry} />
+        <ErrorState message={error || translate('season.notFound')} onRetry={handleRetry} />
       </View>
     );
   }
 
-  const posterUrl = getImageUrl(seasonDetail.posterPath, 'w342');
+  const posterUrl = getImageUrl(seasonDetail.posterPath ?? seriesDetails.posterPath, 'w342');
 
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
@@ -305,7 +310,7 @@ export default function SeasonDetailScreen() {
               
               <View style={styles.seasonMeta}>
                 <Text style={[styles.seasonMetaText, { color: colors.textSecondary }]}>
-                  {seasonDetail.episodes.length} Episodes
+                  {translate('detail.episodeCount', { count: seasonDetail.episodes.length })}
                 </Text>
                 {seasonDetail.airDate && (
                   <Text style={[styles.seasonMetaText, { color: colors.textSecondary }]}>
@@ -319,6 +324,39 @@ export default function SeasonDetailScreen() {
                   {seasonDetail.overview}
                 </Text>
               )}
+
+              {/* Season progress */}
+              <View style={styles.progressContainer}>
+                <Text style={[styles.seasonMetaText, { color: colors.textSecondary }]}>
+                  {translate('season.watchedOf', { count: seasonDetail.episodes.length, watched: seasonProgress.watched })}
+                </Text>
+                <ProgressBar
+                  progress={seasonProgress.fraction}
+                  accessibilityLabel={translate('progress.watchedOfTotal', {
+                    count: seasonDetail.episodes.length,
+                    watched: seasonProgress.watched,
+                  })}
+                  testID="season-progress"
+                />
+                <Pressable
+                  onPress={handleSeasonWatchedToggle}
+                  style={({ pressed }) => [
+                    styles.markSeasonButton,
+                    { borderColor: colors.tint, opacity: pressed ? 0.8 : 1 },
+                  ]}
+                  accessibilityRole="button"
+                  testID="season-mark-watched"
+                >
+                  <Ionicons
+                    name={isSeasonWatched ? 'close-circle-outline' : 'checkmark-done'}
+                    size={16}
+                    color={colors.tint}
+                  />
+                  <Text style={[styles.markSeasonText, { color: colors.tint }]}>
+                    {isSeasonWatched ? translate('season.markUnwatched') : translate('season.markWatched')}
+                  </Text>
+                </Pressable>
+              </View>
             </View>
           </View>
         }
@@ -391,6 +429,24 @@ const styles = StyleSheet.create({
   episodeMeta: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: Spacing.xs },
   episodeMetaText: { fontSize: Typography.sizes.xs, marginRight: Spacing.xs },
   episodeOverview: { fontSize: Typography.sizes.xs, lineHeight: Typography.sizes.xs * Typography.lineHeights.normal },
-  playIconContainer: { justifyContent: 'center', paddingLeft: Spacing.sm },
+  watchedButton: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingLeft: Spacing.sm,
+    minWidth: ComponentTokens.touchTarget.min,
+  },
+  progressContainer: { marginTop: Spacing.sm, gap: Spacing.xs },
+  markSeasonButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  markSeasonText: { fontSize: Typography.sizes.sm, fontWeight: Typography.weights.medium },
   separator: { height: Spacing.sm },
 });
@@ -19,6 +19,8 @@ import { router } from 'expo-router';
 import { Image } from 'expo-image';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useLayoutDirection } from '@/hooks/use-layout-direction';
 import { Skeleton } from '@/components/ui/Skeleton';
 import { ErrorState } from '@/components/ui/ErrorState';
 import { EmptyState } from '@/components/ui/EmptyState';
@@ -27,6 +29,7 @@ import { SOLID_COLORS, OVERLAY_COLORS } from '@/constants/colors';
 import { COMPONENT_TEST_IDS } from '@/constants/test-ids';
 import { BLURHASH_PLACEHOLDER } from '@/constants/images';
 import { getImageUrl } from '@/services/api';
+import { formatCompactNumber, formatRating } from '@/utils/formatting';
 import type { TrendingItem } from '@/types/media';
 
 /** Placeholder image for mock data mode */
@@ -57,6 +60,8 @@ function ContentItem({ item, index }: ContentItemProps) {
   const cardBackground = useThemeColor({}, 'card');
   const borderColor = useThemeColor({}, 'cardBorder');
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
+  const { directionalIcon } = useLayoutDirection();
 
   const handlePress = useCallback(() => {
     const route = item.mediaType === 'movie' ? '/movie/[id]' : '/web-series/[id]';
@@ -82,7 +87,7 @@ function ContentItem({ item, index }: ContentItemProps) {
     <Pressable
       onPress={handlePress}
       accessibilityRole="button"
-      accessibilityLabel={`View details for ${item.title}, ranked #${item.rank}`}
+      accessibilityLabel={t('countryHub.itemLabel', { title: item.title, rank: item.rank })}
       testID={`country-hub-content-item-${item.id}`}
       style={({ pressed }) => [
         styles.contentItem,
@@ -133,7 +138,7 @@ function ContentItem({ item, index }: ContentItemProps) {
           <View style={styles.ratingBadge}>
             <Ionicons name="star" size={10} color={SOLID_COLORS.GOLD} />
             <Text style={styles.ratingBadgeText}>
-              {item.voteAverage?.toFixed(1)}
+              {formatRating(item.voteAverage)}
             </Text>
           </View>
         ) : null}
@@ -161,7 +166,7 @@ function ContentItem({ item, index }: ContentItemProps) {
             <View style={styles.metaItem}>
               <Ionicons name="people-outline" size={12} color={textSecondary} />
               <Text style={[styles.metaText, { color: textSecondary }]}>
-                {item.voteCount.toLocaleString()} votes
+                {t('search.votes', { count: item.voteCount, formatted: formatCompactNumber(item.voteCount) })}
               </Text>
             </View>
           ) : null}
@@ -179,8 +184,8 @@ function ContentItem({ item, index }: ContentItemProps) {
 
         {/* Action Row */}
         <View style={styles.actionRow}>
-          <Text style={[styles.actionText, { color: tintColor }]}>View Details</Text>
-          <Ionicons name="chevron-forward" size={14} color={tintColor} />
+          <Text style={[styles.actionText, { color: tintColor }]}>{t('search.viewDetails')}</Text>
+          <Ionicons name={directionalIcon('chevron-forward')} size={14} color={tintColor} />
         </View>
       </View>
     </Pressable>
@@ -217,12 +222,13 @@ function LoadingSkeleton() {
 /** Footer loading component */
 function FooterLoading() {
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
   
   return (
     <View style={styles.footerLoading}>
       <View style={styles.loadingRow}>
         <Ionicons name="refresh" size={16} color={tintColor} />
-        <Text style={[styles.loadingText, { color: tintColor }]}>Loading more...</Text>
+        <Text style={[styles.loadingText, { color: tintColor }]}>{t('common.loadingMore')}</Text>
       </View>
     </View>
   );
@@ -242,6 +248,7 @@ export function CountryContentList({
 }: CountryContentListProps) {
   const backgroundColor = useThemeColor({}, 'background');
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
 
   const renderItem: ListRenderItem<TrendingItem> = useCallback(
     ({ item, index }) => <ContentItem item={item} index={index} />,
@@ -268,8 +275,8 @@ export function CountryContentList({
   if (isError) {
     return (
       <ErrorState
-        title="Failed to load content"
-        message={error?.message || 'Something went wrong'}
+        title={t('countryHub.loadFailed')}
+        message={error?.message || t('errors.somethingWentWrong')}
         onRetry={onRetry}
       />
     );
@@ -278,8 +285,8 @@ export function CountryContentList({
   if (data.length === 0) {
     return (
       <EmptyState
-        title="No content found"
-        message="Try adjusting your filters or check back later"
+        title={t('countryHub.noContent')}
+        message={t('countryHub.noContentMessage')}
         icon="film"
       />
     );
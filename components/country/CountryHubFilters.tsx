@@ -16,6 +16,7 @@ import Animated, {
   runOnJS,
 } from 'react-native-reanimated';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS } from '@/constants/colors';
 
@@ -31,33 +32,30 @@ export interface CountryHubFiltersState {
 
 /** Genre options for filtering */
 const GENRE_OPTIONS = [
-  { id: null, name: 'All Genres', icon: 'apps' as const },
-  { id: 28, name: 'Action', icon: 'flash' as const },
-  { id: 35, name: 'Comedy', icon: 'happy' as const },
-  { id: 18, name: 'Drama', icon: 'heart' as const },
-  { id: 27, name: 'Horror', icon: 'skull' as const },
-  { id: 10749, name: 'Romance', icon: 'heart-circle' as const },
-  { id: 878, name: 'Sci-Fi', icon: 'rocket' as const },
-  { id: 53, name: 'Thriller', icon: 'warning' as const },
-  { id: 16, name: 'Animation', icon: 'color-palette' as const },
-  { id: 99, name: 'Documentary', icon: 'videocam' as const },
+  { id: null, labelKey: 'search.filters.allGenres', icon: 'apps' as const },
+  { id: 28, labelKey: 'genres.28', icon: 'flash' as const },
+  { id: 35, labelKey: 'genres.35', icon: 'happy' as const },
+  { id: 18, labelKey: 'genres.18', icon: 'heart' as const },
+  { id: 27, labelKey: 'genres.27', icon: 'skull' as const },
+  { id: 10749, labelKey: 'genres.10749', icon: 'heart-circle' as const },
+  { id: 878, labelKey: 'genres.878', icon: 'rocket' as const },
+  { id: 53, labelKey: 'genres.53', icon: 'warning' as const },
+  { id: 16, labelKey: 'genres.16', icon: 'color-palette' as const },
+  { id: 99, labelKey: 'genres.99', icon: 'videocam' as const },
 ];
 
 /** Year options for filtering */
 const currentYear = new Date().getFullYear();
-const YEAR_OPTIONS = [
-  { value: null, label: 'All Years' },
-  ...Array.from({ length: 10 }, (_, i) => ({
-    value: currentYear - i,
-    label: String(currentYear - i),
-  })),
+const YEAR_OPTIONS: (number | null)[] = [
+  null,
+  ...Array.from({ length: 10 }, (_, i) => currentYear - i),
 ];
 
 /** Content type filter options */
-const CONTENT_TYPE_OPTIONS: { value: ContentTypeFilter; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
-  { value: 'all', label: 'All', icon: 'apps' },
-  { value: 'movie', label: 'Movies', icon: 'film' },
-  { value: 'tv', label: 'Series', icon: 'tv' },
+const CONTENT_TYPE_OPTIONS: { value: ContentTypeFilter; labelKey: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { value: 'all', labelKey: 'common.all', icon: 'apps' },
+  { value: 'movie', labelKey: 'common.movies', icon: 'film' },
+  { value: 'tv', labelKey: 'common.series', icon: 'tv' },
 ];
 
 /** Props for filter chip component */
@@ -74,12 +72,13 @@ function FilterChip({ label, icon, isSelected, onPress }: FilterChipProps) {
   const borderColor = useThemeColor({}, 'border');
   const textColor = useThemeColor({}, 'text');
   const backgroundColor = useThemeColor({}, 'backgroundSecondary');
+  const { t } = useLocalization();
 
   return (
     <Pressable
       onPress={onPress}
       accessibilityRole="button"
-      accessibilityLabel={`Filter by ${label}`}
+      accessibilityLabel={t('watchlist.filters.filterBy', { label })}
       accessibilityState={{ selected: isSelected }}
       style={({ pressed }) => [
         styles.filterChip,
@@ -146,6 +145,7 @@ export function CountryHubFilters({
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
 
   // Animation values
   const animatedHeight = useSharedValue(initiallyCollapsed ? 0 : 1);
@@ -195,7 +195,7 @@ export function CountryHubFilters({
       <Pressable
         onPress={toggleCollapse}
         accessibilityRole="button"
-        accessibilityLabel={isCollapsed ? "Expand filters" : "Collapse filters"}
+        accessibilityLabel={isCollapsed ? t('countryHub.expandFilters') : t('countryHub.collapseFilters')}
         accessibilityState={{ expanded: !isCollapsed }}
         style={({ pressed }) => [
           styles.header,
@@ -205,7 +205,7 @@ export function CountryHubFilters({
         <View style={styles.headerContent}>
           <View style={styles.headerLeft}>
             <Ionicons name="options" size={20} color={tintColor} />
-            <Text style={[styles.headerTitle, { color: textColor }]}>Filters</Text>
+            <Text style={[styles.headerTitle, { color: textColor }]}>{t('countryHub.filters')}</Text>
             {activeFiltersCount > 0 ? (
               <View style={[styles.filterBadge, { backgroundColor: tintColor }]}>
                 <Text style={styles.filterBadgeText}>{activeFiltersCount}</Text>
@@ -215,7 +215,7 @@ export function CountryHubFilters({
           
           <View style={styles.headerRight}>
             <Text style={[styles.headerSubtitle, { color: textSecondary }]}>
-              {isCollapsed ? 'Show' : 'Hide'}
+              {isCollapsed ? t('countryHub.show') : t('countryHub.hide')}
             </Text>
             <Animated.View style={chevronAnimatedStyle}>
               <Ionicons name="chevron-down" size={16} color={textSecondary} />
@@ -229,7 +229,7 @@ export function CountryHubFilters({
         <View style={styles.filtersContainer}>
           {/* Content Type Filter */}
           <View style={styles.filterSection}>
-            <FilterSectionHeader title="Content Type" icon="layers" />
+            <FilterSectionHeader title={t('countryHub.contentType')} icon="layers" />
             <ScrollView
               horizontal
               showsHorizontalScrollIndicator={false}
@@ -238,7 +238,7 @@ export function CountryHubFilters({
               {CONTENT_TYPE_OPTIONS.map((option) => (
                 <FilterChip
                   key={option.value}
-                  label={option.label}
+                  label={t(option.labelKey)}
                   icon={option.icon}
                   isSelected={filters.contentType === option.value}
                   onPress={() => handleContentTypeChange(option.value)}
@@ -249,7 +249,7 @@ export function CountryHubFilters({
 
           {/* Genre Filter */}
           <View style={styles.filterSection}>
-            <FilterSectionHeader title="Genre" icon="library" />
+            <FilterSectionHeader title={t('search.filters.genre')} icon="library" />
             <ScrollView
               horizontal
               showsHorizontalScrollIndicator={false}
@@ -258,7 +258,7 @@ export function CountryHubFilters({
               {GENRE_OPTIONS.map((genre) => (
                 <FilterChip
                   key={genre.id || 'all'}
-                  label={genre.name}
+                  label={t(genre.labelKey)}
                   icon={genre.icon}
                   isSelected={filters.genre === genre.id}
                   onPress={() => handleGenreChange(genre.id)}
@@ -269,7 +269,7 @@ export function CountryHubFilters({
 
           {/* Year Filter */}
           <View style={styles.filterSection}>
-            <FilterSectionHeader title="Release Year" icon="calendar" />
+            <FilterSectionHeader title={t('countryHub.releaseYear')} icon="calendar" />
             <ScrollView
               horizontal
               showsHorizontalScrollIndicator={false}
@@ -277,10 +277,10 @@ export function CountryHubFilters({
             >
               {YEAR_OPTIONS.map((year) => (
                 <FilterChip
-                  key={year.value || 'all'}
-                  label={year.label}
-                  isSelected={filters.year === year.value}
-                  onPress={() => handleYearChange(year.value)}
+                  key={year || 'all'}
+                  label={year === null ? t('search.filters.allYears') : String(year)}
+                  isSelected={filters.year === year}
+                  onPress={() => handleYearChange(year)}
                 />
               ))}
             </ScrollView>
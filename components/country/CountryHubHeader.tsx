@@ -15,9 +15,14 @@ import Animated, {
   withSpring,
 } from 'react-native-reanimated';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useLayoutDirection } from '@/hooks/use-layout-direction';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
-import { getCountryConfig } from '@/constants/countries';
+import { getCountryConfig, getCountryName } from '@/constants/countries';
+
+/** Bottom accent fades out from the leading edge */
+const ACCENT_GRADIENT_DIRECTION = { start: { x: 0, y: 0 }, end: { x: 1, y: 0 } };
 
 interface CountryHubHeaderProps {
   countryCode: string;
@@ -27,9 +32,11 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const cardBackground = useThemeColor({}, 'card');
+  const { t } = useLocalization();
+  const { gradientDirection } = useLayoutDirection();
   
   const country = getCountryConfig(countryCode);
-  const countryName = country?.name || countryCode.toUpperCase();
+  const countryName = country ? getCountryName(country.code) : countryCode.toUpperCase();
 
   // Animation values
   const headerScale = useSharedValue(1);
@@ -47,7 +54,7 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
     }> = {
       'DE': { 
         flag: '🇩🇪', 
-        description: 'European Cinema Hub', 
+        description: t('countryHub.descriptions.DE'), 
         timezone: 'CET',
         popularGenres: ['Drama', 'Thriller', 'Documentary'],
         totalContent: '2.5K+',
@@ -55,7 +62,7 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
       },
       'US': { 
         flag: '🇺🇸', 
-        description: 'Hollywood & Beyond', 
+        description: t('countryHub.descriptions.US'), 
         timezone: 'PST/EST',
         popularGenres: ['Action', 'Comedy', 'Sci-Fi'],
         totalContent: '15K+',
@@ -63,7 +70,7 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
       },
       'GB': { 
         flag: '🇬🇧', 
-        description: 'British Productions', 
+        description: t('countryHub.descriptions.GB'), 
         timezone: 'GMT',
         popularGenres: ['Drama', 'Comedy', 'Mystery'],
         totalContent: '3.2K+',
@@ -71,7 +78,7 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
       },
       'FR': { 
         flag: '🇫🇷', 
-        description: 'French Cinema', 
+        description: t('countryHub.descriptions.FR'), 
         timezone: 'CET',
         popularGenres: ['Romance', 'Drama', 'Art House'],
         totalContent: '2.8K+',
@@ -79,7 +86,7 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
       },
       'JP': { 
         flag: '🇯🇵', 
-        description: 'Anime & J-Drama', 
+        description: t('countryHub.descriptions.JP'), 
         timezone: 'JST',
         popularGenres: ['Anime', 'Drama', 'Horror'],
         totalContent: '8.5K+',
@@ -87,7 +94,7 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
       },
       'KR': { 
         flag: '🇰🇷', 
-        description: 'K-Drama & K-Movies', 
+        description: t('countryHub.descriptions.KR'), 
         timezone: 'KST',
         popularGenres: ['Romance', 'Thriller', 'Drama'],
         totalContent: '4.1K+',
@@ -96,7 +103,7 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
     };
     return countryData[code] || { 
       flag: '🌍', 
-      description: 'International Content', 
+      description: t('countryHub.descriptions.default'), 
       timezone: 'UTC',
       popularGenres: ['Drama', 'Action', 'Comedy'],
       totalContent: '1K+',
@@ -152,7 +159,7 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
           <Pressable
             onPress={() => router.back()}
             accessibilityRole="button"
-            accessibilityLabel="Go back"
+            accessibilityLabel={t('accessibility.backButton')}
             style={({ pressed }) => [
               styles.backButton,
               { 
@@ -200,8 +207,8 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
               <Ionicons name="film" size={16} color={countryInfo.gradient[0]} />
             </LinearGradient>
             <View style={styles.statContent}>
-              <Text style={[styles.statLabel, { color: textColor }]}>Movies</Text>
-              <Text style={[styles.statSubtext, { color: textSecondary }]}>Popular</Text>
+              <Text style={[styles.statLabel, { color: textColor }]}>{t('countryHub.movies')}</Text>
+              <Text style={[styles.statSubtext, { color: textSecondary }]}>{t('countryHub.popular')}</Text>
             </View>
             <View style={[styles.statIndicator, { backgroundColor: countryInfo.gradient[0] }]} />
           </View>
@@ -214,8 +221,8 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
               <Ionicons name="tv" size={16} color={countryInfo.gradient[1]} />
             </LinearGradient>
             <View style={styles.statContent}>
-              <Text style={[styles.statLabel, { color: textColor }]}>Series</Text>
-              <Text style={[styles.statSubtext, { color: textSecondary }]}>Trending</Text>
+              <Text style={[styles.statLabel, { color: textColor }]}>{t('countryHub.series')}</Text>
+              <Text style={[styles.statSubtext, { color: textSecondary }]}>{t('countryHub.trending')}</Text>
             </View>
             <View style={[styles.statIndicator, { backgroundColor: countryInfo.gradient[1] }]} />
           </View>
@@ -225,8 +232,7 @@ export function CountryHubHeader({ countryCode }: CountryHubHeaderProps) {
       {/* Enhanced Bottom Accent */}
       <LinearGradient
         colors={[countryInfo.gradient[0] + '80', countryInfo.gradient[1] + '60', 'transparent']}
-        start={{ x: 0, y: 0 }}
-        end={{ x: 1, y: 0 }}
+        {...gradientDirection(ACCENT_GRADIENT_DIRECTION)}
         style={styles.accentLine}
       />
     </View>
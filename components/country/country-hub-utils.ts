@@ -8,10 +8,12 @@
 import { 
   SUPPORTED_COUNTRIES, 
   getCountryConfig,
+  getCountryName,
   isCountrySupported as checkCountrySupported,
   type CountryConfig,
 } from '@/constants/countries';
 import type { TrendingItem } from '@/types/media';
+import { t } from '@/services/localization';
 
 /** Content type filter options */
 export type ContentTypeFilter = 'all' | 'movie' | 'tv';
@@ -49,7 +51,7 @@ export function isCountrySupported(code: string): boolean {
 export function getCountryHeaderDisplay(country: CountryConfig): { flag: string; name: string } {
   return {
     flag: country.flag,
-    name: country.name,
+    name: getCountryName(country.code),
   };
 }
 
@@ -185,9 +187,9 @@ export function hasActiveFilters(filters: CountryHubFilters): boolean {
  */
 export function getEmptyFilterSuggestions(): string[] {
   return [
-    'Try a different genre',
-    'Select a different year',
-    'Change the content type',
+    t('countryHub.suggestions.genre'),
+    t('countryHub.suggestions.year'),
+    t('countryHub.suggestions.contentType'),
   ];
 }
 
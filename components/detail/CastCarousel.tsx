@@ -12,10 +12,12 @@ import {
   View,
   Text,
   FlatList,
+  Pressable,
 } from 'react-native';
 import { Image } from 'expo-image';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, BorderRadius, Typography, ComponentTokens } from '@/constants/theme';
 import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
 import type { CastMember } from '@/types/media';
@@ -35,6 +37,8 @@ export interface CastCarouselProps {
   cast: CastMember[];
   /** Maximum number of cast members to display (default: 10) */
   maxDisplay?: number;
+  /** Callback when a cast member is pressed */
+  onMemberPress?: (member: CastMember) => void;
   /** Test ID for testing */
   testID?: string;
 }
@@ -42,12 +46,14 @@ export interface CastCarouselProps {
 export function CastCarousel({
   cast,
   maxDisplay = MAX_CAST_DISPLAY,
+  onMemberPress,
   testID,
 }: CastCarouselProps) {
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const cardBackground = useThemeColor({}, 'card');
   const cardBorder = useThemeColor({}, 'cardBorder');
+  const { t } = useLocalization();
 
   const limitedCast = getLimitedCast(cast, maxDisplay);
 
@@ -57,8 +63,11 @@ export function CastCarousel({
       const accessibilityLabel = generateCastAccessibilityLabel(item);
 
       return (
-        <View
-          style={styles.castItem}
+        <Pressable
+          onPress={onMemberPress ? () => onMemberPress(item) : undefined}
+          disabled={!onMemberPress}
+          style={({ pressed }) => [styles.castItem, { opacity: pressed ? 0.7 : 1 }]}
+          accessibilityRole={onMemberPress ? 'button' : undefined}
           accessibilityLabel={accessibilityLabel}
           testID={testID ? `${testID}-member-${item.id}` : undefined}
         >
@@ -100,10 +109,10 @@ export function CastCarousel({
           >
             {item.character}
           </Text>
-        </View>
+        </Pressable>
       );
     },
-    [textColor, textSecondary, cardBackground, cardBorder, testID]
+    [textColor, textSecondary, cardBackground, cardBorder, onMemberPress, testID]
   );
 
   // Don't render if no cast
@@ -117,12 +126,13 @@ export function CastCarousel({
         style={[styles.sectionTitle, { color: textColor }]}
         accessibilityRole="header"
       >
-        Cast
+        {t('detail.cast')}
       </Text>
       
       <FlatList
         data={limitedCast}
         renderItem={renderCastMember}
+        extraData={t}
         keyExtractor={(item) => `cast-${item.id}`}
         horizontal
         showsHorizontalScrollIndicator={false}
@@ -154,7 +164,7 @@ const styles = StyleSheet.create({
   },
   castItem: {
     width: ITEM_WIDTH,
-    marginRight: Spacing.md,
+    marginEnd: Spacing.md,
   },
   imageContainer: {
     width: ITEM_WIDTH,
@@ -24,13 +24,16 @@ import Animated, {
 } from 'react-native-reanimated';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useCertificationCeiling } from '@/hooks/use-certification-ceiling';
 import { Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS, ComponentTokens } from '@/constants/colors';
 import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
 import type { MediaDetails } from '@/types/media';
+import { formatRuntime } from '@/utils/formatting';
+import { getRegionalCertification } from '@/utils/certifications';
 import {
   getBackdropUrl,
-  formatRuntime,
   formatReleaseYear,
   formatRating,
   formatGenres,
@@ -67,13 +70,19 @@ export function DetailHeader({
   const ratingTextColor = useThemeColor({}, 'ratingText');
   const ageRatingBadgeColor = useThemeColor({}, 'warning');
   const ageRatingTextColor = useThemeColor({}, 'background');
+  const { t } = useLocalization();
+  const { region, isRestricted } = useCertificationCeiling();
+
+  // Artwork of titles above the ceiling is blurred even in "hide" mode, as the page was opened on purpose
+  const certification = getRegionalCertification(details, region)?.certification ?? null;
+  const blurred = isRestricted(details);
 
   const backdropUrl = getBackdropUrl(details.backdropPath);
   const runtime = formatRuntime(details.runtime);
   const releaseYear = formatReleaseYear(details.releaseDate);
   const rating = formatRating(details.voteAverage);
   const genres = formatGenres(details.genres);
-  const accessibilityLabel = generateDetailAccessibilityLabel(details);
+  const accessibilityLabel = generateDetailAccessibilityLabel({ ...details, ageRating: certification });
 
   // Parallax animation style
   const parallaxStyle = useAnimatedStyle(() => {
@@ -125,6 +134,7 @@ export function DetailHeader({
             transition={300}
             priority="high"
             cachePolicy="memory-disk"
+            blurRadius={blurred ? ComponentTokens.restrictedArtwork.blurRadius : undefined}
             testID={testID ? `${testID}-backdrop` : undefined}
           />
         ) : (
@@ -151,8 +161,8 @@ export function DetailHeader({
             { opacity: pressed ? 0.8 : 1 },
           ]}
           accessibilityRole="button"
-          accessibilityLabel="Play trailer"
-          accessibilityHint="Double tap to play the trailer"
+          accessibilityLabel={t('trailer.playLabel')}
+          accessibilityHint={t('trailer.playHint')}
           testID={testID ? `${testID}-play-button` : undefined}
         >
           <View style={[styles.playButtonInner, { backgroundColor: tintColor }]}>
@@ -169,7 +179,7 @@ export function DetailHeader({
           {rating && (
             <View 
               style={[styles.ratingBadge, { backgroundColor: ratingBadgeColor }]}
-              accessibilityLabel={`Rating: ${rating} out of 10`}
+              accessibilityLabel={t('mediaCard.ratingBadgeLabel', { rating })}
               testID={testID ? `${testID}-rating` : undefined}
             >
               <Text style={[styles.ratingText, { color: ratingTextColor }]}>
@@ -179,14 +189,14 @@ export function DetailHeader({
           )}
 
           {/* Age Rating Badge */}
-          {details.ageRating && (
+          {certification && (
             <View 
               style={[styles.ageRatingBadge, { backgroundColor: ageRatingBadgeColor }]}
-              accessibilityLabel={`Age rating: ${details.ageRating}`}
+              accessibilityLabel={t('mediaCard.ageRatingBadgeLabel', { rating: certification })}
               testID={testID ? `${testID}-age-rating` : undefined}
             >
               <Text style={[styles.ageRatingText, { color: ageRatingTextColor }]}>
-                {details.ageRating}
+                {certification}
               </Text>
             </View>
           )}
@@ -227,8 +237,8 @@ export function DetailHeader({
             style={styles.tvInfo}
             testID={testID ? `${testID}-tv-info` : undefined}
           >
-            {details.numberOfSeasons} Season{details.numberOfSeasons !== 1 ? 's' : ''}
-            {details.numberOfEpisodes && ` • ${details.numberOfEpisodes} Episodes`}
+            {t('detail.seasonCount', { count: details.numberOfSeasons })}
+            {details.numberOfEpisodes && ` • ${t('detail.episodeCount', { count: details.numberOfEpisodes })}`}
           </Text>
         )}
       </View>
@@ -8,6 +8,7 @@
 import { StyleSheet, View, Text, ScrollView, Pressable } from 'react-native';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
 import type { Genre } from '@/types/media';
 
@@ -22,6 +23,7 @@ export interface GenreTagsProps {
 
 export function GenreTags({ genres, onGenrePress, testID }: GenreTagsProps) {
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
 
   if (!genres || genres.length === 0) {
     return null;
@@ -43,7 +45,7 @@ export function GenreTags({ genres, onGenrePress, testID }: GenreTagsProps) {
               { borderColor: tintColor, opacity: pressed ? 0.7 : 1 },
             ]}
             accessibilityRole="button"
-            accessibilityLabel={`Genre: ${genre.name}`}
+            accessibilityLabel={t('detail.genreLabel', { genre: genre.name })}
           >
             <Text style={[styles.tagText, { color: tintColor }]}>{genre.name}</Text>
           </Pressable>
@@ -2,6 +2,7 @@
  * MediaInfo Component
  * Displays key media information in a horizontal card layout
  * Shows budget/revenue for movies, seasons/episodes for TV
+ * Release date and certification are the ones for the user's region
  * 
  * Requirements: 4.2
  */
@@ -10,8 +11,12 @@ import { StyleSheet, View, Text, ScrollView } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { getDeviceRegion } from '@/services/localization';
 import { Spacing, Typography, BorderRadius, ComponentTokens } from '@/constants/theme';
 import type { MediaDetails } from '@/types/media';
+import { formatAirDate, formatCurrency, formatNumber, formatRuntime } from '@/utils/formatting';
+import { getRegionalCertification, getRegionalRelease } from '@/utils/certifications';
 
 export interface MediaInfoProps {
   /** Media details */
@@ -40,46 +45,47 @@ function InfoCard({ icon, label, value, iconColor, textColor, secondaryColor, ba
   );
 }
 
-function formatCurrency(amount: number): string {
-  if (amount >= 1_000_000_000) {
-    return `$${(amount / 1_000_000_000).toFixed(1)}B`;
-  }
-  if (amount >= 1_000_000) {
-    return `$${(amount / 1_000_000).toFixed(1)}M`;
-  }
-  if (amount >= 1_000) {
-    return `$${(amount / 1_000).toFixed(0)}K`;
-  }
-  return `$${amount}`;
-}
-
-function formatDate(dateString: string): string {
-  if (!dateString) return 'TBA';
-  const date = new Date(dateString);
-  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
-}
-
 export function MediaInfo({ details, testID }: MediaInfoProps) {
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const tintColor = useThemeColor({}, 'tint');
   const cardBackground = useThemeColor({}, 'backgroundSecondary');
+  const { t: translate } = useLocalization();
+  const region = getDeviceRegion();
 
   const infoCards: { icon: keyof typeof Ionicons.glyphMap; label: string; value: string }[] = [];
 
   // Common info
-  if (details.releaseDate) {
+  const regionalRelease = getRegionalRelease(details.releases, region);
+  if (regionalRelease?.releaseDate) {
     infoCards.push({
       icon: 'calendar-outline',
-      label: 'Release',
-      value: formatDate(details.releaseDate),
+      label: translate('detail.info.regionalRelease', { country: regionalRelease.countryCode }),
+      value: formatAirDate(regionalRelease.releaseDate),
+    });
+  } else if (details.releaseDate) {
+    infoCards.push({
+      icon: 'calendar-outline',
+      label: translate('detail.info.release'),
+      value: formatAirDate(details.releaseDate),
+    });
+  }
+
+  const certification = getRegionalCertification(details, region);
+  if (certification) {
+    infoCards.push({
+      icon: 'shield-checkmark-outline',
+      label: certification.countryCode
+        ? translate('detail.info.regionalCertification', { country: certification.countryCode })
+        : translate('detail.info.certification'),
+      value: certification.certification,
     });
   }
 
   if (details.status) {
     infoCards.push({
       icon: 'radio-button-on-outline',
-      label: 'Status',
+      label: translate('detail.info.status'),
       value: details.status,
     });
   }
@@ -87,28 +93,26 @@ export function MediaInfo({ details, testID }: MediaInfoProps) {
   // Movie-specific info
   if (details.mediaType === 'movie') {
     if (details.runtime) {
-      const hours = Math.floor(details.runtime / 60);
-      const mins = details.runtime % 60;
       infoCards.push({
         icon: 'time-outline',
-        label: 'Runtime',
-        value: hours > 0 ? `${hours}h ${mins}m` : `${mins}m`,
+        label: translate('detail.info.runtime'),
+        value: formatRuntime(details.runtime),
       });
     }
 
     if (details.budget && details.budget > 0) {
       infoCards.push({
         icon: 'wallet-outline',
-        label: 'Budget',
-        value: formatCurrency(details.budget),
+        label: translate('detail.info.budget'),
+        value: formatCurrency(details.budget, 'USD', true),
       });
     }
 
     if (details.revenue && details.revenue > 0) {
       infoCards.push({
         icon: 'trending-up-outline',
-        label: 'Revenue',
-        value: formatCurrency(details.revenue),
+        label: translate('detail.info.revenue'),
+        value: formatCurrency(details.revenue, 'USD', true),
       });
     }
   }
@@ -118,16 +122,16 @@ export function MediaInfo({ details, testID }: MediaInfoProps) {
     if (details.numberOfSeasons) {
       infoCards.push({
         icon: 'layers-outline',
-        label: 'Seasons',
-        value: `${details.numberOfSeasons}`,
+        label: translate('detail.info.seasons'),
+        value: formatNumber(details.numberOfSeasons),
       });
     }
 
     if (details.numberOfEpisodes) {
       infoCards.push({
         icon: 'play-circle-outline',
-        label: 'Episodes',
-        value: `${details.numberOfEpisodes}`,
+        label: translate('detail.info.episodes'),
+        value: formatNumber(details.numberOfEpisodes),
       });
     }
   }
@@ -136,7 +140,7 @@ export function MediaInfo({ details, testID }: MediaInfoProps) {
   if (details.spokenLanguages && details.spokenLanguages.length > 0) {
     infoCards.push({
       icon: 'language-outline',
-      label: 'Language',
+      label: translate('detail.info.language'),
       value: details.spokenLanguages[0].englishName || details.spokenLanguages[0].name,
     });
   }
@@ -145,7 +149,7 @@ export function MediaInfo({ details, testID }: MediaInfoProps) {
   if (details.productionCountries && details.productionCountries.length > 0) {
     infoCards.push({
       icon: 'globe-outline',
-      label: 'Country',
+      label: translate('detail.info.country'),
       value: details.productionCountries[0].name,
     });
   }
@@ -156,7 +160,7 @@ export function MediaInfo({ details, testID }: MediaInfoProps) {
 
   return (
     <View style={styles.container} testID={testID}>
-      <Text style={[styles.sectionTitle, { color: textColor }]}>Information</Text>
+      <Text style={[styles.sectionTitle, { color: textColor }]}>{translate('detail.information')}</Text>
       <ScrollView
         horizontal
         showsHorizontalScrollIndicator={false}
@@ -9,6 +9,7 @@ import { StyleSheet, View, Text } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
 import type { MediaDetails } from '@/types/media';
 
@@ -46,6 +47,7 @@ export function ProductionInfo({ details, testID }: ProductionInfoProps) {
   const tintColor = useThemeColor({}, 'tint');
   const cardBackground = useThemeColor({}, 'backgroundSecondary');
   const borderColor = useThemeColor({}, 'border');
+  const { t } = useLocalization();
 
   const hasProductionCountries = details.productionCountries && details.productionCountries.length > 0;
   const hasLanguages = details.spokenLanguages && details.spokenLanguages.length > 0;
@@ -56,13 +58,13 @@ export function ProductionInfo({ details, testID }: ProductionInfoProps) {
 
   return (
     <View style={styles.container} testID={testID}>
-      <Text style={[styles.sectionTitle, { color: textColor }]}>Production Details</Text>
+      <Text style={[styles.sectionTitle, { color: textColor }]}>{t('detail.productionDetails')}</Text>
       
       <View style={[styles.card, { backgroundColor: cardBackground, borderColor }]}>
         {hasProductionCountries && (
           <InfoRow
             icon="globe-outline"
-            label="Countries"
+            label={t('detail.info.countries')}
             value={details.productionCountries!.map(c => c.name).join(', ')}
             iconColor={tintColor}
             textColor={textColor}
@@ -75,7 +77,7 @@ export function ProductionInfo({ details, testID }: ProductionInfoProps) {
             {hasProductionCountries && <View style={[styles.divider, { backgroundColor: borderColor }]} />}
             <InfoRow
               icon="language-outline"
-              label="Languages"
+              label={t('detail.info.languages')}
               value={details.spokenLanguages!.map(l => l.englishName || l.name).join(', ')}
               iconColor={tintColor}
               textColor={textColor}
@@ -89,7 +91,7 @@ export function ProductionInfo({ details, testID }: ProductionInfoProps) {
             <View style={[styles.divider, { backgroundColor: borderColor }]} />
             <InfoRow
               icon="radio-button-on-outline"
-              label="Status"
+              label={t('detail.info.status')}
               value={details.status}
               iconColor={tintColor}
               textColor={textColor}
@@ -103,7 +105,7 @@ export function ProductionInfo({ details, testID }: ProductionInfoProps) {
             <View style={[styles.divider, { backgroundColor: borderColor }]} />
             <InfoRow
               icon="text-outline"
-              label="Original Title"
+              label={t('detail.info.originalTitle')}
               value={details.originalTitle}
               iconColor={tintColor}
               textColor={textColor}
@@ -1,7 +1,8 @@
 /**
  * ProviderList Component
  * Displays streaming providers with logos and availability status
- * Groups providers by type (subscription, rent, buy)
+ * Groups providers by type (subscription, rent, buy), with the user's own
+ * streaming services first and highlighted
  * 
  * Requirements: 4.6, 16.3
  */
@@ -17,9 +18,12 @@ import {
 import { Image } from 'expo-image';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { BLURHASH_PLACEHOLDER } from '@/constants/images';
 import { logProviderTap } from '@/services/analytics';
+import { usePreferencesStore } from '@/stores/preferencesStore';
+import { isMyService, sortProvidersByServices } from '@/utils/streaming-services';
 import type { StreamingProvider } from '@/types/media';
 import {
   getProviderLogoUrl,
@@ -43,16 +47,20 @@ interface ProviderGroupProps {
   title: string;
   providers: StreamingProvider[];
   onProviderPress: (provider: StreamingProvider) => void;
+  /** The user's streaming services, highlighted */
+  serviceIds: number[];
   mediaId?: number;
   testID?: string;
 }
 
-function ProviderGroup({ title, providers, onProviderPress, mediaId, testID }: ProviderGroupProps) {
+function ProviderGroup({ title, providers, onProviderPress, serviceIds, mediaId, testID }: ProviderGroupProps) {
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const cardBackground = useThemeColor({}, 'card');
   const cardBorder = useThemeColor({}, 'cardBorder');
   const providerUnavailable = useThemeColor({}, 'providerUnavailable');
+  const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
 
   if (providers.length === 0) return null;
 
@@ -62,9 +70,12 @@ function ProviderGroup({ title, providers, onProviderPress, mediaId, testID }: P
         {title}
       </Text>
       <View style={styles.providersRow}>
-        {providers.map((provider) => {
+        {sortProvidersByServices(providers, serviceIds).map((provider) => {
           const logoUrl = getProviderLogoUrl(provider.logoPath);
-          const accessibilityLabel = generateProviderAccessibilityLabel(provider);
+          const isMine = isMyService(provider, serviceIds);
+          const accessibilityLabel = isMine
+            ? t('detail.providerIsMine', { label: generateProviderAccessibilityLabel(provider) })
+            : generateProviderAccessibilityLabel(provider);
           const isUnavailable = !provider.isAvailable;
 
           return (
@@ -76,13 +87,14 @@ function ProviderGroup({ title, providers, onProviderPress, mediaId, testID }: P
                 styles.providerItem,
                 { 
                   backgroundColor: cardBackground,
-                  borderColor: cardBorder,
+                  borderColor: isMine ? tintColor : cardBorder,
+                  borderWidth: isMine ? 2 : 1,
                   opacity: pressed ? 0.7 : isUnavailable ? 0.5 : 1,
                 },
               ]}
               accessibilityRole="button"
               accessibilityLabel={accessibilityLabel}
-              accessibilityHint={isUnavailable ? 'Currently unavailable' : 'Double tap to open streaming service'}
+              accessibilityHint={isUnavailable ? t('detail.providerUnavailableHint') : t('detail.providerHint')}
               accessibilityState={{ disabled: isUnavailable }}
               testID={testID ? `${testID}-provider-${provider.providerId}` : undefined}
             >
@@ -118,7 +130,16 @@ function ProviderGroup({ title, providers, onProviderPress, mediaId, testID }: P
               
               {isUnavailable && (
                 <Text style={[styles.unavailableLabel, { color: providerUnavailable }]}>
-                  Unavailable
+                  {t('detail.unavailable')}
+                </Text>
+              )}
+
+              {isMine && !isUnavailable && (
+                <Text
+                  style={[styles.mineLabel, { color: tintColor }]}
+                  testID={testID ? `${testID}-provider-${provider.providerId}-mine` : undefined}
+                >
+                  {t('detail.yourService')}
                 </Text>
               )}
             </Pressable>
@@ -132,6 +153,8 @@ function ProviderGroup({ title, providers, onProviderPress, mediaId, testID }: P
 export function ProviderList({ providers, mediaId, testID }: ProviderListProps) {
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
+  const serviceIds = usePreferencesStore(state => state.preferences.streamingServices);
+  const { t } = useLocalization();
 
   const handleProviderPress = useCallback(async (provider: StreamingProvider) => {
     if (!provider.isAvailable || !provider.link) return;
@@ -159,13 +182,13 @@ export function ProviderList({ providers, mediaId, testID }: ProviderListProps)
           style={[styles.sectionTitle, { color: textColor }]}
           accessibilityRole="header"
         >
-          Where to Watch
+          {t('detail.whereToWatch')}
         </Text>
         <Text
           style={[styles.emptyMessage, { color: textSecondary }]}
           testID={testID ? `${testID}-empty` : undefined}
         >
-          Not available for streaming
+          {t('detail.notAvailableForStreaming')}
         </Text>
       </View>
     );
@@ -179,29 +202,32 @@ export function ProviderList({ providers, mediaId, testID }: ProviderListProps)
         style={[styles.sectionTitle, { color: textColor }]}
         accessibilityRole="header"
       >
-        Where to Watch
+        {t('detail.whereToWatch')}
       </Text>
       
       <ProviderGroup
-        title="Stream"
+        title={t('detail.stream')}
         providers={grouped.flatrate}
         onProviderPress={handleProviderPress}
+        serviceIds={serviceIds}
         mediaId={mediaId}
         testID={testID ? `${testID}-flatrate` : undefined}
       />
       
       <ProviderGroup
-        title="Rent"
+        title={t('detail.rent')}
         providers={grouped.rent}
         onProviderPress={handleProviderPress}
+        serviceIds={serviceIds}
         mediaId={mediaId}
         testID={testID ? `${testID}-rent` : undefined}
       />
       
       <ProviderGroup
-        title="Buy"
+        title={t('detail.buy')}
         providers={grouped.buy}
         onProviderPress={handleProviderPress}
+        serviceIds={serviceIds}
         mediaId={mediaId}
         testID={testID ? `${testID}-buy` : undefined}
       />
@@ -276,6 +302,11 @@ const styles = StyleSheet.create({
     fontSize: Typography.sizes.xs,
     marginTop: 2,
   },
+  mineLabel: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.semibold,
+    marginTop: 2,
+  },
 });
 
 export default ProviderList;
@@ -1,6 +1,6 @@
 /**
  * QuickActions Component
- * Displays action buttons for watchlist, share, and download
+ * Displays action buttons for watchlist, lists, diary logging, share, and download
  * 
  * Requirements: 7.2, 8.1
  */
@@ -11,6 +11,7 @@ import { Ionicons } from '@expo/vector-icons';
 import * as Haptics from 'expo-haptics';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, BorderRadius, ComponentTokens } from '@/constants/theme';
 
 export interface QuickActionsProps {
@@ -22,10 +23,18 @@ export interface QuickActionsProps {
   mediaId: number;
   /** Whether item is in watchlist */
   isInWatchlist: boolean;
+  /** Number of custom lists containing the title (excluding the watchlist) */
+  listCount?: number;
+  /** Number of diary entries logged for the title */
+  watchCount?: number;
   /** Whether download is available */
   canDownload?: boolean;
   /** Callback when watchlist button pressed */
   onWatchlistPress: () => void;
+  /** Callback when lists button pressed; the button is hidden without it */
+  onListsPress?: () => void;
+  /** Callback when log button pressed; the button is hidden without it */
+  onLogPress?: () => void;
   /** Callback when download button pressed */
   onDownloadPress?: () => void;
   /** Test ID */
@@ -37,8 +46,12 @@ export function QuickActions({
   mediaType,
   mediaId,
   isInWatchlist,
+  listCount = 0,
+  watchCount = 0,
   canDownload = false,
   onWatchlistPress,
+  onListsPress,
+  onLogPress,
   onDownloadPress,
   testID,
 }: QuickActionsProps) {
@@ -47,6 +60,7 @@ export function QuickActions({
   const textSecondary = useThemeColor({}, 'textSecondary');
   const tintColor = useThemeColor({}, 'tint');
   const borderColor = useThemeColor({}, 'border');
+  const { t } = useLocalization();
 
   const handleShare = useCallback(async () => {
     if (Platform.OS !== 'web') {
@@ -56,14 +70,14 @@ export function QuickActions({
     try {
       const url = `https://movietracker.app/${mediaType}/${mediaId}`;
       await Share.share({
-        message: `Check out "${title}" on MovieTracker!\n${url}`,
+        message: `${t('detail.shareMessage', { title })}\n${url}`,
         title: title,
         url: url,
       });
     } catch (error) {
       console.error('Share failed:', error);
     }
-  }, [title, mediaType, mediaId]);
+  }, [title, mediaType, mediaId, t]);
 
   const handleWatchlistPress = useCallback(async () => {
     if (Platform.OS !== 'web') {
@@ -72,6 +86,20 @@ export function QuickActions({
     onWatchlistPress();
   }, [onWatchlistPress]);
 
+  const handleListsPress = useCallback(async () => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    onListsPress?.();
+  }, [onListsPress]);
+
+  const handleLogPress = useCallback(async () => {
+    if (Platform.OS !== 'web') {
+      await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    onLogPress?.();
+  }, [onLogPress]);
+
   const handleDownloadPress = useCallback(async () => {
     if (Platform.OS !== 'web') {
       await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -89,7 +117,7 @@ export function QuickActions({
           { backgroundColor, opacity: pressed ? 0.7 : 1 },
         ]}
         accessibilityRole="button"
-        accessibilityLabel={isInWatchlist ? 'Remove from watchlist' : 'Add to watchlist'}
+        accessibilityLabel={isInWatchlist ? t('detail.removeFromWatchlist') : t('detail.addToWatchlist')}
       >
         <Ionicons
           name={isInWatchlist ? 'bookmark' : 'bookmark-outline'}
@@ -97,10 +125,54 @@ export function QuickActions({
           color={isInWatchlist ? tintColor : textColor}
         />
         <Text style={[styles.actionLabel, { color: textSecondary }]}>
-          {isInWatchlist ? 'Saved' : 'Watchlist'}
+          {isInWatchlist ? t('detail.actions.saved') : t('detail.actions.watchlist')}
         </Text>
       </Pressable>
 
+      {/* Lists Button */}
+      {onListsPress && (
+        <Pressable
+          onPress={handleListsPress}
+          style={({ pressed }) => [
+            styles.actionButton,
+            { backgroundColor, opacity: pressed ? 0.7 : 1 },
+          ]}
+          accessibilityRole="button"
+          accessibilityLabel={listCount > 0 ? t('detail.actions.addToListsInLists', { count: listCount }) : t('detail.actions.addToLists')}
+        >
+          <Ionicons
+            name={listCount > 0 ? 'albums' : 'albums-outline'}
+            size={24}
+            color={listCount > 0 ? tintColor : textColor}
+          />
+          <Text style={[styles.actionLabel, { color: textSecondary }]}>
+            {listCount > 0 ? t('detail.actions.listsCount', { count: listCount }) : t('detail.actions.lists')}
+          </Text>
+        </Pressable>
+      )}
+
+      {/* Log Watch Button */}
+      {onLogPress && (
+        <Pressable
+          onPress={handleLogPress}
+          style={({ pressed }) => [
+            styles.actionButton,
+            { backgroundColor, opacity: pressed ? 0.7 : 1 },
+          ]}
+          accessibilityRole="button"
+          accessibilityLabel={watchCount > 0 ? t('detail.actions.logWatchWatched', { count: watchCount }) : t('detail.actions.logWatch')}
+        >
+          <Ionicons
+            name={watchCount > 0 ? 'calendar' : 'calendar-outline'}
+            size={24}
+            color={watchCount > 0 ? tintColor : textColor}
+          />
+          <Text style={[styles.actionLabel, { color: textSecondary }]}>
+            {watchCount > 0 ? t('detail.actions.loggedCount', { count: watchCount }) : t('detail.actions.log')}
+          </Text>
+        </Pressable>
+      )}
+
       {/* Share Button */}
       <Pressable
         onPress={handleShare}
@@ -109,10 +181,10 @@ export function QuickActions({
           { backgroundColor, opacity: pressed ? 0.7 : 1 },
         ]}
         accessibilityRole="button"
-        accessibilityLabel="Share"
+        accessibilityLabel={t('detail.actions.share')}
       >
         <Ionicons name="share-outline" size={24} color={textColor} />
-        <Text style={[styles.actionLabel, { color: textSecondary }]}>Share</Text>
+        <Text style={[styles.actionLabel, { color: textSecondary }]}>{t('detail.actions.share')}</Text>
       </Pressable>
 
       {/* Download Button */}
@@ -124,10 +196,10 @@ export function QuickActions({
             { backgroundColor, opacity: pressed ? 0.7 : 1 },
           ]}
           accessibilityRole="button"
-          accessibilityLabel="Download for offline"
+          accessibilityLabel={t('detail.actions.downloadForOffline')}
         >
           <Ionicons name="download-outline" size={24} color={textColor} />
-          <Text style={[styles.actionLabel, { color: textSecondary }]}>Download</Text>
+          <Text style={[styles.actionLabel, { color: textSecondary }]}>{t('detail.download')}</Text>
         </Pressable>
       )}
     </View>
@@ -0,0 +1,209 @@
+/**
+ * RatingEditorModal Component
+ * Modal for setting a personal half-star rating and private note on a title
+ */
+
+import { useEffect, useState } from 'react';
+import { View, Text, TextInput, Pressable, Modal, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { SOLID_COLORS } from '@/constants/colors';
+import { MAX_NOTE_LENGTH, formatUserRating } from '@/utils/user-ratings';
+import type { UserRating, UserRatingInput } from '@/types/ratings';
+import { StarRating } from './StarRating';
+
+export interface RatingEditorModalProps {
+  visible: boolean;
+  /** Title being rated, shown in the header */
+  title: string;
+  /** Current rating and note, if any */
+  userRating?: UserRating | null;
+  onSubmit: (input: UserRatingInput) => void;
+  onClose: () => void;
+}
+
+export function RatingEditorModal({
+  visible,
+  title,
+  userRating,
+  onSubmit,
+  onClose,
+}: RatingEditorModalProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+  const [rating, setRating] = useState<number | null>(null);
+  const [note, setNote] = useState('');
+
+  // Start from the saved rating each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setRating(userRating?.rating ?? null);
+      setNote(userRating?.note ?? '');
+    }
+  }, [visible, userRating]);
+
+  const handleSubmit = () => {
+    onSubmit({ rating, note });
+    onClose();
+  };
+
+  const handleClear = () => {
+    onSubmit({ rating: null, note: '' });
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: colors.background }]}>
+        <View style={styles.modalHeader}>
+          <Text style={[styles.modalTitle, { color: colors.text }]} numberOfLines={1}>
+            {t('ratings.rateTitle', { title })}
+          </Text>
+          <Pressable
+            onPress={onClose}
+            style={styles.modalCloseButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.close')}
+          >
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+        </View>
+
+        <View style={styles.modalContent}>
+          <View style={styles.starsRow}>
+            <StarRating
+              rating={rating}
+              size={40}
+              onChange={setRating}
+              testID="rating-editor-stars"
+            />
+            <Text style={[styles.ratingLabel, { color: colors.textSecondary }]}>
+              {formatUserRating(rating)}
+            </Text>
+          </View>
+
+          <TextInput
+            style={[
+              styles.noteInput,
+              {
+                color: colors.text,
+                backgroundColor: colors.backgroundSecondary,
+                borderColor: colors.border,
+              },
+            ]}
+            placeholder={t('ratings.notePlaceholder')}
+            placeholderTextColor={colors.textMuted}
+            value={note}
+            onChangeText={setNote}
+            maxLength={MAX_NOTE_LENGTH}
+            multiline
+            textAlignVertical="top"
+            accessibilityLabel={t('ratings.note')}
+            testID="rating-editor-note"
+          />
+
+          <Pressable
+            onPress={handleSubmit}
+            style={({ pressed }) => [
+              styles.submitButton,
+              { backgroundColor: colors.tint, opacity: pressed ? 0.7 : 1 },
+            ]}
+            accessibilityRole="button"
+            testID="rating-editor-save"
+          >
+            <Text style={styles.submitButtonText}>{t('common.save')}</Text>
+          </Pressable>
+
+          {userRating && (
+            <Pressable
+              onPress={handleClear}
+              style={({ pressed }) => [styles.clearButton, { opacity: pressed ? 0.7 : 1 }]}
+              accessibilityRole="button"
+              testID="rating-editor-clear"
+            >
+              <Text style={[styles.clearButtonText, { color: colors.error }]}>
+                {t('ratings.removeRatingAndNote')}
+              </Text>
+            </Pressable>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingTop: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: Typography.sizes.xl,
+    fontWeight: Typography.weights.bold,
+  },
+  modalCloseButton: {
+    padding: Spacing.sm,
+    minWidth: 44,
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  modalContent: {
+    paddingHorizontal: Spacing.md,
+    gap: Spacing.sm,
+  },
+  starsRow: {
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.md,
+  },
+  ratingLabel: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.medium,
+  },
+  noteInput: {
+    minHeight: 120,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    fontSize: Typography.sizes.md,
+  },
+  submitButton: {
+    minHeight: 44,
+    marginTop: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  submitButtonText: {
+    color: SOLID_COLORS.WHITE,
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.semibold,
+  },
+  clearButton: {
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  clearButtonText: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.medium,
+  },
+});
@@ -1,15 +1,21 @@
 /**
  * RatingsSection Component
- * Displays ratings from multiple sources with visual indicators
+ * Displays ratings from multiple sources with visual indicators,
+ * plus the user's own rating and note
  * 
  * Requirements: 4.2
  */
 
-import { StyleSheet, View, Text } from 'react-native';
+import { StyleSheet, View, Text, Pressable } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { formatUserRating } from '@/utils/user-ratings';
+import { formatCompactNumber, formatPercentage, formatRating } from '@/utils/formatting';
+import type { UserRating } from '@/types/ratings';
+import { StarRating } from './StarRating';
 
 export interface RatingSource {
   source: string;
@@ -25,6 +31,10 @@ export interface RatingsSectionProps {
   voteCount: number;
   /** Additional rating sources */
   additionalRatings?: RatingSource[];
+  /** The user's own rating and note */
+  userRating?: UserRating | null;
+  /** Opens the rating editor; the "Your rating" card is shown only when set */
+  onRatePress?: () => void;
   /** Test ID */
   testID?: string;
 }
@@ -48,7 +58,7 @@ interface RatingCardProps {
 function RatingCard({ source, value, maxValue, icon, textColor, secondaryColor, backgroundColor }: RatingCardProps) {
   const percentage = (value / maxValue) * 100;
   const ratingColor = getRatingColor(percentage);
-  const displayValue = maxValue === 10 ? value.toFixed(1) : `${Math.round(percentage)}%`;
+  const displayValue = maxValue === 10 ? formatRating(value) : formatPercentage(percentage / 100);
 
   return (
     <View style={[styles.ratingCard, { backgroundColor }]}>
@@ -72,39 +82,103 @@ function RatingCard({ source, value, maxValue, icon, textColor, secondaryColor,
   );
 }
 
+interface YourRatingCardProps {
+  userRating?: UserRating | null;
+  onPress: () => void;
+  textColor: string;
+  secondaryColor: string;
+  backgroundColor: string;
+  testID?: string;
+}
+
+function YourRatingCard({
+  userRating,
+  onPress,
+  textColor,
+  secondaryColor,
+  backgroundColor,
+  testID,
+}: YourRatingCardProps) {
+  const rating = userRating?.rating ?? null;
+  const note = userRating?.note ?? '';
+  const { t } = useLocalization();
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [styles.yourRatingCard, { backgroundColor, opacity: pressed ? 0.7 : 1 }]}
+      accessibilityRole="button"
+      accessibilityLabel={t('ratings.yourRatingLabel', { rating: formatUserRating(rating) })}
+      testID={testID}
+    >
+      <View style={styles.yourRatingHeader}>
+        <Text style={[styles.sourceText, { color: secondaryColor }]}>{t('ratings.yourRating')}</Text>
+        <Ionicons name="create-outline" size={16} color={secondaryColor} />
+      </View>
+      <View style={styles.yourRatingValue}>
+        <StarRating rating={rating} size={20} />
+        <Text style={[styles.yourRatingText, { color: rating === null ? secondaryColor : textColor }]}>
+          {rating === null ? t('ratings.tapToRate') : formatUserRating(rating)}
+        </Text>
+      </View>
+      {note.length > 0 && (
+        <Text style={[styles.noteText, { color: textColor }]} numberOfLines={3}>
+          {note}
+        </Text>
+      )}
+    </Pressable>
+  );
+}
+
 export function RatingsSection({
   voteAverage,
   voteCount,
   additionalRatings = [],
+  userRating,
+  onRatePress,
   testID,
 }: RatingsSectionProps) {
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const cardBackground = useThemeColor({}, 'backgroundSecondary');
+  const { t } = useLocalization();
 
-  if (voteAverage === null || voteAverage === 0) {
+  const hasVotes = voteAverage !== null && voteAverage !== 0;
+
+  // Titles without votes still show the section when the user can rate them
+  if (!hasVotes && !onRatePress) {
     return null;
   }
 
   const allRatings: RatingSource[] = [
-    {
-      source: 'TMDB',
-      value: voteAverage,
-      maxValue: 10,
-      icon: 'star',
-    },
+    ...(hasVotes
+      ? [{ source: 'TMDB', value: voteAverage, maxValue: 10, icon: 'star' as const }]
+      : []),
     ...additionalRatings,
   ];
 
   return (
     <View style={styles.container} testID={testID}>
       <View style={styles.headerRow}>
-        <Text style={[styles.sectionTitle, { color: textColor }]}>Ratings</Text>
-        <Text style={[styles.voteCount, { color: textSecondary }]}>
-          {voteCount.toLocaleString()} votes
-        </Text>
+        <Text style={[styles.sectionTitle, { color: textColor }]}>{t('ratings.title')}</Text>
+        {hasVotes && (
+          <Text style={[styles.voteCount, { color: textSecondary }]}>
+            {t('ratings.voteCount', { count: voteCount, formatted: formatCompactNumber(voteCount) })}
+          </Text>
+        )}
       </View>
-      
+
+      {onRatePress && (
+        <YourRatingCard
+          userRating={userRating}
+          onPress={onRatePress}
+          textColor={textColor}
+          secondaryColor={textSecondary}
+          backgroundColor={cardBackground}
+          testID={testID ? `${testID}-your-rating` : undefined}
+        />
+      )}
+
       <View style={styles.ratingsGrid}>
         {allRatings.map((rating, index) => (
           <RatingCard
@@ -152,6 +226,30 @@ const styles = StyleSheet.create({
     padding: Spacing.md,
     borderRadius: BorderRadius.lg,
   },
+  yourRatingCard: {
+    padding: Spacing.md,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  yourRatingHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  yourRatingValue: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  yourRatingText: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.semibold,
+  },
+  noteText: {
+    fontSize: Typography.sizes.sm,
+    lineHeight: 20,
+  },
   ratingHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1,11 +1,12 @@
 /**
  * RecommendationsRow Component
- * Displays a horizontal row of recommended titles
+ * Displays a horizontal row of recommended titles, optionally only those
+ * streaming on the user's services
  * 
  * Requirements: 4.8
  */
 
-import { useCallback } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import {
   StyleSheet,
   View,
@@ -14,8 +15,12 @@ import {
 } from 'react-native';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useAvailableToMe } from '@/hooks/use-available-to-me';
+import { useCertificationCeiling } from '@/hooks/use-certification-ceiling';
 import { Spacing, Typography, ComponentTokens } from '@/constants/theme';
 import { MediaCard } from '@/components/media/MediaCard';
+import { AvailableToMeChip } from '@/components/media/AvailableToMeChip';
 import type { MediaItem } from '@/types/media';
 
 const ITEM_SPACING = ComponentTokens.contentRow.itemSpacing;
@@ -25,6 +30,8 @@ export interface RecommendationsRowProps {
   recommendations: MediaItem[];
   /** Callback when an item is pressed */
   onItemPress: (id: number, mediaType: 'movie' | 'tv') => void;
+  /** Section title (default: "More Like This") */
+  title?: string;
   /** Test ID for testing */
   testID?: string;
 }
@@ -32,15 +39,23 @@ export interface RecommendationsRowProps {
 export function RecommendationsRow({
   recommendations,
   onItemPress,
+  title,
   testID,
 }: RecommendationsRowProps) {
   const textColor = useThemeColor({}, 'text');
+  const textSecondary = useThemeColor({}, 'textSecondary');
+  const { t } = useLocalization();
+  const [availableToMe, setAvailableToMe] = useState(false);
+  const { visibleTitles } = useCertificationCeiling(recommendations);
+  const shown = useMemo(() => visibleTitles(recommendations), [visibleTitles, recommendations]);
+  const { items, isChecking } = useAvailableToMe(shown, availableToMe);
 
   const renderItem = useCallback(
     ({ item }: { item: MediaItem }) => (
       <View style={styles.itemContainer}>
         <MediaCard
           id={item.id}
+          mediaType={item.mediaType}
           title={item.title}
           posterPath={item.posterPath}
           rating={item.voteAverage}
@@ -61,15 +76,29 @@ export function RecommendationsRow({
 
   return (
     <View style={styles.container} testID={testID}>
-      <Text
-        style={[styles.sectionTitle, { color: textColor }]}
-        accessibilityRole="header"
-      >
-        More Like This
-      </Text>
+      <View style={styles.header}>
+        <Text
+          style={[styles.sectionTitle, { color: textColor }]}
+          accessibilityRole="header"
+        >
+          {title ?? t('detail.moreLikeThis')}
+        </Text>
+        <AvailableToMeChip
+          isSelected={availableToMe}
+          isChecking={isChecking}
+          onPress={() => setAvailableToMe(on => !on)}
+          testID={testID ? `${testID}-available-to-me` : undefined}
+        />
+      </View>
+
+      {items.length === 0 && (
+        <Text style={[styles.emptyMessage, { color: textSecondary }]}>
+          {isChecking ? t('availability.checking') : t('availability.noneOnMyServices')}
+        </Text>
+      )}
       
       <FlatList
-        data={recommendations}
+        data={items}
         renderItem={renderItem}
         keyExtractor={(item) => `rec-${item.id}`}
         horizontal
@@ -93,10 +122,22 @@ const styles = StyleSheet.create({
   container: {
     paddingVertical: Spacing.md,
   },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+  },
   sectionTitle: {
+    flexShrink: 1,
     fontSize: Typography.sizes.lg,
     fontWeight: Typography.weights.bold,
-    marginBottom: Spacing.sm,
+  },
+  emptyMessage: {
+    fontSize: Typography.sizes.sm,
+    fontStyle: 'italic',
     paddingHorizontal: Spacing.lg,
   },
   listContent: {
@@ -104,7 +145,7 @@ const styles = StyleSheet.create({
     gap: ITEM_SPACING,
   },
   itemContainer: {
-    marginRight: ITEM_SPACING,
+    marginEnd: ITEM_SPACING,
   },
 });
 
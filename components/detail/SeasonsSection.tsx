@@ -1,6 +1,6 @@
 /**
  * SeasonsSection Component
- * Displays TV series seasons overview with episode counts
+ * Displays TV series seasons overview with episode counts and watch progress
  * 
  * Requirements: 4.2
  */
@@ -9,24 +9,42 @@ import { StyleSheet, View, Text, ScrollView, Pressable } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { ProgressBar } from '@/components/ui/ProgressBar';
+import { formatEpisodeLabel, getSeasonProgress, getSeriesProgress } from '@/utils/watch-progress';
 import type { MediaDetails } from '@/types/media';
+import type { EpisodeRef, SeriesProgress } from '@/types/progress';
 
 export interface SeasonsSectionProps {
   /** Media details (TV series) */
   details: MediaDetails;
   /** Callback when season is pressed */
   onSeasonPress?: (seasonNumber: number) => void;
+  /** Watch progress for the series (if tracked) */
+  progress?: SeriesProgress;
+  /** Next episode to watch */
+  nextEpisode?: EpisodeRef | null;
+  /** Callback when the next episode is pressed */
+  onNextEpisodePress?: (episode: EpisodeRef) => void;
   /** Test ID */
   testID?: string;
 }
 
-export function SeasonsSection({ details, onSeasonPress, testID }: SeasonsSectionProps) {
+export function SeasonsSection({
+  details,
+  onSeasonPress,
+  progress,
+  nextEpisode,
+  onNextEpisodePress,
+  testID,
+}: SeasonsSectionProps) {
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const tintColor = useThemeColor({}, 'tint');
   const cardBackground = useThemeColor({}, 'backgroundSecondary');
   const borderColor = useThemeColor({}, 'border');
+  const { t } = useLocalization();
 
   // Only show for TV series with seasons
   if (details.mediaType !== 'tv' || !details.numberOfSeasons) {
@@ -37,44 +55,90 @@ export function SeasonsSection({ details, onSeasonPress, testID }: SeasonsSectio
   const avgEpisodesPerSeason = details.numberOfEpisodes 
     ? Math.round(details.numberOfEpisodes / details.numberOfSeasons)
     : null;
+  const seriesProgress = getSeriesProgress(
+    progress && { ...progress, totalEpisodes: details.numberOfEpisodes ?? progress.totalEpisodes }
+  );
+  const hasProgress = seriesProgress.watched > 0;
 
   return (
     <View style={styles.container} testID={testID}>
       <View style={styles.headerRow}>
-        <Text style={[styles.sectionTitle, { color: textColor }]}>Seasons</Text>
+        <Text style={[styles.sectionTitle, { color: textColor }]}>{t('detail.info.seasons')}</Text>
         <Text style={[styles.totalInfo, { color: textSecondary }]}>
-          {details.numberOfSeasons} Season{details.numberOfSeasons !== 1 ? 's' : ''}
-          {details.numberOfEpisodes && ` • ${details.numberOfEpisodes} Episodes`}
+          {t('detail.seasonCount', { count: details.numberOfSeasons })}
+          {details.numberOfEpisodes && ` • ${t('detail.episodeCount', { count: details.numberOfEpisodes })}`}
         </Text>
       </View>
 
+      {/* Series progress and next episode */}
+      {hasProgress && (
+        <View style={styles.progressContainer} testID={testID ? `${testID}-progress` : undefined}>
+          <View style={styles.progressHeader}>
+            <Text style={[styles.progressText, { color: textSecondary }]}>
+              {seriesProgress.total
+                ? t('progress.watchedOfTotal', { watched: seriesProgress.watched, count: seriesProgress.total })
+                : t('progress.watched', { count: seriesProgress.watched })}
+            </Text>
+            {nextEpisode && (
+              <Pressable
+                onPress={() => onNextEpisodePress?.(nextEpisode)}
+                disabled={!onNextEpisodePress}
+                accessibilityRole="button"
+                accessibilityLabel={t('progress.upNextLabel', { season: nextEpisode.seasonNumber, episode: nextEpisode.episodeNumber })}
+                testID={testID ? `${testID}-next-episode` : undefined}
+              >
+                <Text style={[styles.nextEpisodeText, { color: tintColor }]}>
+                  {t('progress.upNext', { episode: formatEpisodeLabel(nextEpisode) })}
+                </Text>
+              </Pressable>
+            )}
+          </View>
+          <ProgressBar progress={seriesProgress.fraction} />
+        </View>
+      )}
+
       <ScrollView
         horizontal
         showsHorizontalScrollIndicator={false}
         contentContainerStyle={styles.scrollContent}
       >
-        {seasons.map((seasonNum) => (
-          <Pressable
-            key={seasonNum}
-            onPress={() => onSeasonPress?.(seasonNum)}
-            style={({ pressed }) => [
-              styles.seasonCard,
-              { backgroundColor: cardBackground, borderColor, opacity: pressed ? 0.7 : 1 },
-            ]}
-            accessibilityRole="button"
-            accessibilityLabel={`Season ${seasonNum}`}
-          >
-            <View style={[styles.seasonBadge, { backgroundColor: tintColor }]}>
-              <Text style={styles.seasonNumber}>{seasonNum}</Text>
-            </View>
-            <Text style={[styles.seasonLabel, { color: textColor }]}>Season {seasonNum}</Text>
-            {avgEpisodesPerSeason && (
-              <Text style={[styles.episodeCount, { color: textSecondary }]}>
-                ~{avgEpisodesPerSeason} eps
-              </Text>
-            )}
-          </Pressable>
-        ))}
+        {seasons.map((seasonNum) => {
+          const seasonProgress = getSeasonProgress(
+            progress,
+            seasonNum,
+            progress?.seasonEpisodeCounts[seasonNum] ?? avgEpisodesPerSeason
+          );
+
+          return (
+            <Pressable
+              key={seasonNum}
+              onPress={() => onSeasonPress?.(seasonNum)}
+              style={({ pressed }) => [
+                styles.seasonCard,
+                { backgroundColor: cardBackground, borderColor, opacity: pressed ? 0.7 : 1 },
+              ]}
+              accessibilityRole="button"
+              accessibilityLabel={
+                seasonProgress.watched > 0
+                  ? t('detail.seasonWatchedLabel', { season: seasonNum, count: seasonProgress.watched })
+                  : t('detail.seasonNumber', { season: seasonNum })
+              }
+            >
+              <View style={[styles.seasonBadge, { backgroundColor: tintColor }]}>
+                <Text style={styles.seasonNumber}>{seasonNum}</Text>
+              </View>
+              <Text style={[styles.seasonLabel, { color: textColor }]}>{t('detail.seasonNumber', { season: seasonNum })}</Text>
+              {avgEpisodesPerSeason && (
+                <Text style={[styles.episodeCount, { color: textSecondary }]}>
+                  {t('detail.approxEpisodes', { count: avgEpisodesPerSeason })}
+                </Text>
+              )}
+              {seasonProgress.watched > 0 && (
+                <ProgressBar progress={seasonProgress.fraction} style={styles.seasonProgress} />
+              )}
+            </Pressable>
+          );
+        })}
       </ScrollView>
 
       {/* Series Status */}
@@ -86,7 +150,7 @@ export function SeasonsSection({ details, onSeasonPress, testID }: SeasonsSectio
             color={details.status === 'Ended' ? '#22C55E' : tintColor} 
           />
           <Text style={[styles.statusText, { color: textColor }]}>
-            {details.status === 'Ended' ? 'Series Completed' : 'Currently Airing'}
+            {details.status === 'Ended' ? t('detail.seriesCompleted') : t('detail.currentlyAiring')}
           </Text>
         </View>
       )}
@@ -112,6 +176,23 @@ const styles = StyleSheet.create({
   totalInfo: {
     fontSize: Typography.sizes.sm,
   },
+  progressContainer: {
+    paddingHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+    gap: Spacing.xs,
+  },
+  progressHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  progressText: {
+    fontSize: Typography.sizes.sm,
+  },
+  nextEpisodeText: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.semibold,
+  },
   scrollContent: {
     paddingHorizontal: Spacing.lg,
     gap: Spacing.sm,
@@ -145,6 +226,9 @@ const styles = StyleSheet.create({
     fontSize: Typography.sizes.xs,
     marginTop: 2,
   },
+  seasonProgress: {
+    marginTop: Spacing.xs,
+  },
   statusContainer: {
     flexDirection: 'row',
     alignItems: 'center',
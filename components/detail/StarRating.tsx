@@ -0,0 +1,87 @@
+/**
+ * StarRating Component
+ * Five-star display of a 0-10 personal rating, with optional half-star input
+ */
+
+import { StyleSheet, View, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { SOLID_COLORS } from '@/constants/colors';
+import { getStarFills, type StarFill } from '@/utils/user-ratings';
+
+export interface StarRatingProps {
+  /** Rating 0-10 (null shows empty stars) */
+  rating: number | null;
+  /** Star size */
+  size?: number;
+  /** Called with the tapped value; omit for a read-only display */
+  onChange?: (rating: number) => void;
+  /** Test ID */
+  testID?: string;
+}
+
+const STAR_ICONS: Record<StarFill, keyof typeof Ionicons.glyphMap> = {
+  full: 'star',
+  half: 'star-half',
+  empty: 'star-outline',
+};
+
+export function StarRating({ rating, size = 16, onChange, testID }: StarRatingProps) {
+  const emptyColor = useThemeColor({}, 'textSecondary');
+  const { t } = useLocalization();
+
+  return (
+    <View
+      style={styles.container}
+      testID={testID}
+      accessibilityRole={onChange ? 'adjustable' : undefined}
+    >
+      {getStarFills(rating).map((fill, index) => (
+        <View key={index} style={{ width: size, height: size }}>
+          <Ionicons
+            name={STAR_ICONS[fill]}
+            size={size}
+            color={fill === 'empty' ? emptyColor : SOLID_COLORS.GOLD}
+          />
+          {onChange && (
+            // Left half of a star sets a half star, right half a full star
+            <View style={styles.hitAreas}>
+              <Pressable
+                style={styles.hitArea}
+                onPress={() => onChange(index * 2 + 1)}
+                accessibilityRole="button"
+                accessibilityLabel={t('ratings.stars', { count: index + 0.5 })}
+                testID={testID ? `${testID}-${index * 2 + 1}` : undefined}
+              />
+              <Pressable
+                style={styles.hitArea}
+                onPress={() => onChange(index * 2 + 2)}
+                accessibilityRole="button"
+                accessibilityLabel={t('ratings.stars', { count: index + 1 })}
+                testID={testID ? `${testID}-${index * 2 + 2}` : undefined}
+              />
+            </View>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  hitAreas: {
+    ...StyleSheet.absoluteFillObject,
+    flexDirection: 'row',
+  },
+  hitArea: {
+    flex: 1,
+  },
+});
+
+export default StarRating;
@@ -17,6 +17,7 @@ import {
 } from 'react-native';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, ComponentTokens } from '@/constants/theme';
 import { shouldSynopsisExpand } from './detail-utils';
 
@@ -30,16 +31,19 @@ const COLLAPSED_LINES = ComponentTokens.synopsis.collapsedLines;
 export interface SynopsisProps {
   /** Synopsis text to display */
   overview: string;
+  /** Section title (default: "Synopsis") */
+  title?: string;
   /** Test ID for testing */
   testID?: string;
 }
 
-export function Synopsis({ overview, testID }: SynopsisProps) {
+export function Synopsis({ overview, title, testID }: SynopsisProps) {
   const [isExpanded, setIsExpanded] = useState(false);
   
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
 
   const isExpandable = shouldSynopsisExpand(overview);
 
@@ -58,7 +62,7 @@ export function Synopsis({ overview, testID }: SynopsisProps) {
         style={[styles.sectionTitle, { color: textColor }]}
         accessibilityRole="header"
       >
-        Synopsis
+        {title ?? t('detail.synopsis')}
       </Text>
       
       <Text
@@ -77,12 +81,12 @@ export function Synopsis({ overview, testID }: SynopsisProps) {
             { opacity: pressed ? 0.7 : 1 },
           ]}
           accessibilityRole="button"
-          accessibilityLabel={isExpanded ? 'Show less' : 'Show more'}
-          accessibilityHint={isExpanded ? 'Collapse synopsis' : 'Expand synopsis'}
+          accessibilityLabel={isExpanded ? t('detail.showLess') : t('detail.showMore')}
+          accessibilityHint={isExpanded ? t('detail.collapseSynopsis') : t('detail.expandSynopsis')}
           testID={testID ? `${testID}-toggle` : undefined}
         >
           <Text style={[styles.toggleText, { color: tintColor }]}>
-            {isExpanded ? 'Show Less' : 'Show More'}
+            {isExpanded ? t('detail.showLess') : t('detail.showMore')}
           </Text>
         </Pressable>
       )}
@@ -0,0 +1,110 @@
+/**
+ * WatchlistStatusPicker Component
+ * Lets the user set a watchlisted title's viewing status from its detail page
+ */
+
+import { useCallback } from 'react';
+import { StyleSheet, View, Text, Pressable, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import * as Haptics from 'expo-haptics';
+
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { Spacing, Typography, BorderRadius, ComponentTokens } from '@/constants/theme';
+import { SOLID_COLORS } from '@/constants/colors';
+import { WATCHLIST_STATUSES } from '@/constants/profile';
+import type { WatchlistStatus } from '@/types/watchlist';
+
+export interface WatchlistStatusPickerProps {
+  /** Current status */
+  status: WatchlistStatus;
+  /** Callback when a status is chosen */
+  onStatusChange: (status: WatchlistStatus) => void;
+  /** Test ID */
+  testID?: string;
+}
+
+export function WatchlistStatusPicker({
+  status,
+  onStatusChange,
+  testID,
+}: WatchlistStatusPickerProps) {
+  const backgroundColor = useThemeColor({}, 'backgroundSecondary');
+  const textColor = useThemeColor({}, 'text');
+  const textSecondary = useThemeColor({}, 'textSecondary');
+  const tintColor = useThemeColor({}, 'tint');
+  const borderColor = useThemeColor({}, 'border');
+  const { t } = useLocalization();
+
+  const handlePress = useCallback(async (next: WatchlistStatus) => {
+    if (next === status) return;
+    if (Platform.OS !== 'web') {
+      await Haptics.selectionAsync();
+    }
+    onStatusChange(next);
+  }, [status, onStatusChange]);
+
+  return (
+    <View style={[styles.container, { borderColor }]} testID={testID}>
+      <Text style={[styles.label, { color: textSecondary }]}>{t('detail.info.status')}</Text>
+      <View style={styles.options}>
+        {WATCHLIST_STATUSES.map((option) => {
+          const isSelected = option.value === status;
+          const contentColor = isSelected ? SOLID_COLORS.WHITE : textColor;
+          return (
+            <Pressable
+              key={option.value}
+              onPress={() => handlePress(option.value)}
+              style={({ pressed }) => [
+                styles.option,
+                {
+                  backgroundColor: isSelected ? tintColor : backgroundColor,
+                  opacity: pressed ? 0.7 : 1,
+                },
+              ]}
+              accessibilityRole="radio"
+              accessibilityState={{ selected: isSelected }}
+              accessibilityLabel={t(option.labelKey)}
+              testID={testID ? `${testID}-${option.value}` : undefined}
+            >
+              <Ionicons name={option.icon} size={18} color={contentColor} />
+              <Text style={[styles.optionLabel, { color: contentColor }]} numberOfLines={1}>
+                {t(option.labelKey)}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    borderBottomWidth: 1,
+    gap: Spacing.sm,
+  },
+  label: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: Spacing.xs,
+  },
+  option: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    minHeight: ComponentTokens.touchTarget.min,
+  },
+  optionLabel: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.medium,
+  },
+});
@@ -8,6 +8,8 @@
 import type { MediaDetails, CastMember, StreamingProvider, Genre } from '@/types/media';
 import { ComponentTokens } from '@/constants/theme';
 import { API_BASE_URLS } from '@/constants/api';
+import { t } from '@/services/localization';
+import { formatRating as formatLocaleRating } from '@/utils/formatting';
 
 /** Check if mock data mode is enabled */
 function isMockDataMode(): boolean {
@@ -53,20 +55,6 @@ export function getProviderLogoUrl(logoPath: string | null, size: string = 'w92'
   return `${API_BASE_URLS.TMDB_IMAGES}/${size}${logoPath}`;
 }
 
-/**
- * Format runtime to hours and minutes
- * @param runtime - Runtime in minutes
- * @returns Formatted string like "2h 15m" or null if no runtime
- */
-export function formatRuntime(runtime: number | null): string | null {
-  if (!runtime || runtime <= 0) return null;
-  const hours = Math.floor(runtime / 60);
-  const minutes = runtime % 60;
-  if (hours === 0) return `${minutes}m`;
-  if (minutes === 0) return `${hours}h`;
-  return `${hours}h ${minutes}m`;
-}
-
 /**
  * Format release year from date string
  * @param releaseDate - ISO date string
@@ -85,7 +73,7 @@ export function formatReleaseYear(releaseDate: string): string {
  */
 export function formatRating(rating: number | null): string | null {
   if (rating === null || rating === undefined || rating <= 0) return null;
-  return rating.toFixed(1);
+  return formatLocaleRating(rating);
 }
 
 /**
@@ -190,14 +178,15 @@ export function generateDetailAccessibilityLabel(details: MediaDetails): string
   if (year) parts.push(year);
   
   if (details.genres.length > 0) {
-    parts.push(details.genres.slice(0, 2).map(g => g.name).join(' and '));
+    const [first, second] = details.genres;
+    parts.push(second ? t('common.twoItems', { first: first.name, second: second.name }) : first.name);
   }
   
   const rating = formatRating(details.voteAverage);
-  if (rating) parts.push(`rated ${rating} out of 10`);
+  if (rating) parts.push(t('mediaCard.ratedOutOf10', { rating }));
   
   if (details.ageRating) {
-    parts.push(`age rating ${details.ageRating}`);
+    parts.push(t('mediaCard.ageRating', { rating: details.ageRating }));
   }
   
   return parts.join(', ');
@@ -209,7 +198,7 @@ export function generateDetailAccessibilityLabel(details: MediaDetails): string
  * @returns Accessibility label string
  */
 export function generateCastAccessibilityLabel(member: CastMember): string {
-  return `${member.name} as ${member.character}`;
+  return t('detail.castMemberLabel', { name: member.name, character: member.character });
 }
 
 /**
@@ -218,8 +207,6 @@ export function generateCastAccessibilityLabel(member: CastMember): string {
  * @returns Accessibility label string
  */
 export function generateProviderAccessibilityLabel(provider: StreamingProvider): string {
-  const typeLabel = provider.type === 'flatrate' ? 'Stream on' : 
-                    provider.type === 'rent' ? 'Rent on' : 'Buy on';
-  const availabilityLabel = provider.isAvailable ? '' : ', currently unavailable';
-  return `${typeLabel} ${provider.providerName}${availabilityLabel}`;
+  const label = t(`detail.providerLabel.${provider.type}`, { name: provider.providerName });
+  return provider.isAvailable ? label : t('detail.providerUnavailable', { label });
 }
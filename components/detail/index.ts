@@ -14,6 +14,9 @@ export { RatingsSection } from './RatingsSection';
 export { GenreTags } from './GenreTags';
 export { ProductionInfo } from './ProductionInfo';
 export { SeasonsSection } from './SeasonsSection';
+export { WatchlistStatusPicker } from './WatchlistStatusPicker';
+export { StarRating } from './StarRating';
+export { RatingEditorModal } from './RatingEditorModal';
 
 // Utility exports
 export * from './detail-utils';
@@ -0,0 +1,187 @@
+/**
+ * DiaryCalendar Component
+ * Month grid marking the days that have diary entries
+ */
+
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { useLayoutDirection } from '@/hooks/use-layout-direction';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { SOLID_COLORS } from '@/constants/colors';
+import { formatDate, getWeekdayNames } from '@/utils/formatting';
+import { getCalendarWeeks, parseDiaryDate } from '@/utils/diary';
+import type { DiaryMonth } from '@/types/diary';
+
+export interface DiaryCalendarProps {
+  /** Month shown (YYYY-MM) */
+  month: DiaryMonth;
+  /** Entry count per day (YYYY-MM-DD) */
+  entryCounts: Record<string, number>;
+  /** Selected day, if any */
+  selectedDate: string | null;
+  /** Today (YYYY-MM-DD), highlighted in the grid */
+  today: string;
+  onSelectDate: (date: string) => void;
+  onPreviousMonth: () => void;
+  onNextMonth: () => void;
+  /** Whether a later month can be shown */
+  canGoNext: boolean;
+}
+
+export function DiaryCalendar({
+  month,
+  entryCounts,
+  selectedDate,
+  today,
+  onSelectDate,
+  onPreviousMonth,
+  onNextMonth,
+  canGoNext,
+}: DiaryCalendarProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+  const { directionalIcon } = useLayoutDirection();
+  const monthLabel = formatDate(parseDiaryDate(`${month}-01`), { year: 'numeric', month: 'long', day: undefined });
+  const weekdays = getWeekdayNames();
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.card, borderColor: colors.cardBorder }]} testID="diary-calendar">
+      <View style={styles.header}>
+        <Pressable
+          onPress={onPreviousMonth}
+          style={styles.navButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('diary.previousMonth')}
+          testID="diary-calendar-previous"
+        >
+          <Ionicons name={directionalIcon('chevron-back')} size={20} color={colors.text} />
+        </Pressable>
+        <Text style={[styles.monthLabel, { color: colors.text }]}>{monthLabel}</Text>
+        <Pressable
+          onPress={onNextMonth}
+          disabled={!canGoNext}
+          style={[styles.navButton, { opacity: canGoNext ? 1 : 0.3 }]}
+          accessibilityRole="button"
+          accessibilityLabel={t('diary.nextMonth')}
+          accessibilityState={{ disabled: !canGoNext }}
+          testID="diary-calendar-next"
+        >
+          <Ionicons name={directionalIcon('chevron-forward')} size={20} color={colors.text} />
+        </Pressable>
+      </View>
+
+      <View style={styles.week}>
+        {weekdays.map((day, index) => (
+          <Text key={index} style={[styles.weekday, { color: colors.textSecondary }]}>
+            {day}
+          </Text>
+        ))}
+      </View>
+
+      {getCalendarWeeks(month).map((week, weekIndex) => (
+        <View key={weekIndex} style={styles.week}>
+          {week.map((date, dayIndex) => {
+            if (!date) {
+              return <View key={dayIndex} style={styles.day} />;
+            }
+            const count = entryCounts[date] ?? 0;
+            const isSelected = date === selectedDate;
+            const isToday = date === today;
+
+            return (
+              <Pressable
+                key={date}
+                onPress={() => onSelectDate(date)}
+                style={[
+                  styles.day,
+                  isSelected && { backgroundColor: colors.tint },
+                  isToday && !isSelected && { borderColor: colors.tint, borderWidth: 1 },
+                ]}
+                accessibilityRole="button"
+                accessibilityLabel={t('diary.dayLabel', { date: formatDate(parseDiaryDate(date)), count })}
+                accessibilityState={{ selected: isSelected }}
+                testID={`diary-calendar-day-${date}`}
+              >
+                <Text
+                  style={[
+                    styles.dayNumber,
+                    { color: isSelected ? SOLID_COLORS.WHITE : colors.text },
+                    count > 0 && styles.dayNumberActive,
+                  ]}
+                >
+                  {Number(date.slice(8))}
+                </Text>
+                {count > 0 && (
+                  <View
+                    style={[
+                      styles.dot,
+                      { backgroundColor: isSelected ? SOLID_COLORS.WHITE : colors.tint },
+                    ]}
+                  />
+                )}
+              </Pressable>
+            );
+          })}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    padding: Spacing.sm,
+    marginBottom: Spacing.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing.xs,
+  },
+  navButton: {
+    minWidth: 44,
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  monthLabel: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.semibold,
+  },
+  week: {
+    flexDirection: 'row',
+  },
+  weekday: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.medium,
+    paddingVertical: Spacing.xs,
+  },
+  day: {
+    flex: 1,
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: BorderRadius.full,
+  },
+  dayNumber: {
+    fontSize: Typography.sizes.sm,
+  },
+  dayNumberActive: {
+    fontWeight: Typography.weights.bold,
+  },
+  dot: {
+    width: 4,
+    height: 4,
+    borderRadius: 2,
+    marginTop: 2,
+  },
+});
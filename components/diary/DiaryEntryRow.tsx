@@ -0,0 +1,145 @@
+/**
+ * DiaryEntryRow Component
+ * A logged watch in the diary timeline or calendar day list
+ */
+
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { useLayoutDirection } from '@/hooks/use-layout-direction';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
+import { getPosterUrl } from '@/components/media/media-card-utils';
+import { formatEpisodeLabel } from '@/utils/watch-progress';
+import type { DiaryEntry } from '@/types/diary';
+
+const POSTER_WIDTH = 40;
+const POSTER_HEIGHT = POSTER_WIDTH * 1.5;
+
+export interface DiaryEntryRowProps {
+  entry: DiaryEntry;
+  /** Opens the entry for editing */
+  onPress: () => void;
+  testID?: string;
+}
+
+export function DiaryEntryRow({ entry, onPress, testID }: DiaryEntryRowProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+  const { directionalIcon } = useLayoutDirection();
+  const posterUrl = getPosterUrl(entry.posterPath, 'small');
+  const episodeLabel = entry.episode ? formatEpisodeLabel(entry.episode) : null;
+
+  return (
+    <Pressable
+      onPress={onPress}
+      style={({ pressed }) => [
+        styles.container,
+        { backgroundColor: colors.card, borderColor: colors.cardBorder, opacity: pressed ? 0.7 : 1 },
+      ]}
+      accessibilityRole="button"
+      accessibilityLabel={[
+        entry.title,
+        episodeLabel,
+        entry.isRewatch ? t('diary.rewatchLabel') : null,
+        t('diary.tapToEdit'),
+      ].filter(Boolean).join(', ')}
+      testID={testID ?? `diary-entry-${entry.entryId}`}
+    >
+      <View style={[styles.posterContainer, { backgroundColor: colors.backgroundSecondary }]}>
+        {posterUrl ? (
+          <Image
+            source={posterUrl === 'placeholder' ? PlaceholderImages.poster : { uri: posterUrl }}
+            style={styles.poster}
+            contentFit="cover"
+            placeholder={{ blurhash: BLURHASH_PLACEHOLDER }}
+            transition={200}
+            cachePolicy="memory-disk"
+          />
+        ) : (
+          <Ionicons
+            name={entry.mediaType === 'movie' ? 'film-outline' : 'tv-outline'}
+            size={18}
+            color={colors.textSecondary}
+          />
+        )}
+      </View>
+
+      <View style={styles.info}>
+        <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+          {entry.title}
+        </Text>
+        <View style={styles.metaRow}>
+          <Text style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={1}>
+            {episodeLabel ?? (entry.mediaType === 'movie' ? t('common.movie') : t('diary.tvSeries'))}
+          </Text>
+          {entry.isRewatch && (
+            <View style={styles.rewatch}>
+              <Ionicons name="repeat" size={12} color={colors.tint} />
+              <Text style={[styles.meta, { color: colors.tint }]}>{t('diary.rewatch')}</Text>
+            </View>
+          )}
+        </View>
+        {entry.note.length > 0 && (
+          <Text style={[styles.note, { color: colors.textSecondary }]} numberOfLines={2}>
+            {entry.note}
+          </Text>
+        )}
+      </View>
+
+      <Ionicons name={directionalIcon('chevron-forward')} size={18} color={colors.icon} />
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    padding: Spacing.sm,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+  },
+  posterContainer: {
+    width: POSTER_WIDTH,
+    height: POSTER_HEIGHT,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  poster: {
+    width: '100%',
+    height: '100%',
+  },
+  info: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.medium,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  meta: {
+    fontSize: Typography.sizes.xs,
+  },
+  rewatch: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  note: {
+    fontSize: Typography.sizes.sm,
+  },
+});
@@ -0,0 +1,243 @@
+/**
+ * DiaryView Component
+ * Profile diary tab: a day-by-day timeline or a month calendar of logged watches
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  Pressable,
+  SectionList,
+  FlatList,
+  RefreshControl,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { SOLID_COLORS } from '@/constants/colors';
+import { EmptyState } from '@/components/ui/EmptyState';
+import { formatDate } from '@/utils/formatting';
+import {
+  countEntriesByDay,
+  groupDiaryByDay,
+  parseDiaryDate,
+  shiftDiaryMonth,
+  toDiaryDate,
+  toDiaryMonth,
+} from '@/utils/diary';
+import type { DiaryEntry, DiaryMonth } from '@/types/diary';
+import { DiaryEntryRow } from './DiaryEntryRow';
+import { DiaryCalendar } from './DiaryCalendar';
+
+export interface DiaryViewProps {
+  /** Loaded entries, most recent first */
+  entries: DiaryEntry[];
+  /** Oldest month loaded so far */
+  oldestLoadedMonth: DiaryMonth | null;
+  hasMore: boolean;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+  onRefresh: () => void;
+  onEntryPress: (entry: DiaryEntry) => void;
+  /** Empty state action */
+  onBrowse: () => void;
+}
+
+type DiaryMode = 'timeline' | 'calendar';
+
+export function DiaryView({
+  entries,
+  oldestLoadedMonth,
+  hasMore,
+  isLoading,
+  isLoadingMore,
+  onLoadMore,
+  onRefresh,
+  onEntryPress,
+  onBrowse,
+}: DiaryViewProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+  const today = toDiaryDate(new Date());
+
+  const [mode, setMode] = useState<DiaryMode>('timeline');
+  const [month, setMonth] = useState<DiaryMonth>(toDiaryMonth(today));
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+
+  const days = useMemo(() => groupDiaryByDay(entries), [entries]);
+  const entryCounts = useMemo(() => countEntriesByDay(entries), [entries]);
+  const selectedEntries = useMemo(
+    () => (selectedDate ? entries.filter(e => e.watchedOn === selectedDate) : []),
+    [entries, selectedDate]
+  );
+
+  // Load older pages as the calendar goes back past what's loaded
+  const needsOlderMonths = mode === 'calendar' && hasMore && oldestLoadedMonth !== null && month < oldestLoadedMonth;
+  useEffect(() => {
+    if (needsOlderMonths && !isLoadingMore) {
+      onLoadMore();
+    }
+  }, [needsOlderMonths, isLoadingMore, onLoadMore]);
+
+  const changeMonth = (offset: number) => {
+    setMonth(current => shiftDiaryMonth(current, offset));
+    setSelectedDate(null);
+  };
+
+  const formatDay = (date: string) =>
+    formatDate(parseDiaryDate(date), { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+
+  const modeSwitch = (
+    <View style={[styles.modeSwitch, { backgroundColor: colors.backgroundSecondary }]}>
+      {([
+        { value: 'timeline', labelKey: 'diary.timeline', icon: 'list' },
+        { value: 'calendar', labelKey: 'diary.calendar', icon: 'calendar' },
+      ] as const).map(option => {
+        const isSelected = mode === option.value;
+        const contentColor = isSelected ? SOLID_COLORS.WHITE : colors.text;
+        return (
+          <Pressable
+            key={option.value}
+            onPress={() => setMode(option.value)}
+            style={[styles.modeButton, isSelected && { backgroundColor: colors.tint }]}
+            accessibilityRole="button"
+            accessibilityState={{ selected: isSelected }}
+            testID={`diary-mode-${option.value}`}
+          >
+            <Ionicons name={option.icon} size={16} color={contentColor} />
+            <Text style={[styles.modeLabel, { color: contentColor }]}>{t(option.labelKey)}</Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  if (entries.length === 0 && !hasMore && !isLoading) {
+    return (
+      <EmptyState
+        title={t('diary.emptyTitle')}
+        message={t('diary.emptyMessage')}
+        icon="calendar-outline"
+        actionText={t('diary.browseContent')}
+        onAction={onBrowse}
+        testID="diary-empty"
+      />
+    );
+  }
+
+  const refreshControl = (
+    <RefreshControl refreshing={isLoading} onRefresh={onRefresh} tintColor={colors.tint} />
+  );
+
+  if (mode === 'calendar') {
+    return (
+      <FlatList
+        data={selectedEntries}
+        keyExtractor={(entry) => entry.entryId}
+        renderItem={({ item }) => (
+          <DiaryEntryRow entry={item} onPress={() => onEntryPress(item)} />
+        )}
+        ListHeaderComponent={
+          <>
+            {modeSwitch}
+            <DiaryCalendar
+              month={month}
+              entryCounts={entryCounts}
+              selectedDate={selectedDate}
+              today={today}
+              onSelectDate={setSelectedDate}
+              onPreviousMonth={() => changeMonth(-1)}
+              onNextMonth={() => changeMonth(1)}
+              canGoNext={month < toDiaryMonth(today)}
+            />
+            {selectedDate && (
+              <Text style={[styles.dayHeader, { color: colors.text }]}>{formatDay(selectedDate)}</Text>
+            )}
+          </>
+        }
+        ListEmptyComponent={
+          needsOlderMonths ? (
+            <ActivityIndicator color={colors.tint} style={styles.footer} />
+          ) : selectedDate ? (
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>{t('diary.nothingLogged')}</Text>
+          ) : null
+        }
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={refreshControl}
+        testID="diary-calendar-list"
+      />
+    );
+  }
+
+  return (
+    <SectionList
+      sections={days.map(day => ({ title: day.date, data: day.entries }))}
+      keyExtractor={(entry) => entry.entryId}
+      renderItem={({ item }) => (
+        <DiaryEntryRow entry={item} onPress={() => onEntryPress(item)} />
+      )}
+      renderSectionHeader={({ section }) => (
+        <Text style={[styles.dayHeader, { color: colors.text, backgroundColor: colors.background }]}>
+          {formatDay(section.title)}
+        </Text>
+      )}
+      ListHeaderComponent={modeSwitch}
+      ListFooterComponent={
+        isLoadingMore ? <ActivityIndicator color={colors.tint} style={styles.footer} /> : null
+      }
+      onEndReached={hasMore ? onLoadMore : undefined}
+      onEndReachedThreshold={0.5}
+      contentContainerStyle={styles.listContent}
+      showsVerticalScrollIndicator={false}
+      refreshControl={refreshControl}
+      testID="diary-timeline"
+    />
+  );
+}
+
+const styles = StyleSheet.create({
+  listContent: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.xl,
+  },
+  modeSwitch: {
+    flexDirection: 'row',
+    borderRadius: BorderRadius.md,
+    padding: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  modeButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  modeLabel: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+  },
+  dayHeader: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.semibold,
+    paddingVertical: Spacing.sm,
+  },
+  emptyText: {
+    fontSize: Typography.sizes.sm,
+    textAlign: 'center',
+    paddingVertical: Spacing.lg,
+  },
+  footer: {
+    paddingVertical: Spacing.lg,
+  },
+});
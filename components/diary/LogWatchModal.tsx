@@ -0,0 +1,394 @@
+/**
+ * LogWatchModal Component
+ * Modal for logging a watch to the diary, or editing and deleting an entry
+ */
+
+import { useEffect, useState } from 'react';
+import { View, Text, TextInput, Pressable, Modal, ScrollView, Switch, Alert, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { SOLID_COLORS } from '@/constants/colors';
+import { toDiaryDate, validateDiaryDate } from '@/utils/diary';
+import type { DiaryEntry, DiaryEntryInput } from '@/types/diary';
+import type { EpisodeRef } from '@/types/progress';
+
+export interface LogWatchModalProps {
+  visible: boolean;
+  /** Title being logged, shown in the header */
+  title: string;
+  mediaType: 'movie' | 'tv';
+  /** Entry being edited; omit to log a new watch */
+  entry?: DiaryEntry | null;
+  /** Pre-set the rewatch switch for new entries */
+  suggestRewatch?: boolean;
+  /** Episode pre-filled for new series entries */
+  defaultEpisode?: EpisodeRef | null;
+  onSubmit: (input: DiaryEntryInput) => void;
+  /** Deletes the entry being edited */
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+/** Parse an episode field; empty means no episode */
+const parseEpisodeNumber = (value: string): number | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  const number = Number(trimmed);
+  return Number.isInteger(number) && number >= 0 ? number : NaN;
+};
+
+export function LogWatchModal({
+  visible,
+  title,
+  mediaType,
+  entry,
+  suggestRewatch = false,
+  defaultEpisode,
+  onSubmit,
+  onDelete,
+  onClose,
+}: LogWatchModalProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+  const [watchedOn, setWatchedOn] = useState('');
+  const [seasonNumber, setSeasonNumber] = useState('');
+  const [episodeNumber, setEpisodeNumber] = useState('');
+  const [isRewatch, setIsRewatch] = useState(false);
+  const [note, setNote] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const today = toDiaryDate(new Date());
+  const yesterday = toDiaryDate(new Date(Date.now() - 24 * 60 * 60 * 1000));
+
+  // Start from the entry (or today) each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      const episode = entry ? entry.episode : defaultEpisode;
+      setWatchedOn(entry?.watchedOn ?? toDiaryDate(new Date()));
+      setSeasonNumber(episode ? String(episode.seasonNumber) : '');
+      setEpisodeNumber(episode ? String(episode.episodeNumber) : '');
+      setIsRewatch(entry?.isRewatch ?? suggestRewatch);
+      setNote(entry?.note ?? '');
+      setFormError(null);
+    }
+  }, [visible, entry, suggestRewatch, defaultEpisode]);
+
+  const handleSubmit = () => {
+    const dateError = validateDiaryDate(watchedOn, today);
+    if (dateError) {
+      setFormError(dateError);
+      return;
+    }
+
+    let episode: EpisodeRef | null = null;
+    if (mediaType === 'tv') {
+      const season = parseEpisodeNumber(seasonNumber);
+      const number = parseEpisodeNumber(episodeNumber);
+      if ((season === null) !== (number === null) || Number.isNaN(season) || Number.isNaN(number)) {
+        setFormError(t('diary.episodeError'));
+        return;
+      }
+      if (season !== null && number !== null) {
+        episode = { seasonNumber: season, episodeNumber: number };
+      }
+    }
+
+    onSubmit({ watchedOn: watchedOn.trim(), isRewatch, note, episode });
+    onClose();
+  };
+
+  const handleDelete = () => {
+    Alert.alert(
+      t('diary.deleteEntry'),
+      t('diary.deleteConfirm', { title }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: () => {
+            onDelete?.();
+            onClose();
+          },
+        },
+      ]
+    );
+  };
+
+  const inputStyle = {
+    color: colors.text,
+    backgroundColor: colors.backgroundSecondary,
+    borderColor: colors.border,
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: colors.background }]}>
+        <View style={styles.modalHeader}>
+          <Text style={[styles.modalTitle, { color: colors.text }]} numberOfLines={1}>
+            {entry ? t('diary.editEntry') : t('diary.logTitle', { title })}
+          </Text>
+          <Pressable
+            onPress={onClose}
+            style={styles.modalCloseButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.close')}
+          >
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.modalContent} keyboardShouldPersistTaps="handled">
+          <Text style={[styles.label, { color: colors.textSecondary }]}>{t('diary.watchedOn')}</Text>
+          <View style={styles.dateRow}>
+            {[
+              { label: t('common.today'), value: today },
+              { label: t('diary.yesterday'), value: yesterday },
+            ].map(option => {
+              const isSelected = watchedOn === option.value;
+              return (
+                <Pressable
+                  key={option.label}
+                  onPress={() => {
+                    setWatchedOn(option.value);
+                    setFormError(null);
+                  }}
+                  style={[
+                    styles.dateChip,
+                    {
+                      backgroundColor: isSelected ? colors.tint : colors.backgroundSecondary,
+                      borderColor: isSelected ? colors.tint : colors.border,
+                    },
+                  ]}
+                  accessibilityRole="button"
+                  accessibilityState={{ selected: isSelected }}
+                >
+                  <Text style={[styles.dateChipText, { color: isSelected ? SOLID_COLORS.WHITE : colors.text }]}>
+                    {option.label}
+                  </Text>
+                </Pressable>
+              );
+            })}
+            <TextInput
+              style={[styles.input, styles.dateInput, inputStyle]}
+              placeholder="YYYY-MM-DD"
+              placeholderTextColor={colors.textMuted}
+              value={watchedOn}
+              onChangeText={(text) => {
+                setWatchedOn(text);
+                setFormError(null);
+              }}
+              maxLength={10}
+              keyboardType="numbers-and-punctuation"
+              accessibilityLabel={t('diary.dateWatched')}
+              testID="log-watch-date"
+            />
+          </View>
+
+          {mediaType === 'tv' && (
+            <>
+              <Text style={[styles.label, { color: colors.textSecondary }]}>
+                {t('diary.episodeHint')}
+              </Text>
+              <View style={styles.episodeRow}>
+                <TextInput
+                  style={[styles.input, styles.episodeInput, inputStyle]}
+                  placeholder={t('diary.season')}
+                  placeholderTextColor={colors.textMuted}
+                  value={seasonNumber}
+                  onChangeText={(text) => {
+                    setSeasonNumber(text);
+                    setFormError(null);
+                  }}
+                  keyboardType="number-pad"
+                  accessibilityLabel={t('diary.seasonNumber')}
+                  testID="log-watch-season"
+                />
+                <TextInput
+                  style={[styles.input, styles.episodeInput, inputStyle]}
+                  placeholder={t('diary.episode')}
+                  placeholderTextColor={colors.textMuted}
+                  value={episodeNumber}
+                  onChangeText={(text) => {
+                    setEpisodeNumber(text);
+                    setFormError(null);
+                  }}
+                  keyboardType="number-pad"
+                  accessibilityLabel={t('diary.episodeNumber')}
+                  testID="log-watch-episode"
+                />
+              </View>
+            </>
+          )}
+
+          <View style={styles.switchRow}>
+            <Text style={[styles.switchLabel, { color: colors.text }]}>{t('diary.rewatch')}</Text>
+            <Switch
+              value={isRewatch}
+              onValueChange={setIsRewatch}
+              trackColor={{ false: colors.backgroundSecondary, true: colors.tint }}
+              thumbColor={SOLID_COLORS.WHITE}
+              accessibilityLabel={t('diary.rewatch')}
+              testID="log-watch-rewatch"
+            />
+          </View>
+
+          <TextInput
+            style={[styles.input, styles.noteInput, inputStyle]}
+            placeholder={t('diary.notePlaceholder')}
+            placeholderTextColor={colors.textMuted}
+            value={note}
+            onChangeText={setNote}
+            multiline
+            textAlignVertical="top"
+            accessibilityLabel={t('diary.note')}
+            testID="log-watch-note"
+          />
+
+          {formError && (
+            <Text style={[styles.errorText, { color: colors.error }]}>{formError}</Text>
+          )}
+
+          <Pressable
+            onPress={handleSubmit}
+            style={({ pressed }) => [
+              styles.submitButton,
+              { backgroundColor: colors.tint, opacity: pressed ? 0.7 : 1 },
+            ]}
+            accessibilityRole="button"
+            testID="log-watch-save"
+          >
+            <Text style={styles.submitButtonText}>{entry ? t('common.save') : t('diary.logWatch')}</Text>
+          </Pressable>
+
+          {entry && onDelete && (
+            <Pressable
+              onPress={handleDelete}
+              style={({ pressed }) => [styles.deleteButton, { opacity: pressed ? 0.7 : 1 }]}
+              accessibilityRole="button"
+              testID="log-watch-delete"
+            >
+              <Text style={[styles.deleteButtonText, { color: colors.error }]}>{t('diary.deleteEntry')}</Text>
+            </Pressable>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingTop: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  modalTitle: {
+    flex: 1,
+    fontSize: Typography.sizes.xl,
+    fontWeight: Typography.weights.bold,
+  },
+  modalCloseButton: {
+    padding: Spacing.sm,
+    minWidth: 44,
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  modalContent: {
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.xl,
+    gap: Spacing.sm,
+  },
+  label: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+    marginTop: Spacing.sm,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+  },
+  dateChip: {
+    paddingHorizontal: Spacing.md,
+    minHeight: 44,
+    justifyContent: 'center',
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+  },
+  dateChipText: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+  },
+  input: {
+    minHeight: 44,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    fontSize: Typography.sizes.md,
+  },
+  dateInput: {
+    flex: 1,
+  },
+  episodeRow: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+  },
+  episodeInput: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    minHeight: 44,
+    marginTop: Spacing.sm,
+  },
+  switchLabel: {
+    fontSize: Typography.sizes.md,
+  },
+  noteInput: {
+    minHeight: 96,
+    paddingVertical: Spacing.sm,
+  },
+  errorText: {
+    fontSize: Typography.sizes.sm,
+  },
+  submitButton: {
+    minHeight: 44,
+    marginTop: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  submitButtonText: {
+    color: SOLID_COLORS.WHITE,
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.semibold,
+  },
+  deleteButton: {
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  deleteButtonText: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.medium,
+  },
+});
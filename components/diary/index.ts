@@ -0,0 +1,15 @@
+/**
+ * Watch diary components barrel export
+ */
+
+export { DiaryView } from './DiaryView';
+export type { DiaryViewProps } from './DiaryView';
+
+export { DiaryCalendar } from './DiaryCalendar';
+export type { DiaryCalendarProps } from './DiaryCalendar';
+
+export { DiaryEntryRow } from './DiaryEntryRow';
+export type { DiaryEntryRowProps } from './DiaryEntryRow';
+
+export { LogWatchModal } from './LogWatchModal';
+export type { LogWatchModalProps } from './LogWatchModal';
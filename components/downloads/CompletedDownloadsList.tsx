@@ -10,9 +10,11 @@ import { Ionicons } from '@expo/vector-icons';
 import { Image } from 'expo-image';
 import { router } from 'expo-router';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { DIMENSIONS } from '@/constants/layout';
 import { EmptyState } from '@/components/ui/EmptyState';
+import { formatDate, formatFileSize } from '@/utils/formatting';
 import type { DownloadItem } from '@/types/downloads';
 
 interface CompletedDownloadsListProps {
@@ -27,26 +29,10 @@ interface DownloadItemProps {
 
 function DownloadItemComponent({ item, onRemove }: DownloadItemProps) {
   const textColor = useThemeColor({}, 'text');
+  const { t } = useLocalization();
   const backgroundColor = useThemeColor({}, 'backgroundSecondary');
   const borderColor = useThemeColor({}, 'border');
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
-  };
-
-  const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', {
-      month: 'short',
-      day: 'numeric',
-      year: 'numeric',
-    });
-  };
-
   const handlePress = () => {
     // Navigate to detail screen or play content
     const route = item.mediaType === 'movie' ? '/movie/[id]' : '/web-series/[id]';
@@ -58,12 +44,12 @@ function DownloadItemComponent({ item, onRemove }: DownloadItemProps) {
 
   const handleRemovePress = () => {
     Alert.alert(
-      'Remove Download',
-      `Are you sure you want to remove "${item.title}" from your downloads?`,
+      t('downloads.removeDownload'),
+      t('downloads.removeConfirm', { title: item.title }),
       [
-        { text: 'Keep', style: 'cancel' },
+        { text: t('downloads.keep'), style: 'cancel' },
         {
-          text: 'Remove',
+          text: t('common.remove'),
           style: 'destructive',
           onPress: () => onRemove(item),
         },
@@ -83,7 +69,7 @@ function DownloadItemComponent({ item, onRemove }: DownloadItemProps) {
         },
       ]}
       accessibilityRole="button"
-      accessibilityLabel={`Play ${item.title}`}
+      accessibilityLabel={t('downloads.playTitle', { title: item.title })}
     >
       {/* Poster */}
       <Image
@@ -108,7 +94,7 @@ function DownloadItemComponent({ item, onRemove }: DownloadItemProps) {
               style={{ opacity: 0.7 }}
             />
             <Text style={[styles.typeText, { color: textColor, opacity: 0.7 }]}>
-              {item.mediaType === 'movie' ? 'Movie' : 'Series'}
+              {item.mediaType === 'movie' ? t('common.movie') : t('common.seriesSingular')}
             </Text>
           </View>
 
@@ -122,7 +108,7 @@ function DownloadItemComponent({ item, onRemove }: DownloadItemProps) {
             {formatFileSize(item.fileSize)}
           </Text>
           <Text style={[styles.date, { color: textColor, opacity: 0.7 }]}>
-            Downloaded {formatDate(item.downloadedAt)}
+            {t('downloads.downloadedOn', { date: formatDate(item.downloadedAt, { month: 'short' }) })}
           </Text>
         </View>
 
@@ -130,7 +116,7 @@ function DownloadItemComponent({ item, onRemove }: DownloadItemProps) {
         <View style={styles.statusContainer}>
           <View style={[styles.statusDot, { backgroundColor: Colors.light.success }]} />
           <Text style={[styles.statusText, { color: Colors.light.success }]}>
-            Ready to Watch
+            {t('downloads.readyToWatch')}
           </Text>
         </View>
       </View>
@@ -146,7 +132,7 @@ function DownloadItemComponent({ item, onRemove }: DownloadItemProps) {
               opacity: pressed ? 0.8 : 1,
             },
           ]}
-          accessibilityLabel="Play content"
+          accessibilityLabel={t('downloads.playContent')}
         >
           <Ionicons name="play" size={20} color={Colors.light.background} />
         </Pressable>
@@ -157,7 +143,7 @@ function DownloadItemComponent({ item, onRemove }: DownloadItemProps) {
             styles.actionButton,
             { opacity: pressed ? 0.7 : 1 },
           ]}
-          accessibilityLabel="Remove download"
+          accessibilityLabel={t('downloads.removeDownloadLabel')}
         >
           <Ionicons name="trash-outline" size={20} color={Colors.light.error} />
         </Pressable>
@@ -168,13 +154,14 @@ function DownloadItemComponent({ item, onRemove }: DownloadItemProps) {
 
 export function CompletedDownloadsList({ downloads, onRemove }: CompletedDownloadsListProps) {
   const textColor = useThemeColor({}, 'text');
+  const { t } = useLocalization();
 
   if (downloads.length === 0) {
     return (
       <View style={styles.emptyContainer}>
         <EmptyState
-          title="No Downloads"
-          message="Downloaded content will appear here"
+          title={t('downloads.noDownloads')}
+          message={t('downloads.noDownloadsMessage')}
           iconName="download-outline"
         />
       </View>
@@ -184,7 +171,7 @@ export function CompletedDownloadsList({ downloads, onRemove }: CompletedDownloa
   return (
     <View style={styles.container}>
       <Text style={[styles.sectionTitle, { color: textColor }]}>
-        Downloaded ({downloads.length})
+        {t('downloads.downloadedCount', { count: downloads.length })}
       </Text>
 
       {downloads.map((item) => (
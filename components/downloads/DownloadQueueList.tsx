@@ -10,9 +10,11 @@ import { Ionicons } from '@expo/vector-icons';
 import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { DIMENSIONS } from '@/constants/layout';
 import { EmptyState } from '@/components/ui/EmptyState';
+import { formatFileSize, formatPercentage } from '@/utils/formatting';
 import type { DownloadQueueItem } from '@/types/downloads';
 
 interface DownloadQueueListProps {
@@ -31,6 +33,7 @@ interface QueueItemProps {
 
 function QueueItem({ item, onPause, onResume, onCancel }: QueueItemProps) {
   const textColor = useThemeColor({}, 'text');
+  const { t } = useLocalization();
   const backgroundColor = useThemeColor({}, 'backgroundSecondary');
   const borderColor = useThemeColor({}, 'border');
 
@@ -49,22 +52,14 @@ function QueueItem({ item, onPause, onResume, onCancel }: QueueItemProps) {
     }
   };
 
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
-  };
-
   const handleCancelPress = () => {
     Alert.alert(
-      'Cancel Download',
-      `Are you sure you want to cancel downloading "${item.title}"?`,
+      t('downloads.cancelDownload'),
+      t('downloads.cancelConfirm', { title: item.title }),
       [
-        { text: 'Keep Downloading', style: 'cancel' },
+        { text: t('downloads.keepDownloading'), style: 'cancel' },
         {
-          text: 'Cancel Download',
+          text: t('downloads.cancelDownload'),
           style: 'destructive',
           onPress: () => onCancel(item),
         },
@@ -110,7 +105,7 @@ function QueueItem({ item, onPause, onResume, onCancel }: QueueItemProps) {
               />
             </View>
             <Text style={[styles.progressText, { color: textColor, opacity: 0.7 }]}>
-              {item.progress.toFixed(1)}%
+              {formatPercentage(item.progress / 100, 1)}
             </Text>
           </View>
         )}
@@ -119,7 +114,7 @@ function QueueItem({ item, onPause, onResume, onCancel }: QueueItemProps) {
         <View style={styles.statusContainer}>
           <View style={[styles.statusDot, { backgroundColor: getStatusColor(item.status) }]} />
           <Text style={[styles.statusText, { color: getStatusColor(item.status) }]}>
-            {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+            {t(`downloads.${item.status}`)}
           </Text>
         </View>
       </View>
@@ -133,7 +128,7 @@ function QueueItem({ item, onPause, onResume, onCancel }: QueueItemProps) {
               styles.actionButton,
               { opacity: pressed ? 0.7 : 1 },
             ]}
-            accessibilityLabel="Pause download"
+            accessibilityLabel={t('downloads.pauseDownload')}
           >
             <Ionicons name="pause" size={20} color={textColor} />
           </Pressable>
@@ -146,7 +141,7 @@ function QueueItem({ item, onPause, onResume, onCancel }: QueueItemProps) {
               styles.actionButton,
               { opacity: pressed ? 0.7 : 1 },
             ]}
-            accessibilityLabel="Resume download"
+            accessibilityLabel={t('downloads.resumeDownload')}
           >
             <Ionicons name="play" size={20} color={textColor} />
           </Pressable>
@@ -158,7 +153,7 @@ function QueueItem({ item, onPause, onResume, onCancel }: QueueItemProps) {
             styles.actionButton,
             { opacity: pressed ? 0.7 : 1 },
           ]}
-          accessibilityLabel="Cancel download"
+          accessibilityLabel={t('downloads.cancelDownloadLabel')}
         >
           <Ionicons name="close" size={20} color={Colors.light.error} />
         </Pressable>
@@ -169,13 +164,14 @@ function QueueItem({ item, onPause, onResume, onCancel }: QueueItemProps) {
 
 export function DownloadQueueList({ queue, onPause, onResume, onCancel }: DownloadQueueListProps) {
   const textColor = useThemeColor({}, 'text');
+  const { t } = useLocalization();
 
   if (queue.length === 0) {
     return (
       <View style={styles.emptyContainer}>
         <EmptyState
-          title="No Active Downloads"
-          message="Your download queue is empty"
+          title={t('downloads.noActiveDownloads')}
+          message={t('downloads.queueEmpty')}
           iconName="download-outline"
         />
       </View>
@@ -185,7 +181,7 @@ export function DownloadQueueList({ queue, onPause, onResume, onCancel }: Downlo
   return (
     <View style={styles.container}>
       <Text style={[styles.sectionTitle, { color: textColor }]}>
-        Download Queue ({queue.length})
+        {t('downloads.queueCount', { count: queue.length })}
       </Text>
 
       {queue.map((item) => (
@@ -8,7 +8,9 @@
 import { StyleSheet, View, Text } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { formatFileSize, formatPercentage } from '@/utils/formatting';
 
 interface DownloadsHeaderProps {
   storageUsed: number;
@@ -26,14 +28,7 @@ export function DownloadsHeader({
   const textColor = useThemeColor({}, 'text');
   const backgroundColor = useThemeColor({}, 'backgroundSecondary');
   const tintColor = useThemeColor({}, 'tint');
-
-  const formatFileSize = (bytes: number): string => {
-    if (bytes === 0) return '0 B';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${parseFloat((bytes / Math.pow(k, i)).toFixed(1))} ${sizes[i]}`;
-  };
+  const { t } = useLocalization();
 
   const getStoragePercentage = (): number => {
     const total = storageUsed + storageAvailable;
@@ -46,17 +41,17 @@ export function DownloadsHeader({
     <View style={styles.container}>
       {/* Title */}
       <Text style={[styles.title, { color: textColor }]}>
-        Downloads
+        {t('downloads.title')}
       </Text>
 
       {/* Storage Usage */}
       <View style={[styles.storageContainer, { backgroundColor }]}>
         <View style={styles.storageHeader}>
           <Text style={[styles.storageTitle, { color: textColor }]}>
-            Storage Usage
+            {t('downloads.storageUsage')}
           </Text>
           <Text style={[styles.storagePercentage, { color: textColor }]}>
-            {storagePercentage.toFixed(1)}%
+            {formatPercentage(storagePercentage / 100, 1)}
           </Text>
         </View>
 
@@ -73,10 +68,10 @@ export function DownloadsHeader({
 
         <View style={styles.storageDetails}>
           <Text style={[styles.storageText, { color: textColor, opacity: 0.7 }]}>
-            Used: {formatFileSize(storageUsed)}
+            {t('downloads.usedSize', { size: formatFileSize(storageUsed) })}
           </Text>
           <Text style={[styles.storageText, { color: textColor, opacity: 0.7 }]}>
-            Available: {formatFileSize(storageAvailable)}
+            {t('downloads.availableSize', { size: formatFileSize(storageAvailable) })}
           </Text>
         </View>
       </View>
@@ -88,7 +83,7 @@ export function DownloadsHeader({
             {totalDownloads}
           </Text>
           <Text style={[styles.statLabel, { color: textColor, opacity: 0.7 }]}>
-            Total Downloads
+            {t('downloads.totalDownloads')}
           </Text>
         </View>
 
@@ -97,7 +92,7 @@ export function DownloadsHeader({
             {activeDownloads}
           </Text>
           <Text style={[styles.statLabel, { color: textColor, opacity: 0.7 }]}>
-            Active Downloads
+            {t('downloads.activeDownloads')}
           </Text>
         </View>
       </View>
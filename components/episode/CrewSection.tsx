@@ -3,11 +3,12 @@
  * Displays episode crew members with profile images
  */
 
-import { StyleSheet, View, Text } from 'react-native';
+import { StyleSheet, View, Text, Pressable } from 'react-native';
 import { Image } from 'expo-image';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
 import { getImageUrl } from './episode-utils';
@@ -15,13 +16,15 @@ import type { CrewMember } from './types';
 
 export interface CrewSectionProps {
   crew: CrewMember[];
+  onMemberPress?: (member: CrewMember) => void;
   testID?: string;
 }
 
-export function CrewSection({ crew, testID }: CrewSectionProps) {
+export function CrewSection({ crew, onMemberPress, testID }: CrewSectionProps) {
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
   const cardColor = useThemeColor({}, 'card');
   const cardBorder = useThemeColor({}, 'cardBorder');
   const backgroundSecondary = useThemeColor({}, 'backgroundSecondary');
@@ -30,14 +33,21 @@ export function CrewSection({ crew, testID }: CrewSectionProps) {
 
   return (
     <View style={styles.container} testID={testID}>
-      <Text style={[styles.sectionTitle, { color: textColor }]}>Crew</Text>
+      <Text style={[styles.sectionTitle, { color: textColor }]}>{t('episode.crew')}</Text>
       <View style={styles.grid}>
         {crew.map((member) => {
           const profileUrl = getImageUrl(member.profilePath, 'w185');
           return (
-            <View 
+            <Pressable 
               key={member.id} 
-              style={[styles.card, { backgroundColor: cardColor, borderColor: cardBorder }]}
+              onPress={onMemberPress ? () => onMemberPress(member) : undefined}
+              disabled={!onMemberPress}
+              style={({ pressed }) => [
+                styles.card,
+                { backgroundColor: cardColor, borderColor: cardBorder, opacity: pressed ? 0.7 : 1 },
+              ]}
+              accessibilityRole={onMemberPress ? 'button' : undefined}
+              accessibilityLabel={t('episode.crewMemberLabel', { name: member.name, job: member.job })}
             >
               <View style={styles.profileContainer}>
                 {profileUrl ? (
@@ -66,7 +76,7 @@ export function CrewSection({ crew, testID }: CrewSectionProps) {
                   {member.department}
                 </Text>
               </View>
-            </View>
+            </Pressable>
           );
         })}
       </View>
@@ -9,6 +9,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS } from '@/constants/colors';
 import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
@@ -34,6 +35,7 @@ export function EpisodeHero({
   const tintColor = useThemeColor({}, 'tint');
   const backgroundSecondary = useThemeColor({}, 'backgroundSecondary');
   const textSecondary = useThemeColor({}, 'textSecondary');
+  const { t } = useLocalization();
 
   const stillUrl = getImageUrl(stillPath, 'w780');
 
@@ -65,7 +67,7 @@ export function EpisodeHero({
         onPress={onPlayPress}
         style={({ pressed }) => [styles.playButton, { opacity: pressed ? 0.8 : 1 }]}
         accessibilityRole="button"
-        accessibilityLabel="Play episode"
+        accessibilityLabel={t('episode.play')}
       >
         <View style={[styles.playButtonInner, { backgroundColor: tintColor }]}>
           <Ionicons name="play" size={32} color={SOLID_COLORS.WHITE} style={styles.playIcon} />
@@ -77,7 +79,7 @@ export function EpisodeHero({
           {seriesTitle}
         </Text>
         <Text style={styles.episodeLabel}>
-          Season {seasonNumber} • Episode {episodeNumber}
+          {t('episode.seasonEpisode', { season: seasonNumber, episode: episodeNumber })}
         </Text>
       </View>
     </View>
@@ -7,8 +7,9 @@ import { StyleSheet, View, Text } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
-import { formatAirDate, formatRuntime } from './episode-utils';
+import { formatAirDate, formatCompactNumber, formatRating, formatRuntime } from '@/utils/formatting';
 
 export interface EpisodeInfoProps {
   name: string;
@@ -31,6 +32,7 @@ export function EpisodeInfo({
   const textSecondary = useThemeColor({}, 'textSecondary');
   const ratingBadgeColor = useThemeColor({}, 'ratingBadge');
   const ratingTextColor = useThemeColor({}, 'ratingText');
+  const { t } = useLocalization();
 
   return (
     <View style={styles.container} testID={testID}>
@@ -43,7 +45,7 @@ export function EpisodeInfo({
           <View style={styles.metaItem}>
             <Ionicons name="calendar-outline" size={16} color={textSecondary} />
             <Text style={[styles.metaText, { color: textSecondary }]}>
-              {formatAirDate(airDate)}
+              {formatAirDate(airDate, { weekday: 'long', month: 'long' })}
             </Text>
           </View>
         )}
@@ -60,11 +62,11 @@ export function EpisodeInfo({
       {voteAverage > 0 && (
         <View style={[styles.ratingBadge, { backgroundColor: ratingBadgeColor }]}>
           <Text style={[styles.ratingText, { color: ratingTextColor }]}>
-            ★ {voteAverage.toFixed(1)}
+            ★ {formatRating(voteAverage)}
           </Text>
           {voteCount > 0 && (
             <Text style={[styles.voteCount, { color: textSecondary }]}>
-              ({voteCount.toLocaleString()} votes)
+              ({t('ratings.voteCount', { count: voteCount, formatted: formatCompactNumber(voteCount) })})
             </Text>
           )}
         </View>
@@ -1,12 +1,14 @@
 /**
  * EpisodeNavigation Component
- * Previous/Next episode navigation buttons
+ * Previous/Next episode navigation buttons with a watched toggle
  */
 
 import { StyleSheet, View, Pressable, Text } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useLayoutDirection } from '@/hooks/use-layout-direction';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS } from '@/constants/colors';
 
@@ -14,6 +16,10 @@ export interface EpisodeNavigationProps {
   currentEpisode: number;
   onPrevious: () => void;
   onNext: () => void;
+  /** Whether the current episode is marked as watched */
+  isWatched?: boolean;
+  /** Callback to toggle the current episode's watched state */
+  onToggleWatched?: () => void;
   testID?: string;
 }
 
@@ -21,61 +27,101 @@ export function EpisodeNavigation({
   currentEpisode,
   onPrevious,
   onNext,
+  isWatched = false,
+  onToggleWatched,
   testID,
 }: EpisodeNavigationProps) {
   const textColor = useThemeColor({}, 'text');
   const tintColor = useThemeColor({}, 'tint');
+  const successColor = useThemeColor({}, 'success');
+  const { t } = useLocalization();
+  const { directionalIcon } = useLayoutDirection();
   const backgroundSecondary = useThemeColor({}, 'backgroundSecondary');
 
   const hasPrevious = currentEpisode > 1;
 
   return (
     <View style={styles.container} testID={testID}>
-      <Pressable
-        onPress={onPrevious}
-        disabled={!hasPrevious}
-        style={({ pressed }) => [
-          styles.button,
-          { 
-            backgroundColor: backgroundSecondary,
-            opacity: !hasPrevious ? 0.5 : pressed ? 0.8 : 1,
-          },
-        ]}
-        accessibilityRole="button"
-        accessibilityLabel="Previous episode"
-        accessibilityState={{ disabled: !hasPrevious }}
-      >
-        <Ionicons name="chevron-back" size={20} color={textColor} />
-        <Text style={[styles.buttonText, { color: textColor }]}>Previous</Text>
-      </Pressable>
+      {onToggleWatched && (
+        <Pressable
+          onPress={onToggleWatched}
+          style={({ pressed }) => [
+            styles.button,
+            styles.watchedButton,
+            {
+              backgroundColor: isWatched ? successColor : backgroundSecondary,
+              opacity: pressed ? 0.8 : 1,
+            },
+          ]}
+          accessibilityRole="checkbox"
+          accessibilityState={{ checked: isWatched }}
+          accessibilityLabel={isWatched ? t('episode.markUnwatched') : t('episode.markWatchedLabel')}
+          testID={testID ? `${testID}-watched` : undefined}
+        >
+          <Ionicons
+            name={isWatched ? 'checkmark-circle' : 'ellipse-outline'}
+            size={20}
+            color={isWatched ? SOLID_COLORS.WHITE : textColor}
+          />
+          <Text style={[styles.buttonText, { color: isWatched ? SOLID_COLORS.WHITE : textColor }]}>
+            {isWatched ? t('episode.watched') : t('episode.markAsWatched')}
+          </Text>
+        </Pressable>
+      )}
 
-      <Pressable
-        onPress={onNext}
-        style={({ pressed }) => [
-          styles.button,
-          { 
-            backgroundColor: tintColor,
-            opacity: pressed ? 0.8 : 1,
-          },
-        ]}
-        accessibilityRole="button"
-        accessibilityLabel="Next episode"
-      >
-        <Text style={[styles.buttonText, { color: SOLID_COLORS.WHITE }]}>Next</Text>
-        <Ionicons name="chevron-forward" size={20} color={SOLID_COLORS.WHITE} />
-      </Pressable>
+      <View style={styles.navigationRow}>
+        <Pressable
+          onPress={onPrevious}
+          disabled={!hasPrevious}
+          style={({ pressed }) => [
+            styles.button,
+            { 
+              backgroundColor: backgroundSecondary,
+              opacity: !hasPrevious ? 0.5 : pressed ? 0.8 : 1,
+            },
+          ]}
+          accessibilityRole="button"
+          accessibilityLabel={t('episode.previousEpisode')}
+          accessibilityState={{ disabled: !hasPrevious }}
+        >
+          <Ionicons name={directionalIcon('chevron-back')} size={20} color={textColor} />
+          <Text style={[styles.buttonText, { color: textColor }]}>{t('common.previous')}</Text>
+        </Pressable>
+
+        <Pressable
+          onPress={onNext}
+          style={({ pressed }) => [
+            styles.button,
+            { 
+              backgroundColor: tintColor,
+              opacity: pressed ? 0.8 : 1,
+            },
+          ]}
+          accessibilityRole="button"
+          accessibilityLabel={t('episode.nextEpisode')}
+        >
+          <Text style={[styles.buttonText, { color: SOLID_COLORS.WHITE }]}>{t('common.next')}</Text>
+          <Ionicons name={directionalIcon('chevron-forward')} size={20} color={SOLID_COLORS.WHITE} />
+        </Pressable>
+      </View>
     </View>
   );
 }
 
 const styles = StyleSheet.create({
   container: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
     paddingHorizontal: Spacing.lg,
     paddingVertical: Spacing.xl,
     gap: Spacing.md,
   },
+  navigationRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: Spacing.md,
+  },
+  watchedButton: {
+    flex: 0,
+  },
   button: {
     flex: 1,
     flexDirection: 'row',
@@ -3,10 +3,11 @@
  * Displays episode guest stars in a horizontal carousel
  */
 
-import { StyleSheet, View, Text, ScrollView } from 'react-native';
+import { StyleSheet, View, Text, ScrollView, Pressable } from 'react-native';
 import { Image } from 'expo-image';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
 import { getImageUrl } from './episode-utils';
@@ -14,25 +15,27 @@ import type { GuestStar } from './types';
 
 export interface GuestStarsSectionProps {
   guestStars: GuestStar[];
+  onStarPress?: (star: GuestStar) => void;
   testID?: string;
 }
 
-export function GuestStarsSection({ guestStars, testID }: GuestStarsSectionProps) {
+export function GuestStarsSection({ guestStars, onStarPress, testID }: GuestStarsSectionProps) {
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const tintColor = useThemeColor({}, 'tint');
   const cardColor = useThemeColor({}, 'card');
   const cardBorder = useThemeColor({}, 'cardBorder');
   const backgroundSecondary = useThemeColor({}, 'backgroundSecondary');
+  const { t } = useLocalization();
 
   if (guestStars.length === 0) return null;
 
   return (
     <View style={styles.container} testID={testID}>
       <View style={styles.header}>
-        <Text style={[styles.sectionTitle, { color: textColor }]}>Guest Stars</Text>
+        <Text style={[styles.sectionTitle, { color: textColor }]}>{t('episode.guestStars')}</Text>
         <Text style={[styles.count, { color: textSecondary }]}>
-          {guestStars.length} appearances
+          {t('episode.appearances', { count: guestStars.length })}
         </Text>
       </View>
       
@@ -44,9 +47,16 @@ export function GuestStarsSection({ guestStars, testID }: GuestStarsSectionProps
         {guestStars.map((star) => {
           const profileUrl = getImageUrl(star.profilePath, 'w185');
           return (
-            <View 
+            <Pressable 
               key={star.id} 
-              style={[styles.card, { backgroundColor: cardColor, borderColor: cardBorder }]}
+              onPress={onStarPress ? () => onStarPress(star) : undefined}
+              disabled={!onStarPress}
+              style={({ pressed }) => [
+                styles.card,
+                { backgroundColor: cardColor, borderColor: cardBorder, opacity: pressed ? 0.7 : 1 },
+              ]}
+              accessibilityRole={onStarPress ? 'button' : undefined}
+              accessibilityLabel={t('detail.castMemberLabel', { name: star.name, character: star.character })}
             >
               <View style={styles.imageContainer}>
                 {profileUrl ? (
@@ -77,7 +87,7 @@ export function GuestStarsSection({ guestStars, testID }: GuestStarsSectionProps
                   </Text>
                 </View>
               </View>
-            </View>
+            </Pressable>
           );
         })}
       </ScrollView>
@@ -24,6 +24,4 @@ export type { EpisodeDetail, CrewMember, GuestStar } from './types';
 export {
   isMockDataMode,
   getImageUrl,
-  formatAirDate,
-  formatRuntime,
 } from './episode-utils';
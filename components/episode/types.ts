@@ -1,36 +1,11 @@
 /**
  * Episode component types
+ * Shared with the API adapters (see types/media.ts)
  */
 
-/** Crew member type */
-export interface CrewMember {
-  id: number;
-  name: string;
-  job: string;
-  department: string;
-  profilePath: string | null;
-}
+import type { EpisodeDetails } from '@/types/media';
 
-/** Guest star type */
-export interface GuestStar {
-  id: number;
-  name: string;
-  character: string;
-  profilePath: string | null;
-}
+export type { CrewMember, GuestStar } from '@/types/media';
 
 /** Episode detail type */
-export interface EpisodeDetail {
-  id: number;
-  episodeNumber: number;
-  seasonNumber: number;
-  name: string;
-  overview: string;
-  stillPath: string | null;
-  airDate: string;
-  runtime: number | null;
-  voteAverage: number;
-  voteCount: number;
-  crew: CrewMember[];
-  guestStars: GuestStar[];
-}
+export type EpisodeDetail = EpisodeDetails;
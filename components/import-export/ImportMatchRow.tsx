@@ -0,0 +1,207 @@
+/**
+ * ImportMatchRow Component
+ * An imported title in the match review list, expandable to pick another search result
+ */
+
+import { useState } from 'react';
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
+import { getPosterUrl } from '@/components/media/media-card-utils';
+import { formatReleaseYear } from '@/components/detail/detail-utils';
+import { t } from '@/services/localization';
+import type { MediaItem } from '@/types/media';
+import type { ImportMatch, ImportMatchStatus } from '@/types/transfer';
+
+const POSTER_WIDTH = 32;
+const POSTER_HEIGHT = POSTER_WIDTH * 1.5;
+
+/** Badge shown for each match status */
+const STATUS_BADGES: Record<ImportMatchStatus, {
+  labelKey: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  color: 'success' | 'warning' | 'error';
+}> = {
+  matched: { labelKey: 'importExport.status.matched', icon: 'checkmark-circle', color: 'success' },
+  ambiguous: { labelKey: 'importExport.status.ambiguous', icon: 'help-circle', color: 'warning' },
+  unmatched: { labelKey: 'importExport.status.unmatched', icon: 'close-circle', color: 'error' },
+};
+
+/** "Title (2019) · Movie" */
+const describe = (item: MediaItem) => {
+  const year = formatReleaseYear(item.releaseDate);
+  return `${item.title}${year ? ` (${year})` : ''} · ${item.mediaType === 'movie' ? t('common.movie') : t('diary.tvSeries')}`;
+};
+
+export interface ImportMatchRowProps {
+  match: ImportMatch;
+  /** Choose the title to import the record as (null skips it) */
+  onSelect: (item: MediaItem | null) => void;
+  testID?: string;
+}
+
+export function ImportMatchRow({ match, onSelect, testID }: ImportMatchRowProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t: translate } = useLocalization();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const { record, selected, candidates } = match;
+  const badge = STATUS_BADGES[match.status];
+  const sourceLabel = `${record.title}${record.year ? ` (${record.year})` : ''}`;
+  const selectionLabel = selected
+    ? translate('importExport.importsAs', { title: describe(selected) })
+    : translate('importExport.skipped');
+
+  const handleSelect = (item: MediaItem | null) => {
+    onSelect(item);
+    setIsExpanded(false);
+  };
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+      testID={testID}
+    >
+      <Pressable
+        onPress={() => setIsExpanded(expanded => !expanded)}
+        style={({ pressed }) => [styles.header, { opacity: pressed ? 0.7 : 1 }]}
+        accessibilityRole="button"
+        accessibilityLabel={`${sourceLabel}, ${translate(badge.labelKey)}, ${selectionLabel}`}
+        accessibilityHint={translate('importExport.showsOtherMatches')}
+        accessibilityState={{ expanded: isExpanded }}
+      >
+        <View style={styles.info}>
+          <Text style={[styles.title, { color: colors.text }]} numberOfLines={1}>
+            {sourceLabel}
+          </Text>
+          <Text style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={1}>
+            {selected ? describe(selected) : translate('importExport.willBeSkipped')}
+          </Text>
+        </View>
+        <View style={styles.badge}>
+          <Ionicons name={badge.icon} size={14} color={colors[badge.color]} />
+          <Text style={[styles.meta, { color: colors[badge.color] }]}>{translate(badge.labelKey)}</Text>
+        </View>
+        <Ionicons name={isExpanded ? 'chevron-up' : 'chevron-down'} size={18} color={colors.icon} />
+      </Pressable>
+
+      {isExpanded && (
+        <View style={[styles.options, { borderTopColor: colors.border }]}>
+          {candidates.map(item => {
+            const isSelected = selected?.id === item.id && selected.mediaType === item.mediaType;
+            const posterUrl = getPosterUrl(item.posterPath, 'small');
+            return (
+              <Pressable
+                key={`${item.mediaType}-${item.id}`}
+                onPress={() => handleSelect(item)}
+                style={({ pressed }) => [styles.option, { opacity: pressed ? 0.7 : 1 }]}
+                accessibilityRole="radio"
+                accessibilityState={{ selected: isSelected }}
+                accessibilityLabel={describe(item)}
+              >
+                <View style={[styles.posterContainer, { backgroundColor: colors.backgroundSecondary }]}>
+                  {posterUrl && (
+                    <Image
+                      source={posterUrl === 'placeholder' ? PlaceholderImages.poster : { uri: posterUrl }}
+                      style={styles.poster}
+                      contentFit="cover"
+                      placeholder={{ blurhash: BLURHASH_PLACEHOLDER }}
+                      cachePolicy="memory-disk"
+                    />
+                  )}
+                </View>
+                <Text style={[styles.optionLabel, { color: colors.text }]} numberOfLines={2}>
+                  {describe(item)}
+                </Text>
+                <Ionicons
+                  name={isSelected ? 'radio-button-on' : 'radio-button-off'}
+                  size={20}
+                  color={isSelected ? colors.tint : colors.icon}
+                />
+              </Pressable>
+            );
+          })}
+          <Pressable
+            onPress={() => handleSelect(null)}
+            style={({ pressed }) => [styles.option, { opacity: pressed ? 0.7 : 1 }]}
+            accessibilityRole="radio"
+            accessibilityState={{ selected: selected === null }}
+            accessibilityLabel={translate('importExport.skipTitle')}
+          >
+            <Text style={[styles.optionLabel, { color: colors.textSecondary }]}>
+              {translate('importExport.skipTitle')}
+            </Text>
+            <Ionicons
+              name={selected === null ? 'radio-button-on' : 'radio-button-off'}
+              size={20}
+              color={selected === null ? colors.tint : colors.icon}
+            />
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    padding: Spacing.md,
+  },
+  info: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.medium,
+  },
+  meta: {
+    fontSize: Typography.sizes.xs,
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  options: {
+    borderTopWidth: 1,
+    paddingVertical: Spacing.xs,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    minHeight: 44,
+  },
+  posterContainer: {
+    width: POSTER_WIDTH,
+    height: POSTER_HEIGHT,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+  },
+  poster: {
+    width: '100%',
+    height: '100%',
+  },
+  optionLabel: {
+    flex: 1,
+    fontSize: Typography.sizes.sm,
+  },
+});
@@ -0,0 +1,6 @@
+/**
+ * Import/export components barrel export
+ */
+
+export { ImportMatchRow } from './ImportMatchRow';
+export type { ImportMatchRowProps } from './ImportMatchRow';
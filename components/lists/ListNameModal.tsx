@@ -0,0 +1,172 @@
+/**
+ * ListNameModal Component
+ * Modal for naming a new list or renaming an existing one
+ */
+
+import { useEffect, useState } from 'react';
+import { View, Text, TextInput, Pressable, Modal, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { SOLID_COLORS } from '@/constants/colors';
+import { MAX_LIST_NAME_LENGTH, validateListName } from '@/utils/custom-lists';
+import type { CustomList } from '@/types/lists';
+
+export interface ListNameModalProps {
+  visible: boolean;
+  /** List being renamed; omit to create a new list */
+  list?: CustomList | null;
+  /** Existing lists, used to reject duplicate names */
+  lists: CustomList[];
+  onSubmit: (name: string) => void;
+  onClose: () => void;
+}
+
+export function ListNameModal({
+  visible,
+  list,
+  lists,
+  onSubmit,
+  onClose,
+}: ListNameModalProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+  const [name, setName] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+
+  // Start from the current name each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setName(list?.name ?? '');
+      setNameError(null);
+    }
+  }, [visible, list]);
+
+  const handleSubmit = () => {
+    const validationError = validateListName(name, lists, list?.id);
+    if (validationError) {
+      setNameError(validationError);
+      return;
+    }
+    onSubmit(name);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: colors.background }]}>
+        <View style={styles.modalHeader}>
+          <Text style={[styles.modalTitle, { color: colors.text }]}>
+            {list ? t('lists.renameList') : t('lists.newList')}
+          </Text>
+          <Pressable
+            onPress={onClose}
+            style={styles.modalCloseButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.close')}
+          >
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+        </View>
+
+        <View style={styles.modalContent}>
+          <TextInput
+            style={[
+              styles.nameInput,
+              {
+                color: colors.text,
+                backgroundColor: colors.backgroundSecondary,
+                borderColor: nameError ? colors.error : colors.border,
+              },
+            ]}
+            placeholder={t('lists.namePlaceholder')}
+            placeholderTextColor={colors.textMuted}
+            value={name}
+            onChangeText={(text) => {
+              setName(text);
+              setNameError(null);
+            }}
+            onSubmitEditing={handleSubmit}
+            maxLength={MAX_LIST_NAME_LENGTH}
+            returnKeyType="done"
+            autoFocus
+            accessibilityLabel={t('lists.listName')}
+          />
+          {nameError && (
+            <Text style={[styles.errorText, { color: colors.error }]}>{nameError}</Text>
+          )}
+
+          <Pressable
+            onPress={handleSubmit}
+            style={({ pressed }) => [
+              styles.submitButton,
+              { backgroundColor: colors.tint, opacity: pressed ? 0.7 : 1 },
+            ]}
+            accessibilityRole="button"
+          >
+            <Text style={styles.submitButtonText}>{list ? t('common.save') : t('lists.createList')}</Text>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingTop: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  modalTitle: {
+    fontSize: Typography.sizes.xl,
+    fontWeight: Typography.weights.bold,
+  },
+  modalCloseButton: {
+    padding: Spacing.sm,
+    minWidth: 44,
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  modalContent: {
+    paddingHorizontal: Spacing.md,
+    gap: Spacing.sm,
+  },
+  nameInput: {
+    minHeight: 44,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    fontSize: Typography.sizes.md,
+  },
+  errorText: {
+    fontSize: Typography.sizes.sm,
+  },
+  submitButton: {
+    minHeight: 44,
+    marginTop: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  submitButtonText: {
+    color: SOLID_COLORS.WHITE,
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.semibold,
+  },
+});
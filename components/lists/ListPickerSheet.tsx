@@ -0,0 +1,245 @@
+/**
+ * ListPickerSheet Component
+ * Modal sheet for adding a title to the watchlist and custom lists
+ */
+
+import { useState } from 'react';
+import { View, Text, TextInput, Pressable, ScrollView, Modal, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { SOLID_COLORS } from '@/constants/colors';
+import { MAX_LIST_NAME_LENGTH, validateListName } from '@/utils/custom-lists';
+import type { CustomList } from '@/types/lists';
+
+export interface ListPickerSheetProps {
+  visible: boolean;
+  /** Title being added, shown in the header */
+  title: string;
+  /** All lists, in display order */
+  lists: CustomList[];
+  /** IDs of lists that contain the title */
+  selectedListIds: string[];
+  /** Toggle the title in a list */
+  onToggleList: (listId: string) => void;
+  /** Create a list (the title is added to it by the caller) */
+  onCreateList: (name: string) => void;
+  onClose: () => void;
+  testID?: string;
+}
+
+export function ListPickerSheet({
+  visible,
+  title,
+  lists,
+  selectedListIds,
+  onToggleList,
+  onCreateList,
+  onClose,
+  testID,
+}: ListPickerSheetProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+  const [newListName, setNewListName] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    const validationError = validateListName(newListName, lists);
+    if (validationError) {
+      setNameError(validationError);
+      return;
+    }
+    onCreateList(newListName);
+    setNewListName('');
+    setNameError(null);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+      testID={testID}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: colors.background }]}>
+        <View style={styles.modalHeader}>
+          <View style={styles.headerText}>
+            <Text style={[styles.modalTitle, { color: colors.text }]}>{t('lists.addToLists')}</Text>
+            <Text style={[styles.modalSubtitle, { color: colors.textSecondary }]} numberOfLines={1}>
+              {title}
+            </Text>
+          </View>
+          <Pressable
+            onPress={onClose}
+            style={styles.modalCloseButton}
+            accessibilityRole="button"
+            accessibilityLabel={t('common.close')}
+          >
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+        </View>
+
+        <View style={styles.createRow}>
+          <TextInput
+            style={[
+              styles.createInput,
+              {
+                color: colors.text,
+                backgroundColor: colors.backgroundSecondary,
+                borderColor: nameError ? colors.error : colors.border,
+              },
+            ]}
+            placeholder={t('lists.newListName')}
+            placeholderTextColor={colors.textMuted}
+            value={newListName}
+            onChangeText={(text) => {
+              setNewListName(text);
+              setNameError(null);
+            }}
+            onSubmitEditing={handleCreate}
+            maxLength={MAX_LIST_NAME_LENGTH}
+            returnKeyType="done"
+            accessibilityLabel={t('lists.newListName')}
+          />
+          <Pressable
+            onPress={handleCreate}
+            style={({ pressed }) => [
+              styles.createButton,
+              { backgroundColor: colors.tint, opacity: pressed ? 0.7 : 1 },
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={t('lists.createListLabel')}
+          >
+            <Ionicons name="add" size={22} color={SOLID_COLORS.WHITE} />
+          </Pressable>
+        </View>
+        {nameError && (
+          <Text style={[styles.errorText, { color: colors.error }]}>{nameError}</Text>
+        )}
+
+        <ScrollView style={styles.modalContent}>
+          {lists.map((list) => {
+            const isSelected = selectedListIds.includes(list.id);
+            return (
+              <Pressable
+                key={list.id}
+                onPress={() => onToggleList(list.id)}
+                style={({ pressed }) => [
+                  styles.listOption,
+                  {
+                    backgroundColor: pressed ? colors.backgroundSecondary : 'transparent',
+                    borderBottomColor: colors.cardBorder,
+                  },
+                ]}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: isSelected }}
+                accessibilityLabel={list.name}
+              >
+                <View style={styles.listOptionContent}>
+                  <Text style={[styles.listOptionTitle, { color: colors.text }]} numberOfLines={1}>
+                    {list.name}
+                  </Text>
+                  <Text style={[styles.listOptionCount, { color: colors.textSecondary }]}>
+                    {t('watchlist.titleCount', { count: list.items.length })}
+                  </Text>
+                </View>
+                <Ionicons
+                  name={isSelected ? 'checkbox' : 'square-outline'}
+                  size={24}
+                  color={isSelected ? colors.tint : colors.icon}
+                />
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: Spacing.md,
+    paddingTop: Spacing.xl,
+    paddingBottom: Spacing.md,
+  },
+  headerText: {
+    flex: 1,
+  },
+  modalTitle: {
+    fontSize: Typography.sizes.xl,
+    fontWeight: Typography.weights.bold,
+  },
+  modalSubtitle: {
+    fontSize: Typography.sizes.sm,
+    marginTop: Spacing.xs,
+  },
+  modalCloseButton: {
+    padding: Spacing.sm,
+    minWidth: 44,
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.sm,
+  },
+  createInput: {
+    flex: 1,
+    minHeight: 44,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    fontSize: Typography.sizes.md,
+  },
+  createButton: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.md,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  errorText: {
+    fontSize: Typography.sizes.sm,
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.sm,
+  },
+  modalContent: {
+    flex: 1,
+  },
+  listOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    borderBottomWidth: 1,
+    minHeight: 60,
+  },
+  listOptionContent: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
+  listOptionTitle: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.medium,
+  },
+  listOptionCount: {
+    fontSize: Typography.sizes.sm,
+    marginTop: Spacing.xs,
+  },
+});
@@ -0,0 +1,182 @@
+/**
+ * ListRow Component
+ * A list in the profile Lists tab with reorder, rename and delete actions
+ */
+
+import { View, Text, Pressable, Alert, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { isDefaultList } from '@/utils/custom-lists';
+import type { CustomList } from '@/types/lists';
+
+export interface ListRowProps {
+  list: CustomList;
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  onPress: () => void;
+  onMoveUp: () => void;
+  onMoveDown: () => void;
+  onRename: () => void;
+  onDelete: () => void;
+}
+
+/** Small icon button used for row actions */
+function RowAction({
+  icon,
+  label,
+  disabled = false,
+  color,
+  onPress,
+}: {
+  icon: keyof typeof Ionicons.glyphMap;
+  label: string;
+  disabled?: boolean;
+  color: string;
+  onPress: () => void;
+}) {
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={({ pressed }) => [
+        styles.actionButton,
+        { opacity: disabled ? 0.3 : pressed ? 0.6 : 1 },
+      ]}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ disabled }}
+    >
+      <Ionicons name={icon} size={20} color={color} />
+    </Pressable>
+  );
+}
+
+export function ListRow({
+  list,
+  canMoveUp,
+  canMoveDown,
+  onPress,
+  onMoveUp,
+  onMoveDown,
+  onRename,
+  onDelete,
+}: ListRowProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const isDefault = isDefaultList(list.id);
+  const { t } = useLocalization();
+
+  const handleDelete = () => {
+    Alert.alert(
+      t('lists.deleteList'),
+      t('lists.deleteConfirm', { list: list.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.delete'), style: 'destructive', onPress: onDelete },
+      ]
+    );
+  };
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+      testID={`list-row-${list.id}`}
+    >
+      <Pressable
+        onPress={onPress}
+        style={({ pressed }) => [styles.content, { opacity: pressed ? 0.7 : 1 }]}
+        accessibilityRole="button"
+        accessibilityLabel={`${list.name}, ${t('watchlist.titleCount', { count: list.items.length })}`}
+      >
+        <Ionicons
+          name={isDefault ? 'bookmark' : 'albums'}
+          size={22}
+          color={colors.tint}
+        />
+        <View style={styles.textContainer}>
+          <Text style={[styles.name, { color: colors.text }]} numberOfLines={1}>
+            {list.name}
+          </Text>
+          <Text style={[styles.count, { color: colors.textSecondary }]}>
+            {t('watchlist.titleCount', { count: list.items.length })}
+          </Text>
+        </View>
+      </Pressable>
+
+      {!isDefault && (
+        <View style={styles.actions}>
+          <RowAction
+            icon="chevron-up"
+            label={t('lists.moveUp', { list: list.name })}
+            disabled={!canMoveUp}
+            color={colors.icon}
+            onPress={onMoveUp}
+          />
+          <RowAction
+            icon="chevron-down"
+            label={t('lists.moveDown', { list: list.name })}
+            disabled={!canMoveDown}
+            color={colors.icon}
+            onPress={onMoveDown}
+          />
+          <RowAction
+            icon="create-outline"
+            label={t('lists.renameLabel', { list: list.name })}
+            color={colors.icon}
+            onPress={onRename}
+          />
+          <RowAction
+            icon="trash-outline"
+            label={t('lists.deleteLabel', { list: list.name })}
+            color={colors.error}
+            onPress={handleDelete}
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+    minHeight: 64,
+  },
+  content: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.md,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+  },
+  textContainer: {
+    flex: 1,
+  },
+  name: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.medium,
+  },
+  count: {
+    fontSize: Typography.sizes.sm,
+    marginTop: Spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: Spacing.xs,
+  },
+  actionButton: {
+    minWidth: 36,
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
@@ -0,0 +1,12 @@
+/**
+ * Custom list components barrel export
+ */
+
+export { ListPickerSheet } from './ListPickerSheet';
+export type { ListPickerSheetProps } from './ListPickerSheet';
+
+export { ListNameModal } from './ListNameModal';
+export type { ListNameModalProps } from './ListNameModal';
+
+export { ListRow } from './ListRow';
+export type { ListRowProps } from './ListRow';
@@ -0,0 +1,72 @@
+/**
+ * AvailableToMeChip Component
+ * Toggle for showing only titles streaming on the user's services
+ */
+
+import { Pressable, Text, StyleSheet, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { SOLID_COLORS } from '@/constants/colors';
+
+export interface AvailableToMeChipProps {
+  isSelected: boolean;
+  onPress: () => void;
+  /** Availability is still being checked */
+  isChecking?: boolean;
+  testID?: string;
+}
+
+export function AvailableToMeChip({ isSelected, onPress, isChecking = false, testID }: AvailableToMeChipProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const borderColor = useThemeColor({}, 'border');
+  const textColor = useThemeColor({}, 'text');
+  const backgroundColor = useThemeColor({}, 'backgroundSecondary');
+  const { t } = useLocalization();
+  const contentColor = isSelected ? SOLID_COLORS.WHITE : textColor;
+
+  return (
+    <Pressable
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={t('availability.chipLabel')}
+      accessibilityState={{ selected: isSelected, busy: isChecking }}
+      style={({ pressed }) => [
+        styles.chip,
+        {
+          backgroundColor: isSelected ? tintColor : backgroundColor,
+          borderColor: isSelected ? tintColor : borderColor,
+          opacity: pressed ? 0.8 : 1,
+        },
+      ]}
+      testID={testID}
+    >
+      {isChecking ? (
+        <ActivityIndicator size="small" color={contentColor} />
+      ) : (
+        <Ionicons name="tv-outline" size={14} color={contentColor} />
+      )}
+      <Text style={[styles.chipText, { color: contentColor }]}>{t('availability.availableToMe')}</Text>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    minHeight: 32,
+  },
+  chipText: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+  },
+});
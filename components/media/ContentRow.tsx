@@ -5,7 +5,7 @@
  * Requirements: 1.4, 1.5
  */
 
-import { useCallback, useRef, useEffect } from 'react';
+import { useCallback, useRef, useEffect, useMemo } from 'react';
 import {
   StyleSheet,
   View,
@@ -15,6 +15,8 @@ import {
 } from 'react-native';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useCertificationCeiling } from '@/hooks/use-certification-ceiling';
 import { Spacing, Typography, ComponentTokens } from '@/constants/theme';
 import { MediaCard } from './MediaCard';
 import { logMediaImpressions } from '@/services/analytics';
@@ -27,8 +29,14 @@ export interface ContentRowProps {
   items: MediaItem[];
   /** Callback when an item is pressed */
   onItemPress: (id: number, mediaType: 'movie' | 'tv') => void;
+  /** Optional caption under each card, e.g. the next episode */
+  getItemSubtitle?: (item: MediaItem) => string | null;
   /** Callback when "See All" is pressed */
   onSeeAllPress?: () => void;
+  /** Extra control shown in the header, e.g. a filter chip */
+  headerAccessory?: React.ReactNode;
+  /** Shown instead of hiding the row when there are no items */
+  emptyMessage?: string;
   /** Callback when end of list is reached (for infinite scroll) */
   onEndReached?: () => void;
   /** Whether more items are being loaded */
@@ -43,9 +51,12 @@ const ITEM_SPACING = ComponentTokens.contentRow.itemSpacing;
 
 export function ContentRow({
   title,
-  items,
+  items: allItems,
   onItemPress,
+  getItemSubtitle,
   onSeeAllPress,
+  headerAccessory,
+  emptyMessage,
   onEndReached,
   isLoading = false,
   sourceScreen = 'content_row',
@@ -53,7 +64,11 @@ export function ContentRow({
 }: ContentRowProps) {
   const textColor = useThemeColor({}, 'text');
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
+  const textSecondary = useThemeColor({}, 'textSecondary');
   const impressionTrackedRef = useRef(new Set<number>());
+  const { visibleTitles } = useCertificationCeiling(allItems);
+  const items = useMemo(() => visibleTitles(allItems), [visibleTitles, allItems]);
 
   // Track impressions when items are rendered
   useEffect(() => {
@@ -78,21 +93,35 @@ export function ContentRow({
   }, [isLoading, onEndReached]);
 
   const renderItem = useCallback(
-    ({ item }: { item: MediaItem }) => (
-      <View style={styles.itemContainer}>
-        <MediaCard
-          id={item.id}
-          title={item.title}
-          posterPath={item.posterPath}
-          rating={item.voteAverage}
-          ageRating={item.ageRating}
-          variant="medium"
-          onPress={() => onItemPress(item.id, item.mediaType)}
-          testID={testID ? `${testID}-item-${item.id}` : undefined}
-        />
-      </View>
-    ),
-    [onItemPress, testID]
+    ({ item }: { item: MediaItem }) => {
+      const subtitle = getItemSubtitle?.(item);
+
+      return (
+        <View style={styles.itemContainer}>
+          <MediaCard
+            id={item.id}
+            mediaType={item.mediaType}
+            title={item.title}
+            posterPath={item.posterPath}
+            rating={item.voteAverage}
+            ageRating={item.ageRating}
+            variant="medium"
+            onPress={() => onItemPress(item.id, item.mediaType)}
+            testID={testID ? `${testID}-item-${item.id}` : undefined}
+          />
+          {subtitle && (
+            <Text
+              style={[styles.subtitle, { color: textSecondary }]}
+              numberOfLines={1}
+              testID={testID ? `${testID}-item-${item.id}-subtitle` : undefined}
+            >
+              {subtitle}
+            </Text>
+          )}
+        </View>
+      );
+    },
+    [onItemPress, getItemSubtitle, textSecondary, testID]
   );
 
   const renderHeader = useCallback(
@@ -104,28 +133,35 @@ export function ContentRow({
         >
           {title}
         </Text>
+        {headerAccessory}
         {onSeeAllPress && (
           <Pressable
             onPress={onSeeAllPress}
             accessibilityRole="button"
-            accessibilityLabel={`See all ${title}`}
+            accessibilityLabel={t('home.seeAllLabel', { title })}
             style={({ pressed }) => [
               styles.seeAllButton,
               { opacity: pressed ? 0.7 : 1 },
             ]}
           >
             <Text style={[styles.seeAllText, { color: tintColor }]}>
-              See All
+              {t('home.seeAll')}
             </Text>
           </Pressable>
         )}
       </View>
     ),
-    [title, textColor, tintColor, onSeeAllPress]
+    [title, textColor, tintColor, onSeeAllPress, headerAccessory, t]
   );
 
   if (items.length === 0) {
-    return null;
+    if (!emptyMessage) return null;
+    return (
+      <View style={styles.container} testID={testID}>
+        {renderHeader()}
+        <Text style={[styles.emptyMessage, { color: textSecondary }]}>{emptyMessage}</Text>
+      </View>
+    );
   }
 
   return (
@@ -166,9 +202,15 @@ const styles = StyleSheet.create({
     minHeight: ComponentTokens.contentRow.titleHeight,
   },
   title: {
+    flexShrink: 1,
     fontSize: Typography.sizes.lg,
     fontWeight: Typography.weights.bold,
   },
+  emptyMessage: {
+    fontSize: Typography.sizes.sm,
+    fontStyle: 'italic',
+    paddingHorizontal: Spacing.md,
+  },
   seeAllButton: {
     paddingVertical: Spacing.xs,
     paddingHorizontal: Spacing.sm,
@@ -186,7 +228,12 @@ const styles = StyleSheet.create({
     gap: ITEM_SPACING,
   },
   itemContainer: {
-    marginRight: ITEM_SPACING,
+    marginEnd: ITEM_SPACING,
+  },
+  subtitle: {
+    width: ComponentTokens.mediaCard.medium.width,
+    fontSize: Typography.sizes.xs,
+    marginTop: Spacing.xs,
   },
 });
 
@@ -20,9 +20,12 @@ import { Image } from 'expo-image';
 import { LinearGradient } from 'expo-linear-gradient';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useLayoutDirection } from '@/hooks/use-layout-direction';
 import { Spacing, BorderRadius, Typography, ComponentTokens } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS } from '@/constants/colors';
 import { API_BASE_URLS } from '@/constants/api';
+import { formatRating } from '@/utils/formatting';
 import type { TrendingItem } from '@/types/media';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -69,6 +72,8 @@ export function HeroCarousel({
   const autoAdvanceRef = useRef<ReturnType<typeof setInterval> | null>(null);
   
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
+  const { pageIndex } = useLayoutDirection();
   const backgroundColor = useThemeColor({}, 'background');
 
   // Auto-advance logic
@@ -107,15 +112,15 @@ export function HeroCarousel({
   // Handle scroll end to update current index
   const handleScrollEnd = useCallback(
     (event: NativeSyntheticEvent<NativeScrollEvent>) => {
-      const contentOffsetX = event.nativeEvent.contentOffset.x;
-      const newIndex = Math.round(contentOffsetX / SCREEN_WIDTH);
-      if (newIndex !== currentIndex && newIndex >= 0 && newIndex < items.length) {
+      // In right-to-left layouts the first item is the one furthest right
+      const newIndex = pageIndex(event.nativeEvent.contentOffset.x, SCREEN_WIDTH, items.length);
+      if (newIndex !== currentIndex) {
         setCurrentIndex(newIndex);
       }
       // Restart auto-advance after user interaction
       startAutoAdvance();
     },
-    [currentIndex, items.length, startAutoAdvance]
+    [currentIndex, items.length, pageIndex, startAutoAdvance]
   );
 
   // Handle scroll begin to stop auto-advance during user interaction
@@ -131,8 +136,8 @@ export function HeroCarousel({
         <Pressable
           onPress={() => onItemPress(item.id, item.mediaType)}
           accessibilityRole="button"
-          accessibilityLabel={`${item.title}, trending rank ${item.rank}`}
-          accessibilityHint="Double tap to view details"
+          accessibilityLabel={t('home.heroLabel', { title: item.title, rank: item.rank })}
+          accessibilityHint={t('accessibility.viewDetailsHint')}
           style={styles.heroItem}
         >
           {backdropUrl ? (
@@ -177,14 +182,14 @@ export function HeroCarousel({
             
             {item.voteAverage !== null && item.voteAverage > 0 && (
               <Text style={[styles.rating, { color: SOLID_COLORS.WHITE }]}>
-                ★ {item.voteAverage.toFixed(1)}
+                ★ {formatRating(item.voteAverage)}
               </Text>
             )}
           </View>
         </Pressable>
       );
     },
-    [onItemPress, tintColor, backgroundColor]
+    [onItemPress, tintColor, backgroundColor, t]
   );
 
   const renderPaginationDots = useCallback(() => {
@@ -201,13 +206,16 @@ export function HeroCarousel({
                 backgroundColor: index === currentIndex ? tintColor : OVERLAY_COLORS.WHITE_50,
               },
             ]}
-            accessibilityLabel={`Page ${index + 1} of ${items.length}${index === currentIndex ? ', current' : ''}`}
+            accessibilityLabel={t(index === currentIndex ? 'home.currentPageLabel' : 'home.pageLabel', {
+              page: index + 1,
+              total: items.length,
+            })}
           />
         ))}
       </View>
     );
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [items.length, currentIndex, tintColor]);
+  }, [items.length, currentIndex, tintColor, t]);
 
   if (items.length === 0) {
     return null;
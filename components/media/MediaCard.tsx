@@ -10,6 +10,8 @@ import { Image } from 'expo-image';
 import { StyleSheet, View, Pressable, Text } from 'react-native';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useCertificationCeiling } from '@/hooks/use-certification-ceiling';
 import { Spacing, BorderRadius, Typography, ComponentTokens } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS } from '@/constants/colors';
 import {
@@ -30,6 +32,8 @@ export { MediaCardVariant, getVariantDimensions, BLURHASH_PLACEHOLDER } from './
 export interface MediaCardProps {
   /** Unique identifier for the media item */
   id: number;
+  /** Media type, so a looked-up certification can be matched to the card */
+  mediaType?: 'movie' | 'tv';
   /** Title of the movie/series */
   title: string;
   /** Path to the poster image (null if unavailable) */
@@ -50,6 +54,7 @@ export interface MediaCardProps {
 
 export function MediaCard({
   id,
+  mediaType,
   title,
   posterPath,
   rating,
@@ -66,6 +71,9 @@ export function MediaCard({
   const ratingTextColor = useThemeColor({}, 'ratingText');
   const ageRatingBadgeColor = useThemeColor({}, 'warning');
   const ageRatingTextColor = useThemeColor({}, 'background');
+  const { t } = useLocalization();
+  const { isBlurred } = useCertificationCeiling();
+  const blurred = isBlurred({ id, mediaType, ageRating });
   
   const dimensions = getVariantDimensions(variant);
   const posterUrl = getPosterUrl(posterPath, variant);
@@ -84,7 +92,7 @@ export function MediaCard({
       onLongPress={onLongPress}
       accessibilityRole="button"
       accessibilityLabel={accessibilityLabel}
-      accessibilityHint="Double tap to view details"
+      accessibilityHint={t('accessibility.viewDetailsHint')}
       testID={testID}
       style={({ pressed }) => [
         styles.touchTarget,
@@ -116,7 +124,8 @@ export function MediaCard({
             placeholder={{ blurhash: BLURHASH_PLACEHOLDER }}
             transition={300}
             cachePolicy="memory-disk"
-            accessibilityLabel={`${title} poster`}
+            blurRadius={blurred ? ComponentTokens.restrictedArtwork.blurRadius : undefined}
+            accessibilityLabel={t('mediaCard.posterLabel', { title })}
             testID={testID ? `${testID}-poster` : undefined}
           />
         ) : (
@@ -131,7 +140,7 @@ export function MediaCard({
                 variant === 'small' && styles.placeholderTextSmall,
               ]}
               numberOfLines={3}
-              accessibilityLabel={`${title} placeholder`}
+              accessibilityLabel={t('mediaCard.placeholderLabel', { title })}
             >
               {title}
             </Text>
@@ -142,7 +151,7 @@ export function MediaCard({
         {showRating && (
           <View
             style={[styles.ratingBadge, { backgroundColor: ratingBadgeColor }]}
-            accessibilityLabel={`Rating: ${formatRating(rating!)} out of 10`}
+            accessibilityLabel={t('mediaCard.ratingBadgeLabel', { rating: formatRating(rating!) })}
             testID={testID ? `${testID}-rating` : undefined}
           >
             <Text style={[styles.ratingText, { color: ratingTextColor }]}>
@@ -159,7 +168,7 @@ export function MediaCard({
               { backgroundColor: ageRatingBadgeColor },
               showRating && styles.ageRatingBadgeWithRating,
             ]}
-            accessibilityLabel={`Age rating: ${ageRating}`}
+            accessibilityLabel={t('mediaCard.ageRatingBadgeLabel', { rating: ageRating })}
             testID={testID ? `${testID}-age-rating` : undefined}
           >
             <Text style={[styles.ageRatingText, { color: ageRatingTextColor }]}>
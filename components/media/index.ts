@@ -21,6 +21,9 @@ export type { HeroCarouselProps } from './HeroCarousel';
 export { ContentRow } from './ContentRow';
 export type { ContentRowProps } from './ContentRow';
 
+export { AvailableToMeChip } from './AvailableToMeChip';
+export type { AvailableToMeChipProps } from './AvailableToMeChip';
+
 export { TrailerPlayer } from './TrailerPlayer';
 export type { TrailerPlayerProps, TrailerPlayerState } from './TrailerPlayer';
 export {
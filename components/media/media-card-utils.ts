@@ -5,6 +5,8 @@
 
 import { ComponentTokens } from '@/constants/colors';
 import { API_BASE_URLS } from '@/constants/api';
+import { t } from '@/services/localization';
+import { formatRating as formatLocaleRating } from '@/utils/formatting';
 
 /** Media card size variants */
 export type MediaCardVariant = 'large' | 'medium' | 'small';
@@ -47,7 +49,7 @@ export function getVariantDimensions(variant: MediaCardVariant): { width: number
 
 /** Format rating to one decimal place */
 export function formatRating(rating: number): string {
-  return rating.toFixed(1);
+  return formatLocaleRating(rating);
 }
 
 /** Check if rating should be displayed */
@@ -75,11 +77,11 @@ export function generateAccessibilityLabel(
   const parts: string[] = [title];
   
   if (shouldShowRating(rating)) {
-    parts.push(`rated ${formatRating(rating!)} out of 10`);
+    parts.push(t('mediaCard.ratedOutOf10', { rating: formatRating(rating!) }));
   }
   
   if (ageRating) {
-    parts.push(`age rating ${ageRating}`);
+    parts.push(t('mediaCard.ageRating', { rating: ageRating }));
   }
   
   return parts.join(', ');
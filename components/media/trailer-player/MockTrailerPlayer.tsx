@@ -10,6 +10,7 @@ import { StyleSheet, View, Text, Pressable } from 'react-native';
 import { Image } from 'expo-image';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS, ComponentTokens } from '@/constants/colors';
 import { DIMENSIONS } from '@/constants/layout';
@@ -31,6 +32,7 @@ export function MockTrailerPlayer({
   testID,
 }: MockTrailerPlayerProps) {
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
   const [isPlaying, setIsPlaying] = useState(false);
   const [mockProgress, setMockProgress] = useState(0);
 
@@ -69,7 +71,7 @@ export function MockTrailerPlayer({
       <View style={styles.mockOverlay}>
         {/* Mock Mode Badge */}
         <View style={styles.mockBadge}>
-          <Text style={styles.mockBadgeText}>Mock Mode - No Video Available</Text>
+          <Text style={styles.mockBadgeText}>{t('trailer.mockMode')}</Text>
         </View>
 
         {/* Close Button */}
@@ -79,7 +81,7 @@ export function MockTrailerPlayer({
               onPress={onClose}
               style={styles.closeButton}
               accessibilityRole="button"
-              accessibilityLabel="Close trailer"
+              accessibilityLabel={t('trailer.close')}
               testID={testID ? `${testID}-close` : undefined}
             >
               <IconSymbol name="xmark" size={24} color={SOLID_COLORS.WHITE} />
@@ -93,7 +95,7 @@ export function MockTrailerPlayer({
             onPress={togglePlayPause}
             style={[styles.playPauseButton, { backgroundColor: tintColor }]}
             accessibilityRole="button"
-            accessibilityLabel={isPlaying ? 'Pause' : 'Play'}
+            accessibilityLabel={isPlaying ? t('trailer.pause') : t('trailer.play')}
             testID={testID ? `${testID}-play-pause` : undefined}
           >
             <IconSymbol
@@ -103,7 +105,7 @@ export function MockTrailerPlayer({
             />
           </Pressable>
           <Text style={styles.mockText}>
-            {isPlaying ? 'Simulating playback...' : 'Tap to simulate playback'}
+            {isPlaying ? t('trailer.simulating') : t('trailer.tapToSimulate')}
           </Text>
         </View>
 
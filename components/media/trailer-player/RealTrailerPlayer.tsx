@@ -9,6 +9,7 @@ import { useState, useEffect } from 'react';
 import { StyleSheet, View, Text, Pressable, ActivityIndicator } from 'react-native';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography } from '@/constants/theme';
 import { SOLID_COLORS } from '@/constants/colors';
 import { IconSymbol } from '@/components/ui/icon-symbol';
@@ -31,6 +32,7 @@ export function RealTrailerPlayer({
   const textSecondary = useThemeColor({}, 'textSecondary');
   const tintColor = useThemeColor({}, 'tint');
   const errorColor = useThemeColor({}, 'error');
+  const { t } = useLocalization();
 
   const [state, setState] = useState<TrailerPlayerState>({
     isPlaying: autoPlay,
@@ -65,15 +67,15 @@ export function RealTrailerPlayer({
         setState(prev => ({
           ...prev,
           hasError: true,
-          errorMessage: 'Video player not available',
+          errorMessage: t('trailer.playerUnavailable'),
           isLoading: false,
         }));
-        onError?.('Video player not available');
+        onError?.(t('trailer.playerUnavailable'));
       }
     };
 
     loadVideoComponents();
-  }, [onError]);
+  }, [onError, t]);
 
   // Loading video components
   if (!VideoComponents) {
@@ -81,7 +83,7 @@ export function RealTrailerPlayer({
       <View style={[styles.container, { backgroundColor: SOLID_COLORS.BLACK }]} testID={testID}>
         <View style={styles.loadingOverlay}>
           <ActivityIndicator size="large" color={SOLID_COLORS.WHITE} />
-          <Text style={styles.loadingText}>Loading player...</Text>
+          <Text style={styles.loadingText}>{t('trailer.loadingPlayer')}</Text>
         </View>
       </View>
     );
@@ -94,10 +96,10 @@ export function RealTrailerPlayer({
         <View style={styles.errorContainer}>
           <IconSymbol name="exclamationmark.triangle" size={48} color={errorColor} />
           <Text style={[styles.errorTitle, { color: textColor }]}>
-            Trailer Unavailable
+            {t('trailer.unavailable')}
           </Text>
           <Text style={[styles.errorMessage, { color: textSecondary }]}>
-            {state.errorMessage || 'Unable to load the trailer. Please try again.'}
+            {state.errorMessage || t('trailer.loadFailedRetry')}
           </Text>
           <View style={styles.errorActions}>
             {onClose && (
@@ -105,10 +107,10 @@ export function RealTrailerPlayer({
                 onPress={onClose}
                 style={[styles.dismissButton, { backgroundColor: tintColor }]}
                 accessibilityRole="button"
-                accessibilityLabel="Close"
+                accessibilityLabel={t('common.close')}
                 testID={testID ? `${testID}-dismiss` : undefined}
               >
-                <Text style={styles.retryButtonText}>Close</Text>
+                <Text style={styles.retryButtonText}>{t('common.close')}</Text>
               </Pressable>
             )}
           </View>
@@ -9,6 +9,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { StyleSheet, View, Text, Pressable, ActivityIndicator, Dimensions } from 'react-native';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS, ComponentTokens } from '@/constants/colors';
 import { DIMENSIONS } from '@/constants/layout';
@@ -52,6 +53,7 @@ export function VideoPlayerContent({
   const textSecondary = useThemeColor({}, 'textSecondary');
   const tintColor = useThemeColor({}, 'tint');
   const errorColor = useThemeColor({}, 'error');
+  const { t } = useLocalization();
 
   const [state, setState] = useState<TrailerPlayerState>({
     isPlaying: autoPlay ?? true,
@@ -87,7 +89,7 @@ export function VideoPlayerContent({
         duration: player.duration,
       }));
     } else if (status === 'error') {
-      const errorMsg = 'Failed to load video';
+      const errorMsg = t('trailer.videoLoadFailed');
       setState(prev => ({
         ...prev,
         hasError: true,
@@ -96,7 +98,7 @@ export function VideoPlayerContent({
       }));
       onError?.(errorMsg);
     }
-  }, [status, player.duration, onError]);
+  }, [status, player.duration, onError, t]);
 
   // Update playing state
   useEffect(() => {
@@ -186,16 +188,16 @@ export function VideoPlayerContent({
       <View style={[styles.container, { backgroundColor }]} testID={testID}>
         <View style={styles.errorContainer}>
           <IconSymbol name="exclamationmark.triangle" size={48} color={errorColor} />
-          <Text style={[styles.errorTitle, { color: textColor }]}>Trailer Unavailable</Text>
+          <Text style={[styles.errorTitle, { color: textColor }]}>{t('trailer.unavailable')}</Text>
           <Text style={[styles.errorMessage, { color: textSecondary }]}>
-            {state.errorMessage || 'Unable to load the trailer.'}
+            {state.errorMessage || t('trailer.loadFailed')}
           </Text>
           {onClose && (
             <Pressable
               onPress={onClose}
               style={[styles.dismissButton, { backgroundColor: tintColor }]}
             >
-              <Text style={styles.retryButtonText}>Close</Text>
+              <Text style={styles.retryButtonText}>{t('common.close')}</Text>
             </Pressable>
           )}
         </View>
@@ -219,7 +221,7 @@ export function VideoPlayerContent({
       {state.isLoading && (
         <View style={styles.loadingOverlay}>
           <ActivityIndicator size="large" color={SOLID_COLORS.WHITE} />
-          <Text style={styles.loadingText}>Loading...</Text>
+          <Text style={styles.loadingText}>{t('common.loading')}</Text>
         </View>
       )}
 
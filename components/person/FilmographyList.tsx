@@ -0,0 +1,245 @@
+/**
+ * FilmographyList Component
+ * Displays a person's credits with sort options and a watchlist toggle per title
+ */
+
+import { StyleSheet, View, Text, Pressable } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { Spacing, BorderRadius, Typography, ComponentTokens } from '@/constants/theme';
+import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
+import { getPosterUrl } from '@/components/media/media-card-utils';
+import { formatReleaseYear, formatRating } from '@/components/detail/detail-utils';
+import type { PersonCredit } from '@/types/media';
+import {
+  FILMOGRAPHY_SORT_OPTIONS,
+  type FilmographyEntry,
+  type FilmographySort,
+} from './person-utils';
+
+const POSTER_WIDTH = 56;
+const POSTER_HEIGHT = POSTER_WIDTH * 1.5;
+
+export interface FilmographyListProps {
+  /** Sorted filmography entries */
+  entries: FilmographyEntry[];
+  /** Active sort option */
+  sort: FilmographySort;
+  /** Callback when a sort option is selected */
+  onSortChange: (sort: FilmographySort) => void;
+  /** Whether a title is in the watchlist */
+  isInWatchlist: (id: number, mediaType: 'movie' | 'tv') => boolean;
+  /** Callback when a title's watchlist button is pressed */
+  onWatchlistToggle: (credit: PersonCredit) => void;
+  /** Callback when a title is pressed */
+  onItemPress: (id: number, mediaType: 'movie' | 'tv') => void;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+export function FilmographyList({
+  entries,
+  sort,
+  onSortChange,
+  isInWatchlist,
+  onWatchlistToggle,
+  onItemPress,
+  testID,
+}: FilmographyListProps) {
+  const textColor = useThemeColor({}, 'text');
+  const textSecondary = useThemeColor({}, 'textSecondary');
+  const tintColor = useThemeColor({}, 'tint');
+  const cardBackground = useThemeColor({}, 'card');
+  const cardBorder = useThemeColor({}, 'cardBorder');
+  const backgroundSecondary = useThemeColor({}, 'backgroundSecondary');
+  const { t } = useLocalization();
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container} testID={testID}>
+      <Text
+        style={[styles.sectionTitle, { color: textColor }]}
+        accessibilityRole="header"
+      >
+        {t('person.filmography')}
+      </Text>
+
+      {/* Sort options */}
+      <View style={styles.sortRow} accessibilityRole="tablist">
+        {FILMOGRAPHY_SORT_OPTIONS.map(option => {
+          const isActive = option.value === sort;
+          return (
+            <Pressable
+              key={option.value}
+              onPress={() => onSortChange(option.value)}
+              style={[
+                styles.sortChip,
+                { backgroundColor: isActive ? tintColor : backgroundSecondary },
+              ]}
+              accessibilityRole="tab"
+              accessibilityState={{ selected: isActive }}
+              accessibilityLabel={t('person.sortBy', { sort: t(option.labelKey) })}
+              testID={testID ? `${testID}-sort-${option.value}` : undefined}
+            >
+              <Text
+                style={[
+                  styles.sortLabel,
+                  { color: isActive ? cardBackground : textSecondary },
+                ]}
+              >
+                {t(option.labelKey)}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {entries.map(({ credit, roles }) => {
+        const posterUrl = getPosterUrl(credit.posterPath, 'small');
+        const year = formatReleaseYear(credit.releaseDate);
+        const rating = formatRating(credit.voteAverage);
+        const saved = isInWatchlist(credit.id, credit.mediaType);
+        const itemTestID = testID ? `${testID}-item-${credit.mediaType}-${credit.id}` : undefined;
+
+        return (
+          <Pressable
+            key={`${credit.mediaType}-${credit.id}`}
+            onPress={() => onItemPress(credit.id, credit.mediaType)}
+            style={({ pressed }) => [
+              styles.row,
+              { backgroundColor: cardBackground, borderColor: cardBorder, opacity: pressed ? 0.8 : 1 },
+            ]}
+            accessibilityRole="button"
+            accessibilityLabel={`${credit.title}${year ? `, ${year}` : ''}${roles.length ? `, ${roles.join(', ')}` : ''}`}
+            testID={itemTestID}
+          >
+            <View style={[styles.posterContainer, { backgroundColor: backgroundSecondary }]}>
+              {posterUrl ? (
+                <Image
+                  source={posterUrl === 'placeholder' ? PlaceholderImages.poster : { uri: posterUrl }}
+                  style={styles.poster}
+                  contentFit="cover"
+                  placeholder={{ blurhash: BLURHASH_PLACEHOLDER }}
+                  transition={200}
+                  cachePolicy="memory-disk"
+                />
+              ) : (
+                <Ionicons
+                  name={credit.mediaType === 'movie' ? 'film-outline' : 'tv-outline'}
+                  size={20}
+                  color={textSecondary}
+                />
+              )}
+            </View>
+
+            <View style={styles.info}>
+              <Text style={[styles.title, { color: textColor }]} numberOfLines={2}>
+                {credit.title}
+              </Text>
+              <Text style={[styles.meta, { color: textSecondary }]} numberOfLines={1}>
+                {[year || t('common.tba'), credit.mediaType === 'movie' ? t('common.movie') : t('diary.tvSeries'), rating && `★ ${rating}`]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Text>
+              {roles.length > 0 && (
+                <Text style={[styles.roles, { color: tintColor }]} numberOfLines={1}>
+                  {roles.join(', ')}
+                </Text>
+              )}
+            </View>
+
+            <Pressable
+              onPress={() => onWatchlistToggle(credit)}
+              hitSlop={Spacing.sm}
+              style={styles.watchlistButton}
+              accessibilityRole="button"
+              accessibilityLabel={saved ? t('watchlist.removeLabel', { title: credit.title }) : t('accessibility.watchlistButton', { title: credit.title })}
+              testID={itemTestID ? `${itemTestID}-watchlist` : undefined}
+            >
+              <Ionicons
+                name={saved ? 'bookmark' : 'bookmark-outline'}
+                size={22}
+                color={saved ? tintColor : textSecondary}
+              />
+            </Pressable>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.sm,
+  },
+  sectionTitle: {
+    fontSize: Typography.sizes.lg,
+    fontWeight: Typography.weights.bold,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  sortChip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  sortLabel: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    gap: Spacing.md,
+  },
+  posterContainer: {
+    width: POSTER_WIDTH,
+    height: POSTER_HEIGHT,
+    borderRadius: BorderRadius.sm,
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  poster: {
+    width: '100%',
+    height: '100%',
+  },
+  info: {
+    flex: 1,
+    gap: 2,
+  },
+  title: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.semibold,
+  },
+  meta: {
+    fontSize: Typography.sizes.xs,
+  },
+  roles: {
+    fontSize: Typography.sizes.sm,
+  },
+  watchlistButton: {
+    minWidth: ComponentTokens.touchTarget.min,
+    minHeight: ComponentTokens.touchTarget.min,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
+
+export default FilmographyList;
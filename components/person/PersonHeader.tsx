@@ -0,0 +1,139 @@
+/**
+ * PersonHeader Component
+ * Displays a person's photo, name, department and birth details
+ */
+
+import { StyleSheet, View, Text } from 'react-native';
+import { Image } from 'expo-image';
+
+import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { Spacing, BorderRadius, Typography } from '@/constants/theme';
+import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
+import { getProfileUrl } from '@/components/detail/detail-utils';
+import type { PersonDetails } from '@/types/media';
+import { formatLifespan } from './person-utils';
+
+const PHOTO_WIDTH = 120;
+const PHOTO_HEIGHT = PHOTO_WIDTH * 1.5;
+
+export interface PersonHeaderProps {
+  /** Person to display */
+  person: PersonDetails;
+  /** Number of titles in the filmography */
+  creditCount: number;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+export function PersonHeader({ person, creditCount, testID }: PersonHeaderProps) {
+  const textColor = useThemeColor({}, 'text');
+  const textSecondary = useThemeColor({}, 'textSecondary');
+  const tintColor = useThemeColor({}, 'tint');
+  const cardBackground = useThemeColor({}, 'card');
+  const { t } = useLocalization();
+
+  const profileUrl = getProfileUrl(person.profilePath, 'h632');
+  const lifespan = formatLifespan(person.birthday, person.deathday);
+
+  return (
+    <View
+      style={styles.container}
+      testID={testID}
+      accessibilityLabel={`${person.name}, ${person.knownForDepartment}`}
+    >
+      <View style={[styles.photoContainer, { backgroundColor: cardBackground }]}>
+        {profileUrl ? (
+          <Image
+            source={profileUrl === 'placeholder' ? PlaceholderImages.profile : { uri: profileUrl }}
+            style={styles.photo}
+            contentFit="cover"
+            placeholder={{ blurhash: BLURHASH_PLACEHOLDER }}
+            transition={200}
+            cachePolicy="memory-disk"
+            testID={testID ? `${testID}-photo` : undefined}
+          />
+        ) : (
+          <View style={styles.placeholder} testID={testID ? `${testID}-placeholder` : undefined}>
+            <Text style={[styles.placeholderText, { color: textSecondary }]}>
+              {person.name.charAt(0)}
+            </Text>
+          </View>
+        )}
+      </View>
+
+      <View style={styles.info}>
+        <Text
+          style={[styles.name, { color: textColor }]}
+          accessibilityRole="header"
+          testID={testID ? `${testID}-name` : undefined}
+        >
+          {person.name}
+        </Text>
+        <Text style={[styles.department, { color: tintColor }]}>
+          {person.knownForDepartment}
+        </Text>
+        {lifespan && (
+          <Text style={[styles.detail, { color: textSecondary }]}>{lifespan}</Text>
+        )}
+        {person.placeOfBirth && (
+          <Text style={[styles.detail, { color: textSecondary }]} numberOfLines={2}>
+            {person.placeOfBirth}
+          </Text>
+        )}
+        {creditCount > 0 && (
+          <Text style={[styles.detail, { color: textSecondary }]}>
+            {t('watchlist.titleCount', { count: creditCount })}
+          </Text>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+    gap: Spacing.md,
+  },
+  photoContainer: {
+    width: PHOTO_WIDTH,
+    height: PHOTO_HEIGHT,
+    borderRadius: BorderRadius.md,
+    overflow: 'hidden',
+  },
+  photo: {
+    width: '100%',
+    height: '100%',
+  },
+  placeholder: {
+    width: '100%',
+    height: '100%',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  placeholderText: {
+    fontSize: Typography.sizes.xxxl,
+    fontWeight: Typography.weights.bold,
+  },
+  info: {
+    flex: 1,
+    justifyContent: 'center',
+    gap: Spacing.xs,
+  },
+  name: {
+    fontSize: Typography.sizes.xxl,
+    fontWeight: Typography.weights.bold,
+  },
+  department: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.semibold,
+  },
+  detail: {
+    fontSize: Typography.sizes.sm,
+  },
+});
+
+export default PersonHeader;
@@ -0,0 +1,13 @@
+/**
+ * Person Page Components
+ * Exports all person page related components
+ */
+
+export { PersonHeader } from './PersonHeader';
+export type { PersonHeaderProps } from './PersonHeader';
+
+export { FilmographyList } from './FilmographyList';
+export type { FilmographyListProps } from './FilmographyList';
+
+// Utility exports
+export * from './person-utils';
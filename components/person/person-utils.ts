@@ -0,0 +1,119 @@
+/**
+ * Person Page Utility Functions
+ * Pure functions for filmography logic - testable without React
+ */
+
+import type { PersonCredit } from '@/types/media';
+import { t } from '@/services/localization';
+import { formatDate } from '@/utils/formatting';
+
+/** Filmography sort options */
+export type FilmographySort = 'newest' | 'oldest' | 'rating' | 'title';
+
+/** Sort options in display order */
+export const FILMOGRAPHY_SORT_OPTIONS: { value: FilmographySort; labelKey: string }[] = [
+  { value: 'newest', labelKey: 'person.sort.newest' },
+  { value: 'oldest', labelKey: 'person.sort.oldest' },
+  { value: 'rating', labelKey: 'person.sort.rating' },
+  { value: 'title', labelKey: 'person.sort.title' },
+];
+
+/** Maximum titles in the known-for row */
+export const MAX_KNOWN_FOR = 10;
+
+/** A title in the filmography with every role the person held on it */
+export interface FilmographyEntry {
+  credit: PersonCredit;
+  /** Characters and jobs, e.g. ["Neo", "Producer"] */
+  roles: string[];
+}
+
+/** Credits for the same title share this key */
+function getTitleKey(credit: PersonCredit): string {
+  return `${credit.mediaType}-${credit.id}`;
+}
+
+/** Role shown for a single credit */
+export function getCreditRole(credit: PersonCredit): string {
+  return credit.character || credit.job || credit.department;
+}
+
+/**
+ * Merge credits for the same title into one entry, keeping first-seen order
+ * A director who also wrote a film appears once, as "Director, Writer"
+ */
+export function mergePersonCredits(credits: PersonCredit[]): FilmographyEntry[] {
+  const entries = new Map<string, FilmographyEntry>();
+
+  credits.forEach(credit => {
+    const key = getTitleKey(credit);
+    const role = getCreditRole(credit);
+    const entry = entries.get(key);
+
+    if (!entry) {
+      entries.set(key, { credit, roles: role ? [role] : [] });
+    } else if (role && !entry.roles.includes(role)) {
+      entry.roles.push(role);
+    }
+  });
+
+  return [...entries.values()];
+}
+
+/**
+ * Sort filmography entries
+ * Undated titles (usually announced projects) go first for newest, last for oldest
+ */
+export function sortFilmography(entries: FilmographyEntry[], sort: FilmographySort): FilmographyEntry[] {
+  const sorted = [...entries];
+
+  switch (sort) {
+    case 'newest':
+      return sorted.sort((a, b) =>
+        (b.credit.releaseDate || '9999').localeCompare(a.credit.releaseDate || '9999')
+      );
+    case 'oldest':
+      return sorted.sort((a, b) =>
+        (a.credit.releaseDate || '9999').localeCompare(b.credit.releaseDate || '9999')
+      );
+    case 'rating':
+      return sorted.sort((a, b) => (b.credit.voteAverage ?? 0) - (a.credit.voteAverage ?? 0));
+    case 'title':
+      return sorted.sort((a, b) => a.credit.title.localeCompare(b.credit.title));
+  }
+}
+
+/**
+ * Pick the titles a person is best known for: the most voted on, one entry per title
+ * Credits in the person's own department come first
+ */
+export function getKnownForCredits(
+  credits: PersonCredit[],
+  department?: string,
+  limit: number = MAX_KNOWN_FOR
+): PersonCredit[] {
+  const inDepartment = department ? credits.filter(c => c.department === department) : [];
+  const pool = inDepartment.length > 0 ? inDepartment : credits;
+
+  return mergePersonCredits(pool)
+    .map(entry => entry.credit)
+    .sort((a, b) => b.voteCount - a.voteCount)
+    .slice(0, limit);
+}
+
+/** Format a birth or death date, e.g. "September 2, 1964" */
+export function formatPersonDate(dateString: string): string {
+  const date = new Date(dateString);
+  if (isNaN(date.getTime())) return dateString;
+  return formatDate(dateString);
+}
+
+/**
+ * Format birth and death dates, e.g. "Born September 2, 1964"
+ */
+export function formatLifespan(birthday: string | null, deathday: string | null): string | null {
+  if (birthday && deathday) return `${formatPersonDate(birthday)} – ${formatPersonDate(deathday)}`;
+  if (birthday) return t('person.born', { date: formatPersonDate(birthday) });
+  if (deathday) return t('person.died', { date: formatPersonDate(deathday) });
+  return null;
+}
@@ -0,0 +1,184 @@
+/**
+ * PickCard Component
+ * Tonight's suggestion, with its details and where it is streaming
+ */
+
+import { View, Text, Pressable, StyleSheet } from 'react-native';
+import { Image } from 'expo-image';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { SOLID_COLORS } from '@/constants/colors';
+import { PlaceholderImages, BLURHASH_PLACEHOLDER } from '@/constants/images';
+import { getPosterUrl } from '@/components/media/media-card-utils';
+import { formatRating, formatReleaseYear } from '@/components/detail/detail-utils';
+import { t } from '@/services/localization';
+import { formatRuntime } from '@/utils/formatting';
+import type { PickerCandidate } from '@/types/picker';
+
+const POSTER_WIDTH = 160;
+const POSTER_HEIGHT = POSTER_WIDTH * 1.5;
+
+/** "2019 · Movie · 2h 15m · ★ 7.8" */
+const describe = ({ mediaType, metadata }: PickerCandidate) => [
+  metadata?.releaseDate ? formatReleaseYear(metadata.releaseDate) : null,
+  mediaType === 'movie' ? t('common.movie') : t('diary.tvSeries'),
+  formatRuntime(metadata?.runtime),
+  formatRating(metadata?.voteAverage ?? null) && `★ ${formatRating(metadata?.voteAverage ?? null)}`,
+].filter(Boolean).join(' · ');
+
+export interface PickCardProps {
+  candidate: PickerCandidate;
+  /** Open the title's detail page */
+  onOpen: () => void;
+  /** "Not this one": suggest something else */
+  onReject: () => void;
+  testID?: string;
+}
+
+export function PickCard({ candidate, onOpen, onReject, testID }: PickCardProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t: translate } = useLocalization();
+  const posterUrl = getPosterUrl(candidate.posterPath, 'medium');
+  const genres = candidate.metadata?.genres.map(g => g.name).join(', ');
+  const services = candidate.metadata?.streamingProviders.map(p => p.providerName).join(', ');
+
+  return (
+    <View
+      style={[styles.container, { backgroundColor: colors.card, borderColor: colors.cardBorder }]}
+      testID={testID}
+    >
+      <Pressable
+        onPress={onOpen}
+        style={({ pressed }) => [styles.poster, { backgroundColor: colors.backgroundSecondary, opacity: pressed ? 0.8 : 1 }]}
+        accessibilityRole="button"
+        accessibilityLabel={`${candidate.title}, ${describe(candidate)}`}
+        accessibilityHint={translate('picker.opensDetails')}
+      >
+        {posterUrl && (
+          <Image
+            source={posterUrl === 'placeholder' ? PlaceholderImages.poster : { uri: posterUrl }}
+            style={styles.posterImage}
+            contentFit="cover"
+            placeholder={{ blurhash: BLURHASH_PLACEHOLDER }}
+            cachePolicy="memory-disk"
+          />
+        )}
+      </Pressable>
+
+      <View style={styles.badge}>
+        <Ionicons
+          name={candidate.source === 'watchlist' ? 'bookmark' : 'sparkles'}
+          size={14}
+          color={colors.tint}
+        />
+        <Text style={[styles.badgeText, { color: colors.tint }]}>
+          {candidate.source === 'watchlist' ? translate('picker.onYourWatchlist') : translate('picker.recommendedForYou')}
+        </Text>
+      </View>
+
+      <Text style={[styles.title, { color: colors.text }]} numberOfLines={2}>
+        {candidate.title}
+      </Text>
+      <Text style={[styles.meta, { color: colors.textSecondary }]}>{describe(candidate)}</Text>
+      {!!genres && (
+        <Text style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={1}>{genres}</Text>
+      )}
+      {!!services && (
+        <Text style={[styles.meta, { color: colors.textSecondary }]} numberOfLines={2}>
+          {translate('picker.streamingOn', { services })}
+        </Text>
+      )}
+
+      <View style={styles.actions}>
+        <Pressable
+          onPress={onReject}
+          style={({ pressed }) => [
+            styles.button,
+            { borderColor: colors.border, backgroundColor: colors.backgroundSecondary, opacity: pressed ? 0.7 : 1 },
+          ]}
+          accessibilityRole="button"
+          accessibilityLabel={translate('picker.rejectLabel')}
+          testID="picker-reject"
+        >
+          <Ionicons name="shuffle-outline" size={18} color={colors.text} />
+          <Text style={[styles.buttonText, { color: colors.text }]}>{translate('picker.reject')}</Text>
+        </Pressable>
+        <Pressable
+          onPress={onOpen}
+          style={({ pressed }) => [
+            styles.button,
+            { borderColor: colors.tint, backgroundColor: colors.tint, opacity: pressed ? 0.7 : 1 },
+          ]}
+          accessibilityRole="button"
+          accessibilityLabel={translate('picker.watchTitle', { title: candidate.title })}
+          testID="picker-accept"
+        >
+          <Ionicons name="play" size={18} color={SOLID_COLORS.WHITE} />
+          <Text style={[styles.buttonText, { color: SOLID_COLORS.WHITE }]}>{translate('picker.watchIt')}</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+    gap: Spacing.xs,
+    padding: Spacing.lg,
+    borderWidth: 1,
+    borderRadius: BorderRadius.lg,
+  },
+  poster: {
+    width: POSTER_WIDTH,
+    height: POSTER_HEIGHT,
+    borderRadius: BorderRadius.md,
+    overflow: 'hidden',
+    marginBottom: Spacing.sm,
+  },
+  posterImage: {
+    width: '100%',
+    height: '100%',
+  },
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+  },
+  badgeText: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.semibold,
+  },
+  title: {
+    fontSize: Typography.sizes.xl,
+    fontWeight: Typography.weights.bold,
+    textAlign: 'center',
+  },
+  meta: {
+    fontSize: Typography.sizes.sm,
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    minHeight: 44,
+  },
+  buttonText: {
+    fontSize: Typography.sizes.md,
+    fontWeight: Typography.weights.semibold,
+  },
+});
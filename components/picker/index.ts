@@ -0,0 +1,6 @@
+/**
+ * Tonight picker components barrel export
+ */
+
+export { PickCard } from './PickCard';
+export type { PickCardProps } from './PickCard';
@@ -7,6 +7,7 @@ import { View, Text, Pressable, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLayoutDirection } from '@/hooks/use-layout-direction';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 
 /** Settings section props */
@@ -52,6 +53,7 @@ export function SettingsRow({
 }: SettingsRowProps) {
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
+  const { directionalIcon } = useLayoutDirection();
 
   return (
     <Pressable
@@ -76,7 +78,7 @@ export function SettingsRow({
         </View>
       </View>
       {rightElement || (
-        <Ionicons name="chevron-forward" size={16} color={colors.textSecondary} />
+        <Ionicons name={directionalIcon('chevron-forward')} size={16} color={colors.textSecondary} />
       )}
     </Pressable>
   );
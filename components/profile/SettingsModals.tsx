@@ -1,15 +1,22 @@
 /**
  * Settings Modals for Profile Screen
- * Language and Theme selection modals
+ * Language, content language, Theme, streaming services and certification ceiling selection modals
  */
 
 import { View, Text, Pressable, ScrollView, Modal, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography } from '@/constants/theme';
-import { LANGUAGES, THEME_MODES } from '@/constants/profile';
-import type { ThemeMode } from '@/types/user';
+import {
+  CERTIFICATION_CEILINGS,
+  CERTIFICATION_CEILING_MODES,
+  THEME_MODES,
+  getCertificationCeilingLabel,
+} from '@/constants/profile';
+import { STREAMING_SERVICES } from '@/constants/streaming-services';
+import type { CertificationCeilingMode, ThemeMode } from '@/types/user';
 
 /** Language modal props */
 export interface LanguageModalProps {
@@ -28,6 +35,7 @@ export function LanguageModal({
 }: LanguageModalProps) {
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
+  const { t, availableLocales } = useLocalization();
 
   return (
     <Modal
@@ -38,14 +46,14 @@ export function LanguageModal({
     >
       <View style={[styles.modalContainer, { backgroundColor: colors.background }]}>
         <View style={styles.modalHeader}>
-          <Text style={[styles.modalTitle, { color: colors.text }]}>Select Language</Text>
+          <Text style={[styles.modalTitle, { color: colors.text }]}>{t('settings.selectLanguage')}</Text>
           <Pressable onPress={onClose} style={styles.modalCloseButton}>
             <Ionicons name="close" size={24} color={colors.text} />
           </Pressable>
         </View>
         
         <ScrollView style={styles.modalContent}>
-          {LANGUAGES.map((language) => (
+          {availableLocales.map((language) => (
             <Pressable
               key={language.code}
               onPress={() => {
@@ -74,6 +82,79 @@ export function LanguageModal({
   );
 }
 
+/** Content language modal props */
+export interface ContentLanguageModalProps {
+  visible: boolean;
+  /** Chosen content language, or null to follow the app language */
+  currentLanguage: string | null;
+  onSelect: (language: string | null) => void;
+  onClose: () => void;
+}
+
+/** Content language selection modal, for titles, overviews and posters */
+export function ContentLanguageModal({
+  visible,
+  currentLanguage,
+  onSelect,
+  onClose,
+}: ContentLanguageModalProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t, availableLocales } = useLocalization();
+
+  const options = [
+    { code: null, name: t('settings.sameAsAppLanguage') },
+    ...availableLocales,
+  ];
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: colors.background }]}>
+        <View style={styles.modalHeader}>
+          <Text style={[styles.modalTitle, { color: colors.text }]}>{t('settings.selectContentLanguage')}</Text>
+          <Pressable onPress={onClose} style={styles.modalCloseButton}>
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+        </View>
+        <Text style={[styles.modalDescription, { color: colors.textSecondary }]}>
+          {t('settings.contentLanguageDescription')}
+        </Text>
+
+        <ScrollView style={styles.modalContent}>
+          {options.map((language) => (
+            <Pressable
+              key={language.code ?? 'app'}
+              onPress={() => {
+                onSelect(language.code);
+                onClose();
+              }}
+              style={({ pressed }) => [
+                styles.languageOption,
+                {
+                  backgroundColor: pressed ? colors.backgroundSecondary : 'transparent',
+                  borderBottomColor: colors.cardBorder,
+                },
+              ]}
+            >
+              <Text style={[styles.languageOptionText, { color: colors.text }]}>
+                {language.name}
+              </Text>
+              {currentLanguage === language.code && (
+                <Ionicons name="checkmark" size={20} color={colors.tint} />
+              )}
+            </Pressable>
+          ))}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
 /** Theme modal props */
 export interface ThemeModalProps {
   visible: boolean;
@@ -91,6 +172,7 @@ export function ThemeModal({
 }: ThemeModalProps) {
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
+  const { t } = useLocalization();
 
   return (
     <Modal
@@ -101,7 +183,7 @@ export function ThemeModal({
     >
       <View style={[styles.modalContainer, { backgroundColor: colors.background }]}>
         <View style={styles.modalHeader}>
-          <Text style={[styles.modalTitle, { color: colors.text }]}>Select Theme</Text>
+          <Text style={[styles.modalTitle, { color: colors.text }]}>{t('settings.selectTheme')}</Text>
           <Pressable onPress={onClose} style={styles.modalCloseButton}>
             <Ionicons name="close" size={24} color={colors.text} />
           </Pressable>
@@ -125,10 +207,10 @@ export function ThemeModal({
             >
               <View style={styles.themeOptionContent}>
                 <Text style={[styles.themeOptionTitle, { color: colors.text }]}>
-                  {theme.label}
+                  {t(theme.labelKey)}
                 </Text>
                 <Text style={[styles.themeOptionDescription, { color: colors.textSecondary }]}>
-                  {theme.description}
+                  {t(theme.descriptionKey)}
                 </Text>
               </View>
               {currentTheme === theme.value && (
@@ -142,6 +224,189 @@ export function ThemeModal({
   );
 }
 
+/** Streaming services modal props */
+export interface StreamingServicesModalProps {
+  visible: boolean;
+  /** Provider IDs of the services currently chosen */
+  selectedIds: number[];
+  onChange: (providerIds: number[]) => void;
+  onClose: () => void;
+}
+
+/** "My Services" selection modal (several services can be chosen) */
+export function StreamingServicesModal({
+  visible,
+  selectedIds,
+  onChange,
+  onClose,
+}: StreamingServicesModalProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+
+  const toggle = (providerId: number) => {
+    onChange(selectedIds.includes(providerId)
+      ? selectedIds.filter(id => id !== providerId)
+      : [...selectedIds, providerId]);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: colors.background }]}>
+        <View style={styles.modalHeader}>
+          <Text style={[styles.modalTitle, { color: colors.text }]}>{t('settings.myServices')}</Text>
+          <Pressable onPress={onClose} style={styles.modalCloseButton}>
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+        </View>
+        <Text style={[styles.modalDescription, { color: colors.textSecondary }]}>
+          {t('settings.myServicesDescription')}
+        </Text>
+
+        <ScrollView style={styles.modalContent}>
+          {STREAMING_SERVICES.map((service) => {
+            const isSelected = selectedIds.includes(service.providerId);
+            return (
+              <Pressable
+                key={service.providerId}
+                onPress={() => toggle(service.providerId)}
+                style={({ pressed }) => [
+                  styles.languageOption,
+                  {
+                    backgroundColor: pressed ? colors.backgroundSecondary : 'transparent',
+                    borderBottomColor: colors.cardBorder,
+                  },
+                ]}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: isSelected }}
+                testID={`streaming-service-${service.providerId}`}
+              >
+                <Text style={[styles.languageOptionText, { color: colors.text }]}>
+                  {service.providerName}
+                </Text>
+                <Ionicons
+                  name={isSelected ? 'checkbox' : 'square-outline'}
+                  size={22}
+                  color={isSelected ? colors.tint : colors.textSecondary}
+                />
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+/** Certification ceiling modal props */
+export interface CertificationCeilingModalProps {
+  visible: boolean;
+  /** Highest viewer age allowed, or null for no ceiling */
+  currentCeiling: number | null;
+  currentMode: CertificationCeilingMode;
+  onSelectCeiling: (ceiling: number | null) => void;
+  onSelectMode: (mode: CertificationCeilingMode) => void;
+  onClose: () => void;
+}
+
+/** Certification ceiling modal: the age limit and whether titles above it are hidden or blurred */
+export function CertificationCeilingModal({
+  visible,
+  currentCeiling,
+  currentMode,
+  onSelectCeiling,
+  onSelectMode,
+  onClose,
+}: CertificationCeilingModalProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={onClose}
+    >
+      <View style={[styles.modalContainer, { backgroundColor: colors.background }]}>
+        <View style={styles.modalHeader}>
+          <Text style={[styles.modalTitle, { color: colors.text }]}>{t('settings.certificationCeiling')}</Text>
+          <Pressable onPress={onClose} style={styles.modalCloseButton}>
+            <Ionicons name="close" size={24} color={colors.text} />
+          </Pressable>
+        </View>
+        <Text style={[styles.modalDescription, { color: colors.textSecondary }]}>
+          {t('settings.certificationCeilingDescription')}
+        </Text>
+
+        <ScrollView style={styles.modalContent}>
+          {CERTIFICATION_CEILINGS.map((ceiling) => (
+            <Pressable
+              key={ceiling ?? 'none'}
+              onPress={() => onSelectCeiling(ceiling)}
+              style={({ pressed }) => [
+                styles.languageOption,
+                {
+                  backgroundColor: pressed ? colors.backgroundSecondary : 'transparent',
+                  borderBottomColor: colors.cardBorder,
+                },
+              ]}
+              accessibilityRole="radio"
+              accessibilityState={{ checked: currentCeiling === ceiling }}
+              testID={`certification-ceiling-${ceiling ?? 'none'}`}
+            >
+              <Text style={[styles.languageOptionText, { color: colors.text }]}>
+                {getCertificationCeilingLabel(ceiling)}
+              </Text>
+              {currentCeiling === ceiling && (
+                <Ionicons name="checkmark" size={20} color={colors.tint} />
+              )}
+            </Pressable>
+          ))}
+
+          <Text style={[styles.sectionHeading, { color: colors.textSecondary }]}>
+            {t('settings.ceilingModeHeading')}
+          </Text>
+          {CERTIFICATION_CEILING_MODES.map((mode) => (
+            <Pressable
+              key={mode.value}
+              onPress={() => onSelectMode(mode.value)}
+              style={({ pressed }) => [
+                styles.themeOption,
+                {
+                  backgroundColor: pressed ? colors.backgroundSecondary : 'transparent',
+                  borderBottomColor: colors.cardBorder,
+                },
+              ]}
+              accessibilityRole="radio"
+              accessibilityState={{ checked: currentMode === mode.value }}
+              testID={`certification-ceiling-mode-${mode.value}`}
+            >
+              <View style={styles.themeOptionContent}>
+                <Text style={[styles.themeOptionTitle, { color: colors.text }]}>
+                  {t(mode.labelKey)}
+                </Text>
+                <Text style={[styles.themeOptionDescription, { color: colors.textSecondary }]}>
+                  {t(mode.descriptionKey)}
+                </Text>
+              </View>
+              {currentMode === mode.value && (
+                <Ionicons name="checkmark" size={20} color={colors.tint} />
+              )}
+            </Pressable>
+          ))}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
 const styles = StyleSheet.create({
   modalContainer: {
     flex: 1,
@@ -168,6 +433,11 @@ const styles = StyleSheet.create({
   modalContent: {
     flex: 1,
   },
+  modalDescription: {
+    fontSize: Typography.sizes.sm,
+    paddingHorizontal: Spacing.md,
+    paddingBottom: Spacing.md,
+  },
   languageOption: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -200,4 +470,12 @@ const styles = StyleSheet.create({
     fontSize: Typography.sizes.sm,
     marginTop: Spacing.xs,
   },
+  sectionHeading: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.semibold,
+    textTransform: 'uppercase',
+    paddingHorizontal: Spacing.md,
+    paddingTop: Spacing.lg,
+    paddingBottom: Spacing.sm,
+  },
 });
@@ -1,42 +1,75 @@
 /**
  * Watchlist Card Component
- * Displays a watchlist item with remove functionality
+ * Displays a watchlist item with remove functionality, status badge, episode progress
+ * and sync errors
  */
 
 import { View, Text, Pressable, Alert, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS, ComponentTokens } from '@/constants/colors';
-import { PROFILE_GRID } from '@/constants/profile';
+import { PROFILE_GRID, getWatchlistStatusOption } from '@/constants/profile';
 import { COMPONENT_TEST_IDS } from '@/constants/test-ids';
 import { MediaCard } from '@/components/media/MediaCard';
-import type { WatchlistItem, WatchlistSyncStatus } from '@/types/watchlist';
+import { ProgressBar } from '@/components/ui/ProgressBar';
+import { getItemStatus } from '@/utils/watchlist-status';
+import type { WatchlistItem, WatchlistStatus, WatchlistSyncStatus } from '@/types/watchlist';
+import type { ProgressSummary } from '@/types/progress';
 
 /** Sync status indicator props */
 interface SyncStatusIndicatorProps {
   status: WatchlistSyncStatus;
+  /** Why the last sync failed */
+  error?: string | null;
+  /** Send the rejected change again */
+  onRetry?: () => void;
 }
 
-/** Sync status indicator component */
-function SyncStatusIndicator({ status }: SyncStatusIndicatorProps) {
+/** Sync status indicator component; tapping a sync error offers a retry */
+function SyncStatusIndicator({ status, error, onRetry }: SyncStatusIndicatorProps) {
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
+  const { t } = useLocalization();
 
   const getStatusConfig = () => {
     switch (status) {
       case 'synced':
-        return { icon: 'checkmark-circle' as const, color: colors.success, label: 'Synced' };
+        return { icon: 'checkmark-circle' as const, color: colors.success, label: t('watchlist.syncStatus.synced') };
       case 'pending':
-        return { icon: 'cloud-upload' as const, color: colors.warning, label: 'Syncing' };
+        return { icon: 'cloud-upload' as const, color: colors.warning, label: t('watchlist.syncStatus.syncing') };
       case 'error':
-        return { icon: 'alert-circle' as const, color: colors.error, label: 'Sync error' };
+        return { icon: 'alert-circle' as const, color: colors.error, label: t('watchlist.syncStatus.error') };
     }
   };
 
   const config = getStatusConfig();
 
+  if (status === 'error' && onRetry) {
+    const message = error || t('watchlist.syncStatus.errorMessage');
+    const handlePress = () => {
+      Alert.alert(t('watchlist.syncStatus.errorTitle'), message, [
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.retry'), onPress: onRetry },
+      ]);
+    };
+
+    return (
+      <Pressable
+        onPress={handlePress}
+        style={styles.syncIndicator}
+        accessibilityRole="button"
+        accessibilityLabel={`${config.label}: ${message}`}
+        accessibilityHint={t('watchlist.syncStatus.retryHint')}
+        testID={COMPONENT_TEST_IDS.SYNC_STATUS_INDICATOR}
+      >
+        <Ionicons name={config.icon} size={16} color={config.color} />
+      </Pressable>
+    );
+  }
+
   return (
     <View
       style={styles.syncIndicator}
@@ -48,25 +81,77 @@ function SyncStatusIndicator({ status }: SyncStatusIndicatorProps) {
   );
 }
 
+/** Status badge props */
+interface StatusBadgeProps {
+  status: WatchlistStatus;
+}
+
+/** Viewing status badge shown over the poster */
+function StatusBadge({ status }: StatusBadgeProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+  const option = getWatchlistStatusOption(status);
+
+  const statusColors: Record<WatchlistStatus, string> = {
+    plan_to_watch: colors.info,
+    watching: colors.warning,
+    completed: colors.success,
+    dropped: colors.error,
+  };
+
+  return (
+    <View
+      style={[styles.statusBadge, { backgroundColor: statusColors[status] }]}
+      accessibilityLabel={t(option.labelKey)}
+      testID={`watchlist-status-${status}`}
+    >
+      <Ionicons name={option.icon} size={12} color={SOLID_COLORS.WHITE} />
+      <Text style={styles.statusBadgeText} numberOfLines={1}>
+        {t(option.labelKey)}
+      </Text>
+    </View>
+  );
+}
+
 /** Watchlist card props */
 export interface WatchlistCardProps {
   item: WatchlistItem;
   onPress: () => void;
   onRemove: () => void;
+  /** Episode watch progress (TV series only) */
+  progress?: ProgressSummary;
+  /** Name of the list the card belongs to, used in remove prompts */
+  listName?: string;
+  /** Show the viewing status badge (watchlist items only) */
+  showStatus?: boolean;
+  /** Retry syncing the item after a sync error */
+  onRetrySync?: () => void;
 }
 
 /** Watchlist item card with remove functionality */
-export function WatchlistCard({ item, onPress, onRemove }: WatchlistCardProps) {
+export function WatchlistCard({
+  item,
+  onPress,
+  onRemove,
+  progress,
+  listName,
+  showStatus = false,
+  onRetrySync,
+}: WatchlistCardProps) {
   const colorScheme = useEffectiveColorScheme();
   const colors = Colors[colorScheme];
+  const { t } = useLocalization();
 
   const handleLongPress = () => {
     Alert.alert(
-      'Remove from Watchlist',
-      `Remove "${item.title}" from your watchlist?`,
+      listName ? t('lists.removeFromTitle', { list: listName }) : t('detail.removeFromWatchlist'),
+      listName
+        ? t('lists.removeConfirm', { title: item.title, list: listName })
+        : t('watchlist.removeConfirm', { title: item.title }),
       [
-        { text: 'Cancel', style: 'cancel' },
-        { text: 'Remove', style: 'destructive', onPress: onRemove },
+        { text: t('common.cancel'), style: 'cancel' },
+        { text: t('common.remove'), style: 'destructive', onPress: onRemove },
       ]
     );
   };
@@ -77,8 +162,10 @@ export function WatchlistCard({ item, onPress, onRemove }: WatchlistCardProps) {
         onPress={onPress}
         onLongPress={handleLongPress}
         accessibilityRole="button"
-        accessibilityLabel={`${item.title}. Long press to remove from watchlist`}
-        accessibilityHint="Double tap to view details, long press to remove"
+        accessibilityLabel={listName
+          ? t('lists.cardLabel', { title: item.title, list: listName })
+          : t('watchlist.cardLabel', { title: item.title })}
+        accessibilityHint={t('watchlist.cardHint')}
         style={({ pressed }) => [
           styles.cardContainer,
           { opacity: pressed ? 0.8 : 1 },
@@ -106,15 +193,18 @@ export function WatchlistCard({ item, onPress, onRemove }: WatchlistCardProps) {
               </Text>
             </View>
           )}
+          {showStatus && <StatusBadge status={getItemStatus(item)} />}
         </View>
       </Pressable>
       
-      <SyncStatusIndicator status={item.syncStatus} />
+      <SyncStatusIndicator status={item.syncStatus} error={item.syncError} onRetry={onRetrySync} />
       
       <Pressable
         onPress={onRemove}
         accessibilityRole="button"
-        accessibilityLabel={`Remove ${item.title} from watchlist`}
+        accessibilityLabel={listName
+          ? t('lists.removeLabel', { title: item.title, list: listName })
+          : t('watchlist.removeLabel', { title: item.title })}
         style={({ pressed }) => [
           styles.removeButton,
           { backgroundColor: colors.error, opacity: pressed ? 0.8 : 1 },
@@ -124,12 +214,35 @@ export function WatchlistCard({ item, onPress, onRemove }: WatchlistCardProps) {
         <Ionicons name="close" size={14} color={SOLID_COLORS.WHITE} />
       </Pressable>
       
+      {progress && progress.watched > 0 && (
+        <ProgressBar
+          progress={progress.fraction}
+          style={styles.progressBar}
+          accessibilityLabel={
+            progress.total
+              ? t('progress.watchedOfTotal', { count: progress.total, watched: progress.watched })
+              : t('progress.watched', { count: progress.watched })
+          }
+          testID={`watchlist-progress-${item.id}`}
+        />
+      )}
+
       <Text
         style={[styles.cardTitle, { color: colors.text }]}
         numberOfLines={2}
       >
         {item.title}
       </Text>
+
+      {item.syncStatus === 'error' && item.syncError && (
+        <Text
+          style={[styles.syncErrorText, { color: colors.error }]}
+          numberOfLines={2}
+          testID={`watchlist-sync-error-${item.id}`}
+        >
+          {item.syncError}
+        </Text>
+      )}
     </View>
   );
 }
@@ -182,9 +295,34 @@ const styles = StyleSheet.create({
     minWidth: ComponentTokens.touchTarget.min,
     minHeight: ComponentTokens.touchTarget.min,
   },
+  statusBadge: {
+    position: 'absolute',
+    bottom: Spacing.xs,
+    left: Spacing.xs,
+    right: Spacing.xs,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 2,
+    paddingVertical: 2,
+    paddingHorizontal: Spacing.xs,
+    borderRadius: BorderRadius.sm,
+  },
+  statusBadgeText: {
+    color: SOLID_COLORS.WHITE,
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.semibold,
+  },
+  progressBar: {
+    marginTop: Spacing.xs,
+  },
   cardTitle: {
     fontSize: Typography.sizes.xs,
     marginTop: Spacing.xs,
     textAlign: 'center',
   },
+  syncErrorText: {
+    fontSize: Typography.sizes.xs,
+    textAlign: 'center',
+  },
 });
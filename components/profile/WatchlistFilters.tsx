@@ -0,0 +1,326 @@
+/**
+ * Watchlist Filters Component
+ * Media type and viewing status filter chips, sort order and the smart filter
+ * panel (runtime, release status, streaming services, genres, audience rating)
+ * for the profile watchlist grid
+ */
+
+import { useState } from 'react';
+import { View, Text, Pressable, ScrollView, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { useEffectiveColorScheme } from '@/hooks/use-effective-color-scheme';
+import { useLocalization } from '@/hooks/use-localization';
+import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { SOLID_COLORS } from '@/constants/colors';
+import {
+  WATCHLIST_MEDIA_FILTERS,
+  WATCHLIST_RATING_RANGES,
+  WATCHLIST_RUNTIME_FILTERS,
+  WATCHLIST_SORT_ORDERS,
+  WATCHLIST_STATUSES,
+} from '@/constants/profile';
+import { countActiveSmartFilters } from '@/components/watchlist/watchlist-utils';
+import { describeStreamingServices } from '@/utils/streaming-services';
+import {
+  DEFAULT_WATCHLIST_SMART_FILTERS,
+  type WatchlistSmartFilters,
+  type WatchlistSortOrder,
+  type WatchlistStatus,
+} from '@/types/watchlist';
+import type { Genre } from '@/types/media';
+
+/** Filter chip props */
+interface FilterChipProps {
+  label: string;
+  icon?: keyof typeof Ionicons.glyphMap;
+  isSelected: boolean;
+  onPress: () => void;
+  /** Accessibility label (defaults to "Filter by <label>", translated) */
+  accessibilityLabel?: string;
+  testID?: string;
+}
+
+/** Selectable filter chip */
+function FilterChip({ label, icon, isSelected, onPress, accessibilityLabel, testID }: FilterChipProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+  const contentColor = isSelected ? SOLID_COLORS.WHITE : colors.text;
+
+  return (
+    <Pressable
+      onPress={onPress}
+      accessibilityRole="button"
+      accessibilityLabel={accessibilityLabel ?? t('watchlist.filters.filterBy', { label })}
+      accessibilityState={{ selected: isSelected }}
+      style={({ pressed }) => [
+        styles.chip,
+        {
+          backgroundColor: isSelected ? colors.tint : colors.backgroundSecondary,
+          borderColor: isSelected ? colors.tint : colors.border,
+          opacity: pressed ? 0.8 : 1,
+        },
+      ]}
+      testID={testID}
+    >
+      {icon && <Ionicons name={icon} size={14} color={contentColor} />}
+      <Text style={[styles.chipText, { color: contentColor }]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+/** Add or remove an ID from a selection */
+const toggleId = (ids: number[], id: number) =>
+  ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id];
+
+/** Smart filter panel props */
+export interface WatchlistFilterPanelProps {
+  filters: WatchlistSmartFilters;
+  /** Genres of the watchlist titles */
+  genres: Genre[];
+  onChange: (filters: WatchlistSmartFilters) => void;
+}
+
+/** Runtime, release, availability, genre and audience rating filters */
+export function WatchlistFilterPanel({ filters, genres, onChange }: WatchlistFilterPanelProps) {
+  const colorScheme = useEffectiveColorScheme();
+  const colors = Colors[colorScheme];
+  const { t } = useLocalization();
+  const update = (changes: Partial<WatchlistSmartFilters>) => onChange({ ...filters, ...changes });
+
+  const renderSection = (title: string, children: React.ReactNode) => (
+    <View style={styles.panelSection}>
+      <Text style={[styles.panelSectionTitle, { color: colors.textSecondary }]}>{title}</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        {children}
+      </ScrollView>
+    </View>
+  );
+
+  return (
+    <View style={styles.panel} testID="watchlist-filter-panel">
+      {renderSection(t('watchlist.filters.length'), WATCHLIST_RUNTIME_FILTERS.map((option) => (
+        <FilterChip
+          key={option.value ?? 'any'}
+          label={t(option.labelKey)}
+          isSelected={filters.maxRuntime === option.value}
+          onPress={() => update({ maxRuntime: option.value })}
+          testID={`watchlist-runtime-filter-${option.value ?? 'any'}`}
+        />
+      )))}
+      {renderSection(t('watchlist.filters.availability'), (
+        <>
+          <FilterChip
+            label={t('watchlist.filters.released')}
+            icon="checkmark-done-outline"
+            isSelected={filters.releasedOnly}
+            onPress={() => update({ releasedOnly: !filters.releasedOnly })}
+            accessibilityLabel={t('watchlist.filters.releasedLabel')}
+            testID="watchlist-released-filter"
+          />
+          <FilterChip
+            label={t('watchlist.filters.onMyServices')}
+            icon="tv-outline"
+            isSelected={filters.onMyServices}
+            onPress={() => update({ onMyServices: !filters.onMyServices })}
+            accessibilityLabel={t('watchlist.filters.onMyServicesLabel')}
+            testID="watchlist-services-filter"
+          />
+        </>
+      ))}
+      {filters.onMyServices && (
+        <Text style={[styles.panelHint, { color: colors.textSecondary }]} testID="watchlist-services-hint">
+          {t('watchlist.filters.servicesHint', { services: describeStreamingServices(filters.serviceIds, Infinity) })}
+        </Text>
+      )}
+      {genres.length > 0 && renderSection(t('watchlist.filters.genres'), genres.map((genre) => (
+        <FilterChip
+          key={genre.id}
+          label={genre.name}
+          isSelected={filters.genreIds.includes(genre.id)}
+          onPress={() => update({ genreIds: toggleId(filters.genreIds, genre.id) })}
+          testID={`watchlist-genre-filter-${genre.id}`}
+        />
+      )))}
+      {renderSection(t('watchlist.filters.audienceRating'), WATCHLIST_RATING_RANGES.map((option) => (
+        <FilterChip
+          key={option.labelKey}
+          label={t(option.labelKey)}
+          icon="star"
+          isSelected={
+            filters.voteAverage.min === option.value.min && filters.voteAverage.max === option.value.max
+          }
+          onPress={() => update({ voteAverage: option.value })}
+          accessibilityLabel={t('watchlist.filters.audienceRatingLabel', { label: t(option.labelKey) })}
+          testID={`watchlist-rating-filter-${option.value.min ?? ''}-${option.value.max ?? ''}`}
+        />
+      )))}
+      {countActiveSmartFilters(filters) > 0 && (
+        <View style={styles.chipRow}>
+          <FilterChip
+            label={t('watchlist.filters.clear')}
+            icon="close"
+            isSelected={false}
+            onPress={() => onChange(DEFAULT_WATCHLIST_SMART_FILTERS)}
+            accessibilityLabel={t('watchlist.filters.clearLabel')}
+            testID="watchlist-clear-filters"
+          />
+        </View>
+      )}
+    </View>
+  );
+}
+
+/** Watchlist filters props */
+export interface WatchlistFiltersProps {
+  mediaType: 'movie' | 'tv' | 'all';
+  status: WatchlistStatus | 'all';
+  /** Item count per status, shown on the status chips */
+  statusCounts: Record<WatchlistStatus, number>;
+  sortOrder: WatchlistSortOrder;
+  smartFilters: WatchlistSmartFilters;
+  /** Genres of the watchlist titles, offered by the filter panel */
+  genres: Genre[];
+  onMediaTypeChange: (mediaType: 'movie' | 'tv' | 'all') => void;
+  onStatusChange: (status: WatchlistStatus | 'all') => void;
+  onSortOrderChange: (sortOrder: WatchlistSortOrder) => void;
+  onSmartFiltersChange: (filters: WatchlistSmartFilters) => void;
+}
+
+/** Watchlist filter chips */
+export function WatchlistFilters({
+  mediaType,
+  status,
+  statusCounts,
+  sortOrder,
+  smartFilters,
+  genres,
+  onMediaTypeChange,
+  onStatusChange,
+  onSortOrderChange,
+  onSmartFiltersChange,
+}: WatchlistFiltersProps) {
+  const { t } = useLocalization();
+  const [isPanelOpen, setIsPanelOpen] = useState(false);
+  const activeCount = countActiveSmartFilters(smartFilters);
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        {WATCHLIST_MEDIA_FILTERS.map((option) => (
+          <FilterChip
+            key={option.value}
+            label={t(option.labelKey)}
+            isSelected={mediaType === option.value}
+            onPress={() => onMediaTypeChange(option.value)}
+            testID={`watchlist-filter-${option.value}`}
+          />
+        ))}
+      </ScrollView>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        <FilterChip
+          label={t('watchlist.filters.anyStatus')}
+          isSelected={status === 'all'}
+          onPress={() => onStatusChange('all')}
+          testID="watchlist-status-filter-all"
+        />
+        {WATCHLIST_STATUSES.map((option) => (
+          <FilterChip
+            key={option.value}
+            label={t('watchlist.filters.statusCount', { label: t(option.labelKey), count: statusCounts[option.value] })}
+            icon={option.icon}
+            isSelected={status === option.value}
+            onPress={() => onStatusChange(option.value)}
+            testID={`watchlist-status-filter-${option.value}`}
+          />
+        ))}
+      </ScrollView>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        <FilterChip
+          label={activeCount > 0 ? t('watchlist.filters.filtersCount', { count: activeCount }) : t('watchlist.filters.filters')}
+          icon="options-outline"
+          isSelected={isPanelOpen || activeCount > 0}
+          onPress={() => setIsPanelOpen(open => !open)}
+          accessibilityLabel={isPanelOpen ? t('watchlist.filters.hide') : t('watchlist.filters.show')}
+          testID="watchlist-filter-panel-toggle"
+        />
+        {WATCHLIST_SORT_ORDERS.map((option) => (
+          <FilterChip
+            key={option.value}
+            label={t(option.labelKey)}
+            icon={option.icon}
+            isSelected={sortOrder === option.value}
+            onPress={() => onSortOrderChange(option.value)}
+            accessibilityLabel={t('watchlist.sort.sortBy', { label: t(option.labelKey) })}
+            testID={`watchlist-sort-${option.value}`}
+          />
+        ))}
+      </ScrollView>
+      {isPanelOpen && (
+        <WatchlistFilterPanel
+          filters={smartFilters}
+          genres={genres}
+          onChange={onSmartFiltersChange}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.sm,
+    paddingBottom: Spacing.sm,
+  },
+  chipRow: {
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+    paddingHorizontal: Spacing.md,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+    minHeight: 32,
+  },
+  chipText: {
+    fontSize: Typography.sizes.sm,
+    fontWeight: Typography.weights.medium,
+  },
+  panel: {
+    gap: Spacing.sm,
+  },
+  panelSection: {
+    gap: Spacing.xs,
+  },
+  panelSectionTitle: {
+    fontSize: Typography.sizes.xs,
+    fontWeight: Typography.weights.semibold,
+    paddingHorizontal: Spacing.md,
+    textTransform: 'uppercase',
+  },
+  panelHint: {
+    fontSize: Typography.sizes.xs,
+    paddingHorizontal: Spacing.md,
+  },
+});
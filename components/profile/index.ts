@@ -5,8 +5,23 @@
 export { SettingsSection, SettingsRow, SettingsSeparator } from './SettingsComponents';
 export type { SettingsSectionProps, SettingsRowProps } from './SettingsComponents';
 
-export { LanguageModal, ThemeModal } from './SettingsModals';
-export type { LanguageModalProps, ThemeModalProps } from './SettingsModals';
+export {
+  LanguageModal,
+  ContentLanguageModal,
+  ThemeModal,
+  StreamingServicesModal,
+  CertificationCeilingModal,
+} from './SettingsModals';
+export type {
+  LanguageModalProps,
+  ContentLanguageModalProps,
+  ThemeModalProps,
+  StreamingServicesModalProps,
+  CertificationCeilingModalProps,
+} from './SettingsModals';
 
 export { WatchlistCard } from './WatchlistCard';
 export type { WatchlistCardProps } from './WatchlistCard';
+
+export { WatchlistFilters, WatchlistFilterPanel } from './WatchlistFilters';
+export type { WatchlistFiltersProps, WatchlistFilterPanelProps } from './WatchlistFilters';
@@ -7,6 +7,8 @@ import { View, Text, ScrollView, Pressable, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useCertificationCeiling } from '@/hooks/use-certification-ceiling';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS } from '@/constants/colors';
 import { MediaCard } from '@/components/media/MediaCard';
@@ -25,12 +27,13 @@ export function FilterChip({ label, isActive, onPress }: FilterChipProps) {
   const borderColor = useThemeColor({}, 'border');
   const textColor = useThemeColor({}, 'text');
   const backgroundColor = useThemeColor({}, 'backgroundSecondary');
+  const { t } = useLocalization();
 
   return (
     <Pressable
       onPress={onPress}
       accessibilityRole="button"
-      accessibilityLabel={`Filter: ${label}`}
+      accessibilityLabel={t('search.filters.chipLabel', { label })}
       accessibilityState={{ selected: isActive }}
       style={({ pressed }) => [
         styles.filterChip,
@@ -68,8 +71,11 @@ export interface ResultSectionProps {
 }
 
 /** Result section component */
-export function ResultSection({ title, items, onItemPress, testID }: ResultSectionProps) {
+export function ResultSection({ title, items: allItems, onItemPress, testID }: ResultSectionProps) {
   const textColor = useThemeColor({}, 'text');
+  const { t } = useLocalization();
+  const { visibleTitles } = useCertificationCeiling(allItems);
+  const items = visibleTitles(allItems);
 
   if (items.length === 0) return null;
 
@@ -79,7 +85,7 @@ export function ResultSection({ title, items, onItemPress, testID }: ResultSecti
         style={[styles.sectionTitle, { color: textColor }]}
         accessibilityRole="header"
       >
-        {title} ({items.length})
+        {t('search.sectionTitle', { title, count: items.length })}
       </Text>
       <ScrollView
         horizontal
@@ -90,6 +96,7 @@ export function ResultSection({ title, items, onItemPress, testID }: ResultSecti
           <View key={`${item.mediaType}-${item.id}`} style={styles.resultItem}>
             <MediaCard
               id={item.id}
+              mediaType={item.mediaType}
               title={item.title}
               posterPath={item.posterPath}
               rating={item.voteAverage}
@@ -8,49 +8,48 @@
 import { StyleSheet, View, ScrollView, Pressable, Text } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
+import { AvailableToMeChip } from '@/components/media/AvailableToMeChip';
 import type { SearchFilters } from '@/types/user';
 
 /** Filter dropdown type */
 export type FilterType = 'genre' | 'country' | 'year' | null;
 
-/** Genre filter options */
+/** Genre filter options (labels are translation keys) */
 export const SEARCH_GENRE_OPTIONS = [
-  { id: null, name: 'All Genres' },
-  { id: 28, name: 'Action' },
-  { id: 35, name: 'Comedy' },
-  { id: 18, name: 'Drama' },
-  { id: 27, name: 'Horror' },
-  { id: 10749, name: 'Romance' },
-  { id: 878, name: 'Sci-Fi' },
-  { id: 53, name: 'Thriller' },
-  { id: 16, name: 'Animation' },
-  { id: 99, name: 'Documentary' },
+  { id: null, labelKey: 'search.filters.allGenres' },
+  { id: 28, labelKey: 'genres.28' },
+  { id: 35, labelKey: 'genres.35' },
+  { id: 18, labelKey: 'genres.18' },
+  { id: 27, labelKey: 'genres.27' },
+  { id: 10749, labelKey: 'genres.10749' },
+  { id: 878, labelKey: 'genres.878' },
+  { id: 53, labelKey: 'genres.53' },
+  { id: 16, labelKey: 'genres.16' },
+  { id: 99, labelKey: 'genres.99' },
 ];
 
-/** Country filter options */
+/** Country filter options (labels are translation keys) */
 export const SEARCH_COUNTRY_OPTIONS = [
-  { code: null, name: 'All Countries' },
-  { code: 'US', name: 'United States' },
-  { code: 'GB', name: 'United Kingdom' },
-  { code: 'IN', name: 'India' },
-  { code: 'JP', name: 'Japan' },
-  { code: 'KR', name: 'South Korea' },
-  { code: 'CN', name: 'China' },
-  { code: 'FR', name: 'France' },
-  { code: 'DE', name: 'Germany' },
-  { code: 'ES', name: 'Spain' },
-  { code: 'IT', name: 'Italy' },
+  { code: null, labelKey: 'search.filters.allCountries' },
+  { code: 'US', labelKey: 'countries.US' },
+  { code: 'GB', labelKey: 'countries.GB' },
+  { code: 'IN', labelKey: 'countries.IN' },
+  { code: 'JP', labelKey: 'countries.JP' },
+  { code: 'KR', labelKey: 'countries.KR' },
+  { code: 'CN', labelKey: 'countries.CN' },
+  { code: 'FR', labelKey: 'countries.FR' },
+  { code: 'DE', labelKey: 'countries.DE' },
+  { code: 'ES', labelKey: 'countries.ES' },
+  { code: 'IT', labelKey: 'countries.IT' },
 ];
 
-/** Year filter options */
+/** Year filter options (null is "All Years") */
 const currentYear = new Date().getFullYear();
-export const SEARCH_YEAR_OPTIONS = [
-  { value: null, label: 'All Years' },
-  ...Array.from({ length: 15 }, (_, i) => ({
-    value: currentYear - i,
-    label: String(currentYear - i),
-  })),
+export const SEARCH_YEAR_OPTIONS: { value: number | null }[] = [
+  { value: null },
+  ...Array.from({ length: 15 }, (_, i) => ({ value: currentYear - i })),
 ];
 
 /** Default search filters */
@@ -73,12 +72,13 @@ function FilterChip({ label, isSelected, hasDropdown = false, onPress }: FilterC
   const borderColor = useThemeColor({}, 'border');
   const textColor = useThemeColor({}, 'text');
   const backgroundColor = useThemeColor({}, 'backgroundSecondary');
+  const { t } = useLocalization();
 
   return (
     <Pressable
       onPress={onPress}
       accessibilityRole="button"
-      accessibilityLabel={`Filter by ${label}`}
+      accessibilityLabel={t('watchlist.filters.filterBy', { label })}
       style={({ pressed }) => [
         styles.filterChip,
         {
@@ -115,33 +115,41 @@ interface SearchFiltersComponentProps {
   activeDropdown: FilterType;
   onFiltersChange: (filters: SearchFilters) => void;
   onDropdownToggle: (type: FilterType) => void;
+  /** Only titles streaming on the user's services */
+  availableToMe?: boolean;
+  /** Availability of the results is still being checked */
+  isCheckingAvailability?: boolean;
+  /** Toggle "Available to Me" (the chip is hidden without it) */
+  onAvailableToMeToggle?: () => void;
 }
 
 export function SearchFiltersComponent({ 
   filters, 
   activeDropdown, 
   onFiltersChange, 
-  onDropdownToggle 
+  onDropdownToggle,
+  availableToMe = false,
+  isCheckingAvailability = false,
+  onAvailableToMeToggle,
 }: SearchFiltersComponentProps) {
   const backgroundColor = useThemeColor({}, 'background');
   const cardBackground = useThemeColor({}, 'card');
   const borderColor = useThemeColor({}, 'border');
   const textColor = useThemeColor({}, 'text');
+  const { t } = useLocalization();
 
   const getGenreLabel = () => {
     const genre = SEARCH_GENRE_OPTIONS.find(g => g.id === filters.genre);
-    return genre?.name || 'All Genres';
+    return t(genre?.labelKey ?? 'search.filters.allGenres');
   };
 
   const getCountryLabel = () => {
     const country = SEARCH_COUNTRY_OPTIONS.find(c => c.code === filters.country);
-    return country?.name || 'All Countries';
+    return t(country?.labelKey ?? 'search.filters.allCountries');
   };
 
-  const getYearLabel = () => {
-    const year = SEARCH_YEAR_OPTIONS.find(y => y.value === filters.year);
-    return year?.label || 'All Years';
-  };
+  const getYearLabel = (year: number | null = filters.year) =>
+    year === null ? t('search.filters.allYears') : String(year);
 
   const handleGenreSelect = (genreId: number | null) => {
     onFiltersChange({ ...filters, genre: genreId });
@@ -186,6 +194,15 @@ export function SearchFiltersComponent({
           hasDropdown
           onPress={() => onDropdownToggle(activeDropdown === 'year' ? null : 'year')}
         />
+
+        {onAvailableToMeToggle && (
+          <AvailableToMeChip
+            isSelected={availableToMe}
+            isChecking={isCheckingAvailability}
+            onPress={onAvailableToMeToggle}
+            testID="search-available-to-me"
+          />
+        )}
       </ScrollView>
 
       {/* Dropdown Menus */}
@@ -202,7 +219,7 @@ export function SearchFiltersComponent({
                 ]}
               >
                 <Text style={[styles.dropdownItemText, { color: textColor }]}>
-                  {genre.name}
+                  {t(genre.labelKey)}
                 </Text>
                 {filters.genre === genre.id && (
                   <Ionicons name="checkmark" size={16} color={textColor} />
@@ -226,7 +243,7 @@ export function SearchFiltersComponent({
                 ]}
               >
                 <Text style={[styles.dropdownItemText, { color: textColor }]}>
-                  {country.name}
+                  {t(country.labelKey)}
                 </Text>
                 {filters.country === country.code && (
                   <Ionicons name="checkmark" size={16} color={textColor} />
@@ -250,7 +267,7 @@ export function SearchFiltersComponent({
                 ]}
               >
                 <Text style={[styles.dropdownItemText, { color: textColor }]}>
-                  {year.label}
+                  {getYearLabel(year.value)}
                 </Text>
                 {filters.year === year.value && (
                   <Ionicons name="checkmark" size={16} color={textColor} />
@@ -9,6 +9,7 @@ import { useRef } from 'react';
 import { StyleSheet, View, Text, TextInput, Pressable } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS } from '@/constants/colors';
 
@@ -23,8 +24,9 @@ export function SearchHeader({
   query, 
   onQueryChange, 
   onClear, 
-  placeholder = "Search movies, TV shows..." 
+  placeholder
 }: SearchHeaderProps) {
+  const { t } = useLocalization();
   const inputRef = useRef<TextInput>(null);
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
@@ -40,10 +42,10 @@ export function SearchHeader({
   return (
     <View style={styles.container}>
       <Text style={[styles.title, { color: textColor }]}>
-        Search
+        {t('search.title')}
       </Text>
       <Text style={[styles.subtitle, { color: textSecondary }]}>
-        Find movies and TV shows
+        {t('search.subtitle')}
       </Text>
       
       <View style={[styles.searchContainer, { backgroundColor: cardBackground, borderColor }]}>
@@ -54,7 +56,7 @@ export function SearchHeader({
         <TextInput
           ref={inputRef}
           style={[styles.searchInput, { color: textColor }]}
-          placeholder={placeholder}
+          placeholder={placeholder ?? t('search.placeholder')}
           placeholderTextColor={textSecondary}
           value={query}
           onChangeText={onQueryChange}
@@ -71,7 +73,7 @@ export function SearchHeader({
               styles.clearButton,
               { opacity: pressed ? 0.7 : 1 }
             ]}
-            accessibilityLabel="Clear search"
+            accessibilityLabel={t('search.clear')}
           >
             <Ionicons name="close-circle" size={22} color={textSecondary} />
           </Pressable>
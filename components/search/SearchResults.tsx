@@ -10,12 +10,15 @@ import { useRouter } from 'expo-router';
 import { Image } from 'expo-image';
 import { Ionicons } from '@expo/vector-icons';
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
+import { useLayoutDirection } from '@/hooks/use-layout-direction';
 import { Colors, Spacing, Typography, BorderRadius } from '@/constants/theme';
 import { SOLID_COLORS, OVERLAY_COLORS } from '@/constants/colors';
 import { BLURHASH_PLACEHOLDER } from '@/constants/images';
 import { EmptyState } from '@/components/ui/EmptyState';
 import { Skeleton } from '@/components/ui/Skeleton';
 import { getImageUrl } from '@/services/api';
+import { formatCompactNumber, formatRating } from '@/utils/formatting';
 import type { SearchResults, SearchFilters } from '@/types/user';
 import type { MediaItem } from '@/types/media';
 
@@ -42,6 +45,8 @@ function MediaCard({ item, onPress }: MediaCardProps) {
   const cardBackground = useThemeColor({}, 'card');
   const borderColor = useThemeColor({}, 'cardBorder');
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
+  const { directionalIcon } = useLayoutDirection();
 
   const posterUrl = getImageUrl(item.posterPath, 'w342');
   const year = item.releaseDate ? new Date(item.releaseDate).getFullYear() : null;
@@ -52,7 +57,7 @@ function MediaCard({ item, onPress }: MediaCardProps) {
     <Pressable
       onPress={onPress}
       accessibilityRole="button"
-      accessibilityLabel={`${item.title}${year ? `, ${year}` : ''}${showRating ? `, Rating ${item.voteAverage?.toFixed(1)}` : ''}`}
+      accessibilityLabel={`${item.title}${year ? `, ${year}` : ''}${showRating ? `, ${t('mediaCard.ratingLabel', { rating: formatRating(item.voteAverage) })}` : ''}`}
       style={({ pressed }) => [
         styles.mediaCard,
         {
@@ -88,7 +93,7 @@ function MediaCard({ item, onPress }: MediaCardProps) {
           <View style={styles.ratingBadge}>
             <Ionicons name="star" size={10} color={SOLID_COLORS.GOLD} />
             <Text style={styles.ratingBadgeText}>
-              {item.voteAverage?.toFixed(1)}
+              {formatRating(item.voteAverage)}
             </Text>
           </View>
         ) : null}
@@ -96,7 +101,7 @@ function MediaCard({ item, onPress }: MediaCardProps) {
         {/* Media type badge */}
         <View style={[styles.typeBadge, { backgroundColor: tintColor }]}>
           <Text style={styles.typeBadgeText}>
-            {item.mediaType === 'movie' ? 'Movie' : 'Series'}
+            {item.mediaType === 'movie' ? t('common.movie') : t('common.seriesSingular')}
           </Text>
         </View>
       </View>
@@ -122,7 +127,7 @@ function MediaCard({ item, onPress }: MediaCardProps) {
             <View style={styles.metaItem}>
               <Ionicons name="people-outline" size={12} color={textSecondary} />
               <Text style={[styles.metaText, { color: textSecondary }]}>
-                {item.voteCount.toLocaleString()} votes
+                {t('search.votes', { count: item.voteCount, formatted: formatCompactNumber(item.voteCount) })}
               </Text>
             </View>
           ) : null}
@@ -140,8 +145,8 @@ function MediaCard({ item, onPress }: MediaCardProps) {
 
         {/* Action hint */}
         <View style={styles.actionRow}>
-          <Text style={[styles.actionText, { color: tintColor }]}>View Details</Text>
-          <Ionicons name="chevron-forward" size={14} color={tintColor} />
+          <Text style={[styles.actionText, { color: tintColor }]}>{t('search.viewDetails')}</Text>
+          <Ionicons name={directionalIcon('chevron-forward')} size={14} color={tintColor} />
         </View>
       </View>
     </Pressable>
@@ -159,6 +164,7 @@ function ResultSection({ title, items, onItemPress, icon }: ResultSectionProps)
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const tintColor = useThemeColor({}, 'tint');
+  const { t } = useLocalization();
 
   if (items.length === 0) return null;
 
@@ -172,7 +178,7 @@ function ResultSection({ title, items, onItemPress, icon }: ResultSectionProps)
           </Text>
         </View>
         <Text style={[styles.sectionCount, { color: textSecondary }]}>
-          {items.length} found
+          {t('search.found', { count: items.length })}
         </Text>
       </View>
       
@@ -231,6 +237,7 @@ export function SearchResultsComponent({
 }: SearchResultsComponentProps) {
   const router = useRouter();
   const textSecondary = useThemeColor({}, 'textSecondary');
+  const { t } = useLocalization();
 
   const handleItemPress = (item: MediaItem) => {
     const route = item.mediaType === 'movie' ? '/movie/[id]' : '/web-series/[id]';
@@ -251,13 +258,13 @@ export function SearchResultsComponent({
     return (
       <View style={styles.emptyContainer}>
         <EmptyState
-          title="Start Searching"
-          message="Enter a movie or TV show name to find content"
+          title={t('search.start.title')}
+          message={t('search.start.message')}
           icon="search"
           suggestions={[
-            'Try "Avengers" for action movies',
-            'Search "Breaking Bad" for TV series',
-            'Use filters to narrow results',
+            t('search.start.suggestionAction'),
+            t('search.start.suggestionSeries'),
+            t('search.start.suggestionFilters'),
           ]}
         />
       </View>
@@ -268,13 +275,13 @@ export function SearchResultsComponent({
     return (
       <View style={styles.emptyContainer}>
         <EmptyState
-          title="No Results Found"
-          message={`No content found for "${query}"`}
+          title={t('search.noResultsTitle')}
+          message={t('search.noResultsMessage', { query })}
           icon="search"
           suggestions={[
-            'Check your spelling',
-            'Try different keywords',
-            'Remove some filters',
+            t('search.suggestions.spelling'),
+            t('search.suggestions.keywords'),
+            t('search.suggestions.filters'),
           ]}
         />
       </View>
@@ -291,7 +298,7 @@ export function SearchResultsComponent({
         <View style={styles.loadingIndicator}>
           <ActivityIndicator size="small" color={textSecondary} />
           <Text style={[styles.loadingText, { color: textSecondary }]}>
-            Updating results...
+            {t('search.updating')}
           </Text>
         </View>
       ) : null}
@@ -299,19 +306,19 @@ export function SearchResultsComponent({
       {/* Results summary */}
       <View style={styles.resultsSummary}>
         <Text style={[styles.summaryText, { color: textSecondary }]}>
-          Found {filteredResults.totalResults} results for "{query}"
+          {t('search.summary', { count: filteredResults.totalResults, query })}
         </Text>
       </View>
 
       <ResultSection
-        title="Movies"
+        title={t('common.movies')}
         icon="film-outline"
         items={filteredResults.movies}
         onItemPress={handleItemPress}
       />
 
       <ResultSection
-        title="TV Shows"
+        title={t('search.tvShows')}
         icon="tv-outline"
         items={filteredResults.tvShows}
         onItemPress={handleItemPress}
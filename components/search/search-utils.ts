@@ -6,6 +6,8 @@
  */
 
 import type { SearchFilters } from '@/types/user';
+import { t } from '@/services/localization';
+import { formatNumber } from '@/utils/formatting';
 
 /** Search debounce delay in milliseconds */
 export const SEARCH_DEBOUNCE_MS = 300;
@@ -32,13 +34,13 @@ export function hasActiveFilters(filters: SearchFilters): boolean {
 export function getFilterLabel(filters: SearchFilters): string {
   const activeFilters = [];
   
-  if (filters.genre) activeFilters.push('Genre');
-  if (filters.country) activeFilters.push('Country');
-  if (filters.year) activeFilters.push('Year');
+  if (filters.genre) activeFilters.push(t('search.filters.genre'));
+  if (filters.country) activeFilters.push(t('search.filters.country'));
+  if (filters.year) activeFilters.push(t('search.filters.year'));
   
-  if (activeFilters.length === 0) return 'All';
+  if (activeFilters.length === 0) return t('common.all');
   if (activeFilters.length === 1) return activeFilters[0];
-  return `${activeFilters.length} filters`;
+  return t('search.filters.count', { count: activeFilters.length });
 }
 
 /**
@@ -71,9 +73,8 @@ export function getSearchSuggestions(query: string): string[] {
  * Format search result count
  */
 export function formatResultCount(count: number): string {
-  if (count === 0) return 'No results';
-  if (count === 1) return '1 result';
-  return `${count.toLocaleString()} results`;
+  if (count === 0) return t('search.noResultsShort');
+  return t('search.resultCount', { count, formatted: formatNumber(count) });
 }
 
 /**
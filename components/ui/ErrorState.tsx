@@ -9,6 +9,7 @@ import { StyleSheet, View, Text, Pressable } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, BorderRadius, Typography } from '@/constants/theme';
 import { SOLID_COLORS } from '@/constants/colors';
 import { ICON_NAMES } from '@/constants/test-ids';
@@ -29,13 +30,16 @@ export interface ErrorStateProps {
 }
 
 export function ErrorState({
-  title = 'Something went wrong',
+  title,
   message,
   onRetry,
-  retryText = 'Try Again',
+  retryText,
   icon = ICON_NAMES.ALERT_CIRCLE,
   testID,
 }: ErrorStateProps) {
+  const { t } = useLocalization();
+  const titleText = title ?? t('errors.somethingWentWrong');
+  const retryLabel = retryText ?? t('errors.tryAgainButton');
   const textColor = useThemeColor({}, 'text');
   const textSecondary = useThemeColor({}, 'textSecondary');
   const errorColor = useThemeColor({}, 'error');
@@ -47,7 +51,7 @@ export function ErrorState({
       style={[styles.container, { backgroundColor }]}
       testID={testID}
       accessibilityRole="alert"
-      accessibilityLabel={`Error: ${title}. ${message}`}
+      accessibilityLabel={t('errors.stateLabel', { title: titleText, message })}
     >
       <Ionicons
         name={icon}
@@ -57,7 +61,7 @@ export function ErrorState({
       />
       
       <Text style={[styles.title, { color: textColor }]}>
-        {title}
+        {titleText}
       </Text>
       
       <Text style={[styles.message, { color: textSecondary }]}>
@@ -68,14 +72,14 @@ export function ErrorState({
         <Pressable
           onPress={onRetry}
           accessibilityRole="button"
-          accessibilityLabel={retryText}
+          accessibilityLabel={retryLabel}
           style={({ pressed }) => [
             styles.retryButton,
             { backgroundColor: tintColor, opacity: pressed ? 0.8 : 1 },
           ]}
         >
           <Ionicons name="refresh" size={20} color={SOLID_COLORS.WHITE} />
-          <Text style={styles.retryText}>{retryText}</Text>
+          <Text style={styles.retryText}>{retryLabel}</Text>
         </Pressable>
       )}
     </View>
@@ -1,6 +1,7 @@
 /**
  * OfflineBanner Component
  * Displays offline status banner with retry functionality
+ * Also shown when screens are displaying cached data that could not be refreshed
  * 
  * Requirements: 16.1
  */
@@ -9,40 +10,65 @@ import { StyleSheet, View, Text, Pressable } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 
 import { useThemeColor } from '@/hooks/use-theme-color';
+import { useLocalization } from '@/hooks/use-localization';
 import { Spacing, Typography } from '@/constants/theme';
 import { ICON_NAMES } from '@/constants/test-ids';
+import { formatRelativeTime } from '@/utils/formatting';
+import { t } from '@/services/localization';
 
 export interface OfflineBannerProps {
   /** Whether the device is offline */
   isOffline: boolean;
   /** Callback when retry button is pressed */
   onRetry?: () => void;
+  /** Whether cached data that could not be refreshed is being shown */
+  isShowingStaleData?: boolean;
+  /** When the stale data was fetched (ISO string) */
+  staleSince?: string | null;
   /** Custom message to display */
   message?: string;
   /** Test ID for testing purposes */
   testID?: string;
 }
 
+/** Build the stale-data message, e.g. "Showing saved data from 2 hours ago" */
+export function getStaleDataMessage(staleSince?: string | null): string {
+  return staleSince
+    ? t('offline.staleDataSince', { time: formatRelativeTime(staleSince) })
+    : t('offline.staleData');
+}
+
 export function OfflineBanner({
   isOffline,
   onRetry,
-  message = "You're offline. Some features may be unavailable.",
+  isShowingStaleData = false,
+  staleSince,
+  message,
   testID,
 }: OfflineBannerProps) {
   const warningColor = useThemeColor({}, 'warning');
   const warningLightColor = useThemeColor({}, 'warningLight');
   const textColor = useThemeColor({}, 'text');
+  const { t: translate } = useLocalization();
 
-  if (!isOffline) {
+  if (!isOffline && !isShowingStaleData) {
     return null;
   }
 
+  const displayMessage =
+    message ??
+    (isOffline
+      ? isShowingStaleData
+        ? translate('offline.offlineWithStaleData', { stale: getStaleDataMessage(staleSince) })
+        : translate('offline.offlineMessage')
+      : getStaleDataMessage(staleSince));
+
   return (
     <View
       style={[styles.container, { backgroundColor: warningLightColor }]}
       testID={testID}
       accessibilityRole="alert"
-      accessibilityLabel={`Offline: ${message}`}
+      accessibilityLabel={isOffline ? translate('offline.label', { message: displayMessage }) : displayMessage}
     >
       <View style={styles.content}>
         <Ionicons
@@ -52,7 +78,7 @@ export function OfflineBanner({
           style={styles.icon}
         />
         <Text style={[styles.message, { color: textColor }]} numberOfLines={2}>
-          {message}
+          {displayMessage}
         </Text>
       </View>
       
@@ -60,7 +86,7 @@ export function OfflineBanner({
         <Pressable
           onPress={onRetry}
           accessibilityRole="button"
-          accessibilityLabel="Retry connection"
+          accessibilityLabel={translate('offline.retry')}
           style={({ pressed }) => [
             styles.retryButton,
             { opacity: pressed ? 0.7 : 1 },
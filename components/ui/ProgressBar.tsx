@@ -0,0 +1,68 @@
+/**
+ * ProgressBar Component
+ * Thin horizontal bar showing a completed share, e.g. watched episodes
+ */
+
+import { StyleSheet, View, type StyleProp, type ViewStyle } from 'react-native';
+
+import { useThemeColor } from '@/hooks/use-theme-color';
+
+export interface ProgressBarProps {
+  /** Completed share between 0 and 1 */
+  progress: number;
+  /** Bar height in pixels */
+  height?: number;
+  /** Fill color (defaults to tint, success once complete) */
+  color?: string;
+  /** Accessibility label, e.g. "3 of 10 episodes watched" */
+  accessibilityLabel?: string;
+  /** Container style */
+  style?: StyleProp<ViewStyle>;
+  /** Test ID for testing */
+  testID?: string;
+}
+
+export function ProgressBar({
+  progress,
+  height = 4,
+  color,
+  accessibilityLabel,
+  style,
+  testID,
+}: ProgressBarProps) {
+  const tintColor = useThemeColor({}, 'tint');
+  const successColor = useThemeColor({}, 'success');
+  const trackColor = useThemeColor({}, 'border');
+
+  const clamped = Math.min(1, Math.max(0, progress || 0));
+  const fillColor = color ?? (clamped >= 1 ? successColor : tintColor);
+
+  return (
+    <View
+      style={[styles.track, { height, borderRadius: height / 2, backgroundColor: trackColor }, style]}
+      accessibilityRole="progressbar"
+      accessibilityLabel={accessibilityLabel}
+      accessibilityValue={{ min: 0, max: 100, now: Math.round(clamped * 100) }}
+      testID={testID}
+    >
+      <View
+        style={[
+          styles.fill,
+          { width: `${clamped * 100}%`, borderRadius: height / 2, backgroundColor: fillColor },
+        ]}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  track: {
+    width: '100%',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+  },
+});
+
+export default ProgressBar;
@@ -4,6 +4,8 @@
  */
 
 import { ICON_NAMES } from '@/constants/test-ids';
+import { ApiError, NetworkError, TimeoutError } from '@/services/api/http';
+import { t } from '@/services/localization';
 
 /** Error types that can occur in the app */
 export type ErrorType = 
@@ -49,42 +51,42 @@ export function shouldShowServerError(
 }
 
 /**
- * Get error configuration based on error type
+ * Get error configuration based on error type, in the current language
  */
 export function getErrorConfig(type: ErrorType): ErrorConfig {
   const configs: Record<ErrorType, ErrorConfig> = {
     network_offline: {
       type: 'network_offline',
-      title: "You're offline",
-      message: 'Please check your internet connection and try again.',
+      title: t('errors.offline'),
+      message: t('errors.offlineMessage'),
       icon: ICON_NAMES.CLOUD_OFFLINE,
       canRetry: true,
     },
     server_error: {
       type: 'server_error',
-      title: 'Server Error',
-      message: 'Something went wrong on our end. Please try again later.',
+      title: t('errors.serverErrorTitle'),
+      message: t('errors.serverErrorMessage'),
       icon: 'server-outline',
       canRetry: true,
     },
     not_found: {
       type: 'not_found',
-      title: 'Not Found',
-      message: 'The content you are looking for could not be found.',
+      title: t('errors.notFoundTitle'),
+      message: t('errors.notFoundMessage'),
       icon: 'search-outline',
       canRetry: false,
     },
     timeout: {
       type: 'timeout',
-      title: 'Request Timeout',
-      message: 'The request took too long. Please try again.',
+      title: t('errors.timeoutTitle'),
+      message: t('errors.timeoutMessage'),
       icon: 'time-outline',
       canRetry: true,
     },
     unknown: {
       type: 'unknown',
-      title: 'Something went wrong',
-      message: 'An unexpected error occurred. Please try again.',
+      title: t('errors.somethingWentWrong'),
+      message: t('errors.unexpectedMessage'),
       icon: ICON_NAMES.ALERT_CIRCLE,
       canRetry: true,
     },
@@ -104,6 +106,19 @@ export function getErrorTypeFromStatusCode(statusCode: number | null): ErrorType
   return 'unknown';
 }
 
+/**
+ * Determine error type from an error thrown by the API layer
+ * Network and timeout failures are recognised by class; HTTP errors by status code
+ */
+export function getErrorTypeFromError(error: unknown): ErrorType {
+  if (error instanceof TimeoutError) return 'timeout';
+  if (error instanceof NetworkError) return 'network_offline';
+  if (error instanceof ApiError && error.statusCode !== undefined) {
+    return getErrorTypeFromStatusCode(error.statusCode);
+  }
+  return 'unknown';
+}
+
 /**
  * Check if empty filter results should show suggestions
  */
@@ -120,27 +135,27 @@ export function generateFilterSuggestions(appliedFilters: string[]): string[] {
   const suggestions: string[] = [];
   
   if (appliedFilters.length > 1) {
-    suggestions.push('Try removing some filters');
+    suggestions.push(t('errors.filterSuggestions.removeSome'));
   }
   
   if (appliedFilters.includes('year')) {
-    suggestions.push('Try a different year range');
+    suggestions.push(t('errors.filterSuggestions.year'));
   }
   
   if (appliedFilters.includes('genre')) {
-    suggestions.push('Try a different genre');
+    suggestions.push(t('errors.filterSuggestions.genre'));
   }
   
   if (appliedFilters.includes('country')) {
-    suggestions.push('Try a different country');
+    suggestions.push(t('errors.filterSuggestions.country'));
   }
   
   if (appliedFilters.includes('contentType')) {
-    suggestions.push('Try a different content type');
+    suggestions.push(t('errors.filterSuggestions.contentType'));
   }
   
   if (suggestions.length === 0) {
-    suggestions.push('Try adjusting your filters');
+    suggestions.push(t('errors.filterSuggestions.adjust'));
   }
   
   return suggestions;
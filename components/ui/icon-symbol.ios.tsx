@@ -1,5 +1,7 @@
 import { SymbolView, SymbolViewProps, SymbolWeight } from 'expo-symbols';
-import { StyleProp, ViewStyle } from 'react-native';
+import { I18nManager, StyleProp, ViewStyle } from 'react-native';
+
+import { getDirectionalIcon } from '@/utils/rtl';
 
 export function IconSymbol({
   name,
@@ -19,7 +21,7 @@ export function IconSymbol({
       weight={weight}
       tintColor={color}
       resizeMode="scaleAspectFit"
-      name={name}
+      name={getDirectionalIcon(name, I18nManager.isRTL)}
       style={[
         {
           width: size,
@@ -3,7 +3,9 @@
 import MaterialIcons from '@expo/vector-icons/MaterialIcons';
 import { SymbolWeight, SymbolViewProps } from 'expo-symbols';
 import { ComponentProps } from 'react';
-import { OpaqueColorValue, type StyleProp, type TextStyle } from 'react-native';
+import { I18nManager, OpaqueColorValue, type StyleProp, type TextStyle } from 'react-native';
+
+import { getDirectionalIcon } from '@/utils/rtl';
 
 type IconMapping = Record<SymbolViewProps['name'], ComponentProps<typeof MaterialIcons>['name']>;
 type IconSymbolName = keyof typeof MAPPING;
@@ -33,6 +35,7 @@ const MAPPING = {
  * An icon component that uses native SF Symbols on iOS, and Material Icons on Android and web.
  * This ensures a consistent look across platforms, and optimal resource usage.
  * Icon `name`s are based on SF Symbols and require manual mapping to Material Icons.
+ * Left and right chevrons are swapped in right-to-left layouts.
  */
 export function IconSymbol({
   name,
@@ -46,5 +49,5 @@ export function IconSymbol({
   style?: StyleProp<TextStyle>;
   weight?: SymbolWeight;
 }) {
-  return <MaterialIcons color={color} size={size} name={MAPPING[name]} style={style} />;
+  return <MaterialIcons color={color} size={size} name={MAPPING[getDirectionalIcon(name, I18nManager.isRTL)]} style={style} />;
 }
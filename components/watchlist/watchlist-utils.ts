@@ -5,7 +5,21 @@
  * Requirements: 7.4, 7.5, 7.6
  */
 
-import type { WatchlistItem } from '@/types/watchlist';
+import type {
+  WatchlistItem,
+  WatchlistItemMetadata,
+  WatchlistMetadataCache,
+  WatchlistSmartFilters,
+  WatchlistSortOrder,
+  WatchlistStatus,
+} from '@/types/watchlist';
+import type { Genre, StreamingProvider } from '@/types/media';
+import type { UserRating } from '@/types/ratings';
+import { getWatchlistKey } from '@/services/sync';
+import { t } from '@/services/localization';
+import { toDiaryDate } from '@/utils/diary';
+import { isOnMyServices } from '@/utils/streaming-services';
+import { getItemStatus } from '@/utils/watchlist-status';
 
 /**
  * Grid configuration for watchlist display
@@ -65,6 +79,132 @@ export function sortByTitle(items: WatchlistItem[]): WatchlistItem[] {
   return [...items].sort((a, b) => a.title.localeCompare(b.title));
 }
 
+/**
+ * Sort watchlist items by personal rating (highest first)
+ * Unrated items follow the rated ones; ties are ordered by title.
+ * @param items - Array of watchlist items
+ * @param ratings - Personal ratings
+ * @returns Sorted array of watchlist items
+ */
+export function sortByRating(
+  items: WatchlistItem[],
+  ratings: Pick<UserRating, 'id' | 'mediaType' | 'rating'>[]
+): WatchlistItem[] {
+  const getRating = (item: WatchlistItem) =>
+    ratings.find(r => r.id === item.id && r.mediaType === item.mediaType)?.rating ?? -1;
+
+  return [...items].sort((a, b) =>
+    getRating(b) - getRating(a) || a.title.localeCompare(b.title)
+  );
+}
+
+/**
+ * Get the fetched metadata for a watchlist item
+ * @param item - Watchlist item
+ * @param metadata - Metadata per watchlist key
+ * @returns Metadata, or null until it has been fetched
+ */
+export function getItemMetadata(
+  item: WatchlistItem,
+  metadata: WatchlistMetadataCache
+): WatchlistItemMetadata | null {
+  return metadata[getWatchlistKey(item.id, item.mediaType)] ?? null;
+}
+
+/**
+ * Sort items by a metadata value, leaving items without one at the end
+ * Ties are ordered by title.
+ */
+function sortByMetadataValue<T extends number | string>(
+  items: WatchlistItem[],
+  metadata: WatchlistMetadataCache,
+  getValue: (metadata: WatchlistItemMetadata) => T | null,
+  compare: (a: T, b: T) => number
+): WatchlistItem[] {
+  const value = (item: WatchlistItem) => {
+    const itemMetadata = getItemMetadata(item, metadata);
+    return itemMetadata ? getValue(itemMetadata) : null;
+  };
+
+  return [...items].sort((a, b) => {
+    const valueA = value(a);
+    const valueB = value(b);
+    if (valueA === null || valueB === null) {
+      return (valueA === null ? 1 : 0) - (valueB === null ? 1 : 0) || a.title.localeCompare(b.title);
+    }
+    return compare(valueA, valueB) || a.title.localeCompare(b.title);
+  });
+}
+
+/**
+ * Sort watchlist items by runtime (shortest first)
+ * @param items - Array of watchlist items
+ * @param metadata - Metadata per watchlist key
+ * @returns Sorted array of watchlist items
+ */
+export function sortByRuntime(
+  items: WatchlistItem[],
+  metadata: WatchlistMetadataCache
+): WatchlistItem[] {
+  return sortByMetadataValue(items, metadata, m => m.runtime, (a, b) => a - b);
+}
+
+/**
+ * Sort watchlist items by release date (newest first)
+ * @param items - Array of watchlist items
+ * @param metadata - Metadata per watchlist key
+ * @returns Sorted array of watchlist items
+ */
+export function sortByReleaseDate(
+  items: WatchlistItem[],
+  metadata: WatchlistMetadataCache
+): WatchlistItem[] {
+  return sortByMetadataValue(items, metadata, m => m.releaseDate, (a, b) => b.localeCompare(a));
+}
+
+/**
+ * Sort watchlist items by audience vote average (highest first)
+ * @param items - Array of watchlist items
+ * @param metadata - Metadata per watchlist key
+ * @returns Sorted array of watchlist items
+ */
+export function sortByVoteAverage(
+  items: WatchlistItem[],
+  metadata: WatchlistMetadataCache
+): WatchlistItem[] {
+  return sortByMetadataValue(items, metadata, m => m.voteAverage, (a, b) => b - a);
+}
+
+/**
+ * Sort watchlist items by the chosen order
+ * @param items - Array of watchlist items
+ * @param order - Sort order
+ * @param ratings - Personal ratings, used by the rating order
+ * @param metadata - Title metadata, used by the runtime, release date and vote orders
+ * @returns Sorted array of watchlist items
+ */
+export function sortWatchlist(
+  items: WatchlistItem[],
+  order: WatchlistSortOrder,
+  ratings: Pick<UserRating, 'id' | 'mediaType' | 'rating'>[] = [],
+  metadata: WatchlistMetadataCache = {}
+): WatchlistItem[] {
+  switch (order) {
+    case 'title':
+      return sortByTitle(items);
+    case 'rating':
+      return sortByRating(items, ratings);
+    case 'runtime':
+      return sortByRuntime(items, metadata);
+    case 'release_date':
+      return sortByReleaseDate(items, metadata);
+    case 'vote_average':
+      return sortByVoteAverage(items, metadata);
+    default:
+      return sortByDateAdded(items);
+  }
+}
+
 /**
  * Filter watchlist items by media type
  * @param items - Array of watchlist items
@@ -81,6 +221,155 @@ export function filterByMediaType(
   return items.filter(item => item.mediaType === mediaType);
 }
 
+/**
+ * Filter watchlist items by viewing status
+ * @param items - Array of watchlist items
+ * @param status - Status to filter by, or 'all'
+ * @returns Filtered array of watchlist items
+ */
+export function filterByStatus(
+  items: WatchlistItem[],
+  status: WatchlistStatus | 'all'
+): WatchlistItem[] {
+  if (status === 'all') {
+    return items;
+  }
+  return items.filter(item => getItemStatus(item) === status);
+}
+
+/**
+ * Check whether title metadata passes the smart filters
+ * @param metadata - Title metadata
+ * @param filters - Smart filters
+ * @param today - Today's date (YYYY-MM-DD), for the released filter
+ * @returns True when every active filter matches
+ */
+export function matchesSmartFilters(
+  metadata: WatchlistItemMetadata,
+  filters: WatchlistSmartFilters,
+  today: string
+): boolean {
+  const { maxRuntime, releasedOnly, onMyServices, serviceIds, genreIds, voteAverage } = filters;
+
+  if (maxRuntime !== null && (metadata.runtime === null || metadata.runtime >= maxRuntime)) {
+    return false;
+  }
+  if (releasedOnly && (metadata.releaseDate === null || metadata.releaseDate > today)) {
+    return false;
+  }
+  if (onMyServices) {
+    const providerIds = metadata.streamingProviders.map(p => p.providerId);
+    if (!isOnMyServices(providerIds, serviceIds)) return false;
+  }
+  if (genreIds.length > 0 && !metadata.genres.some(g => genreIds.includes(g.id))) {
+    return false;
+  }
+  if (voteAverage.min !== null || voteAverage.max !== null) {
+    const vote = metadata.voteAverage;
+    if (vote === null) return false;
+    if (voteAverage.min !== null && vote < voteAverage.min) return false;
+    if (voteAverage.max !== null && vote >= voteAverage.max) return false;
+  }
+  return true;
+}
+
+/**
+ * Count the smart filters in use
+ * @param filters - Smart filters
+ * @returns Number of active filters
+ */
+export function countActiveSmartFilters(filters: WatchlistSmartFilters): number {
+  return [
+    filters.maxRuntime !== null,
+    filters.releasedOnly,
+    filters.onMyServices,
+    filters.genreIds.length > 0,
+    filters.voteAverage.min !== null || filters.voteAverage.max !== null,
+  ].filter(Boolean).length;
+}
+
+/**
+ * Filter watchlist items by runtime, release status, availability, genre and vote average
+ * Items whose metadata hasn't been fetched only pass when no smart filter is active.
+ * @param items - Array of watchlist items
+ * @param metadata - Metadata per watchlist key
+ * @param filters - Smart filters
+ * @param today - Today's date (YYYY-MM-DD), for the released filter
+ * @returns Filtered array of watchlist items
+ */
+export function filterBySmartFilters(
+  items: WatchlistItem[],
+  metadata: WatchlistMetadataCache,
+  filters: WatchlistSmartFilters,
+  today: string = toDiaryDate(new Date())
+): WatchlistItem[] {
+  if (countActiveSmartFilters(filters) === 0) {
+    return items;
+  }
+  return items.filter(item => {
+    const itemMetadata = getItemMetadata(item, metadata);
+    return itemMetadata !== null && matchesSmartFilters(itemMetadata, filters, today);
+  });
+}
+
+/**
+ * Get the genres of the watchlist titles, for the genre filter
+ * @param items - Array of watchlist items
+ * @param metadata - Metadata per watchlist key
+ * @returns Distinct genres, by name
+ */
+export function getWatchlistGenres(
+  items: WatchlistItem[],
+  metadata: WatchlistMetadataCache
+): Genre[] {
+  const genres = new Map<number, Genre>();
+  for (const item of items) {
+    for (const genre of getItemMetadata(item, metadata)?.genres ?? []) {
+      genres.set(genre.id, genre);
+    }
+  }
+  return [...genres.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Get the services streaming the watchlist titles, for the service filter
+ * @param items - Array of watchlist items
+ * @param metadata - Metadata per watchlist key
+ * @returns Distinct services, by name
+ */
+export function getWatchlistServices(
+  items: WatchlistItem[],
+  metadata: WatchlistMetadataCache
+): Pick<StreamingProvider, 'providerId' | 'providerName'>[] {
+  const services = new Map<number, Pick<StreamingProvider, 'providerId' | 'providerName'>>();
+  for (const item of items) {
+    for (const provider of getItemMetadata(item, metadata)?.streamingProviders ?? []) {
+      services.set(provider.providerId, provider);
+    }
+  }
+  return [...services.values()].sort((a, b) => a.providerName.localeCompare(b.providerName));
+}
+
+/**
+ * Count items per viewing status
+ * @param items - Array of watchlist items
+ * @returns Object with counts for each status
+ */
+export function getStatusCounts(items: WatchlistItem[]): Record<WatchlistStatus, number> {
+  const counts: Record<WatchlistStatus, number> = {
+    plan_to_watch: 0,
+    watching: 0,
+    completed: 0,
+    dropped: 0,
+  };
+
+  for (const item of items) {
+    counts[getItemStatus(item)]++;
+  }
+
+  return counts;
+}
+
 /**
  * Get sync status summary for watchlist
  * @param items - Array of watchlist items
@@ -178,7 +467,7 @@ export function getWatchlistItem(
  * @returns Formatted string (e.g., "5 titles" or "1 title")
  */
 export function formatItemCount(count: number): string {
-  return `${count} ${count === 1 ? 'title' : 'titles'}`;
+  return t('watchlist.titleCount', { count });
 }
 
 /**
@@ -187,14 +476,14 @@ export function formatItemCount(count: number): string {
  * @returns Accessibility label string
  */
 export function getItemAccessibilityLabel(item: WatchlistItem): string {
-  const typeLabel = item.mediaType === 'movie' ? 'Movie' : 'TV Series';
+  const typeLabel = item.mediaType === 'movie' ? t('common.movie') : t('diary.tvSeries');
   const syncLabel = item.syncStatus === 'synced' 
-    ? 'Synced' 
+    ? t('watchlist.syncStatus.synced') 
     : item.syncStatus === 'pending' 
-      ? 'Syncing' 
-      : 'Sync error';
+      ? t('watchlist.syncStatus.syncing') 
+      : t('watchlist.syncStatus.errorLabel');
   
-  return `${item.title}. ${typeLabel}. ${syncLabel}. Long press to remove from watchlist`;
+  return `${item.title}. ${typeLabel}. ${syncLabel}. ${t('watchlist.longPressToRemove')}`;
 }
 
 /**
@@ -32,6 +32,8 @@ export const STREAMING_URLS = {
 /** API Headers */
 export const API_HEADERS = {
   RATE_LIMIT_REMAINING: 'X-RateLimit-Remaining',
+  RATE_LIMIT_RESET: 'X-RateLimit-Reset',
+  RETRY_AFTER: 'Retry-After',
 } as const;
 
 /** YouTube embed URL template */
@@ -40,4 +42,102 @@ export const YOUTUBE_EMBED_URL = (videoKey: string) =>
 
 /** TMDB image URL template */
 export const TMDB_IMAGE_URL = (size: string, path: string) =>
-  `${API_BASE_URLS.TMDB_IMAGES}/${size}${path}`;
\ No newline at end of file
+  `${API_BASE_URLS.TMDB_IMAGES}/${size}${path}`;
+
+/** Provider fallback chain configuration */
+export const API_FALLBACK_CONFIG = {
+  /** How long a provider is skipped after a retryable failure */
+  UNHEALTHY_COOLDOWN_MS: 60000,
+  /** Separator used in EXPO_PUBLIC_API_PROVIDER for provider chains */
+  PROVIDER_SEPARATOR: ',',
+  /** Image paths remembered with the provider that returned them */
+  MAX_TRACKED_IMAGE_PATHS: 2000,
+} as const;
+
+/** Persistent HTTP response cache configuration */
+export const HTTP_CACHE_CONFIG = {
+  /** AsyncStorage key prefix for cached responses */
+  KEY_PREFIX: '@moviestream/http_cache/',
+  /** AsyncStorage key for the LRU index */
+  INDEX_KEY: '@moviestream/http_cache_index',
+  /** Maximum number of cached responses */
+  MAX_ENTRIES: 300,
+  /** Maximum total size of cached responses (bytes of serialized JSON) */
+  MAX_BYTES: 4 * 1024 * 1024,
+  /** Default time-to-live when no endpoint rule matches */
+  DEFAULT_TTL_MS: 60 * 60 * 1000,
+  /** Query parameters removed from cache keys (credentials) */
+  IGNORED_PARAMS: ['api_key', 'apikey'],
+} as const;
+
+/** Client-side rate limits and daily quotas per provider */
+export const RATE_LIMIT_CONFIG = {
+  /** AsyncStorage key prefix for persisted daily request counters */
+  KEY_PREFIX: '@moviestream/rate_limit/',
+  TMDB: {
+    /** Burst size */
+    CAPACITY: 40,
+    /** Tokens added per second */
+    REFILL_PER_SECOND: 40,
+  },
+  OMDB: {
+    CAPACITY: 5,
+    REFILL_PER_SECOND: 2,
+    /** Requests allowed per day on the free tier */
+    DAILY_LIMIT: Number(process.env.EXPO_PUBLIC_OMDB_DAILY_LIMIT) || 1000,
+    /** Requests held back from low-priority calls so detail pages keep working */
+    LOW_PRIORITY_RESERVE: 100,
+  },
+} as const;
+
+/** Cross-provider ID mapping registry configuration */
+export const ID_MAPPING_CONFIG = {
+  /** AsyncStorage key for persisted mappings */
+  STORAGE_KEY: '@moviestream/id_mappings',
+  /** AsyncStorage key for the ID space active when ID tracking first ran */
+  LEGACY_ID_SPACE_KEY: '@moviestream/legacy_id_space',
+  /** Maximum number of titles remembered (least recently updated are dropped) */
+  MAX_RECORDS: 5000,
+  /** Delay before batched changes are written to storage */
+  SAVE_DELAY_MS: 1000,
+} as const;
+
+/** Remote watchlist sync configuration */
+export const WATCHLIST_SYNC_CONFIG = {
+  /** First retry delay after a failed sync */
+  BASE_RETRY_DELAY_MS: 2000,
+  /** Longest wait between retries */
+  MAX_RETRY_DELAY_MS: 5 * 60 * 1000,
+  /** Request timeout */
+  TIMEOUT_MS: 15000,
+} as const;
+
+/** Watchlist title metadata refresh configuration */
+export const WATCHLIST_METADATA_CONFIG = {
+  /** Metadata older than this is fetched again (availability changes often) */
+  MAX_AGE_MS: 24 * 60 * 60 * 1000,
+  /** How often the app checks for stale metadata while open */
+  CHECK_INTERVAL_MS: 60 * 60 * 1000,
+  /** Most titles fetched per refresh, to stay inside provider quotas */
+  BATCH_SIZE: 20,
+  /** Region used for streaming availability */
+  COUNTRY_CODE: 'US',
+} as const;
+
+/** Certification lookups for browsed titles, while a certification ceiling is set */
+export const CERTIFICATION_LOOKUP_CONFIG = {
+  /** Certifications older than this are looked up again (they rarely change) */
+  MAX_AGE_MS: 7 * 24 * 60 * 60 * 1000,
+  /** Most detail lookups in flight at once */
+  MAX_CONCURRENT: 4,
+} as const;
+
+/** "Available to me" streaming availability checks for browsed titles */
+export const STREAMING_AVAILABILITY_CONFIG = {
+  /** Availability older than this is checked again */
+  MAX_AGE_MS: 24 * 60 * 60 * 1000,
+  /** Most provider lookups in flight at once */
+  MAX_CONCURRENT: 4,
+  /** Region used for streaming availability */
+  COUNTRY_CODE: WATCHLIST_METADATA_CONFIG.COUNTRY_CODE,
+} as const;
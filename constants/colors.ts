@@ -312,6 +312,10 @@ export const ComponentTokens = {
   syncIndicator: {
     size: 20,
   },
+  restrictedArtwork: {
+    /** Blur for artwork of titles above the certification ceiling */
+    blurRadius: 40,
+  },
   removeButton: {
     size: 24,
   },
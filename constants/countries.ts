@@ -4,6 +4,7 @@
  */
 
 import type { Ionicons } from '@expo/vector-icons';
+import { t } from '@/services/localization';
 
 /** Country code type */
 export type CountryCode = 'US' | 'JP' | 'IN' | 'CN' | 'RU' | 'ES' | 'DE';
@@ -16,9 +17,9 @@ export interface CountryConfig {
   region: string;
   /** Icon name for the country's content type */
   icon: keyof typeof Ionicons.glyphMap;
-  /** Friendly label for the region's content */
+  /** Friendly label for the region's content (English; see getRegionLabel) */
   regionLabel: string;
-  /** Approximate content count */
+  /** Approximate content count, e.g. "10K+" */
   contentCount: string;
   /** Search terms for API queries */
   searchTerms: string[];
@@ -35,7 +36,7 @@ export const COUNTRIES: Record<CountryCode, CountryConfig> = {
     region: 'en-US',
     icon: 'film-outline',
     regionLabel: 'Hollywood & More',
-    contentCount: '10K+ titles',
+    contentCount: '10K+',
     searchTerms: ['hollywood', 'american'],
     cloudflareRegion: 'hollywood',
   },
@@ -46,7 +47,7 @@ export const COUNTRIES: Record<CountryCode, CountryConfig> = {
     region: 'ja-JP',
     icon: 'sparkles-outline',
     regionLabel: 'Anime & J-Drama',
-    contentCount: '5K+ titles',
+    contentCount: '5K+',
     searchTerms: ['anime', 'japanese'],
     cloudflareRegion: 'japanese',
   },
@@ -57,7 +58,7 @@ export const COUNTRIES: Record<CountryCode, CountryConfig> = {
     region: 'hi-IN',
     icon: 'musical-notes-outline',
     regionLabel: 'Bollywood & Regional',
-    contentCount: '8K+ titles',
+    contentCount: '8K+',
     searchTerms: ['bollywood', 'indian'],
     cloudflareRegion: 'bollywood',
   },
@@ -68,7 +69,7 @@ export const COUNTRIES: Record<CountryCode, CountryConfig> = {
     region: 'zh-CN',
     icon: 'videocam-outline',
     regionLabel: 'Chinese Cinema',
-    contentCount: '3K+ titles',
+    contentCount: '3K+',
     searchTerms: ['chinese', 'mandarin'],
     cloudflareRegion: 'chinese',
   },
@@ -79,7 +80,7 @@ export const COUNTRIES: Record<CountryCode, CountryConfig> = {
     region: 'ru-RU',
     icon: 'snow-outline',
     regionLabel: 'Russian Films',
-    contentCount: '2K+ titles',
+    contentCount: '2K+',
     searchTerms: ['russian'],
     cloudflareRegion: 'russian',
   },
@@ -90,7 +91,7 @@ export const COUNTRIES: Record<CountryCode, CountryConfig> = {
     region: 'es-ES',
     icon: 'sunny-outline',
     regionLabel: 'Spanish Content',
-    contentCount: '4K+ titles',
+    contentCount: '4K+',
     searchTerms: ['spanish', 'espanol'],
     cloudflareRegion: 'spanish',
   },
@@ -101,7 +102,7 @@ export const COUNTRIES: Record<CountryCode, CountryConfig> = {
     region: 'de-DE',
     icon: 'construct-outline',
     regionLabel: 'German Productions',
-    contentCount: '2K+ titles',
+    contentCount: '2K+',
     searchTerms: ['german', 'deutsch'],
     cloudflareRegion: 'german',
   },
@@ -117,7 +118,7 @@ export const SUPPORTED_COUNTRY_CODES = Object.keys(COUNTRIES) as CountryCode[];
 export const DEFAULT_COUNTRY_CONFIG = {
   icon: 'globe-outline' as keyof typeof Ionicons.glyphMap,
   regionLabel: 'Regional Content',
-  contentCount: '1K+ titles',
+  contentCount: '1K+',
   searchTerms: [] as string[],
 } as const;
 
@@ -140,14 +141,20 @@ export function getCountryIcon(code: string): keyof typeof Ionicons.glyphMap {
   return COUNTRIES[code as CountryCode]?.icon ?? DEFAULT_COUNTRY_CONFIG.icon;
 }
 
-/** Get region label by code */
+/** Get the translated country name by code */
+export function getCountryName(code: string): string {
+  return t(`countries.${code}`, { defaultValue: COUNTRIES[code as CountryCode]?.name ?? code });
+}
+
+/** Get the translated region label by code */
 export function getRegionLabel(code: string): string {
-  return COUNTRIES[code as CountryCode]?.regionLabel ?? DEFAULT_COUNTRY_CONFIG.regionLabel;
+  return code in COUNTRIES ? t(`countries.regionLabels.${code}`) : t('countries.regionLabels.default');
 }
 
-/** Get content count by code */
+/** Get the translated content count by code, e.g. "10K+ titles" */
 export function getContentCount(code: string): string {
-  return COUNTRIES[code as CountryCode]?.contentCount ?? DEFAULT_COUNTRY_CONFIG.contentCount;
+  const amount = COUNTRIES[code as CountryCode]?.contentCount ?? DEFAULT_COUNTRY_CONFIG.contentCount;
+  return t('countries.contentCount', { amount });
 }
 
 /** Get search terms by code */
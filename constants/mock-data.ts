@@ -10,6 +10,12 @@ import type {
   CastMember,
   StreamingProvider,
   Genre,
+  CrewMember,
+  GuestStar,
+  SeasonDetails,
+  EpisodeSummary,
+  PersonDetails,
+  PersonCredit,
 } from '@/types/media';
 
 /** Mock image path - triggers placeholder image in mock mode */
@@ -223,6 +229,118 @@ export const MOCK_CAST: CastMember[] = [
   { id: 1005, name: 'Charlie Brown', character: 'Sidekick', profilePath: MOCK_IMAGE, order: 4 },
 ];
 
+/** Mock episode crew */
+export const MOCK_EPISODE_CREW: CrewMember[] = [
+  { id: 2001, name: 'Morgan Lee', job: 'Director', department: 'Directing', profilePath: MOCK_IMAGE },
+  { id: 2002, name: 'Sam Carter', job: 'Writer', department: 'Writing', profilePath: null },
+  { id: 2003, name: 'Riley Chen', job: 'Director of Photography', department: 'Camera', profilePath: null },
+];
+
+/** Mock episode guest stars */
+export const MOCK_GUEST_STARS: GuestStar[] = [
+  { id: 3001, name: 'Taylor Reed', character: 'Messenger', profilePath: MOCK_IMAGE },
+  { id: 3002, name: 'Jordan Blake', character: 'Innkeeper', profilePath: null },
+];
+
+/** Mock season with episodes generated from the show's episode count */
+export function getMockSeasonDetails(show: MediaDetails, seasonNumber: number): SeasonDetails {
+  const episodeCount = show.numberOfEpisodes && show.numberOfSeasons
+    ? Math.ceil(show.numberOfEpisodes / show.numberOfSeasons)
+    : 10;
+
+  const episodes: EpisodeSummary[] = Array.from({ length: episodeCount }, (_, i) => ({
+    id: show.id * 10000 + seasonNumber * 100 + i + 1,
+    episodeNumber: i + 1,
+    seasonNumber,
+    name: `Episode ${i + 1}`,
+    overview: `Episode ${i + 1} of season ${seasonNumber} of ${show.title}.`,
+    stillPath: MOCK_IMAGE,
+    airDate: show.releaseDate,
+    runtime: show.runtime,
+    voteAverage: show.voteAverage ?? 0,
+    voteCount: Math.round(show.voteCount / 100),
+  }));
+
+  return {
+    id: show.id * 100 + seasonNumber,
+    seasonNumber,
+    name: `Season ${seasonNumber}`,
+    overview: `Season ${seasonNumber} of ${show.title}.`,
+    posterPath: show.posterPath,
+    airDate: show.releaseDate,
+    episodes,
+  };
+}
+
+/** Mock person built from the mock cast, episode crew and guest stars */
+export function getMockPersonDetails(personId: number): PersonDetails | null {
+  const castMember = MOCK_CAST.find(p => p.id === personId);
+  const crewMember = MOCK_EPISODE_CREW.find(p => p.id === personId);
+  const guestStar = MOCK_GUEST_STARS.find(p => p.id === personId);
+  const person = castMember ?? crewMember ?? guestStar;
+  if (!person) return null;
+
+  return {
+    id: person.id,
+    name: person.name,
+    biography: `${person.name} is a mock performer used for development and testing.`,
+    profilePath: person.profilePath,
+    knownForDepartment: crewMember ? crewMember.department : 'Acting',
+    birthday: '1980-01-01',
+    deathday: null,
+    placeOfBirth: 'Los Angeles, California, USA',
+    imdbId: null,
+  };
+}
+
+/**
+ * Mock credits matching the mock credit endpoints: the main cast appears in
+ * every title, episode crew and guest stars in every TV show
+ */
+export function getMockPersonCredits(personId: number): PersonCredit[] {
+  const toCredit = (
+    item: MediaItem,
+    credit: Pick<PersonCredit, 'character' | 'job' | 'department'>
+  ): PersonCredit => ({
+    id: item.id,
+    title: item.title,
+    originalTitle: item.originalTitle,
+    posterPath: item.posterPath,
+    backdropPath: item.backdropPath,
+    overview: item.overview,
+    releaseDate: item.releaseDate,
+    voteAverage: item.voteAverage,
+    voteCount: item.voteCount,
+    mediaType: item.mediaType,
+    genreIds: item.genreIds,
+    creditId: `${personId}-${item.mediaType}-${item.id}`,
+    ...credit,
+  });
+
+  const castMember = MOCK_CAST.find(p => p.id === personId);
+  if (castMember) {
+    return [...MOCK_TRENDING_MOVIES, ...MOCK_TRENDING_TV].map(item =>
+      toCredit(item, { character: castMember.character, job: null, department: 'Acting' })
+    );
+  }
+
+  const crewMember = MOCK_EPISODE_CREW.find(p => p.id === personId);
+  if (crewMember) {
+    return MOCK_TRENDING_TV.map(item =>
+      toCredit(item, { character: null, job: crewMember.job, department: crewMember.department })
+    );
+  }
+
+  const guestStar = MOCK_GUEST_STARS.find(p => p.id === personId);
+  if (guestStar) {
+    return MOCK_TRENDING_TV.map(item =>
+      toCredit(item, { character: guestStar.character, job: null, department: 'Acting' })
+    );
+  }
+
+  return [];
+}
+
 /** Mock streaming providers */
 export const MOCK_PROVIDERS: StreamingProvider[] = [
   { providerId: 8, providerName: 'Netflix', logoPath: MOCK_IMAGE, link: '#', type: 'flatrate', isAvailable: true },
@@ -0,0 +1,57 @@
+/**
+ * "What should I watch tonight?" picker constants
+ * Contains moods, time options and candidate weighting
+ * Option labels are translation keys, rendered with `t()`
+ */
+
+import type { Ionicons } from '@expo/vector-icons';
+
+/** Picker configuration */
+export const PICKER_CONFIG = {
+  /** A suggestion isn't repeated for this many days */
+  HISTORY_DAYS: 7,
+  /** Watchlist titles whose recommendations are added as candidates */
+  RECOMMENDATION_SEEDS: 3,
+  /** Most recommendations fetched in detail per visit */
+  MAX_RECOMMENDATIONS: 8,
+  /** Watchlist titles are this many times likelier than recommendations */
+  WATCHLIST_WEIGHT: 3,
+  RECOMMENDATION_WEIGHT: 1,
+  /** Extra weight for series already being watched */
+  WATCHING_BOOST: 1.5,
+} as const;
+
+/** A mood and the TMDB movie and TV genres it stands for */
+export interface PickerMood {
+  id: string;
+  labelKey: string;
+  icon: keyof typeof Ionicons.glyphMap;
+  genreIds: number[];
+}
+
+/** Moods offered by the picker */
+export const PICKER_MOODS: PickerMood[] = [
+  { id: 'laugh', labelKey: 'picker.moods.laugh', icon: 'happy-outline', genreIds: [35] },
+  { id: 'thrill', labelKey: 'picker.moods.thrill', icon: 'flash-outline', genreIds: [28, 53, 80, 10759] },
+  { id: 'feel_good', labelKey: 'picker.moods.feel_good', icon: 'heart-outline', genreIds: [10751, 16, 10749] },
+  { id: 'think', labelKey: 'picker.moods.think', icon: 'bulb-outline', genreIds: [18, 99, 9648] },
+  { id: 'scare', labelKey: 'picker.moods.scare', icon: 'skull-outline', genreIds: [27] },
+  { id: 'escape', labelKey: 'picker.moods.escape', icon: 'planet-outline', genreIds: [878, 14, 12, 10765] },
+];
+
+/** Time options, in minutes */
+export const PICKER_TIME_OPTIONS: { value: number | null; labelKey: string }[] = [
+  { value: null, labelKey: 'picker.time.any' },
+  { value: 30, labelKey: 'picker.time.minutes30' },
+  { value: 60, labelKey: 'picker.time.hours1' },
+  { value: 90, labelKey: 'picker.time.minutes90' },
+  { value: 120, labelKey: 'picker.time.hours2' },
+  { value: 180, labelKey: 'picker.time.hours3' },
+];
+
+/** Media type options */
+export const PICKER_MEDIA_OPTIONS: { value: 'all' | 'movie' | 'tv'; labelKey: string }[] = [
+  { value: 'all', labelKey: 'picker.media.all' },
+  { value: 'movie', labelKey: 'picker.media.movie' },
+  { value: 'tv', labelKey: 'picker.media.tv' },
+];
@@ -1,11 +1,17 @@
 /**
  * Profile screen constants
- * Contains configuration for languages, themes, and grid layout
+ * Contains configuration for themes, watchlist statuses, the certification ceiling and grid layout
+ * Option labels are translation keys, rendered with `t()`
  */
 
 import { Dimensions } from 'react-native';
+import type { Ionicons } from '@expo/vector-icons';
 import { Spacing } from '@/constants/theme';
-import type { ThemeMode } from '@/types/user';
+import type { CertificationCeilingMode, ThemeMode } from '@/types/user';
+import type { WatchlistRatingRange, WatchlistSortOrder, WatchlistStatus } from '@/types/watchlist';
+import type { QuotaStatus } from '@/services/api/http';
+import { t } from '@/services/localization';
+import { formatNumber, formatTime } from '@/utils/formatting';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -21,44 +27,119 @@ export const PROFILE_GRID = {
   },
 } as const;
 
-/** Language option type */
-export interface LanguageOption {
-  code: string;
-  name: string;
-}
-
-/** Available languages */
-export const LANGUAGES: LanguageOption[] = [
-  { code: 'en', name: 'English' },
-  { code: 'es', name: 'Español' },
-  { code: 'fr', name: 'Français' },
-  { code: 'de', name: 'Deutsch' },
-  { code: 'ja', name: '日本語' },
-  { code: 'zh', name: '中文' },
-];
-
 /** Theme mode option type */
 export interface ThemeModeOption {
   value: ThemeMode;
-  label: string;
-  description: string;
+  labelKey: string;
+  descriptionKey: string;
 }
 
 /** Theme mode options */
 export const THEME_MODES: ThemeModeOption[] = [
-  { value: 'light', label: 'Light', description: 'Always use light theme' },
-  { value: 'dark', label: 'Dark', description: 'Always use dark theme' },
-  { value: 'system', label: 'System', description: 'Follow device setting' },
+  { value: 'light', labelKey: 'settings.themeOptions.light', descriptionKey: 'settings.themeDescriptions.light' },
+  { value: 'dark', labelKey: 'settings.themeOptions.dark', descriptionKey: 'settings.themeDescriptions.dark' },
+  { value: 'system', labelKey: 'settings.themeOptions.system', descriptionKey: 'settings.themeDescriptions.system' },
+];
+
+/** Certification ceilings offered in settings, as viewer ages (null for no ceiling) */
+export const CERTIFICATION_CEILINGS: (number | null)[] = [null, 6, 12, 16];
+
+/** What happens to titles above the certification ceiling */
+export const CERTIFICATION_CEILING_MODES: {
+  value: CertificationCeilingMode;
+  labelKey: string;
+  descriptionKey: string;
+}[] = [
+  { value: 'hide', labelKey: 'settings.ceilingModes.hide', descriptionKey: 'settings.ceilingModeDescriptions.hide' },
+  { value: 'blur', labelKey: 'settings.ceilingModes.blur', descriptionKey: 'settings.ceilingModeDescriptions.blur' },
 ];
 
-/** Get language name by code */
-export function getLanguageName(code: string): string {
-  const language = LANGUAGES.find(lang => lang.code === code);
-  return language?.name || 'English';
+/** Watchlist status option type */
+export interface WatchlistStatusOption {
+  value: WatchlistStatus;
+  labelKey: string;
+  icon: keyof typeof Ionicons.glyphMap;
 }
 
-/** Get theme label by mode */
+/** Watchlist statuses, in lifecycle order */
+export const WATCHLIST_STATUSES: WatchlistStatusOption[] = [
+  { value: 'plan_to_watch', labelKey: 'watchlist.status.plan_to_watch', icon: 'time-outline' },
+  { value: 'watching', labelKey: 'watchlist.status.watching', icon: 'play-circle' },
+  { value: 'completed', labelKey: 'watchlist.status.completed', icon: 'checkmark-circle' },
+  { value: 'dropped', labelKey: 'watchlist.status.dropped', icon: 'close-circle' },
+];
+
+/** Media type filter options for the watchlist grid */
+export const WATCHLIST_MEDIA_FILTERS: { value: 'all' | 'movie' | 'tv'; labelKey: string }[] = [
+  { value: 'all', labelKey: 'common.all' },
+  { value: 'movie', labelKey: 'common.movies' },
+  { value: 'tv', labelKey: 'common.series' },
+];
+
+/** Sort options for the watchlist grid */
+export const WATCHLIST_SORT_ORDERS: {
+  value: WatchlistSortOrder;
+  labelKey: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}[] = [
+  { value: 'date_added', labelKey: 'watchlist.sort.date_added', icon: 'calendar-outline' },
+  { value: 'title', labelKey: 'watchlist.sort.title', icon: 'text-outline' },
+  { value: 'rating', labelKey: 'watchlist.sort.rating', icon: 'star-outline' },
+  { value: 'runtime', labelKey: 'watchlist.sort.runtime', icon: 'hourglass-outline' },
+  { value: 'release_date', labelKey: 'watchlist.sort.release_date', icon: 'film-outline' },
+  { value: 'vote_average', labelKey: 'watchlist.sort.vote_average', icon: 'trending-up-outline' },
+];
+
+/** Runtime options for the watchlist filter panel */
+export const WATCHLIST_RUNTIME_FILTERS: { value: number | null; labelKey: string }[] = [
+  { value: null, labelKey: 'watchlist.filters.anyLength' },
+  { value: 90, labelKey: 'watchlist.filters.under90Minutes' },
+  { value: 120, labelKey: 'watchlist.filters.under2Hours' },
+  { value: 180, labelKey: 'watchlist.filters.under3Hours' },
+];
+
+/** Audience rating ranges for the watchlist filter panel */
+export const WATCHLIST_RATING_RANGES: { value: WatchlistRatingRange; labelKey: string }[] = [
+  { value: { min: null, max: null }, labelKey: 'watchlist.filters.anyRating' },
+  { value: { min: 8, max: null }, labelKey: 'watchlist.filters.rating8Plus' },
+  { value: { min: 7, max: 8 }, labelKey: 'watchlist.filters.rating7To8' },
+  { value: { min: 6, max: 7 }, labelKey: 'watchlist.filters.rating6To7' },
+  { value: { min: null, max: 6 }, labelKey: 'watchlist.filters.ratingUnder6' },
+];
+
+/** Get the translated theme label by mode */
 export function getThemeLabel(mode: ThemeMode): string {
-  const theme = THEME_MODES.find(t => t.value === mode);
-  return theme?.label || 'System';
+  const theme = THEME_MODES.find(option => option.value === mode);
+  return t(theme?.labelKey ?? 'settings.themeOptions.system');
+}
+
+/** Get the translated label of a certification ceiling */
+export function getCertificationCeilingLabel(ceiling: number | null): string {
+  return ceiling === null
+    ? t('settings.ceilingOptions.none')
+    : t('settings.ceilingOptions.upTo', { age: formatNumber(ceiling) });
+}
+
+/** Get watchlist status option by value */
+export function getWatchlistStatusOption(status: WatchlistStatus): WatchlistStatusOption {
+  return WATCHLIST_STATUSES.find(option => option.value === status) ?? WATCHLIST_STATUSES[0];
+}
+
+/** Get the API usage label for a provider's quota */
+export function getQuotaLabel(status: QuotaStatus): string {
+  if (status.isExhausted) {
+    const resetTime = formatTime(status.resetsAt);
+    return t('settings.quota.exhausted', { time: resetTime });
+  }
+  if (status.remaining === null) {
+    return t('settings.quota.used', { count: status.used, formatted: formatNumber(status.used) });
+  }
+  if (status.dailyLimit === null) {
+    return t('settings.quota.remaining', { count: status.remaining, formatted: formatNumber(status.remaining) });
+  }
+  return t('settings.quota.remainingOfLimit', {
+    count: status.remaining,
+    formatted: formatNumber(status.remaining),
+    limit: formatNumber(status.dailyLimit),
+  });
 }
@@ -0,0 +1,30 @@
+/**
+ * Streaming service catalogue
+ * Subscription services the user can pick as "My Services", keyed by their
+ * TMDB watch provider IDs so they match `getWatchProviders` results
+ */
+
+/** A subscription streaming service */
+export interface StreamingService {
+  providerId: number;
+  providerName: string;
+}
+
+/** Services offered in the "My Services" picker */
+export const STREAMING_SERVICES: StreamingService[] = [
+  { providerId: 8, providerName: 'Netflix' },
+  { providerId: 9, providerName: 'Amazon Prime Video' },
+  { providerId: 337, providerName: 'Disney Plus' },
+  { providerId: 15, providerName: 'Hulu' },
+  { providerId: 1899, providerName: 'Max' },
+  { providerId: 350, providerName: 'Apple TV Plus' },
+  { providerId: 531, providerName: 'Paramount Plus' },
+  { providerId: 386, providerName: 'Peacock Premium' },
+  { providerId: 526, providerName: 'AMC Plus' },
+  { providerId: 43, providerName: 'Starz' },
+  { providerId: 283, providerName: 'Crunchyroll' },
+  { providerId: 11, providerName: 'MUBI' },
+  { providerId: 258, providerName: 'Criterion Channel' },
+  { providerId: 99, providerName: 'Shudder' },
+  { providerId: 151, providerName: 'BritBox' },
+];
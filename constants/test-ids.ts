@@ -19,6 +19,8 @@ export const SCREEN_TEST_IDS = {
 /** Component test IDs */
 export const COMPONENT_TEST_IDS = {
   // Home screen components
+  UP_NEXT_ROW: 'home-up-next-row',
+  COMING_THIS_WEEK_ROW: 'home-coming-this-week-row',
   RECENTLY_VIEWED_ROW: 'home-recently-viewed-row',
   RECOMMENDATIONS_ROW: 'home-recommendations-row',
   TRENDING_MOVIES_ROW: 'home-trending-movies-row',
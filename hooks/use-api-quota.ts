@@ -0,0 +1,28 @@
+/**
+ * Hook to track a provider's daily request quota
+ * Used by the profile settings "API Usage" readout
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  getQuotaStatus,
+  subscribeToQuotaStatus,
+  type QuotaStatus,
+} from '@/services/api/http';
+
+/**
+ * @param provider - Provider name (e.g. 'omdb')
+ * @returns Current quota status, or null if the provider has no rate limiter
+ */
+export function useApiQuota(provider: string): QuotaStatus | null {
+  const [status, setStatus] = useState(() => getQuotaStatus(provider));
+
+  useEffect(() => {
+    setStatus(getQuotaStatus(provider));
+    return subscribeToQuotaStatus((statuses) => {
+      setStatus(statuses.find(s => s.provider === provider) ?? null);
+    });
+  }, [provider]);
+
+  return status;
+}
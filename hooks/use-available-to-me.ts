@@ -0,0 +1,44 @@
+/**
+ * Hook for the "available to me" filter on lists of titles
+ * Used by search results, country hubs and recommendation rows
+ */
+
+import { useEffect, useMemo } from 'react';
+import { usePreferencesStore } from '@/stores/preferencesStore';
+import { useStreamingAvailabilityStore } from '@/stores/streamingAvailabilityStore';
+import { getWatchlistKey } from '@/services/sync';
+import { filterAvailableToMe } from '@/utils/streaming-services';
+import type { MediaRef } from '@/types/media';
+
+/** Titles left by the "available to me" filter */
+export interface AvailableToMeResult<T> {
+  /** Titles streaming on the user's services, or every title when the filter is off */
+  items: T[];
+  /** Some titles are still being checked */
+  isChecking: boolean;
+}
+
+/**
+ * @param items - Titles shown
+ * @param enabled - Whether the filter is on (titles are only checked while it is)
+ * @returns Filtered titles and whether more may appear once checked
+ */
+export function useAvailableToMe<T extends MediaRef>(items: T[], enabled: boolean): AvailableToMeResult<T> {
+  const serviceIds = usePreferencesStore(state => state.preferences.streamingServices);
+  const { availability, pending, checkAvailability } = useStreamingAvailabilityStore();
+
+  useEffect(() => {
+    if (enabled && items.length > 0) {
+      void checkAvailability(items);
+    }
+  }, [enabled, items, checkAvailability]);
+
+  const filtered = useMemo(
+    () => (enabled ? filterAvailableToMe(items, availability, serviceIds) : items),
+    [enabled, items, availability, serviceIds]
+  );
+
+  const isChecking = enabled && items.some(item => pending.includes(getWatchlistKey(item.id, item.mediaType)));
+
+  return { items: filtered, isChecking };
+}
@@ -0,0 +1,61 @@
+/**
+ * Hook for the certification ceiling preference
+ * Lists leave out titles above it in "hide" mode; cards and detail pages
+ * blur their artwork otherwise. List entries carry no certification, so
+ * theirs are looked up while a ceiling is set, unless the provider has a
+ * daily quota.
+ */
+
+import { useCallback, useEffect, useMemo } from 'react';
+import { usePreferencesStore } from '@/stores/preferencesStore';
+import { useCertificationStore } from '@/stores/certificationStore';
+import { getDeviceRegion } from '@/services/localization';
+import { hasCertification, type ListedTitle } from '@/services/certification-lookup';
+import { getWatchlistKey } from '@/services/sync';
+import { isAboveCeiling, type CertifiedTitle } from '@/utils/certifications';
+import type { MediaRef } from '@/types/media';
+
+/** Title held against the ceiling; with an ID its looked-up certification is used */
+type CeilingTitle = CertifiedTitle & Partial<MediaRef>;
+
+/**
+ * @param titles - Titles a list shows, whose certifications are looked up while a ceiling is set
+ */
+export function useCertificationCeiling(titles?: ListedTitle[]) {
+  const ceiling = usePreferencesStore(state => state.preferences.certificationCeiling);
+  const mode = usePreferencesStore(state => state.preferences.certificationCeilingMode);
+  const certifications = useCertificationStore(state => state.certifications);
+  const lookUp = useCertificationStore(state => state.lookUp);
+  const region = useMemo(() => getDeviceRegion(), []);
+
+  useEffect(() => {
+    if (ceiling !== null && titles && titles.length > 0) {
+      void lookUp(titles);
+    }
+  }, [ceiling, titles, lookUp]);
+
+  /** Whether a title is rated above the ceiling */
+  const isRestricted = useCallback(
+    (title: CeilingTitle) => {
+      const lookedUp = !hasCertification(title) && title.id !== undefined && title.mediaType
+        ? certifications[getWatchlistKey(title.id, title.mediaType)]
+        : undefined;
+      return isAboveCeiling(lookedUp ?? title, ceiling, region);
+    },
+    [ceiling, region, certifications]
+  );
+
+  /** Whether a title's artwork should be blurred */
+  const isBlurred = useCallback(
+    (title: CeilingTitle) => mode === 'blur' && isRestricted(title),
+    [mode, isRestricted]
+  );
+
+  /** Titles a list should show */
+  const visibleTitles = useCallback(
+    <T extends CeilingTitle>(items: T[]) => (mode === 'hide' ? items.filter(item => !isRestricted(item)) : items),
+    [mode, isRestricted]
+  );
+
+  return { ceiling, mode, region, isRestricted, isBlurred, visibleTitles };
+}
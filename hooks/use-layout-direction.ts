@@ -0,0 +1,36 @@
+/**
+ * Hook for mirroring layouts in right-to-left languages
+ * Follows the direction the app is actually laid out in, which only changes
+ * after a restart, rather than the language that was just picked
+ */
+
+import { useCallback } from 'react';
+import { I18nManager } from 'react-native';
+import {
+  getDirectionalIcon,
+  getPageIndex,
+  mirrorGradient,
+  type GradientDirection,
+} from '@/utils/rtl';
+
+export function useLayoutDirection() {
+  const isRTL = I18nManager.isRTL;
+
+  const directionalIcon = useCallback(
+    <T extends string>(name: T) => getDirectionalIcon(name, isRTL),
+    [isRTL]
+  );
+
+  const gradientDirection = useCallback(
+    (direction: GradientDirection) => mirrorGradient(direction, isRTL),
+    [isRTL]
+  );
+
+  const pageIndex = useCallback(
+    (offsetX: number, pageWidth: number, pageCount: number) =>
+      getPageIndex(offsetX, pageWidth, pageCount, isRTL),
+    [isRTL]
+  );
+
+  return { isRTL, directionalIcon, gradientDirection, pageIndex };
+}
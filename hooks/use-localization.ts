@@ -1,45 +1,47 @@
-import { useState, useEffect, useCallback } from 'react';
-import { 
-  t, 
-  getCurrentLocale, 
-  setLocale, 
-  getAvailableLocales, 
+import { useCallback, useSyncExternalStore } from 'react';
+import {
+  t,
+  i18n,
+  getCurrentLocale,
+  setLocale,
+  getAvailableLocales,
   isRTL,
-  type SupportedLocale 
+  subscribeToLocale,
+  type SupportedLocale
 } from '../services/localization';
 
+/** Changes whenever the locale or its translations change */
+function getLocaleVersion(): number {
+  return i18n.version;
+}
+
 /**
  * Hook for accessing localization functionality
+ * Components using it re-render when the locale changes, so switching
+ * language updates every mounted screen
  */
 export function useLocalization() {
-  const [currentLocale, setCurrentLocale] = useState<SupportedLocale>(getCurrentLocale());
-  const [isRightToLeft, setIsRightToLeft] = useState(isRTL());
-
-  // Update state when locale changes
-  useEffect(() => {
-    const locale = getCurrentLocale();
-    setCurrentLocale(locale);
-    setIsRightToLeft(isRTL());
-  }, []);
+  const version = useSyncExternalStore(subscribeToLocale, getLocaleVersion);
+  const currentLocale = getCurrentLocale();
 
   const changeLocale = useCallback(async (locale: SupportedLocale) => {
     try {
       await setLocale(locale);
-      setCurrentLocale(locale);
-      setIsRightToLeft(isRTL());
     } catch (error) {
       console.error('Failed to change locale:', error);
       throw error;
     }
   }, []);
 
+  // A new function per locale lets memoized values depending on it recompute
+  // eslint-disable-next-line react-hooks/exhaustive-deps
   const translate = useCallback((key: string, options?: Record<string, string | number>) => {
     return t(key, options);
-  }, []);
+  }, [version]);
 
   return {
     currentLocale,
-    isRightToLeft,
+    isRightToLeft: isRTL(),
     availableLocales: getAvailableLocales(),
     changeLocale,
     t: translate,
@@ -52,4 +54,4 @@ export function useLocalization() {
 export function useTranslation(key: string, options?: Record<string, string | number>) {
   const { t: translate } = useLocalization();
   return translate(key, options);
-}
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+/**
+ * Hook to track connectivity and whether cached API data is on screen
+ * Combines NetInfo with the persistent HTTP cache stale-data status
+ */
+
+import { useEffect, useState } from 'react';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  getHttpCacheStatus,
+  subscribeToHttpCacheStatus,
+} from '@/services/api/http-cache';
+
+export interface OfflineStatus {
+  /** Whether the device has no network connection */
+  isOffline: boolean;
+  /** Whether any visible data came from the cache because a refresh failed */
+  isShowingStaleData: boolean;
+  /** When the oldest stale response was fetched (ISO string) */
+  staleSince: string | null;
+}
+
+export function useOfflineStatus(): OfflineStatus {
+  const [isOffline, setIsOffline] = useState(false);
+  const [cacheStatus, setCacheStatus] = useState(getHttpCacheStatus);
+
+  useEffect(() => {
+    const unsubscribeNetInfo = NetInfo.addEventListener((state) => {
+      setIsOffline(state.isConnected === false);
+    });
+    const unsubscribeCache = subscribeToHttpCacheStatus(setCacheStatus);
+
+    return () => {
+      unsubscribeNetInfo();
+      unsubscribeCache();
+    };
+  }, []);
+
+  return {
+    isOffline,
+    isShowingStaleData: cacheStatus.isShowingStaleData,
+    staleSince: cacheStatus.oldestStaleAt,
+  };
+}
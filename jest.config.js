@@ -13,6 +13,7 @@ module.exports = {
     // React Native mocks
     '^react-native$': '<rootDir>/__tests__/__mocks__/react-native.js',
     '^@react-native-community/netinfo$': '<rootDir>/__tests__/__mocks__/@react-native-community/netinfo.js',
+    '^expo-localization$': '<rootDir>/__tests__/__mocks__/expo-localization.js',
     // Generic image file mock (for non-aliased paths)
     '\\.(png|jpg|jpeg|gif|webp|svg)$': '<rootDir>/__tests__/__mocks__/fileMock.js',
   },
@@ -20,9 +21,13 @@ module.exports = {
     '^.+\\.tsx?$': ['ts-jest', {
       tsconfig: 'tsconfig.json',
     }],
+    // i18n-js depends on make-plural, which only ships ES modules
+    'node_modules/make-plural/.+\\.js$': ['ts-jest', {
+      tsconfig: 'tsconfig.json',
+    }],
   },
   transformIgnorePatterns: [
-    'node_modules/(?!(react-native|@react-native|@react-native-community)/)',
+    'node_modules/(?!(react-native|@react-native|@react-native-community|make-plural)/)',
   ],
   collectCoverageFrom: [
     'components/**/*.{ts,tsx}',
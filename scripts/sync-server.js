@@ -0,0 +1,97 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for the watchlist sync server.
+ * Keeps the latest change per title in memory (removals as tombstones) and
+ * resolves conflicts last-writer-wins on updatedAt, like the real endpoint.
+ *
+ * Usage: node scripts/sync-server.js [port]
+ * Then set EXPO_PUBLIC_SYNC_API_URL=http://<your-ip>:<port>
+ */
+
+const http = require('http');
+
+const PORT = parseInt(process.argv[2]) || 4010;
+
+// key -> { change, seq }
+const entries = new Map();
+let seq = 0;
+
+function isValidChange(change) {
+  if (!change || typeof change.key !== 'string' || typeof change.updatedAt !== 'string') return false;
+  if (Number.isNaN(Date.parse(change.updatedAt))) return false;
+  if (change.item === null) return true;
+  const item = change.item;
+  return (
+    item &&
+    Number.isInteger(item.id) &&
+    (item.mediaType === 'movie' || item.mediaType === 'tv') &&
+    change.key === `${item.mediaType}:${item.id}`
+  );
+}
+
+function applyChange(change) {
+  if (!isValidChange(change)) {
+    return { key: change && change.key, status: 'rejected', current: null, error: 'Invalid watchlist change' };
+  }
+
+  const stored = entries.get(change.key);
+  if (stored && stored.change.updatedAt > change.updatedAt) {
+    return { key: change.key, status: 'stale', current: stored.change, error: null };
+  }
+
+  entries.set(change.key, { change, seq: ++seq });
+  return { key: change.key, status: 'applied', current: null, error: null };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (url.pathname !== '/watchlist/changes') {
+    send(res, 404, { error: 'Not found' });
+    return;
+  }
+
+  if (req.method === 'GET') {
+    const since = parseInt(url.searchParams.get('since')) || 0;
+    const changes = [...entries.values()]
+      .filter(entry => entry.seq > since)
+      .sort((a, b) => a.seq - b.seq)
+      .map(entry => entry.change);
+    send(res, 200, { changes, cursor: String(seq) });
+    return;
+  }
+
+  if (req.method === 'POST') {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      let changes;
+      try {
+        changes = JSON.parse(body).changes;
+      } catch {
+        send(res, 400, { error: 'Invalid JSON' });
+        return;
+      }
+      if (!Array.isArray(changes)) {
+        send(res, 400, { error: 'Expected a changes array' });
+        return;
+      }
+      const results = changes.map(applyChange);
+      console.log(`  ${results.map(r => `${r.key} ${r.status}`).join(', ')}`);
+      send(res, 200, { results });
+    });
+    return;
+  }
+
+  send(res, 405, { error: 'Method not allowed' });
+});
+
+server.listen(PORT, () => {
+  console.log(`\n🔄 Watchlist sync server listening on http://localhost:${PORT}\n`);
+});
@@ -5,12 +5,13 @@
  * Requirements: 13.6, 19.4
  */
 
-import NetInfo from '@react-native-community/netinfo';
 import type { AnalyticsBatch } from '@/types/analytics';
 import { calculateBackoffDelay, type RetryConfig } from '../api';
 import { API_BASE_URLS } from '@/constants/api';
 import { ANIMATION_DURATION } from '@/constants/animations';
 
+export { isNetworkConnected } from '@/services/network';
+
 // Analytics configuration
 export const ANALYTICS_CONFIG = {
   batchSize: 10,
@@ -24,19 +25,6 @@ export const ANALYTICS_CONFIG = {
 // Mock analytics endpoint (replace with real endpoint)
 const ANALYTICS_ENDPOINT = API_BASE_URLS.ANALYTICS;
 
-/**
- * Check if device is connected to the internet
- */
-export async function isNetworkConnected(): Promise<boolean> {
-  try {
-    const netInfo = await NetInfo.fetch();
-    return netInfo.isConnected === true;
-  } catch (error) {
-    console.error('Failed to check network connectivity:', error);
-    return false; // Assume no connection on error
-  }
-}
-
 /**
  * Get platform info for analytics
  */
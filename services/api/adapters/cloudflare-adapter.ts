@@ -3,13 +3,19 @@
  * Maps Cloudflare API responses to the MediaApiAdapter interface
  */
 
-import type { MediaApiAdapter, PaginatedResponse } from '../types';
+import type { MediaApiAdapter, PaginatedResponse, CuratedListKind } from '../types';
 import type {
   TrendingItem,
   MediaDetails,
   CastMember,
   StreamingProvider,
   MediaItem,
+  ExternalIds,
+  SeasonDetails,
+  EpisodeSummary,
+  EpisodeDetails,
+  PersonDetails,
+  PersonCredit,
 } from '@/types/media';
 import type { SearchResults } from '@/types/user';
 import type {
@@ -17,8 +23,13 @@ import type {
   CFMovieDetails,
   CFTVShowResult,
   CFTVShowDetails,
+  CFSeasonDetails,
+  CFEpisode,
+  CFPersonDetails,
+  CFPersonCredit,
 } from '../cloudflare-types';
 import * as cf from '../cloudflare';
+import { rememberExternalIds } from '../id-mapping';
 import { getCloudflareRegion } from '@/constants/countries';
 import { API_BASE_URLS } from '@/constants/api';
 
@@ -96,6 +107,7 @@ function transformMovieDetails(movie: CFMovieDetails): MediaDetails {
     })),
     budget: movie.budget,
     revenue: movie.revenue,
+    imdbId: movie.imdbId,
   };
 }
 
@@ -124,6 +136,71 @@ function transformTVDetails(tv: CFTVShowDetails): MediaDetails {
   };
 }
 
+/** Transform Cloudflare episode to EpisodeSummary */
+function transformEpisode(episode: CFEpisode): EpisodeSummary {
+  return {
+    id: episode.id,
+    episodeNumber: episode.episodeNumber,
+    seasonNumber: episode.seasonNumber,
+    name: episode.name,
+    overview: episode.overview,
+    stillPath: episode.stillPath,
+    airDate: episode.airDate || '',
+    runtime: episode.runtime,
+    voteAverage: episode.voteAverage,
+    voteCount: episode.voteCount,
+  };
+}
+
+/** Transform Cloudflare season details to SeasonDetails */
+function transformSeasonDetails(season: CFSeasonDetails): SeasonDetails {
+  return {
+    id: season.id,
+    seasonNumber: season.seasonNumber,
+    name: season.name,
+    overview: season.overview,
+    posterPath: season.posterPath,
+    airDate: season.airDate || '',
+    episodes: season.episodes.map(transformEpisode),
+  };
+}
+
+/** Transform Cloudflare person details to PersonDetails */
+function transformPersonDetails(person: CFPersonDetails): PersonDetails {
+  return {
+    id: person.id,
+    name: person.name,
+    biography: person.biography || '',
+    profilePath: person.profilePath,
+    knownForDepartment: person.knownForDepartment || 'Acting',
+    birthday: person.birthday,
+    deathday: person.deathday,
+    placeOfBirth: person.placeOfBirth,
+    imdbId: person.imdbId,
+  };
+}
+
+/** Transform Cloudflare person credit to PersonCredit */
+function transformPersonCredit(credit: CFPersonCredit, department: string): PersonCredit {
+  return {
+    id: credit.id,
+    title: credit.title,
+    originalTitle: credit.title,
+    posterPath: credit.posterPath,
+    backdropPath: credit.backdropPath,
+    overview: credit.overview,
+    releaseDate: credit.releaseDate || '',
+    voteAverage: credit.voteAverage,
+    voteCount: credit.voteCount,
+    mediaType: credit.mediaType,
+    genreIds: credit.genreIds,
+    creditId: credit.creditId,
+    character: credit.character || null,
+    job: credit.job || null,
+    department: credit.department || department,
+  };
+}
+
 /** Transform Cloudflare cast to CastMember */
 function transformCast(
   credits: { cast: { id: number; name: string; character: string; profilePath: string | null }[] } | null
@@ -139,6 +216,21 @@ function transformCast(
   }));
 }
 
+/** Cloudflare list endpoint for each curated list kind */
+const MOVIE_LISTS: Record<CuratedListKind, (page: number) => ReturnType<typeof cf.getPopularMovies>> = {
+  popular: cf.getPopularMovies,
+  top_rated: cf.getTopRatedMovies,
+  now_playing: cf.getNowPlayingMovies,
+  upcoming: cf.getUpcomingMovies,
+};
+
+const TV_LISTS: Record<CuratedListKind, (page: number) => ReturnType<typeof cf.getPopularTVShows>> = {
+  popular: cf.getPopularTVShows,
+  top_rated: cf.getTopRatedTVShows,
+  now_playing: cf.getAiringTodayTVShows,
+  upcoming: cf.getOnTheAirTVShows,
+};
+
 // ============================================================================
 // Adapter Implementation
 // ============================================================================
@@ -194,6 +286,9 @@ export const cloudflareAdapter: MediaApiAdapter = {
 
   async getMovieDetails(movieId: number): Promise<MediaDetails> {
     const details = await cf.getMovieDetails(movieId);
+    if (details.imdbId) {
+      rememberExternalIds('movie', { tmdbId: details.id, imdbId: details.imdbId });
+    }
     return transformMovieDetails(details);
   },
 
@@ -240,6 +335,37 @@ export const cloudflareAdapter: MediaApiAdapter = {
     return transformCast(details.credits);
   },
 
+  async getSeasonDetails(tvId: number, seasonNumber: number): Promise<SeasonDetails> {
+    const season = await cf.getSeasonDetails(tvId, seasonNumber);
+    return transformSeasonDetails(season);
+  },
+
+  async getEpisodeDetails(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number
+  ): Promise<EpisodeDetails> {
+    const episode = await cf.getEpisodeDetails(tvId, seasonNumber, episodeNumber);
+    // Cloudflare API doesn't return episode credits
+    return { ...transformEpisode(episode), crew: [], guestStars: [] };
+  },
+
+  async getPersonDetails(personId: number): Promise<PersonDetails> {
+    const person = await cf.getPersonDetails(personId);
+    return transformPersonDetails(person);
+  },
+
+  async getPersonCredits(personId: number): Promise<PersonCredit[]> {
+    // Credits are included in person details with append=credits
+    const person = await cf.getPersonDetails(personId, 'credits');
+    if (!person.credits) return [];
+
+    return [
+      ...person.credits.cast.map((c) => transformPersonCredit(c, 'Acting')),
+      ...person.credits.crew.map((c) => transformPersonCredit(c, 'Crew')),
+    ];
+  },
+
   async getWatchProviders(
     _mediaType: 'movie' | 'tv',
     _mediaId: number,
@@ -273,6 +399,28 @@ export const cloudflareAdapter: MediaApiAdapter = {
     };
   },
 
+  async getCuratedList(
+    listKind: CuratedListKind,
+    mediaType: 'movie' | 'tv',
+    page: number
+  ): Promise<PaginatedResponse<MediaItem>> {
+    if (mediaType === 'movie') {
+      const result = await MOVIE_LISTS[listKind](page);
+      return {
+        items: result.data.map((m) => transformMovieResult(m)),
+        totalPages: result.totalPages,
+        totalResults: result.totalResults,
+      };
+    }
+
+    const result = await TV_LISTS[listKind](page);
+    return {
+      items: result.data.map((t) => transformTVResult(t)),
+      totalPages: result.totalPages,
+      totalResults: result.totalResults,
+    };
+  },
+
   async discoverByCountry(
     mediaType: 'movie' | 'tv',
     countryCode: string,
@@ -344,4 +492,22 @@ export const cloudflareAdapter: MediaApiAdapter = {
     if (path.startsWith('http')) return path;
     return `${API_BASE_URLS.TMDB_IMAGES}/${size}${path}`;
   },
+
+  async getExternalIds(mediaType: 'movie' | 'tv', mediaId: number): Promise<ExternalIds> {
+    // Only movie details carry an IMDb ID
+    if (mediaType === 'tv') {
+      return { imdbId: null, tmdbId: mediaId, omdbId: null };
+    }
+
+    const details = await cf.getMovieDetails(mediaId);
+    if (details.imdbId) {
+      rememberExternalIds('movie', { tmdbId: mediaId, imdbId: details.imdbId });
+    }
+    return { imdbId: details.imdbId, tmdbId: mediaId, omdbId: null };
+  },
+
+  async findByImdbId(_mediaType: 'movie' | 'tv', _imdbId: string): Promise<number | null> {
+    // The worker has no lookup by external ID
+    return null;
+  },
 };
@@ -0,0 +1,303 @@
+/**
+ * Fallback (Composite) API Adapter
+ * Chains several MediaApiAdapter implementations behind a single adapter.
+ * Each call is routed to the first healthy provider; retryable provider
+ * failures mark that provider unhealthy for a cooldown and fall through
+ * to the next one in the chain.
+ *
+ * Only providers sharing the first provider's ID space are chained: an ID
+ * issued by TMDB means a different title (or nothing) to OMDb.
+ *
+ * Configured via EXPO_PUBLIC_API_PROVIDER, e.g. `cloudflare,tmdb,mock`
+ */
+
+import type { MediaApiAdapter } from '../types';
+import type { MediaIdSpace } from '@/types/media';
+import { ApiError, QuotaExceededError } from '../http';
+import { getProviderIdSpace } from '../id-mapping';
+import { API_FALLBACK_CONFIG } from '@/constants/api';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Adapter methods that hit the network and can fall through */
+export type AdapterMethod = Exclude<keyof MediaApiAdapter, 'getImageUrl'>;
+
+/** A named provider in the fallback chain */
+export interface FallbackProvider {
+  name: string;
+  adapter: MediaApiAdapter;
+  /** ID space of the IDs the provider issues and accepts (derived from the name by default) */
+  idSpace?: MediaIdSpace;
+}
+
+/** Record of which provider served a call */
+export interface ProviderCallRecord {
+  method: AdapterMethod;
+  provider: string;
+  /** Providers that were tried and failed before this one */
+  failedProviders: string[];
+  servedAt: string;
+}
+
+/** Health snapshot for a single provider */
+export interface ProviderHealth {
+  healthy: boolean;
+  unhealthyUntil: number | null;
+  lastError: string | null;
+}
+
+/** Options for the fallback adapter */
+export interface FallbackAdapterOptions {
+  /** How long a failed provider is skipped (ms) */
+  cooldownMs?: number;
+  /** Called every time a provider successfully serves a call */
+  onProviderServed?: (record: ProviderCallRecord) => void;
+  /** Clock override for tests */
+  now?: () => number;
+}
+
+/** Composite adapter with provider introspection */
+export interface FallbackMediaApiAdapter extends MediaApiAdapter {
+  /** Name of the provider that last served the given method, if any */
+  getServedBy(method: AdapterMethod): string | null;
+  /** Current health of every provider in the chain */
+  getProviderHealth(): Record<string, ProviderHealth>;
+  /** Names of providers in chain order */
+  getProviderNames(): string[];
+  /** Mark every provider healthy again */
+  resetHealth(): void;
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Parse a provider chain such as `cloudflare, tmdb,mock` into ordered provider names
+ * Names are lower-cased and duplicates are dropped, keeping the first occurrence
+ */
+export function parseProviderChain(value: string): string[] {
+  const providers = value
+    .split(API_FALLBACK_CONFIG.PROVIDER_SEPARATOR)
+    .map(p => p.trim().toLowerCase())
+    .filter(p => p.length > 0);
+
+  return providers.filter((p, index) => providers.indexOf(p) === index);
+}
+
+// ============================================================================
+// Error Classification
+// ============================================================================
+
+/**
+ * Determine whether an error should cause the chain to try the next provider.
+ * Only retryable provider errors (5xx, 429, timeouts, network) fall through;
+ * 4xx errors such as "not found" are real answers and are re-thrown.
+ */
+export function isProviderFailover(error: unknown): boolean {
+  // Covers every provider error class (TMDBApiError, CloudflareApiError, OMDbError)
+  if (error instanceof ApiError) {
+    // A used-up daily quota won't recover by retrying, but the next provider can serve the call
+    return error.isRetryable || error instanceof QuotaExceededError;
+  }
+  // Raw network failures from fetch
+  if (error instanceof TypeError) {
+    return true;
+  }
+  return false;
+}
+
+// ============================================================================
+// Image Paths
+// ============================================================================
+
+/** Fields of returned items that hold provider-specific image paths */
+const IMAGE_PATH_FIELDS = ['posterPath', 'backdropPath', 'profilePath', 'stillPath', 'logoPath'];
+
+/**
+ * Collect the image paths in a provider response
+ */
+function collectImagePaths(value: unknown, paths: string[] = []): string[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectImagePaths(item, paths));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value).forEach(([key, field]) => {
+      if (IMAGE_PATH_FIELDS.includes(key)) {
+        if (typeof field === 'string' && field.length > 0) paths.push(field);
+      } else if (field && typeof field === 'object') {
+        collectImagePaths(field, paths);
+      }
+    });
+  }
+  return paths;
+}
+
+// ============================================================================
+// Adapter Factory
+// ============================================================================
+
+/**
+ * Create a composite adapter that routes calls through an ordered provider chain
+ * @param providers - Providers in priority order (must not be empty)
+ * @param options - Cooldown and instrumentation options
+ */
+export function createFallbackAdapter(
+  chain: FallbackProvider[],
+  options: FallbackAdapterOptions = {}
+): FallbackMediaApiAdapter {
+  if (chain.length === 0) {
+    throw new Error('Fallback adapter requires at least one provider');
+  }
+
+  const idSpaceOf = (provider: FallbackProvider) => provider.idSpace ?? getProviderIdSpace(provider.name);
+  const idSpace = idSpaceOf(chain[0]);
+  const providers = chain.filter(p => idSpaceOf(p) === idSpace);
+  const skipped = chain.filter(p => idSpaceOf(p) !== idSpace);
+  if (skipped.length > 0) {
+    console.warn(
+      `[API] Not chaining ${skipped.map(p => `"${p.name}"`).join(', ')}: ` +
+      `${idSpace} IDs from "${chain[0].name}" mean other titles in their ID space`
+    );
+  }
+
+  const cooldownMs = options.cooldownMs ?? API_FALLBACK_CONFIG.UNHEALTHY_COOLDOWN_MS;
+  const now = options.now ?? Date.now;
+
+  const unhealthyUntil = new Map<string, number>();
+  const lastErrors = new Map<string, string>();
+  const servedBy = new Map<AdapterMethod, string>();
+  // Provider that returned each image path, so paths resolve against the right image host
+  const imagePathProviders = new Map<string, FallbackProvider>();
+
+  function rememberImagePaths(result: unknown, provider: FallbackProvider): void {
+    collectImagePaths(result).forEach(path => {
+      imagePathProviders.delete(path);
+      imagePathProviders.set(path, provider);
+    });
+    // Drop the oldest paths beyond the limit (Maps iterate in insertion order)
+    for (const path of imagePathProviders.keys()) {
+      if (imagePathProviders.size <= API_FALLBACK_CONFIG.MAX_TRACKED_IMAGE_PATHS) break;
+      imagePathProviders.delete(path);
+    }
+  }
+
+  function isHealthy(name: string): boolean {
+    const until = unhealthyUntil.get(name);
+    return until === undefined || until <= now();
+  }
+
+  /** Healthy providers first (in order), then unhealthy ones as a last resort */
+  function orderedCandidates(): FallbackProvider[] {
+    const healthy = providers.filter(p => isHealthy(p.name));
+    const unhealthy = providers.filter(p => !isHealthy(p.name));
+    return [...healthy, ...unhealthy];
+  }
+
+  async function invoke<M extends AdapterMethod>(
+    method: M,
+    args: Parameters<MediaApiAdapter[M]>
+  ): Promise<Awaited<ReturnType<MediaApiAdapter[M]>>> {
+    const candidates = orderedCandidates();
+    const failedProviders: string[] = [];
+    let lastError: unknown = null;
+
+    for (let i = 0; i < candidates.length; i++) {
+      const provider = candidates[i];
+      const fn = provider.adapter[method] as unknown as (
+        ...fnArgs: Parameters<MediaApiAdapter[M]>
+      ) => Promise<Awaited<ReturnType<MediaApiAdapter[M]>>>;
+
+      try {
+        const result = await fn.apply(provider.adapter, args);
+
+        unhealthyUntil.delete(provider.name);
+        servedBy.set(method, provider.name);
+        rememberImagePaths(result, provider);
+        options.onProviderServed?.({
+          method,
+          provider: provider.name,
+          failedProviders,
+          servedAt: new Date(now()).toISOString(),
+        });
+
+        return result;
+      } catch (error) {
+        lastError = error;
+
+        if (!isProviderFailover(error)) {
+          throw error;
+        }
+
+        unhealthyUntil.set(provider.name, now() + cooldownMs);
+        lastErrors.set(provider.name, error instanceof Error ? error.message : String(error));
+        failedProviders.push(provider.name);
+
+        if (i < candidates.length - 1) {
+          console.warn(
+            `[API] ${method} failed on "${provider.name}", falling back to "${candidates[i + 1].name}"`
+          );
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  return {
+    getTrending: (...args) => invoke('getTrending', args),
+    getMovieDetails: (...args) => invoke('getMovieDetails', args),
+    getTvDetails: (...args) => invoke('getTvDetails', args),
+    searchMulti: (...args) => invoke('searchMulti', args),
+    getMovieCredits: (...args) => invoke('getMovieCredits', args),
+    getTvCredits: (...args) => invoke('getTvCredits', args),
+    getSeasonDetails: (...args) => invoke('getSeasonDetails', args),
+    getEpisodeDetails: (...args) => invoke('getEpisodeDetails', args),
+    getPersonDetails: (...args) => invoke('getPersonDetails', args),
+    getPersonCredits: (...args) => invoke('getPersonCredits', args),
+    getWatchProviders: (...args) => invoke('getWatchProviders', args),
+    getRecommendations: (...args) => invoke('getRecommendations', args),
+    getCuratedList: (...args) => invoke('getCuratedList', args),
+    discoverByCountry: (...args) => invoke('discoverByCountry', args),
+    getTrailerKey: (...args) => invoke('getTrailerKey', args),
+    getExternalIds: (...args) => invoke('getExternalIds', args),
+    findByImdbId: (...args) => invoke('findByImdbId', args),
+
+    // Image paths are provider-specific, so resolve them with the provider that
+    // returned them; paths from earlier sessions (stored items) use the primary provider
+    getImageUrl(path: string | null, size?: string): string | null {
+      const provider = (path && imagePathProviders.get(path)) || providers[0];
+      return provider.adapter.getImageUrl(path, size);
+    },
+
+    getServedBy(method) {
+      return servedBy.get(method) ?? null;
+    },
+
+    getProviderHealth() {
+      return Object.fromEntries(
+        providers.map(p => {
+          const healthy = isHealthy(p.name);
+          return [
+            p.name,
+            {
+              healthy,
+              unhealthyUntil: healthy ? null : unhealthyUntil.get(p.name) ?? null,
+              lastError: lastErrors.get(p.name) ?? null,
+            },
+          ];
+        })
+      );
+    },
+
+    getProviderNames() {
+      return providers.map(p => p.name);
+    },
+
+    resetHealth() {
+      unhealthyUntil.clear();
+      lastErrors.clear();
+    },
+  };
+}
@@ -7,3 +7,4 @@ export { tmdbAdapter } from './tmdb-adapter';
 export { mockAdapter } from './mock-adapter';
 export { omdbAdapter } from './omdb-adapter';
 export { cloudflareAdapter } from './cloudflare-adapter';
+export { createFallbackAdapter, isProviderFailover, parseProviderChain } from './fallback-adapter';
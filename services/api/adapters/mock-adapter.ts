@@ -3,13 +3,18 @@
  * Returns static mock data for development/testing when API is unavailable
  */
 
-import type { MediaApiAdapter, PaginatedResponse } from '../types';
+import type { MediaApiAdapter, PaginatedResponse, CuratedListKind } from '../types';
 import type {
   TrendingItem,
   MediaDetails,
   CastMember,
   StreamingProvider,
   MediaItem,
+  ExternalIds,
+  SeasonDetails,
+  EpisodeDetails,
+  PersonDetails,
+  PersonCredit,
 } from '@/types/media';
 import type { SearchResults } from '@/types/user';
 import { ANIMATION_DURATION } from '@/constants/animations';
@@ -21,7 +26,12 @@ import {
   MOCK_TV_DETAILS,
   MOCK_CAST,
   MOCK_PROVIDERS,
+  MOCK_EPISODE_CREW,
+  MOCK_GUEST_STARS,
   getMockSearchResults,
+  getMockSeasonDetails,
+  getMockPersonDetails,
+  getMockPersonCredits,
 } from '@/constants/mock-data';
 
 /** Simulated network delay for realistic behavior */
@@ -31,6 +41,17 @@ function delay(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
+/**
+ * Ordering of the mock catalogue for each curated list
+ * Mock data has no release calendar, so date order stands in for now playing/upcoming
+ */
+const MOCK_LIST_ORDER: Record<CuratedListKind, (a: MediaItem, b: MediaItem) => number> = {
+  popular: (a, b) => b.voteCount - a.voteCount,
+  top_rated: (a, b) => (b.voteAverage ?? 0) - (a.voteAverage ?? 0),
+  now_playing: (a, b) => b.releaseDate.localeCompare(a.releaseDate),
+  upcoming: (a, b) => a.releaseDate.localeCompare(b.releaseDate),
+};
+
 export const mockAdapter: MediaApiAdapter = {
   async getTrending(
     mediaType: 'all' | 'movie' | 'tv',
@@ -132,6 +153,41 @@ export const mockAdapter: MediaApiAdapter = {
     return MOCK_CAST;
   },
 
+  async getSeasonDetails(tvId: number, seasonNumber: number): Promise<SeasonDetails> {
+    const show = await mockAdapter.getTvDetails(tvId);
+    if (seasonNumber < 1 || seasonNumber > (show.numberOfSeasons ?? 1)) {
+      throw new Error(`Season ${seasonNumber} of TV show ${tvId} not found`);
+    }
+    return getMockSeasonDetails(show, seasonNumber);
+  },
+
+  async getEpisodeDetails(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number
+  ): Promise<EpisodeDetails> {
+    const season = await mockAdapter.getSeasonDetails(tvId, seasonNumber);
+    const episode = season.episodes.find(e => e.episodeNumber === episodeNumber);
+    if (!episode) {
+      throw new Error(`Episode ${episodeNumber} of season ${seasonNumber} of TV show ${tvId} not found`);
+    }
+    return { ...episode, crew: MOCK_EPISODE_CREW, guestStars: MOCK_GUEST_STARS };
+  },
+
+  async getPersonDetails(personId: number): Promise<PersonDetails> {
+    await delay(MOCK_DELAY_MS);
+
+    const person = getMockPersonDetails(personId);
+    if (person) return person;
+
+    throw new Error(`Person ${personId} not found`);
+  },
+
+  async getPersonCredits(personId: number): Promise<PersonCredit[]> {
+    await delay(MOCK_DELAY_MS);
+    return getMockPersonCredits(personId);
+  },
+
   async getWatchProviders(
     _mediaType: 'movie' | 'tv',
     _mediaId: number,
@@ -156,6 +212,22 @@ export const mockAdapter: MediaApiAdapter = {
     };
   },
 
+  async getCuratedList(
+    listKind: CuratedListKind,
+    mediaType: 'movie' | 'tv',
+    _page: number
+  ): Promise<PaginatedResponse<MediaItem>> {
+    await delay(MOCK_DELAY_MS);
+
+    const source = mediaType === 'movie' ? MOCK_TRENDING_MOVIES : MOCK_TRENDING_TV;
+    const items = [...source].sort(MOCK_LIST_ORDER[listKind]);
+    return {
+      items,
+      totalPages: 1,
+      totalResults: items.length,
+    };
+  },
+
   async discoverByCountry(
     mediaType: 'movie' | 'tv',
     _countryCode: string,
@@ -186,4 +258,15 @@ export const mockAdapter: MediaApiAdapter = {
     // Return a data URI or the path will be handled by the component
     return 'placeholder';
   },
+
+  async getExternalIds(_mediaType: 'movie' | 'tv', mediaId: number): Promise<ExternalIds> {
+    await delay(MOCK_DELAY_MS);
+    // Mock data uses TMDB IDs but carries no IMDb IDs
+    return { imdbId: null, tmdbId: mediaId, omdbId: null };
+  },
+
+  async findByImdbId(_mediaType: 'movie' | 'tv', _imdbId: string): Promise<number | null> {
+    await delay(MOCK_DELAY_MS);
+    return null;
+  },
 };
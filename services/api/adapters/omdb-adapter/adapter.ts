@@ -8,9 +8,13 @@ import { getTrending } from './trending';
 import { getMovieDetails, getTvDetails } from './details';
 import { searchMulti } from './search';
 import { getMovieCredits, getTvCredits } from './credits';
+import { getSeasonDetails, getEpisodeDetails } from './seasons';
+import { getPersonDetails, getPersonCredits } from './people';
 import { getWatchProviders } from './streaming';
 import { getRecommendations, discoverByCountry, getTrailerKey } from './recommendations';
+import { getCuratedList } from './curated';
 import { getImageUrl } from './images';
+import { getExternalIds, findByImdbId } from './external-ids';
 
 export const omdbAdapter: MediaApiAdapter = {
   getTrending,
@@ -19,9 +23,16 @@ export const omdbAdapter: MediaApiAdapter = {
   searchMulti,
   getMovieCredits,
   getTvCredits,
+  getSeasonDetails,
+  getEpisodeDetails,
+  getPersonDetails,
+  getPersonCredits,
   getWatchProviders,
   getRecommendations,
+  getCuratedList,
   discoverByCountry,
   getTrailerKey,
   getImageUrl,
+  getExternalIds,
+  findByImdbId,
 };
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import { COUNTRIES, getSearchTerms, type CountryCode } from '@/constants/countries';
+import type { CuratedListKind } from '../../types';
 
 /**
  * Popular search terms used as fallback for trending content
@@ -15,6 +16,25 @@ export const POPULAR_SEARCH_TERMS = {
   all: ['movie', 'series', 'action', 'drama', 'comedy'],
 };
 
+/**
+ * Search terms and release year offsets used to approximate curated lists
+ * OMDb has no ranked lists, so now playing/upcoming filter by this year and next
+ */
+export const CURATED_LIST_FALLBACKS: Record<
+  CuratedListKind,
+  { terms: Record<'movie' | 'tv', string[]>; yearOffset?: number }
+> = {
+  popular: { terms: { movie: POPULAR_SEARCH_TERMS.movie, tv: POPULAR_SEARCH_TERMS.tv } },
+  top_rated: {
+    terms: {
+      movie: ['classic', 'masterpiece', 'story', 'legend'],
+      tv: ['saga', 'chronicles', 'story', 'legend'],
+    },
+  },
+  now_playing: { terms: { movie: POPULAR_SEARCH_TERMS.movie, tv: POPULAR_SEARCH_TERMS.tv }, yearOffset: 0 },
+  upcoming: { terms: { movie: POPULAR_SEARCH_TERMS.movie, tv: POPULAR_SEARCH_TERMS.tv }, yearOffset: 1 },
+};
+
 /**
  * Country-specific search terms for discover by country fallback
  * Uses centralized country config with additional fallback countries
@@ -28,4 +48,9 @@ export const COUNTRY_SEARCH_TERMS: Record<string, string[]> = {
   FR: ['french', 'france'],
   KR: ['korean', 'korea'],
   GB: ['british', 'uk'],
-};
\ No newline at end of file
+};
+/**
+ * Number of name search results checked for a person's credits
+ * Each one costs a detail request against the daily quota
+ */
+export const PERSON_SEARCH_DETAIL_LIMIT = 5;
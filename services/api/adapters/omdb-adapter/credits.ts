@@ -4,9 +4,10 @@
  */
 
 import type { CastMember } from '@/types/media';
-import { getDetailsByImdbId, getImdbIdFromNumeric } from '../../omdb';
+import { getDetailsByImdbId } from '../../omdb';
 import { getCastMembers } from '../../omdb-mappers';
-import { handleAdapterError } from './utils';
+import { handleAdapterError, resolveImdbId } from './utils';
+import { rememberPeople } from './people';
 
 /**
  * Get movie cast/credits
@@ -15,14 +16,15 @@ import { handleAdapterError } from './utils';
  */
 export async function getMovieCredits(movieId: number): Promise<CastMember[]> {
   try {
-    const imdbId = getImdbIdFromNumeric(movieId);
+    const imdbId = await resolveImdbId(movieId, 'movie');
     
     if (!imdbId) {
       console.warn(`[OMDb Adapter] Cannot get credits for movie ${movieId}: IMDb ID not found`);
       return [];
     }
     
-    const details = await getDetailsByImdbId({ imdbId, plot: 'short' });
+    const details = await getDetailsByImdbId({ imdbId, plot: 'short', priority: 'high' });
+    rememberPeople(details);
     return getCastMembers(details);
   } catch (error) {
     return handleAdapterError(error, 'getMovieCredits', []);
@@ -36,14 +38,15 @@ export async function getMovieCredits(movieId: number): Promise<CastMember[]> {
  */
 export async function getTvCredits(tvId: number): Promise<CastMember[]> {
   try {
-    const imdbId = getImdbIdFromNumeric(tvId);
+    const imdbId = await resolveImdbId(tvId, 'tv');
     
     if (!imdbId) {
       console.warn(`[OMDb Adapter] Cannot get credits for TV ${tvId}: IMDb ID not found`);
       return [];
     }
     
-    const details = await getDetailsByImdbId({ imdbId, plot: 'short' });
+    const details = await getDetailsByImdbId({ imdbId, plot: 'short', priority: 'high' });
+    rememberPeople(details);
     return getCastMembers(details);
   } catch (error) {
     return handleAdapterError(error, 'getTvCredits', []);
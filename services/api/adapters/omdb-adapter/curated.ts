@@ -0,0 +1,51 @@
+/**
+ * OMDb Adapter - Curated List Methods
+ * Approximates popular/top rated/now playing/upcoming lists with searches
+ */
+
+import type { PaginatedResponse, CuratedListKind } from '../../types';
+import type { MediaItem } from '@/types/media';
+import { searchContent, type OMDbSearchType } from '../../omdb';
+import { mapOMDbToMediaItem } from '../../omdb-mappers';
+import { CURATED_LIST_FALLBACKS } from './constants';
+import { logFallbackUsage, handleAdapterError } from './utils';
+
+/**
+ * Get a curated list
+ * Fallback: Uses list-specific search terms, filtered by release year for
+ * now playing and upcoming, since OMDb doesn't have list endpoints
+ */
+export async function getCuratedList(
+  listKind: CuratedListKind,
+  mediaType: 'movie' | 'tv',
+  page: number
+): Promise<PaginatedResponse<MediaItem>> {
+  logFallbackUsage('getCuratedList', `${listKind} search terms`);
+
+  const { terms, yearOffset } = CURATED_LIST_FALLBACKS[listKind];
+  const searchTerms = terms[mediaType];
+  const searchTerm = searchTerms[(page - 1) % searchTerms.length];
+  const omdbType: OMDbSearchType = mediaType === 'tv' ? 'series' : 'movie';
+
+  try {
+    const results = await searchContent({
+      query: searchTerm,
+      page: Math.ceil(page / searchTerms.length) || 1,
+      type: omdbType,
+      year: yearOffset === undefined ? undefined : new Date().getFullYear() + yearOffset,
+      priority: 'low',
+    });
+
+    return {
+      items: results.items.map(mapOMDbToMediaItem),
+      totalPages: Math.min(results.totalPages, 10),
+      totalResults: results.totalResults,
+    };
+  } catch (error) {
+    return handleAdapterError(error, 'getCuratedList', {
+      items: [],
+      totalPages: 0,
+      totalResults: 0,
+    });
+  }
+}
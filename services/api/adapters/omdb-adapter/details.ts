@@ -4,9 +4,9 @@
  */
 
 import type { MediaDetails } from '@/types/media';
-import { getDetailsByImdbId, getImdbIdFromNumeric } from '../../omdb';
+import { getDetailsByImdbId } from '../../omdb';
 import { mapOMDbToMediaDetails } from '../../omdb-mappers';
-import { handleAdapterError } from './utils';
+import { handleAdapterError, resolveImdbId } from './utils';
 
 /**
  * Get movie details by ID
@@ -15,11 +15,10 @@ import { handleAdapterError } from './utils';
  */
 export async function getMovieDetails(movieId: number): Promise<MediaDetails> {
   try {
-    // Try to get IMDb ID from cache
-    const imdbId = getImdbIdFromNumeric(movieId);
+    const imdbId = await resolveImdbId(movieId, 'movie');
     
     if (imdbId) {
-      const details = await getDetailsByImdbId({ imdbId, plot: 'full' });
+      const details = await getDetailsByImdbId({ imdbId, plot: 'full', priority: 'high' });
       return mapOMDbToMediaDetails(details);
     }
     
@@ -38,11 +37,10 @@ export async function getMovieDetails(movieId: number): Promise<MediaDetails> {
  */
 export async function getTvDetails(tvId: number): Promise<MediaDetails> {
   try {
-    // Try to get IMDb ID from cache
-    const imdbId = getImdbIdFromNumeric(tvId);
+    const imdbId = await resolveImdbId(tvId, 'tv');
     
     if (imdbId) {
-      const details = await getDetailsByImdbId({ imdbId, plot: 'full' });
+      const details = await getDetailsByImdbId({ imdbId, plot: 'full', priority: 'high' });
       return mapOMDbToMediaDetails(details);
     }
     
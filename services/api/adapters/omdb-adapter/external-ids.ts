@@ -0,0 +1,47 @@
+/**
+ * OMDb Adapter - External ID Methods
+ * Translates between OMDb's numeric IDs and IMDb IDs
+ */
+
+import type { ExternalIds } from '@/types/media';
+import { generateNumericId } from '../../omdb';
+import { lookupExternalIds, rememberExternalIds } from '../../id-mapping';
+import { resolveImdbId } from './utils';
+
+/** IMDb title IDs look like tt0133093 */
+const IMDB_ID_PATTERN = /^tt\d+$/;
+
+/**
+ * Get external IDs for an OMDb numeric ID
+ * The IMDb ID comes from this session's cache or the persistent registry
+ */
+export async function getExternalIds(
+  mediaType: 'movie' | 'tv',
+  mediaId: number
+): Promise<ExternalIds> {
+  const imdbId = await resolveImdbId(mediaId, mediaType);
+  const known = await lookupExternalIds('omdb', mediaType, mediaId);
+
+  return {
+    imdbId,
+    tmdbId: known?.tmdbId ?? null,
+    omdbId: mediaId,
+  };
+}
+
+/**
+ * Find the OMDb numeric ID for an IMDb ID
+ * OMDb IDs are derived from IMDb IDs, so no request is needed
+ */
+export async function findByImdbId(
+  mediaType: 'movie' | 'tv',
+  imdbId: string
+): Promise<number | null> {
+  if (!IMDB_ID_PATTERN.test(imdbId)) {
+    return null;
+  }
+
+  const omdbId = generateNumericId(imdbId);
+  rememberExternalIds(mediaType, { imdbId, omdbId });
+  return omdbId;
+}
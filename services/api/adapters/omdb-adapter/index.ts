@@ -12,6 +12,10 @@ export * from './trending';
 export * from './details';
 export * from './search';
 export * from './credits';
+export * from './seasons';
+export * from './people';
 export * from './streaming';
 export * from './recommendations';
-export * from './images';
\ No newline at end of file
+export * from './curated';
+export * from './images';
+export * from './external-ids';
\ No newline at end of file
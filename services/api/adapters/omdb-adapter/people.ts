@@ -0,0 +1,131 @@
+/**
+ * OMDb Adapter - Person Methods
+ * OMDb has no people endpoints; people are known by name from the actor,
+ * director and writer lists of titles opened this session, with IDs hashed
+ * from their names (see generateCastMemberId)
+ */
+
+import type { MediaItem, PersonDetails, PersonCredit } from '@/types/media';
+import { searchContent, getDetailsByImdbId, type OMDbDetailResponse } from '../../omdb';
+import {
+  mapOMDbToMediaItem,
+  parseCastString,
+  parseDirectors,
+  parseWriters,
+} from '../../omdb-mappers';
+import { PERSON_SEARCH_DETAIL_LIMIT } from './constants';
+import { logFallbackUsage, handleAdapterError } from './utils';
+
+/** A person seen in credit lists, with the titles crediting them */
+interface KnownPerson {
+  name: string;
+  department: string;
+  credits: Map<string, PersonCredit>;
+}
+
+const knownPeople = new Map<number, KnownPerson>();
+
+/**
+ * Remember the actors, directors and writers credited in a detail response
+ * Episode responses only register names; their credits belong to the series
+ */
+export function rememberPeople(details: OMDbDetailResponse): void {
+  const people = [
+    ...parseCastString(details.Actors).map(p => ({ ...p, job: null, department: 'Acting' })),
+    ...parseDirectors(details.Director),
+    ...parseWriters(details.Writer),
+  ];
+  if (people.length === 0) return;
+
+  const item: MediaItem | null =
+    details.Type !== 'episode' && details.imdbID ? mapOMDbToMediaItem(details) : null;
+
+  people.forEach(person => {
+    let known = knownPeople.get(person.id);
+    if (!known) {
+      known = { name: person.name, department: person.department, credits: new Map() };
+      knownPeople.set(person.id, known);
+    }
+    if (!item) return;
+
+    const creditId = `${details.imdbID}-${person.job ?? 'cast'}`;
+    known.credits.set(creditId, {
+      ...item,
+      creditId,
+      // OMDb doesn't provide character names
+      character: null,
+      job: person.job,
+      department: person.department,
+    });
+  });
+}
+
+/**
+ * Forget every remembered person (used by tests)
+ */
+export function clearKnownPeople(): void {
+  knownPeople.clear();
+}
+
+/**
+ * Get a person's details
+ * Fallback: Only the name and department are known; OMDb has no biographies
+ */
+export async function getPersonDetails(personId: number): Promise<PersonDetails> {
+  try {
+    const person = knownPeople.get(personId);
+
+    if (!person) {
+      throw new Error(`Cannot resolve person ID ${personId}. A title crediting them must be opened first.`);
+    }
+
+    logFallbackUsage('getPersonDetails', 'names from credit lists');
+    return {
+      id: personId,
+      name: person.name,
+      biography: '',
+      profilePath: null,
+      knownForDepartment: person.department,
+      birthday: null,
+      deathday: null,
+      placeOfBirth: null,
+      imdbId: null,
+    };
+  } catch (error) {
+    return handleAdapterError(error, 'getPersonDetails');
+  }
+}
+
+/**
+ * Get a person's credits
+ * Fallback: Searches titles by the person's name and keeps the ones whose
+ * credit lists include them, alongside titles already seen crediting them
+ */
+export async function getPersonCredits(personId: number): Promise<PersonCredit[]> {
+  const person = knownPeople.get(personId);
+  if (!person) {
+    return [];
+  }
+
+  logFallbackUsage('getPersonCredits', 'name search');
+
+  try {
+    const results = await searchContent({ query: person.name, priority: 'low' });
+    const candidates = results.items
+      .filter(item => item.Type !== 'episode')
+      .slice(0, PERSON_SEARCH_DETAIL_LIMIT);
+
+    const details = await Promise.all(
+      candidates.map(item =>
+        getDetailsByImdbId({ imdbId: item.imdbID, plot: 'short', priority: 'low' }).catch(() => null)
+      )
+    );
+    details.forEach(detail => {
+      if (detail) rememberPeople(detail);
+    });
+  } catch (error) {
+    handleAdapterError(error, 'getPersonCredits');
+  }
+
+  return [...person.credits.values()];
+}
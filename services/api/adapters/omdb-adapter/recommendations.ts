@@ -5,10 +5,10 @@
 
 import type { PaginatedResponse } from '../../types';
 import type { MediaItem, TrendingItem } from '@/types/media';
-import { searchContent, getDetailsByImdbId, getImdbIdFromNumeric, type OMDbSearchType } from '../../omdb';
+import { searchContent, getDetailsByImdbId, type OMDbSearchType } from '../../omdb';
 import { mapOMDbToMediaItem } from '../../omdb-mappers';
 import { COUNTRY_SEARCH_TERMS } from './constants';
-import { logFallbackUsage, handleAdapterError, toTrendingItem } from './utils';
+import { logFallbackUsage, handleAdapterError, toTrendingItem, resolveImdbId } from './utils';
 
 /**
  * Get recommendations
@@ -25,11 +25,11 @@ export async function getRecommendations(
   
   try {
     // Try to get the original item's details for genre-based search
-    const imdbId = getImdbIdFromNumeric(mediaId);
+    const imdbId = await resolveImdbId(mediaId, mediaType);
     
     if (imdbId) {
       try {
-        const details = await getDetailsByImdbId({ imdbId, plot: 'short' });
+        const details = await getDetailsByImdbId({ imdbId, plot: 'short', priority: 'low' });
         
         // Use the first genre as search term
         if (details.Genre && details.Genre !== 'N/A') {
@@ -40,6 +40,7 @@ export async function getRecommendations(
             query: firstGenre,
             page,
             type: omdbType,
+            priority: 'low',
           });
           
           // Filter out the original item
@@ -64,6 +65,7 @@ export async function getRecommendations(
       query: searchTerm,
       page,
       type: mediaType === 'tv' ? 'series' : 'movie',
+      priority: 'low',
     });
     
     return {
@@ -111,6 +113,7 @@ export async function discoverByCountry(
       page: Math.ceil(page / searchTerms.length) || 1,
       type: omdbType,
       year: options.year,
+      priority: 'low',
     });
     
     const items = results.items.map((item, index) => {
@@ -0,0 +1,57 @@
+/**
+ * OMDb Adapter - Season and Episode Methods
+ * Handles season listings and episode details via `Season=` queries
+ */
+
+import type { SeasonDetails, EpisodeDetails } from '@/types/media';
+import { getSeason, getEpisode } from '../../omdb';
+import { mapOMDbSeasonToSeasonDetails, mapOMDbToEpisodeDetails } from '../../omdb-mappers';
+import { handleAdapterError, resolveImdbId } from './utils';
+import { rememberPeople } from './people';
+
+/**
+ * Get a TV season with its episode list
+ */
+export async function getSeasonDetails(tvId: number, seasonNumber: number): Promise<SeasonDetails> {
+  try {
+    const imdbId = await resolveImdbId(tvId, 'tv');
+
+    if (imdbId) {
+      const season = await getSeason({ imdbId, season: seasonNumber, priority: 'high' });
+      return mapOMDbSeasonToSeasonDetails(season, tvId);
+    }
+
+    throw new Error(`Cannot resolve TV ID ${tvId} to IMDb ID. Item must be fetched via search first.`);
+  } catch (error) {
+    return handleAdapterError(error, 'getSeasonDetails');
+  }
+}
+
+/**
+ * Get a single episode with crew and guest stars
+ */
+export async function getEpisodeDetails(
+  tvId: number,
+  seasonNumber: number,
+  episodeNumber: number
+): Promise<EpisodeDetails> {
+  try {
+    const imdbId = await resolveImdbId(tvId, 'tv');
+
+    if (imdbId) {
+      const episode = await getEpisode({
+        imdbId,
+        season: seasonNumber,
+        episode: episodeNumber,
+        plot: 'full',
+        priority: 'high',
+      });
+      rememberPeople(episode);
+      return mapOMDbToEpisodeDetails(episode);
+    }
+
+    throw new Error(`Cannot resolve TV ID ${tvId} to IMDb ID. Item must be fetched via search first.`);
+  } catch (error) {
+    return handleAdapterError(error, 'getEpisodeDetails');
+  }
+}
@@ -37,6 +37,7 @@ export async function getTrending(
       query: searchTerm,
       page: Math.ceil(page / searchTerms.length) || 1,
       type: omdbType,
+      priority: 'low',
     });
     
     const items = results.items.map((item, index) => {
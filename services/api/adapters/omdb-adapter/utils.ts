@@ -4,7 +4,9 @@
  */
 
 import type { MediaItem, TrendingItem } from '@/types/media';
-import { OMDbError, getImdbIdFromNumeric } from '../../omdb';
+import { getImdbIdFromNumeric } from '../../omdb';
+import { ApiError, isRateLimitError } from '../../http';
+import { lookupExternalIds } from '../../id-mapping';
 
 /**
  * Log when a fallback strategy is being used
@@ -18,7 +20,7 @@ export function logFallbackUsage(feature: string, strategy: string): void {
  * Handle errors gracefully and provide fallback responses
  */
 export function handleAdapterError(error: unknown, operation: string, fallbackValue: any = null): any {
-  if (error instanceof OMDbError) {
+  if (error instanceof ApiError) {
     // Log the error with context
     console.error(`[OMDb Adapter] ${operation} failed:`, {
       code: error.code,
@@ -36,7 +38,7 @@ export function handleAdapterError(error: unknown, operation: string, fallbackVa
       };
     }
     
-    if (error.code === 'RATE_LIMITED') {
+    if (isRateLimitError(error)) {
       // Return cached or empty response for rate limiting
       return fallbackValue || {
         items: [],
@@ -62,16 +64,15 @@ export function toTrendingItem(item: MediaItem, rank: number): TrendingItem {
 }
 
 /**
- * Get IMDb ID for a numeric ID, trying cache first then searching
+ * Get IMDb ID for a numeric ID, trying this session's cache first, then the
+ * persistent ID mapping registry (titles seen in earlier sessions)
  */
 export async function resolveImdbId(numericId: number, mediaType: 'movie' | 'tv'): Promise<string | null> {
-  // Try cache first
   const cachedId = getImdbIdFromNumeric(numericId);
   if (cachedId) {
     return cachedId;
   }
-  
-  // If not in cache, we can't resolve it without additional context
-  // This would require storing the mapping when items are first fetched
-  return null;
-}
\ No newline at end of file
+
+  const ids = await lookupExternalIds('omdb', mediaType, numericId);
+  return ids?.imdbId ?? null;
+}
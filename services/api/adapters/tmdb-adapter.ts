@@ -3,13 +3,18 @@
  * Wraps the existing TMDB API client to conform to the MediaApiAdapter interface
  */
 
-import type { MediaApiAdapter, PaginatedResponse } from '../types';
+import type { MediaApiAdapter, PaginatedResponse, CuratedListKind } from '../types';
 import type {
   TrendingItem,
   MediaDetails,
   CastMember,
   StreamingProvider,
   MediaItem,
+  ExternalIds,
+  SeasonDetails,
+  EpisodeDetails,
+  PersonDetails,
+  PersonCredit,
 } from '@/types/media';
 import type { SearchResults } from '@/types/user';
 import * as tmdb from '../tmdb';
@@ -43,6 +48,26 @@ export const tmdbAdapter: MediaApiAdapter = {
     return tmdb.getTvCredits(tvId);
   },
 
+  async getSeasonDetails(tvId: number, seasonNumber: number): Promise<SeasonDetails> {
+    return tmdb.getSeasonDetails(tvId, seasonNumber);
+  },
+
+  async getEpisodeDetails(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number
+  ): Promise<EpisodeDetails> {
+    return tmdb.getEpisodeDetails(tvId, seasonNumber, episodeNumber);
+  },
+
+  async getPersonDetails(personId: number): Promise<PersonDetails> {
+    return tmdb.getPersonDetails(personId);
+  },
+
+  async getPersonCredits(personId: number): Promise<PersonCredit[]> {
+    return tmdb.getPersonCredits(personId);
+  },
+
   async getWatchProviders(
     mediaType: 'movie' | 'tv',
     mediaId: number,
@@ -64,6 +89,14 @@ export const tmdbAdapter: MediaApiAdapter = {
     };
   },
 
+  async getCuratedList(
+    listKind: CuratedListKind,
+    mediaType: 'movie' | 'tv',
+    page: number
+  ): Promise<PaginatedResponse<MediaItem>> {
+    return tmdb.getCuratedList(listKind, mediaType, page);
+  },
+
   async discoverByCountry(
     mediaType: 'movie' | 'tv',
     countryCode: string,
@@ -84,4 +117,12 @@ export const tmdbAdapter: MediaApiAdapter = {
   getImageUrl(path: string | null, size?: string): string | null {
     return tmdb.getImageUrl(path, size);
   },
+
+  async getExternalIds(mediaType: 'movie' | 'tv', mediaId: number): Promise<ExternalIds> {
+    return tmdb.getExternalIds(mediaType, mediaId);
+  },
+
+  async findByImdbId(mediaType: 'movie' | 'tv', imdbId: string): Promise<number | null> {
+    return tmdb.findByImdbId(mediaType, imdbId);
+  },
 };
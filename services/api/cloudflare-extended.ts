@@ -74,7 +74,10 @@ export async function getOnTheAirTVShows(page = 1) {
 // TV Seasons & Episodes
 // ============================================================================
 
-/** Get season details with all episodes */
+/**
+ * Get season details with all episodes
+ * @deprecated Use getSeasonDetails from '@/services/api', which works with every provider
+ */
 export async function getSeasonDetails(
   tvId: number,
   seasonNumber: number
@@ -82,7 +85,10 @@ export async function getSeasonDetails(
   return cf.getSeasonDetails(tvId, seasonNumber);
 }
 
-/** Get single episode details */
+/**
+ * Get single episode details
+ * @deprecated Use getEpisodeDetails from '@/services/api', which works with every provider
+ */
 export async function getEpisodeDetails(
   tvId: number,
   seasonNumber: number,
@@ -163,6 +163,50 @@ export interface CFEpisode {
   runtime: number | null;
 }
 
+// ============================================================================
+// Person Types
+// ============================================================================
+
+/** Movie or TV credit of a person */
+export interface CFPersonCredit {
+  id: number;
+  mediaType: 'movie' | 'tv';
+  /** Movie title or TV show name */
+  title: string;
+  overview: string;
+  /** Release date or first air date */
+  releaseDate: string;
+  posterPath: string | null;
+  backdropPath: string | null;
+  voteAverage: number;
+  voteCount: number;
+  genreIds: number[];
+  creditId: string;
+  character?: string;
+  job?: string;
+  department?: string;
+}
+
+/** Person credits container */
+export interface CFPersonCredits {
+  cast: CFPersonCredit[];
+  crew: CFPersonCredit[];
+}
+
+/** Full person details */
+export interface CFPersonDetails {
+  id: number;
+  name: string;
+  biography: string;
+  birthday: string | null;
+  deathday: string | null;
+  placeOfBirth: string | null;
+  profilePath: string | null;
+  knownForDepartment: string;
+  imdbId: string | null;
+  credits: CFPersonCredits | null;
+}
+
 // ============================================================================
 // Supporting Types
 // ============================================================================
@@ -15,6 +15,7 @@ import type {
   CFTVShowDetails,
   CFSeasonDetails,
   CFEpisode,
+  CFPersonDetails,
   CFGenre,
   CFRegion,
   CFIMDBUpcomingData,
@@ -27,6 +28,25 @@ import type {
 
 import { API_BASE_URLS } from '@/constants/api';
 import { ANIMATION_DURATION } from '@/constants/animations';
+import { withHttpCache, type HttpCacheOptions } from './http-cache';
+import {
+  FALLBACK_CONTENT_LANGUAGE,
+  getContentLanguage,
+  listTextFields,
+  textFields,
+  toLanguageTag,
+  withEnglishFallback,
+  type TextFallback,
+} from './content-language';
+import {
+  createHttpClient,
+  HttpError,
+  getErrorCodeForStatus,
+  getRetryAfterMs,
+  isRetryableStatus,
+  type ApiErrorOptions,
+  type RetryConfig,
+} from './http';
 
 // ============================================================================
 // Configuration
@@ -34,17 +54,13 @@ import { ANIMATION_DURATION } from '@/constants/animations';
 
 const CF_BASE_URL = API_BASE_URLS.CLOUDFLARE;
 
-/** Retry configuration */
-export interface RetryConfig {
-  maxAttempts: number;
-  baseDelayMs: number;
-  maxDelayMs: number;
-}
+export { calculateBackoffDelay, type RetryConfig } from './http';
 
 const DEFAULT_RETRY_CONFIG: RetryConfig = {
   maxAttempts: 3,
   baseDelayMs: ANIMATION_DURATION.SLOW,
   maxDelayMs: ANIMATION_DURATION.API_TIMEOUT,
+  jitter: true,
 };
 
 // ============================================================================
@@ -52,104 +68,92 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
 // ============================================================================
 
 /** Cloudflare API Error */
-export class CloudflareApiError extends Error {
+export class CloudflareApiError extends HttpError {
   constructor(
     message: string,
-    public statusCode: number,
-    public requestId?: string,
-    public isRetryable: boolean = false
+    statusCode: number,
+    requestId?: string,
+    isRetryable: boolean = false,
+    options: ApiErrorOptions = {}
   ) {
-    super(message);
+    super(message, statusCode, isRetryable, getErrorCodeForStatus(statusCode), {
+      provider: 'cloudflare',
+      requestId,
+      ...options,
+    });
     this.name = 'CloudflareApiError';
   }
 }
 
-/** Calculate exponential backoff delay */
-export function calculateBackoffDelay(
-  attempt: number,
-  config: RetryConfig = DEFAULT_RETRY_CONFIG
-): number {
-  const delay = config.baseDelayMs * Math.pow(2, attempt);
-  return Math.min(delay, config.maxDelayMs);
-}
-
-/** Sleep utility */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
-}
-
-/** Check if error is retryable */
-function isRetryableStatus(status: number): boolean {
-  return status >= 500 || status === 429;
+/** Read the error message and request ID from a Cloudflare error body */
+function parseErrorBody(body: unknown): { error?: string; requestId?: string } {
+  if (!body || typeof body !== 'object') return {};
+  const { error, requestId } = body as { error?: unknown; requestId?: unknown };
+  return {
+    error: typeof error === 'string' ? error : undefined,
+    requestId: typeof requestId === 'string' ? requestId : undefined,
+  };
 }
 
 // ============================================================================
 // Core Fetch Logic
 // ============================================================================
 
+/** HTTP client for the Cloudflare Worker; maps `success: false` bodies to errors */
+export const cloudflareHttpClient = createHttpClient({
+  provider: 'cloudflare',
+  defaultHeaders: {
+    'Content-Type': 'application/json',
+  },
+  retry: DEFAULT_RETRY_CONFIG,
+  createError: (response, body) => {
+    const { error, requestId } = parseErrorBody(body);
+    return new CloudflareApiError(
+      error ?? `HTTP ${response.status}`,
+      response.status,
+      requestId,
+      isRetryableStatus(response.status),
+      { retryAfterMs: getRetryAfterMs(response) }
+    );
+  },
+  validateResponse: (body, response) => {
+    if (!(body as CloudflareResponse<unknown>).success) {
+      const { error, requestId } = parseErrorBody(body);
+      throw new CloudflareApiError(error ?? 'Unknown error', response.status, requestId, false);
+    }
+  },
+});
+
 /**
- * Execute fetch with retry logic and exponential backoff
+ * Execute a GET request with retry logic and exponential backoff
  */
-async function fetchWithRetry<T>(
+function fetchWithRetry<T>(
   url: string,
   config: RetryConfig = DEFAULT_RETRY_CONFIG
 ): Promise<CloudflareSuccessResponse<T>> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < config.maxAttempts; attempt++) {
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
-
-      const data = (await response.json()) as CloudflareResponse<T>;
-
-      if (!response.ok || !data.success) {
-        const errorMessage = !data.success ? data.error : `HTTP ${response.status}`;
-        const requestId = 'requestId' in data ? data.requestId : undefined;
-        
-        throw new CloudflareApiError(
-          errorMessage,
-          response.status,
-          requestId,
-          isRetryableStatus(response.status)
-        );
-      }
-
-      return data as CloudflareSuccessResponse<T>;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      const isRetryable =
-        error instanceof CloudflareApiError
-          ? error.isRetryable
-          : error instanceof TypeError;
-
-      if (attempt === config.maxAttempts - 1 || !isRetryable) {
-        throw lastError;
-      }
-
-      const delay = calculateBackoffDelay(attempt, config);
-      await sleep(delay);
-    }
-  }
+  return cloudflareHttpClient.get<CloudflareSuccessResponse<T>>(url, { retry: config });
+}
 
-  throw lastError || new Error('Unknown error during fetch');
+/**
+ * Execute a GET request through the persistent response cache
+ */
+function cachedFetch<T>(
+  url: string,
+  cacheOptions?: HttpCacheOptions
+): Promise<CloudflareSuccessResponse<T>> {
+  return withHttpCache(url, () => fetchWithRetry<T>(url), cacheOptions);
 }
 
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
 /**
  * Build URL with query parameters
+ * Requests the content language unless `language` is given
  */
-function buildUrl(
-  endpoint: string,
-  params: Record<string, string | number | boolean | undefined> = {}
-): string {
+function buildUrl(endpoint: string, params: QueryParams = {}): string {
   const url = new URL(`${CF_BASE_URL}${endpoint}`);
 
-  Object.entries(params).forEach(([key, value]) => {
+  Object.entries({ language: toLanguageTag(getContentLanguage()), ...params }).forEach(([key, value]) => {
     if (value !== undefined) {
       url.searchParams.set(key, String(value));
     }
@@ -158,6 +162,47 @@ function buildUrl(
   return url.toString();
 }
 
+// ============================================================================
+// Localized Metadata
+// ============================================================================
+
+// Text fields left empty when a title has no translation
+const MOVIE_RESULTS_TEXT = listTextFields<CFMovieResult>(['overview']);
+const TV_RESULTS_TEXT = listTextFields<CFTVShowResult>(['overview']);
+const MOVIE_DETAILS_TEXT = textFields<CFMovieDetails>(['title', 'overview', 'tagline']);
+const TV_DETAILS_TEXT = textFields<CFTVShowDetails>(['name', 'overview', 'tagline']);
+const EPISODE_TEXT = textFields<CFEpisode>(['name', 'overview']);
+const PERSON_TEXT = textFields<CFPersonDetails>(['biography']);
+const SEASON_SUMMARY_TEXT = textFields<CFSeasonDetails>(['name', 'overview']);
+const SEASON_EPISODES_TEXT = listTextFields<CFEpisode>(['name', 'overview']);
+const SEASON_TEXT: TextFallback<CFSeasonDetails> = {
+  isIncomplete: season =>
+    SEASON_SUMMARY_TEXT.isIncomplete(season) || SEASON_EPISODES_TEXT.isIncomplete(season.episodes),
+  fill: (localized, english) => ({
+    ...SEASON_SUMMARY_TEXT.fill(localized, english),
+    episodes: SEASON_EPISODES_TEXT.fill(localized.episodes, english.episodes),
+  }),
+};
+
+/**
+ * Execute a cached GET in the content language, filling empty text from English
+ */
+async function cachedLocalizedFetch<T>(
+  endpoint: string,
+  params: QueryParams,
+  fallback: TextFallback<T>
+): Promise<CloudflareSuccessResponse<T>> {
+  const language = getContentLanguage();
+  const response = await cachedFetch<T>(buildUrl(endpoint, params));
+  const data = await withEnglishFallback(response.data, language, fallback, async () => {
+    const english = await cachedFetch<T>(
+      buildUrl(endpoint, { ...params, language: toLanguageTag(FALLBACK_CONTENT_LANGUAGE) })
+    );
+    return english.data;
+  });
+  return { ...response, data };
+}
+
 // ============================================================================
 // Health & Documentation
 // ============================================================================
@@ -177,9 +222,7 @@ export async function searchMovies(
   query: string,
   page: number = 1
 ): Promise<{ data: CFMovieResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFMovieResult[]>(
-    buildUrl('/search', { query, page })
-  );
+  const response = await cachedLocalizedFetch('/search', { query, page }, MOVIE_RESULTS_TEXT);
   return {
     data: response.data,
     totalPages: response.pagination?.totalPages ?? 1,
@@ -192,9 +235,7 @@ export async function getMovieDetails(
   id: number,
   append: string = 'credits,videos,similar'
 ): Promise<CFMovieDetails> {
-  const response = await fetchWithRetry<CFMovieDetails>(
-    buildUrl(`/movie/${id}`, { append })
-  );
+  const response = await cachedLocalizedFetch(`/movie/${id}`, { append }, MOVIE_DETAILS_TEXT);
   return response.data;
 }
 
@@ -203,8 +244,10 @@ export async function getTrendingMovies(
   timeWindow: 'day' | 'week' = 'week',
   page: number = 1
 ): Promise<{ data: CFMovieResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFMovieResult[]>(
-    buildUrl(`/trending/${timeWindow}`, { page })
+  const response = await cachedLocalizedFetch(
+    `/trending/${timeWindow}`,
+    { page },
+    MOVIE_RESULTS_TEXT
   );
   return {
     data: response.data,
@@ -217,9 +260,7 @@ export async function getTrendingMovies(
 export async function getPopularMovies(
   page: number = 1
 ): Promise<{ data: CFMovieResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFMovieResult[]>(
-    buildUrl('/popular', { page })
-  );
+  const response = await cachedLocalizedFetch('/popular', { page }, MOVIE_RESULTS_TEXT);
   return {
     data: response.data,
     totalPages: response.pagination?.totalPages ?? 1,
@@ -231,9 +272,7 @@ export async function getPopularMovies(
 export async function getTopRatedMovies(
   page: number = 1
 ): Promise<{ data: CFMovieResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFMovieResult[]>(
-    buildUrl('/top-rated', { page })
-  );
+  const response = await cachedLocalizedFetch('/top-rated', { page }, MOVIE_RESULTS_TEXT);
   return {
     data: response.data,
     totalPages: response.pagination?.totalPages ?? 1,
@@ -245,9 +284,7 @@ export async function getTopRatedMovies(
 export async function getNowPlayingMovies(
   page: number = 1
 ): Promise<{ data: CFMovieResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFMovieResult[]>(
-    buildUrl('/now-playing', { page })
-  );
+  const response = await cachedLocalizedFetch('/now-playing', { page }, MOVIE_RESULTS_TEXT);
   return {
     data: response.data,
     totalPages: response.pagination?.totalPages ?? 1,
@@ -259,9 +296,7 @@ export async function getNowPlayingMovies(
 export async function getUpcomingMovies(
   page: number = 1
 ): Promise<{ data: CFMovieResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFMovieResult[]>(
-    buildUrl('/upcoming', { page })
-  );
+  const response = await cachedLocalizedFetch('/upcoming', { page }, MOVIE_RESULTS_TEXT);
   return {
     data: response.data,
     totalPages: response.pagination?.totalPages ?? 1,
@@ -271,7 +306,7 @@ export async function getUpcomingMovies(
 
 /** Get movie genres */
 export async function getMovieGenres(): Promise<CFGenre[]> {
-  const response = await fetchWithRetry<CFGenre[]>(buildUrl('/genres'));
+  const response = await cachedFetch<CFGenre[]>(buildUrl('/genres'));
   return response.data;
 }
 
@@ -279,8 +314,10 @@ export async function getMovieGenres(): Promise<CFGenre[]> {
 export async function discoverMovies(
   options: CFDiscoverMovieOptions = {}
 ): Promise<{ data: CFMovieResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFMovieResult[]>(
-    buildUrl('/discover', options as Record<string, string | number | undefined>)
+  const response = await cachedLocalizedFetch(
+    '/discover',
+    options as Record<string, string | number | undefined>,
+    MOVIE_RESULTS_TEXT
   );
   return {
     data: response.data,
@@ -291,7 +328,7 @@ export async function discoverMovies(
 
 /** Get available regions */
 export async function getRegions(): Promise<CFRegion[]> {
-  const response = await fetchWithRetry<CFRegion[]>(buildUrl('/regions'));
+  const response = await cachedFetch<CFRegion[]>(buildUrl('/regions'));
   return response.data;
 }
 
@@ -304,9 +341,7 @@ export async function searchTVShows(
   query: string,
   page: number = 1
 ): Promise<{ data: CFTVShowResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFTVShowResult[]>(
-    buildUrl('/tv/search', { query, page })
-  );
+  const response = await cachedLocalizedFetch('/tv/search', { query, page }, TV_RESULTS_TEXT);
   return {
     data: response.data,
     totalPages: response.pagination?.totalPages ?? 1,
@@ -319,9 +354,7 @@ export async function getTVShowDetails(
   id: number,
   append: string = 'credits,videos,similar'
 ): Promise<CFTVShowDetails> {
-  const response = await fetchWithRetry<CFTVShowDetails>(
-    buildUrl(`/tv/${id}`, { append })
-  );
+  const response = await cachedLocalizedFetch(`/tv/${id}`, { append }, TV_DETAILS_TEXT);
   return response.data;
 }
 
@@ -330,8 +363,10 @@ export async function getSeasonDetails(
   tvId: number,
   seasonNumber: number
 ): Promise<CFSeasonDetails> {
-  const response = await fetchWithRetry<CFSeasonDetails>(
-    buildUrl(`/tv/${tvId}/season/${seasonNumber}`)
+  const response = await cachedLocalizedFetch(
+    `/tv/${tvId}/season/${seasonNumber}`,
+    {},
+    SEASON_TEXT
   );
   return response.data;
 }
@@ -342,8 +377,10 @@ export async function getEpisodeDetails(
   seasonNumber: number,
   episodeNumber: number
 ): Promise<CFEpisode> {
-  const response = await fetchWithRetry<CFEpisode>(
-    buildUrl(`/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}`)
+  const response = await cachedLocalizedFetch(
+    `/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}`,
+    {},
+    EPISODE_TEXT
   );
   return response.data;
 }
@@ -353,8 +390,10 @@ export async function getTrendingTVShows(
   timeWindow: 'day' | 'week' = 'week',
   page: number = 1
 ): Promise<{ data: CFTVShowResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFTVShowResult[]>(
-    buildUrl(`/tv/trending/${timeWindow}`, { page })
+  const response = await cachedLocalizedFetch(
+    `/tv/trending/${timeWindow}`,
+    { page },
+    TV_RESULTS_TEXT
   );
   return {
     data: response.data,
@@ -367,9 +406,7 @@ export async function getTrendingTVShows(
 export async function getPopularTVShows(
   page: number = 1
 ): Promise<{ data: CFTVShowResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFTVShowResult[]>(
-    buildUrl('/tv/popular', { page })
-  );
+  const response = await cachedLocalizedFetch('/tv/popular', { page }, TV_RESULTS_TEXT);
   return {
     data: response.data,
     totalPages: response.pagination?.totalPages ?? 1,
@@ -381,9 +418,7 @@ export async function getPopularTVShows(
 export async function getTopRatedTVShows(
   page: number = 1
 ): Promise<{ data: CFTVShowResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFTVShowResult[]>(
-    buildUrl('/tv/top-rated', { page })
-  );
+  const response = await cachedLocalizedFetch('/tv/top-rated', { page }, TV_RESULTS_TEXT);
   return {
     data: response.data,
     totalPages: response.pagination?.totalPages ?? 1,
@@ -395,9 +430,7 @@ export async function getTopRatedTVShows(
 export async function getAiringTodayTVShows(
   page: number = 1
 ): Promise<{ data: CFTVShowResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFTVShowResult[]>(
-    buildUrl('/tv/airing-today', { page })
-  );
+  const response = await cachedLocalizedFetch('/tv/airing-today', { page }, TV_RESULTS_TEXT);
   return {
     data: response.data,
     totalPages: response.pagination?.totalPages ?? 1,
@@ -409,9 +442,7 @@ export async function getAiringTodayTVShows(
 export async function getOnTheAirTVShows(
   page: number = 1
 ): Promise<{ data: CFTVShowResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFTVShowResult[]>(
-    buildUrl('/tv/on-the-air', { page })
-  );
+  const response = await cachedLocalizedFetch('/tv/on-the-air', { page }, TV_RESULTS_TEXT);
   return {
     data: response.data,
     totalPages: response.pagination?.totalPages ?? 1,
@@ -421,7 +452,7 @@ export async function getOnTheAirTVShows(
 
 /** Get TV genres */
 export async function getTVGenres(): Promise<CFGenre[]> {
-  const response = await fetchWithRetry<CFGenre[]>(buildUrl('/tv/genres'));
+  const response = await cachedFetch<CFGenre[]>(buildUrl('/tv/genres'));
   return response.data;
 }
 
@@ -429,8 +460,10 @@ export async function getTVGenres(): Promise<CFGenre[]> {
 export async function discoverTVShows(
   options: CFDiscoverTVOptions = {}
 ): Promise<{ data: CFTVShowResult[]; totalPages: number; totalResults: number }> {
-  const response = await fetchWithRetry<CFTVShowResult[]>(
-    buildUrl('/tv/discover', options as Record<string, string | number | undefined>)
+  const response = await cachedLocalizedFetch(
+    '/tv/discover',
+    options as Record<string, string | number | undefined>,
+    TV_RESULTS_TEXT
   );
   return {
     data: response.data,
@@ -439,6 +472,19 @@ export async function discoverTVShows(
   };
 }
 
+// ============================================================================
+// Person Endpoints
+// ============================================================================
+
+/** Get person details */
+export async function getPersonDetails(
+  id: number,
+  append?: string
+): Promise<CFPersonDetails> {
+  const response = await cachedLocalizedFetch(`/person/${id}`, { append }, PERSON_TEXT);
+  return response.data;
+}
+
 // ============================================================================
 // IMDB Endpoints
 // ============================================================================
@@ -448,8 +494,9 @@ export async function getIMDBUpcoming(
   region: string = 'US',
   refresh: boolean = false
 ): Promise<CFIMDBUpcomingData> {
-  const response = await fetchWithRetry<CFIMDBUpcomingData>(
-    buildUrl('/imdb/upcoming', { region, refresh })
+  const response = await cachedFetch<CFIMDBUpcomingData>(
+    buildUrl('/imdb/upcoming', { region, refresh }),
+    { forceRefresh: refresh }
   );
   return response.data;
 }
@@ -459,8 +506,9 @@ export async function getIMDBNews(
   limit: number = 10,
   refresh: boolean = false
 ): Promise<CFIMDBNewsData> {
-  const response = await fetchWithRetry<CFIMDBNewsData>(
-    buildUrl('/imdb/news', { limit, refresh })
+  const response = await cachedFetch<CFIMDBNewsData>(
+    buildUrl('/imdb/news', { limit, refresh }),
+    { forceRefresh: refresh }
   );
   return response.data;
 }
@@ -0,0 +1,157 @@
+/**
+ * Content Language for Media Metadata
+ * The language titles, overviews and posters are requested in
+ *
+ * - Follows the app language unless the user picked a separate content
+ *   language in settings
+ * - Providers send it with every request, so cached responses are kept
+ *   per language
+ * - Text left empty by a missing translation is filled in from English,
+ *   one field at a time
+ */
+
+import { getCurrentLocale } from '@/services/localization';
+
+/** Language metadata falls back to when a translation is empty */
+export const FALLBACK_CONTENT_LANGUAGE = 'en';
+
+/** Region-qualified tags for languages whose translations are stored per region */
+const LANGUAGE_TAGS: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  ja: 'ja-JP',
+  zh: 'zh-CN',
+};
+
+let preferredLanguage: string | null = null;
+
+/**
+ * Set the content language preference
+ * @param language - ISO 639-1 code, or null to follow the app language
+ */
+export function setContentLanguage(language: string | null): void {
+  preferredLanguage = language;
+}
+
+/**
+ * Get the language metadata is requested in
+ * @returns ISO 639-1 code
+ */
+export function getContentLanguage(): string {
+  return preferredLanguage ?? getCurrentLocale();
+}
+
+/**
+ * Get the IETF tag providers expect for a language (ja -> ja-JP)
+ */
+export function toLanguageTag(language: string): string {
+  return LANGUAGE_TAGS[language] ?? language;
+}
+
+/** Whether a language needs no English fallback */
+export function isFallbackLanguage(language: string): boolean {
+  return language.split('-')[0] === FALLBACK_CONTENT_LANGUAGE;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+}
+
+/**
+ * Check whether any of the given text fields is empty
+ */
+export function hasMissingFields<T extends object>(record: T, fields: readonly (keyof T)[]): boolean {
+  return fields.some(field => isMissing(record[field]));
+}
+
+/**
+ * Fill empty text fields of a localized record from its English version
+ * Fields that were translated are kept as they are
+ */
+export function fillMissingFields<T extends object>(
+  localized: T,
+  english: T | null | undefined,
+  fields: readonly (keyof T)[]
+): T {
+  if (!english) return localized;
+
+  const filled = { ...localized };
+  fields.forEach(field => {
+    if (isMissing(filled[field]) && !isMissing(english[field])) {
+      filled[field] = english[field];
+    }
+  });
+  return filled;
+}
+
+/**
+ * Fill empty text fields of localized list items from the English items
+ * with the same key (the item ID by default)
+ */
+export function fillMissingFieldsById<T extends { id: number }>(
+  localized: T[],
+  english: T[],
+  fields: readonly (keyof T)[],
+  getKey: (item: T) => string | number = item => item.id
+): T[] {
+  const englishByKey = new Map(english.map(item => [getKey(item), item]));
+  return localized.map(item => fillMissingFields(item, englishByKey.get(getKey(item)), fields));
+}
+
+/** How to spot and fill text a translation left empty */
+export interface TextFallback<T> {
+  isIncomplete: (response: T) => boolean;
+  fill: (localized: T, english: T) => T;
+}
+
+/**
+ * Fall back to English for the given text fields of a record
+ */
+export function textFields<T extends object>(fields: readonly (keyof T)[]): TextFallback<T> {
+  return {
+    isIncomplete: record => hasMissingFields(record, fields),
+    fill: (localized, english) => fillMissingFields(localized, english, fields),
+  };
+}
+
+/**
+ * Fall back to English for the given text fields of every item in a list
+ */
+export function listTextFields<T extends { id: number }>(
+  fields: readonly (keyof T)[],
+  getKey?: (item: T) => string | number
+): TextFallback<T[]> {
+  return {
+    isIncomplete: items => items.some(item => hasMissingFields(item, fields)),
+    fill: (localized, english) => fillMissingFieldsById(localized, english, fields, getKey),
+  };
+}
+
+/**
+ * Complete a localized response with English text where it is missing
+ * The English request is only made when something is missing, and a failed
+ * English request keeps the localized response rather than losing it
+ * @param localized - Response in the content language
+ * @param language - Content language the response was requested in
+ * @param fallback - Which text to check and how to fill it
+ * @param fetchEnglish - Fetch the same response in English
+ */
+export async function withEnglishFallback<T>(
+  localized: T,
+  language: string,
+  fallback: TextFallback<T>,
+  fetchEnglish: () => Promise<T>
+): Promise<T> {
+  if (isFallbackLanguage(language) || !fallback.isIncomplete(localized)) {
+    return localized;
+  }
+
+  try {
+    return fallback.fill(localized, await fetchEnglish());
+  } catch (error) {
+    console.warn('[API] English fallback for localized metadata failed:', error);
+    return localized;
+  }
+}
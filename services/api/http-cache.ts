@@ -0,0 +1,369 @@
+/**
+ * Persistent HTTP Response Cache
+ * Shared AsyncStorage-backed cache used by every API client so that titles
+ * we've already looked at are still available offline and after a restart.
+ *
+ * - Per-endpoint TTLs (trending expires quickly, details live for a day)
+ * - Stale-while-revalidate: expired entries are returned immediately and
+ *   refreshed in the background
+ * - Size caps (entry count and total bytes) with LRU eviction
+ * - Stale-data status that screens can subscribe to (e.g. OfflineBanner)
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { HTTP_CACHE_CONFIG } from '@/constants/api';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A cached response as stored in AsyncStorage */
+interface CachedResponse<T> {
+  data: T;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/** LRU bookkeeping for a single cache entry */
+interface CacheIndexEntry {
+  size: number;
+  storedAt: number;
+  lastAccessedAt: number;
+}
+
+type CacheIndex = Record<string, CacheIndexEntry>;
+
+/** Options for a cached request */
+export interface HttpCacheOptions {
+  /** Override the endpoint TTL */
+  ttlMs?: number;
+  /** Skip the cache read and go to the network (stale data is still used if the network fails) */
+  forceRefresh?: boolean;
+}
+
+/** Whether the app is currently displaying cached data it could not refresh */
+export interface HttpCacheStatus {
+  isShowingStaleData: boolean;
+  staleEntryCount: number;
+  /** When the oldest stale response on screen was fetched */
+  oldestStaleAt: string | null;
+}
+
+// ============================================================================
+// Endpoint TTLs
+// ============================================================================
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** TTL rules matched against the request path (first match wins) */
+const TTL_RULES: { pattern: RegExp; ttlMs: number }[] = [
+  { pattern: /\/search/, ttlMs: 10 * MINUTE },
+  { pattern: /[?&]s=/, ttlMs: 10 * MINUTE }, // OMDb search
+  { pattern: /\/trending/, ttlMs: 30 * MINUTE },
+  { pattern: /\/(popular|top-rated|top_rated|now-playing|now_playing|upcoming|airing-today|airing_today|on-the-air|on_the_air)/, ttlMs: HOUR },
+  { pattern: /\/discover/, ttlMs: HOUR },
+  { pattern: /\/imdb\/(news|upcoming)/, ttlMs: HOUR },
+  { pattern: /\/watch\/providers/, ttlMs: 12 * HOUR },
+  { pattern: /\/(genres|regions)/, ttlMs: 7 * DAY },
+  { pattern: /\/(movie|tv)\/\d+/, ttlMs: DAY }, // details, credits, videos, seasons
+  { pattern: /[?&]i=tt/, ttlMs: DAY }, // OMDb lookup by IMDb ID
+];
+
+/**
+ * Get the time-to-live for a request URL
+ */
+export function getTtlForUrl(url: string): number {
+  const rule = TTL_RULES.find(r => r.pattern.test(url));
+  return rule ? rule.ttlMs : HTTP_CACHE_CONFIG.DEFAULT_TTL_MS;
+}
+
+/**
+ * Build a cache key from a URL
+ * Credentials are stripped and query parameters sorted so equivalent requests share an entry
+ */
+export function getCacheKey(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const ignored: readonly string[] = HTTP_CACHE_CONFIG.IGNORED_PARAMS;
+    const params = [...parsed.searchParams.entries()]
+      .filter(([key]) => !ignored.includes(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+
+    const query = params.map(([k, v]) => `${k}=${encodeURIComponent(v)}`).join('&');
+    return `${parsed.origin}${parsed.pathname}${query ? `?${query}` : ''}`;
+  } catch {
+    return url;
+  }
+}
+
+// ============================================================================
+// Index (LRU bookkeeping)
+// ============================================================================
+
+let indexPromise: Promise<CacheIndex> | null = null;
+
+function loadIndex(): Promise<CacheIndex> {
+  if (!indexPromise) {
+    indexPromise = AsyncStorage.getItem(HTTP_CACHE_CONFIG.INDEX_KEY)
+      .then(value => (value ? (JSON.parse(value) as CacheIndex) : {}))
+      .catch(error => {
+        console.error('[HTTP Cache] Failed to load index:', error);
+        return {};
+      });
+  }
+  return indexPromise;
+}
+
+async function persistIndex(index: CacheIndex): Promise<void> {
+  try {
+    await AsyncStorage.setItem(HTTP_CACHE_CONFIG.INDEX_KEY, JSON.stringify(index));
+  } catch (error) {
+    console.error('[HTTP Cache] Failed to persist index:', error);
+  }
+}
+
+function storageKey(key: string): string {
+  return `${HTTP_CACHE_CONFIG.KEY_PREFIX}${key}`;
+}
+
+/**
+ * Evict least recently used entries until the cache fits its caps
+ * @param protectedKey - Key that was just written and must survive
+ */
+async function evictIfNeeded(index: CacheIndex, protectedKey: string): Promise<void> {
+  const totalBytes = () => Object.values(index).reduce((sum, e) => sum + e.size, 0);
+  const evicted: string[] = [];
+
+  while (
+    Object.keys(index).length > HTTP_CACHE_CONFIG.MAX_ENTRIES ||
+    totalBytes() > HTTP_CACHE_CONFIG.MAX_BYTES
+  ) {
+    const candidates = Object.entries(index)
+      .filter(([key]) => key !== protectedKey)
+      .sort(([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt);
+
+    if (candidates.length === 0) break;
+
+    const [oldestKey] = candidates[0];
+    delete index[oldestKey];
+    staleEntries.delete(oldestKey);
+    evicted.push(storageKey(oldestKey));
+  }
+
+  if (evicted.length > 0) {
+    await AsyncStorage.multiRemove(evicted);
+  }
+}
+
+// ============================================================================
+// Entry Read/Write
+// ============================================================================
+
+async function readEntry<T>(key: string): Promise<CachedResponse<T> | null> {
+  try {
+    const value = await AsyncStorage.getItem(storageKey(key));
+    return value ? (JSON.parse(value) as CachedResponse<T>) : null;
+  } catch (error) {
+    console.error(`[HTTP Cache] Failed to read entry [${key}]:`, error);
+    return null;
+  }
+}
+
+async function writeEntry<T>(key: string, data: T, ttlMs: number): Promise<void> {
+  const now = Date.now();
+  const entry: CachedResponse<T> = { data, storedAt: now, expiresAt: now + ttlMs };
+  const serialized = JSON.stringify(entry);
+
+  // A single response larger than the whole cache is never stored
+  if (serialized.length > HTTP_CACHE_CONFIG.MAX_BYTES) {
+    return;
+  }
+
+  try {
+    const index = await loadIndex();
+    await AsyncStorage.setItem(storageKey(key), serialized);
+    index[key] = { size: serialized.length, storedAt: now, lastAccessedAt: now };
+    await evictIfNeeded(index, key);
+    await persistIndex(index);
+  } catch (error) {
+    console.error(`[HTTP Cache] Failed to write entry [${key}]:`, error);
+  }
+}
+
+async function touchEntry(key: string): Promise<void> {
+  const index = await loadIndex();
+  if (index[key]) {
+    index[key].lastAccessedAt = Date.now();
+    persistIndex(index);
+  }
+}
+
+// ============================================================================
+// Stale Status
+// ============================================================================
+
+/** Keys served from cache whose refresh failed, mapped to when they were stored */
+const staleEntries = new Map<string, number>();
+const statusListeners = new Set<(status: HttpCacheStatus) => void>();
+
+/**
+ * Get the current stale-data status
+ */
+export function getHttpCacheStatus(): HttpCacheStatus {
+  const storedAts = [...staleEntries.values()];
+  return {
+    isShowingStaleData: staleEntries.size > 0,
+    staleEntryCount: staleEntries.size,
+    oldestStaleAt: storedAts.length > 0 ? new Date(Math.min(...storedAts)).toISOString() : null,
+  };
+}
+
+/**
+ * Subscribe to stale-data status changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToHttpCacheStatus(
+  listener: (status: HttpCacheStatus) => void
+): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+function notifyStatus(): void {
+  const status = getHttpCacheStatus();
+  statusListeners.forEach(listener => listener(status));
+}
+
+function markStale(key: string, storedAt: number): void {
+  if (staleEntries.get(key) === storedAt) return;
+  staleEntries.set(key, storedAt);
+  notifyStatus();
+}
+
+function markFresh(key: string): void {
+  if (staleEntries.delete(key)) {
+    notifyStatus();
+  }
+}
+
+// ============================================================================
+// Cached Request
+// ============================================================================
+
+/** In-flight background revalidations, so an entry is only refreshed once at a time */
+const revalidations = new Map<string, Promise<void>>();
+
+function revalidate<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  ttlMs: number,
+  storedAt: number
+): void {
+  if (revalidations.has(key)) return;
+
+  const task = fetcher()
+    .then(async data => {
+      await writeEntry(key, data, ttlMs);
+      markFresh(key);
+    })
+    .catch(() => {
+      markStale(key, storedAt);
+    })
+    .finally(() => {
+      revalidations.delete(key);
+    });
+
+  revalidations.set(key, task);
+}
+
+/**
+ * Execute a GET request through the persistent cache
+ * @param url - Request URL (used to derive the cache key and TTL)
+ * @param fetcher - Performs the actual network request
+ * @param options - TTL override and refresh behaviour
+ * @returns Fresh, cached or stale response data
+ */
+export async function withHttpCache<T>(
+  url: string,
+  fetcher: () => Promise<T>,
+  options: HttpCacheOptions = {}
+): Promise<T> {
+  const key = getCacheKey(url);
+  const ttlMs = options.ttlMs ?? getTtlForUrl(url);
+
+  let cached: CachedResponse<T> | null = null;
+
+  if (!options.forceRefresh) {
+    cached = await readEntry<T>(key);
+
+    if (cached) {
+      touchEntry(key);
+
+      if (cached.expiresAt > Date.now()) {
+        markFresh(key);
+        return cached.data;
+      }
+
+      // Stale-while-revalidate
+      revalidate(key, fetcher, ttlMs, cached.storedAt);
+      return cached.data;
+    }
+  }
+
+  try {
+    const data = await fetcher();
+    await writeEntry(key, data, ttlMs);
+    markFresh(key);
+    return data;
+  } catch (error) {
+    // Network failed: fall back to whatever we have, however old
+    const fallback = cached ?? (await readEntry<T>(key));
+    if (fallback) {
+      markStale(key, fallback.storedAt);
+      return fallback.data;
+    }
+    throw error;
+  }
+}
+
+// ============================================================================
+// Maintenance
+// ============================================================================
+
+/**
+ * Get cache size statistics
+ */
+export async function getHttpCacheStats(): Promise<{ entryCount: number; totalBytes: number }> {
+  const index = await loadIndex();
+  const entries = Object.values(index);
+  return {
+    entryCount: entries.length,
+    totalBytes: entries.reduce((sum, e) => sum + e.size, 0),
+  };
+}
+
+/**
+ * Remove every cached response
+ */
+export async function clearHttpCache(): Promise<void> {
+  const index = await loadIndex();
+  const keys = Object.keys(index).map(storageKey);
+
+  try {
+    await AsyncStorage.multiRemove([...keys, HTTP_CACHE_CONFIG.INDEX_KEY]);
+  } catch (error) {
+    console.error('[HTTP Cache] Failed to clear cache:', error);
+    throw error;
+  }
+
+  indexPromise = null;
+  revalidations.clear();
+  if (staleEntries.size > 0) {
+    staleEntries.clear();
+    notifyStatus();
+  }
+}
@@ -0,0 +1,263 @@
+/**
+ * Shared HTTP Client
+ * Single fetch pipeline used by every provider client (TMDB, Cloudflare, OMDb)
+ *
+ * - AbortController timeouts
+ * - Retries with exponential backoff, optional jitter and Retry-After support
+ * - De-duplication of identical in-flight GET requests
+ * - Optional rate limiter with priority lanes and a daily quota
+ * - Interceptors for auth, logging and metrics
+ * - Typed errors (see ./errors)
+ */
+
+import { ANIMATION_DURATION } from '@/constants/animations';
+import {
+  ApiError,
+  HttpError,
+  NetworkError,
+  ParseError,
+  RequestAbortedError,
+  TimeoutError,
+} from './errors';
+import { DEFAULT_RETRY_CONFIG, getRetryAfterMs, getRetryDelay, sleep } from './retry';
+import type {
+  HttpClient,
+  HttpClientConfig,
+  HttpInterceptor,
+  HttpRequest,
+  HttpResponse,
+  RequestOptions,
+} from './types';
+
+// ============================================================================
+// Global Interceptors
+// ============================================================================
+
+/** Interceptors applied to every client, before client-specific ones */
+const globalInterceptors: HttpInterceptor[] = [];
+
+/**
+ * Add an interceptor to every HTTP client
+ * @returns Function that removes the interceptor
+ */
+export function addHttpInterceptor(interceptor: HttpInterceptor): () => void {
+  globalInterceptors.push(interceptor);
+  return () => {
+    const index = globalInterceptors.indexOf(interceptor);
+    if (index !== -1) globalInterceptors.splice(index, 1);
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** Parse a JSON body, returning undefined if there is none */
+async function readJsonBody(response: Response): Promise<unknown> {
+  if (typeof response.json !== 'function') return undefined;
+  try {
+    return await response.json();
+  } catch {
+    return undefined;
+  }
+}
+
+/** Convert anything thrown during an attempt into an ApiError */
+function normalizeError(error: unknown, request: HttpRequest, provider: string): ApiError {
+  if (error instanceof ApiError) {
+    error.provider = error.provider ?? provider;
+    return error;
+  }
+
+  const context = { url: request.url, method: request.method };
+
+  if (error instanceof Error && error.name === 'AbortError') {
+    return request.signal?.aborted
+      ? new RequestAbortedError({ provider, originalError: error, context })
+      : new TimeoutError(request.timeoutMs, { provider, originalError: error, context });
+  }
+
+  // fetch rejects with a TypeError when the server cannot be reached
+  if (error instanceof TypeError) {
+    return new NetworkError(error.message || undefined, { provider, originalError: error, context });
+  }
+
+  return new ApiError(
+    error instanceof Error ? error.message : String(error),
+    'UNKNOWN_ERROR',
+    undefined,
+    false,
+    { provider, originalError: error, context }
+  );
+}
+
+/** Default error for a non-2xx response */
+function createDefaultHttpError(response: Response, provider: string): ApiError {
+  return new HttpError(
+    `HTTP ${response.status}: ${response.statusText}`,
+    response.status,
+    undefined,
+    undefined,
+    { provider, retryAfterMs: getRetryAfterMs(response), context: { url: response.url } }
+  );
+}
+
+// ============================================================================
+// Client Factory
+// ============================================================================
+
+/**
+ * Create an HTTP client for a provider
+ * @param config - Provider name, defaults, interceptors and error mapping
+ */
+export function createHttpClient(config: HttpClientConfig): HttpClient {
+  const interceptors: HttpInterceptor[] = [...(config.interceptors ?? [])];
+  const inFlight = new Map<string, Promise<HttpResponse<unknown>>>();
+
+  /** Perform a single attempt, enforcing the timeout */
+  async function attempt(request: HttpRequest): Promise<{ response: Response; data: unknown }> {
+    // Wait for a token before the timeout starts counting
+    if (config.rateLimiter) {
+      await config.rateLimiter.acquire(request.priority);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), request.timeoutMs);
+    const abortFromCaller = () => controller.abort();
+    request.signal?.addEventListener('abort', abortFromCaller);
+
+    try {
+      const response = await fetch(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
+      });
+      config.rateLimiter?.recordResponse(response.headers);
+
+      if (!response.ok) {
+        const body = await readJsonBody(response);
+        throw config.createError
+          ? config.createError(response, body)
+          : createDefaultHttpError(response, config.provider);
+      }
+
+      let data: unknown;
+      try {
+        data = await response.json();
+      } catch (parseError) {
+        throw new ParseError(response.status, {
+          provider: config.provider,
+          originalError: parseError,
+          context: { url: request.url },
+        });
+      }
+
+      config.validateResponse?.(data, response);
+      return { response, data };
+    } finally {
+      clearTimeout(timeoutId);
+      request.signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  /** Run interceptors and the retry loop */
+  async function execute<T>(url: string, options: RequestOptions): Promise<HttpResponse<T>> {
+    const chain = [...globalInterceptors, ...interceptors];
+
+    let request: HttpRequest = {
+      url,
+      method: options.method ?? 'GET',
+      headers: { ...config.defaultHeaders, ...options.headers },
+      body: options.body,
+      timeoutMs: options.timeoutMs ?? config.timeoutMs ?? ANIMATION_DURATION.API_TIMEOUT,
+      retry: options.retry ?? config.retry ?? DEFAULT_RETRY_CONFIG,
+      signal: options.signal,
+      priority: options.priority ?? 'normal',
+    };
+
+    for (const interceptor of chain) {
+      if (interceptor.onRequest) {
+        request = await interceptor.onRequest(request);
+      }
+    }
+
+    const startedAt = Date.now();
+    const { maxAttempts } = request.retry;
+    let lastError: ApiError | null = null;
+
+    for (let attemptIndex = 0; attemptIndex < maxAttempts; attemptIndex++) {
+      try {
+        const { response, data } = await attempt(request);
+        const result: HttpResponse<T> = {
+          data: data as T,
+          status: response.status,
+          headers: response.headers,
+          url: request.url,
+          attempts: attemptIndex + 1,
+          durationMs: Date.now() - startedAt,
+        };
+
+        chain.forEach(interceptor => interceptor.onResponse?.(result, request));
+        return result;
+      } catch (error) {
+        lastError = normalizeError(error, request, config.provider);
+        const willRetry = attemptIndex < maxAttempts - 1 && lastError.isRetryable;
+
+        const info = { attempt: attemptIndex + 1, willRetry, durationMs: Date.now() - startedAt };
+        chain.forEach(interceptor => interceptor.onError?.(lastError as ApiError, request, info));
+
+        if (!willRetry) {
+          throw lastError;
+        }
+
+        const delay = (config.getRetryDelay ?? getRetryDelay)(lastError, attemptIndex, request.retry);
+        await sleep(delay);
+      }
+    }
+
+    throw lastError ?? new ApiError('Unknown error during fetch', 'UNKNOWN_ERROR', undefined, false, {
+      provider: config.provider,
+    });
+  }
+
+  function request<T>(url: string, options: RequestOptions = {}): Promise<HttpResponse<T>> {
+    const method = options.method ?? 'GET';
+    const canDedupe = method === 'GET' && options.dedupe !== false && !options.signal;
+
+    if (!canDedupe) {
+      return execute<T>(url, options);
+    }
+
+    // Identical GETs share one network request while it is in flight
+    const existing = inFlight.get(url);
+    if (existing) {
+      return existing as Promise<HttpResponse<T>>;
+    }
+
+    const pending = execute<T>(url, options).finally(() => {
+      inFlight.delete(url);
+    });
+    inFlight.set(url, pending as Promise<HttpResponse<unknown>>);
+    return pending;
+  }
+
+  return {
+    provider: config.provider,
+
+    request,
+
+    async get<T>(url: string, options: RequestOptions = {}): Promise<T> {
+      const response = await request<T>(url, { ...options, method: 'GET' });
+      return response.data;
+    },
+
+    use(interceptor: HttpInterceptor) {
+      interceptors.push(interceptor);
+      return () => {
+        const index = interceptors.indexOf(interceptor);
+        if (index !== -1) interceptors.splice(index, 1);
+      };
+    },
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * HTTP Error Hierarchy
+ * Typed errors shared by every API client. Provider errors (TMDBApiError,
+ * CloudflareApiError, OMDbError) extend these classes, so callers can
+ * handle failures without knowing which provider served the request.
+ *
+ * ApiError
+ * ├── HttpError            non-2xx response (TMDBApiError, CloudflareApiError)
+ * ├── NetworkError         fetch could not reach the server
+ * ├── TimeoutError         request aborted by the client timeout
+ * ├── RequestAbortedError  request cancelled by the caller
+ * ├── ParseError           response body was not valid JSON
+ * └── QuotaExceededError   client-side daily quota used up (no request sent)
+ */
+
+/** Extra details carried by an ApiError */
+export interface ApiErrorOptions {
+  /** Provider that produced the error (tmdb, cloudflare, omdb) */
+  provider?: string;
+  /** Server-assigned request ID, when the provider returns one */
+  requestId?: string;
+  /** Server-suggested wait before retrying (from Retry-After) */
+  retryAfterMs?: number;
+  /** Underlying error, if this one wraps another */
+  originalError?: unknown;
+  /** Additional debugging context */
+  context?: Record<string, unknown>;
+}
+
+/** Base class for every API client error */
+export class ApiError extends Error {
+  public provider?: string;
+  public requestId?: string;
+  public retryAfterMs?: number;
+  public originalError?: unknown;
+  public context?: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode?: number,
+    public isRetryable: boolean = false,
+    options: ApiErrorOptions = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.provider = options.provider;
+    this.requestId = options.requestId;
+    this.retryAfterMs = options.retryAfterMs;
+    this.originalError = options.originalError;
+    this.context = options.context;
+  }
+}
+
+/** Non-2xx HTTP response */
+export class HttpError extends ApiError {
+  declare statusCode: number;
+
+  constructor(
+    message: string,
+    statusCode: number,
+    isRetryable: boolean = isRetryableStatus(statusCode),
+    code: string = getErrorCodeForStatus(statusCode),
+    options: ApiErrorOptions = {}
+  ) {
+    super(message, code, statusCode, isRetryable, options);
+    this.name = 'HttpError';
+  }
+}
+
+/** The server could not be reached */
+export class NetworkError extends ApiError {
+  constructor(message: string = 'Network error occurred', options: ApiErrorOptions = {}) {
+    super(message, 'NETWORK_ERROR', undefined, true, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The request exceeded the client timeout */
+export class TimeoutError extends ApiError {
+  constructor(public timeoutMs: number, options: ApiErrorOptions = {}) {
+    super(`Request timeout after ${timeoutMs}ms`, 'TIMEOUT', undefined, true, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/** The request was cancelled by the caller's AbortSignal */
+export class RequestAbortedError extends ApiError {
+  constructor(options: ApiErrorOptions = {}) {
+    super('Request was aborted', 'ABORTED', undefined, false, options);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/** The response body could not be parsed */
+export class ParseError extends ApiError {
+  constructor(statusCode?: number, options: ApiErrorOptions = {}) {
+    super('Failed to parse JSON response', 'PARSE_ERROR', statusCode, false, options);
+    this.name = 'ParseError';
+  }
+}
+
+/** The provider's daily request quota is used up; the request was not sent */
+export class QuotaExceededError extends ApiError {
+  constructor(
+    message: string,
+    /** When the quota resets (ISO string) */
+    public resetsAt: string,
+    options: ApiErrorOptions = {}
+  ) {
+    super(message, 'QUOTA_EXCEEDED', undefined, false, options);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Whether an HTTP status should be retried (server errors and rate limiting)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 429;
+}
+
+/**
+ * Map an HTTP status to an error code
+ */
+export function getErrorCodeForStatus(status: number): string {
+  switch (status) {
+    case 400:
+      return 'BAD_REQUEST';
+    case 401:
+      return 'UNAUTHORIZED';
+    case 403:
+      return 'FORBIDDEN';
+    case 404:
+      return 'NOT_FOUND';
+    case 429:
+      return 'RATE_LIMIT';
+    case 500:
+      return 'SERVER_ERROR';
+    case 502:
+      return 'BAD_GATEWAY';
+    case 503:
+      return 'SERVICE_UNAVAILABLE';
+    case 504:
+      return 'GATEWAY_TIMEOUT';
+    default:
+      return 'HTTP_ERROR';
+  }
+}
+
+/**
+ * Whether an error was caused by rate limiting or an exhausted quota
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return error instanceof ApiError && (
+    error.code === 'RATE_LIMIT' ||
+    error.code === 'QUOTA_EXCEEDED' ||
+    error.statusCode === 429
+  );
+}
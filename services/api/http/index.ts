@@ -0,0 +1,60 @@
+/**
+ * Shared HTTP Client Module
+ * One fetch pipeline and error hierarchy for every API provider
+ */
+
+export { createHttpClient, addHttpInterceptor } from './client';
+
+export {
+  ApiError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  RequestAbortedError,
+  ParseError,
+  QuotaExceededError,
+  isRetryableStatus,
+  getErrorCodeForStatus,
+  isRateLimitError,
+  type ApiErrorOptions,
+} from './errors';
+
+export {
+  DEFAULT_RETRY_CONFIG,
+  calculateBackoffDelay,
+  parseRetryAfter,
+  getRetryAfterMs,
+  getRetryDelay,
+  sleep,
+} from './retry';
+
+export {
+  createRateLimiter,
+  getQuotaStatus,
+  getQuotaStatuses,
+  subscribeToQuotaStatus,
+  type RateLimiter,
+  type RateLimiterConfig,
+  type RequestPriority,
+  type QuotaStatus,
+} from './rate-limiter';
+
+export {
+  createAuthInterceptor,
+  createLoggingInterceptor,
+  createMetricsInterceptor,
+  type AuthInterceptorOptions,
+  type HttpMetric,
+} from './interceptors';
+
+export type {
+  RetryConfig,
+  HttpMethod,
+  HttpRequest,
+  HttpResponse,
+  RequestOptions,
+  HttpErrorInfo,
+  HttpInterceptor,
+  HttpClientConfig,
+  HttpClient,
+} from './types';
@@ -0,0 +1,104 @@
+/**
+ * HTTP Interceptors
+ * Reusable interceptors for auth, logging and metrics
+ */
+
+import type { HttpInterceptor, HttpRequest } from './types';
+
+/** Credentials added to every request */
+export interface AuthInterceptorOptions {
+  /** Headers to add, e.g. `{ Authorization: 'Bearer ...' }` */
+  headers?: () => Record<string, string>;
+  /** Query parameters to add, e.g. `{ api_key: '...' }` */
+  query?: () => Record<string, string>;
+}
+
+/** A completed request, as reported to metrics */
+export interface HttpMetric {
+  url: string;
+  method: string;
+  ok: boolean;
+  status: number | null;
+  errorCode: string | null;
+  attempts: number;
+  durationMs: number;
+}
+
+/** Strip the query string so metrics and logs never contain credentials */
+function redactUrl(url: string): string {
+  const queryIndex = url.indexOf('?');
+  return queryIndex === -1 ? url : url.slice(0, queryIndex);
+}
+
+/**
+ * Add credentials to outgoing requests
+ * Empty values are skipped and values already present on the request are kept
+ */
+export function createAuthInterceptor(options: AuthInterceptorOptions): HttpInterceptor {
+  return {
+    onRequest(request: HttpRequest): HttpRequest {
+      const headers = { ...request.headers };
+      Object.entries(options.headers?.() ?? {}).forEach(([key, value]) => {
+        if (value && headers[key] === undefined) headers[key] = value;
+      });
+
+      let url = request.url;
+      const query = options.query?.() ?? {};
+      if (Object.keys(query).length > 0) {
+        const parsed = new URL(request.url);
+        Object.entries(query).forEach(([key, value]) => {
+          if (value && !parsed.searchParams.has(key)) parsed.searchParams.set(key, value);
+        });
+        url = parsed.toString();
+      }
+
+      return { ...request, url, headers };
+    },
+  };
+}
+
+/**
+ * Log retries and failures to the console
+ * @param logger - Console-compatible logger
+ */
+export function createLoggingInterceptor(logger: Pick<Console, 'warn'> = console): HttpInterceptor {
+  return {
+    onError(error, request, info) {
+      const label = `[HTTP${error.provider ? `:${error.provider}` : ''}]`;
+      const action = info.willRetry ? `retrying (attempt ${info.attempt})` : 'failed';
+      logger.warn(`${label} ${request.method} ${redactUrl(request.url)} ${action}:`, error.code, error.message);
+    },
+  };
+}
+
+/**
+ * Report one metric per completed request (success or final failure)
+ * @param onMetric - Receives the metric; should not throw
+ */
+export function createMetricsInterceptor(onMetric: (metric: HttpMetric) => void): HttpInterceptor {
+  return {
+    onResponse(response, request) {
+      onMetric({
+        url: redactUrl(request.url),
+        method: request.method,
+        ok: true,
+        status: response.status,
+        errorCode: null,
+        attempts: response.attempts,
+        durationMs: response.durationMs,
+      });
+    },
+    onError(error, request, info) {
+      if (info.willRetry) return;
+      onMetric({
+        url: redactUrl(request.url),
+        method: request.method,
+        ok: false,
+        status: error.statusCode ?? null,
+        errorCode: error.code,
+        attempts: info.attempt,
+        durationMs: info.durationMs,
+      });
+    },
+  };
+}
@@ -0,0 +1,351 @@
+/**
+ * Client-Side Rate Limiter
+ * Token bucket per provider with a persisted daily request counter.
+ *
+ * - Bursts are limited by the bucket; tokens refill continuously
+ * - Priority lanes: queued `high` requests (detail pages) are served before
+ *   `normal` ones (search) and `low` ones (background prefetches, fallbacks)
+ * - Daily quota: requests are refused locally once the cap is reached, and
+ *   low-priority requests stop early so foreground screens keep working
+ * - Server hints from `X-RateLimit-Remaining` tighten the local estimate
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { API_HEADERS, RATE_LIMIT_CONFIG } from '@/constants/api';
+import { QuotaExceededError } from './errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Request priority lane */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/** Lanes in the order they are served */
+const PRIORITY_ORDER: RequestPriority[] = ['high', 'normal', 'low'];
+
+export interface RateLimiterConfig {
+  /** Provider name; also used for the persisted counter key */
+  provider: string;
+  /** Maximum burst size */
+  capacity: number;
+  /** Tokens added per second */
+  refillPerSecond: number;
+  /** Requests allowed per UTC day (omit for no daily cap) */
+  dailyLimit?: number;
+  /** Requests held back from low-priority calls near the daily cap */
+  lowPriorityReserve?: number;
+  /** Clock override for tests */
+  now?: () => number;
+}
+
+/** Quota usage for display (e.g. profile settings) */
+export interface QuotaStatus {
+  provider: string;
+  /** Daily cap, or null when the provider has none */
+  dailyLimit: number | null;
+  /** Requests sent today */
+  used: number;
+  /** Requests left today, or null when unknown */
+  remaining: number | null;
+  /** Requests waiting for a token */
+  queued: number;
+  isExhausted: boolean;
+  /** When the daily counter resets (ISO string, UTC midnight) */
+  resetsAt: string;
+}
+
+export interface RateLimiter {
+  readonly provider: string;
+  /** Wait for a token; rejects with QuotaExceededError when the quota is used up */
+  acquire(priority?: RequestPriority): Promise<void>;
+  /** Read rate limit headers from a response */
+  recordResponse(headers?: Pick<Headers, 'get'> | null): void;
+  /** Mark today's quota as used up (e.g. the server reported its limit) */
+  markExhausted(): void;
+  getStatus(): QuotaStatus;
+  /** Clear today's counter */
+  reset(): Promise<void>;
+}
+
+/** Persisted daily counter */
+interface DailyUsage {
+  /** UTC day the counter belongs to (YYYY-MM-DD) */
+  date: string;
+  used: number;
+  /** Last remaining count reported by the server, decremented locally */
+  serverRemaining: number | null;
+  exhausted: boolean;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/** UTC calendar day for a timestamp, e.g. 2024-01-31 */
+function getDayKey(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/** Next UTC midnight after a timestamp */
+function getNextResetAt(timestamp: number): string {
+  const date = new Date(timestamp);
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)).toISOString();
+}
+
+function createEmptyUsage(timestamp: number): DailyUsage {
+  return { date: getDayKey(timestamp), used: 0, serverRemaining: null, exhausted: false };
+}
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const limiters = new Map<string, RateLimiter>();
+const statusListeners = new Set<(statuses: QuotaStatus[]) => void>();
+
+/**
+ * Get quota status for every registered provider
+ */
+export function getQuotaStatuses(): QuotaStatus[] {
+  return [...limiters.values()].map(limiter => limiter.getStatus());
+}
+
+/**
+ * Get quota status for one provider
+ */
+export function getQuotaStatus(provider: string): QuotaStatus | null {
+  return limiters.get(provider)?.getStatus() ?? null;
+}
+
+/**
+ * Subscribe to quota changes
+ * @returns Unsubscribe function
+ */
+export function subscribeToQuotaStatus(listener: (statuses: QuotaStatus[]) => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+function notifyStatusListeners(): void {
+  const statuses = getQuotaStatuses();
+  statusListeners.forEach(listener => listener(statuses));
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+/**
+ * Create a rate limiter and register it for quota readouts
+ * Creating a second limiter for the same provider replaces the first
+ */
+export function createRateLimiter(config: RateLimiterConfig): RateLimiter {
+  const now = config.now ?? Date.now;
+  const storageKey = `${RATE_LIMIT_CONFIG.KEY_PREFIX}${config.provider}`;
+  const dailyLimit = config.dailyLimit ?? null;
+  const lowPriorityReserve = config.lowPriorityReserve ?? 0;
+
+  const lanes: Record<RequestPriority, Waiter[]> = { high: [], normal: [], low: [] };
+  let tokens = config.capacity;
+  let lastRefillAt = now();
+  let drainTimer: ReturnType<typeof setTimeout> | null = null;
+  let usage = createEmptyUsage(now());
+  let loadPromise: Promise<void> | null = null;
+
+  /** Load today's counter once; requests counted before it loaded are kept */
+  function load(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = AsyncStorage.getItem(storageKey)
+        .then(value => {
+          if (!value) return;
+          const stored = JSON.parse(value) as DailyUsage;
+          if (stored.date !== usage.date) return;
+          usage = {
+            date: stored.date,
+            used: stored.used + usage.used,
+            serverRemaining: usage.serverRemaining ?? stored.serverRemaining,
+            exhausted: stored.exhausted || usage.exhausted,
+          };
+        })
+        .catch(error => {
+          console.error(`[RateLimiter] Failed to load ${config.provider} usage:`, error);
+        });
+    }
+    return loadPromise;
+  }
+
+  function persist(): void {
+    // Providers without a daily cap have nothing worth keeping across restarts
+    if (dailyLimit === null) return;
+    AsyncStorage.setItem(storageKey, JSON.stringify(usage)).catch(error => {
+      console.error(`[RateLimiter] Failed to save ${config.provider} usage:`, error);
+    });
+  }
+
+  /** Start a new counter at UTC midnight */
+  function rollOver(): void {
+    const today = getDayKey(now());
+    if (usage.date !== today) {
+      usage = createEmptyUsage(now());
+      persist();
+    }
+  }
+
+  function getRemaining(): number | null {
+    if (usage.exhausted) return 0;
+    const local = dailyLimit === null ? null : Math.max(0, dailyLimit - usage.used);
+    if (usage.serverRemaining === null) return local;
+    return local === null ? usage.serverRemaining : Math.min(local, usage.serverRemaining);
+  }
+
+  /** Throw if a request of this priority may not be sent today */
+  function checkQuota(priority: RequestPriority): void {
+    const remaining = getRemaining();
+    const resetsAt = getNextResetAt(now());
+
+    if (remaining === 0) {
+      throw new QuotaExceededError(
+        `Daily ${config.provider} request quota exhausted`,
+        resetsAt,
+        { provider: config.provider, context: { dailyLimit, used: usage.used } }
+      );
+    }
+
+    if (priority === 'low' && dailyLimit !== null && remaining !== null && remaining <= lowPriorityReserve) {
+      throw new QuotaExceededError(
+        `Remaining ${config.provider} quota is reserved for foreground requests`,
+        resetsAt,
+        { provider: config.provider, context: { remaining, reserve: lowPriorityReserve } }
+      );
+    }
+  }
+
+  function refill(): void {
+    const current = now();
+    const elapsedSeconds = (current - lastRefillAt) / 1000;
+    tokens = Math.min(config.capacity, tokens + elapsedSeconds * config.refillPerSecond);
+    lastRefillAt = current;
+  }
+
+  function nextWaiter(): Waiter | undefined {
+    const lane = PRIORITY_ORDER.find(priority => lanes[priority].length > 0);
+    return lane ? lanes[lane].shift() : undefined;
+  }
+
+  function queuedCount(): number {
+    return PRIORITY_ORDER.reduce((count, priority) => count + lanes[priority].length, 0);
+  }
+
+  /** Hand out available tokens, highest priority first */
+  function drain(): void {
+    refill();
+    rollOver();
+    let changed = false;
+
+    while (tokens >= 1) {
+      const waiter = nextWaiter();
+      if (!waiter) break;
+
+      try {
+        checkQuota(waiter.priority);
+      } catch (error) {
+        waiter.reject(error as Error);
+        continue;
+      }
+
+      tokens -= 1;
+      usage.used += 1;
+      if (usage.serverRemaining !== null) {
+        usage.serverRemaining = Math.max(0, usage.serverRemaining - 1);
+      }
+      changed = true;
+      waiter.resolve();
+    }
+
+    if (changed) {
+      persist();
+      notifyStatusListeners();
+    }
+
+    if (queuedCount() > 0 && !drainTimer) {
+      const waitMs = Math.ceil(((1 - tokens) / config.refillPerSecond) * 1000);
+      drainTimer = setTimeout(() => {
+        drainTimer = null;
+        drain();
+      }, Math.max(waitMs, 0));
+    }
+  }
+
+  const limiter: RateLimiter = {
+    provider: config.provider,
+
+    async acquire(priority: RequestPriority = 'normal'): Promise<void> {
+      await load();
+      rollOver();
+      // Fail fast instead of queueing a request that can never be sent
+      checkQuota(priority);
+
+      return new Promise<void>((resolve, reject) => {
+        lanes[priority].push({ priority, resolve, reject });
+        drain();
+      });
+    },
+
+    recordResponse(headers) {
+      // Without a daily cap the header describes a short window the bucket already covers
+      if (dailyLimit === null) return;
+
+      const value = headers?.get?.(API_HEADERS.RATE_LIMIT_REMAINING);
+      const remaining = value ? parseInt(value, 10) : NaN;
+      if (!Number.isFinite(remaining)) return;
+
+      usage.serverRemaining = Math.max(0, remaining);
+      persist();
+      notifyStatusListeners();
+    },
+
+    markExhausted() {
+      rollOver();
+      usage.exhausted = true;
+      persist();
+      // Nothing queued can be sent today
+      drain();
+      notifyStatusListeners();
+    },
+
+    getStatus(): QuotaStatus {
+      const remaining = getRemaining();
+      return {
+        provider: config.provider,
+        dailyLimit,
+        used: usage.used,
+        remaining,
+        queued: queuedCount(),
+        isExhausted: remaining === 0,
+        resetsAt: getNextResetAt(now()),
+      };
+    },
+
+    async reset(): Promise<void> {
+      await load();
+      usage = createEmptyUsage(now());
+      tokens = config.capacity;
+      lastRefillAt = now();
+      await AsyncStorage.removeItem(storageKey).catch(() => {});
+      notifyStatusListeners();
+    },
+  };
+
+  limiters.set(config.provider, limiter);
+  notifyStatusListeners();
+  return limiter;
+}
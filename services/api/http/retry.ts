@@ -0,0 +1,92 @@
+/**
+ * HTTP Retry Utilities
+ * Backoff calculation, Retry-After parsing and retry delay selection
+ */
+
+import { ANIMATION_DURATION } from '@/constants/animations';
+import { API_HEADERS } from '@/constants/api';
+import type { ApiError } from './errors';
+import type { RetryConfig } from './types';
+
+/** Jitter range as a fraction of the delay (±25%) */
+const JITTER_RATIO = 0.25;
+
+/** Default retry configuration */
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  baseDelayMs: ANIMATION_DURATION.SLOW,
+  maxDelayMs: ANIMATION_DURATION.API_TIMEOUT,
+  backoffFactor: 2,
+  jitter: true,
+};
+
+/**
+ * Calculate delay for exponential backoff
+ * Jitter (±25%) is only applied when `config.jitter` is true, so callers
+ * that need predictable delays get `baseDelayMs * factor^attempt` capped at `maxDelayMs`
+ * @param attempt - Current attempt number (0-indexed)
+ * @param config - Retry configuration
+ * @returns Delay in milliseconds
+ */
+export function calculateBackoffDelay(
+  attempt: number,
+  config: RetryConfig = DEFAULT_RETRY_CONFIG
+): number {
+  const backoffFactor = config.backoffFactor || 2;
+  let delay = Math.min(config.baseDelayMs * Math.pow(backoffFactor, attempt), config.maxDelayMs);
+
+  // Spread retries out to avoid a thundering herd
+  if (config.jitter === true) {
+    const jitterRange = delay * JITTER_RATIO;
+    const jitter = (Math.random() - 0.5) * 2 * jitterRange;
+    delay = Math.min(
+      Math.max(config.baseDelayMs * 0.1, delay + jitter),
+      config.maxDelayMs
+    );
+  }
+
+  return Math.floor(delay);
+}
+
+/**
+ * Parse a Retry-After header value (delta seconds or HTTP date)
+ * @returns Delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) return undefined;
+  return Math.max(0, date - now);
+}
+
+/**
+ * Read the Retry-After header from a response
+ * Tolerates responses without headers (e.g. mocked fetch)
+ */
+export function getRetryAfterMs(response: Response): number | undefined {
+  return parseRetryAfter(response.headers?.get(API_HEADERS.RETRY_AFTER));
+}
+
+/**
+ * Default retry delay for an error
+ * Honors the server's Retry-After (capped at maxDelayMs), otherwise uses backoff
+ */
+export function getRetryDelay(error: ApiError, attempt: number, config: RetryConfig): number {
+  if (error.retryAfterMs !== undefined && error.retryAfterMs > 0) {
+    return Math.min(error.retryAfterMs, config.maxDelayMs);
+  }
+  return calculateBackoffDelay(attempt, config);
+}
+
+/**
+ * Sleep for a specified duration
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,105 @@
+/**
+ * HTTP Client Types
+ * Type definitions for the shared HTTP client
+ */
+
+import type { ApiError } from './errors';
+import type { RateLimiter, RequestPriority } from './rate-limiter';
+
+/** Retry configuration */
+export interface RetryConfig {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor?: number;
+  /** Randomize delays by ±25% */
+  jitter?: boolean;
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/** A fully resolved request, as seen by interceptors */
+export interface HttpRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: string;
+  timeoutMs: number;
+  retry: RetryConfig;
+  signal?: AbortSignal;
+  priority: RequestPriority;
+}
+
+/** A successful response */
+export interface HttpResponse<T> {
+  data: T;
+  status: number;
+  headers: Headers;
+  url: string;
+  /** Number of attempts it took, including the successful one */
+  attempts: number;
+  /** Total time across all attempts */
+  durationMs: number;
+}
+
+/** Per-request options */
+export interface RequestOptions {
+  method?: HttpMethod;
+  headers?: Record<string, string>;
+  body?: string;
+  timeoutMs?: number;
+  retry?: RetryConfig;
+  signal?: AbortSignal;
+  /** Share the result of an identical in-flight GET (default true) */
+  dedupe?: boolean;
+  /** Rate limiter lane (default 'normal') */
+  priority?: RequestPriority;
+}
+
+/** Details passed to error interceptors */
+export interface HttpErrorInfo {
+  /** Attempt that failed (1-indexed) */
+  attempt: number;
+  /** Whether the client will retry after this failure */
+  willRetry: boolean;
+  durationMs: number;
+}
+
+/** Hooks into the request lifecycle (auth, logging, metrics) */
+export interface HttpInterceptor {
+  /** Modify the request before it is sent; runs once per request, not per attempt */
+  onRequest?: (request: HttpRequest) => HttpRequest | Promise<HttpRequest>;
+  /** Observe a successful response */
+  onResponse?: (response: HttpResponse<unknown>, request: HttpRequest) => void;
+  /** Observe a failed attempt */
+  onError?: (error: ApiError, request: HttpRequest, info: HttpErrorInfo) => void;
+}
+
+/** Configuration for a provider's HTTP client */
+export interface HttpClientConfig {
+  /** Provider name attached to errors and metrics */
+  provider: string;
+  defaultHeaders?: Record<string, string>;
+  timeoutMs?: number;
+  retry?: RetryConfig;
+  interceptors?: HttpInterceptor[];
+  /** Token bucket and daily quota applied to every attempt */
+  rateLimiter?: RateLimiter;
+  /** Build the provider's error for a non-2xx response (body is parsed JSON when available) */
+  createError?: (response: Response, body: unknown) => ApiError;
+  /** Inspect a parsed 2xx body and throw for API-level errors */
+  validateResponse?: (body: unknown, response: Response) => void;
+  /** Override how long to wait before the next attempt */
+  getRetryDelay?: (error: ApiError, attempt: number, config: RetryConfig) => number;
+}
+
+/** Shared HTTP client */
+export interface HttpClient {
+  readonly provider: string;
+  /** Execute a request and return the full response */
+  request<T>(url: string, options?: RequestOptions): Promise<HttpResponse<T>>;
+  /** Execute a GET request and return the parsed body */
+  get<T>(url: string, options?: RequestOptions): Promise<T>;
+  /** Add an interceptor to this client; returns a function that removes it */
+  use(interceptor: HttpInterceptor): () => void;
+}
@@ -0,0 +1,368 @@
+/**
+ * Cross-Provider ID Mapping Registry
+ * Remembers which IMDb, TMDB and OMDb IDs refer to the same title so that
+ * stored references (watchlist, recently viewed) can be re-resolved after
+ * switching providers.
+ *
+ * - TMDB, Cloudflare and mock data share TMDB IDs; OMDb uses numeric IDs
+ *   hashed from IMDb IDs (see omdb/id-mapping.ts)
+ * - Every mapping we learn is persisted to AsyncStorage
+ * - Missing mappings are looked up through the active provider's lookup
+ *   endpoints, registered by the API service via setMediaIdResolver
+ * - References saved before IDs were tagged belong to the ID space that was
+ *   active when tagging started, which is recorded on first run
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ID_MAPPING_CONFIG } from '@/constants/api';
+import type { ExternalIds, MediaIdSpace, MediaRef } from '@/types/media';
+import { generateNumericId } from './omdb/id-mapping';
+
+type MediaType = 'movie' | 'tv';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A title's IDs as stored in the registry */
+interface IdMappingRecord extends ExternalIds {
+  mediaType: MediaType;
+  updatedAt: number;
+}
+
+/** Provider lookups used to fill in missing mappings */
+export interface MediaIdResolver {
+  /** ID space of the active provider (the IDs screens receive) */
+  idSpace: MediaIdSpace;
+  /** Look up external IDs for an ID in any space */
+  getExternalIds(idSpace: MediaIdSpace, mediaType: MediaType, id: number): Promise<ExternalIds | null>;
+  /** Find the active provider's ID for an IMDb ID */
+  findByImdbId(mediaType: MediaType, imdbId: string): Promise<number | null>;
+}
+
+// ============================================================================
+// Registry State
+// ============================================================================
+
+let records: IdMappingRecord[] = [];
+let byImdbId = new Map<string, IdMappingRecord>();
+let byTmdbId = new Map<string, IdMappingRecord>();
+let byOmdbId = new Map<number, IdMappingRecord>();
+let loadPromise: Promise<void> | null = null;
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+let activeResolver: MediaIdResolver | null = null;
+let legacyIdSpace: Promise<MediaIdSpace | null> = Promise.resolve(null);
+
+/** TMDB IDs are only unique per media type */
+function tmdbKey(mediaType: MediaType, tmdbId: number): string {
+  return `${mediaType}:${tmdbId}`;
+}
+
+/**
+ * Get the ID space a provider's adapter uses
+ */
+export function getProviderIdSpace(provider: string): MediaIdSpace {
+  return provider === 'omdb' ? 'omdb' : 'tmdb';
+}
+
+function rebuildIndexes(): void {
+  byImdbId = new Map();
+  byTmdbId = new Map();
+  byOmdbId = new Map();
+  records.forEach(record => {
+    if (record.imdbId) byImdbId.set(record.imdbId, record);
+    if (record.tmdbId !== null) byTmdbId.set(tmdbKey(record.mediaType, record.tmdbId), record);
+    if (record.omdbId !== null) byOmdbId.set(record.omdbId, record);
+  });
+}
+
+function findRecord(idSpace: MediaIdSpace, mediaType: MediaType, id: number): IdMappingRecord | undefined {
+  return idSpace === 'omdb' ? byOmdbId.get(id) : byTmdbId.get(tmdbKey(mediaType, id));
+}
+
+function toExternalIds(record: IdMappingRecord): ExternalIds {
+  return { imdbId: record.imdbId, tmdbId: record.tmdbId, omdbId: record.omdbId };
+}
+
+// ============================================================================
+// Persistence
+// ============================================================================
+
+async function saveNow(): Promise<void> {
+  try {
+    await AsyncStorage.setItem(ID_MAPPING_CONFIG.STORAGE_KEY, JSON.stringify(records));
+  } catch (error) {
+    console.error('[ID Mapping] Failed to save mappings:', error);
+  }
+}
+
+/** Batch writes: mapping a page of search results touches many titles at once */
+function scheduleSave(): void {
+  if (saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    saveNow();
+  }, ID_MAPPING_CONFIG.SAVE_DELAY_MS);
+}
+
+/**
+ * Load persisted mappings (once); mappings learned before loading are kept
+ */
+export function loadIdMappings(): Promise<void> {
+  if (!loadPromise) {
+    loadPromise = AsyncStorage.getItem(ID_MAPPING_CONFIG.STORAGE_KEY)
+      .then(value => {
+        if (!value) return;
+        const stored = JSON.parse(value) as IdMappingRecord[];
+        stored.forEach(record => mergeRecord(record.mediaType, record, record.updatedAt));
+      })
+      .catch(error => {
+        console.error('[ID Mapping] Failed to load mappings:', error);
+      });
+  }
+  return loadPromise;
+}
+
+/**
+ * Write pending changes to storage immediately
+ */
+export async function flushIdMappings(): Promise<void> {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  await saveNow();
+}
+
+/**
+ * Forget every mapping (memory and storage)
+ */
+export async function clearIdMappings(): Promise<void> {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+  records = [];
+  rebuildIndexes();
+  loadPromise = Promise.resolve();
+  await AsyncStorage.removeItem(ID_MAPPING_CONFIG.STORAGE_KEY).catch(() => {});
+}
+
+// ============================================================================
+// Recording Mappings
+// ============================================================================
+
+/**
+ * Merge IDs into the registry, joining any records they connect
+ * Returns true when something changed
+ */
+function mergeRecord(mediaType: MediaType, ids: Partial<ExternalIds>, updatedAt: number): boolean {
+  const imdbId = ids.imdbId ?? null;
+  const tmdbId = ids.tmdbId ?? null;
+  // OMDb IDs are derived from IMDb IDs, so they can always be filled in
+  const omdbId = ids.omdbId ?? (imdbId ? generateNumericId(imdbId) : null);
+
+  const candidates = [
+    imdbId ? byImdbId.get(imdbId) : undefined,
+    tmdbId !== null ? byTmdbId.get(tmdbKey(mediaType, tmdbId)) : undefined,
+    omdbId !== null ? byOmdbId.get(omdbId) : undefined,
+  ];
+  const matches = new Set(candidates.filter((r): r is IdMappingRecord => r !== undefined));
+
+  const existing = [...matches];
+  const merged: IdMappingRecord = {
+    mediaType,
+    imdbId: imdbId ?? existing.find(r => r.imdbId)?.imdbId ?? null,
+    tmdbId: tmdbId ?? existing.find(r => r.tmdbId !== null)?.tmdbId ?? null,
+    omdbId: omdbId ?? existing.find(r => r.omdbId !== null)?.omdbId ?? null,
+    updatedAt: Math.max(updatedAt, ...existing.map(r => r.updatedAt)),
+  };
+
+  if (
+    existing.length === 1 &&
+    existing[0].imdbId === merged.imdbId &&
+    existing[0].tmdbId === merged.tmdbId &&
+    existing[0].omdbId === merged.omdbId
+  ) {
+    return false;
+  }
+
+  if (merged.imdbId === null && merged.tmdbId === null && merged.omdbId === null) {
+    return false;
+  }
+
+  records = [...records.filter(r => !matches.has(r)), merged];
+  if (records.length > ID_MAPPING_CONFIG.MAX_RECORDS) {
+    records = [...records]
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .slice(0, ID_MAPPING_CONFIG.MAX_RECORDS);
+  }
+  rebuildIndexes();
+  return true;
+}
+
+/**
+ * Remember IDs that refer to the same title
+ * Called by adapters whenever a response reveals an external ID
+ */
+export function rememberExternalIds(mediaType: MediaType, ids: Partial<ExternalIds>): void {
+  if (mergeRecord(mediaType, ids, Date.now())) {
+    scheduleSave();
+  }
+}
+
+/**
+ * Get known external IDs for an ID (synchronous; only what is already loaded)
+ */
+export function getCachedExternalIds(
+  idSpace: MediaIdSpace,
+  mediaType: MediaType,
+  id: number
+): ExternalIds | null {
+  const record = findRecord(idSpace, mediaType, id);
+  return record ? toExternalIds(record) : null;
+}
+
+/**
+ * Get known external IDs for an ID, loading persisted mappings first
+ */
+export async function lookupExternalIds(
+  idSpace: MediaIdSpace,
+  mediaType: MediaType,
+  id: number
+): Promise<ExternalIds | null> {
+  await loadIdMappings();
+  return getCachedExternalIds(idSpace, mediaType, id);
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Read the ID space untagged references belong to, recording the current one on first run
+ * Every reference saved from the first run on is tagged, so untagged ones predate it
+ */
+function recordLegacyIdSpace(current: MediaIdSpace): Promise<MediaIdSpace | null> {
+  return legacyIdSpace
+    .then(() => AsyncStorage.getItem(ID_MAPPING_CONFIG.LEGACY_ID_SPACE_KEY))
+    .then(async stored => {
+      if (stored === 'tmdb' || stored === 'omdb') return stored;
+      await AsyncStorage.setItem(ID_MAPPING_CONFIG.LEGACY_ID_SPACE_KEY, current);
+      return current;
+    })
+    .catch(error => {
+      console.error('[ID Mapping] Failed to record the legacy ID space:', error);
+      return null;
+    });
+}
+
+/**
+ * Register the lookups for the active provider (done by the API service)
+ */
+export function setMediaIdResolver(resolver: MediaIdResolver | null): void {
+  activeResolver = resolver;
+  legacyIdSpace = resolver ? recordLegacyIdSpace(resolver.idSpace) : Promise.resolve(null);
+}
+
+/**
+ * Get the active provider's ID space, or null if no API service is loaded
+ */
+export function getActiveIdSpace(): MediaIdSpace | null {
+  return activeResolver?.idSpace ?? null;
+}
+
+/**
+ * Tag a new reference with the active ID space and any known IMDb ID
+ */
+export function tagMediaRef<T extends MediaRef>(ref: T): T {
+  const idSpace = ref.idSpace ?? getActiveIdSpace() ?? undefined;
+  if (!idSpace) return ref;
+
+  const imdbId = ref.imdbId ?? getCachedExternalIds(idSpace, ref.mediaType, ref.id)?.imdbId ?? null;
+  return { ...ref, idSpace, imdbId };
+}
+
+/**
+ * Translate a stored reference into the active provider's ID space
+ * References without an ID space are tagged with the legacy one first
+ * Returns the reference unchanged when it is already current or cannot be resolved yet
+ */
+export async function resolveMediaRef<T extends MediaRef>(ref: T): Promise<T> {
+  const resolver = activeResolver;
+  if (!resolver || ref.idSpace === resolver.idSpace) {
+    return ref;
+  }
+
+  if (!ref.idSpace) {
+    const idSpace = await legacyIdSpace;
+    return idSpace ? resolveMediaRef({ ...ref, idSpace }) : ref;
+  }
+
+  await loadIdMappings();
+
+  try {
+    const known = getCachedExternalIds(ref.idSpace, ref.mediaType, ref.id);
+    let imdbId = ref.imdbId ?? known?.imdbId ?? null;
+
+    if (!imdbId) {
+      const ids = await resolver.getExternalIds(ref.idSpace, ref.mediaType, ref.id);
+      imdbId = ids?.imdbId ?? null;
+    }
+    if (!imdbId) {
+      return ref;
+    }
+
+    const record = byImdbId.get(imdbId);
+    let targetId = resolver.idSpace === 'omdb' ? record?.omdbId ?? null : record?.tmdbId ?? null;
+    if (targetId === null) {
+      targetId = await resolver.findByImdbId(ref.mediaType, imdbId);
+    }
+    if (targetId === null) {
+      return ref;
+    }
+
+    rememberExternalIds(ref.mediaType, {
+      imdbId,
+      [ref.idSpace === 'omdb' ? 'omdbId' : 'tmdbId']: ref.id,
+      [resolver.idSpace === 'omdb' ? 'omdbId' : 'tmdbId']: targetId,
+    });
+
+    return { ...ref, id: targetId, idSpace: resolver.idSpace, imdbId };
+  } catch (error) {
+    console.warn(`[ID Mapping] Could not resolve ${ref.mediaType} ${ref.id} from ${ref.idSpace}:`, error);
+    return ref;
+  }
+}
+
+/**
+ * Translate a list of stored references, dropping duplicates that now point at the same title
+ * Resolves one at a time to stay within provider rate limits
+ */
+export async function resolveMediaRefs<T extends MediaRef>(
+  refs: T[]
+): Promise<{ items: T[]; changed: boolean }> {
+  const activeSpace = getActiveIdSpace();
+  if (!activeSpace || refs.every(ref => ref.idSpace === activeSpace)) {
+    return { items: refs, changed: false };
+  }
+
+  const items: T[] = [];
+  const seen = new Set<string>();
+  let changed = false;
+
+  for (const ref of refs) {
+    const resolved = await resolveMediaRef(ref);
+    if (resolved !== ref) changed = true;
+
+    const key = `${resolved.idSpace ?? ''}:${resolved.mediaType}:${resolved.id}`;
+    if (seen.has(key)) {
+      changed = true;
+      continue;
+    }
+    seen.add(key);
+    items.push(resolved);
+  }
+
+  return { items, changed };
+}
@@ -8,22 +8,46 @@
  */
 
 import type { MediaApiAdapter } from './types';
+import type { MediaIdSpace } from '@/types/media';
 import { tmdbAdapter } from './adapters/tmdb-adapter';
 import { mockAdapter } from './adapters/mock-adapter';
 import { omdbAdapter } from './adapters/omdb-adapter';
 import { cloudflareAdapter } from './adapters/cloudflare-adapter';
+import {
+  createFallbackAdapter,
+  parseProviderChain,
+  type FallbackProvider,
+} from './adapters/fallback-adapter';
+import { getProviderIdSpace, setMediaIdResolver } from './id-mapping';
 
 /** Check if mock data mode is enabled */
-export function useMockData(): boolean {
+export function isMockDataEnabled(): boolean {
   const envValue = process.env.EXPO_PUBLIC_USE_MOCK_DATA;
   return envValue === 'true' || envValue === '1';
 }
 
+/**
+ * Check if mock data mode is enabled
+ * @deprecated Not a hook despite the name; use isMockDataEnabled
+ */
+export function useMockData(): boolean {
+  return isMockDataEnabled();
+}
+
 /** Get the configured API provider */
 export function getApiProvider(): string {
   return process.env.EXPO_PUBLIC_API_PROVIDER || 'tmdb';
 }
 
+/**
+ * Get the configured provider chain
+ * EXPO_PUBLIC_API_PROVIDER accepts a comma-separated list such as `cloudflare,tmdb,mock`
+ */
+export function getApiProviderChain(): string[] {
+  const chain = parseProviderChain(getApiProvider());
+  return chain.length > 0 ? chain : ['tmdb'];
+}
+
 /** Validate OMDb configuration */
 function validateOMDbConfig(): void {
   const apiKey = process.env.EXPO_PUBLIC_OMDB_API_KEY;
@@ -63,36 +87,16 @@ export function validateProviderConfig(provider: string): void {
   }
 }
 
-/** Get the appropriate API adapter based on configuration */
-function getAdapter(): MediaApiAdapter {
-  // Mock data takes precedence
-  if (useMockData()) {
-    console.log('[API] Using mock data adapter');
-    return mockAdapter;
-  }
-
-  const provider = getApiProvider();
-  
-  // Validate configuration for the selected provider
-  try {
-    validateProviderConfig(provider);
-  } catch (error) {
-    console.error(`[API] Configuration validation failed for provider "${provider}":`, error);
-    throw error;
-  }
-  
+/** Resolve a single provider name to its adapter */
+function resolveAdapter(provider: string): MediaApiAdapter {
   switch (provider) {
     case 'tmdb':
-      console.log('[API] Using TMDB adapter');
       return tmdbAdapter;
     case 'omdb':
-      console.log('[API] Using OMDb adapter');
       return omdbAdapter;
     case 'cloudflare':
-      console.log('[API] Using Cloudflare Worker adapter');
       return cloudflareAdapter;
     case 'mock':
-      console.log('[API] Using mock data adapter');
       return mockAdapter;
     default:
       console.warn(`[API] Unknown provider "${provider}", falling back to TMDB`);
@@ -100,9 +104,84 @@ function getAdapter(): MediaApiAdapter {
   }
 }
 
+/** Get the appropriate API adapter based on configuration */
+function getAdapter(): MediaApiAdapter {
+  // Mock data takes precedence
+  if (isMockDataEnabled()) {
+    console.log('[API] Using mock data adapter');
+    return mockAdapter;
+  }
+
+  const chain = getApiProviderChain();
+
+  if (chain.length === 1) {
+    const provider = chain[0];
+
+    // Validate configuration for the selected provider
+    try {
+      validateProviderConfig(provider);
+    } catch (error) {
+      console.error(`[API] Configuration validation failed for provider "${provider}":`, error);
+      throw error;
+    }
+
+    console.log(`[API] Using ${provider} adapter`);
+    return resolveAdapter(provider);
+  }
+
+  // Provider chain: skip misconfigured providers instead of failing the whole app
+  const providers: FallbackProvider[] = [];
+  for (const provider of chain) {
+    try {
+      validateProviderConfig(provider);
+      providers.push({ name: provider, adapter: resolveAdapter(provider) });
+    } catch (error) {
+      console.warn(`[API] Skipping provider "${provider}" in chain:`, error);
+    }
+  }
+
+  if (providers.length === 0) {
+    throw new Error(`[API] No usable provider in chain "${chain.join(',')}"`);
+  }
+
+  console.log(`[API] Using provider chain: ${providers.map(p => p.name).join(' -> ')}`);
+  return createFallbackAdapter(providers);
+}
+
 /** The active media API adapter */
 export const mediaApi: MediaApiAdapter = getAdapter();
 
+/** ID space of the IDs screens receive (the first provider in the chain) */
+export function getConfiguredIdSpace(): MediaIdSpace {
+  return isMockDataEnabled() ? 'tmdb' : getProviderIdSpace(getApiProviderChain()[0]);
+}
+
+// Lets stored references (watchlist, recently viewed) follow a provider switch
+setMediaIdResolver({
+  idSpace: getConfiguredIdSpace(),
+
+  async getExternalIds(idSpace, mediaType, id) {
+    if (idSpace === getConfiguredIdSpace()) {
+      return mediaApi.getExternalIds(mediaType, id);
+    }
+
+    // The provider that issued the ID may no longer be configured,
+    // so try every adapter that shares its ID space
+    const candidates = idSpace === 'omdb' ? [omdbAdapter] : [tmdbAdapter, cloudflareAdapter];
+    for (const adapter of candidates) {
+      try {
+        const ids = await adapter.getExternalIds(mediaType, id);
+        if (ids.imdbId) return ids;
+      } catch {
+        // Try the next adapter
+      }
+    }
+    return null;
+  },
+
+  findByImdbId: (mediaType, imdbId) => mediaApi.findByImdbId(mediaType, imdbId),
+});
+
 // Re-export convenience functions that use the active adapter
 export const getTrending = mediaApi.getTrending.bind(mediaApi);
 export const getMovieDetails = mediaApi.getMovieDetails.bind(mediaApi);
@@ -110,14 +189,48 @@ export const getTvDetails = mediaApi.getTvDetails.bind(mediaApi);
 export const searchMulti = mediaApi.searchMulti.bind(mediaApi);
 export const getMovieCredits = mediaApi.getMovieCredits.bind(mediaApi);
 export const getTvCredits = mediaApi.getTvCredits.bind(mediaApi);
+export const getSeasonDetails = mediaApi.getSeasonDetails.bind(mediaApi);
+export const getEpisodeDetails = mediaApi.getEpisodeDetails.bind(mediaApi);
+export const getPersonDetails = mediaApi.getPersonDetails.bind(mediaApi);
+export const getPersonCredits = mediaApi.getPersonCredits.bind(mediaApi);
 export const getWatchProviders = mediaApi.getWatchProviders.bind(mediaApi);
 export const getRecommendations = mediaApi.getRecommendations.bind(mediaApi);
+export const getCuratedList = mediaApi.getCuratedList.bind(mediaApi);
 export const discoverByCountry = mediaApi.discoverByCountry.bind(mediaApi);
 export const getTrailerKey = mediaApi.getTrailerKey.bind(mediaApi);
 export const getImageUrl = mediaApi.getImageUrl.bind(mediaApi);
+export const getExternalIds = mediaApi.getExternalIds.bind(mediaApi);
+export const findByImdbId = mediaApi.findByImdbId.bind(mediaApi);
+
+// Re-export cross-provider ID mapping
+export {
+  rememberExternalIds,
+  lookupExternalIds,
+  resolveMediaRef,
+  resolveMediaRefs,
+  tagMediaRef,
+} from './id-mapping';
 
 // Re-export types
-export type { MediaApiAdapter, PaginatedResponse, ApiConfig } from './types';
+export type { MediaApiAdapter, PaginatedResponse, ApiConfig, CuratedListKind } from './types';
+export type {
+  FallbackMediaApiAdapter,
+  ProviderCallRecord,
+  ProviderHealth,
+} from './adapters/fallback-adapter';
 
-// Re-export retry utilities from tmdb for analytics service compatibility
-export { calculateBackoffDelay, type RetryConfig } from './tmdb';
+// Re-export the shared HTTP client, error hierarchy and retry utilities
+export {
+  calculateBackoffDelay,
+  addHttpInterceptor,
+  createLoggingInterceptor,
+  createMetricsInterceptor,
+  ApiError,
+  HttpError,
+  NetworkError,
+  TimeoutError,
+  RequestAbortedError,
+  ParseError,
+  type RetryConfig,
+  type HttpMetric,
+} from './http';
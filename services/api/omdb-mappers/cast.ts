@@ -3,7 +3,7 @@
  * Utilities for parsing cast and crew information
  */
 
-import type { CastMember, ExtendedCastMember } from '@/types/media';
+import type { CastMember, CrewMember, ExtendedCastMember, GuestStar } from '@/types/media';
 
 /**
  * Handles edge cases like empty strings and N/A values
@@ -162,4 +162,36 @@ export function getCastMembers(omdbDetail: any): CastMember[] {
 export function getFullCredits(omdbDetail: any): CastMember[] {
   const { allCast } = extractCastAndCrew(omdbDetail);
   return allCast;
-}
\ No newline at end of file
+}
+
+/**
+ * Get crew (directors and writers) from an OMDb episode response
+ * 
+ * @param omdbDetail - OMDb detail response object
+ * @returns Array of CrewMember objects
+ */
+export function getCrewMembers(omdbDetail: any): CrewMember[] {
+  return [...parseDirectors(omdbDetail.Director), ...parseWriters(omdbDetail.Writer)].map(member => ({
+    id: member.id,
+    name: member.name,
+    job: member.job,
+    department: member.department,
+    profilePath: member.profilePath,
+  }));
+}
+
+/**
+ * Get guest stars from an OMDb episode response
+ * OMDb lists an episode's main actors, without character names
+ * 
+ * @param omdbDetail - OMDb detail response object
+ * @returns Array of GuestStar objects
+ */
+export function getGuestStars(omdbDetail: any): GuestStar[] {
+  return parseCastString(omdbDetail.Actors).map(actor => ({
+    id: actor.id,
+    name: actor.name,
+    character: actor.character,
+    profilePath: actor.profilePath,
+  }));
+}
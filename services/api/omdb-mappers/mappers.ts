@@ -3,9 +3,16 @@
  * Main mapping functions to convert OMDb responses to application types
  */
 
-import type { MediaItem, MediaDetails } from '@/types/media';
+import type {
+  MediaItem,
+  MediaDetails,
+  SeasonDetails,
+  EpisodeSummary,
+  EpisodeDetails,
+} from '@/types/media';
 import type { SearchResults } from '@/types/user';
 import { generateNumericId } from '../omdb';
+import { rememberExternalIds } from '../id-mapping';
 import {
   parseRuntime,
   parseGenres,
@@ -15,8 +22,11 @@ import {
   parseRating,
   parseReleaseDate,
   parseReleasedDate,
+  parseRegionalReleases,
 } from './parsers';
+import { normalizeCertification } from '@/utils/certifications';
 import { normalizePosterUrl } from './images';
+import { getCrewMembers, getGuestStars } from './cast';
 
 /**
  * Map OMDb media type to application media type
@@ -32,6 +42,11 @@ export function mapMediaType(omdbType: 'movie' | 'series' | 'episode'): 'movie'
  * Requirements: 1.5, 3.4
  */
 export function mapOMDbToMediaItem(omdbItem: any): MediaItem {
+  // Keep the IMDb ID so the item can be reopened after a restart or provider switch
+  if (omdbItem.imdbID) {
+    rememberExternalIds(mapMediaType(omdbItem.Type), { imdbId: omdbItem.imdbID });
+  }
+
   return {
     id: generateNumericId(omdbItem.imdbID),
     title: omdbItem.Title || '',
@@ -42,11 +57,7 @@ export function mapOMDbToMediaItem(omdbItem: any): MediaItem {
     backdropPath: null, // OMDb doesn't provide backdrop images
     voteAverage: parseRating(omdbItem.imdbRating),
     voteCount: parseVoteCount(omdbItem.imdbVotes),
-    popularity: 0, // OMDb doesn't provide popularity scores
     genreIds: parseGenres(omdbItem.Genre).map(g => g.id),
-    originalLanguage: 'en', // OMDb doesn't specify, default to English
-    adult: false, // OMDb doesn't provide adult content flags
-    video: false,
     mediaType: mapMediaType(omdbItem.Type),
   };
 }
@@ -59,7 +70,7 @@ export function mapOMDbToMediaItem(omdbItem: any): MediaItem {
  */
 export function mapOMDbToMediaDetails(omdbDetail: any): MediaDetails {
   const genres = parseGenres(omdbDetail.Genre);
-  
+
   return {
     id: generateNumericId(omdbDetail.imdbID),
     title: omdbDetail.Title || '',
@@ -68,23 +79,80 @@ export function mapOMDbToMediaDetails(omdbDetail: any): MediaDetails {
     releaseDate: parseReleasedDate(omdbDetail.Released) || parseReleaseDate(omdbDetail.Year),
     runtime: parseRuntime(omdbDetail.Runtime),
     genres,
+    genreIds: genres.map(g => g.id),
     productionCountries: parseCountries(omdbDetail.Country),
     spokenLanguages: parseLanguages(omdbDetail.Language),
     posterPath: normalizePosterUrl(omdbDetail.Poster),
     backdropPath: null, // OMDb doesn't provide backdrop images
     voteAverage: parseRating(omdbDetail.imdbRating),
     voteCount: parseVoteCount(omdbDetail.imdbVotes),
-    popularity: 0, // OMDb doesn't provide popularity scores
     budget: 0, // OMDb doesn't provide budget information
     revenue: 0, // OMDb doesn't provide revenue information
     status: 'Released', // Assume released if in OMDb
     tagline: '', // OMDb doesn't provide taglines
-    adult: false, // OMDb doesn't provide adult content flags
-    video: false,
-    homepage: null, // OMDb doesn't provide homepage URLs
     imdbId: omdbDetail.imdbID,
-    originalLanguage: parseLanguages(omdbDetail.Language)[0]?.iso6391 || 'en',
     mediaType: mapMediaType(omdbDetail.Type),
+    ageRating: normalizeCertification(omdbDetail.Rated),
+    releases: parseRegionalReleases(omdbDetail.Rated, omdbDetail.Released, omdbDetail.Country),
+  };
+}
+
+/**
+ * Map an OMDb season listing to SeasonDetails
+ * OMDb has no season IDs, overviews or posters, so these are derived or left empty
+ * 
+ * @param omdbSeason - OMDb season response
+ * @param seriesId - Numeric ID of the series
+ * @param posterPath - Series poster to show for the season
+ */
+export function mapOMDbSeasonToSeasonDetails(
+  omdbSeason: any,
+  seriesId: number,
+  posterPath: string | null = null
+): SeasonDetails {
+  const seasonNumber = parseInt(omdbSeason.Season, 10) || 0;
+  const episodes: EpisodeSummary[] = (omdbSeason.Episodes ?? []).map((episode: any) => ({
+    id: generateNumericId(episode.imdbID),
+    episodeNumber: parseInt(episode.Episode, 10) || 0,
+    seasonNumber,
+    name: episode.Title || '',
+    overview: '', // Season listings don't include plots
+    stillPath: null,
+    airDate: parseReleasedDate(episode.Released),
+    runtime: null,
+    voteAverage: parseRating(episode.imdbRating) ?? 0,
+    voteCount: 0,
+  }));
+
+  return {
+    id: seriesId * 100 + seasonNumber,
+    seasonNumber,
+    name: `Season ${seasonNumber}`,
+    overview: '',
+    posterPath,
+    airDate: episodes[0]?.airDate ?? '',
+    episodes,
+  };
+}
+
+/**
+ * Map an OMDb episode response to EpisodeDetails
+ * Crew comes from the Director/Writer fields, guest stars from Actors
+ */
+export function mapOMDbToEpisodeDetails(omdbEpisode: any): EpisodeDetails {
+  return {
+    id: generateNumericId(omdbEpisode.imdbID),
+    episodeNumber: parseInt(omdbEpisode.Episode, 10) || 0,
+    seasonNumber: parseInt(omdbEpisode.Season, 10) || 0,
+    name: omdbEpisode.Title || '',
+    overview: omdbEpisode.Plot && omdbEpisode.Plot !== 'N/A' ? omdbEpisode.Plot : '',
+    stillPath: normalizePosterUrl(omdbEpisode.Poster),
+    airDate: parseReleasedDate(omdbEpisode.Released),
+    runtime: parseRuntime(omdbEpisode.Runtime),
+    voteAverage: parseRating(omdbEpisode.imdbRating) ?? 0,
+    voteCount: parseVoteCount(omdbEpisode.imdbVotes),
+    crew: getCrewMembers(omdbEpisode),
+    guestStars: getGuestStars(omdbEpisode),
   };
 }
 
@@ -3,7 +3,14 @@
  * Utility functions for parsing OMDb API response data
  */
 
-import type { Genre, Country, Language } from '@/types/media';
+import type { Genre, Country, Language, RegionalRelease } from '@/types/media';
+import { FALLBACK_RELEASE_COUNTRY, normalizeCertification } from '@/utils/certifications';
+
+/** Ratings from the US film (MPA) and TV Parental Guidelines systems */
+const US_CERTIFICATIONS = [
+  'G', 'PG', 'PG-13', 'R', 'NC-17', 'Approved', 'Passed',
+  'TV-Y', 'TV-Y7', 'TV-Y7-FV', 'TV-G', 'TV-PG', 'TV-14', 'TV-MA',
+];
 
 /**
  * Parse runtime string (e.g., "148 min") to number of minutes
@@ -43,9 +50,8 @@ export function parseCountries(countryString: string | undefined): Country[] {
   return countryString.split(',').map(name => {
     const trimmedName = name.trim();
     return {
-      iso31661: getCountryCode(trimmedName),
-      englishName: trimmedName,
-      nativeName: trimmedName,
+      iso_3166_1: getCountryCode(trimmedName),
+      name: trimmedName,
     };
   });
 }
@@ -61,7 +67,7 @@ export function parseLanguages(languageString: string | undefined): Language[] {
   return languageString.split(',').map(name => {
     const trimmedName = name.trim();
     return {
-      iso6391: getLanguageCode(trimmedName),
+      iso_639_1: getLanguageCode(trimmedName),
       englishName: trimmedName,
       name: trimmedName,
     };
@@ -198,4 +204,27 @@ function getLanguageCode(languageName: string): string {
   };
   
   return languageMap[languageName] || languageName.substring(0, 2).toLowerCase();
-}
\ No newline at end of file
+}
+/**
+ * Parse the "Rated" certification and "Released" date into a regional release
+ * OMDb gives one certification, from the US rating systems for US titles and
+ * from the title's own country otherwise, so it is placed in the first
+ * production country unless it is a US rating
+ */
+export function parseRegionalReleases(
+  ratedString: string | undefined,
+  releasedString: string | undefined,
+  countryString: string | undefined
+): RegionalRelease[] {
+  const certification = normalizeCertification(ratedString);
+  const releaseDate = parseReleasedDate(releasedString) || null;
+  if (!certification && !releaseDate) {
+    return [];
+  }
+
+  const isUSRating = certification !== null && US_CERTIFICATIONS.includes(certification);
+  const firstCountry = countryString && countryString !== 'N/A' ? countryString.split(',')[0].trim() : '';
+  const countryCode = isUSRating || !firstCountry ? FALLBACK_RELEASE_COUNTRY : getCountryCode(firstCountry);
+
+  return [{ countryCode, releaseDate, certification }];
+}
@@ -1,12 +1,15 @@
 /**
  * OMDb API Client
- * Main HTTP client with retry logic and error handling
+ * OMDb configuration on top of the shared HTTP client
  */
 
 import { OMDbError } from './errors';
 import { getOMDbConfig, DEFAULT_RETRY_CONFIG } from './config';
-import { parseOMDbErrorCode, logError, isRetryableError, getRetryDelay, createHttpError, sleep } from './utils';
+import { parseOMDbErrorCode, logError, getRetryDelay, createHttpError } from './utils';
 import { ANIMATION_DURATION } from '@/constants/animations';
+import { RATE_LIMIT_CONFIG } from '@/constants/api';
+import { withHttpCache, type HttpCacheOptions } from '../http-cache';
+import { createHttpClient, createRateLimiter, type RequestPriority } from '../http';
 import type { RetryConfig } from './types';
 
 /**
@@ -42,57 +45,60 @@ export function isHttpsUrl(url: string): boolean {
   }
 }
 
-/**
- * Handle OMDb API response and check for errors
- * Provides comprehensive error parsing and graceful error handling
- */
-async function handleOMDbResponse<T extends { Response: string; Error?: string }>(
-  response: Response
-): Promise<T> {
-  // Handle HTTP errors
-  if (!response.ok) {
-    const httpError = createHttpError(response);
-    logError(httpError, { url: response.url });
-    throw httpError;
-  }
-  
-  let data: T;
-  try {
-    data = await response.json() as T;
-  } catch (parseError) {
-    const error = new OMDbError(
-      'Failed to parse JSON response',
-      'PARSE_ERROR',
-      response.status,
-      false,
-      parseError,
-      { url: response.url }
-    );
-    logError(error);
-    throw error;
-  }
-  
-  // OMDb returns Response: "False" for API-level errors
-  if (data.Response === 'False') {
-    const errorMessage = data.Error || 'Unknown OMDb error';
-    const code = parseOMDbErrorCode(errorMessage);
-    
-    const error = new OMDbError(
-      errorMessage,
-      code,
-      undefined,
-      false,
-      undefined,
-      { url: response.url, omdbResponse: data }
-    );
-    
-    // Log error with appropriate level
-    logError(error);
-    throw error;
-  }
-  
-  return data;
-}
+/** OMDb keys have a hard daily cap, so requests are counted before they are sent */
+export const omdbRateLimiter = createRateLimiter({
+  provider: 'omdb',
+  capacity: RATE_LIMIT_CONFIG.OMDB.CAPACITY,
+  refillPerSecond: RATE_LIMIT_CONFIG.OMDB.REFILL_PER_SECOND,
+  dailyLimit: RATE_LIMIT_CONFIG.OMDB.DAILY_LIMIT,
+  lowPriorityReserve: RATE_LIMIT_CONFIG.OMDB.LOW_PRIORITY_RESERVE,
+});
+
+/** HTTP client for OMDb; `Response: "False"` bodies become OMDbErrors */
+export const omdbHttpClient = createHttpClient({
+  provider: 'omdb',
+  defaultHeaders: {
+    'Accept': 'application/json',
+    'User-Agent': 'MovieTracker/1.0',
+  },
+  timeoutMs: ANIMATION_DURATION.API_TIMEOUT,
+  retry: DEFAULT_RETRY_CONFIG,
+  rateLimiter: omdbRateLimiter,
+  createError: (response) => createHttpError(response),
+  validateResponse: (body, response) => {
+    const data = body as { Response?: string; Error?: string };
+
+    // OMDb returns Response: "False" for API-level errors
+    if (data.Response === 'False') {
+      const errorMessage = data.Error || 'Unknown OMDb error';
+      const code = parseOMDbErrorCode(errorMessage);
+
+      // Our local count drifted (other devices share the key); stop until tomorrow
+      if (code === 'REQUEST_LIMIT') {
+        omdbRateLimiter.markExhausted();
+      }
+
+      throw new OMDbError(
+        errorMessage,
+        code,
+        undefined,
+        false,
+        undefined,
+        { url: response.url, omdbResponse: data }
+      );
+    }
+  },
+  getRetryDelay,
+  interceptors: [
+    {
+      onError(error, _request, info) {
+        logError(error, info.willRetry
+          ? { retrying: true, attempt: info.attempt }
+          : { finalAttempt: true, totalAttempts: info.attempt });
+      },
+    },
+  ],
+});
 
 /**
  * Execute a fetch request with retry logic and exponential backoff
@@ -100,12 +106,14 @@ async function handleOMDbResponse<T extends { Response: string; Error?: string }
  * @param url - URL to fetch (must be HTTPS)
  * @param config - Retry configuration
  * @param timeoutMs - Request timeout in milliseconds
+ * @param priority - Rate limiter lane
  * @returns Response data
  */
 export async function fetchWithRetry<T extends { Response: string; Error?: string }>(
   url: string,
   config: RetryConfig = DEFAULT_RETRY_CONFIG,
-  timeoutMs: number = ANIMATION_DURATION.API_TIMEOUT
+  timeoutMs: number = ANIMATION_DURATION.API_TIMEOUT,
+  priority: RequestPriority = 'normal'
 ): Promise<T> {
   // Validate HTTPS usage (Requirement 1.4)
   if (!isHttpsUrl(url)) {
@@ -118,84 +126,25 @@ export async function fetchWithRetry<T extends { Response: string; Error?: strin
       { url }
     );
   }
-  
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < config.maxAttempts; attempt++) {
-    try {
-      // Create AbortController for timeout handling
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
 
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': 'MovieTracker/1.0',
-        },
-        signal: controller.signal,
-      });
-
-      // Clear timeout if request completes
-      clearTimeout(timeoutId);
-
-      return await handleOMDbResponse<T>(response);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // Handle AbortError (timeout)
-      if (lastError.name === 'AbortError') {
-        lastError = new OMDbError(
-          `Request timeout after ${timeoutMs}ms`,
-          'TIMEOUT',
-          undefined,
-          true,
-          lastError,
-          { url, timeoutMs, attempt: attempt + 1 }
-        );
-      }
-
-      // Handle network errors
-      if (lastError instanceof TypeError && lastError.message.includes('fetch')) {
-        lastError = new OMDbError(
-          'Network error occurred',
-          'NETWORK_ERROR',
-          undefined,
-          true,
-          lastError,
-          { url, attempt: attempt + 1 }
-        );
-      }
-
-      // Don't retry if it's the last attempt or error is not retryable
-      if (attempt === config.maxAttempts - 1 || !isRetryableError(lastError)) {
-        // Log final failure
-        if (lastError instanceof OMDbError) {
-          logError(lastError, { finalAttempt: true, totalAttempts: config.maxAttempts });
-        }
-        throw lastError;
-      }
-
-      // Calculate delay for next attempt
-      const delay = lastError instanceof OMDbError 
-        ? getRetryDelay(lastError, attempt, config)
-        : config.baseDelayMs * Math.pow(2, attempt);
-
-      // Log retry attempt
-      if (lastError instanceof OMDbError) {
-        logError(lastError, { 
-          retrying: true, 
-          attempt: attempt + 1, 
-          maxAttempts: config.maxAttempts,
-          delayMs: delay 
-        });
-      }
-
-      // Wait before retrying
-      await sleep(delay);
-    }
-  }
+  return omdbHttpClient.get<T>(url, { retry: config, timeoutMs, priority });
+}
 
-  // This should never be reached, but TypeScript requires it
-  throw lastError || new OMDbError('Unknown error occurred', 'UNKNOWN_ERROR');
-}
\ No newline at end of file
+/**
+ * Execute a GET request through the persistent response cache
+ * @param url - URL to fetch (must be HTTPS)
+ * @param cacheOptions - TTL override and refresh behaviour
+ * @param priority - Rate limiter lane; cache hits never count against the quota
+ * @returns Response data
+ */
+export function cachedFetch<T extends { Response: string; Error?: string }>(
+  url: string,
+  cacheOptions?: HttpCacheOptions,
+  priority: RequestPriority = 'normal'
+): Promise<T> {
+  return withHttpCache(
+    url,
+    () => fetchWithRetry<T>(url, DEFAULT_RETRY_CONFIG, ANIMATION_DURATION.API_TIMEOUT, priority),
+    cacheOptions
+  );
+}
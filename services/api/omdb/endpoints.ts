@@ -0,0 +1,130 @@
+/**
+ * OMDb API Endpoints
+ * Search and detail lookups
+ *
+ * Requirements: 2.1, 2.2, 2.3, 3.1, 3.2, 3.3
+ */
+
+import { OMDbError } from './errors';
+import { buildOMDbUrl, cachedFetch } from './client';
+import type {
+  OMDbSearchParams,
+  OMDbSearchResults,
+  OMDbSearchResponse,
+  OMDbDetailByIdParams,
+  OMDbDetailByTitleParams,
+  OMDbDetailResponse,
+  OMDbSeasonParams,
+  OMDbSeasonResponse,
+  OMDbEpisodeParams,
+} from './types';
+
+/** OMDb always returns 10 search results per page */
+export const OMDB_RESULTS_PER_PAGE = 10;
+
+/** Search errors that simply mean "no results" */
+const EMPTY_SEARCH_ERROR_CODES = ['NOT_FOUND', 'TOO_MANY_RESULTS'];
+
+/** Reject IDs OMDb would only answer with an error */
+function assertImdbId(imdbId: string, operation: string): void {
+  if (!imdbId.startsWith('tt')) {
+    throw new OMDbError(
+      `Invalid IMDb ID: ${imdbId}`,
+      'INVALID_IMDB_ID',
+      undefined,
+      false,
+      undefined,
+      { operation, imdbId }
+    );
+  }
+}
+
+/**
+ * Search titles by name
+ * Empty queries and "not found" responses return empty results instead of throwing
+ */
+export async function searchContent(params: OMDbSearchParams): Promise<OMDbSearchResults> {
+  const { query, page = 1, type, year, priority } = params;
+  const emptyResults: OMDbSearchResults = { items: [], totalResults: 0, page, totalPages: 0 };
+
+  if (!query.trim()) {
+    return emptyResults;
+  }
+
+  const url = buildOMDbUrl({ s: query.trim(), page, type, y: year });
+
+  try {
+    const data = await cachedFetch<OMDbSearchResponse>(url, undefined, priority);
+    const totalResults = parseInt(data.totalResults ?? '0', 10) || 0;
+
+    return {
+      items: data.Search ?? [],
+      totalResults,
+      page,
+      totalPages: Math.ceil(totalResults / OMDB_RESULTS_PER_PAGE),
+    };
+  } catch (error) {
+    if (error instanceof OMDbError && EMPTY_SEARCH_ERROR_CODES.includes(error.code)) {
+      return emptyResults;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get full details for a title by IMDb ID
+ */
+export async function getDetailsByImdbId(params: OMDbDetailByIdParams): Promise<OMDbDetailResponse> {
+  const { imdbId, plot = 'full', priority } = params;
+  assertImdbId(imdbId, 'getDetailsByImdbId');
+
+  return cachedFetch<OMDbDetailResponse>(buildOMDbUrl({ i: imdbId, plot }), undefined, priority);
+}
+
+/**
+ * Get full details for the best match of a title
+ */
+export async function getDetailsByTitle(params: OMDbDetailByTitleParams): Promise<OMDbDetailResponse> {
+  const { title, type, year, plot = 'full', priority } = params;
+
+  if (!title.trim()) {
+    throw new OMDbError(
+      'Title must not be empty',
+      'INVALID_TITLE',
+      undefined,
+      false,
+      undefined,
+      { operation: 'getDetailsByTitle' }
+    );
+  }
+
+  return cachedFetch<OMDbDetailResponse>(
+    buildOMDbUrl({ t: title.trim(), type, y: year, plot }),
+    undefined,
+    priority
+  );
+}
+
+/**
+ * Get the episode list of one season of a series
+ */
+export async function getSeason(params: OMDbSeasonParams): Promise<OMDbSeasonResponse> {
+  const { imdbId, season, priority } = params;
+  assertImdbId(imdbId, 'getSeason');
+
+  return cachedFetch<OMDbSeasonResponse>(buildOMDbUrl({ i: imdbId, Season: season }), undefined, priority);
+}
+
+/**
+ * Get full details for one episode of a series
+ */
+export async function getEpisode(params: OMDbEpisodeParams): Promise<OMDbDetailResponse> {
+  const { imdbId, season, episode, plot = 'full', priority } = params;
+  assertImdbId(imdbId, 'getEpisode');
+
+  return cachedFetch<OMDbDetailResponse>(
+    buildOMDbUrl({ i: imdbId, Season: season, Episode: episode, plot }),
+    undefined,
+    priority
+  );
+}
@@ -3,17 +3,19 @@
  * Error classes and utilities for OMDb API
  */
 
+import { ApiError } from '../http';
+
 /** OMDb API Error class for API-specific errors */
-export class OMDbError extends Error {
+export class OMDbError extends ApiError {
   constructor(
     message: string,
-    public code: string,
-    public statusCode?: number,
-    public isRetryable: boolean = false,
-    public originalError?: unknown,
-    public context?: Record<string, unknown>
+    code: string,
+    statusCode?: number,
+    isRetryable: boolean = false,
+    originalError?: unknown,
+    context?: Record<string, unknown>
   ) {
-    super(message);
+    super(message, code, statusCode, isRetryable, { provider: 'omdb', originalError, context });
     this.name = 'OMDbError';
     
     // Ensure stack trace is captured
@@ -0,0 +1,40 @@
+/**
+ * OMDb ID Mapping
+ * OMDb identifies titles by IMDb ID (e.g. tt0133093) while the app uses
+ * numeric IDs, so IMDb IDs are hashed to stable numbers and the reverse
+ * mapping is remembered for later detail lookups.
+ */
+
+/** Numeric ID -> IMDb ID for every title seen this session */
+const idMappingCache = new Map<number, string>();
+
+/**
+ * Generate a stable numeric ID from an IMDb ID
+ * Uses a 32-bit string hash so the same IMDb ID always maps to the same number
+ */
+export function generateNumericId(imdbId: string): number {
+  let hash = 0;
+  for (let i = 0; i < imdbId.length; i++) {
+    const char = imdbId.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash; // Convert to 32-bit integer
+  }
+
+  const numericId = Math.abs(hash);
+  idMappingCache.set(numericId, imdbId);
+  return numericId;
+}
+
+/**
+ * Look up the IMDb ID for a numeric ID produced by generateNumericId
+ */
+export function getImdbIdFromNumeric(numericId: number): string | undefined {
+  return idMappingCache.get(numericId);
+}
+
+/**
+ * Forget all ID mappings
+ */
+export function clearIdMappingCache(): void {
+  idMappingCache.clear();
+}
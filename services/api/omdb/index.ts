@@ -5,51 +5,51 @@
  * Requirements: 1.3, 1.4, 8.1
  */
 
-import {
-  searchContent,
-  getDetailsByImdbId,
-  getDetailsByTitle,
-  generateNumericId,
-  getImdbIdFromNumeric,
-  clearIdMappingCache,
-  type OMDbSearchParams,
-  type OMDbSearchResults,
-  type OMDbDetailByIdParams,
-  type OMDbDetailByTitleParams,
-  type OMDbDetailResponse,
-  type OMDbSearchType,
-  type OMDbPlotLength,
-} from './client';
-
-// Re-export types and utilities
+// Re-export types
 export type {
+  OMDbConfig,
+  OMDbSearchItem,
+  OMDbSearchResponse,
+  OMDbRating,
+  OMDbDetailResponse,
+  OMDbErrorResponse,
   OMDbSearchParams,
   OMDbSearchResults,
   OMDbDetailByIdParams,
   OMDbDetailByTitleParams,
-  OMDbDetailResponse,
+  OMDbSeasonEpisode,
+  OMDbSeasonResponse,
+  OMDbSeasonParams,
+  OMDbEpisodeParams,
   OMDbSearchType,
   OMDbPlotLength,
-};
+  RetryConfig,
+} from './types';
 
+// Re-export ID mapping
 export {
   generateNumericId,
   getImdbIdFromNumeric,
   clearIdMappingCache,
-};
+} from './id-mapping';
 
 // Re-export main API functions
 export {
   searchContent,
   getDetailsByImdbId,
   getDetailsByTitle,
-};
+  getSeason,
+  getEpisode,
+  OMDB_RESULTS_PER_PAGE,
+} from './endpoints';
 
 // Re-export error classes
-export { OMDbError, OMDbApiError } from './client';
+export { OMDbError, OMDbApiError } from './errors';
 
 // Re-export configuration functions
-export { getOMDbConfig, getOMDbApiKey, buildOMDbUrl, isHttpsUrl } from './client';
+export { getOMDbConfig, getOMDbApiKey, DEFAULT_RETRY_CONFIG } from './config';
+export { buildOMDbUrl, isHttpsUrl, omdbHttpClient, omdbRateLimiter } from './client';
 
 // Re-export retry utilities
-export { fetchWithRetry, calculateBackoffDelay, DEFAULT_RETRY_CONFIG } from './client';
\ No newline at end of file
+export { fetchWithRetry, cachedFetch } from './client';
+export { calculateBackoffDelay } from './utils';
@@ -3,6 +3,8 @@
  * Type definitions for OMDb API responses and configuration
  */
 
+import type { RequestPriority } from '../http';
+
 /** OMDb API Configuration */
 export interface OMDbConfig {
   baseUrl: string;
@@ -60,6 +62,29 @@ export interface OMDbDetailResponse {
   Production?: string;
   Website?: string;
   totalSeasons?: string;
+  /** Episode lookups only */
+  Season?: string;
+  Episode?: string;
+  seriesID?: string;
+  Response: 'True' | 'False';
+  Error?: string;
+}
+
+/** Episode entry in a season listing */
+export interface OMDbSeasonEpisode {
+  Title: string;
+  Released: string;
+  Episode: string;
+  imdbRating: string;
+  imdbID: string;
+}
+
+/** OMDb season response (`Season=` query) */
+export interface OMDbSeasonResponse {
+  Title: string;
+  Season: string;
+  totalSeasons: string;
+  Episodes: OMDbSeasonEpisode[];
   Response: 'True' | 'False';
   Error?: string;
 }
@@ -71,10 +96,60 @@ export interface OMDbErrorResponse {
 }
 
 /** Retry configuration */
-export interface RetryConfig {
-  maxAttempts: number;
-  baseDelayMs: number;
-  maxDelayMs: number;
-  backoffFactor?: number;
-  jitter?: boolean;
-}
\ No newline at end of file
+export type { RetryConfig } from '../http';
+
+/** OMDb content type filter */
+export type OMDbSearchType = 'movie' | 'series' | 'episode';
+
+/** OMDb plot length */
+export type OMDbPlotLength = 'short' | 'full';
+
+/** Parameters for a title search */
+export interface OMDbSearchParams {
+  query: string;
+  page?: number;
+  type?: OMDbSearchType;
+  year?: number;
+  /** Rate limiter lane (default 'normal') */
+  priority?: RequestPriority;
+}
+
+/** Normalized search results */
+export interface OMDbSearchResults {
+  items: OMDbSearchItem[];
+  totalResults: number;
+  page: number;
+  totalPages: number;
+}
+
+/** Parameters for a lookup by IMDb ID */
+export interface OMDbDetailByIdParams {
+  imdbId: string;
+  plot?: OMDbPlotLength;
+  /** Rate limiter lane (default 'normal') */
+  priority?: RequestPriority;
+}
+
+/** Parameters for a lookup by title */
+export interface OMDbDetailByTitleParams {
+  title: string;
+  type?: OMDbSearchType;
+  year?: number;
+  plot?: OMDbPlotLength;
+  /** Rate limiter lane (default 'normal') */
+  priority?: RequestPriority;
+}
+/** Parameters for a season listing of a series */
+export interface OMDbSeasonParams {
+  /** IMDb ID of the series */
+  imdbId: string;
+  season: number;
+  /** Rate limiter lane (default 'normal') */
+  priority?: RequestPriority;
+}
+
+/** Parameters for a single episode of a series */
+export interface OMDbEpisodeParams extends OMDbSeasonParams {
+  episode: number;
+  plot?: OMDbPlotLength;
+}
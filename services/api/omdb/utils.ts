@@ -4,11 +4,13 @@
  */
 
 import { OMDbError, RETRYABLE_ERROR_CODES } from './errors';
-import { DEFAULT_RETRY_CONFIG } from './config';
 import { ANIMATION_DURATION } from '@/constants/animations';
 import { API_HEADERS } from '@/constants/api';
+import { ApiError, calculateBackoffDelay, getRetryAfterMs } from '../http';
 import type { RetryConfig } from './types';
 
+export { calculateBackoffDelay, sleep } from '../http';
+
 /**
  * Parse OMDb API error message and determine appropriate error code
  */
@@ -40,7 +42,7 @@ export function parseOMDbErrorCode(errorMessage: string): string {
 /**
  * Log error with appropriate level and context
  */
-export function logError(error: OMDbError, context?: Record<string, unknown>): void {
+export function logError(error: ApiError, context?: Record<string, unknown>): void {
   const logContext = {
     ...context,
     errorCode: error.code,
@@ -58,44 +60,11 @@ export function logError(error: OMDbError, context?: Record<string, unknown>): v
   }
 }
 
-/**
- * Calculate delay for exponential backoff with optional jitter
- * @param attempt - Current attempt number (0-indexed)
- * @param config - Retry configuration
- * @returns Delay in milliseconds
- */
-export function calculateBackoffDelay(
-  attempt: number,
-  config: RetryConfig = DEFAULT_RETRY_CONFIG
-): number {
-  const backoffFactor = config.backoffFactor || 2;
-  const baseDelay = config.baseDelayMs * Math.pow(backoffFactor, attempt);
-  
-  let delay = Math.min(baseDelay, config.maxDelayMs);
-  
-  // Add jitter to prevent thundering herd problem
-  if (config.jitter !== false) {
-    // Add random jitter of ±25%
-    const jitterRange = delay * 0.25;
-    const jitter = (Math.random() - 0.5) * 2 * jitterRange;
-    delay = Math.max(config.baseDelayMs * 0.1, delay + jitter); // Ensure minimum delay
-  }
-  
-  return Math.floor(delay);
-}
-
-/**
- * Sleep for a specified duration
- */
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 /**
  * Determine if an error is retryable
  */
 export function isRetryableError(error: unknown): boolean {
-  if (error instanceof OMDbError) {
+  if (error instanceof ApiError) {
     return error.isRetryable || RETRYABLE_ERROR_CODES.includes(error.code);
   }
   
@@ -115,14 +84,12 @@ export function isRetryableError(error: unknown): boolean {
 /**
  * Determine retry delay based on error type and rate limiting headers
  */
-export function getRetryDelay(error: OMDbError, attempt: number, config: RetryConfig): number {
+export function getRetryDelay(error: ApiError, attempt: number, config: RetryConfig): number {
   // For rate limiting, use longer delays
   if (error.code === 'RATE_LIMIT') {
-    // Check for Retry-After header in context
-    const retryAfter = error.context?.retryAfter as number | undefined;
-    if (retryAfter && retryAfter > 0) {
-      // Use server-suggested delay, but cap it at maxDelayMs
-      return Math.min(retryAfter * 1000, config.maxDelayMs);
+    // Use server-suggested delay from Retry-After, but cap it at maxDelayMs
+    if (error.retryAfterMs && error.retryAfterMs > 0) {
+      return Math.min(error.retryAfterMs, config.maxDelayMs);
     }
     
     // Use longer exponential backoff for rate limiting
@@ -168,14 +135,14 @@ export function createHttpError(response: Response): OMDbError {
   };
   
   // Check for Retry-After header
-  const retryAfter = response.headers.get('Retry-After');
-  if (retryAfter) {
-    context.retryAfter = parseInt(retryAfter, 10);
+  const retryAfterMs = getRetryAfterMs(response);
+  if (retryAfterMs !== undefined) {
+    context.retryAfter = Math.ceil(retryAfterMs / 1000);
   }
   
   // Check for rate limit headers
-  const rateLimitRemaining = response.headers.get(API_HEADERS.RATE_LIMIT_REMAINING);
-  const rateLimitReset = response.headers.get('X-RateLimit-Reset');
+  const rateLimitRemaining = response.headers?.get(API_HEADERS.RATE_LIMIT_REMAINING) ?? null;
+  const rateLimitReset = response.headers?.get(API_HEADERS.RATE_LIMIT_RESET) ?? null;
   if (rateLimitRemaining !== null) {
     context.rateLimitRemaining = parseInt(rateLimitRemaining, 10);
   }
@@ -203,8 +170,8 @@ export function createHttpError(response: Response): OMDbError {
     case 429:
       code = 'RATE_LIMIT';
       message = 'Rate limit exceeded - too many requests';
-      if (retryAfter) {
-        message += ` (retry after ${retryAfter} seconds)`;
+      if (retryAfterMs !== undefined) {
+        message += ` (retry after ${context.retryAfter} seconds)`;
       }
       break;
     case 500:
@@ -225,5 +192,7 @@ export function createHttpError(response: Response): OMDbError {
       break;
   }
   
-  return new OMDbError(message, code, response.status, isRetryable, undefined, context);
+  const error = new OMDbError(message, code, response.status, isRetryable, undefined, context);
+  error.retryAfterMs = retryAfterMs;
+  return error;
 }
\ No newline at end of file
@@ -1,138 +1,120 @@
 /**
  * TMDB API Client Core
- * Provides HTTP client with retry logic and error handling
+ * TMDB configuration on top of the shared HTTP client
  * 
  * Requirements: 1.1, 3.2, 4.2
  */
 
-import { API_BASE_URLS } from '@/constants/api';
+import { API_BASE_URLS, RATE_LIMIT_CONFIG } from '@/constants/api';
 import { ANIMATION_DURATION } from '@/constants/animations';
+import { withHttpCache, type HttpCacheOptions } from '../http-cache';
+import { getContentLanguage, toLanguageTag } from '../content-language';
+import {
+  createHttpClient,
+  createAuthInterceptor,
+  createRateLimiter,
+  HttpError,
+  getErrorCodeForStatus,
+  getRetryAfterMs,
+  isRetryableStatus,
+  type ApiErrorOptions,
+  type RequestOptions,
+  type RetryConfig,
+} from '../http';
 
 // TMDB API Configuration
-const TMDB_BASE_URL = API_BASE_URLS.TMDB;
 export const TMDB_IMAGE_BASE_URL = API_BASE_URLS.TMDB_IMAGES;
+const TMDB_BASE_URL = API_BASE_URLS.TMDB;
 
 // API Key should be set via environment variable
 export const getApiKey = (): string => {
   return process.env.EXPO_PUBLIC_TMDB_API_KEY || '';
 };
 
-/** Retry configuration */
-export interface RetryConfig {
-  maxAttempts: number;
-  baseDelayMs: number;
-  maxDelayMs: number;
-}
+export { calculateBackoffDelay, type RetryConfig } from '../http';
 
 export const DEFAULT_RETRY_CONFIG: RetryConfig = {
   maxAttempts: 3,
   baseDelayMs: ANIMATION_DURATION.SLOW,
   maxDelayMs: ANIMATION_DURATION.API_TIMEOUT,
+  jitter: true,
 };
 
 /** API Error with status code */
-export class TMDBApiError extends Error {
+export class TMDBApiError extends HttpError {
   constructor(
     message: string,
-    public statusCode: number,
-    public isRetryable: boolean = false
+    statusCode: number,
+    isRetryable: boolean = false,
+    options: ApiErrorOptions = {}
   ) {
-    super(message);
+    super(message, statusCode, isRetryable, getErrorCodeForStatus(statusCode), {
+      provider: 'tmdb',
+      ...options,
+    });
     this.name = 'TMDBApiError';
   }
 }
 
-/**
- * Calculate delay for exponential backoff
- * @param attempt - Current attempt number (0-indexed)
- * @param config - Retry configuration
- * @returns Delay in milliseconds
- */
-export function calculateBackoffDelay(attempt: number, config: RetryConfig = DEFAULT_RETRY_CONFIG): number {
-  const delay = config.baseDelayMs * Math.pow(2, attempt);
-  return Math.min(delay, config.maxDelayMs);
-}
-
-/**
- * Sleep for a specified duration
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
-/**
- * Determine if an error is retryable
- */
-function isRetryableError(error: unknown): boolean {
-  if (error instanceof TMDBApiError) {
-    return error.isRetryable;
-  }
-  // Network errors are retryable
-  if (error instanceof TypeError && error.message.includes('fetch')) {
-    return true;
-  }
-  return false;
-}
+/** HTTP client for TMDB; the API key is added to every request */
+export const tmdbHttpClient = createHttpClient({
+  provider: 'tmdb',
+  defaultHeaders: {
+    'Content-Type': 'application/json',
+  },
+  retry: DEFAULT_RETRY_CONFIG,
+  // TMDB has no daily cap, but throttles bursts per IP
+  rateLimiter: createRateLimiter({
+    provider: 'tmdb',
+    capacity: RATE_LIMIT_CONFIG.TMDB.CAPACITY,
+    refillPerSecond: RATE_LIMIT_CONFIG.TMDB.REFILL_PER_SECOND,
+  }),
+  interceptors: [
+    createAuthInterceptor({ query: () => ({ api_key: getApiKey() }) }),
+  ],
+  createError: (response) =>
+    new TMDBApiError(
+      `HTTP ${response.status}: ${response.statusText}`,
+      response.status,
+      isRetryableStatus(response.status),
+      { retryAfterMs: getRetryAfterMs(response) }
+    ),
+});
 
 /**
  * Execute a fetch request with retry logic and exponential backoff
  * @param url - URL to fetch
- * @param options - Fetch options
+ * @param options - Request options
  * @param config - Retry configuration
  * @returns Response data
  */
-export async function fetchWithRetry<T>(
+export function fetchWithRetry<T>(
   url: string,
-  options: RequestInit = {},
+  options: RequestOptions = {},
   config: RetryConfig = DEFAULT_RETRY_CONFIG
 ): Promise<T> {
-  let lastError: Error | null = null;
-
-  for (let attempt = 0; attempt < config.maxAttempts; attempt++) {
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          ...options.headers,
-        },
-      });
-
-      if (!response.ok) {
-        const isRetryable = response.status >= 500 || response.status === 429;
-        throw new TMDBApiError(
-          `HTTP ${response.status}: ${response.statusText}`,
-          response.status,
-          isRetryable
-        );
-      }
-
-      return await response.json() as T;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-
-      // Don't retry if it's the last attempt or error is not retryable
-      if (attempt === config.maxAttempts - 1 || !isRetryableError(error)) {
-        throw lastError;
-      }
-
-      // Wait before retrying with exponential backoff
-      const delay = calculateBackoffDelay(attempt, config);
-      await sleep(delay);
-    }
-  }
+  return tmdbHttpClient.get<T>(url, { ...options, retry: config });
+}
 
-  throw lastError || new Error('Unknown error during fetch');
+/**
+ * Execute a GET request through the persistent response cache
+ * Falls back to stale cached data when the network is unavailable
+ * @param url - URL to fetch
+ * @param cacheOptions - TTL override and refresh behaviour
+ * @returns Response data
+ */
+export function cachedFetch<T>(url: string, cacheOptions?: HttpCacheOptions): Promise<T> {
+  return withHttpCache(url, () => fetchWithRetry<T>(url), cacheOptions);
 }
 
 /**
  * Build TMDB API URL with query parameters
+ * Requests the content language unless `language` is given
  */
 export function buildUrl(endpoint: string, params: Record<string, string | number | undefined> = {}): string {
   const url = new URL(`${TMDB_BASE_URL}${endpoint}`);
-  url.searchParams.set('api_key', getApiKey());
-  
-  Object.entries(params).forEach(([key, value]) => {
+
+  Object.entries({ language: toLanguageTag(getContentLanguage()), ...params }).forEach(([key, value]) => {
     if (value !== undefined) {
       url.searchParams.set(key, String(value));
     }
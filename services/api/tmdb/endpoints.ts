@@ -11,9 +11,25 @@ import type {
   MediaDetails,
   CastMember,
   StreamingProvider,
+  ExternalIds,
+  SeasonDetails,
+  EpisodeDetails,
+  PersonDetails,
+  PersonCredit,
 } from '@/types/media';
 import type { SearchResults } from '@/types/user';
-import { buildUrl, fetchWithRetry } from './client';
+import type { CuratedListKind } from '../types';
+import { buildUrl, cachedFetch } from './client';
+import { rememberExternalIds } from '../id-mapping';
+import {
+  FALLBACK_CONTENT_LANGUAGE,
+  getContentLanguage,
+  listTextFields,
+  textFields,
+  toLanguageTag,
+  withEnglishFallback,
+  type TextFallback,
+} from '../content-language';
 import type {
   TMDBPaginatedResponse,
   TMDBMovieResult,
@@ -24,6 +40,14 @@ import type {
   TMDBCreditsResponse,
   TMDBWatchProvidersResponse,
   TMDBVideosResponse,
+  TMDBExternalIdsResponse,
+  TMDBFindResponse,
+  TMDBEpisode,
+  TMDBSeasonDetails,
+  TMDBEpisodeDetails,
+  TMDBPersonDetails,
+  TMDBPersonCombinedCredits,
+  TMDBImagesResponse,
 } from './types';
 import {
   transformMovieToMediaItem,
@@ -33,8 +57,83 @@ import {
   transformTVDetails,
   transformCredits,
   transformWatchProviders,
+  transformSeasonDetails,
+  transformEpisodeDetails,
+  transformPersonDetails,
+  transformPersonCredits,
 } from './transformers';
 
+type QueryParams = Record<string, string | number | undefined>;
+
+/** Fall back to English for the overviews on a page of results */
+function resultOverviews<T extends { id: number; overview: string }>(
+  getKey?: (item: T) => string | number
+): TextFallback<TMDBPaginatedResponse<T>> {
+  const results = listTextFields<T>(['overview'], getKey);
+  return {
+    isIncomplete: page => results.isIncomplete(page.results),
+    fill: (localized, english) => ({ ...localized, results: results.fill(localized.results, english.results) }),
+  };
+}
+
+/** Multi-type results share IDs between movies and TV shows */
+const multiResultKey = (item: TMDBMultiResult) => `${item.media_type}:${item.id}`;
+
+// Text fields TMDB leaves empty when a title has no translation
+const MOVIE_TEXT = textFields<TMDBMovieDetails>(['title', 'overview', 'tagline']);
+const TV_TEXT = textFields<TMDBTVDetails>(['name', 'overview', 'tagline']);
+const EPISODE_TEXT = textFields<TMDBEpisodeDetails>(['name', 'overview']);
+const PERSON_TEXT = textFields<TMDBPersonDetails>(['biography']);
+const SEASON_SUMMARY_TEXT = textFields<TMDBSeasonDetails>(['name', 'overview']);
+const SEASON_EPISODES_TEXT = listTextFields<TMDBEpisode>(['name', 'overview']);
+const SEASON_TEXT: TextFallback<TMDBSeasonDetails> = {
+  isIncomplete: season =>
+    SEASON_SUMMARY_TEXT.isIncomplete(season) || SEASON_EPISODES_TEXT.isIncomplete(season.episodes),
+  fill: (localized, english) => ({
+    ...SEASON_SUMMARY_TEXT.fill(localized, english),
+    episodes: SEASON_EPISODES_TEXT.fill(localized.episodes, english.episodes),
+  }),
+};
+
+/**
+ * Fetch a response in the content language, filling empty text from English
+ */
+async function fetchLocalized<T>(
+  endpoint: string,
+  params: QueryParams,
+  fallback: TextFallback<T>
+): Promise<T> {
+  const language = getContentLanguage();
+  const response = await cachedFetch<T>(buildUrl(endpoint, params));
+  return withEnglishFallback(response, language, fallback, () =>
+    cachedFetch<T>(buildUrl(endpoint, { ...params, language: toLanguageTag(FALLBACK_CONTENT_LANGUAGE) }))
+  );
+}
+
+/**
+ * Query parameters for posters in the content language and posters without text
+ * @param appended - Other responses to append, e.g. release_dates
+ */
+function localizedPosterParams(...appended: string[]): QueryParams {
+  return {
+    append_to_response: ['images', ...appended].join(','),
+    include_image_language: `${getContentLanguage()},null`,
+  };
+}
+
+/**
+ * Use the best-rated poster in the content language when TMDB has one
+ */
+function withLocalizedPoster<T extends { poster_path: string | null; images?: TMDBImagesResponse }>(
+  response: T
+): T {
+  const language = getContentLanguage();
+  const localized = (response.images?.posters ?? [])
+    .filter(poster => poster.iso_639_1 === language)
+    .sort((a, b) => b.vote_average - a.vote_average)[0];
+  return localized ? { ...response, poster_path: localized.file_path } : response;
+}
+
 /**
  * Get trending movies and TV shows
  * @param mediaType - 'all', 'movie', or 'tv'
@@ -47,8 +146,11 @@ export async function getTrending(
   timeWindow: 'day' | 'week' = 'week',
   page: number = 1
 ): Promise<{ items: TrendingItem[]; totalPages: number; totalResults: number }> {
-  const url = buildUrl(`/trending/${mediaType}/${timeWindow}`, { page });
-  const response = await fetchWithRetry<TMDBPaginatedResponse<TMDBMultiResult>>(url);
+  const response = await fetchLocalized(
+    `/trending/${mediaType}/${timeWindow}`,
+    { page },
+    resultOverviews(multiResultKey)
+  );
 
   const items = response.results
     .map((item, index) => {
@@ -76,9 +178,11 @@ export async function getTrending(
  * @returns Full movie details
  */
 export async function getMovieDetails(movieId: number): Promise<MediaDetails> {
-  const url = buildUrl(`/movie/${movieId}`);
-  const response = await fetchWithRetry<TMDBMovieDetails>(url);
-  return transformMovieDetails(response);
+  const response = await fetchLocalized(`/movie/${movieId}`, localizedPosterParams('release_dates'), MOVIE_TEXT);
+  if (response.imdb_id) {
+    rememberExternalIds('movie', { tmdbId: response.id, imdbId: response.imdb_id });
+  }
+  return transformMovieDetails(withLocalizedPoster(response));
 }
 
 /**
@@ -87,9 +191,8 @@ export async function getMovieDetails(movieId: number): Promise<MediaDetails> {
  * @returns Full TV series details
  */
 export async function getTvDetails(tvId: number): Promise<MediaDetails> {
-  const url = buildUrl(`/tv/${tvId}`);
-  const response = await fetchWithRetry<TMDBTVDetails>(url);
-  return transformTVDetails(response);
+  const response = await fetchLocalized(`/tv/${tvId}`, localizedPosterParams('content_ratings'), TV_TEXT);
+  return transformTVDetails(withLocalizedPoster(response));
 }
 
 /**
@@ -112,8 +215,11 @@ export async function searchMulti(
     };
   }
 
-  const url = buildUrl('/search/multi', { query: encodeURIComponent(query), page });
-  const response = await fetchWithRetry<TMDBPaginatedResponse<TMDBMultiResult>>(url);
+  const response = await fetchLocalized(
+    '/search/multi',
+    { query: encodeURIComponent(query), page },
+    resultOverviews(multiResultKey)
+  );
 
   const movies: MediaItem[] = [];
   const tvShows: MediaItem[] = [];
@@ -142,7 +248,7 @@ export async function searchMulti(
  */
 export async function getMovieCredits(movieId: number): Promise<CastMember[]> {
   const url = buildUrl(`/movie/${movieId}/credits`);
-  const response = await fetchWithRetry<TMDBCreditsResponse>(url);
+  const response = await cachedFetch<TMDBCreditsResponse>(url);
   return transformCredits(response);
 }
 
@@ -153,10 +259,65 @@ export async function getMovieCredits(movieId: number): Promise<CastMember[]> {
  */
 export async function getTvCredits(tvId: number): Promise<CastMember[]> {
   const url = buildUrl(`/tv/${tvId}/credits`);
-  const response = await fetchWithRetry<TMDBCreditsResponse>(url);
+  const response = await cachedFetch<TMDBCreditsResponse>(url);
   return transformCredits(response);
 }
 
+/**
+ * Get a TV season with its episodes
+ * @param tvId - TMDB TV series ID
+ * @param seasonNumber - Season number (0 for specials)
+ * @returns Season details with episode list
+ */
+export async function getSeasonDetails(
+  tvId: number,
+  seasonNumber: number
+): Promise<SeasonDetails> {
+  const response = await fetchLocalized(`/tv/${tvId}/season/${seasonNumber}`, {}, SEASON_TEXT);
+  return transformSeasonDetails(response);
+}
+
+/**
+ * Get a single TV episode
+ * @param tvId - TMDB TV series ID
+ * @param seasonNumber - Season number
+ * @param episodeNumber - Episode number within the season
+ * @returns Episode details with crew and guest stars
+ */
+export async function getEpisodeDetails(
+  tvId: number,
+  seasonNumber: number,
+  episodeNumber: number
+): Promise<EpisodeDetails> {
+  const response = await fetchLocalized(
+    `/tv/${tvId}/season/${seasonNumber}/episode/${episodeNumber}`,
+    {},
+    EPISODE_TEXT
+  );
+  return transformEpisodeDetails(response);
+}
+
+/**
+ * Get a person's details
+ * @param personId - TMDB person ID
+ * @returns Biography and personal details
+ */
+export async function getPersonDetails(personId: number): Promise<PersonDetails> {
+  const response = await fetchLocalized(`/person/${personId}`, {}, PERSON_TEXT);
+  return transformPersonDetails(response);
+}
+
+/**
+ * Get a person's movie and TV credits
+ * @param personId - TMDB person ID
+ * @returns Cast and crew credits
+ */
+export async function getPersonCredits(personId: number): Promise<PersonCredit[]> {
+  const url = buildUrl(`/person/${personId}/combined_credits`);
+  const response = await cachedFetch<TMDBPersonCombinedCredits>(url);
+  return transformPersonCredits(response);
+}
+
 /**
  * Get watch providers for a movie or TV show
  * @param mediaType - 'movie' or 'tv'
@@ -170,7 +331,7 @@ export async function getWatchProviders(
   countryCode: string = 'US'
 ): Promise<StreamingProvider[]> {
   const url = buildUrl(`/${mediaType}/${mediaId}/watch/providers`);
-  const response = await fetchWithRetry<TMDBWatchProvidersResponse>(url);
+  const response = await cachedFetch<TMDBWatchProvidersResponse>(url);
   return transformWatchProviders(response, countryCode);
 }
 
@@ -186,19 +347,66 @@ export async function getRecommendations(
   mediaId: number,
   page: number = 1
 ): Promise<{ items: MediaItem[]; totalPages: number }> {
-  const url = buildUrl(`/${mediaType}/${mediaId}/recommendations`, { page });
-  
+  const endpoint = `/${mediaType}/${mediaId}/recommendations`;
+
+  if (mediaType === 'movie') {
+    const response = await fetchLocalized(endpoint, { page }, resultOverviews<TMDBMovieResult>());
+    return {
+      items: response.results.map(item => transformMovieToMediaItem(item)),
+      totalPages: response.total_pages,
+    };
+  } else {
+    const response = await fetchLocalized(endpoint, { page }, resultOverviews<TMDBTVResult>());
+    return {
+      items: response.results.map(item => transformTVToMediaItem(item)),
+      totalPages: response.total_pages,
+    };
+  }
+}
+
+/** TMDB list endpoint for each curated list kind */
+const CURATED_LIST_PATHS: Record<'movie' | 'tv', Record<CuratedListKind, string>> = {
+  movie: {
+    popular: '/movie/popular',
+    top_rated: '/movie/top_rated',
+    now_playing: '/movie/now_playing',
+    upcoming: '/movie/upcoming',
+  },
+  tv: {
+    popular: '/tv/popular',
+    top_rated: '/tv/top_rated',
+    now_playing: '/tv/airing_today',
+    upcoming: '/tv/on_the_air',
+  },
+};
+
+/**
+ * Get a curated list of movies or TV shows
+ * @param listKind - 'popular', 'top_rated', 'now_playing' or 'upcoming'
+ * @param mediaType - 'movie' or 'tv'
+ * @param page - Page number (default 1)
+ * @returns Paginated media items
+ */
+export async function getCuratedList(
+  listKind: CuratedListKind,
+  mediaType: 'movie' | 'tv',
+  page: number = 1
+): Promise<{ items: MediaItem[]; totalPages: number; totalResults: number }> {
+  const endpoint = CURATED_LIST_PATHS[mediaType][listKind];
+
   if (mediaType === 'movie') {
-    const response = await fetchWithRetry<TMDBPaginatedResponse<TMDBMovieResult>>(url);
+    const response = await fetchLocalized(endpoint, { page }, resultOverviews<TMDBMovieResult>());
     return {
       items: response.results.map(item => transformMovieToMediaItem(item)),
       totalPages: response.total_pages,
+      totalResults: response.total_results,
     };
   } else {
-    const response = await fetchWithRetry<TMDBPaginatedResponse<TMDBTVResult>>(url);
+    const response = await fetchLocalized(endpoint, { page }, resultOverviews<TMDBTVResult>());
     return {
       items: response.results.map(item => transformTVToMediaItem(item)),
       totalPages: response.total_pages,
+      totalResults: response.total_results,
     };
   }
 }
@@ -233,8 +441,7 @@ export async function discoverByCountry(
     if (year) {
       params.primary_release_year = year;
     }
-    const url = buildUrl('/discover/movie', params);
-    const response = await fetchWithRetry<TMDBPaginatedResponse<TMDBMovieResult>>(url);
+    const response = await fetchLocalized('/discover/movie', params, resultOverviews<TMDBMovieResult>());
     
     return {
       items: response.results.map((item, index) => 
@@ -247,8 +454,7 @@ export async function discoverByCountry(
     if (year) {
       params.first_air_date_year = year;
     }
-    const url = buildUrl('/discover/tv', params);
-    const response = await fetchWithRetry<TMDBPaginatedResponse<TMDBTVResult>>(url);
+    const response = await fetchLocalized('/discover/tv', params, resultOverviews<TMDBTVResult>());
     
     return {
       items: response.results.map((item, index) => 
@@ -270,8 +476,11 @@ export async function getTrailerKey(
   mediaType: 'movie' | 'tv',
   mediaId: number
 ): Promise<string | null> {
-  const url = buildUrl(`/${mediaType}/${mediaId}/videos`);
-  const response = await fetchWithRetry<TMDBVideosResponse>(url);
+  // Videos are filtered by language, so keep English trailers as a fallback
+  const url = buildUrl(`/${mediaType}/${mediaId}/videos`, {
+    include_video_language: `${getContentLanguage()},${FALLBACK_CONTENT_LANGUAGE}`,
+  });
+  const response = await cachedFetch<TMDBVideosResponse>(url);
 
   // Find official YouTube trailer
   const trailer = response.results.find(
@@ -283,4 +492,43 @@ export async function getTrailerKey(
   );
 
   return trailer?.key || null;
-}
\ No newline at end of file
+}
+
+/**
+ * Get the external IDs (IMDb) of a movie or TV show
+ * @param mediaType - 'movie' or 'tv'
+ * @param mediaId - TMDB media ID
+ * @returns IMDb, TMDB and OMDb IDs
+ */
+export async function getExternalIds(
+  mediaType: 'movie' | 'tv',
+  mediaId: number
+): Promise<ExternalIds> {
+  const url = buildUrl(`/${mediaType}/${mediaId}/external_ids`);
+  const response = await cachedFetch<TMDBExternalIdsResponse>(url);
+  const imdbId = response.imdb_id || null;
+
+  rememberExternalIds(mediaType, { tmdbId: mediaId, imdbId });
+  return { imdbId, tmdbId: mediaId, omdbId: null };
+}
+
+/**
+ * Find the TMDB ID for an IMDb ID
+ * @param mediaType - 'movie' or 'tv'
+ * @param imdbId - IMDb ID (e.g. tt0133093)
+ * @returns TMDB ID or null if TMDB doesn't know the title
+ */
+export async function findByImdbId(
+  mediaType: 'movie' | 'tv',
+  imdbId: string
+): Promise<number | null> {
+  const url = buildUrl(`/find/${imdbId}`, { external_source: 'imdb_id' });
+  const response = await cachedFetch<TMDBFindResponse>(url);
+  const results = mediaType === 'movie' ? response.movie_results : response.tv_results;
+  const tmdbId = results[0]?.id ?? null;
+
+  if (tmdbId !== null) {
+    rememberExternalIds(mediaType, { tmdbId, imdbId });
+  }
+  return tmdbId;
+}
@@ -13,15 +13,24 @@ export {
   searchMulti,
   getMovieCredits,
   getTvCredits,
+  getSeasonDetails,
+  getEpisodeDetails,
+  getPersonDetails,
+  getPersonCredits,
   getWatchProviders,
   getRecommendations,
+  getCuratedList,
   discoverByCountry,
   getTrailerKey,
+  getExternalIds,
+  findByImdbId,
 } from './endpoints';
 
 // Re-export client utilities
 export {
   fetchWithRetry,
+  cachedFetch,
+  tmdbHttpClient,
   buildUrl,
   getImageUrl,
   getApiKey,
@@ -43,6 +52,14 @@ export type {
   TMDBCreditsResponse,
   TMDBWatchProvidersResponse,
   TMDBVideosResponse,
+  TMDBExternalIdsResponse,
+  TMDBFindResponse,
+  TMDBEpisode,
+  TMDBSeasonDetails,
+  TMDBEpisodeDetails,
+  TMDBPersonDetails,
+  TMDBPersonCredit,
+  TMDBPersonCombinedCredits,
 } from './types';
 
 // Re-export transformers
@@ -54,4 +71,9 @@ export {
   transformTVDetails,
   transformCredits,
   transformWatchProviders,
+  transformEpisode,
+  transformSeasonDetails,
+  transformEpisodeDetails,
+  transformPersonDetails,
+  transformPersonCredits,
 } from './transformers';
\ No newline at end of file
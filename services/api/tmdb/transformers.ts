@@ -11,6 +11,12 @@ import type {
   MediaDetails,
   CastMember,
   StreamingProvider,
+  SeasonDetails,
+  EpisodeSummary,
+  EpisodeDetails,
+  PersonDetails,
+  PersonCredit,
+  RegionalRelease,
 } from '@/types/media';
 import type {
   TMDBMovieResult,
@@ -20,7 +26,19 @@ import type {
   TMDBTVDetails,
   TMDBCreditsResponse,
   TMDBWatchProvidersResponse,
+  TMDBEpisode,
+  TMDBSeasonDetails,
+  TMDBEpisodeDetails,
+  TMDBPersonDetails,
+  TMDBPersonCombinedCredits,
+  TMDBPersonCredit,
+  TMDBReleaseDatesResponse,
+  TMDBContentRatingsResponse,
 } from './types';
+import { normalizeCertification } from '@/utils/certifications';
+
+/** Theatrical releases (limited and wide) date a movie in a country */
+const THEATRICAL_RELEASE_TYPES = [2, 3];
 
 /**
  * Transform TMDB movie result to MediaItem
@@ -83,6 +101,37 @@ export function transformMultiToMediaItem(item: TMDBMultiResult): MediaItem | nu
   return null; // Skip person results
 }
 
+/**
+ * Transform TMDB movie release dates to one release per country
+ * The date is the first theatrical release, or the first release of any kind
+ * when it never reached cinemas there
+ */
+export function transformReleaseDates(response: TMDBReleaseDatesResponse | undefined): RegionalRelease[] {
+  return (response?.results ?? []).map(country => {
+    const releases = [...country.release_dates].sort((a, b) => a.release_date.localeCompare(b.release_date));
+    const theatrical = releases.filter(release => THEATRICAL_RELEASE_TYPES.includes(release.type));
+    const dated = theatrical[0] ?? releases[0];
+    const certified = [...theatrical, ...releases].find(release => normalizeCertification(release.certification));
+    return {
+      countryCode: country.iso_3166_1,
+      releaseDate: dated?.release_date ? dated.release_date.slice(0, 10) : null,
+      certification: normalizeCertification(certified?.certification),
+    };
+  });
+}
+
+/**
+ * Transform TMDB TV content ratings to one release per country
+ * Content ratings carry no date
+ */
+export function transformContentRatings(response: TMDBContentRatingsResponse | undefined): RegionalRelease[] {
+  return (response?.results ?? []).map(country => ({
+    countryCode: country.iso_3166_1,
+    releaseDate: null,
+    certification: normalizeCertification(country.rating),
+  }));
+}
+
 /**
  * Transform TMDB movie details to MediaDetails
  */
@@ -114,6 +163,8 @@ export function transformMovieDetails(response: TMDBMovieDetails): MediaDetails
     })),
     budget: response.budget,
     revenue: response.revenue,
+    imdbId: response.imdb_id ?? null,
+    releases: transformReleaseDates(response.release_dates),
   };
 }
 
@@ -148,6 +199,7 @@ export function transformTVDetails(response: TMDBTVDetails): MediaDetails {
     })),
     numberOfSeasons: response.number_of_seasons,
     numberOfEpisodes: response.number_of_episodes,
+    releases: transformContentRatings(response.content_ratings),
   };
 }
 
@@ -164,6 +216,105 @@ export function transformCredits(response: TMDBCreditsResponse): CastMember[] {
   }));
 }
 
+/**
+ * Transform TMDB season episode to EpisodeSummary
+ */
+export function transformEpisode(episode: TMDBEpisode): EpisodeSummary {
+  return {
+    id: episode.id,
+    episodeNumber: episode.episode_number,
+    seasonNumber: episode.season_number,
+    name: episode.name,
+    overview: episode.overview,
+    stillPath: episode.still_path,
+    airDate: episode.air_date || '',
+    runtime: episode.runtime || null,
+    voteAverage: episode.vote_average,
+    voteCount: episode.vote_count,
+  };
+}
+
+/**
+ * Transform TMDB season details to SeasonDetails
+ */
+export function transformSeasonDetails(response: TMDBSeasonDetails): SeasonDetails {
+  return {
+    id: response.id,
+    seasonNumber: response.season_number,
+    name: response.name,
+    overview: response.overview,
+    posterPath: response.poster_path,
+    airDate: response.air_date || '',
+    episodes: response.episodes.map(transformEpisode),
+  };
+}
+
+/**
+ * Transform TMDB episode details to EpisodeDetails
+ */
+export function transformEpisodeDetails(response: TMDBEpisodeDetails): EpisodeDetails {
+  return {
+    ...transformEpisode(response),
+    crew: response.crew.map(member => ({
+      id: member.id,
+      name: member.name,
+      job: member.job,
+      department: member.department,
+      profilePath: member.profile_path,
+    })),
+    guestStars: response.guest_stars.map(star => ({
+      id: star.id,
+      name: star.name,
+      character: star.character,
+      profilePath: star.profile_path,
+    })),
+  };
+}
+
+/**
+ * Transform TMDB person details to PersonDetails
+ */
+export function transformPersonDetails(response: TMDBPersonDetails): PersonDetails {
+  return {
+    id: response.id,
+    name: response.name,
+    biography: response.biography || '',
+    profilePath: response.profile_path,
+    knownForDepartment: response.known_for_department || 'Acting',
+    birthday: response.birthday || null,
+    deathday: response.deathday || null,
+    placeOfBirth: response.place_of_birth || null,
+    imdbId: response.imdb_id || null,
+  };
+}
+
+/**
+ * Transform a TMDB combined credit to PersonCredit
+ */
+function transformPersonCredit(credit: TMDBPersonCredit, department: string): PersonCredit {
+  const item = credit.media_type === 'movie'
+    ? transformMovieToMediaItem(credit)
+    : transformTVToMediaItem(credit);
+
+  return {
+    ...item,
+    creditId: credit.credit_id,
+    character: credit.character || null,
+    job: credit.job || null,
+    department: credit.department || department,
+  };
+}
+
+/**
+ * Transform TMDB combined credits to PersonCredit array (cast first, then crew)
+ */
+export function transformPersonCredits(response: TMDBPersonCombinedCredits): PersonCredit[] {
+  return [
+    ...response.cast.map(credit => transformPersonCredit(credit, 'Acting')),
+    ...response.crew.map(credit => transformPersonCredit(credit, 'Crew')),
+  ];
+}
+
 /**
  * Transform TMDB watch providers response to StreamingProvider array
  */
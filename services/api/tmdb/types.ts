@@ -62,6 +62,58 @@ export interface TMDBMovieDetails {
   spoken_languages: Array<{ iso_639_1: string; name: string; english_name: string }>;
   budget: number;
   revenue: number;
+  imdb_id?: string | null;
+  /** Present when requested with append_to_response=images */
+  images?: TMDBImagesResponse;
+  /** Present when requested with append_to_response=release_dates */
+  release_dates?: TMDBReleaseDatesResponse;
+}
+
+export interface TMDBImage {
+  file_path: string;
+  /** Language of the text on the image, null for images without text */
+  iso_639_1: string | null;
+  vote_average: number;
+}
+
+export interface TMDBImagesResponse {
+  posters: TMDBImage[];
+}
+
+/**
+ * Release type: 1 premiere, 2 limited theatrical, 3 theatrical, 4 digital,
+ * 5 physical, 6 TV
+ */
+export type TMDBReleaseType = 1 | 2 | 3 | 4 | 5 | 6;
+
+export interface TMDBReleaseDatesResponse {
+  results: Array<{
+    iso_3166_1: string;
+    release_dates: Array<{
+      certification: string;
+      /** ISO timestamp */
+      release_date: string;
+      type: TMDBReleaseType;
+      note: string;
+    }>;
+  }>;
+}
+
+export interface TMDBContentRatingsResponse {
+  results: Array<{
+    iso_3166_1: string;
+    rating: string;
+  }>;
+}
+
+export interface TMDBExternalIdsResponse {
+  id: number;
+  imdb_id: string | null;
+}
+
+export interface TMDBFindResponse {
+  movie_results: Array<{ id: number }>;
+  tv_results: Array<{ id: number }>;
 }
 
 export interface TMDBTVDetails {
@@ -82,6 +134,78 @@ export interface TMDBTVDetails {
   spoken_languages: Array<{ iso_639_1: string; name: string; english_name: string }>;
   number_of_seasons: number;
   number_of_episodes: number;
+  /** Present when requested with append_to_response=images */
+  images?: TMDBImagesResponse;
+  /** Present when requested with append_to_response=content_ratings */
+  content_ratings?: TMDBContentRatingsResponse;
+}
+
+export interface TMDBEpisode {
+  id: number;
+  episode_number: number;
+  season_number: number;
+  name: string;
+  overview: string;
+  still_path: string | null;
+  air_date: string | null;
+  runtime: number | null;
+  vote_average: number;
+  vote_count: number;
+}
+
+export interface TMDBSeasonDetails {
+  id: number;
+  season_number: number;
+  name: string;
+  overview: string;
+  poster_path: string | null;
+  air_date: string | null;
+  episodes: TMDBEpisode[];
+}
+
+export interface TMDBEpisodeDetails extends TMDBEpisode {
+  crew: Array<{
+    id: number;
+    name: string;
+    job: string;
+    department: string;
+    profile_path: string | null;
+  }>;
+  guest_stars: Array<{
+    id: number;
+    name: string;
+    character: string;
+    profile_path: string | null;
+  }>;
+}
+
+export interface TMDBPersonDetails {
+  id: number;
+  name: string;
+  biography: string;
+  profile_path: string | null;
+  known_for_department: string;
+  birthday: string | null;
+  deathday: string | null;
+  place_of_birth: string | null;
+  imdb_id: string | null;
+}
+
+/** Movie or TV credit from /person/{id}/combined_credits */
+export type TMDBPersonCredit = (
+  | (TMDBMovieResult & { media_type: 'movie' })
+  | (TMDBTVResult & { media_type: 'tv' })
+) & {
+  credit_id: string;
+  character?: string;
+  job?: string;
+  department?: string;
+};
+
+export interface TMDBPersonCombinedCredits {
+  id: number;
+  cast: TMDBPersonCredit[];
+  crew: TMDBPersonCredit[];
 }
 
 export interface TMDBCreditsResponse {
@@ -10,6 +10,11 @@ import type {
   MediaDetails,
   CastMember,
   StreamingProvider,
+  ExternalIds,
+  SeasonDetails,
+  EpisodeDetails,
+  PersonDetails,
+  PersonCredit,
 } from '@/types/media';
 import type { SearchResults } from '@/types/user';
 
@@ -20,6 +25,12 @@ export interface PaginatedResponse<T> {
   totalResults: number;
 }
 
+/**
+ * Curated list shown on the home feed
+ * For TV, `now_playing` means airing today and `upcoming` means airing in the next week
+ */
+export type CuratedListKind = 'popular' | 'top_rated' | 'now_playing' | 'upcoming';
+
 /** API Adapter interface - implement this for custom API providers */
 export interface MediaApiAdapter {
   /** Get trending content */
@@ -44,6 +55,22 @@ export interface MediaApiAdapter {
   /** Get TV show cast */
   getTvCredits(tvId: number): Promise<CastMember[]>;
 
+  /** Get a TV season with its episode list */
+  getSeasonDetails(tvId: number, seasonNumber: number): Promise<SeasonDetails>;
+
+  /** Get a single episode with crew and guest stars */
+  getEpisodeDetails(
+    tvId: number,
+    seasonNumber: number,
+    episodeNumber: number
+  ): Promise<EpisodeDetails>;
+
+  /** Get a person's biography */
+  getPersonDetails(personId: number): Promise<PersonDetails>;
+
+  /** Get a person's cast and crew credits */
+  getPersonCredits(personId: number): Promise<PersonCredit[]>;
+
   /** Get streaming providers */
   getWatchProviders(
     mediaType: 'movie' | 'tv',
@@ -58,6 +85,13 @@ export interface MediaApiAdapter {
     page: number
   ): Promise<PaginatedResponse<MediaItem>>;
 
+  /** Get a curated list (popular, top rated, now playing, upcoming) */
+  getCuratedList(
+    listKind: CuratedListKind,
+    mediaType: 'movie' | 'tv',
+    page: number
+  ): Promise<PaginatedResponse<MediaItem>>;
+
   /** Discover content by country */
   discoverByCountry(
     mediaType: 'movie' | 'tv',
@@ -75,6 +109,12 @@ export interface MediaApiAdapter {
 
   /** Get image URL */
   getImageUrl(path: string | null, size?: string): string | null;
+
+  /** Get the IMDb/TMDB/OMDb IDs of a title from this provider */
+  getExternalIds(mediaType: 'movie' | 'tv', mediaId: number): Promise<ExternalIds>;
+
+  /** Find this provider's ID for an IMDb ID (null if the title is unknown) */
+  findByImdbId(mediaType: 'movie' | 'tv', imdbId: string): Promise<number | null>;
 }
 
 /** API configuration */
@@ -0,0 +1,141 @@
+/**
+ * Certification Lookup Service
+ * Looks up certifications for browsed titles whose list entries carry none,
+ * so the certification ceiling applies to rows and search results too
+ *
+ * Provider list endpoints don't return certifications, so each title's
+ * details are fetched (through the response cache). A failed lookup is left
+ * out of the results so it is tried again next time. Providers with a daily
+ * quota are never used, since every listed title costs a request.
+ */
+
+import { getApiProviderChain, getMovieDetails, getTvDetails } from '@/services/api';
+import { getQuotaStatus } from '@/services/api/http';
+import { getWatchlistKey } from '@/services/sync';
+import { CERTIFICATION_LOOKUP_CONFIG } from '@/constants/api';
+import type {
+  CertificationCache,
+  MediaItem,
+  MediaRef,
+  RegionalRelease,
+  TitleCertification,
+} from '@/types/media';
+
+/** Title as shown in a list, possibly with its certification */
+export type ListedTitle = MediaRef & Pick<MediaItem, 'ageRating'> & { releases?: RegionalRelease[] };
+
+/** Result of a certification lookup */
+export interface CertificationLookupResult {
+  /** Certification per watchlist key (`movie:123`), for the titles looked up */
+  certifications: CertificationCache;
+  /** Titles whose details could not be fetched */
+  failed: number;
+}
+
+/**
+ * Whether a listed title already carries a certification
+ * @param title - Title as listed
+ */
+export function hasCertification(title: Pick<ListedTitle, 'ageRating' | 'releases'>): boolean {
+  return Boolean(title.ageRating) || (title.releases?.length ?? 0) > 0;
+}
+
+/**
+ * Check whether a looked-up certification needs looking up again
+ * @param certification - Cached certification, if any
+ * @param now - Current time
+ */
+export function isCertificationStale(
+  certification: TitleCertification | undefined,
+  now: Date = new Date()
+): boolean {
+  if (!certification) return true;
+  const age = now.getTime() - new Date(certification.checkedAt).getTime();
+  return !(age < CERTIFICATION_LOOKUP_CONFIG.MAX_AGE_MS);
+}
+
+/**
+ * Whether lookups may be sent: not when a provider in the chain has a daily
+ * quota, which a request per listed title would use up
+ * @param providers - Provider chain
+ */
+export function canLookUpCertifications(providers: string[] = getApiProviderChain()): boolean {
+  return providers.every(provider => (getQuotaStatus(provider)?.dailyLimit ?? null) === null);
+}
+
+/**
+ * Drop certifications too old to be used, before they are stored
+ * @param certifications - Certifications per watchlist key
+ * @param now - Current time
+ */
+export function pruneCertifications(
+  certifications: CertificationCache,
+  now: Date = new Date()
+): CertificationCache {
+  return Object.fromEntries(
+    Object.entries(certifications).filter(([, certification]) => !isCertificationStale(certification, now))
+  );
+}
+
+/**
+ * Fetch a title's certifications from its details
+ * @param ref - Title to look up
+ * @param now - Lookup time
+ */
+export async function fetchTitleCertification(ref: MediaRef, now: Date = new Date()): Promise<TitleCertification> {
+  const details = ref.mediaType === 'movie' ? await getMovieDetails(ref.id) : await getTvDetails(ref.id);
+  return {
+    ageRating: details.ageRating ?? null,
+    releases: details.releases ?? [],
+    checkedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Pick the titles whose certification needs looking up
+ * @param titles - Titles shown
+ * @param certifications - Certifications already known, per watchlist key
+ * @param now - Current time
+ * @returns Distinct titles with no certification of their own and none looked up recently
+ */
+export function getTitlesToLookUp<T extends ListedTitle>(
+  titles: T[],
+  certifications: CertificationCache,
+  now: Date = new Date()
+): T[] {
+  const seen = new Set<string>();
+  return titles.filter(title => {
+    if (hasCertification(title)) return false;
+    const key = getWatchlistKey(title.id, title.mediaType);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return isCertificationStale(certifications[key], now);
+  });
+}
+
+/**
+ * Look up certifications for titles, a few requests at a time
+ * @param refs - Titles to look up
+ * @param now - Lookup time
+ */
+export async function lookUpCertifications(
+  refs: MediaRef[],
+  now: Date = new Date()
+): Promise<CertificationLookupResult> {
+  const certifications: CertificationCache = {};
+  let failed = 0;
+
+  for (let i = 0; i < refs.length; i += CERTIFICATION_LOOKUP_CONFIG.MAX_CONCURRENT) {
+    const batch = refs.slice(i, i + CERTIFICATION_LOOKUP_CONFIG.MAX_CONCURRENT);
+    const results = await Promise.allSettled(batch.map(ref => fetchTitleCertification(ref, now)));
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        certifications[getWatchlistKey(batch[index].id, batch[index].mediaType)] = result.value;
+      } else {
+        failed++;
+      }
+    });
+  }
+
+  return { certifications, failed };
+}
@@ -1,23 +1,29 @@
 import { I18n } from 'i18n-js';
 import * as Localization from 'expo-localization';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { I18nManager } from 'react-native';
 
-import { STORAGE_KEYS } from '@/constants/test-ids';
+import { getLocalePreference, saveLocalePreference } from '@/services/storage';
 
 // Import locale files
 import en from '../locales/en.json';
-
-// Define supported locales
+import es from '../locales/es.json';
+import fr from '../locales/fr.json';
+import de from '../locales/de.json';
+import ja from '../locales/ja.json';
+import zh from '../locales/zh.json';
+import ar from '../locales/ar.json';
+import he from '../locales/he.json';
+
+// Define supported locales, named in their own language for the language picker
 export const SUPPORTED_LOCALES = {
   en: 'English',
-  // Add more locales as they become available
-  // es: 'Español',
-  // fr: 'Français',
-  // de: 'Deutsch',
-  // ja: '日本語',
-  // zh: '中文',
-  // ru: 'Русский',
-  // hi: 'हिन्दी',
+  es: 'Español',
+  fr: 'Français',
+  de: 'Deutsch',
+  ja: '日本語',
+  zh: '中文',
+  ar: 'العربية',
+  he: 'עברית',
 } as const;
 
 export type SupportedLocale = keyof typeof SUPPORTED_LOCALES;
@@ -25,15 +31,39 @@ export type SupportedLocale = keyof typeof SUPPORTED_LOCALES;
 // Create i18n instance
 const i18n = new I18n({
   en,
-  // Add more translations as they become available
+  es,
+  fr,
+  de,
+  ja,
+  zh,
+  ar,
+  he,
 });
 
 // Configuration
 i18n.enableFallback = true;
 i18n.defaultLocale = 'en';
 
-// Storage key for persisted locale preference
-const LOCALE_STORAGE_KEY = STORAGE_KEYS.USER_LOCALE_PREFERENCE;
+/**
+ * Pick plural forms with each language's own rules, e.g. Japanese and Chinese
+ * don't change for one, and Arabic has forms for two and for few.
+ * Forms a translation doesn't define fall back to "other".
+ */
+function pluralizer(locale: string) {
+  return (_i18n: I18n, count: number): string[] => {
+    const forms = count === 0 ? ['zero'] : [];
+    if (typeof Intl.PluralRules === 'function') {
+      forms.push(new Intl.PluralRules(locale).select(count));
+    } else if (Math.abs(count) === 1) {
+      forms.push('one');
+    }
+    return forms.includes('other') ? forms : [...forms, 'other'];
+  };
+}
+
+for (const locale of Object.keys(SUPPORTED_LOCALES)) {
+  i18n.pluralization.register(locale, pluralizer(locale));
+}
 
 /**
  * Initialize the localization system
@@ -42,7 +72,7 @@ const LOCALE_STORAGE_KEY = STORAGE_KEYS.USER_LOCALE_PREFERENCE;
 export async function initializeLocalization(): Promise<void> {
   try {
     // Try to get user's saved locale preference
-    const savedLocale = await AsyncStorage.getItem(LOCALE_STORAGE_KEY);
+    const savedLocale = await getLocalePreference();
     
     if (savedLocale && isValidLocale(savedLocale)) {
       i18n.locale = savedLocale;
@@ -55,6 +85,8 @@ export async function initializeLocalization(): Promise<void> {
     console.warn('Failed to initialize localization:', error);
     i18n.locale = 'en'; // Fallback to English
   }
+
+  applyLayoutDirection();
 }
 
 /**
@@ -74,10 +106,18 @@ function getDeviceLocale(): SupportedLocale {
   return 'en'; // Default fallback
 }
 
+/**
+ * Get the device's region, for regional release dates and certifications
+ * @returns ISO 3166-1 country code, or "US" when the device reports none
+ */
+export function getDeviceRegion(): string {
+  return Localization.getLocales().find(locale => locale.regionCode)?.regionCode ?? 'US';
+}
+
 /**
  * Check if a locale code is supported
  */
-function isValidLocale(locale: string): locale is SupportedLocale {
+export function isValidLocale(locale: string): locale is SupportedLocale {
   return locale in SUPPORTED_LOCALES;
 }
 
@@ -97,14 +137,23 @@ export async function setLocale(locale: SupportedLocale): Promise<void> {
   }
   
   i18n.locale = locale;
+  applyLayoutDirection();
   
   try {
-    await AsyncStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    await saveLocalePreference(locale);
   } catch (error) {
     console.warn('Failed to save locale preference:', error);
   }
 }
 
+/**
+ * Subscribe to locale changes
+ * @returns Function that removes the listener
+ */
+export function subscribeToLocale(listener: () => void): () => void {
+  return i18n.onChange(listener);
+}
+
 /**
  * Get available locales
  */
@@ -122,27 +171,51 @@ export function t(key: string, options?: Record<string, string | number>): strin
   return i18n.t(key, options);
 }
 
+/** Languages written right to left */
+const RTL_LOCALES = ['ar', 'he', 'fa', 'ur'];
+
+/**
+ * Check if a locale uses RTL (right-to-left) layout
+ * @param locale - Locale to check (defaults to the current locale)
+ */
+export function isRTL(locale: string = getCurrentLocale()): boolean {
+  return RTL_LOCALES.includes(locale);
+}
+
+/**
+ * Make the native layout direction follow the current locale
+ * React Native only lays the app out in a new direction after a restart
+ * @returns Whether a restart is needed for the direction to change
+ */
+export function applyLayoutDirection(): boolean {
+  const rightToLeft = isRTL();
+  I18nManager.allowRTL(rightToLeft);
+  I18nManager.forceRTL(rightToLeft);
+  return isLayoutDirectionPending();
+}
+
 /**
- * Check if the current locale uses RTL (right-to-left) layout
+ * Check if the app is still laid out in the other direction than the current locale
  */
-export function isRTL(): boolean {
-  const rtlLocales = ['ar', 'he', 'fa', 'ur']; // Add RTL language codes
-  return rtlLocales.includes(getCurrentLocale());
+export function isLayoutDirectionPending(): boolean {
+  return I18nManager.isRTL !== isRTL();
 }
 
 /**
  * Get locale information from expo-localization
  */
 export function getLocaleInfo() {
+  const [locale] = Localization.getLocales();
+  const [calendar] = Localization.getCalendars();
   return {
     locales: Localization.getLocales(),
-    timezone: Localization.timezone,
-    region: Localization.region,
-    currency: Localization.currency,
-    decimalSeparator: Localization.decimalSeparator,
-    digitGroupingSeparator: Localization.digitGroupingSeparator,
-    isRTL: Localization.isRTL,
-    isMetric: Localization.isMetric,
+    timezone: calendar?.timeZone ?? null,
+    region: locale?.regionCode ?? null,
+    currency: locale?.currencyCode ?? null,
+    decimalSeparator: locale?.decimalSeparator ?? '.',
+    digitGroupingSeparator: locale?.digitGroupingSeparator ?? ',',
+    isRTL: locale?.textDirection === 'rtl',
+    isMetric: locale?.measurementSystem !== 'us',
   };
 }
 
@@ -0,0 +1,19 @@
+/**
+ * Network Utilities
+ * Connectivity checks shared by services that talk to the network
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+
+/**
+ * Check if device is connected to the internet
+ */
+export async function isNetworkConnected(): Promise<boolean> {
+  try {
+    const netInfo = await NetInfo.fetch();
+    return netInfo.isConnected === true;
+  } catch (error) {
+    console.error('Failed to check network connectivity:', error);
+    return false; // Assume no connection on error
+  }
+}
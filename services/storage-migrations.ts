@@ -0,0 +1,196 @@
+/**
+ * Storage Schema Migrations for MovieStream MVP
+ * Brings data saved by older app versions up to the current layout
+ *
+ * - The stored schema version says which migrations have run
+ * - Migrations run in order at startup, and again after restoring a backup
+ *   made by an older version
+ * - Each migration must be safe to run twice, since a backup can be merged
+ *   into data that is already current
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  getDownloads,
+  getItem,
+  getLists,
+  getLocalePreference,
+  getRecentlyViewed,
+  getSchemaVersion,
+  getUserPreferences,
+  removeItem,
+  saveDownloads,
+  saveLists,
+  saveLocalePreference,
+  saveRecentlyViewed,
+  saveSchemaVersion,
+  saveUserPreferences,
+  MAX_RECENTLY_VIEWED,
+} from '@/services/storage';
+import { STORAGE_KEYS as LEGACY_STORAGE_KEYS } from '@/constants/test-ids';
+import { DEFAULT_LIST_ID } from '@/types/lists';
+import { DEFAULT_USER_PREFERENCES, type RecentlyViewedItem } from '@/types/user';
+import { getItemStatus } from '@/utils/watchlist-status';
+import type { DownloadItem } from '@/types/downloads';
+
+/** A step from one schema version to the next */
+export interface StorageMigration {
+  /** Schema version once the migration has run */
+  version: number;
+  description: string;
+  migrate: () => Promise<void>;
+}
+
+/** Every migration, oldest first */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Move the legacy watchlist into lists and give every item a status',
+    migrate: async () => {
+      // Reading the lists moves the legacy watchlist key into the default list
+      const lists = await getLists();
+      await saveLists(lists.map(list => {
+        if (list.id !== DEFAULT_LIST_ID) return list;
+        return {
+          ...list,
+          items: list.items.map(item => ({
+            ...item,
+            status: getItemStatus(item),
+            statusHistory: item.statusHistory ?? [{ status: getItemStatus(item), changedAt: item.addedAt }],
+          })),
+        };
+      }));
+    },
+  },
+  {
+    version: 2,
+    description: 'Fill in preferences added since they were saved',
+    migrate: async () => {
+      const preferences = await getUserPreferences();
+      await saveUserPreferences({
+        ...DEFAULT_USER_PREFERENCES,
+        ...preferences,
+        notificationTypes: {
+          ...DEFAULT_USER_PREFERENCES.notificationTypes,
+          ...preferences.notificationTypes,
+        },
+      });
+    },
+  },
+  {
+    version: 3,
+    description: 'Drop malformed and duplicate recently viewed entries',
+    migrate: async () => {
+      const items = await getRecentlyViewed();
+      const seen = new Set<string>();
+      const cleaned: RecentlyViewedItem[] = [];
+
+      for (const item of [...items].sort((a, b) => (b.viewedAt ?? '').localeCompare(a.viewedAt ?? ''))) {
+        if (!Number.isInteger(item?.id) || (item.mediaType !== 'movie' && item.mediaType !== 'tv')) continue;
+        const key = `${item.mediaType}:${item.id}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        cleaned.push(item);
+      }
+
+      await saveRecentlyViewed(cleaned.slice(0, MAX_RECENTLY_VIEWED));
+    },
+  },
+  {
+    version: 4,
+    description: 'Move downloads metadata to its namespaced key',
+    migrate: async () => {
+      const legacy = await getItem<DownloadItem[]>(LEGACY_STORAGE_KEYS.DOWNLOADS_DATA);
+      if (!Array.isArray(legacy)) return;
+
+      const current = await getDownloads();
+      const ids = new Set(current.map(d => d.id));
+      const moved = legacy.filter(d => d?.id && d.filePath && !ids.has(d.id));
+      await saveDownloads([...current, ...moved]);
+      await removeItem(LEGACY_STORAGE_KEYS.DOWNLOADS_DATA);
+    },
+  },
+  {
+    version: 5,
+    description: 'Move the locale preference to its namespaced key',
+    migrate: async () => {
+      // The legacy key held the bare locale code rather than JSON
+      const legacy = await AsyncStorage.getItem(LEGACY_STORAGE_KEYS.USER_LOCALE_PREFERENCE);
+      if (legacy === null) return;
+
+      if (!(await getLocalePreference())) {
+        await saveLocalePreference(legacy);
+      }
+      await removeItem(LEGACY_STORAGE_KEYS.USER_LOCALE_PREFERENCE);
+    },
+  },
+  {
+    version: 6,
+    description: 'Add the subscribed streaming services preference',
+    migrate: async () => {
+      const preferences = await getUserPreferences();
+      if (Array.isArray(preferences.streamingServices)) return;
+      await saveUserPreferences({ ...preferences, streamingServices: [] });
+    },
+  },
+  {
+    version: 7,
+    description: 'Add the content language preference',
+    migrate: async () => {
+      const preferences = await getUserPreferences();
+      if (preferences.contentLanguage !== undefined) return;
+      await saveUserPreferences({ ...preferences, contentLanguage: null });
+    },
+  },
+  {
+    version: 8,
+    description: 'Add the certification ceiling preferences',
+    migrate: async () => {
+      const preferences = await getUserPreferences();
+      if (preferences.certificationCeiling !== undefined && preferences.certificationCeilingMode !== undefined) return;
+      await saveUserPreferences({
+        ...preferences,
+        certificationCeiling: preferences.certificationCeiling ?? null,
+        certificationCeilingMode: preferences.certificationCeilingMode ?? 'blur',
+      });
+    },
+  },
+];
+
+/** Schema version written by this build */
+export const STORAGE_SCHEMA_VERSION = STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version;
+
+/**
+ * Run the migrations the stored data hasn't had yet
+ * Stops at the first failure so it is retried on the next run; data saved by
+ * a newer app version is left alone.
+ * @param migrations - Migrations to apply (defaults to every migration)
+ * @returns Schema version the data is now at
+ */
+export async function runStorageMigrations(
+  migrations: StorageMigration[] = STORAGE_MIGRATIONS
+): Promise<number> {
+  let version = await getSchemaVersion();
+  const latest = Math.max(0, ...migrations.map(m => m.version));
+  if (version > latest) {
+    console.warn(`[Storage] Data is at schema ${version}, newer than this build (${latest})`);
+    return version;
+  }
+
+  const pending = migrations
+    .filter(m => m.version > version)
+    .sort((a, b) => a.version - b.version);
+
+  for (const migration of pending) {
+    try {
+      await migration.migrate();
+      await saveSchemaVersion(migration.version);
+      version = migration.version;
+    } catch (error) {
+      console.error(`[Storage] Migration ${migration.version} (${migration.description}) failed:`, error);
+      break;
+    }
+  }
+
+  return version;
+}
@@ -3,21 +3,61 @@
  * Provides typed get/set/remove operations for local persistence
  * 
  * Requirements: 7.3, 14.3
- * - Watchlist persistence for offline access
+ * - Watchlist and custom list persistence for offline access
  * - Recently viewed persistence
  * - User preferences persistence
+ * - Episode watch progress persistence
+ * - Personal ratings and notes persistence
+ * - Watch diary persistence, one key per month
+ * - Downloaded file metadata and locale persistence
+ * - Storage schema version, advanced by the migration runner
+ * - Watchlist sync outbox, tombstones and pull cursor
  */
 
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import type { WatchlistItem } from '@/types/watchlist';
+import { clearHttpCache } from '@/services/api/http-cache';
+import type { WatchlistItem, WatchlistMetadataCache } from '@/types/watchlist';
+import { DEFAULT_LIST_ID, type CustomList } from '@/types/lists';
+import { createDefaultList } from '@/utils/custom-lists';
 import type { UserPreferences, RecentlyViewedItem } from '@/types/user';
+import type { SeriesProgress } from '@/types/progress';
+import type { UserRating } from '@/types/ratings';
+import type { DiaryEntry, DiaryMonth } from '@/types/diary';
+import type { DownloadItem } from '@/types/downloads';
+import type { SyncOperation, SyncTombstones } from '@/types/sync';
+import type { PickHistoryEntry } from '@/types/picker';
+import type { CertificationCache } from '@/types/media';
 import { DEFAULT_USER_PREFERENCES } from '@/types/user';
 
 // Storage keys
 const STORAGE_KEYS = {
+  /** Legacy single watchlist, migrated into the default list */
   WATCHLIST: '@moviestream/watchlist',
+  LISTS: '@moviestream/lists',
   RECENTLY_VIEWED: '@moviestream/recently_viewed',
   USER_PREFERENCES: '@moviestream/user_preferences',
+  WATCH_PROGRESS: '@moviestream/watch_progress',
+  USER_RATINGS: '@moviestream/user_ratings',
+  /** Months that have diary entries, newest first */
+  DIARY_INDEX: '@moviestream/diary_index',
+  /** Prefix for per-month diary keys (`@moviestream/diary/2025-06`) */
+  DIARY_MONTH_PREFIX: '@moviestream/diary/',
+  DOWNLOADS: '@moviestream/downloads',
+  LOCALE: '@moviestream/locale',
+  /** Version of the data layout below (see storage-migrations.ts) */
+  SCHEMA_VERSION: '@moviestream/schema_version',
+  /** Watchlist changes not yet accepted by the sync server */
+  SYNC_OUTBOX: '@moviestream/sync_outbox',
+  /** When removed titles were removed, so older adds don't bring them back */
+  SYNC_TOMBSTONES: '@moviestream/sync_tombstones',
+  /** Position of the last pull from the sync server */
+  SYNC_CURSOR: '@moviestream/sync_cursor',
+  /** Runtime, genres and availability fetched for watchlist titles */
+  WATCHLIST_METADATA: '@moviestream/watchlist_metadata',
+  /** Titles the tonight picker suggested recently */
+  PICK_HISTORY: '@moviestream/pick_history',
+  /** Certifications looked up for listed titles */
+  CERTIFICATIONS: '@moviestream/certifications',
 } as const;
 
 // Maximum number of recently viewed items to store
@@ -74,18 +114,88 @@ export async function removeItem(key: string): Promise<void> {
 }
 
 /**
- * Clear all app storage
+ * Clear all app storage, including cached API responses
  */
 export async function clearAll(): Promise<void> {
   try {
-    const keys = Object.values(STORAGE_KEYS);
+    const diaryMonths = await getDiaryMonths();
+    const keys = [
+      ...Object.values(STORAGE_KEYS),
+      ...diaryMonths.map(month => `${STORAGE_KEYS.DIARY_MONTH_PREFIX}${month}`),
+    ];
     await AsyncStorage.multiRemove(keys);
+    await clearHttpCache();
   } catch (error) {
     console.error('Error clearing storage:', error);
     throw error;
   }
 }
 
+// ============================================================================
+// CUSTOM LISTS PERSISTENCE
+// ============================================================================
+
+/** Last queued write to the lists key; writes run one at a time */
+let listsWrite: Promise<void> = Promise.resolve();
+
+/**
+ * Read, update and write back the stored lists, after any pending list write
+ * The watchlist and custom lists share one key, so every write goes through here
+ * @param update - Builds the lists to store from the stored lists
+ */
+function updateLists(update: (lists: CustomList[]) => CustomList[]): Promise<void> {
+  const write = listsWrite.then(async () => {
+    await setItem(STORAGE_KEYS.LISTS, update(await getLists()));
+  });
+  listsWrite = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Get all lists from storage, default list first
+ * On first run the legacy watchlist is migrated into the default list
+ * @returns Array of lists
+ */
+export async function getLists(): Promise<CustomList[]> {
+  const lists = await getItem<CustomList[]>(STORAGE_KEYS.LISTS);
+
+  if (!lists) {
+    const legacyWatchlist = await getItem<WatchlistItem[]>(STORAGE_KEYS.WATCHLIST);
+    const migrated = [createDefaultList(new Date().toISOString(), legacyWatchlist || [])];
+    await setItem(STORAGE_KEYS.LISTS, migrated);
+    if (legacyWatchlist) {
+      await removeItem(STORAGE_KEYS.WATCHLIST);
+    }
+    return migrated;
+  }
+
+  // The default list can't be deleted, but guard against hand-edited data
+  if (!lists.some(list => list.id === DEFAULT_LIST_ID)) {
+    return [createDefaultList(new Date().toISOString()), ...lists];
+  }
+  return lists;
+}
+
+/**
+ * Save all lists to storage
+ * @param lists - Array of lists in display order
+ */
+export async function saveLists(lists: CustomList[]): Promise<void> {
+  await updateLists(() => lists);
+}
+
+/**
+ * Save custom lists, keeping the stored watchlist items
+ * The default list's items belong to the watchlist store, which saves them itself
+ * @param lists - Array of lists in display order
+ */
+export async function saveCustomLists(lists: CustomList[]): Promise<void> {
+  await updateLists(stored => {
+    const watchlistItems = stored.find(list => list.id === DEFAULT_LIST_ID)?.items || [];
+    return lists.map(list => (list.id === DEFAULT_LIST_ID ? { ...list, items: watchlistItems } : list));
+  });
+}
+
 // ============================================================================
 // WATCHLIST PERSISTENCE
 // ============================================================================
@@ -95,8 +205,25 @@ export async function clearAll(): Promise<void> {
  * @returns Array of watchlist items
  */
 export async function getWatchlist(): Promise<WatchlistItem[]> {
-  const items = await getItem<WatchlistItem[]>(STORAGE_KEYS.WATCHLIST);
-  return items || [];
+  const lists = await getLists();
+  return lists.find(list => list.id === DEFAULT_LIST_ID)?.items || [];
+}
+
+/**
+ * Read, update and write back the stored watchlist through the lists queue
+ * @param update - Builds the items to store from the stored items
+ * @returns Stored watchlist
+ */
+async function updateWatchlist(
+  update: (items: WatchlistItem[]) => WatchlistItem[]
+): Promise<WatchlistItem[]> {
+  let watchlist: WatchlistItem[] = [];
+  await updateLists(lists => lists.map(list => {
+    if (list.id !== DEFAULT_LIST_ID) return list;
+    watchlist = update(list.items);
+    return { ...list, items: watchlist, updatedAt: new Date().toISOString() };
+  }));
+  return watchlist;
 }
 
 /**
@@ -104,7 +231,7 @@ export async function getWatchlist(): Promise<WatchlistItem[]> {
  * @param items - Array of watchlist items
  */
 export async function saveWatchlist(items: WatchlistItem[]): Promise<void> {
-  await setItem(STORAGE_KEYS.WATCHLIST, items);
+  await updateWatchlist(() => items);
 }
 
 /**
@@ -113,23 +240,23 @@ export async function saveWatchlist(items: WatchlistItem[]): Promise<void> {
  * @returns Updated watchlist
  */
 export async function addToWatchlist(item: WatchlistItem): Promise<WatchlistItem[]> {
-  const watchlist = await getWatchlist();
-  
-  // Check if item already exists
-  const existingIndex = watchlist.findIndex(
-    w => w.id === item.id && w.mediaType === item.mediaType
-  );
-  
-  if (existingIndex >= 0) {
-    // Update existing item
-    watchlist[existingIndex] = item;
-  } else {
-    // Add new item
-    watchlist.push(item);
-  }
-  
-  await saveWatchlist(watchlist);
-  return watchlist;
+  return updateWatchlist(stored => {
+    const watchlist = [...stored];
+
+    // Check if item already exists
+    const existingIndex = watchlist.findIndex(
+      w => w.id === item.id && w.mediaType === item.mediaType
+    );
+
+    if (existingIndex >= 0) {
+      // Update existing item
+      watchlist[existingIndex] = item;
+    } else {
+      // Add new item
+      watchlist.push(item);
+    }
+    return watchlist;
+  });
 }
 
 /**
@@ -142,12 +269,9 @@ export async function removeFromWatchlist(
   id: number,
   mediaType: 'movie' | 'tv'
 ): Promise<WatchlistItem[]> {
-  const watchlist = await getWatchlist();
-  const filtered = watchlist.filter(
+  return updateWatchlist(watchlist => watchlist.filter(
     item => !(item.id === id && item.mediaType === mediaType)
-  );
-  await saveWatchlist(filtered);
-  return filtered;
+  ));
 }
 
 /**
@@ -287,5 +411,315 @@ export async function resetUserPreferences(): Promise<UserPreferences> {
   return defaults;
 }
 
+// ============================================================================
+// WATCH PROGRESS PERSISTENCE
+// ============================================================================
+
+/**
+ * Get episode watch progress for all tracked series
+ * @returns Array of series progress entries
+ */
+export async function getWatchProgress(): Promise<SeriesProgress[]> {
+  const items = await getItem<SeriesProgress[]>(STORAGE_KEYS.WATCH_PROGRESS);
+  return items || [];
+}
+
+/**
+ * Save episode watch progress to storage
+ * @param items - Array of series progress entries
+ */
+export async function saveWatchProgress(items: SeriesProgress[]): Promise<void> {
+  await setItem(STORAGE_KEYS.WATCH_PROGRESS, items);
+}
+
+// ============================================================================
+// PERSONAL RATINGS PERSISTENCE
+// ============================================================================
+
+/**
+ * Get the user's personal ratings and notes
+ * @returns Array of personal ratings
+ */
+export async function getUserRatings(): Promise<UserRating[]> {
+  const items = await getItem<UserRating[]>(STORAGE_KEYS.USER_RATINGS);
+  return items || [];
+}
+
+/**
+ * Save personal ratings and notes to storage
+ * @param items - Array of personal ratings
+ */
+export async function saveUserRatings(items: UserRating[]): Promise<void> {
+  await setItem(STORAGE_KEYS.USER_RATINGS, items);
+}
+
+// ============================================================================
+// WATCH DIARY PERSISTENCE
+// ============================================================================
+
+/**
+ * Get the months that have diary entries
+ * @returns Months (YYYY-MM), newest first
+ */
+export async function getDiaryMonths(): Promise<DiaryMonth[]> {
+  const months = await getItem<DiaryMonth[]>(STORAGE_KEYS.DIARY_INDEX);
+  return months || [];
+}
+
+/**
+ * Get the diary entries logged for a month
+ * @param month - Month (YYYY-MM)
+ * @returns Entries for the month
+ */
+export async function getDiaryMonth(month: DiaryMonth): Promise<DiaryEntry[]> {
+  const entries = await getItem<DiaryEntry[]>(`${STORAGE_KEYS.DIARY_MONTH_PREFIX}${month}`);
+  return entries || [];
+}
+
+/**
+ * Get every diary entry in storage
+ * @returns All entries, newest month first
+ */
+export async function getAllDiaryEntries(): Promise<DiaryEntry[]> {
+  const months = await getDiaryMonths();
+  const entries: DiaryEntry[] = [];
+  for (const month of months) {
+    entries.push(...await getDiaryMonth(month));
+  }
+  return entries;
+}
+
+/** Last queued diary write; writes run one at a time */
+let diaryWrite: Promise<unknown> = Promise.resolve();
+
+/**
+ * Read, update and write back a month's diary entries, after any pending diary write
+ * Every month shares the month index, so every diary write goes through here.
+ * An empty month is removed from storage and the index.
+ * @param month - Month (YYYY-MM)
+ * @param update - Builds the entries to store from the stored entries
+ * @returns Entries stored for the month
+ */
+export function updateDiaryMonth(
+  month: DiaryMonth,
+  update: (entries: DiaryEntry[]) => DiaryEntry[]
+): Promise<DiaryEntry[]> {
+  const write = diaryWrite.then(async () => {
+    const key = `${STORAGE_KEYS.DIARY_MONTH_PREFIX}${month}`;
+    const entries = update(await getDiaryMonth(month));
+    const months = await getDiaryMonths();
+    const others = months.filter(m => m !== month);
+
+    if (entries.length === 0) {
+      await removeItem(key);
+      if (others.length !== months.length) {
+        await setItem(STORAGE_KEYS.DIARY_INDEX, others);
+      }
+      return entries;
+    }
+
+    await setItem(key, entries);
+    if (others.length === months.length) {
+      await setItem(STORAGE_KEYS.DIARY_INDEX, [...others, month].sort().reverse());
+    }
+    return entries;
+  });
+  diaryWrite = write.catch(() => undefined);
+  return write;
+}
+
+/**
+ * Save the diary entries for a month and keep the month index in step
+ * An empty month is removed from storage and the index.
+ * @param month - Month (YYYY-MM)
+ * @param entries - All entries for the month
+ */
+export async function saveDiaryMonth(month: DiaryMonth, entries: DiaryEntry[]): Promise<void> {
+  await updateDiaryMonth(month, () => entries);
+}
+
+// ============================================================================
+// DOWNLOADS PERSISTENCE
+// ============================================================================
+
+/**
+ * Get metadata for completed downloads
+ * @returns Array of downloaded items
+ */
+export async function getDownloads(): Promise<DownloadItem[]> {
+  const items = await getItem<DownloadItem[]>(STORAGE_KEYS.DOWNLOADS);
+  return items || [];
+}
+
+/**
+ * Save metadata for completed downloads
+ * @param items - Array of downloaded items
+ */
+export async function saveDownloads(items: DownloadItem[]): Promise<void> {
+  await setItem(STORAGE_KEYS.DOWNLOADS, items);
+}
+
+// ============================================================================
+// LOCALE PERSISTENCE
+// ============================================================================
+
+/**
+ * Get the locale the user chose
+ * @returns Locale code, or null to follow the device
+ */
+export async function getLocalePreference(): Promise<string | null> {
+  return getItem<string>(STORAGE_KEYS.LOCALE);
+}
+
+/**
+ * Save the locale the user chose
+ * @param locale - Locale code, or null to follow the device
+ */
+export async function saveLocalePreference(locale: string | null): Promise<void> {
+  if (locale === null) {
+    await removeItem(STORAGE_KEYS.LOCALE);
+  } else {
+    await setItem(STORAGE_KEYS.LOCALE, locale);
+  }
+}
+
+// ============================================================================
+// SCHEMA VERSION
+// ============================================================================
+
+/**
+ * Get the version of the stored data layout
+ * @returns Schema version (0 for data saved before versioning)
+ */
+export async function getSchemaVersion(): Promise<number> {
+  const version = await getItem<number>(STORAGE_KEYS.SCHEMA_VERSION);
+  return typeof version === 'number' ? version : 0;
+}
+
+/**
+ * Record the version of the stored data layout
+ * @param version - Schema version
+ */
+export async function saveSchemaVersion(version: number): Promise<void> {
+  await setItem(STORAGE_KEYS.SCHEMA_VERSION, version);
+}
+
+// ============================================================================
+// WATCHLIST SYNC
+// ============================================================================
+
+/**
+ * Get watchlist changes waiting to be synced
+ * @returns Queued operations, oldest first
+ */
+export async function getSyncOutbox(): Promise<SyncOperation[]> {
+  const outbox = await getItem<SyncOperation[]>(STORAGE_KEYS.SYNC_OUTBOX);
+  return Array.isArray(outbox) ? outbox : [];
+}
+
+/**
+ * Save watchlist changes waiting to be synced
+ * @param outbox - Queued operations
+ */
+export async function saveSyncOutbox(outbox: SyncOperation[]): Promise<void> {
+  await setItem(STORAGE_KEYS.SYNC_OUTBOX, outbox);
+}
+
+/**
+ * Get when removed watchlist titles were removed
+ * @returns Removal time per title key
+ */
+export async function getSyncTombstones(): Promise<SyncTombstones> {
+  const tombstones = await getItem<SyncTombstones>(STORAGE_KEYS.SYNC_TOMBSTONES);
+  return tombstones && typeof tombstones === 'object' ? tombstones : {};
+}
+
+/**
+ * Save when removed watchlist titles were removed
+ * @param tombstones - Removal time per title key
+ */
+export async function saveSyncTombstones(tombstones: SyncTombstones): Promise<void> {
+  await setItem(STORAGE_KEYS.SYNC_TOMBSTONES, tombstones);
+}
+
+/**
+ * Get the position of the last pull from the sync server
+ * @returns Cursor, or null before the first pull
+ */
+export async function getSyncCursor(): Promise<string | null> {
+  return getItem<string>(STORAGE_KEYS.SYNC_CURSOR);
+}
+
+/**
+ * Save the position of the last pull from the sync server
+ * @param cursor - Cursor returned by the server
+ */
+export async function saveSyncCursor(cursor: string): Promise<void> {
+  await setItem(STORAGE_KEYS.SYNC_CURSOR, cursor);
+}
+
+// ============================================================================
+// WATCHLIST METADATA
+// ============================================================================
+
+/**
+ * Get the metadata fetched for watchlist titles
+ * @returns Metadata per watchlist key
+ */
+export async function getWatchlistMetadata(): Promise<WatchlistMetadataCache> {
+  const metadata = await getItem<WatchlistMetadataCache>(STORAGE_KEYS.WATCHLIST_METADATA);
+  return metadata && typeof metadata === 'object' ? metadata : {};
+}
+
+/**
+ * Save the metadata fetched for watchlist titles
+ * @param metadata - Metadata per watchlist key
+ */
+export async function saveWatchlistMetadata(metadata: WatchlistMetadataCache): Promise<void> {
+  await setItem(STORAGE_KEYS.WATCHLIST_METADATA, metadata);
+}
+
+// ============================================================================
+// CERTIFICATIONS
+// ============================================================================
+
+/**
+ * Get the certifications looked up for listed titles
+ * @returns Certifications per watchlist key
+ */
+export async function getCertificationCache(): Promise<CertificationCache> {
+  const certifications = await getItem<CertificationCache>(STORAGE_KEYS.CERTIFICATIONS);
+  return certifications && typeof certifications === 'object' ? certifications : {};
+}
+
+/**
+ * Save the certifications looked up for listed titles
+ * @param certifications - Certifications per watchlist key
+ */
+export async function saveCertificationCache(certifications: CertificationCache): Promise<void> {
+  await setItem(STORAGE_KEYS.CERTIFICATIONS, certifications);
+}
+
+// ============================================================================
+// TONIGHT PICKER
+// ============================================================================
+
+/**
+ * Get the titles the tonight picker suggested recently
+ * @returns Past suggestions, oldest first
+ */
+export async function getPickHistory(): Promise<PickHistoryEntry[]> {
+  const history = await getItem<PickHistoryEntry[]>(STORAGE_KEYS.PICK_HISTORY);
+  return Array.isArray(history) ? history : [];
+}
+
+/**
+ * Save the titles the tonight picker suggested recently
+ * @param history - Past suggestions
+ */
+export async function savePickHistory(history: PickHistoryEntry[]): Promise<void> {
+  await setItem(STORAGE_KEYS.PICK_HISTORY, history);
+}
+
 // Export storage keys for testing
 export { STORAGE_KEYS, MAX_RECENTLY_VIEWED };
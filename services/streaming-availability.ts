@@ -0,0 +1,92 @@
+/**
+ * Streaming Availability Service
+ * Checks which subscription services stream a title, for the "available to
+ * me" filters on search results, country hubs and recommendations
+ *
+ * Titles are checked a few at a time; a failed check is left out of the
+ * results so it is tried again next time instead of being cached as "not
+ * streaming".
+ */
+
+import { getWatchProviders } from '@/services/api';
+import { getWatchlistKey } from '@/services/sync';
+import { STREAMING_AVAILABILITY_CONFIG } from '@/constants/api';
+import { getSubscriptionProviders, isAvailabilityStale } from '@/utils/streaming-services';
+import type { MediaRef, StreamingAvailability } from '@/types/media';
+
+/** Result of an availability check */
+export interface AvailabilityCheckResult {
+  /** Availability per watchlist key (`movie:123`), for the titles checked */
+  availability: Record<string, StreamingAvailability>;
+  /** Titles whose providers could not be fetched */
+  failed: number;
+}
+
+/**
+ * Fetch the subscription services streaming a title
+ * @param ref - Title to check
+ * @param countryCode - Region to check
+ * @param now - Check time
+ */
+export async function fetchStreamingAvailability(
+  ref: MediaRef,
+  countryCode: string = STREAMING_AVAILABILITY_CONFIG.COUNTRY_CODE,
+  now: Date = new Date()
+): Promise<StreamingAvailability> {
+  const providers = await getWatchProviders(ref.mediaType, ref.id, countryCode);
+  return {
+    providerIds: [...new Set(getSubscriptionProviders(providers).map(p => p.providerId))],
+    countryCode,
+    checkedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Pick the titles whose availability needs checking
+ * @param refs - Titles shown
+ * @param availability - Availability already known, per watchlist key
+ * @param now - Current time
+ * @returns Distinct titles never checked or checked too long ago
+ */
+export function getTitlesToCheck<T extends MediaRef>(
+  refs: T[],
+  availability: Record<string, StreamingAvailability>,
+  now: Date = new Date()
+): T[] {
+  const seen = new Set<string>();
+  return refs.filter(ref => {
+    const key = getWatchlistKey(ref.id, ref.mediaType);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return isAvailabilityStale(availability[key], now);
+  });
+}
+
+/**
+ * Check availability for titles, a few requests at a time
+ * @param refs - Titles to check
+ * @param now - Check time
+ */
+export async function checkStreamingAvailability(
+  refs: MediaRef[],
+  now: Date = new Date()
+): Promise<AvailabilityCheckResult> {
+  const availability: Record<string, StreamingAvailability> = {};
+  let failed = 0;
+
+  for (let i = 0; i < refs.length; i += STREAMING_AVAILABILITY_CONFIG.MAX_CONCURRENT) {
+    const batch = refs.slice(i, i + STREAMING_AVAILABILITY_CONFIG.MAX_CONCURRENT);
+    const results = await Promise.allSettled(
+      batch.map(ref => fetchStreamingAvailability(ref, STREAMING_AVAILABILITY_CONFIG.COUNTRY_CODE, now))
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        availability[getWatchlistKey(batch[index].id, batch[index].mediaType)] = result.value;
+      } else {
+        failed++;
+      }
+    });
+  }
+
+  return { availability, failed };
+}
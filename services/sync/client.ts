@@ -0,0 +1,115 @@
+/**
+ * Watchlist Sync Client
+ * Talks to the watchlist sync REST endpoint
+ *
+ * - `POST {endpoint}/watchlist/changes` sends local changes and gets a
+ *   result per title
+ * - `GET {endpoint}/watchlist/changes?since=` returns changes made elsewhere
+ * - Sync is off unless EXPO_PUBLIC_SYNC_API_URL is set
+ */
+
+import { WATCHLIST_SYNC_CONFIG } from '@/constants/api';
+import type { SyncPullResponse, SyncPushResult, WatchlistChange } from '@/types/sync';
+
+/**
+ * Sync network error class
+ */
+export class SyncNetworkError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public isRetryable: boolean = false
+  ) {
+    super(message);
+    this.name = 'SyncNetworkError';
+  }
+}
+
+/**
+ * Get the sync endpoint from the environment
+ * @returns Base URL without a trailing slash, or '' when sync is off
+ */
+export function getSyncEndpoint(): string {
+  return (process.env.EXPO_PUBLIC_SYNC_API_URL || '').replace(/\/+$/, '');
+}
+
+/**
+ * Check if remote sync is configured
+ */
+export function isSyncEnabled(): boolean {
+  return getSyncEndpoint() !== '';
+}
+
+/** Send a request and parse the JSON reply */
+async function request<T>(url: string, init: RequestInit = {}): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), WATCHLIST_SYNC_CONFIG.TIMEOUT_MS);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+      signal: controller.signal,
+    });
+  } catch (error) {
+    // Offline, DNS failure or timeout
+    throw new SyncNetworkError(
+      `Sync request failed: ${error instanceof Error ? error.message : String(error)}`,
+      0,
+      true
+    );
+  } finally {
+    clearTimeout(timeout);
+  }
+
+  if (!response.ok) {
+    const isRetryable = response.status >= 500 || response.status === 429;
+    throw new SyncNetworkError(
+      `Sync API error: ${response.status} ${response.statusText}`,
+      response.status,
+      isRetryable
+    );
+  }
+
+  try {
+    return (await response.json()) as T;
+  } catch {
+    throw new SyncNetworkError('Sync API returned an invalid response', response.status, false);
+  }
+}
+
+/**
+ * Send local changes to the server
+ * @param changes - Latest change per title
+ * @param endpoint - Sync base URL
+ * @returns Result per change
+ */
+export async function pushWatchlistChanges(
+  changes: WatchlistChange[],
+  endpoint: string = getSyncEndpoint()
+): Promise<SyncPushResult[]> {
+  const { results } = await request<{ results: SyncPushResult[] }>(`${endpoint}/watchlist/changes`, {
+    method: 'POST',
+    body: JSON.stringify({ changes }),
+  });
+  return Array.isArray(results) ? results : [];
+}
+
+/**
+ * Fetch changes made since the last pull
+ * @param cursor - Position returned by the last pull (null for everything)
+ * @param endpoint - Sync base URL
+ * @returns Changes and the cursor to pull from next time
+ */
+export async function pullWatchlistChanges(
+  cursor: string | null,
+  endpoint: string = getSyncEndpoint()
+): Promise<SyncPullResponse> {
+  const query = cursor ? `?since=${encodeURIComponent(cursor)}` : '';
+  const response = await request<SyncPullResponse>(`${endpoint}/watchlist/changes${query}`);
+  return {
+    changes: Array.isArray(response.changes) ? response.changes : [],
+    cursor: response.cursor ?? cursor ?? '',
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Watchlist Sync Module
+ * Sends watchlist changes to a remote server and applies changes made on
+ * other devices
+ */
+
+export {
+  SyncNetworkError,
+  getSyncEndpoint,
+  isSyncEnabled,
+  pullWatchlistChanges,
+  pushWatchlistChanges,
+} from './client';
+
+export {
+  applyPushResults,
+  applyRemoteChanges,
+  createSyncKey,
+  diffWatchlists,
+  enqueueOperation,
+  getItemUpdatedAt,
+  getSyncKey,
+  getWatchlistKey,
+  toSyncedItem,
+  toWatchlistChange,
+  withSyncKey,
+  type SyncMergeResult,
+  type SyncPushOutcome,
+  type SyncState,
+} from './outbox';
+
+export { SYNC_RETRY_CONFIG, createSyncScheduler, type SyncScheduler } from './scheduler';
@@ -0,0 +1,265 @@
+/**
+ * Watchlist Sync Outbox
+ * Queues local changes and settles conflicts with the server
+ *
+ * - Only the latest change per title is queued, since only it can win
+ * - Conflicts are last-writer-wins on `updatedAt`; removals are tombstones
+ *   that beat older adds
+ */
+
+import type { MediaRef } from '@/types/media';
+import type { WatchlistItem } from '@/types/watchlist';
+import type {
+  SyncedWatchlistItem,
+  SyncOperation,
+  SyncPushResult,
+  SyncTombstones,
+  WatchlistChange,
+} from '@/types/sync';
+
+/**
+ * Key identifying a title in per-title caches (metadata, availability)
+ * Only unique within one ID space; the sync server uses sync keys instead.
+ * @param id - Title ID
+ * @param mediaType - Media type
+ */
+export function getWatchlistKey(id: number, mediaType: 'movie' | 'tv'): string {
+  return `${mediaType}:${id}`;
+}
+
+/**
+ * Sync key for a newly added title
+ * Titles are keyed by IMDb ID when known, otherwise by ID space and ID, so
+ * OMDb and TMDB IDs can't collide.
+ * @param ref - Title reference, tagged with its ID space
+ */
+export function createSyncKey(ref: MediaRef): string {
+  if (ref.imdbId) return `${ref.mediaType}:${ref.imdbId}`;
+  return ref.idSpace ? `${ref.mediaType}:${ref.idSpace}:${ref.id}` : getWatchlistKey(ref.id, ref.mediaType);
+}
+
+/**
+ * Key identifying a title in the outbox and on the server
+ * Items keep their key when a provider switch re-resolves their IDs. Items
+ * saved before keys were stored use the `mediaType:id` key they were synced under.
+ * @param item - Watchlist item
+ */
+export function getSyncKey(item: WatchlistItem | SyncedWatchlistItem): string {
+  return item.syncKey ?? getWatchlistKey(item.id, item.mediaType);
+}
+
+/**
+ * Store an item's sync key on it, so it survives re-resolving the item's ID
+ * @param item - Watchlist item
+ */
+export function withSyncKey(item: WatchlistItem): WatchlistItem {
+  return item.syncKey ? item : { ...item, syncKey: getSyncKey(item) };
+}
+
+/**
+ * When an item was last changed locally
+ * @param item - Watchlist item
+ */
+export function getItemUpdatedAt(item: WatchlistItem): string {
+  return item.updatedAt ?? item.addedAt;
+}
+
+/**
+ * Item as shared with the server, without local sync bookkeeping
+ * @param item - Watchlist item
+ */
+export function toSyncedItem(item: WatchlistItem): SyncedWatchlistItem {
+  const synced: Partial<WatchlistItem> = { ...item };
+  delete synced.syncStatus;
+  delete synced.syncError;
+  return synced as SyncedWatchlistItem;
+}
+
+/**
+ * Change sent to the server for a queued operation
+ * @param operation - Queued operation
+ */
+export function toWatchlistChange({ key, item, updatedAt }: SyncOperation): WatchlistChange {
+  return { key, item, updatedAt };
+}
+
+/**
+ * Queue a change, replacing any older change to the same title
+ * @param outbox - Current outbox
+ * @param operation - New change
+ * @returns Updated outbox
+ */
+export function enqueueOperation(
+  outbox: SyncOperation[],
+  operation: Omit<SyncOperation, 'error'>
+): SyncOperation[] {
+  return [...outbox.filter(op => op.key !== operation.key), { ...operation, error: null }];
+}
+
+/**
+ * Changes that turn one watchlist into another, for edits made outside the
+ * store's actions (a provider switch re-keying titles, a backup restore)
+ * Titles that are gone are removed; new or changed titles are added.
+ * @param previous - Watchlist before the edit
+ * @param items - Watchlist after the edit
+ * @param removedAt - When the removals happened (ISO)
+ * @returns Operations to queue
+ */
+export function diffWatchlists(
+  previous: WatchlistItem[],
+  items: WatchlistItem[],
+  removedAt: string
+): Omit<SyncOperation, 'error'>[] {
+  const before = new Map(previous.map(item => [getSyncKey(item), item]));
+  const after = new Set(items.map(getSyncKey));
+  const operations: Omit<SyncOperation, 'error'>[] = [];
+
+  for (const key of before.keys()) {
+    if (!after.has(key)) {
+      operations.push({ type: 'remove', key, item: null, updatedAt: removedAt });
+    }
+  }
+  for (const item of items) {
+    const key = getSyncKey(item);
+    const old = before.get(key);
+    if (old && getItemUpdatedAt(old) === getItemUpdatedAt(item)) continue;
+    operations.push({ type: 'add', key, item: toSyncedItem(item), updatedAt: getItemUpdatedAt(item) });
+  }
+  return operations;
+}
+
+/** Local state the sync merges into */
+export interface SyncState {
+  items: WatchlistItem[];
+  outbox: SyncOperation[];
+  /** Removals seen so far, so older adds arriving later are ignored */
+  tombstones: SyncTombstones;
+}
+
+/** Sync state after a sync step */
+export interface SyncMergeResult extends SyncState {
+  /** Whether the watchlist itself changed */
+  changed: boolean;
+}
+
+/**
+ * Apply changes made on other devices
+ * A remote change only wins when it is newer than the local item, any
+ * change still queued for the title and any removal already seen. Pulled
+ * items should already be resolved into the active ID space; an add of a
+ * title already on the watchlist under another key is ignored.
+ * @param state - Local watchlist, outbox and tombstones
+ * @param changes - Remote changes
+ * @returns Merged state, without queued changes that lost
+ */
+export function applyRemoteChanges(state: SyncState, changes: WatchlistChange[]): SyncMergeResult {
+  let { items, outbox } = state;
+  const tombstones = { ...state.tombstones };
+  let changed = false;
+
+  for (const change of changes) {
+    if (!change || typeof change.key !== 'string' || typeof change.updatedAt !== 'string') continue;
+
+    const queued = outbox.find(op => op.key === change.key);
+    if (queued && queued.updatedAt >= change.updatedAt) continue;
+    const removedAt = tombstones[change.key];
+    if (removedAt && removedAt >= change.updatedAt) continue;
+
+    const index = items.findIndex(item => getSyncKey(item) === change.key);
+    const local = index >= 0 ? items[index] : null;
+    if (local && !queued && getItemUpdatedAt(local) >= change.updatedAt) continue;
+    const remote = change.item;
+    if (!local && remote && items.some(item => item.id === remote.id && item.mediaType === remote.mediaType)) continue;
+
+    if (queued) {
+      outbox = outbox.filter(op => op !== queued);
+    }
+
+    if (change.item === null) {
+      tombstones[change.key] = change.updatedAt;
+      if (!local) continue;
+      items = items.filter((_, i) => i !== index);
+    } else {
+      delete tombstones[change.key];
+      const incoming: WatchlistItem = {
+        ...change.item,
+        syncKey: change.key,
+        updatedAt: change.updatedAt,
+        syncStatus: 'synced',
+        syncError: null,
+      };
+      items = local ? items.map((item, i) => (i === index ? incoming : item)) : [...items, incoming];
+    }
+    changed = true;
+  }
+
+  return { items, outbox, tombstones, changed };
+}
+
+/** Sync state after a push, plus errors with no item to show them on */
+export interface SyncPushOutcome extends SyncMergeResult {
+  errors: string[];
+}
+
+/**
+ * Apply the server's replies to pushed changes
+ * Changes replaced while the push was in flight stay queued for the next push.
+ * @param state - Current watchlist, outbox and tombstones
+ * @param sent - Operations that were pushed (as held in the outbox)
+ * @param results - Server reply per title
+ * @returns Updated state
+ */
+export function applyPushResults(
+  state: SyncState,
+  sent: SyncOperation[],
+  results: SyncPushResult[]
+): SyncPushOutcome {
+  let { items, outbox, tombstones } = state;
+  let changed = false;
+  const errors: string[] = [];
+  const resultsByKey = new Map(results.map(result => [result.key, result]));
+
+  const updateItem = (key: string, updatedAt: string, update: Partial<WatchlistItem>) => {
+    items = items.map(item =>
+      getSyncKey(item) === key && getItemUpdatedAt(item) === updatedAt
+        ? { ...item, ...update }
+        : item
+    );
+    changed = true;
+  };
+
+  for (const operation of sent) {
+    const result = resultsByKey.get(operation.key);
+    // A change queued while the push was in flight replaces the sent one,
+    // even within the same millisecond
+    const queued = outbox.find(op => op.key === operation.key);
+    if (!result || queued !== operation) continue;
+
+    switch (result.status) {
+      case 'applied':
+        outbox = outbox.filter(op => op !== queued);
+        updateItem(operation.key, operation.updatedAt, { syncStatus: 'synced', syncError: null });
+        break;
+      case 'stale': {
+        outbox = outbox.filter(op => op !== queued);
+        const remote = applyRemoteChanges({ items, outbox, tombstones }, result.current ? [result.current] : []);
+        ({ items, tombstones } = remote);
+        changed = changed || remote.changed;
+        break;
+      }
+      case 'rejected': {
+        const error = result.error || 'Rejected by the sync server';
+        if (operation.type === 'remove') {
+          outbox = outbox.filter(op => op !== queued);
+          errors.push(error);
+        } else {
+          outbox = outbox.map(op => (op === queued ? { ...op, error } : op));
+          updateItem(operation.key, operation.updatedAt, { syncStatus: 'error', syncError: error });
+        }
+        break;
+      }
+    }
+  }
+
+  return { items, outbox, tombstones, changed, errors };
+}
@@ -0,0 +1,107 @@
+/**
+ * Sync Scheduler
+ * Runs sync when asked, retries failures with backoff, and starts over
+ * as soon as the device comes back online
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import { isNetworkConnected } from '@/services/network';
+import { calculateBackoffDelay, type RetryConfig } from '@/services/api/http';
+import { WATCHLIST_SYNC_CONFIG } from '@/constants/api';
+
+/** Backoff between failed syncs (retried until one succeeds) */
+export const SYNC_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: Infinity,
+  baseDelayMs: WATCHLIST_SYNC_CONFIG.BASE_RETRY_DELAY_MS,
+  maxDelayMs: WATCHLIST_SYNC_CONFIG.MAX_RETRY_DELAY_MS,
+  backoffFactor: 2,
+  jitter: true,
+};
+
+export interface SyncScheduler {
+  /** Listen for connectivity changes and run once */
+  start: () => void;
+  /** Stop listening and cancel any pending retry */
+  stop: () => void;
+  /** Run now, or once more after the run in progress */
+  trigger: () => Promise<void>;
+}
+
+/**
+ * Create a scheduler around a sync run
+ * @param run - Sync run; throwing schedules a retry
+ * @param config - Backoff between retries
+ */
+export function createSyncScheduler(
+  run: () => Promise<void>,
+  config: RetryConfig = SYNC_RETRY_CONFIG
+): SyncScheduler {
+  let attempt = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let running: Promise<void> | null = null;
+  let runAgain = false;
+  let unsubscribe: (() => void) | null = null;
+
+  const cancelRetry = () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+
+  const execute = async () => {
+    do {
+      runAgain = false;
+      // Offline runs wait for the connectivity listener instead of backing off
+      if (!(await isNetworkConnected())) return;
+
+      try {
+        await run();
+        attempt = 0;
+      } catch (error) {
+        const delay = calculateBackoffDelay(attempt++, config);
+        console.warn(`[Sync] Failed, retrying in ${delay}ms:`, error);
+        retryTimer = setTimeout(() => {
+          retryTimer = null;
+          trigger();
+        }, delay);
+        return;
+      }
+    } while (runAgain);
+  };
+
+  const trigger = (): Promise<void> => {
+    if (running) {
+      runAgain = true;
+      return running;
+    }
+    cancelRetry();
+    running = execute().finally(() => {
+      running = null;
+    });
+    return running;
+  };
+
+  return {
+    start: () => {
+      if (unsubscribe) return;
+      let wasConnected: boolean | null = null;
+      unsubscribe = NetInfo.addEventListener(state => {
+        const isConnected = state.isConnected === true;
+        if (isConnected && wasConnected === false) {
+          // Back online: retry straight away and restart the backoff
+          attempt = 0;
+          trigger();
+        }
+        wasConnected = isConnected;
+      });
+      trigger();
+    },
+    stop: () => {
+      unsubscribe?.();
+      unsubscribe = null;
+      cancelRetry();
+    },
+    trigger,
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Tonight Picker Service
+ * Finds recommended titles for the "What should I watch tonight?" picker
+ *
+ * Recommendations are fetched for a few watchlist titles, then fetched in
+ * detail one at a time so the picker can check runtime, genres and
+ * availability like it does for watchlist titles.
+ */
+
+import { getRecommendations } from '@/services/api';
+import { fetchWatchlistItemMetadata } from '@/services/watchlist-metadata';
+import { getWatchlistKey } from '@/services/sync';
+import { PICKER_CONFIG } from '@/constants/picker';
+import type { MediaItem, MediaRef } from '@/types/media';
+import type { PickerCandidate } from '@/types/picker';
+
+/**
+ * Choose which watchlist titles to fetch recommendations for
+ * @param items - Watchlist titles
+ * @param count - Number of titles to choose
+ * @param random - Random number in [0, 1)
+ * @returns Up to `count` distinct titles, in random order
+ */
+export function chooseRecommendationSeeds<T>(
+  items: T[],
+  count: number = PICKER_CONFIG.RECOMMENDATION_SEEDS,
+  random: () => number = Math.random
+): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled.slice(0, count);
+}
+
+/**
+ * Fetch recommended titles to add to the picker's candidates
+ * Titles in `excludeKeys` (the watchlist and recent suggestions) are skipped.
+ * A failed request only loses the titles it would have added.
+ * @param seeds - Watchlist titles to base recommendations on
+ * @param excludeKeys - Watchlist keys to leave out
+ * @param limit - Most titles returned
+ * @returns Recommended candidates with their details
+ */
+export async function fetchRecommendedCandidates(
+  seeds: MediaRef[],
+  excludeKeys: Set<string>,
+  limit: number = PICKER_CONFIG.MAX_RECOMMENDATIONS
+): Promise<PickerCandidate[]> {
+  const results = await Promise.all(
+    seeds.map(seed =>
+      getRecommendations(seed.mediaType, seed.id, 1)
+        .then(response => response.items)
+        .catch(() => [] as MediaItem[])
+    )
+  );
+
+  // Interleave the seeds' lists so every seed contributes
+  const picked: MediaItem[] = [];
+  const seen = new Set(excludeKeys);
+  const longest = Math.max(0, ...results.map(items => items.length));
+  for (let i = 0; i < longest && picked.length < limit; i++) {
+    for (const items of results) {
+      const item = items[i];
+      if (!item || picked.length >= limit) continue;
+      const key = getWatchlistKey(item.id, item.mediaType);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      picked.push(item);
+    }
+  }
+
+  const candidates: PickerCandidate[] = [];
+  for (const item of picked) {
+    try {
+      candidates.push({
+        id: item.id,
+        mediaType: item.mediaType,
+        key: getWatchlistKey(item.id, item.mediaType),
+        title: item.title,
+        posterPath: item.posterPath,
+        source: 'recommendation',
+        status: null,
+        metadata: await fetchWatchlistItemMetadata(item),
+      });
+    } catch (error) {
+      console.warn(`[TonightPicker] Failed to fetch ${item.mediaType} ${item.id}:`, error);
+    }
+  }
+  return candidates;
+}
@@ -0,0 +1,267 @@
+/**
+ * App Backup
+ * Full-fidelity export and restore of the app's personal data
+ * (lists including the watchlist, ratings, diary, series progress,
+ * preferences, recently viewed and the chosen locale)
+ *
+ * - Backups are signed with a checksum so damaged or hand-edited files are
+ *   rejected before anything is written
+ * - Backups record the storage schema version, and restored data is brought
+ *   up to date by the storage migrations
+ * - Downloads are left out: the files stay on the device they were saved to
+ */
+
+import {
+  getAllDiaryEntries,
+  getDiaryMonths,
+  getLists,
+  getLocalePreference,
+  getRecentlyViewed,
+  getUserPreferences,
+  getUserRatings,
+  getWatchProgress,
+  saveDiaryMonth,
+  saveLists,
+  saveLocalePreference,
+  saveRecentlyViewed,
+  saveSchemaVersion,
+  saveUserPreferences,
+  saveUserRatings,
+  saveWatchProgress,
+  MAX_RECENTLY_VIEWED,
+} from '@/services/storage';
+import { clearHttpCache } from '@/services/api/http-cache';
+import { runStorageMigrations, STORAGE_SCHEMA_VERSION } from '@/services/storage-migrations';
+import { canonicalJson, hmacSha256 } from '@/utils/checksum';
+import { toDiaryMonth } from '@/utils/diary';
+import type { AppBackup, RestoreMode } from '@/types/transfer';
+import type { CustomList } from '@/types/lists';
+import type { DiaryEntry } from '@/types/diary';
+import type { MediaRef } from '@/types/media';
+
+/** Backup format version written by this build */
+export const BACKUP_VERSION = 2;
+
+/**
+ * Key the backup checksum is signed with
+ * It ships with the app, so it catches corruption and hand edits rather than
+ * proving who made the file.
+ */
+const BACKUP_SIGNING_KEY = 'moviestream-backup-v2';
+
+/**
+ * Checksum of a backup's contents
+ * @param backup - Backup (any existing checksum is ignored)
+ * @returns Hex HMAC-SHA-256
+ */
+export function computeBackupChecksum(backup: AppBackup): string {
+  return hmacSha256(BACKUP_SIGNING_KEY, canonicalJson({ ...backup, checksum: undefined }));
+}
+
+/**
+ * Snapshot the app's personal data
+ * @param now - Export timestamp (ISO)
+ * @returns Signed backup ready to be serialized
+ */
+export async function createAppBackup(now: string = new Date().toISOString()): Promise<AppBackup> {
+  const [lists, ratings, diary, progress, preferences, recentlyViewed, locale] = await Promise.all([
+    getLists(),
+    getUserRatings(),
+    getAllDiaryEntries(),
+    getWatchProgress(),
+    getUserPreferences(),
+    getRecentlyViewed(),
+    getLocalePreference(),
+  ]);
+
+  const backup: AppBackup = {
+    app: 'moviestream',
+    version: BACKUP_VERSION,
+    schemaVersion: STORAGE_SCHEMA_VERSION,
+    exportedAt: now,
+    lists,
+    ratings,
+    diary,
+    progress,
+    preferences,
+    recentlyViewed,
+    locale,
+  };
+  return { ...backup, checksum: computeBackupChecksum(backup) };
+}
+
+/**
+ * Read a backup file
+ * @param text - Backup JSON
+ * @returns Parsed backup
+ * @throws If the file isn't a backup, fails its checksum or was written by a newer version
+ */
+export function parseAppBackup(text: string): AppBackup {
+  let parsed: Partial<AppBackup>;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  if (!parsed || parsed.app !== 'moviestream' || typeof parsed.version !== 'number') {
+    throw new Error('This file is not a MovieStream backup');
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+  // Version 1 backups were written before checksums
+  if (parsed.version >= 2 && parsed.checksum !== computeBackupChecksum(parsed as AppBackup)) {
+    throw new Error('This backup is damaged or was edited');
+  }
+
+  const schemaVersion = typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 0;
+  if (schemaVersion > STORAGE_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of the app');
+  }
+
+  return {
+    app: 'moviestream',
+    version: parsed.version,
+    schemaVersion,
+    exportedAt: parsed.exportedAt ?? '',
+    lists: Array.isArray(parsed.lists) ? parsed.lists : [],
+    ratings: Array.isArray(parsed.ratings) ? parsed.ratings : [],
+    diary: Array.isArray(parsed.diary) ? parsed.diary : [],
+    progress: Array.isArray(parsed.progress) ? parsed.progress : [],
+    preferences: parsed.preferences && typeof parsed.preferences === 'object' ? parsed.preferences : null,
+    recentlyViewed: Array.isArray(parsed.recentlyViewed) ? parsed.recentlyViewed : [],
+    locale: typeof parsed.locale === 'string' ? parsed.locale : null,
+    ...(parsed.checksum ? { checksum: parsed.checksum } : {}),
+  };
+}
+
+/** Key identifying a title across lists, ratings and progress */
+const refKey = (ref: MediaRef) => `${ref.mediaType}:${ref.id}`;
+
+/**
+ * Combine two sets of records, keeping the most recently updated copy of each
+ * Records only in one set are kept; local order comes first.
+ */
+function mergeByKey<T extends { updatedAt: string }>(
+  local: T[],
+  incoming: T[],
+  getKey: (record: T) => string
+): T[] {
+  const merged = new Map(local.map(record => [getKey(record), record]));
+  for (const record of incoming) {
+    const key = getKey(record);
+    const existing = merged.get(key);
+    if (!existing || record.updatedAt > existing.updatedAt) {
+      merged.set(key, record);
+    }
+  }
+  return [...merged.values()];
+}
+
+/** Combine lists matched by ID, then by name, adding titles the local list lacks */
+function mergeLists(local: CustomList[], incoming: CustomList[]): CustomList[] {
+  const merged = local.map(list => ({ ...list, items: [...list.items] }));
+
+  for (const list of incoming) {
+    const target =
+      merged.find(l => l.id === list.id) ??
+      merged.find(l => l.name.trim().toLowerCase() === list.name.trim().toLowerCase());
+    if (!target) {
+      merged.push({ ...list, items: [...list.items] });
+      continue;
+    }
+
+    const keys = new Set(target.items.map(refKey));
+    const added = list.items.filter(item => !keys.has(refKey(item)));
+    if (added.length > 0) {
+      target.items.push(...added);
+      target.updatedAt = list.updatedAt > target.updatedAt ? list.updatedAt : target.updatedAt;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Merge a backup into the data already on the device
+ * Titles and entries missing locally are added; where both sides have the
+ * same record the more recently updated copy wins. Preferences and the
+ * locale are device settings, so the local ones are kept.
+ * @param local - Snapshot of the device's data
+ * @param incoming - Backup being restored
+ * @returns Merged backup at the local schema version
+ */
+export function mergeAppBackup(local: AppBackup, incoming: AppBackup): AppBackup {
+  const viewed = new Map(local.recentlyViewed.map(item => [refKey(item), item]));
+  for (const item of incoming.recentlyViewed) {
+    const existing = viewed.get(refKey(item));
+    if (!existing || item.viewedAt > existing.viewedAt) {
+      viewed.set(refKey(item), item);
+    }
+  }
+
+  return {
+    ...local,
+    lists: mergeLists(local.lists, incoming.lists),
+    ratings: mergeByKey(local.ratings, incoming.ratings, refKey),
+    diary: mergeByKey(local.diary, incoming.diary, entry => entry.entryId),
+    progress: mergeByKey(local.progress, incoming.progress, refKey),
+    recentlyViewed: [...viewed.values()]
+      .sort((a, b) => b.viewedAt.localeCompare(a.viewedAt))
+      .slice(0, MAX_RECENTLY_VIEWED),
+    preferences: local.preferences ?? incoming.preferences,
+    locale: local.locale ?? incoming.locale,
+    checksum: undefined,
+  };
+}
+
+/** Write every section of a backup to storage, replacing what is there */
+async function writeBackup(backup: AppBackup): Promise<void> {
+  const byMonth = new Map<string, DiaryEntry[]>();
+  for (const entry of backup.diary) {
+    const month = toDiaryMonth(entry.watchedOn);
+    byMonth.set(month, [...(byMonth.get(month) ?? []), entry]);
+  }
+
+  await saveLists(backup.lists);
+  await saveUserRatings(backup.ratings);
+  await saveWatchProgress(backup.progress);
+
+  for (const month of await getDiaryMonths()) {
+    if (!byMonth.has(month)) {
+      await saveDiaryMonth(month, []);
+    }
+  }
+  for (const [month, entries] of byMonth) {
+    await saveDiaryMonth(month, entries);
+  }
+
+  // Version 1 backups didn't include settings, so the device's are kept
+  if (backup.version >= 2) {
+    if (backup.preferences) {
+      await saveUserPreferences(backup.preferences);
+    }
+    await saveRecentlyViewed(backup.recentlyViewed);
+    await saveLocalePreference(backup.locale);
+  }
+}
+
+/**
+ * Restore a backup
+ * Data from an older schema is migrated once written. Stores must be
+ * reloaded afterwards.
+ * @param backup - Parsed backup
+ * @param mode - Replace the device's data, or merge the backup into it
+ */
+export async function restoreAppBackup(backup: AppBackup, mode: RestoreMode = 'replace'): Promise<void> {
+  const data = mode === 'merge' ? mergeAppBackup(await createAppBackup(), backup) : backup;
+  await writeBackup(data);
+
+  // Migrations are safe to re-run, so merged data that is partly current is fine
+  await saveSchemaVersion(backup.schemaVersion);
+  await runStorageMigrations();
+
+  // Cached responses may describe titles the restored data no longer refers to
+  await clearHttpCache();
+}
@@ -0,0 +1,48 @@
+/**
+ * Export
+ * Builds export files from the data in storage
+ */
+
+import { getAllDiaryEntries, getLists, getUserRatings } from '@/services/storage';
+import { DEFAULT_LIST_ID } from '@/types/lists';
+import type { TransferFormat } from '@/types/transfer';
+import { exportToFormat, type ExportData } from './formats';
+import { createAppBackup } from './backup';
+
+/** File names offered when sharing an export */
+export const EXPORT_FILE_NAMES: Record<TransferFormat, string> = {
+  letterboxd: 'moviestream-letterboxd.csv',
+  imdb: 'moviestream-imdb-list.csv',
+  trakt: 'moviestream-trakt.json',
+  backup: 'moviestream-backup.json',
+};
+
+/**
+ * Read the data written by the Letterboxd, IMDb and Trakt exporters
+ * @returns Watchlist, ratings and diary
+ */
+export async function getExportData(): Promise<ExportData> {
+  const [lists, ratings, diary] = await Promise.all([
+    getLists(),
+    getUserRatings(),
+    getAllDiaryEntries(),
+  ]);
+
+  return {
+    watchlist: lists.find(list => list.id === DEFAULT_LIST_ID)?.items ?? [],
+    ratings,
+    diary,
+  };
+}
+
+/**
+ * Build an export file
+ * @param format - Export format
+ * @returns File contents
+ */
+export async function createExport(format: TransferFormat): Promise<string> {
+  if (format === 'backup') {
+    return JSON.stringify(await createAppBackup(), null, 2);
+  }
+  return exportToFormat(await getExportData(), format);
+}
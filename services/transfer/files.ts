@@ -0,0 +1,55 @@
+/**
+ * Transfer Files
+ * Exports are written to a file and handed to the share sheet; imports and
+ * backups are read from a file the user picks
+ */
+
+import { File, Paths } from 'expo-file-system';
+import * as DocumentPicker from 'expo-document-picker';
+import * as Sharing from 'expo-sharing';
+import { EXPORT_FILE_NAMES } from './export';
+import type { TransferFormat } from '@/types/transfer';
+
+/** MIME type of each export format's file */
+const EXPORT_MIME_TYPES: Record<TransferFormat, string> = {
+  letterboxd: 'text/csv',
+  imdb: 'text/csv',
+  trakt: 'application/json',
+  backup: 'application/json',
+};
+
+/** File types offered by the import picker */
+const IMPORT_MIME_TYPES = ['text/csv', 'text/comma-separated-values', 'text/plain', 'application/json'];
+
+/**
+ * Write an export to a file and open the share sheet for it
+ * @param format - Export format, which names the file
+ * @param contents - Exported text
+ */
+export async function shareExportFile(format: TransferFormat, contents: string): Promise<void> {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error('Sharing files is not available on this device');
+  }
+
+  const file = new File(Paths.cache, EXPORT_FILE_NAMES[format]);
+  file.create({ overwrite: true });
+  file.write(contents);
+  await Sharing.shareAsync(file.uri, {
+    mimeType: EXPORT_MIME_TYPES[format],
+    dialogTitle: EXPORT_FILE_NAMES[format],
+  });
+}
+
+/**
+ * Let the user pick a file to import or restore
+ * @returns The file's text, or null when the picker was cancelled
+ */
+export async function pickImportFile(): Promise<string | null> {
+  const result = await DocumentPicker.getDocumentAsync({
+    type: IMPORT_MIME_TYPES,
+    copyToCacheDirectory: true,
+  });
+  if (result.canceled || result.assets.length === 0) return null;
+
+  return new File(result.assets[0].uri).text();
+}
@@ -0,0 +1,498 @@
+/**
+ * Import/Export Formats
+ * Readers and writers for Letterboxd CSV, IMDb list CSV and Trakt JSON
+ *
+ * Readers turn a file into ImportRecords (one per title, rows for the same
+ * title merged). Writers turn the app's watchlist, ratings and diary into a
+ * file the other tracker can import.
+ */
+
+import { parseCsvRecords, toCsv } from '@/utils/csv';
+import { normalizeRating } from '@/utils/user-ratings';
+import { isValidDiaryDate, toDiaryDate } from '@/utils/diary';
+import type { ExternalFormat, ImportRecord, ImportWatch, TransferFormat } from '@/types/transfer';
+import type { WatchlistItem } from '@/types/watchlist';
+import type { UserRating } from '@/types/ratings';
+import type { DiaryEntry } from '@/types/diary';
+import type { MediaRef } from '@/types/media';
+
+/** Personal data written by the exporters */
+export interface ExportData {
+  watchlist: WatchlistItem[];
+  ratings: UserRating[];
+  diary: DiaryEntry[];
+}
+
+/** Display names for the formats */
+export const TRANSFER_FORMAT_LABELS: Record<TransferFormat, string> = {
+  letterboxd: 'Letterboxd CSV',
+  imdb: 'IMDb List CSV',
+  trakt: 'Trakt JSON',
+  backup: 'App Backup',
+};
+
+// ============================================================================
+// SHARED HELPERS
+// ============================================================================
+
+/** Parse a year field */
+const parseYear = (value: unknown): number | null => {
+  const year = Number(String(value ?? '').trim().slice(0, 4));
+  return Number.isInteger(year) && year > 1800 ? year : null;
+};
+
+/** Parse a positive numeric ID field */
+const parseId = (value: unknown): number | null => {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+};
+
+/** Parse an IMDb ID field */
+const parseImdbId = (value: unknown): string | null => {
+  const match = String(value ?? '').match(/tt\d+/);
+  return match ? match[0] : null;
+};
+
+/** Parse a date or timestamp into a diary day */
+const parseDay = (value: unknown): string | null => {
+  const text = String(value ?? '').trim();
+  if (!text) return null;
+  if (isValidDiaryDate(text)) return text;
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : toDiaryDate(date);
+};
+
+/** Diary day as a timestamp that stays on the same day in most time zones */
+const toTimestamp = (watchedOn: string) => `${watchedOn}T12:00:00.000Z`;
+
+/** TMDB ID of a stored reference, when it was saved from a TMDB-compatible provider */
+const getTmdbId = (ref: MediaRef): number | null =>
+  ref.idSpace === 'tmdb' ? ref.id : null;
+
+/** Start a record with nothing on it */
+const createRecord = (fields: Partial<ImportRecord> & Pick<ImportRecord, 'title'>): ImportRecord => ({
+  year: null,
+  mediaType: null,
+  imdbId: null,
+  tmdbId: null,
+  watchlist: false,
+  rating: null,
+  review: '',
+  watches: [],
+  ...fields,
+});
+
+/**
+ * Identity key used to merge rows for the same title
+ * @param record - Import record
+ * @returns Key built from the strongest ID available
+ */
+export function getImportRecordKey(record: ImportRecord): string {
+  if (record.imdbId) return `imdb:${record.imdbId}`;
+  if (record.tmdbId && record.mediaType) return `tmdb:${record.mediaType}:${record.tmdbId}`;
+  return `title:${record.mediaType ?? 'any'}:${record.title.trim().toLowerCase()}:${record.year ?? ''}`;
+}
+
+/**
+ * Merge rows describing the same title
+ * The watchlist flag is kept if any row set it, the last rating wins,
+ * reviews are joined and duplicate watches (same day and episode) dropped.
+ * @param records - Records in file order
+ * @returns One record per title, in order of first appearance
+ */
+export function mergeImportRecords(records: ImportRecord[]): ImportRecord[] {
+  const merged = new Map<string, ImportRecord>();
+
+  for (const record of records) {
+    const key = getImportRecordKey(record);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...record, watches: [...record.watches] });
+      continue;
+    }
+
+    const watchKeys = new Set(existing.watches.map(w => `${w.watchedOn}:${w.episode?.seasonNumber}:${w.episode?.episodeNumber}`));
+    merged.set(key, {
+      ...existing,
+      year: existing.year ?? record.year,
+      mediaType: existing.mediaType ?? record.mediaType,
+      tmdbId: existing.tmdbId ?? record.tmdbId,
+      watchlist: existing.watchlist || record.watchlist,
+      rating: record.rating ?? existing.rating,
+      review: [existing.review, record.review]
+        .filter((review, i, all) => review && all.indexOf(review) === i)
+        .join('\n\n'),
+      watches: [
+        ...existing.watches,
+        ...record.watches.filter(w => !watchKeys.has(`${w.watchedOn}:${w.episode?.seasonNumber}:${w.episode?.episodeNumber}`)),
+      ],
+    });
+  }
+
+  return [...merged.values()];
+}
+
+// ============================================================================
+// LETTERBOXD
+// ============================================================================
+
+/**
+ * Read a Letterboxd CSV
+ * Accepts Letterboxd's own exports (watchlist.csv, ratings.csv, diary.csv,
+ * reviews.csv) and its import format (Title, Year, imdbID, WatchedDate, ...).
+ * Rows with no rating, watch date or review are treated as watchlist entries,
+ * and reviews on rows with a watch date become the diary entry's note.
+ * @param text - CSV text
+ * @returns Import records (films only)
+ */
+export function parseLetterboxdCsv(text: string): ImportRecord[] {
+  const records = parseCsvRecords(text)
+    .map(row => {
+      const title = (row['Name'] || row['Title'] || '').trim();
+      if (!title) return null;
+
+      const rating10 = Number(row['Rating10']);
+      const rating5 = Number(row['Rating']);
+      const rating = row['Rating10']
+        ? normalizeRating(rating10)
+        : row['Rating'] ? normalizeRating(rating5 * 2) : null;
+      const watchedOn = parseDay(row['Watched Date'] || row['WatchedDate']);
+      const review = (row['Review'] || '').trim();
+      // Reviews on diary rows belong to that viewing
+      const watches: ImportWatch[] = watchedOn
+        ? [{ watchedOn, isRewatch: /^(yes|true)$/i.test(row['Rewatch'] || ''), episode: null, note: review }]
+        : [];
+
+      return createRecord({
+        title,
+        year: parseYear(row['Year']),
+        mediaType: 'movie',
+        imdbId: parseImdbId(row['imdbID']),
+        tmdbId: parseId(row['tmdbID']),
+        watchlist: rating === null && !watchedOn && !review,
+        rating,
+        review: watchedOn ? '' : review,
+        watches,
+      });
+    })
+    .filter((record): record is ImportRecord => record !== null);
+
+  return mergeImportRecords(records);
+}
+
+/**
+ * Write a Letterboxd import CSV
+ * Films only: one row per diary entry, then a row per rating that has a note
+ * or no diary entry, then watchlisted films with neither.
+ * @param data - Watchlist, ratings and diary
+ * @returns CSV text
+ */
+export function exportLetterboxdCsv(data: ExportData): string {
+  const movieKey = (ref: MediaRef) => `${ref.mediaType}:${ref.id}`;
+  const ratings = new Map(data.ratings.filter(r => r.mediaType === 'movie').map(r => [movieKey(r), r]));
+  const diary = data.diary.filter(e => e.mediaType === 'movie');
+  const logged = new Set(diary.map(movieKey));
+
+  const row = (ref: MediaRef & { title: string }, watchedOn: string, rating: number | null, rewatch: string, review: string) => [
+    ref.title,
+    '',
+    ref.imdbId ?? '',
+    getTmdbId(ref),
+    watchedOn,
+    rating,
+    rewatch,
+    review,
+  ];
+
+  const rows = [
+    ...diary.map(entry => row(
+      entry,
+      entry.watchedOn,
+      ratings.get(movieKey(entry))?.rating ?? null,
+      entry.isRewatch ? 'Yes' : 'No',
+      entry.note
+    )),
+    ...[...ratings.values()]
+      .filter(rating => rating.note || !logged.has(movieKey(rating)))
+      .map(rating => row(rating, '', rating.rating, '', rating.note)),
+    ...data.watchlist
+      .filter(item => item.mediaType === 'movie' && !logged.has(movieKey(item)) && !ratings.has(movieKey(item)))
+      .map(item => row(item, '', null, '', '')),
+  ];
+
+  return toCsv(['Title', 'Year', 'imdbID', 'tmdbID', 'WatchedDate', 'Rating10', 'Rewatch', 'Review'], rows);
+}
+
+// ============================================================================
+// IMDB
+// ============================================================================
+
+/** IMDb title types, mapped to our media types (episodes are skipped) */
+const IMDB_TITLE_TYPES: Record<string, 'movie' | 'tv'> = {
+  movie: 'movie',
+  tvMovie: 'movie',
+  short: 'movie',
+  video: 'movie',
+  tvSpecial: 'movie',
+  tvSeries: 'tv',
+  tvMiniSeries: 'tv',
+  'Movie': 'movie',
+  'TV Movie': 'movie',
+  'Short': 'movie',
+  'Video': 'movie',
+  'TV Special': 'movie',
+  'TV Series': 'tv',
+  'TV Mini Series': 'tv',
+};
+
+/**
+ * Read an IMDb list or ratings CSV
+ * Lists (with a Position column) go to the watchlist; ratings exports only rate.
+ * Episode rows are skipped because they can't be tied to a series.
+ * @param text - CSV text
+ * @returns Import records
+ */
+export function parseImdbCsv(text: string): ImportRecord[] {
+  const rows = parseCsvRecords(text);
+  const isList = rows.length > 0 && 'Position' in rows[0];
+
+  const records = rows
+    .map(row => {
+      const imdbId = parseImdbId(row['Const']);
+      const title = (row['Title'] || '').trim();
+      const titleType = (row['Title Type'] || '').trim();
+      const mediaType = titleType ? IMDB_TITLE_TYPES[titleType] : null;
+      if (!imdbId || !title || mediaType === undefined) return null;
+
+      return createRecord({
+        title,
+        year: parseYear(row['Year']),
+        mediaType,
+        imdbId,
+        watchlist: isList,
+        rating: row['Your Rating'] ? normalizeRating(Number(row['Your Rating'])) : null,
+        review: (row['Description'] || '').trim(),
+      });
+    })
+    .filter((record): record is ImportRecord => record !== null);
+
+  return mergeImportRecords(records);
+}
+
+/**
+ * Write an IMDb list CSV of the watchlist
+ * Titles without a known IMDb ID are left out, since IMDb can't match them.
+ * @param data - Watchlist and ratings
+ * @returns CSV text
+ */
+export function exportImdbCsv(data: ExportData): string {
+  const ratings = new Map(data.ratings.map(r => [`${r.mediaType}:${r.id}`, r]));
+
+  const rows = data.watchlist
+    .filter(item => item.imdbId)
+    .map((item, index) => {
+      const rating = ratings.get(`${item.mediaType}:${item.id}`);
+      return [
+        index + 1,
+        item.imdbId,
+        item.addedAt.slice(0, 10),
+        item.addedAt.slice(0, 10),
+        rating?.note ?? '',
+        item.title,
+        `https://www.imdb.com/title/${item.imdbId}/`,
+        item.mediaType === 'movie' ? 'Movie' : 'TV Series',
+        '',
+        // IMDb ratings start at 1
+        rating?.rating != null ? Math.max(rating.rating, 1) : '',
+        rating?.rating != null ? rating.updatedAt.slice(0, 10) : '',
+      ];
+    });
+
+  return toCsv(
+    ['Position', 'Const', 'Created', 'Modified', 'Description', 'Title', 'URL', 'Title Type', 'Year', 'Your Rating', 'Date Rated'],
+    rows
+  );
+}
+
+// ============================================================================
+// TRAKT
+// ============================================================================
+
+/** Title object in Trakt exports */
+interface TraktTitle {
+  title?: string;
+  year?: number | null;
+  ids?: { imdb?: string | null; tmdb?: number | null };
+}
+
+/** Watchlist, rating or history item in Trakt exports */
+interface TraktItem {
+  type?: string;
+  listed_at?: string;
+  rated_at?: string;
+  rating?: number;
+  watched_at?: string;
+  last_watched_at?: string;
+  movie?: TraktTitle;
+  show?: TraktTitle;
+  episode?: { season?: number; number?: number };
+}
+
+/**
+ * Read a Trakt JSON export
+ * Accepts a single array (watchlist.json, ratings-movies.json, history.json, ...)
+ * or an object of such arrays. Season and episode ratings are skipped.
+ * @param text - JSON text
+ * @returns Import records
+ */
+export function parseTraktJson(text: string): ImportRecord[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const items: TraktItem[] = Array.isArray(parsed)
+    ? parsed
+    : parsed && typeof parsed === 'object'
+      ? Object.values(parsed).filter(Array.isArray).flat()
+      : [];
+
+  const records = items
+    .map(item => {
+      if (!item || typeof item !== 'object') return null;
+      const source = item.movie ?? item.show;
+      const title = source?.title?.trim();
+      if (!source || !title) return null;
+      if (item.rating !== undefined && (item.type === 'season' || item.type === 'episode')) return null;
+
+      const mediaType = item.movie ? 'movie' : 'tv';
+      const watchedOn = parseDay(item.watched_at ?? item.last_watched_at);
+      const episode = item.episode && parseId(item.episode.number) !== null
+        ? { seasonNumber: Number(item.episode.season ?? 0), episodeNumber: Number(item.episode.number) }
+        : null;
+
+      return createRecord({
+        title,
+        year: parseYear(source.year),
+        mediaType,
+        imdbId: parseImdbId(source.ids?.imdb),
+        tmdbId: parseId(source.ids?.tmdb),
+        watchlist: item.listed_at !== undefined,
+        rating: item.rating !== undefined ? normalizeRating(item.rating) : null,
+        watches: watchedOn ? [{ watchedOn, isRewatch: false, episode, note: '' }] : [],
+      });
+    })
+    .filter((record): record is ImportRecord => record !== null);
+
+  // Later plays of the same title (or episode) are rewatches
+  return mergeImportRecords(records).map(record => {
+    const seen = new Set<string>();
+    const watches = [...record.watches]
+      .sort((a, b) => a.watchedOn.localeCompare(b.watchedOn))
+      .map(watch => {
+        const key = `${watch.episode?.seasonNumber}:${watch.episode?.episodeNumber}`;
+        const isRewatch = seen.has(key);
+        seen.add(key);
+        return { ...watch, isRewatch };
+      });
+    return { ...record, watches };
+  });
+}
+
+/**
+ * Write a Trakt-style JSON export of the watchlist, ratings and history
+ * @param data - Watchlist, ratings and diary
+ * @returns JSON text
+ */
+export function exportTraktJson(data: ExportData): string {
+  const toTitle = (ref: MediaRef & { title: string }): TraktTitle => ({
+    title: ref.title,
+    year: null,
+    ids: { imdb: ref.imdbId ?? null, tmdb: getTmdbId(ref) },
+  });
+  const titleField = (ref: MediaRef & { title: string }) =>
+    ref.mediaType === 'movie' ? { movie: toTitle(ref) } : { show: toTitle(ref) };
+
+  return JSON.stringify({
+    watchlist: data.watchlist.map(item => ({
+      listed_at: item.addedAt,
+      type: item.mediaType === 'movie' ? 'movie' : 'show',
+      ...titleField(item),
+    })),
+    ratings: data.ratings
+      .filter(rating => rating.rating !== null)
+      .map(rating => ({
+        rated_at: rating.updatedAt,
+        // Trakt ratings start at 1
+        rating: Math.max(rating.rating ?? 1, 1),
+        type: rating.mediaType === 'movie' ? 'movie' : 'show',
+        ...titleField(rating),
+      })),
+    history: data.diary.map(entry => ({
+      watched_at: toTimestamp(entry.watchedOn),
+      action: 'watch',
+      type: entry.mediaType === 'movie' ? 'movie' : entry.episode ? 'episode' : 'show',
+      ...titleField(entry),
+      ...(entry.episode
+        ? { episode: { season: entry.episode.seasonNumber, number: entry.episode.episodeNumber } }
+        : {}),
+    })),
+  }, null, 2);
+}
+
+// ============================================================================
+// DETECTION
+// ============================================================================
+
+/**
+ * Guess the format of pasted file contents
+ * @param text - File contents
+ * @returns Detected format, or null when unrecognized
+ */
+export function detectImportFormat(text: string): TransferFormat | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return /"app"\s*:\s*"moviestream"/.test(trimmed.slice(0, 200)) ? 'backup' : 'trakt';
+  }
+
+  const header = trimmed.split(/\r?\n/, 1)[0] ?? '';
+  if (/\bConst\b/.test(header)) return 'imdb';
+  if (/Letterboxd URI|\bName\b|\bimdbID\b|\bWatchedDate\b/.test(header)) return 'letterboxd';
+  return null;
+}
+
+/**
+ * Read another tracker's file
+ * @param text - File contents
+ * @param format - File format
+ * @returns Import records, one per title
+ */
+export function parseImport(text: string, format: ExternalFormat): ImportRecord[] {
+  switch (format) {
+    case 'letterboxd':
+      return parseLetterboxdCsv(text);
+    case 'imdb':
+      return parseImdbCsv(text);
+    case 'trakt':
+      return parseTraktJson(text);
+  }
+}
+
+/**
+ * Write data in another tracker's format
+ * @param data - Watchlist, ratings and diary
+ * @param format - File format
+ * @returns File contents
+ */
+export function exportToFormat(data: ExportData, format: ExternalFormat): string {
+  switch (format) {
+    case 'letterboxd':
+      return exportLetterboxdCsv(data);
+    case 'imdb':
+      return exportImdbCsv(data);
+    case 'trakt':
+      return exportTraktJson(data);
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Import/Export Module
+ * Moves watchlists, ratings and watch history to and from other trackers,
+ * and backs up the app's own data
+ */
+
+export {
+  TRANSFER_FORMAT_LABELS,
+  detectImportFormat,
+  exportImdbCsv,
+  exportLetterboxdCsv,
+  exportToFormat,
+  exportTraktJson,
+  getImportRecordKey,
+  mergeImportRecords,
+  parseImdbCsv,
+  parseImport,
+  parseLetterboxdCsv,
+  parseTraktJson,
+  type ExportData,
+} from './formats';
+
+export { matchImportRecord, pickMatch } from './matching';
+
+export {
+  BACKUP_VERSION,
+  computeBackupChecksum,
+  createAppBackup,
+  mergeAppBackup,
+  parseAppBackup,
+  restoreAppBackup,
+} from './backup';
+
+export { EXPORT_FILE_NAMES, createExport, getExportData } from './export';
@@ -0,0 +1,113 @@
+/**
+ * Import Matching
+ * Resolves imported titles to the active provider's catalog
+ *
+ * - IMDb and TMDB IDs from the file are tried first
+ * - Otherwise the title is searched with searchMulti and narrowed by
+ *   media type and year
+ * - Records with several plausible hits are left for the user to review
+ */
+
+import { findByImdbId, getConfiguredIdSpace, getMovieDetails, getTvDetails, searchMulti } from '@/services/api';
+import { getImportRecordKey } from './formats';
+import type { MediaItem } from '@/types/media';
+import type { ImportMatch, ImportRecord } from '@/types/transfer';
+
+/** Normalize a title for comparison (titles that are all punctuation are kept as typed) */
+const normalizeTitle = (title: string) =>
+  title.toLowerCase().replace(/&/g, 'and').replace(/[^\p{L}\p{N}]+/gu, ' ').trim() ||
+  title.trim().toLowerCase();
+
+/** Release year of a search result */
+const getYear = (item: MediaItem) => Number(item.releaseDate?.slice(0, 4)) || null;
+
+/**
+ * Pick the best search result for an import record
+ * @param record - Import record
+ * @param candidates - Search results
+ * @param knownId - Active provider ID found from the record's IMDb/TMDB ID
+ * @returns Match with its status and preselected candidate
+ */
+export function pickMatch(
+  record: ImportRecord,
+  candidates: MediaItem[],
+  knownId: number | null = null
+): ImportMatch {
+  const key = getImportRecordKey(record);
+  const typed = record.mediaType
+    ? candidates.filter(c => c.mediaType === record.mediaType)
+    : candidates;
+
+  const known = knownId !== null ? typed.find(c => c.id === knownId) : undefined;
+  if (known) {
+    return { key, record, status: 'matched', candidates: typed, selected: known };
+  }
+
+  const title = normalizeTitle(record.title);
+  const sameTitle = typed.filter(c =>
+    normalizeTitle(c.title) === title || (c.originalTitle && normalizeTitle(c.originalTitle) === title)
+  );
+  const sameYear = record.year !== null
+    ? sameTitle.filter(c => getYear(c) === record.year)
+    : sameTitle;
+
+  if (sameYear.length === 1) {
+    return { key, record, status: 'matched', candidates: typed, selected: sameYear[0] };
+  }
+  if (typed.length === 0) {
+    return { key, record, status: 'unmatched', candidates: [], selected: null };
+  }
+
+  // Several (or no) exact hits: preselect the likeliest and ask
+  const likeliest = sameYear[0] ?? sameTitle[0] ?? typed[0];
+  return { key, record, status: 'ambiguous', candidates: typed, selected: likeliest };
+}
+
+/**
+ * Find the active provider's ID from the IDs in an import record
+ * @param record - Import record
+ * @returns Provider ID, or null when the record has no usable ID
+ */
+async function findKnownId(record: ImportRecord): Promise<number | null> {
+  if (!record.mediaType) return null;
+  if (record.tmdbId && getConfiguredIdSpace() === 'tmdb') return record.tmdbId;
+  if (!record.imdbId) return null;
+
+  try {
+    return await findByImdbId(record.mediaType, record.imdbId);
+  } catch (error) {
+    console.warn(`[Import] IMDb lookup failed for ${record.imdbId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Match an import record against the active provider
+ * @param record - Import record
+ * @returns Match with candidates for the review step
+ */
+export async function matchImportRecord(record: ImportRecord): Promise<ImportMatch> {
+  const knownId = await findKnownId(record);
+
+  let candidates: MediaItem[] = [];
+  try {
+    const results = await searchMulti(record.title, 1);
+    candidates = [...results.movies, ...results.tvShows];
+  } catch (error) {
+    console.warn(`[Import] Search failed for "${record.title}":`, error);
+  }
+
+  // The ID lookup is authoritative even when the search missed the title
+  if (knownId !== null && record.mediaType && !candidates.some(c => c.id === knownId && c.mediaType === record.mediaType)) {
+    try {
+      const details = record.mediaType === 'movie'
+        ? await getMovieDetails(knownId)
+        : await getTvDetails(knownId);
+      candidates = [details, ...candidates];
+    } catch (error) {
+      console.warn(`[Import] Could not load ${record.mediaType} ${knownId}:`, error);
+    }
+  }
+
+  return pickMatch(record, candidates, knownId);
+}
@@ -0,0 +1,174 @@
+/**
+ * Up Next Service for MovieStream MVP
+ * Works out the next episode to watch for each followed series
+ *
+ * - Next unwatched episode that has already aired ("Up Next")
+ * - Next episode airing within the coming week ("Coming This Week")
+ */
+
+import { getTvDetails, getSeasonDetails } from '@/services/api';
+import { getNextEpisode } from '@/utils/watch-progress';
+import { getItemStatus } from '@/utils/watchlist-status';
+import { t } from '@/services/localization';
+import { formatWeekday } from '@/utils/formatting';
+import type { EpisodeSummary, MediaItem } from '@/types/media';
+import type { EpisodeRef, SeriesProgress, UpNextEntry, UpNextFeed } from '@/types/progress';
+import type { WatchlistItem, WatchlistStatus } from '@/types/watchlist';
+
+/** Days ahead an episode counts as "coming this week" */
+export const UPCOMING_WINDOW_DAYS = 7;
+
+/** Maximum series checked per refresh (each needs a details and a season request) */
+export const MAX_UP_NEXT_SERIES = 20;
+
+/** Statuses of series the viewer is no longer following */
+const FINISHED_STATUSES: WatchlistStatus[] = ['completed', 'dropped'];
+
+/** Local calendar date as YYYY-MM-DD, comparable with episode air dates */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Classify an episode by air date
+ * @returns 'aired' on or before today, 'upcoming' within the window, null otherwise
+ */
+export function classifyAirDate(
+  airDate: string,
+  now: Date,
+  windowDays: number = UPCOMING_WINDOW_DAYS
+): UpNextEntry['status'] | null {
+  if (!airDate) return null;
+
+  const today = toDateKey(now);
+  if (airDate <= today) return 'aired';
+
+  const windowEnd = new Date(now);
+  windowEnd.setDate(windowEnd.getDate() + windowDays);
+  return airDate <= toDateKey(windowEnd) ? 'upcoming' : null;
+}
+
+/** Day label for an upcoming episode: "Today", "Tomorrow" or a weekday like "Fri" */
+export function formatUpcomingAirDay(airDate: string, now: Date = new Date()): string {
+  const [year, month, day] = airDate.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  if (isNaN(date.getTime())) return airDate;
+
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+
+  if (airDate === toDateKey(now)) return t('common.today');
+  if (airDate === toDateKey(tomorrow)) return t('common.tomorrow');
+  return formatWeekday(date);
+}
+
+/**
+ * Order series for the Up Next row
+ * Series watched most recently come first, followed by series not started yet.
+ * Completed and dropped series are left out.
+ */
+export function orderUpNextSeries(
+  series: WatchlistItem[],
+  progress: SeriesProgress[]
+): WatchlistItem[] {
+  const updatedAt = new Map(progress.map(p => [p.id, p.updatedAt]));
+
+  return series
+    .filter(item => item.mediaType === 'tv' && !FINISHED_STATUSES.includes(getItemStatus(item)))
+    .map((item, index) => ({ item, index, updatedAt: updatedAt.get(item.id) ?? '' }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt) || a.index - b.index)
+    .map(({ item }) => item)
+    .slice(0, MAX_UP_NEXT_SERIES);
+}
+
+/** Split entries into the two home screen sections */
+export function buildUpNextFeed(entries: UpNextEntry[]): UpNextFeed {
+  return {
+    upNext: entries.filter(e => e.status === 'aired'),
+    comingThisWeek: entries
+      .filter(e => e.status === 'upcoming')
+      .sort((a, b) => a.episode.airDate.localeCompare(b.episode.airDate)),
+  };
+}
+
+/** Convert an entry to a MediaItem for ContentRow */
+export function upNextEntryToMediaItem(entry: UpNextEntry): MediaItem {
+  return {
+    id: entry.seriesId,
+    title: entry.seriesTitle,
+    originalTitle: entry.seriesTitle,
+    posterPath: entry.posterPath,
+    backdropPath: entry.episode.stillPath,
+    overview: entry.episode.overview,
+    releaseDate: entry.episode.airDate,
+    voteAverage: entry.episode.voteAverage || null,
+    voteCount: entry.episode.voteCount,
+    mediaType: 'tv',
+    genreIds: [],
+  };
+}
+
+/** Find an episode in a season, or null when the season is missing or too short */
+async function findEpisode(seriesId: number, episode: EpisodeRef): Promise<EpisodeSummary | null> {
+  const season = await getSeasonDetails(seriesId, episode.seasonNumber);
+  return season.episodes.find(e => e.episodeNumber === episode.episodeNumber) ?? null;
+}
+
+/**
+ * Next episode for a single series
+ * Falls through to the next season when the current one has no further episodes
+ */
+export async function getUpNextEntry(
+  series: WatchlistItem,
+  progress: SeriesProgress | undefined,
+  now: Date = new Date()
+): Promise<UpNextEntry | null> {
+  const details = await getTvDetails(series.id);
+  const totalSeasons = details.numberOfSeasons ?? progress?.totalSeasons ?? null;
+
+  const next = getNextEpisode(progress && { ...progress, totalSeasons });
+  if (!next) return null;
+
+  let episode = await findEpisode(series.id, next).catch(() => null);
+  if (!episode && next.episodeNumber > 1 && (totalSeasons === null || next.seasonNumber < totalSeasons)) {
+    episode = await findEpisode(series.id, { seasonNumber: next.seasonNumber + 1, episodeNumber: 1 })
+      .catch(() => null);
+  }
+  if (!episode) return null;
+
+  const status = classifyAirDate(episode.airDate, now);
+  if (!status) return null;
+
+  return {
+    seriesId: series.id,
+    seriesTitle: details.title || series.title,
+    posterPath: details.posterPath ?? series.posterPath,
+    episode,
+    status,
+  };
+}
+
+/**
+ * Build the Up Next feed for watchlisted series
+ * Series that fail to load are skipped rather than failing the whole row
+ */
+export async function getUpNextFeed(
+  watchlist: WatchlistItem[],
+  progress: SeriesProgress[],
+  now: Date = new Date()
+): Promise<UpNextFeed> {
+  const series = orderUpNextSeries(watchlist, progress);
+
+  const entries = await Promise.all(
+    series.map(item =>
+      getUpNextEntry(item, progress.find(p => p.id === item.id), now).catch(error => {
+        console.warn(`[UpNext] Failed to load next episode for series ${item.id}:`, error);
+        return null;
+      })
+    )
+  );
+
+  return buildUpNextFeed(entries.filter((e): e is UpNextEntry => e !== null));
+}
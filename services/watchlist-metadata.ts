@@ -0,0 +1,162 @@
+/**
+ * Watchlist Metadata Service
+ * Fetches the runtime, release date, genres, vote average and streaming
+ * availability the smart watchlist filters and sorts use
+ *
+ * - Metadata is cached per title and fetched again once it is a day old,
+ *   since availability changes often
+ * - Each refresh fetches a limited batch, missing titles first, so large
+ *   watchlists fill in over a few refreshes instead of exhausting API quotas
+ */
+
+import { getMovieDetails, getTvDetails, getWatchProviders } from '@/services/api';
+import { getWatchlistKey } from '@/services/sync';
+import { WATCHLIST_METADATA_CONFIG } from '@/constants/api';
+import { getSubscriptionProviders } from '@/utils/streaming-services';
+import type { MediaRef } from '@/types/media';
+import type { WatchlistItemMetadata, WatchlistMetadataCache } from '@/types/watchlist';
+
+/** Options for a metadata refresh */
+export interface MetadataRefreshOptions {
+  /** Fetch every title, however fresh its metadata */
+  force?: boolean;
+  now?: Date;
+  /** Region used for streaming availability */
+  countryCode?: string;
+  /** Most titles fetched in this refresh */
+  batchSize?: number;
+  /** Drop metadata for titles that aren't listed (default true) */
+  prune?: boolean;
+}
+
+/** Result of a metadata refresh */
+export interface MetadataRefreshResult {
+  metadata: WatchlistMetadataCache;
+  changed: boolean;
+  /** Titles whose details could not be fetched (their old metadata is kept) */
+  failed: number;
+}
+
+/**
+ * Fetch metadata for a title
+ * Availability failures are treated as "not streaming" rather than failing
+ * the whole title, since details matter more to the filters.
+ * @param ref - Title to fetch
+ * @param countryCode - Region used for streaming availability
+ * @param now - Fetch time
+ */
+export async function fetchWatchlistItemMetadata(
+  ref: MediaRef,
+  countryCode: string = WATCHLIST_METADATA_CONFIG.COUNTRY_CODE,
+  now: Date = new Date()
+): Promise<WatchlistItemMetadata> {
+  const [details, providers] = await Promise.all([
+    ref.mediaType === 'movie' ? getMovieDetails(ref.id) : getTvDetails(ref.id),
+    getWatchProviders(ref.mediaType, ref.id, countryCode).catch(() => []),
+  ]);
+
+  return {
+    runtime: details.runtime || null,
+    releaseDate: details.releaseDate || null,
+    genres: details.genres ?? [],
+    voteAverage: details.voteCount > 0 ? details.voteAverage : null,
+    streamingProviders: getSubscriptionProviders(providers)
+      .map(({ providerId, providerName }) => ({ providerId, providerName })),
+    countryCode,
+    fetchedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Check whether a title's metadata needs fetching
+ * @param metadata - Cached metadata, if any
+ * @param now - Current time
+ * @param countryCode - Region the metadata should be for
+ */
+export function isMetadataStale(
+  metadata: WatchlistItemMetadata | undefined,
+  now: Date = new Date(),
+  countryCode: string = WATCHLIST_METADATA_CONFIG.COUNTRY_CODE
+): boolean {
+  if (!metadata || metadata.countryCode !== countryCode) return true;
+  const age = now.getTime() - new Date(metadata.fetchedAt).getTime();
+  return !(age < WATCHLIST_METADATA_CONFIG.MAX_AGE_MS);
+}
+
+/**
+ * Pick the titles the next refresh should fetch
+ * Titles without metadata come first, then the longest since fetched.
+ * @param items - Watchlist titles
+ * @param metadata - Cached metadata
+ * @param options - Refresh options
+ * @returns Titles to fetch, at most `batchSize`
+ */
+export function getTitlesToRefresh<T extends MediaRef>(
+  items: T[],
+  metadata: WatchlistMetadataCache,
+  {
+    force = false,
+    now = new Date(),
+    countryCode = WATCHLIST_METADATA_CONFIG.COUNTRY_CODE,
+    batchSize = WATCHLIST_METADATA_CONFIG.BATCH_SIZE,
+  }: MetadataRefreshOptions = {}
+): T[] {
+  const fetchedAt = (item: T) => metadata[getWatchlistKey(item.id, item.mediaType)]?.fetchedAt ?? '';
+
+  return items
+    .filter(item => force || isMetadataStale(metadata[getWatchlistKey(item.id, item.mediaType)], now, countryCode))
+    .sort((a, b) => fetchedAt(a).localeCompare(fetchedAt(b)))
+    .slice(0, batchSize);
+}
+
+/**
+ * Drop metadata for titles no longer on the watchlist
+ * @param items - Watchlist titles
+ * @param metadata - Cached metadata
+ * @returns Metadata for the listed titles only
+ */
+export function pruneWatchlistMetadata(
+  items: MediaRef[],
+  metadata: WatchlistMetadataCache
+): WatchlistMetadataCache {
+  const pruned: WatchlistMetadataCache = {};
+  for (const item of items) {
+    const key = getWatchlistKey(item.id, item.mediaType);
+    if (metadata[key]) pruned[key] = metadata[key];
+  }
+  return pruned;
+}
+
+/**
+ * Fetch missing and stale metadata for watchlist titles
+ * Titles are fetched one at a time to stay inside provider rate limits.
+ * @param items - Watchlist titles
+ * @param metadata - Cached metadata
+ * @param options - Refresh options
+ * @returns Updated metadata, pruned to the listed titles unless told otherwise
+ */
+export async function refreshWatchlistMetadata(
+  items: MediaRef[],
+  metadata: WatchlistMetadataCache,
+  options: MetadataRefreshOptions = {}
+): Promise<MetadataRefreshResult> {
+  const pruned = options.prune === false ? { ...metadata } : pruneWatchlistMetadata(items, metadata);
+  let changed = Object.keys(pruned).length !== Object.keys(metadata).length;
+  let failed = 0;
+
+  for (const item of getTitlesToRefresh(items, pruned, options)) {
+    try {
+      pruned[getWatchlistKey(item.id, item.mediaType)] = await fetchWatchlistItemMetadata(
+        item,
+        options.countryCode,
+        options.now
+      );
+      changed = true;
+    } catch (error) {
+      failed++;
+      console.warn(`[WatchlistMetadata] Failed to fetch ${item.mediaType} ${item.id}:`, error);
+    }
+  }
+
+  return { metadata: pruned, changed, failed };
+}
@@ -0,0 +1,84 @@
+/**
+ * Certification Zustand Store for MovieStream MVP
+ * Remembers the certifications looked up for browsed titles, so the
+ * certification ceiling can hide or blur them in lists
+ *
+ * - Persisted to AsyncStorage, dropping lookups once they are stale
+ * - Titles already being looked up aren't requested again
+ * - Nothing is looked up while the provider has a daily quota
+ */
+
+import { create } from 'zustand';
+import type { CertificationCache } from '@/types/media';
+import { getCertificationCache, saveCertificationCache } from '@/services/storage';
+import {
+  canLookUpCertifications,
+  getTitlesToLookUp,
+  lookUpCertifications,
+  pruneCertifications,
+  type ListedTitle,
+} from '@/services/certification-lookup';
+import { getWatchlistKey } from '@/services/sync';
+
+interface CertificationStore {
+  // State
+  /** Certification per watchlist key (`movie:123`) */
+  certifications: CertificationCache;
+  isLoaded: boolean;
+  /** Titles being looked up */
+  pending: string[];
+
+  // Actions
+  loadCertifications: () => Promise<void>;
+  lookUp: (titles: ListedTitle[]) => Promise<void>;
+}
+
+export const useCertificationStore = create<CertificationStore>((set, get) => ({
+  // Initial state
+  certifications: {},
+  isLoaded: false,
+  pending: [],
+
+  // Load stored certifications, keeping any looked up meanwhile
+  loadCertifications: async () => {
+    try {
+      const stored = await getCertificationCache();
+      set((state) => ({ certifications: { ...stored, ...state.certifications }, isLoaded: true }));
+    } catch (error) {
+      console.warn('[Certifications] Failed to load stored certifications:', error);
+      set({ isLoaded: true });
+    }
+  },
+
+  // Look up titles with no certification of their own
+  lookUp: async (titles) => {
+    if (!get().isLoaded) {
+      await get().loadCertifications();
+    }
+    if (!canLookUpCertifications()) return;
+
+    const { certifications, pending } = get();
+    const toLookUp = getTitlesToLookUp(titles, certifications)
+      .filter(title => !pending.includes(getWatchlistKey(title.id, title.mediaType)));
+    if (toLookUp.length === 0) return;
+
+    const keys = toLookUp.map(title => getWatchlistKey(title.id, title.mediaType));
+    set((state) => ({ pending: [...state.pending, ...keys] }));
+
+    try {
+      const result = await lookUpCertifications(toLookUp);
+      if (result.failed > 0) {
+        console.warn(`[Certifications] Failed to look up ${result.failed} of ${toLookUp.length} titles`);
+      }
+      if (Object.keys(result.certifications).length === 0) return;
+
+      const merged = pruneCertifications({ ...get().certifications, ...result.certifications });
+      set({ certifications: merged });
+      await saveCertificationCache(merged);
+    } catch (error) {
+      console.warn('[Certifications] Failed to look up certifications:', error);
+    } finally {
+      set((state) => ({ pending: state.pending.filter(key => !keys.includes(key)) }));
+    }
+  },
+}));
@@ -0,0 +1,273 @@
+/**
+ * Diary Zustand Store for MovieStream MVP
+ * Unbounded watch diary, separate from recently viewed pages
+ *
+ * - Dated entries for movies, series and single episodes
+ * - Rewatches logged as separate entries
+ * - Month-by-month loading so long diaries aren't read all at once
+ * - Logging a movie (or a whole series) marks it completed in the watchlist
+ * - Persistence to AsyncStorage, one key per month
+ */
+
+import { create } from 'zustand';
+import type { DiaryEntry, DiaryEntryInput, DiaryMonth, DiaryTitle } from '@/types/diary';
+import { getDiaryMonth, getDiaryMonths, updateDiaryMonth } from '@/services/storage';
+import { resolveMediaRef, tagMediaRef } from '@/services/api/id-mapping';
+import { useWatchlistStore } from './watchlistStore';
+import {
+  createDiaryEntry,
+  sortDiaryEntries,
+  toDiaryMonth,
+  updateDiaryEntry,
+} from '@/utils/diary';
+
+/** Months of entries loaded per page */
+export const DIARY_PAGE_MONTHS = 3;
+
+/** Change to a single month's entries */
+interface MonthChange {
+  month: DiaryMonth;
+  update: (entries: DiaryEntry[]) => DiaryEntry[];
+}
+
+interface DiaryStore {
+  // State
+  /** Entries for the loaded months, most recent first */
+  entries: DiaryEntry[];
+  /** Every month with entries, newest first */
+  months: DiaryMonth[];
+  /** Oldest month loaded so far (null before anything is loaded) */
+  oldestLoadedMonth: DiaryMonth | null;
+  hasMore: boolean;
+  isLoading: boolean;
+  isLoadingMore: boolean;
+  error: string | null;
+
+  // Actions
+  loadDiary: () => Promise<void>;
+  loadMoreDiary: () => Promise<void>;
+  logWatch: (title: DiaryTitle, input: DiaryEntryInput) => Promise<DiaryEntry | null>;
+  updateEntry: (entryId: string, changes: Partial<DiaryEntryInput>) => Promise<boolean>;
+  deleteEntry: (entryId: string) => Promise<void>;
+  getEntry: (entryId: string) => DiaryEntry | undefined;
+  getEntriesForTitle: (id: number, mediaType: 'movie' | 'tv') => DiaryEntry[];
+  isMonthLoaded: (month: DiaryMonth) => boolean;
+  clearError: () => void;
+}
+
+/** Read a page of months from storage */
+const readMonths = async (months: DiaryMonth[]): Promise<DiaryEntry[]> => {
+  const pages = await Promise.all(months.map(month => getDiaryMonth(month)));
+  return pages.flat();
+};
+
+/**
+ * Translate entries saved under another provider's IDs, keyed by entry ID
+ * Rewatches and episodes share their title's ID, so entries are never merged
+ */
+const resolveEntries = async (entries: DiaryEntry[]): Promise<Map<string, DiaryEntry>> => {
+  const resolved = new Map<string, DiaryEntry>();
+  // One at a time to stay within provider rate limits
+  for (const entry of entries) {
+    const next = await resolveMediaRef(entry);
+    if (next !== entry) resolved.set(entry.entryId, next);
+  }
+  return resolved;
+};
+
+export const useDiaryStore = create<DiaryStore>((set, get) => {
+  /**
+   * Apply month changes optimistically and persist each month
+   * Months that aren't loaded yet are only changed in storage.
+   * Rolls back to the previous entries if saving fails.
+   */
+  const commit = async (changes: MonthChange[], failureMessage: string): Promise<boolean> => {
+    const { entries: previousEntries, months: previousMonths } = get();
+
+    let entries = previousEntries;
+    for (const { month, update } of changes) {
+      if (!get().isMonthLoaded(month)) continue;
+      const inMonth = entries.filter(e => toDiaryMonth(e.watchedOn) === month);
+      entries = [...entries.filter(e => toDiaryMonth(e.watchedOn) !== month), ...update(inMonth)];
+    }
+    set({ entries: sortDiaryEntries(entries) });
+
+    try {
+      let months = previousMonths;
+      for (const { month, update } of changes) {
+        // Storage is the source of truth for the month, loaded or not
+        const stored = await updateDiaryMonth(month, update);
+        months = months.filter(m => m !== month);
+        if (stored.length > 0) {
+          months = [...months, month].sort().reverse();
+        }
+      }
+      set({ months });
+      return true;
+    } catch (error) {
+      set({
+        entries: previousEntries,
+        months: previousMonths,
+        error: error instanceof Error ? error.message : failureMessage,
+      });
+      return false;
+    }
+  };
+
+  /**
+   * Translate newly loaded entries in the background and persist their months
+   * Entries are replaced by ID, so changes made meanwhile are kept
+   */
+  const resolveLoaded = async (loaded: DiaryEntry[]): Promise<void> => {
+    try {
+      const resolved = await resolveEntries(loaded);
+      if (resolved.size === 0) return;
+
+      const apply = (entries: DiaryEntry[]) => entries.map(e => resolved.get(e.entryId) ?? e);
+      const months = new Set([...resolved.values()].map(e => toDiaryMonth(e.watchedOn)));
+      await Promise.all([...months].map(month => updateDiaryMonth(month, apply)));
+      set(state => ({ entries: apply(state.entries) }));
+    } catch (error) {
+      console.warn('[Diary] Failed to re-resolve diary IDs:', error);
+    }
+  };
+
+  return {
+    // Initial state
+    entries: [],
+    months: [],
+    oldestLoadedMonth: null,
+    hasMore: false,
+    isLoading: false,
+    isLoadingMore: false,
+    error: null,
+
+    // Load the most recent page of the diary
+    loadDiary: async () => {
+      set({ isLoading: true, error: null });
+      let entries: DiaryEntry[];
+      try {
+        const months = await getDiaryMonths();
+        const page = months.slice(0, DIARY_PAGE_MONTHS);
+        entries = await readMonths(page);
+        set({
+          entries: sortDiaryEntries(entries),
+          months,
+          oldestLoadedMonth: page[page.length - 1] ?? null,
+          hasMore: months.length > page.length,
+          isLoading: false,
+        });
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: error instanceof Error ? error.message : 'Failed to load diary',
+        });
+        return;
+      }
+
+      // Entries saved under another provider's IDs are translated in the background
+      await resolveLoaded(entries);
+    },
+
+    // Load the next page of older months
+    loadMoreDiary: async () => {
+      const { hasMore, isLoadingMore, months, oldestLoadedMonth } = get();
+      if (!hasMore || isLoadingMore || !oldestLoadedMonth) return;
+
+      set({ isLoadingMore: true });
+      let entries: DiaryEntry[];
+      try {
+        const older = months.filter(m => m < oldestLoadedMonth);
+        const page = older.slice(0, DIARY_PAGE_MONTHS);
+        entries = await readMonths(page);
+        set(state => ({
+          entries: sortDiaryEntries([...state.entries, ...entries]),
+          oldestLoadedMonth: page[page.length - 1] ?? oldestLoadedMonth,
+          hasMore: older.length > page.length,
+          isLoadingMore: false,
+        }));
+      } catch (error) {
+        set({
+          isLoadingMore: false,
+          error: error instanceof Error ? error.message : 'Failed to load diary',
+        });
+        return;
+      }
+
+      await resolveLoaded(entries);
+    },
+
+    // Log a watch
+    logWatch: async (title, input) => {
+      const now = new Date().toISOString();
+      const entry = createDiaryEntry(tagMediaRef(title), input, now);
+      const saved = await commit(
+        [{ month: toDiaryMonth(entry.watchedOn), update: entries => [...entries, entry] }],
+        'Failed to log watch'
+      );
+      if (!saved) return null;
+
+      // Episode entries leave the series status to episode progress
+      if (!entry.episode) {
+        await useWatchlistStore.getState().recordWatchActivity(entry.id, entry.mediaType, true);
+      }
+      return entry;
+    },
+
+    // Edit an entry, moving it to another month if its day changes
+    updateEntry: async (entryId, changes) => {
+      const existing = get().getEntry(entryId);
+      if (!existing) return false;
+
+      const updated = updateDiaryEntry(existing, changes, new Date().toISOString());
+      const fromMonth = toDiaryMonth(existing.watchedOn);
+      const toMonth = toDiaryMonth(updated.watchedOn);
+      const withoutEntry = (entries: DiaryEntry[]) => entries.filter(e => e.entryId !== entryId);
+
+      return commit(
+        fromMonth === toMonth
+          ? [{ month: fromMonth, update: entries => entries.map(e => (e.entryId === entryId ? updated : e)) }]
+          : [
+              { month: fromMonth, update: withoutEntry },
+              { month: toMonth, update: entries => [...withoutEntry(entries), updated] },
+            ],
+        'Failed to update diary entry'
+      );
+    },
+
+    // Delete an entry
+    deleteEntry: async (entryId) => {
+      const existing = get().getEntry(entryId);
+      if (!existing) return;
+
+      await commit(
+        [{
+          month: toDiaryMonth(existing.watchedOn),
+          update: entries => entries.filter(e => e.entryId !== entryId),
+        }],
+        'Failed to delete diary entry'
+      );
+    },
+
+    // Get a loaded entry
+    getEntry: (entryId) => {
+      return get().entries.find(e => e.entryId === entryId);
+    },
+
+    // Loaded entries for a title, most recent first
+    getEntriesForTitle: (id, mediaType) => {
+      return get().entries.filter(e => e.id === id && e.mediaType === mediaType);
+    },
+
+    // Whether a month's entries are in memory
+    isMonthLoaded: (month) => {
+      const { hasMore, oldestLoadedMonth } = get();
+      return !hasMore || (oldestLoadedMonth !== null && month >= oldestLoadedMonth);
+    },
+
+    // Clear error state
+    clearError: () => {
+      set({ error: null });
+    },
+  };
+});
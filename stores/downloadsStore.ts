@@ -6,10 +6,12 @@
  * - Show download progress in Downloads screen
  * - Support pausing and resuming downloads
  * - Queue management
+ * - Completed downloads metadata persisted to AsyncStorage
  */
 
 import { create } from 'zustand';
 import type { DownloadItem, DownloadQueueItem, DownloadStatus } from '@/types/downloads';
+import { getDownloads, saveDownloads } from '@/services/storage';
 
 interface DownloadsStore {
   // State
@@ -35,133 +37,152 @@ interface DownloadsStore {
   clearError: () => void;
 }
 
-export const useDownloadsStore = create<DownloadsStore>((set, get) => ({
-  // Initial state
-  downloads: [],
-  queue: [],
-  storageUsed: 0,
-  storageAvailable: 0,
-  isLoading: false,
-  error: null,
-
-  // Load downloads from storage (placeholder - actual implementation would load from file system)
-  loadDownloads: async () => {
-    set({ isLoading: true, error: null });
+export const useDownloadsStore = create<DownloadsStore>((set, get) => {
+  /**
+   * Persist completed downloads metadata
+   * The files are already on disk, so a failed save is reported rather than rolled back
+   */
+  const persist = async () => {
     try {
-      // In a real implementation, this would scan local storage for downloaded files
-      // For now, we just set loading to false
-      set({ isLoading: false });
+      await saveDownloads(get().downloads);
     } catch (error) {
-      set({
-        isLoading: false,
-        error: error instanceof Error ? error.message : 'Failed to load downloads',
-      });
+      set({ error: error instanceof Error ? error.message : 'Failed to save downloads' });
     }
-  },
-
-  // Add item to download queue
-  addToQueue: (item) => {
-    const queueItem: DownloadQueueItem = {
-      ...item,
-      progress: 0,
-      status: 'queued',
-    };
-
-    set((state) => {
-      // Check if already in queue
-      const existsInQueue = state.queue.some(q => q.id === item.id);
-      if (existsInQueue) {
-        return state;
+  };
+
+  return {
+    // Initial state
+    downloads: [],
+    queue: [],
+    storageUsed: 0,
+    storageAvailable: 0,
+    isLoading: false,
+    error: null,
+
+    // Load completed downloads metadata from storage
+    loadDownloads: async () => {
+      set({ isLoading: true, error: null });
+      try {
+        const downloads = await getDownloads();
+        set({
+          downloads,
+          storageUsed: downloads.reduce((total, d) => total + d.fileSize, 0),
+          isLoading: false,
+        });
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: error instanceof Error ? error.message : 'Failed to load downloads',
+        });
       }
-
-      return {
-        queue: [...state.queue, queueItem],
+    },
+
+    // Add item to download queue
+    addToQueue: (item) => {
+      const queueItem: DownloadQueueItem = {
+        ...item,
+        progress: 0,
+        status: 'queued',
       };
-    });
-  },
-
-  // Remove item from queue
-  removeFromQueue: (id) => {
-    set((state) => ({
-      queue: state.queue.filter(item => item.id !== id),
-    }));
-  },
-
-  // Update download progress
-  updateProgress: (id, progress) => {
-    // Clamp progress between 0 and 100
-    const clampedProgress = Math.max(0, Math.min(100, progress));
-
-    set((state) => ({
-      queue: state.queue.map(item =>
-        item.id === id
-          ? { ...item, progress: clampedProgress }
-          : item
-      ),
-    }));
-  },
-
-  // Update download status
-  updateStatus: (id, status, errorMessage) => {
-    set((state) => ({
-      queue: state.queue.map(item =>
-        item.id === id
-          ? { ...item, status, errorMessage: errorMessage || item.errorMessage }
-          : item
-      ),
-    }));
-  },
-
-  // Pause a download
-  pauseDownload: (id) => {
-    const item = get().queue.find(q => q.id === id);
-    if (item && item.status === 'downloading') {
-      get().updateStatus(id, 'paused');
-    }
-  },
 
-  // Resume a paused download
-  resumeDownload: (id) => {
-    const item = get().queue.find(q => q.id === id);
-    if (item && item.status === 'paused') {
-      get().updateStatus(id, 'downloading');
-    }
-  },
-
-  // Cancel a download and remove from queue
-  cancelDownload: (id) => {
-    get().removeFromQueue(id);
-  },
-
-  // Complete a download - move from queue to downloads
-  completeDownload: (queueId, downloadItem) => {
-    set((state) => ({
-      queue: state.queue.filter(item => item.id !== queueId),
-      downloads: [...state.downloads, downloadItem],
-      storageUsed: state.storageUsed + downloadItem.fileSize,
-    }));
-  },
-
-  // Remove a completed download
-  removeDownload: (id) => {
-    set((state) => {
-      const download = state.downloads.find(d => d.id === id);
-      const sizeToRemove = download?.fileSize || 0;
-
-      return {
-        downloads: state.downloads.filter(item => item.id !== id),
-        storageUsed: Math.max(0, state.storageUsed - sizeToRemove),
-      };
-    });
-  },
-
-  // Update storage information
-  updateStorageInfo: (used, available) => {
-    set({ storageUsed: used, storageAvailable: available });
-  },
-
-  // Clear error state
-  clearError: () => {
-    set({ error: null });
-  },
-}));
+      set((state) => {
+        // Check if already in queue
+        const existsInQueue = state.queue.some(q => q.id === item.id);
+        if (existsInQueue) {
+          return state;
+        }
+
+        return {
+          queue: [...state.queue, queueItem],
+        };
+      });
+    },
+
+    // Remove item from queue
+    removeFromQueue: (id) => {
+      set((state) => ({
+        queue: state.queue.filter(item => item.id !== id),
+      }));
+    },
+
+    // Update download progress
+    updateProgress: (id, progress) => {
+      // Clamp progress between 0 and 100
+      const clampedProgress = Math.max(0, Math.min(100, progress));
+
+      set((state) => ({
+        queue: state.queue.map(item =>
+          item.id === id
+            ? { ...item, progress: clampedProgress }
+            : item
+        ),
+      }));
+    },
+
+    // Update download status
+    updateStatus: (id, status, errorMessage) => {
+      set((state) => ({
+        queue: state.queue.map(item =>
+          item.id === id
+            ? { ...item, status, errorMessage: errorMessage || item.errorMessage }
+            : item
+        ),
+      }));
+    },
+
+    // Pause a download
+    pauseDownload: (id) => {
+      const item = get().queue.find(q => q.id === id);
+      if (item && item.status === 'downloading') {
+        get().updateStatus(id, 'paused');
+      }
+    },
+
+    // Resume a paused download
+    resumeDownload: (id) => {
+      const item = get().queue.find(q => q.id === id);
+      if (item && item.status === 'paused') {
+        get().updateStatus(id, 'downloading');
+      }
+    },
+
+    // Cancel a download and remove from queue
+    cancelDownload: (id) => {
+      get().removeFromQueue(id);
+    },
+
+    // Complete a download - move from queue to downloads
+    completeDownload: (queueId, downloadItem) => {
+      set((state) => ({
+        queue: state.queue.filter(item => item.id !== queueId),
+        downloads: [...state.downloads, downloadItem],
+        storageUsed: state.storageUsed + downloadItem.fileSize,
+      }));
+      persist();
+    },
+
+    // Remove a completed download
+    removeDownload: (id) => {
+      set((state) => {
+        const download = state.downloads.find(d => d.id === id);
+        const sizeToRemove = download?.fileSize || 0;
+
+        return {
+          downloads: state.downloads.filter(item => item.id !== id),
+          storageUsed: Math.max(0, state.storageUsed - sizeToRemove),
+        };
+      });
+      persist();
+    },
+
+    // Update storage information
+    updateStorageInfo: (used, available) => {
+      set({ storageUsed: used, storageAvailable: available });
+    },
+
+    // Clear error state
+    clearError: () => {
+      set({ error: null });
+    },
+  };
+});
@@ -0,0 +1,216 @@
+/**
+ * Import Zustand Store for MovieStream MVP
+ * Drives importing from Letterboxd, IMDb and Trakt, and restoring backups
+ *
+ * - Parses the file and matches each title against the active provider
+ * - Leaves ambiguous matches for the user to review
+ * - Applies the import through the watchlist, ratings and diary stores
+ */
+
+import { create } from 'zustand';
+import type { ExternalFormat, ImportMatch, ImportSummary, RestoreMode } from '@/types/transfer';
+import type { MediaItem } from '@/types/media';
+import type { DiaryEntry } from '@/types/diary';
+import { matchImportRecord, parseAppBackup, parseImport, restoreAppBackup } from '@/services/transfer';
+import { getDiaryMonth } from '@/services/storage';
+import { initializeLocalization } from '@/services/localization';
+import { hasDiaryEntry, toDiaryMonth } from '@/utils/diary';
+import { useWatchlistStore } from './watchlistStore';
+import { useListsStore } from './listsStore';
+import { useRatingsStore } from './ratingsStore';
+import { useDiaryStore } from './diaryStore';
+import { useWatchProgressStore } from './watchProgressStore';
+import { usePreferencesStore } from './preferencesStore';
+import { useRecentlyViewedStore } from './recentlyViewedStore';
+
+/** Where the import flow is */
+export type ImportPhase = 'idle' | 'matching' | 'review' | 'importing' | 'done';
+
+interface ImportStore {
+  // State
+  phase: ImportPhase;
+  format: ExternalFormat | null;
+  matches: ImportMatch[];
+  /** Titles found in the file */
+  recordCount: number;
+  /** Titles matched so far while matching */
+  matchedCount: number;
+  summary: ImportSummary | null;
+  error: string | null;
+
+  // Actions
+  startImport: (text: string, format: ExternalFormat) => Promise<void>;
+  selectCandidate: (key: string, item: MediaItem | null) => void;
+  applyImport: () => Promise<ImportSummary | null>;
+  restoreBackup: (text: string, mode: RestoreMode) => Promise<boolean>;
+  reset: () => void;
+  clearError: () => void;
+}
+
+/** Increases on every new run so a cancelled run stops updating state */
+let runId = 0;
+
+export const useImportStore = create<ImportStore>((set, get) => ({
+  // Initial state
+  phase: 'idle',
+  format: null,
+  matches: [],
+  recordCount: 0,
+  matchedCount: 0,
+  summary: null,
+  error: null,
+
+  // Parse a file and match its titles, one at a time to stay within rate limits
+  startImport: async (text, format) => {
+    const run = ++runId;
+    let records;
+    try {
+      records = parseImport(text, format);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to read file' });
+      return;
+    }
+    if (records.length === 0) {
+      set({ error: 'No titles were found in this file' });
+      return;
+    }
+
+    set({
+      phase: 'matching',
+      format,
+      matches: [],
+      recordCount: records.length,
+      matchedCount: 0,
+      summary: null,
+      error: null,
+    });
+
+    const matches: ImportMatch[] = [];
+    for (const record of records) {
+      const match = await matchImportRecord(record);
+      if (run !== runId) return;
+      matches.push(match);
+      set({ matchedCount: matches.length });
+    }
+
+    set({ phase: 'review', matches });
+  },
+
+  // Choose the title a record is imported as (null skips it)
+  selectCandidate: (key, item) => {
+    set(state => ({
+      matches: state.matches.map(m => (m.key === key ? { ...m, selected: item } : m)),
+    }));
+  },
+
+  // Add the reviewed titles to the watchlist, ratings and diary
+  applyImport: async () => {
+    const run = ++runId;
+    set({ phase: 'importing', error: null });
+
+    const watchlist = useWatchlistStore.getState();
+    const ratings = useRatingsStore.getState();
+    const diary = useDiaryStore.getState();
+    const summary: ImportSummary = { watchlisted: 0, rated: 0, logged: 0, skipped: 0 };
+    // Stored diary months, read once so re-imports don't log the same watch twice
+    const storedMonths = new Map<string, DiaryEntry[]>();
+
+    try {
+      for (const { record, selected } of get().matches) {
+        if (run !== runId) return null;
+        if (!selected) {
+          summary.skipped++;
+          continue;
+        }
+
+        const title = {
+          id: selected.id,
+          mediaType: selected.mediaType,
+          title: selected.title,
+          posterPath: selected.posterPath,
+          imdbId: record.imdbId,
+        };
+
+        // Re-adding would reset the status of titles already on the watchlist
+        if (record.watchlist && !watchlist.isInWatchlist(title.id, title.mediaType)) {
+          await watchlist.addItem(title);
+          summary.watchlisted++;
+        }
+
+        if (record.rating !== null || record.review) {
+          const existing = ratings.getRating(title.id, title.mediaType);
+          await ratings.saveRating(title, {
+            rating: record.rating ?? existing?.rating ?? null,
+            note: record.review || existing?.note || '',
+          });
+          summary.rated++;
+        }
+
+        for (const watch of record.watches) {
+          const month = toDiaryMonth(watch.watchedOn);
+          if (!storedMonths.has(month)) {
+            storedMonths.set(month, await getDiaryMonth(month));
+          }
+          const sameDay = storedMonths.get(month)!.filter(e => e.watchedOn === watch.watchedOn);
+          if (hasDiaryEntry(sameDay, title.id, title.mediaType, watch.episode)) continue;
+
+          const entry = await diary.logWatch(title, watch);
+          if (entry) {
+            storedMonths.set(month, [...storedMonths.get(month)!, entry]);
+            summary.logged++;
+          }
+        }
+      }
+    } catch (error) {
+      set({
+        phase: 'review',
+        error: error instanceof Error ? error.message : 'Failed to import',
+      });
+      return null;
+    }
+
+    set({ phase: 'done', summary });
+    return summary;
+  },
+
+  // Replace or merge personal data with a backup and reload the stores
+  restoreBackup: async (text, mode) => {
+    try {
+      await restoreAppBackup(parseAppBackup(text), mode);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to restore backup' });
+      return false;
+    }
+
+    await Promise.all([
+      useListsStore.getState().loadLists(),
+      useWatchlistStore.getState().reloadWatchlist(),
+      useRatingsStore.getState().loadRatings(),
+      useDiaryStore.getState().loadDiary(),
+      useWatchProgressStore.getState().loadProgress(),
+      usePreferencesStore.getState().loadPreferences(),
+      useRecentlyViewedStore.getState().loadRecentlyViewed(),
+      initializeLocalization(),
+    ]);
+    return true;
+  },
+
+  // Cancel any run in progress and start over
+  reset: () => {
+    runId++;
+    set({
+      phase: 'idle',
+      format: null,
+      matches: [],
+      recordCount: 0,
+      matchedCount: 0,
+      summary: null,
+      error: null,
+    });
+  },
+
+  // Clear error state
+  clearError: () => {
+    set({ error: null });
+  },
+}));
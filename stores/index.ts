@@ -7,3 +7,11 @@ export { useWatchlistStore } from './watchlistStore';
 export { useDownloadsStore } from './downloadsStore';
 export { usePreferencesStore } from './preferencesStore';
 export { useRecentlyViewedStore, MAX_RECENTLY_VIEWED } from './recentlyViewedStore';
+export { useWatchProgressStore } from './watchProgressStore';
+export { useListsStore } from './listsStore';
+export { useRatingsStore } from './ratingsStore';
+export { useDiaryStore, DIARY_PAGE_MONTHS } from './diaryStore';
+export { useImportStore } from './importStore';
+export { useWatchlistMetadataStore } from './watchlistMetadataStore';
+export { usePickerStore } from './pickerStore';
+export { useStreamingAvailabilityStore } from './streamingAvailabilityStore';
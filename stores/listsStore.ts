@@ -0,0 +1,248 @@
+/**
+ * Custom Lists Zustand Store for MovieStream MVP
+ * Named lists such as "Date night" or "Kids" alongside the watchlist
+ *
+ * - Create, rename, delete and reorder lists
+ * - Add a title to any number of lists
+ * - The watchlist is the default list and stays in sync with the watchlist store
+ * - Persistence to AsyncStorage
+ */
+
+import { create } from 'zustand';
+import { DEFAULT_LIST_ID, type CustomList, type ListItemInput } from '@/types/lists';
+import type { WatchlistItem } from '@/types/watchlist';
+import { getLists, saveCustomLists } from '@/services/storage';
+import { resolveMediaRefs, tagMediaRef } from '@/services/api/id-mapping';
+import { useWatchlistStore } from './watchlistStore';
+import {
+  addItemToList,
+  createList as buildList,
+  isDefaultList,
+  listContains,
+  moveList as moveListInOrder,
+  normalizeListName,
+  removeItemFromList,
+  validateListName,
+} from '@/utils/custom-lists';
+
+interface ListsStore {
+  // State
+  lists: CustomList[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadLists: () => Promise<void>;
+  createList: (name: string) => Promise<string | null>;
+  renameList: (listId: string, name: string) => Promise<boolean>;
+  deleteList: (listId: string) => Promise<void>;
+  moveList: (listId: string, offset: number) => Promise<void>;
+  addToList: (listId: string, item: ListItemInput) => Promise<void>;
+  removeFromList: (listId: string, id: number, mediaType: 'movie' | 'tv') => Promise<void>;
+  toggleInList: (listId: string, item: ListItemInput) => Promise<boolean>;
+  getList: (listId: string) => CustomList | undefined;
+  getListsContaining: (id: number, mediaType: 'movie' | 'tv') => CustomList[];
+  isInList: (listId: string, id: number, mediaType: 'movie' | 'tv') => boolean;
+  clearError: () => void;
+}
+
+/** Replace the default list's items with the watchlist store's items */
+function withWatchlistItems(lists: CustomList[], items: WatchlistItem[]): CustomList[] {
+  return lists.map(list => (isDefaultList(list.id) ? { ...list, items } : list));
+}
+
+export const useListsStore = create<ListsStore>((set, get) => {
+  /**
+   * Apply an update optimistically and persist the result
+   * Rolls back to the previous lists if saving fails
+   */
+  const commit = async (lists: CustomList[], failureMessage: string): Promise<boolean> => {
+    const previousLists = get().lists;
+    set({ lists });
+
+    try {
+      // The default list's items are mirrored from the watchlist store below,
+      // which saves them itself
+      await saveCustomLists(lists);
+      return true;
+    } catch (error) {
+      set({
+        lists: previousLists,
+        error: error instanceof Error ? error.message : failureMessage,
+      });
+      return false;
+    }
+  };
+
+  /** Update a single list, or null when it doesn't exist */
+  const updateList = (
+    listId: string,
+    update: (list: CustomList, now: string) => CustomList
+  ): CustomList[] | null => {
+    const now = new Date().toISOString();
+    const { lists } = get();
+    if (!lists.some(list => list.id === listId)) return null;
+    return lists.map(list => (list.id === listId ? update(list, now) : list));
+  };
+
+  return {
+    // Initial state
+    lists: [],
+    isLoading: false,
+    error: null,
+
+    // Load lists from storage
+    loadLists: async () => {
+      set({ isLoading: true, error: null });
+      try {
+        const lists = await getLists();
+        set({ lists, isLoading: false });
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: error instanceof Error ? error.message : 'Failed to load lists',
+        });
+        return;
+      }
+
+      // Items saved under another provider's IDs are translated in the background
+      // (the watchlist store resolves the default list itself)
+      try {
+        let changed = false;
+        const lists: CustomList[] = [];
+        for (const list of get().lists) {
+          if (isDefaultList(list.id)) {
+            lists.push(list);
+            continue;
+          }
+          const resolved = await resolveMediaRefs(list.items);
+          changed = changed || resolved.changed;
+          lists.push(resolved.changed ? { ...list, items: resolved.items } : list);
+        }
+        if (changed) {
+          await commit(lists, 'Failed to save lists');
+        }
+      } catch (error) {
+        console.warn('[Lists] Failed to re-resolve item IDs:', error);
+      }
+    },
+
+    // Create an empty list, returning its ID
+    createList: async (name) => {
+      const { lists } = get();
+      const validationError = validateListName(name, lists);
+      if (validationError) {
+        set({ error: validationError });
+        return null;
+      }
+
+      const list = buildList(name, new Date().toISOString());
+      const saved = await commit([...lists, list], 'Failed to create list');
+      return saved ? list.id : null;
+    },
+
+    // Rename a list
+    renameList: async (listId, name) => {
+      const validationError = validateListName(name, get().lists, listId);
+      if (validationError) {
+        set({ error: validationError });
+        return false;
+      }
+
+      const lists = updateList(listId, (list, now) => ({
+        ...list,
+        name: normalizeListName(name),
+        updatedAt: now,
+      }));
+      if (!lists) return false;
+      return commit(lists, 'Failed to rename list');
+    },
+
+    // Delete a list; the default list can't be deleted
+    deleteList: async (listId) => {
+      if (isDefaultList(listId)) return;
+      const { lists } = get();
+      if (!lists.some(list => list.id === listId)) return;
+      await commit(lists.filter(list => list.id !== listId), 'Failed to delete list');
+    },
+
+    // Move a list up (negative offset) or down (positive offset)
+    moveList: async (listId, offset) => {
+      const { lists } = get();
+      const moved = moveListInOrder(lists, listId, offset);
+      if (moved === lists) return;
+      await commit(moved, 'Failed to reorder lists');
+    },
+
+    // Add a title to a list
+    addToList: async (listId, item) => {
+      if (isDefaultList(listId)) {
+        await useWatchlistStore.getState().addItem(item);
+        return;
+      }
+
+      const newItem: WatchlistItem = tagMediaRef({
+        ...item,
+        addedAt: new Date().toISOString(),
+        syncStatus: 'synced',
+      });
+      const lists = updateList(listId, (list, now) => addItemToList(list, newItem, now));
+      if (!lists) return;
+      await commit(lists, 'Failed to add to list');
+    },
+
+    // Remove a title from a list
+    removeFromList: async (listId, id, mediaType) => {
+      if (isDefaultList(listId)) {
+        await useWatchlistStore.getState().removeItem(id, mediaType);
+        return;
+      }
+
+      const lists = updateList(listId, (list, now) => removeItemFromList(list, id, mediaType, now));
+      if (!lists) return;
+      await commit(lists, 'Failed to remove from list');
+    },
+
+    // Toggle a title in a list (add if not present, remove if present)
+    toggleInList: async (listId, item) => {
+      if (get().isInList(listId, item.id, item.mediaType)) {
+        await get().removeFromList(listId, item.id, item.mediaType);
+        return false;
+      }
+      await get().addToList(listId, item);
+      return true;
+    },
+
+    getList: (listId) => {
+      return get().lists.find(list => list.id === listId);
+    },
+
+    // Lists that contain a title, in display order
+    getListsContaining: (id, mediaType) => {
+      return get().lists.filter(list => listContains(list, id, mediaType));
+    },
+
+    isInList: (listId, id, mediaType) => {
+      if (isDefaultList(listId)) {
+        return useWatchlistStore.getState().isInWatchlist(id, mediaType);
+      }
+      const list = get().getList(listId);
+      return list ? listContains(list, id, mediaType) : false;
+    },
+
+    // Clear error state
+    clearError: () => {
+      set({ error: null });
+    },
+  };
+});
+
+// Mirror watchlist changes into the default list
+useWatchlistStore.subscribe((state, previousState) => {
+  if (state.items === previousState.items) return;
+  useListsStore.setState(({ lists }) => ({
+    lists: lists.some(list => list.id === DEFAULT_LIST_ID)
+      ? withWatchlistItems(lists, state.items)
+      : lists,
+  }));
+});
@@ -0,0 +1,145 @@
+/**
+ * Tonight Picker Zustand Store for MovieStream MVP
+ * Suggests something to watch from the watchlist and recommendations
+ *
+ * - Suggestions are weighted-random among titles that fit the constraints
+ * - "Not this one" rerolls; every suggestion is kept for a week so the same
+ *   title isn't suggested twice in that time
+ */
+
+import { create } from 'zustand';
+import {
+  DEFAULT_PICKER_CONSTRAINTS,
+  type PickerCandidate,
+  type PickerConstraints,
+  type PickHistoryEntry,
+} from '@/types/picker';
+import { getPickHistory, savePickHistory } from '@/services/storage';
+import { chooseRecommendationSeeds, fetchRecommendedCandidates } from '@/services/tonight-picker';
+import { getWatchlistKey } from '@/services/sync';
+import {
+  mergeCandidates,
+  pickTonight,
+  pruneHistory,
+  recordPick,
+  toWatchlistCandidate,
+} from '@/utils/tonight-picker';
+import { useWatchlistStore } from './watchlistStore';
+import { useWatchlistMetadataStore } from './watchlistMetadataStore';
+import { usePreferencesStore } from './preferencesStore';
+
+interface PickerStore {
+  // State
+  constraints: PickerConstraints;
+  /** Recommended titles fetched for this visit */
+  recommendations: PickerCandidate[];
+  /** Current suggestion */
+  current: PickerCandidate | null;
+  history: PickHistoryEntry[];
+  /** Nothing fits the constraints (or everything was suggested this week) */
+  hasNoMatch: boolean;
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadPicker: () => Promise<void>;
+  setConstraints: (changes: Partial<PickerConstraints>) => void;
+  pick: () => Promise<void>;
+  clearHistory: () => Promise<void>;
+  reset: () => void;
+  clearError: () => void;
+}
+
+export const usePickerStore = create<PickerStore>((set, get) => ({
+  // Initial state
+  constraints: DEFAULT_PICKER_CONSTRAINTS,
+  recommendations: [],
+  current: null,
+  history: [],
+  hasNoMatch: false,
+  isLoading: false,
+  error: null,
+
+  // Load history, fresh watchlist details and recommendations
+  loadPicker: async () => {
+    set({ isLoading: true, error: null });
+    try {
+      const history = pruneHistory(await getPickHistory());
+      set({ history });
+
+      await useWatchlistMetadataStore.getState().refreshMetadata();
+      const items = useWatchlistStore.getState().items;
+      const exclude = new Set([
+        ...items.map(item => getWatchlistKey(item.id, item.mediaType)),
+        ...history.map(entry => entry.key),
+      ]);
+      const recommendations = await fetchRecommendedCandidates(
+        chooseRecommendationSeeds(items),
+        exclude
+      );
+      set({ recommendations, isLoading: false });
+    } catch (error) {
+      set({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'Failed to load suggestions',
+      });
+    }
+  },
+
+  // Change the constraints; the current suggestion may no longer fit
+  setConstraints: (changes) => {
+    set((state) => ({
+      constraints: { ...state.constraints, ...changes },
+      current: null,
+      hasNoMatch: false,
+    }));
+  },
+
+  // Suggest a title (again for "not this one", since the last one is now in the history)
+  pick: async () => {
+    const { metadata } = useWatchlistMetadataStore.getState();
+    const candidates = mergeCandidates(
+      useWatchlistStore.getState().items.map(item => toWatchlistCandidate(item, metadata)),
+      get().recommendations
+    );
+    // "Only on my services" uses the services chosen in settings
+    const constraints = {
+      ...get().constraints,
+      serviceIds: usePreferencesStore.getState().preferences.streamingServices,
+    };
+    const now = new Date();
+    const current = pickTonight(candidates, constraints, get().history, now);
+    if (!current) {
+      set({ current: null, hasNoMatch: true });
+      return;
+    }
+
+    const history = recordPick(get().history, current, now);
+    set({ current, history, hasNoMatch: false });
+    try {
+      await savePickHistory(history);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to save suggestion history' });
+    }
+  },
+
+  // Allow every title to be suggested again
+  clearHistory: async () => {
+    set({ history: [], hasNoMatch: false });
+    try {
+      await savePickHistory([]);
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to clear suggestion history' });
+    }
+  },
+
+  // Forget this visit's suggestion and recommendations (constraints are kept)
+  reset: () => {
+    set({ current: null, recommendations: [], hasNoMatch: false, error: null });
+  },
+
+  // Clear error state
+  clearError: () => {
+    set({ error: null });
+  },
+}));
@@ -1,6 +1,8 @@
 /**
  * Preferences Zustand Store for MovieStream MVP
- * Manages theme/language/analytics settings
+ * Manages theme/language/analytics settings, subscribed streaming services
+ * and the certification ceiling
+ * The content language preference is mirrored into the media API
  * 
  * Requirements: 9.2
  * - Apply theme changes immediately
@@ -8,13 +10,15 @@
  */
 
 import { create } from 'zustand';
-import type { UserPreferences, ThemeMode } from '@/types/user';
+import type { UserPreferences, ThemeMode, CertificationCeilingMode } from '@/types/user';
 import { DEFAULT_USER_PREFERENCES } from '@/types/user';
 import {
   getUserPreferences,
   saveUserPreferences,
   updateUserPreferences as updatePrefsInStorage,
 } from '@/services/storage';
+import { getCurrentLocale, isValidLocale, setLocale } from '@/services/localization';
+import { setContentLanguage as setApiContentLanguage } from '@/services/api/content-language';
 
 interface PreferencesStore {
   // State
@@ -26,10 +30,14 @@ interface PreferencesStore {
   loadPreferences: () => Promise<void>;
   setThemeMode: (mode: ThemeMode) => Promise<void>;
   setLanguage: (language: string) => Promise<void>;
+  setContentLanguage: (language: string | null) => Promise<void>;
   setAnalyticsEnabled: (enabled: boolean) => Promise<void>;
   setNotificationsEnabled: (enabled: boolean) => Promise<void>;
   setNotificationType: (type: 'downloads' | 'newReleases', enabled: boolean) => Promise<void>;
   setGdprConsent: (consent: boolean) => Promise<void>;
+  setStreamingServices: (providerIds: number[]) => Promise<void>;
+  setCertificationCeiling: (ceiling: number | null) => Promise<void>;
+  setCertificationCeilingMode: (mode: CertificationCeilingMode) => Promise<void>;
   updatePreferences: (updates: Partial<UserPreferences>) => Promise<void>;
   resetPreferences: () => Promise<void>;
   clearError: () => void;
@@ -77,17 +85,25 @@ export const usePreferencesStore = create<PreferencesStore>((set, get) => ({
 
   // Set language
   setLanguage: async (language) => {
+    if (!isValidLocale(language)) {
+      set({ error: `Unsupported language: ${language}` });
+      return;
+    }
+
     const previousPrefs = get().preferences;
+    const previousLocale = getCurrentLocale();
 
-    // Optimistic update
+    // Optimistic update, switching every mounted screen to the new language
     set((state) => ({
       preferences: { ...state.preferences, language },
     }));
 
     try {
+      await setLocale(language);
       await updatePrefsInStorage({ language });
     } catch (error) {
       // Rollback on failure
+      await setLocale(previousLocale);
       set({
         preferences: previousPrefs,
         error: error instanceof Error ? error.message : 'Failed to update language',
@@ -95,6 +111,31 @@ export const usePreferencesStore = create<PreferencesStore>((set, get) => ({
     }
   },
 
+  // Set the metadata language; null follows the app language
+  setContentLanguage: async (language) => {
+    if (language !== null && !isValidLocale(language)) {
+      set({ error: `Unsupported content language: ${language}` });
+      return;
+    }
+
+    const previousPrefs = get().preferences;
+
+    // Optimistic update
+    set((state) => ({
+      preferences: { ...state.preferences, contentLanguage: language },
+    }));
+
+    try {
+      await updatePrefsInStorage({ contentLanguage: language });
+    } catch (error) {
+      // Rollback on failure
+      set({
+        preferences: previousPrefs,
+        error: error instanceof Error ? error.message : 'Failed to update content language',
+      });
+    }
+  },
+
   // Set analytics enabled
   setAnalyticsEnabled: async (enabled) => {
     const previousPrefs = get().preferences;
@@ -193,6 +234,67 @@ export const usePreferencesStore = create<PreferencesStore>((set, get) => ({
     }
   },
 
+  // Set subscribed streaming services
+  setStreamingServices: async (providerIds) => {
+    const previousPrefs = get().preferences;
+    const streamingServices = [...new Set(providerIds)];
+
+    // Optimistic update
+    set((state) => ({
+      preferences: { ...state.preferences, streamingServices },
+    }));
+
+    try {
+      await updatePrefsInStorage({ streamingServices });
+    } catch (error) {
+      // Rollback on failure
+      set({
+        preferences: previousPrefs,
+        error: error instanceof Error ? error.message : 'Failed to update streaming services',
+      });
+    }
+  },
+
+  // Set the highest certification shown, as a viewer age; null shows everything
+  setCertificationCeiling: async (ceiling) => {
+    const previousPrefs = get().preferences;
+
+    // Optimistic update
+    set((state) => ({
+      preferences: { ...state.preferences, certificationCeiling: ceiling },
+    }));
+
+    try {
+      await updatePrefsInStorage({ certificationCeiling: ceiling });
+    } catch (error) {
+      // Rollback on failure
+      set({
+        preferences: previousPrefs,
+        error: error instanceof Error ? error.message : 'Failed to update certification ceiling',
+      });
+    }
+  },
+
+  // Set whether titles above the ceiling are hidden or blurred
+  setCertificationCeilingMode: async (mode) => {
+    const previousPrefs = get().preferences;
+
+    // Optimistic update
+    set((state) => ({
+      preferences: { ...state.preferences, certificationCeilingMode: mode },
+    }));
+
+    try {
+      await updatePrefsInStorage({ certificationCeilingMode: mode });
+    } catch (error) {
+      // Rollback on failure
+      set({
+        preferences: previousPrefs,
+        error: error instanceof Error ? error.message : 'Failed to update certification ceiling',
+      });
+    }
+  },
+
   // Update multiple preferences at once
   updatePreferences: async (updates) => {
     const previousPrefs = get().preferences;
@@ -236,3 +338,9 @@ export const usePreferencesStore = create<PreferencesStore>((set, get) => ({
     set({ error: null });
   },
 }));
+
+// Request titles, overviews and posters in the chosen content language
+usePreferencesStore.subscribe((state, previousState) => {
+  if (state.preferences.contentLanguage === previousState.preferences.contentLanguage) return;
+  setApiContentLanguage(state.preferences.contentLanguage);
+});
@@ -0,0 +1,124 @@
+/**
+ * Ratings Zustand Store for MovieStream MVP
+ * Personal ratings and private notes per title
+ *
+ * - Half-star ratings (0-10) and free-text notes
+ * - Persistence to AsyncStorage
+ */
+
+import { create } from 'zustand';
+import type { RatedTitle, UserRating, UserRatingInput } from '@/types/ratings';
+import { getUserRatings, saveUserRatings } from '@/services/storage';
+import { resolveMediaRefs, tagMediaRef } from '@/services/api/id-mapping';
+import { findUserRating, upsertUserRating } from '@/utils/user-ratings';
+
+interface RatingsStore {
+  // State
+  items: UserRating[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadRatings: () => Promise<void>;
+  saveRating: (title: RatedTitle, input: UserRatingInput) => Promise<void>;
+  setRating: (title: RatedTitle, rating: number | null) => Promise<void>;
+  setNote: (title: RatedTitle, note: string) => Promise<void>;
+  removeRating: (id: number, mediaType: 'movie' | 'tv') => Promise<void>;
+  getRating: (id: number, mediaType: 'movie' | 'tv') => UserRating | undefined;
+  clearError: () => void;
+}
+
+export const useRatingsStore = create<RatingsStore>((set, get) => {
+  /**
+   * Apply an update optimistically and persist the result
+   * Rolls back to the previous items if saving fails
+   */
+  const commit = async (items: UserRating[], failureMessage: string): Promise<boolean> => {
+    const previousItems = get().items;
+    set({ items });
+
+    try {
+      await saveUserRatings(items);
+      return true;
+    } catch (error) {
+      set({
+        items: previousItems,
+        error: error instanceof Error ? error.message : failureMessage,
+      });
+      return false;
+    }
+  };
+
+  return {
+    // Initial state
+    items: [],
+    isLoading: false,
+    error: null,
+
+    // Load ratings from storage
+    loadRatings: async () => {
+      set({ isLoading: true, error: null });
+      try {
+        const items = await getUserRatings();
+        set({ items, isLoading: false });
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: error instanceof Error ? error.message : 'Failed to load ratings',
+        });
+        return;
+      }
+
+      // Ratings saved under another provider's IDs are translated in the background
+      try {
+        const { items, changed } = await resolveMediaRefs(get().items);
+        if (changed) {
+          await saveUserRatings(items);
+          set({ items });
+        }
+      } catch (error) {
+        console.warn('[Ratings] Failed to re-resolve rating IDs:', error);
+      }
+    },
+
+    // Save a rating and note together; clearing both removes the entry
+    saveRating: async (title, input) => {
+      const items = upsertUserRating(
+        get().items,
+        tagMediaRef(title),
+        input,
+        new Date().toISOString()
+      );
+      await commit(items, 'Failed to save rating');
+    },
+
+    // Change the rating, keeping the note
+    setRating: async (title, rating) => {
+      const note = get().getRating(title.id, title.mediaType)?.note ?? '';
+      await get().saveRating(title, { rating, note });
+    },
+
+    // Change the note, keeping the rating
+    setNote: async (title, note) => {
+      const rating = get().getRating(title.id, title.mediaType)?.rating ?? null;
+      await get().saveRating(title, { rating, note });
+    },
+
+    // Delete the rating and note for a title
+    removeRating: async (id, mediaType) => {
+      const existing = get().getRating(id, mediaType);
+      if (!existing) return;
+      await commit(get().items.filter(r => r !== existing), 'Failed to remove rating');
+    },
+
+    // Get the personal rating for a title
+    getRating: (id, mediaType) => {
+      return findUserRating(get().items, id, mediaType);
+    },
+
+    // Clear error state
+    clearError: () => {
+      set({ error: null });
+    },
+  };
+});
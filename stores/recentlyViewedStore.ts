@@ -12,9 +12,11 @@ import { create } from 'zustand';
 import type { RecentlyViewedItem } from '@/types/user';
 import {
   getRecentlyViewed,
+  saveRecentlyViewed,
   addToRecentlyViewed as addToStorage,
   clearRecentlyViewed as clearStorage,
 } from '@/services/storage';
+import { resolveMediaRefs, tagMediaRef } from '@/services/api/id-mapping';
 
 // Maximum number of recently viewed items to display
 const MAX_RECENTLY_VIEWED = 10;
@@ -51,11 +53,26 @@ export const useRecentlyViewedStore = create<RecentlyViewedStore>((set, get) =>
         isLoading: false,
         error: error instanceof Error ? error.message : 'Failed to load recently viewed',
       });
+      return;
+    }
+
+    // Items saved under another provider's IDs are translated in the background
+    try {
+      const { items, changed } = await resolveMediaRefs(get().items);
+      if (changed) {
+        await saveRecentlyViewed(items);
+        set({ items });
+      }
+    } catch (error) {
+      console.warn('[RecentlyViewed] Failed to re-resolve item IDs:', error);
     }
   },
 
   // Add item to recently viewed
-  addItem: async (item) => {
+  addItem: async (rawItem) => {
+    // Record which provider the ID belongs to
+    const item = tagMediaRef(rawItem);
+
     // Create new item with timestamp
     const newItem: RecentlyViewedItem = {
       ...item,
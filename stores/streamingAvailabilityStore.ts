@@ -0,0 +1,63 @@
+/**
+ * Streaming Availability Zustand Store for MovieStream MVP
+ * Remembers which subscription services stream the titles browsed this
+ * session, for the "available to me" filters
+ *
+ * - Kept in memory only; watchlist titles have their own persisted metadata
+ * - Titles already being checked aren't requested again
+ */
+
+import { create } from 'zustand';
+import type { MediaRef, StreamingAvailability } from '@/types/media';
+import { checkStreamingAvailability, getTitlesToCheck } from '@/services/streaming-availability';
+import { getWatchlistKey } from '@/services/sync';
+
+interface StreamingAvailabilityStore {
+  // State
+  /** Availability per watchlist key (`movie:123`) */
+  availability: Record<string, StreamingAvailability>;
+  /** Titles being checked */
+  pending: string[];
+  error: string | null;
+
+  // Actions
+  checkAvailability: (refs: MediaRef[]) => Promise<void>;
+  clearError: () => void;
+}
+
+export const useStreamingAvailabilityStore = create<StreamingAvailabilityStore>((set, get) => ({
+  // Initial state
+  availability: {},
+  pending: [],
+  error: null,
+
+  // Check titles never checked or checked too long ago
+  checkAvailability: async (refs) => {
+    const { availability, pending } = get();
+    const toCheck = getTitlesToCheck(refs, availability)
+      .filter(ref => !pending.includes(getWatchlistKey(ref.id, ref.mediaType)));
+    if (toCheck.length === 0) return;
+
+    const keys = toCheck.map(ref => getWatchlistKey(ref.id, ref.mediaType));
+    set((state) => ({ pending: [...state.pending, ...keys] }));
+
+    try {
+      const result = await checkStreamingAvailability(toCheck);
+      set((state) => ({
+        availability: { ...state.availability, ...result.availability },
+        error: result.failed > 0
+          ? `Couldn't check where ${result.failed} ${result.failed === 1 ? 'title is' : 'titles are'} streaming`
+          : state.error,
+      }));
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to check streaming availability' });
+    } finally {
+      set((state) => ({ pending: state.pending.filter(key => !keys.includes(key)) }));
+    }
+  },
+
+  // Clear error state
+  clearError: () => {
+    set({ error: null });
+  },
+}));
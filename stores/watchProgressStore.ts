@@ -0,0 +1,232 @@
+/**
+ * Watch Progress Zustand Store for MovieStream MVP
+ * Tracks watched episodes per TV series
+ *
+ * - Mark single episodes or whole seasons as watched
+ * - Next episode to watch per series
+ * - Moves watchlisted series to watching/completed as episodes are marked
+ * - Persistence to AsyncStorage
+ */
+
+import { create } from 'zustand';
+import type { EpisodeRef, SeriesProgress, SeriesProgressInfo } from '@/types/progress';
+import { getWatchProgress, saveWatchProgress } from '@/services/storage';
+import { resolveMediaRefs, tagMediaRef } from '@/services/api/id-mapping';
+import { useWatchlistStore } from './watchlistStore';
+import {
+  addWatchedEpisodes,
+  createSeriesProgress,
+  getNextEpisode as computeNextEpisode,
+  isEpisodeWatched as checkEpisodeWatched,
+  isSeriesComplete,
+  removeWatchedEpisodes,
+} from '@/utils/watch-progress';
+
+interface WatchProgressStore {
+  // State
+  items: SeriesProgress[];
+  isLoading: boolean;
+  error: string | null;
+
+  // Actions
+  loadProgress: () => Promise<void>;
+  markEpisodeWatched: (series: SeriesProgressInfo, seasonNumber: number, episodeNumber: number) => Promise<void>;
+  unmarkEpisodeWatched: (seriesId: number, seasonNumber: number, episodeNumber: number) => Promise<void>;
+  toggleEpisodeWatched: (series: SeriesProgressInfo, seasonNumber: number, episodeNumber: number) => Promise<boolean>;
+  markSeasonWatched: (series: SeriesProgressInfo, seasonNumber: number, episodeNumbers: number[]) => Promise<void>;
+  unmarkSeasonWatched: (seriesId: number, seasonNumber: number) => Promise<void>;
+  setSeasonEpisodeCount: (seriesId: number, seasonNumber: number, episodeCount: number) => Promise<void>;
+  clearSeries: (seriesId: number) => Promise<void>;
+  getProgress: (seriesId: number) => SeriesProgress | undefined;
+  isEpisodeWatched: (seriesId: number, seasonNumber: number, episodeNumber: number) => boolean;
+  getNextEpisode: (seriesId: number) => EpisodeRef | null;
+  clearError: () => void;
+}
+
+export const useWatchProgressStore = create<WatchProgressStore>((set, get) => {
+  /**
+   * Apply an update optimistically and persist the result
+   * Rolls back to the previous items if saving fails
+   */
+  const commit = async (items: SeriesProgress[], failureMessage: string): Promise<boolean> => {
+    const previousItems = get().items;
+    set({ items });
+
+    try {
+      await saveWatchProgress(items);
+      return true;
+    } catch (error) {
+      set({
+        items: previousItems,
+        error: error instanceof Error ? error.message : failureMessage,
+      });
+      return false;
+    }
+  };
+
+  /** Update the series' watchlist status after episodes are marked watched */
+  const recordWatchActivity = async (seriesId: number) => {
+    const complete = isSeriesComplete(get().getProgress(seriesId));
+    await useWatchlistStore.getState().recordWatchActivity(seriesId, 'tv', complete);
+  };
+
+  /** Replace (or add) the entry for a series, starting a new entry when untracked */
+  const updateSeries = (
+    series: SeriesProgressInfo,
+    update: (progress: SeriesProgress, now: string) => SeriesProgress
+  ): SeriesProgress[] => {
+    const now = new Date().toISOString();
+    const { items } = get();
+    const existing = items.find(p => p.id === series.id);
+    // Refresh totals in case the series gained episodes since it was first tracked
+    const base = existing
+      ? {
+          ...existing,
+          totalEpisodes: series.totalEpisodes ?? existing.totalEpisodes,
+          totalSeasons: series.totalSeasons ?? existing.totalSeasons,
+        }
+      : tagMediaRef(createSeriesProgress(series, now));
+    const updated = update(base, now);
+
+    return existing
+      ? items.map(p => (p.id === series.id ? updated : p))
+      : [...items, updated];
+  };
+
+  /** Update a tracked series; untracked series are left alone */
+  const updateTracked = (
+    seriesId: number,
+    update: (progress: SeriesProgress, now: string) => SeriesProgress
+  ): SeriesProgress[] | null => {
+    const now = new Date().toISOString();
+    const { items } = get();
+    if (!items.some(p => p.id === seriesId)) return null;
+    return items.map(p => (p.id === seriesId ? update(p, now) : p));
+  };
+
+  return {
+    // Initial state
+    items: [],
+    isLoading: false,
+    error: null,
+
+    // Load progress from storage
+    loadProgress: async () => {
+      set({ isLoading: true, error: null });
+      try {
+        const items = await getWatchProgress();
+        set({ items, isLoading: false });
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: error instanceof Error ? error.message : 'Failed to load watch progress',
+        });
+        return;
+      }
+
+      // Series saved under another provider's IDs are translated in the background
+      try {
+        const { items, changed } = await resolveMediaRefs(get().items);
+        if (changed) {
+          await saveWatchProgress(items);
+          set({ items });
+        }
+      } catch (error) {
+        console.warn('[WatchProgress] Failed to re-resolve series IDs:', error);
+      }
+    },
+
+    // Mark a single episode as watched
+    markEpisodeWatched: async (series, seasonNumber, episodeNumber) => {
+      const items = updateSeries(series, (progress, now) =>
+        addWatchedEpisodes(progress, [{ seasonNumber, episodeNumber }], now)
+      );
+      if (await commit(items, 'Failed to save watch progress')) {
+        await recordWatchActivity(series.id);
+      }
+    },
+
+    // Remove a single episode from the watched list
+    unmarkEpisodeWatched: async (seriesId, seasonNumber, episodeNumber) => {
+      const items = updateTracked(seriesId, (progress, now) =>
+        removeWatchedEpisodes(progress, [{ seasonNumber, episodeNumber }], now)
+      );
+      if (items) await commit(items, 'Failed to save watch progress');
+    },
+
+    // Toggle an episode's watched state
+    toggleEpisodeWatched: async (series, seasonNumber, episodeNumber) => {
+      if (get().isEpisodeWatched(series.id, seasonNumber, episodeNumber)) {
+        await get().unmarkEpisodeWatched(series.id, seasonNumber, episodeNumber);
+        return false; // Episode was unmarked
+      }
+      await get().markEpisodeWatched(series, seasonNumber, episodeNumber);
+      return true; // Episode was marked
+    },
+
+    // Mark every episode of a season as watched
+    markSeasonWatched: async (series, seasonNumber, episodeNumbers) => {
+      const items = updateSeries(series, (progress, now) => {
+        const updated = addWatchedEpisodes(
+          progress,
+          episodeNumbers.map(episodeNumber => ({ seasonNumber, episodeNumber })),
+          now
+        );
+        return {
+          ...updated,
+          seasonEpisodeCounts: { ...updated.seasonEpisodeCounts, [seasonNumber]: episodeNumbers.length },
+        };
+      });
+      if (await commit(items, 'Failed to save watch progress')) {
+        await recordWatchActivity(series.id);
+      }
+    },
+
+    // Clear every watched episode in a season
+    unmarkSeasonWatched: async (seriesId, seasonNumber) => {
+      const items = updateTracked(seriesId, (progress, now) => ({
+        ...progress,
+        watchedEpisodes: progress.watchedEpisodes.filter(e => e.seasonNumber !== seasonNumber),
+        updatedAt: now,
+      }));
+      if (items) await commit(items, 'Failed to save watch progress');
+    },
+
+    // Record a season's episode count for progress bars and next-episode rollover
+    setSeasonEpisodeCount: async (seriesId, seasonNumber, episodeCount) => {
+      if (get().getProgress(seriesId)?.seasonEpisodeCounts[seasonNumber] === episodeCount) return;
+
+      const items = updateTracked(seriesId, progress => ({
+        ...progress,
+        seasonEpisodeCounts: { ...progress.seasonEpisodeCounts, [seasonNumber]: episodeCount },
+      }));
+      if (items) await commit(items, 'Failed to save watch progress');
+    },
+
+    // Stop tracking a series
+    clearSeries: async (seriesId) => {
+      const items = get().items.filter(p => p.id !== seriesId);
+      await commit(items, 'Failed to clear watch progress');
+    },
+
+    // Get progress for a series
+    getProgress: (seriesId) => {
+      return get().items.find(p => p.id === seriesId);
+    },
+
+    // Check if an episode is watched
+    isEpisodeWatched: (seriesId, seasonNumber, episodeNumber) => {
+      return checkEpisodeWatched(get().getProgress(seriesId), seasonNumber, episodeNumber);
+    },
+
+    // Next episode to watch
+    getNextEpisode: (seriesId) => {
+      return computeNextEpisode(get().getProgress(seriesId));
+    },
+
+    // Clear error state
+    clearError: () => {
+      set({ error: null });
+    },
+  };
+});
@@ -0,0 +1,119 @@
+/**
+ * Watchlist Metadata Zustand Store for MovieStream MVP
+ * Keeps runtime, release date, genres, vote average and streaming
+ * availability for watchlist titles, for the smart filters and sorts
+ *
+ * - Persisted to AsyncStorage so filters work offline
+ * - Missing and stale metadata is fetched in the background while the app is open
+ */
+
+import { create } from 'zustand';
+import type { WatchlistItemMetadata, WatchlistMetadataCache } from '@/types/watchlist';
+import { getWatchlistMetadata, saveWatchlistMetadata } from '@/services/storage';
+import { refreshWatchlistMetadata } from '@/services/watchlist-metadata';
+import { getWatchlistKey } from '@/services/sync';
+import { WATCHLIST_METADATA_CONFIG } from '@/constants/api';
+import { useWatchlistStore } from './watchlistStore';
+
+interface WatchlistMetadataStore {
+  // State
+  metadata: WatchlistMetadataCache;
+  isLoaded: boolean;
+  isRefreshing: boolean;
+  error: string | null;
+
+  // Actions
+  loadMetadata: () => Promise<void>;
+  refreshMetadata: (force?: boolean) => Promise<void>;
+  getMetadata: (id: number, mediaType: 'movie' | 'tv') => WatchlistItemMetadata | null;
+  startAutoRefresh: () => void;
+  stopAutoRefresh: () => void;
+  clearError: () => void;
+}
+
+export const useWatchlistMetadataStore = create<WatchlistMetadataStore>((set, get) => {
+  let refreshing: Promise<void> | null = null;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const runRefresh = async (force: boolean) => {
+    if (!get().isLoaded) {
+      await get().loadMetadata();
+    }
+
+    set({ isRefreshing: true });
+    try {
+      // Until the watchlist has loaded its items may be missing, so nothing is pruned
+      const { items, isLoaded } = useWatchlistStore.getState();
+      const { metadata, changed } = await refreshWatchlistMetadata(items, get().metadata, {
+        force,
+        prune: isLoaded,
+      });
+      if (changed) {
+        set({ metadata });
+        await saveWatchlistMetadata(metadata);
+      }
+    } catch (error) {
+      set({ error: error instanceof Error ? error.message : 'Failed to update title details' });
+    } finally {
+      set({ isRefreshing: false });
+    }
+  };
+
+  return {
+    // Initial state
+    metadata: {},
+    isLoaded: false,
+    isRefreshing: false,
+    error: null,
+
+    // Load cached metadata from storage
+    loadMetadata: async () => {
+      try {
+        const metadata = await getWatchlistMetadata();
+        set({ metadata, isLoaded: true });
+      } catch (error) {
+        set({
+          isLoaded: true,
+          error: error instanceof Error ? error.message : 'Failed to load title details',
+        });
+      }
+    },
+
+    // Fetch missing and stale metadata (joins a refresh already running)
+    refreshMetadata: async (force = false) => {
+      if (!refreshing) {
+        refreshing = runRefresh(force).finally(() => {
+          refreshing = null;
+        });
+      }
+      await refreshing;
+    },
+
+    // Get a title's metadata (null until fetched)
+    getMetadata: (id, mediaType) => {
+      return get().metadata[getWatchlistKey(id, mediaType)] ?? null;
+    },
+
+    // Refresh now and then whenever metadata may have gone stale
+    startAutoRefresh: () => {
+      if (timer) return;
+      void get().refreshMetadata();
+      timer = setInterval(() => {
+        void get().refreshMetadata();
+      }, WATCHLIST_METADATA_CONFIG.CHECK_INTERVAL_MS);
+    },
+
+    // Stop background refreshes
+    stopAutoRefresh: () => {
+      if (timer) {
+        clearInterval(timer);
+        timer = null;
+      }
+    },
+
+    // Clear error state
+    clearError: () => {
+      set({ error: null });
+    },
+  };
+});
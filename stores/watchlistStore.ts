@@ -1,15 +1,21 @@
 /**
  * Watchlist Zustand Store for MovieStream MVP
- * Manages watchlist state with add/remove/toggle actions
+ * Manages watchlist state with add/remove/toggle and status actions
  * 
  * Requirements: 7.2
  * - Toggle watchlist status from Detail_Page
  * - Immediate UI updates
  * - Persistence to AsyncStorage
+ * - Sync to a remote server through an outbox, when one is configured
  */
 
 import { create } from 'zustand';
-import type { WatchlistItem, WatchlistSyncStatus } from '@/types/watchlist';
+import {
+  DEFAULT_WATCHLIST_STATUS,
+  type WatchlistItem,
+  type WatchlistStatus,
+  type WatchlistSyncStatus,
+} from '@/types/watchlist';
 import { logWatchlistAction } from '@/services/analytics';
 import {
   getWatchlist,
@@ -17,142 +23,445 @@ import {
   addToWatchlist as addToStorage,
   removeFromWatchlist as removeFromStorage,
   toggleWatchlist as toggleInStorage,
+  getSyncOutbox,
+  saveSyncOutbox,
+  getSyncTombstones,
+  saveSyncTombstones,
+  getSyncCursor,
+  saveSyncCursor,
 } from '@/services/storage';
+import { resolveMediaRef, resolveMediaRefs, tagMediaRef } from '@/services/api/id-mapping';
+import {
+  applyPushResults,
+  applyRemoteChanges,
+  createSyncKey,
+  createSyncScheduler,
+  diffWatchlists,
+  enqueueOperation,
+  getSyncKey,
+  getWatchlistKey,
+  isSyncEnabled,
+  pullWatchlistChanges,
+  pushWatchlistChanges,
+  toSyncedItem,
+  toWatchlistChange,
+  withSyncKey,
+  SyncNetworkError,
+  type SyncMergeResult,
+} from '@/services/sync';
+import type { SyncOperation, SyncTombstones, WatchlistChange } from '@/types/sync';
+import {
+  applyStatusChange,
+  getItemStatus,
+  getProgressStatus,
+} from '@/utils/watchlist-status';
 
 interface WatchlistStore {
   // State
   items: WatchlistItem[];
+  /** Whether the stored watchlist has been read (items may be partial until then) */
+  isLoaded: boolean;
   isLoading: boolean;
   isSyncing: boolean;
+  /** Changes not yet accepted by the sync server */
+  outbox: SyncOperation[];
+  /** When removed titles were removed, shared with the sync merge */
+  tombstones: SyncTombstones;
+  /** When the last sync finished (ISO) */
+  lastSyncedAt: string | null;
   error: string | null;
 
   // Actions
   loadWatchlist: () => Promise<void>;
+  reloadWatchlist: () => Promise<void>;
   addItem: (item: Omit<WatchlistItem, 'addedAt' | 'syncStatus'>) => Promise<void>;
   removeItem: (id: number, mediaType: 'movie' | 'tv') => Promise<void>;
   toggleItem: (item: Omit<WatchlistItem, 'addedAt' | 'syncStatus'>) => Promise<boolean>;
   isInWatchlist: (id: number, mediaType: 'movie' | 'tv') => boolean;
   updateSyncStatus: (id: number, mediaType: 'movie' | 'tv', status: WatchlistSyncStatus) => void;
+  setStatus: (id: number, mediaType: 'movie' | 'tv', status: WatchlistStatus) => Promise<void>;
+  getStatus: (id: number, mediaType: 'movie' | 'tv') => WatchlistStatus | null;
+  recordWatchActivity: (id: number, mediaType: 'movie' | 'tv', isComplete: boolean) => Promise<void>;
+  startSync: () => void;
+  stopSync: () => void;
+  syncNow: () => Promise<void>;
+  retrySync: (id: number, mediaType: 'movie' | 'tv') => Promise<void>;
   clearError: () => void;
 }
 
-export const useWatchlistStore = create<WatchlistStore>((set, get) => ({
-  // Initial state
-  items: [],
-  isLoading: false,
-  isSyncing: false,
-  error: null,
+/**
+ * Translate pulled titles into the active provider's ID space, keeping their keys
+ * Resolves one at a time to stay within provider rate limits
+ */
+async function resolveChanges(changes: WatchlistChange[]): Promise<WatchlistChange[]> {
+  const resolved: WatchlistChange[] = [];
+  for (const change of changes) {
+    resolved.push(change?.item ? { ...change, item: await resolveMediaRef(change.item) } : change);
+  }
+  return resolved;
+}
+
+export const useWatchlistStore = create<WatchlistStore>((set, get) => {
+  // Save the merged state after a sync step
+  const commitSync = async ({ items, outbox, tombstones, changed }: SyncMergeResult) => {
+    set(changed ? { items, outbox, tombstones } : { outbox, tombstones });
+    await saveSyncOutbox(outbox);
+    await saveSyncTombstones(tombstones);
+    if (changed) {
+      await saveWatchlist(items);
+    }
+  };
+
+  // Push the outbox, then pull changes made elsewhere. Network failures are
+  // rethrown so the scheduler retries them with backoff.
+  const runSync = async () => {
+    if (!isSyncEnabled()) return;
 
-  // Load watchlist from storage
-  loadWatchlist: async () => {
-    set({ isLoading: true, error: null });
+    set({ isSyncing: true });
     try {
-      const items = await getWatchlist();
-      set({ items, isLoading: false });
+      // The first sync uploads titles saved before sync was set up
+      const cursor = await getSyncCursor();
+      if (cursor === null) {
+        const { items, outbox } = get();
+        await enqueueChanges(
+          diffWatchlists([], items, new Date().toISOString())
+            .filter(operation => !outbox.some(op => op.key === operation.key))
+        );
+      }
+
+      const sent = get().outbox.filter(op => !op.error);
+      if (sent.length > 0) {
+        const results = await pushWatchlistChanges(sent.map(toWatchlistChange));
+        const pushed = applyPushResults(get(), sent, results);
+        await commitSync(pushed);
+        if (pushed.errors.length > 0) {
+          set({ error: pushed.errors[0] });
+        }
+      }
+
+      const pulled = await pullWatchlistChanges(cursor);
+      const changes = await resolveChanges(pulled.changes);
+      await commitSync(applyRemoteChanges(get(), changes));
+      await saveSyncCursor(pulled.cursor);
+      set({ lastSyncedAt: new Date().toISOString() });
     } catch (error) {
-      set({ 
-        isLoading: false, 
-        error: error instanceof Error ? error.message : 'Failed to load watchlist' 
-      });
+      if (error instanceof SyncNetworkError && error.isRetryable) throw error;
+      set({ error: error instanceof Error ? error.message : 'Failed to sync watchlist' });
+    } finally {
+      set({ isSyncing: false });
+    }
+  };
+
+  const scheduler = createSyncScheduler(runSync);
+
+  // Add changes to the outbox without sending them
+  const enqueueChanges = async (operations: Omit<SyncOperation, 'error'>[]) => {
+    if (operations.length === 0) return;
+
+    let outbox = get().outbox;
+    const tombstones = { ...get().tombstones };
+    for (const operation of operations) {
+      outbox = enqueueOperation(outbox, operation);
+      if (operation.type === 'remove') {
+        tombstones[operation.key] = operation.updatedAt;
+      } else {
+        delete tombstones[operation.key];
+      }
     }
-  },
-
-  // Add item to watchlist
-  addItem: async (item) => {
-    const newItem: WatchlistItem = {
-      ...item,
-      addedAt: new Date().toISOString(),
-      syncStatus: 'pending',
-    };
-
-    // Optimistic update
-    set((state) => ({
-      items: [...state.items.filter(
-        i => !(i.id === item.id && i.mediaType === item.mediaType)
-      ), newItem],
-    }));
 
+    set({ outbox, tombstones });
     try {
-      await addToStorage(newItem);
+      await saveSyncOutbox(outbox);
+      await saveSyncTombstones(tombstones);
+    } catch (error) {
+      console.warn('[Watchlist] Failed to save sync outbox:', error);
+    }
+  };
+
+  // Queue changes for the sync server and start sending them
+  const queueChanges = async (operations: Omit<SyncOperation, 'error'>[]) => {
+    if (operations.length === 0) return;
+    await enqueueChanges(operations);
+    scheduler.trigger();
+  };
+
+  const queueChange = (operation: Omit<SyncOperation, 'error'>) => queueChanges([operation]);
+
+  return {
+    // Initial state
+    items: [],
+    isLoaded: false,
+    isLoading: false,
+    isSyncing: false,
+    outbox: [],
+    tombstones: {},
+    lastSyncedAt: null,
+    error: null,
+
+    // Load watchlist from storage
+    loadWatchlist: async () => {
+      set({ isLoading: true, error: null });
+      try {
+        const [items, outbox, tombstones] = await Promise.all([
+          getWatchlist(),
+          getSyncOutbox(),
+          getSyncTombstones(),
+        ]);
+        set({ items, outbox, tombstones, isLoaded: true, isLoading: false });
+      } catch (error) {
+        set({ 
+          isLoading: false, 
+          error: error instanceof Error ? error.message : 'Failed to load watchlist' 
+        });
+        return;
+      }
+
+      // Items saved under another provider's IDs are translated in the background.
+      // Their sync keys are stored first, so the server still knows them after.
+      try {
+        const stored = get().items;
+        const loaded = stored.map(withSyncKey);
+        const keyed = loaded.some((item, index) => item !== stored[index]);
+        const { items, changed } = await resolveMediaRefs(loaded);
+        if (changed || keyed) {
+          await saveWatchlist(items);
+          set({ items });
+          // Duplicates dropped by the translation are removed on the server too
+          if (isSyncEnabled()) {
+            await queueChanges(diffWatchlists(loaded, items, new Date().toISOString()));
+          }
+        }
+      } catch (error) {
+        console.warn('[Watchlist] Failed to re-resolve item IDs:', error);
+      }
+    },
+
+    // Reload after the stored watchlist was replaced (e.g. by a backup restore)
+    // and send the differences to the sync server
+    reloadWatchlist: async () => {
+      const previousItems = get().items;
+      await get().loadWatchlist();
+      if (isSyncEnabled()) {
+        await queueChanges(diffWatchlists(previousItems, get().items, new Date().toISOString()));
+      }
+    },
+
+    // Add item to watchlist
+    addItem: async (item) => {
+      const addedAt = new Date().toISOString();
+      const tagged: WatchlistItem = tagMediaRef({
+        ...item,
+        addedAt,
+        updatedAt: addedAt,
+        syncStatus: 'pending' as WatchlistSyncStatus,
+        syncError: null,
+        status: DEFAULT_WATCHLIST_STATUS,
+        statusHistory: [{ status: DEFAULT_WATCHLIST_STATUS, changedAt: addedAt }],
+      });
+      const newItem: WatchlistItem = { ...tagged, syncKey: createSyncKey(tagged) };
+
+      // Optimistic update
+      set((state) => ({
+        items: [...state.items.filter(
+          i => !(i.id === item.id && i.mediaType === item.mediaType)
+        ), newItem],
+      }));
+
+      try {
+        await addToStorage(newItem);
       
-      // Log analytics event
-      logWatchlistAction(item.id, item.mediaType, 'add');
+        // Log analytics event
+        logWatchlistAction(item.id, item.mediaType, 'add');
+
+        // Stays pending until the sync server accepts it
+        if (isSyncEnabled()) {
+          await queueChange({
+            type: 'add',
+            key: getSyncKey(newItem),
+            item: toSyncedItem(newItem),
+            updatedAt: addedAt,
+          });
+          return;
+        }
       
-      // Update sync status to synced after successful persistence
+        // Update sync status to synced after successful persistence
+        set((state) => ({
+          items: state.items.map(i =>
+            i.id === item.id && i.mediaType === item.mediaType
+              ? { ...i, syncStatus: 'synced' as WatchlistSyncStatus }
+              : i
+          ),
+        }));
+      } catch (error) {
+        // Update sync status to error on failure
+        set((state) => ({
+          items: state.items.map(i =>
+            i.id === item.id && i.mediaType === item.mediaType
+              ? { ...i, syncStatus: 'error' as WatchlistSyncStatus }
+              : i
+          ),
+          error: error instanceof Error ? error.message : 'Failed to add to watchlist',
+        }));
+      }
+    },
+
+    // Remove item from watchlist
+    removeItem: async (id, mediaType) => {
+      const { items: previousItems, tombstones: previousTombstones } = get();
+      const removed = previousItems.find(i => i.id === id && i.mediaType === mediaType);
+      const key = removed ? getSyncKey(removed) : getWatchlistKey(id, mediaType);
+      const removedAt = new Date().toISOString();
+      const syncEnabled = isSyncEnabled();
+
+      // Optimistic update. The tombstone keeps a sync already in flight from
+      // pulling the title back before the removal is queued.
       set((state) => ({
-        items: state.items.map(i =>
-          i.id === item.id && i.mediaType === item.mediaType
-            ? { ...i, syncStatus: 'synced' as WatchlistSyncStatus }
-            : i
-        ),
+        items: state.items.filter(i => !(i.id === id && i.mediaType === mediaType)),
+        ...(syncEnabled ? { tombstones: { ...state.tombstones, [key]: removedAt } } : {}),
       }));
-    } catch (error) {
-      // Update sync status to error on failure
+
+      try {
+        await removeFromStorage(id, mediaType);
+      
+        // Log analytics event
+        logWatchlistAction(id, mediaType, 'remove');
+
+        // The removal is sent as a tombstone so other devices drop the title too
+        if (syncEnabled) {
+          await queueChange({ type: 'remove', key, item: null, updatedAt: removedAt });
+        }
+      } catch (error) {
+        // Rollback on failure
+        set({ 
+          items: previousItems,
+          tombstones: previousTombstones,
+          error: error instanceof Error ? error.message : 'Failed to remove from watchlist',
+        });
+      }
+    },
+
+    // Toggle item in watchlist (add if not present, remove if present)
+    toggleItem: async (item) => {
+      const isCurrentlyInWatchlist = get().isInWatchlist(item.id, item.mediaType);
+
+      if (isCurrentlyInWatchlist) {
+        await get().removeItem(item.id, item.mediaType);
+        return false; // Item was removed
+      } else {
+        await get().addItem(item);
+        return true; // Item was added
+      }
+    },
+
+    // Check if item is in watchlist
+    isInWatchlist: (id, mediaType) => {
+      return get().items.some(item => item.id === id && item.mediaType === mediaType);
+    },
+
+    // Update sync status for an item
+    updateSyncStatus: (id, mediaType, status) => {
       set((state) => ({
-        items: state.items.map(i =>
-          i.id === item.id && i.mediaType === item.mediaType
-            ? { ...i, syncStatus: 'error' as WatchlistSyncStatus }
-            : i
+        items: state.items.map(item =>
+          item.id === id && item.mediaType === mediaType
+            ? { ...item, syncStatus: status }
+            : item
         ),
-        error: error instanceof Error ? error.message : 'Failed to add to watchlist',
       }));
-    }
-  },
+    },
 
-  // Remove item from watchlist
-  removeItem: async (id, mediaType) => {
-    const previousItems = get().items;
+    // Change an item's viewing status
+    setStatus: async (id, mediaType, status) => {
+      const previousItems = get().items;
+      const changedAt = new Date().toISOString();
+      const syncEnabled = isSyncEnabled();
+      const items = previousItems.map(item => {
+        if (item.id !== id || item.mediaType !== mediaType) return item;
+        const changed = applyStatusChange(item, status, changedAt);
+        if (changed === item) return item;
+        return {
+          ...changed,
+          updatedAt: changedAt,
+          ...(syncEnabled ? { syncStatus: 'pending' as WatchlistSyncStatus, syncError: null } : {}),
+        };
+      });
+      if (items.every((item, index) => item === previousItems[index])) return;
 
-    // Optimistic update
-    set((state) => ({
-      items: state.items.filter(i => !(i.id === id && i.mediaType === mediaType)),
-    }));
+      // Optimistic update
+      set({ items });
 
-    try {
-      await removeFromStorage(id, mediaType);
-      
-      // Log analytics event
-      logWatchlistAction(id, mediaType, 'remove');
-    } catch (error) {
-      // Rollback on failure
-      set({ 
-        items: previousItems,
-        error: error instanceof Error ? error.message : 'Failed to remove from watchlist',
-      });
-    }
-  },
-
-  // Toggle item in watchlist (add if not present, remove if present)
-  toggleItem: async (item) => {
-    const isCurrentlyInWatchlist = get().isInWatchlist(item.id, item.mediaType);
-
-    if (isCurrentlyInWatchlist) {
-      await get().removeItem(item.id, item.mediaType);
-      return false; // Item was removed
-    } else {
-      await get().addItem(item);
-      return true; // Item was added
-    }
-  },
-
-  // Check if item is in watchlist
-  isInWatchlist: (id, mediaType) => {
-    return get().items.some(item => item.id === id && item.mediaType === mediaType);
-  },
-
-  // Update sync status for an item
-  updateSyncStatus: (id, mediaType, status) => {
-    set((state) => ({
-      items: state.items.map(item =>
-        item.id === id && item.mediaType === mediaType
-          ? { ...item, syncStatus: status }
-          : item
-      ),
-    }));
-  },
-
-  // Clear error state
-  clearError: () => {
-    set({ error: null });
-  },
-}));
+      try {
+        await saveWatchlist(items);
+      } catch (error) {
+        // Rollback on failure
+        set({
+          items: previousItems,
+          error: error instanceof Error ? error.message : 'Failed to update status',
+        });
+        return;
+      }
+
+      const updated = items.find(item => item.id === id && item.mediaType === mediaType);
+      if (syncEnabled && updated) {
+        await queueChange({
+          type: 'add',
+          key: getSyncKey(updated),
+          item: toSyncedItem(updated),
+          updatedAt: changedAt,
+        });
+      }
+    },
+
+    // Get an item's viewing status (null when not in watchlist)
+    getStatus: (id, mediaType) => {
+      const item = get().items.find(i => i.id === id && i.mediaType === mediaType);
+      return item ? getItemStatus(item) : null;
+    },
+
+    // Move an item to watching/completed after progress is recorded
+    recordWatchActivity: async (id, mediaType, isComplete) => {
+      const current = get().getStatus(id, mediaType);
+      if (!current) return;
+
+      const next = getProgressStatus(isComplete);
+      if (next !== current) {
+        await get().setStatus(id, mediaType, next);
+      }
+    },
+
+    // Listen for connectivity and sync whenever the device is online
+    startSync: () => {
+      if (!isSyncEnabled()) return;
+      scheduler.start();
+    },
+
+    // Stop syncing and cancel pending retries
+    stopSync: () => {
+      scheduler.stop();
+    },
+
+    // Sync now (or right after the sync in progress)
+    syncNow: () => scheduler.trigger(),
+
+    // Send a change the server rejected again
+    retrySync: async (id, mediaType) => {
+      const retried = get().items.find(item => item.id === id && item.mediaType === mediaType);
+      const key = retried ? getSyncKey(retried) : getWatchlistKey(id, mediaType);
+      const outbox = get().outbox.map(op => (op.key === key ? { ...op, error: null } : op));
+      set((state) => ({
+        outbox,
+        items: state.items.map(item =>
+          item.id === id && item.mediaType === mediaType
+            ? { ...item, syncStatus: 'pending' as WatchlistSyncStatus, syncError: null }
+            : item
+        ),
+      }));
+      await saveSyncOutbox(outbox);
+      await scheduler.trigger();
+    },
+
+    // Clear error state
+    clearError: () => {
+      set({ error: null });
+    },
+  };
+});
@@ -0,0 +1,45 @@
+/**
+ * Watch diary type definitions for MovieStream MVP
+ * Dated "watched it" entries, separate from browsing history
+ */
+
+import type { MediaRef } from './media';
+import type { EpisodeRef } from './progress';
+
+/** Month a diary entry is stored under (YYYY-MM) */
+export type DiaryMonth = string;
+
+/** A single watch of a movie, series or episode */
+export interface DiaryEntry extends MediaRef {
+  /** Unique entry ID (a title can be logged many times) */
+  entryId: string;
+  title: string;
+  posterPath: string | null;
+  /** Episode watched, for episode-level series entries */
+  episode?: EpisodeRef | null;
+  /** Day watched (YYYY-MM-DD) */
+  watchedOn: string;
+  /** Whether this was a rewatch */
+  isRewatch: boolean;
+  /** Optional private note about this viewing */
+  note: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Title fields needed to log a watch */
+export type DiaryTitle = Pick<
+  DiaryEntry,
+  'id' | 'mediaType' | 'idSpace' | 'imdbId' | 'title' | 'posterPath'
+>;
+
+/** Editable fields of a diary entry */
+export type DiaryEntryInput = Pick<DiaryEntry, 'watchedOn' | 'isRewatch' | 'note'> & {
+  episode?: EpisodeRef | null;
+};
+
+/** Diary entries watched on the same day */
+export interface DiaryDay {
+  date: string;
+  entries: DiaryEntry[];
+}
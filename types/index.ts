@@ -5,6 +5,13 @@
 
 export * from './media';
 export * from './watchlist';
+export * from './picker';
+export * from './sync';
+export * from './lists';
+export * from './progress';
+export * from './ratings';
+export * from './diary';
+export * from './transfer';
 export * from './downloads';
 export * from './analytics';
 export * from './user';
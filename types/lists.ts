@@ -0,0 +1,22 @@
+/**
+ * Custom list type definitions for MovieStream MVP
+ * Named user lists such as "Date night" alongside the watchlist
+ */
+
+import type { WatchlistItem } from './watchlist';
+
+/** ID of the built-in list that holds the watchlist */
+export const DEFAULT_LIST_ID = 'watchlist';
+
+/** A named list of titles; the watchlist is the default list */
+export interface CustomList {
+  id: string;
+  name: string;
+  /** Titles in the order they were added */
+  items: WatchlistItem[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Title fields needed to add it to a list */
+export type ListItemInput = Omit<WatchlistItem, 'addedAt' | 'syncStatus'>;
@@ -22,6 +22,29 @@ export interface Language {
   englishName: string;
 }
 
+/**
+ * Numbering scheme a provider uses for media IDs
+ * TMDB, Cloudflare and mock data share TMDB IDs; OMDb IDs are hashed from IMDb IDs
+ */
+export type MediaIdSpace = 'tmdb' | 'omdb';
+
+/** IDs of the same title across providers */
+export interface ExternalIds {
+  imdbId: string | null;
+  tmdbId: number | null;
+  /** Numeric ID used by the OMDb adapter */
+  omdbId: number | null;
+}
+
+/** A stored reference to a title that can be re-resolved after a provider switch */
+export interface MediaRef {
+  id: number;
+  mediaType: 'movie' | 'tv';
+  /** ID space `id` belongs to (missing on items saved before provider tracking) */
+  idSpace?: MediaIdSpace;
+  imdbId?: string | null;
+}
+
 /** Base media item displayed in cards and lists */
 export interface MediaItem {
   id: number;
@@ -38,6 +61,16 @@ export interface MediaItem {
   ageRating?: string | null;
 }
 
+/** Release date and age certification of a title in one country */
+export interface RegionalRelease {
+  /** ISO 3166-1 country code */
+  countryCode: string;
+  /** First release there (YYYY-MM-DD), or null when only the certification is known */
+  releaseDate: string | null;
+  /** Certification there (e.g. "PG-13", "12A", "16"), or null when unrated */
+  certification: string | null;
+}
+
 /** Trending item with rank position */
 export interface TrendingItem extends MediaItem {
   rank: number;
@@ -55,6 +88,9 @@ export interface MediaDetails extends MediaItem {
   revenue?: number;
   numberOfSeasons?: number;
   numberOfEpisodes?: number;
+  imdbId?: string | null;
+  /** Release dates and certifications per country, when the provider has them */
+  releases?: RegionalRelease[];
 }
 
 /** Cast member information */
@@ -66,6 +102,85 @@ export interface CastMember {
   order: number;
 }
 
+/** Director or writer listed alongside the cast */
+export interface ExtendedCastMember extends CastMember {
+  job: string;
+  department: string;
+}
+
+/** Crew member credited on an episode */
+export interface CrewMember {
+  id: number;
+  name: string;
+  job: string;
+  department: string;
+  profilePath: string | null;
+}
+
+/** Guest star appearing in an episode */
+export interface GuestStar {
+  id: number;
+  name: string;
+  character: string;
+  profilePath: string | null;
+}
+
+/** Episode as listed in a season */
+export interface EpisodeSummary {
+  id: number;
+  episodeNumber: number;
+  seasonNumber: number;
+  name: string;
+  overview: string;
+  stillPath: string | null;
+  airDate: string;
+  runtime: number | null;
+  voteAverage: number;
+  voteCount: number;
+}
+
+/** Full episode details for the episode page */
+export interface EpisodeDetails extends EpisodeSummary {
+  crew: CrewMember[];
+  guestStars: GuestStar[];
+}
+
+/** Season details with its episode list */
+export interface SeasonDetails {
+  id: number;
+  seasonNumber: number;
+  name: string;
+  overview: string;
+  posterPath: string | null;
+  airDate: string;
+  episodes: EpisodeSummary[];
+}
+
+/** Person (actor, director, writer) shown on the person page */
+export interface PersonDetails {
+  id: number;
+  name: string;
+  biography: string;
+  profilePath: string | null;
+  /** Department the person is best known for, e.g. Acting or Directing */
+  knownForDepartment: string;
+  birthday: string | null;
+  deathday: string | null;
+  placeOfBirth: string | null;
+  imdbId: string | null;
+}
+
+/** A title in a person's filmography */
+export interface PersonCredit extends MediaItem {
+  /** Unique per credit; a person can hold several jobs on one title */
+  creditId: string;
+  /** Character played (cast credits) */
+  character: string | null;
+  /** Job held (crew credits), e.g. Director */
+  job: string | null;
+  department: string;
+}
+
 /** Streaming provider information */
 export interface StreamingProvider {
   providerId: number;
@@ -76,6 +191,29 @@ export interface StreamingProvider {
   isAvailable: boolean;
 }
 
+/** Subscription services a title streams on, as last checked */
+export interface StreamingAvailability {
+  /** Provider IDs of the subscription services streaming it */
+  providerIds: number[];
+  /** Region checked */
+  countryCode: string;
+  /** When it was checked (ISO) */
+  checkedAt: string;
+}
+
+/** Certification looked up for a title whose list entry had none */
+export interface TitleCertification {
+  /** Provider's own rating */
+  ageRating: string | null;
+  /** Certifications per country */
+  releases: RegionalRelease[];
+  /** When it was looked up (ISO) */
+  checkedAt: string;
+}
+
+/** Looked-up certifications per watchlist key (`movie:123`) */
+export type CertificationCache = Record<string, TitleCertification>;
+
 // Re-export country types and constants from centralized location
 export type { CountryConfig } from '@/constants/countries';
 export { SUPPORTED_COUNTRIES } from '@/constants/countries';
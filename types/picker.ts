@@ -0,0 +1,53 @@
+/**
+ * "What should I watch tonight?" picker type definitions for MovieStream MVP
+ * Constraints, candidates and the history of past suggestions
+ */
+
+import type { MediaRef } from './media';
+import type { WatchlistItemMetadata, WatchlistStatus } from './watchlist';
+
+/** Where a candidate came from */
+export type PickerSource = 'watchlist' | 'recommendation';
+
+/** What the user wants to watch tonight */
+export interface PickerConstraints {
+  /** Minutes available (an episode for series), or null for no limit */
+  minutesAvailable: number | null;
+  /** Mood chosen, which stands for a set of genres */
+  moodId: string | null;
+  mediaType: 'movie' | 'tv' | 'all';
+  /** Only titles streaming on one of `serviceIds` (any service when empty) */
+  onMyServices: boolean;
+  /** The user's services, filled in from preferences */
+  serviceIds: number[];
+}
+
+/** Picker constraints with nothing selected */
+export const DEFAULT_PICKER_CONSTRAINTS: PickerConstraints = {
+  minutesAvailable: null,
+  moodId: null,
+  mediaType: 'all',
+  onMyServices: false,
+  serviceIds: [],
+};
+
+/** A title the picker can suggest */
+export interface PickerCandidate extends MediaRef {
+  /** Watchlist key (`movie:123`) */
+  key: string;
+  title: string;
+  posterPath: string | null;
+  source: PickerSource;
+  /** Watchlist status (watchlist candidates only) */
+  status: WatchlistStatus | null;
+  /** Fetched details, null until fetched */
+  metadata: WatchlistItemMetadata | null;
+}
+
+/** A past suggestion, so it isn't suggested again too soon */
+export interface PickHistoryEntry {
+  key: string;
+  title: string;
+  /** When it was suggested (ISO) */
+  pickedAt: string;
+}
@@ -0,0 +1,62 @@
+/**
+ * Watch progress type definitions for MovieStream MVP
+ * Tracks which episodes of a TV series have been watched
+ */
+
+import type { EpisodeSummary, MediaRef } from './media';
+
+/** Position of an episode within a series */
+export interface EpisodeRef {
+  seasonNumber: number;
+  episodeNumber: number;
+}
+
+/** Episode marked as watched */
+export interface WatchedEpisode extends EpisodeRef {
+  watchedAt: string;
+}
+
+/** Watch progress for a single series, stored locally */
+export interface SeriesProgress extends MediaRef {
+  mediaType: 'tv';
+  title: string;
+  posterPath: string | null;
+  watchedEpisodes: WatchedEpisode[];
+  /** Episode count per season number, learned as seasons are opened */
+  seasonEpisodeCounts: Record<string, number>;
+  /** Totals reported by the series details (null when unknown) */
+  totalEpisodes: number | null;
+  totalSeasons: number | null;
+  updatedAt: string;
+}
+
+/** Series fields needed to start tracking progress */
+export type SeriesProgressInfo = Pick<
+  SeriesProgress,
+  'id' | 'title' | 'posterPath' | 'totalEpisodes' | 'totalSeasons'
+> & { imdbId?: string | null };
+
+/** Watched and total episode counts for a progress bar */
+export interface ProgressSummary {
+  watched: number;
+  /** Null when the episode count is not known yet */
+  total: number | null;
+  /** Watched share between 0 and 1 (0 when the total is unknown) */
+  fraction: number;
+}
+
+/** Next episode of a followed series, shown on the home screen */
+export interface UpNextEntry {
+  seriesId: number;
+  seriesTitle: string;
+  posterPath: string | null;
+  episode: EpisodeSummary;
+  /** Aired episodes are ready to watch; upcoming ones air within the coming week */
+  status: 'aired' | 'upcoming';
+}
+
+/** Home screen "Up Next" data */
+export interface UpNextFeed {
+  upNext: UpNextEntry[];
+  comingThisWeek: UpNextEntry[];
+}
@@ -0,0 +1,33 @@
+/**
+ * Personal rating type definitions for MovieStream MVP
+ * The user's own rating and private note for a title
+ */
+
+import type { MediaRef } from './media';
+
+/** Highest personal rating; each point is half a star on a five-star scale */
+export const MAX_USER_RATING = 10;
+
+/** Personal rating and note for a title, stored locally */
+export interface UserRating extends MediaRef {
+  title: string;
+  posterPath: string | null;
+  /** 0-10 in half-star steps, or null when only a note is saved */
+  rating: number | null;
+  /** Private free-text note (empty when none) */
+  note: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Title fields needed to rate it */
+export type RatedTitle = Pick<
+  UserRating,
+  'id' | 'mediaType' | 'idSpace' | 'imdbId' | 'title' | 'posterPath'
+>;
+
+/** Rating and note edited together on the detail page */
+export interface UserRatingInput {
+  rating: number | null;
+  note: string;
+}
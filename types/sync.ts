@@ -0,0 +1,56 @@
+/**
+ * Sync type definitions for MovieStream MVP
+ * Defines the outbox and the changes exchanged with the watchlist sync server
+ */
+
+import type { WatchlistItem } from './watchlist';
+
+/** Watchlist item fields shared with the server (sync bookkeeping stays local) */
+export type SyncedWatchlistItem = Omit<WatchlistItem, 'syncStatus' | 'syncError'>;
+
+/**
+ * The latest write to one watchlist title
+ * A deletion keeps its timestamp as a tombstone, so an older add can't bring
+ * the title back.
+ */
+export interface WatchlistChange {
+  /** Title key (`movie:603`) */
+  key: string;
+  /** Item as written, or null when the title was removed */
+  item: SyncedWatchlistItem | null;
+  /** When the change was made (ISO); the newest change wins */
+  updatedAt: string;
+}
+
+/** When each removed title was removed (ISO), keyed like changes */
+export type SyncTombstones = Record<string, string>;
+
+/** What a queued change does */
+export type SyncOperationType = 'add' | 'remove';
+
+/** A local change waiting to be sent */
+export interface SyncOperation extends WatchlistChange {
+  type: SyncOperationType;
+  /** Why the server rejected the change (not retried until the user asks) */
+  error: string | null;
+}
+
+/** How the server handled a pushed change */
+export type SyncPushStatus = 'applied' | 'stale' | 'rejected';
+
+/** Server reply for one pushed change */
+export interface SyncPushResult {
+  key: string;
+  status: SyncPushStatus;
+  /** Server's newer copy when the change was stale */
+  current: WatchlistChange | null;
+  /** Reason the change was rejected */
+  error: string | null;
+}
+
+/** Changes made on other devices since the last pull */
+export interface SyncPullResponse {
+  changes: WatchlistChange[];
+  /** Opaque position to pull from next time */
+  cursor: string;
+}
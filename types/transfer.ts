@@ -0,0 +1,91 @@
+/**
+ * Import/export type definitions for MovieStream MVP
+ * Moving watchlists, ratings and watch history to and from other trackers
+ */
+
+import type { MediaItem } from './media';
+import type { EpisodeRef } from './progress';
+import type { CustomList } from './lists';
+import type { UserRating } from './ratings';
+import type { DiaryEntry } from './diary';
+import type { SeriesProgress } from './progress';
+import type { RecentlyViewedItem, UserPreferences } from './user';
+
+/** Other trackers' file formats */
+export type ExternalFormat = 'letterboxd' | 'imdb' | 'trakt';
+
+/** Every import/export format, including the app's own backup */
+export type TransferFormat = ExternalFormat | 'backup';
+
+/** A logged watch read from an import file */
+export interface ImportWatch {
+  /** Day watched (YYYY-MM-DD) */
+  watchedOn: string;
+  isRewatch: boolean;
+  episode: EpisodeRef | null;
+  /** Review or note for this viewing */
+  note: string;
+}
+
+/** A title read from an import file, before it is matched to the active provider */
+export interface ImportRecord {
+  title: string;
+  year: number | null;
+  /** Null when the file doesn't say (the title is searched as either) */
+  mediaType: 'movie' | 'tv' | null;
+  imdbId: string | null;
+  tmdbId: number | null;
+  /** Whether the title was on the source watchlist */
+  watchlist: boolean;
+  /** Rating on our 0-10 scale */
+  rating: number | null;
+  /** Review or note for the title as a whole */
+  review: string;
+  watches: ImportWatch[];
+}
+
+/** How well an import record matched the active provider's catalog */
+export type ImportMatchStatus = 'matched' | 'ambiguous' | 'unmatched';
+
+/** An import record with its search results */
+export interface ImportMatch {
+  /** Stable key for the record (used by the review step) */
+  key: string;
+  record: ImportRecord;
+  status: ImportMatchStatus;
+  /** Search results considered for the record */
+  candidates: MediaItem[];
+  /** Title the record will be imported as (null to skip it) */
+  selected: MediaItem | null;
+}
+
+/** Counts reported once an import has been applied */
+export interface ImportSummary {
+  watchlisted: number;
+  rated: number;
+  logged: number;
+  skipped: number;
+}
+
+/** How a backup is combined with the data already on the device */
+export type RestoreMode = 'replace' | 'merge';
+
+/** Full-fidelity backup of the app's personal data */
+export interface AppBackup {
+  app: 'moviestream';
+  /** Backup file format version */
+  version: number;
+  /** Storage schema version the data was saved at (0 for backups made before versioning) */
+  schemaVersion: number;
+  exportedAt: string;
+  lists: CustomList[];
+  ratings: UserRating[];
+  diary: DiaryEntry[];
+  progress: SeriesProgress[];
+  preferences: UserPreferences | null;
+  recentlyViewed: RecentlyViewedItem[];
+  /** Chosen locale, or null to follow the device */
+  locale: string | null;
+  /** HMAC-SHA-256 of the other fields (missing on version 1 backups) */
+  checksum?: string;
+}
@@ -3,11 +3,14 @@
  * Defines user preferences, search filters, and settings
  */
 
-import type { MediaItem } from './media';
+import type { MediaItem, MediaRef } from './media';
 
 /** Theme mode options */
 export type ThemeMode = 'light' | 'dark' | 'system';
 
+/** What happens to titles rated above the certification ceiling */
+export type CertificationCeilingMode = 'hide' | 'blur';
+
 /** User preferences stored locally */
 export interface UserPreferences {
   themeMode: ThemeMode;
@@ -20,6 +23,14 @@ export interface UserPreferences {
   };
   gdprConsentGiven: boolean;
   gdprConsentDate: string | null;
+  /** TMDB provider IDs of the streaming services the user subscribes to */
+  streamingServices: number[];
+  /** Language for titles, overviews and posters; null follows the app language */
+  contentLanguage: string | null;
+  /** Highest certification shown, as a viewer age (12 allows "12A" and "PG"); null shows everything */
+  certificationCeiling: number | null;
+  /** Whether titles above the ceiling are hidden from lists or shown blurred */
+  certificationCeilingMode: CertificationCeilingMode;
 }
 
 /** Default user preferences */
@@ -34,6 +45,10 @@ export const DEFAULT_USER_PREFERENCES: UserPreferences = {
   },
   gdprConsentGiven: true,
   gdprConsentDate: new Date().toISOString(),
+  streamingServices: [],
+  contentLanguage: null,
+  certificationCeiling: null,
+  certificationCeilingMode: 'blur',
 };
 
 /** Search filters for content discovery */
@@ -61,9 +76,7 @@ export interface CountryHubFilters {
 }
 
 /** Recently viewed item */
-export interface RecentlyViewedItem {
-  id: number;
-  mediaType: 'movie' | 'tv';
+export interface RecentlyViewedItem extends MediaRef {
   title: string;
   posterPath: string | null;
   viewedAt: string;
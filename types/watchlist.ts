@@ -1,21 +1,100 @@
 /**
  * Watchlist type definitions for MovieStream MVP
- * Defines watchlist item structure and sync status
+ * Defines watchlist item structure, viewing status and sync status
  */
 
+import type { Genre, MediaRef, StreamingProvider } from './media';
+
 /** Sync status for watchlist items */
 export type WatchlistSyncStatus = 'synced' | 'pending' | 'error';
 
+/** Where the user is with a title */
+export type WatchlistStatus = 'plan_to_watch' | 'watching' | 'completed' | 'dropped';
+
+/** Status given to newly added items and to items saved before statuses existed */
+export const DEFAULT_WATCHLIST_STATUS: WatchlistStatus = 'plan_to_watch';
+
+/** Watchlist grid sort orders */
+export type WatchlistSortOrder =
+  | 'date_added'
+  | 'title'
+  | 'rating'
+  | 'runtime'
+  | 'release_date'
+  | 'vote_average';
+
+/** A recorded status transition */
+export interface WatchlistStatusChange {
+  status: WatchlistStatus;
+  changedAt: string;
+}
+
 /** Watchlist item stored locally and synced to server */
-export interface WatchlistItem {
-  id: number;
-  mediaType: 'movie' | 'tv';
+export interface WatchlistItem extends MediaRef {
   title: string;
   posterPath: string | null;
   addedAt: string;
   syncStatus: WatchlistSyncStatus;
+  /** Current status (missing on items saved before statuses existed) */
+  status?: WatchlistStatus;
+  /** Every status transition, oldest first */
+  statusHistory?: WatchlistStatusChange[];
+  /** Last local change, used to settle sync conflicts (addedAt when missing) */
+  updatedAt?: string;
+  /** Why the sync server rejected the last change */
+  syncError?: string | null;
+  /** Key the sync server knows the title by, kept when its ID is re-resolved */
+  syncKey?: string;
+}
+
+/** Title details fetched for a watchlist item, used by the smart filters and sorts */
+export interface WatchlistItemMetadata {
+  /** Runtime in minutes (episode runtime for series) */
+  runtime: number | null;
+  /** Release or first air date (YYYY-MM-DD), null when unannounced */
+  releaseDate: string | null;
+  genres: Genre[];
+  voteAverage: number | null;
+  /** Subscription services streaming the title in `countryCode` */
+  streamingProviders: Pick<StreamingProvider, 'providerId' | 'providerName'>[];
+  countryCode: string;
+  /** When the details were fetched (ISO) */
+  fetchedAt: string;
+}
+
+/** Metadata per watchlist key (`movie:123`) */
+export type WatchlistMetadataCache = Record<string, WatchlistItemMetadata>;
+
+/** A rating range, min inclusive and max exclusive */
+export interface WatchlistRatingRange {
+  min: number | null;
+  max: number | null;
 }
 
+/** Filters that need title metadata; items without metadata never match an active one */
+export interface WatchlistSmartFilters {
+  /** Longest runtime in minutes, or null for any length */
+  maxRuntime: number | null;
+  releasedOnly: boolean;
+  /** Only titles streaming on one of `serviceIds` (any service when empty) */
+  onMyServices: boolean;
+  /** The user's services, filled in from preferences */
+  serviceIds: number[];
+  /** Titles in any of these genres (all genres when empty) */
+  genreIds: number[];
+  voteAverage: WatchlistRatingRange;
+}
+
+/** Smart filters with nothing selected */
+export const DEFAULT_WATCHLIST_SMART_FILTERS: WatchlistSmartFilters = {
+  maxRuntime: null,
+  releasedOnly: false,
+  onMyServices: false,
+  serviceIds: [],
+  genreIds: [],
+  voteAverage: { min: null, max: null },
+};
+
 /** Watchlist state for the store */
 export interface WatchlistState {
   items: WatchlistItem[];
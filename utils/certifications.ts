@@ -0,0 +1,132 @@
+/**
+ * Certification helpers
+ * Pure functions for regional release dates, age certifications and the
+ * certification ceiling preference
+ *
+ * - Certifications are compared as viewer ages, so "PG-13", "12A" and
+ *   "FSK 16" can be held against one ceiling
+ * - A title's certification is the one for the user's region, then the US
+ *   one most titles have, then the provider's own `ageRating`
+ * - Titles with no known certification are never above the ceiling
+ */
+
+import type { MediaItem, RegionalRelease } from '@/types/media';
+
+/** Country whose release stands in when the user's region has none */
+export const FALLBACK_RELEASE_COUNTRY = 'US';
+
+/** Ages of certifications that don't carry a number, per country */
+const CERTIFICATION_AGES: Record<string, Record<string, number>> = {
+  US: {
+    G: 0, PG: 8, R: 17, 'NC-17': 18, Approved: 0, Passed: 0,
+    'TV-Y': 0, 'TV-G': 0, 'TV-PG': 8, 'TV-MA': 17,
+  },
+  GB: { U: 0, PG: 8 },
+  CA: { G: 0, PG: 8, R: 18, A: 18 },
+  AU: { E: 0, G: 0, PG: 8, M: 15 },
+  IN: { U: 0, UA: 12, A: 18, S: 18 },
+  JP: { G: 0 },
+  FR: { U: 0, TP: 0 },
+  ES: { A: 0, APTA: 0, Ai: 0, X: 18 },
+  KR: { ALL: 0 },
+  BR: { L: 0, AL: 0 },
+};
+
+/** Values providers use for "no certification" */
+const UNRATED = ['', 'NR', 'N/A', 'Not Rated', 'Unrated'];
+
+/** What a certification ceiling applies to: list items carry `ageRating`, details `releases` too */
+export type CertifiedTitle = Pick<MediaItem, 'ageRating'> & { releases?: RegionalRelease[] };
+
+/**
+ * Clean up a certification, returning null for "not rated" values
+ */
+export function normalizeCertification(certification: string | null | undefined): string | null {
+  const trimmed = certification?.trim() ?? '';
+  return UNRATED.includes(trimmed) ? null : trimmed;
+}
+
+/**
+ * Get the youngest viewer age a certification allows
+ * Certifications with a number ("PG-13", "FSK 16", "R15+") use it; the rest
+ * come from the country's table, then the US one
+ * @param certification - Certification, e.g. "PG-13"
+ * @param countryCode - Country that issued it
+ * @returns Age, or null for unknown and "not rated" certifications
+ */
+export function getCertificationAge(certification: string | null | undefined, countryCode: string): number | null {
+  const normalized = normalizeCertification(certification);
+  if (!normalized) return null;
+
+  const listed = CERTIFICATION_AGES[countryCode]?.[normalized];
+  if (listed !== undefined) return listed;
+
+  const number = /\d{1,2}/.exec(normalized);
+  if (number) return Number(number[0]);
+
+  return CERTIFICATION_AGES[FALLBACK_RELEASE_COUNTRY][normalized] ?? null;
+}
+
+/**
+ * Get a title's release in a country, or the US release when it has none there
+ * @param releases - Releases per country
+ * @param countryCode - User's region
+ */
+export function getRegionalRelease(
+  releases: RegionalRelease[] | undefined,
+  countryCode: string
+): RegionalRelease | null {
+  if (!releases) return null;
+  return releases.find(release => release.countryCode === countryCode)
+    ?? releases.find(release => release.countryCode === FALLBACK_RELEASE_COUNTRY)
+    ?? null;
+}
+
+/**
+ * Get the certification that applies to a title in the user's region
+ * @param title - Title with its certifications
+ * @param countryCode - User's region
+ * @returns Certification and the country that issued it (null when it's the provider's own)
+ */
+export function getRegionalCertification(
+  title: CertifiedTitle,
+  countryCode: string
+): { certification: string; countryCode: string | null } | null {
+  const certified = (title.releases ?? []).filter(release => normalizeCertification(release.certification));
+  const release = getRegionalRelease(certified, countryCode);
+  if (release?.certification) {
+    return { certification: release.certification, countryCode: release.countryCode };
+  }
+
+  const ageRating = normalizeCertification(title.ageRating);
+  return ageRating ? { certification: ageRating, countryCode: null } : null;
+}
+
+/**
+ * Check whether a title is rated above the certification ceiling
+ * @param title - Title with its certifications
+ * @param ceiling - Highest viewer age allowed, or null for no ceiling
+ * @param countryCode - User's region
+ */
+export function isAboveCeiling(title: CertifiedTitle, ceiling: number | null, countryCode: string): boolean {
+  if (ceiling === null) return false;
+  const regional = getRegionalCertification(title, countryCode);
+  if (!regional) return false;
+  const age = getCertificationAge(regional.certification, regional.countryCode ?? countryCode);
+  return age !== null && age > ceiling;
+}
+
+/**
+ * Leave out titles above the certification ceiling
+ * @param items - Titles shown
+ * @param ceiling - Highest viewer age allowed, or null for no ceiling
+ * @param countryCode - User's region
+ */
+export function filterByCeiling<T extends CertifiedTitle>(
+  items: T[],
+  ceiling: number | null,
+  countryCode: string
+): T[] {
+  if (ceiling === null) return items;
+  return items.filter(item => !isAboveCeiling(item, ceiling, countryCode));
+}
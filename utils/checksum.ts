@@ -0,0 +1,156 @@
+/**
+ * Checksum helpers
+ * SHA-256, HMAC-SHA-256 and canonical JSON for signing backup files
+ *
+ * Implemented in plain TypeScript so it runs the same on every platform
+ * without a native crypto module.
+ */
+
+/** SHA-256 round constants */
+const K = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const BLOCK_SIZE = 64;
+
+/**
+ * Encode text as UTF-8 bytes
+ * @param text - Text to encode
+ * @returns UTF-8 bytes
+ */
+export function utf8Encode(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    let code = char.codePointAt(0)!;
+    // Lone surrogates are encoded as U+FFFD, as TextEncoder does
+    if (code >= 0xd800 && code <= 0xdfff) code = 0xfffd;
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return bytes;
+}
+
+/** SHA-256 of a byte array */
+function sha256Bytes(message: number[]): number[] {
+  const hash = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ];
+
+  // Pad to a whole number of blocks, ending with the message length in bits
+  const bitLength = message.length * 8;
+  const padded = [...message, 0x80];
+  while (padded.length % BLOCK_SIZE !== 56) padded.push(0);
+  const high = Math.floor(bitLength / 0x100000000);
+  for (const word of [high, bitLength >>> 0]) {
+    padded.push((word >>> 24) & 0xff, (word >>> 16) & 0xff, (word >>> 8) & 0xff, word & 0xff);
+  }
+
+  const w = new Array<number>(64);
+  for (let offset = 0; offset < padded.length; offset += BLOCK_SIZE) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = ((padded[j] << 24) | (padded[j + 1] << 16) | (padded[j + 2] << 8) | padded[j + 3]) >>> 0;
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    hash[0] = (hash[0] + a) >>> 0;
+    hash[1] = (hash[1] + b) >>> 0;
+    hash[2] = (hash[2] + c) >>> 0;
+    hash[3] = (hash[3] + d) >>> 0;
+    hash[4] = (hash[4] + e) >>> 0;
+    hash[5] = (hash[5] + f) >>> 0;
+    hash[6] = (hash[6] + g) >>> 0;
+    hash[7] = (hash[7] + h) >>> 0;
+  }
+
+  return hash.flatMap(word => [(word >>> 24) & 0xff, (word >>> 16) & 0xff, (word >>> 8) & 0xff, word & 0xff]);
+}
+
+/** Rotate a 32-bit word right */
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+/** Bytes as lowercase hex */
+const toHex = (bytes: number[]) => bytes.map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+/**
+ * SHA-256 digest of text
+ * @param text - Text (hashed as UTF-8)
+ * @returns Hex digest
+ */
+export function sha256(text: string): string {
+  return toHex(sha256Bytes(utf8Encode(text)));
+}
+
+/**
+ * HMAC-SHA-256 of text
+ * @param key - Signing key
+ * @param text - Text to sign
+ * @returns Hex signature
+ */
+export function hmacSha256(key: string, text: string): string {
+  let keyBytes = utf8Encode(key);
+  if (keyBytes.length > BLOCK_SIZE) keyBytes = sha256Bytes(keyBytes);
+  const block = [...keyBytes, ...new Array(BLOCK_SIZE - keyBytes.length).fill(0)];
+
+  const inner = sha256Bytes([...block.map(byte => byte ^ 0x36), ...utf8Encode(text)]);
+  return toHex(sha256Bytes([...block.map(byte => byte ^ 0x5c), ...inner]));
+}
+
+/**
+ * Serialize a value with object keys sorted, so equal data always gives equal text
+ * @param value - JSON-compatible value
+ * @returns Canonical JSON
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => (item === undefined ? 'null' : canonicalJson(item))).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
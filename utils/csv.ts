@@ -0,0 +1,101 @@
+/**
+ * CSV helpers
+ * Minimal RFC 4180 reader and writer used by the import and export formats
+ */
+
+/**
+ * Parse CSV text into rows of fields
+ * Handles quoted fields, escaped quotes ("") and line breaks inside quotes.
+ * @param text - CSV text
+ * @returns Rows of raw field values (blank lines are skipped)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Byte order marks are common in spreadsheet exports
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Parse CSV text into records keyed by the header row
+ * @param text - CSV text with a header row
+ * @returns One record per data row (missing fields are empty strings)
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return rows.map(row =>
+    Object.fromEntries(columns.map((column, i) => [column, row[i] ?? '']))
+  );
+}
+
+/**
+ * Quote a field when it contains a delimiter, quote or line break
+ * @param value - Field value
+ * @returns CSV-safe field
+ */
+export function escapeCsvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from a header and rows
+ * @param header - Column names
+ * @param rows - Row values, in header order
+ * @returns CSV text with CRLF line endings
+ */
+export function toCsv(
+  header: string[],
+  rows: (string | number | null | undefined)[][]
+): string {
+  return [header, ...rows]
+    .map(row => row.map(escapeCsvField).join(','))
+    .join('\r\n');
+}
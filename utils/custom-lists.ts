@@ -0,0 +1,119 @@
+/**
+ * Custom list helpers
+ * Pure functions shared by the lists store and list UI
+ */
+
+import { DEFAULT_LIST_ID, type CustomList } from '@/types/lists';
+import type { WatchlistItem } from '@/types/watchlist';
+import { t } from '@/services/localization';
+
+/** Longest allowed list name */
+export const MAX_LIST_NAME_LENGTH = 40;
+
+/** Trim a list name and collapse inner whitespace */
+export function normalizeListName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Validate a list name against existing lists
+ * @param ignoreId - List being renamed, so it doesn't clash with itself
+ * @returns Error message, or null when the name is valid
+ */
+export function validateListName(
+  name: string,
+  lists: CustomList[],
+  ignoreId?: string
+): string | null {
+  const normalized = normalizeListName(name);
+  if (!normalized) return t('lists.nameEmpty');
+  if (normalized.length > MAX_LIST_NAME_LENGTH) {
+    return t('lists.nameTooLong', { count: MAX_LIST_NAME_LENGTH });
+  }
+
+  const lower = normalized.toLowerCase();
+  const clash = lists.some(list => list.id !== ignoreId && list.name.toLowerCase() === lower);
+  return clash ? t('lists.nameTaken') : null;
+}
+
+/** Generate an ID for a new list */
+export function generateListId(now: number = Date.now()): string {
+  return `list-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** Create an empty list */
+export function createList(name: string, now: string, id: string = generateListId()): CustomList {
+  return {
+    id,
+    name: normalizeListName(name),
+    items: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Create the default list that holds the watchlist */
+export function createDefaultList(now: string, items: WatchlistItem[] = []): CustomList {
+  return {
+    id: DEFAULT_LIST_ID,
+    name: 'Watchlist',
+    items,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/** Whether a list is the built-in watchlist */
+export function isDefaultList(listId: string): boolean {
+  return listId === DEFAULT_LIST_ID;
+}
+
+/**
+ * Move a list one or more positions
+ * The default list stays pinned to the top
+ */
+export function moveList(lists: CustomList[], listId: string, offset: number): CustomList[] {
+  const from = lists.findIndex(list => list.id === listId);
+  if (from === -1 || isDefaultList(listId)) return lists;
+
+  const minIndex = lists.findIndex(list => isDefaultList(list.id)) === 0 ? 1 : 0;
+  const to = Math.min(Math.max(from + offset, minIndex), lists.length - 1);
+  if (to === from) return lists;
+
+  const next = [...lists];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
+
+/** Whether a list contains a title */
+export function listContains(list: CustomList, id: number, mediaType: 'movie' | 'tv'): boolean {
+  return list.items.some(item => item.id === id && item.mediaType === mediaType);
+}
+
+/** Add a title to the end of a list, replacing any existing entry */
+export function addItemToList(list: CustomList, item: WatchlistItem, now: string): CustomList {
+  return {
+    ...list,
+    items: [
+      ...list.items.filter(i => !(i.id === item.id && i.mediaType === item.mediaType)),
+      item,
+    ],
+    updatedAt: now,
+  };
+}
+
+/** Remove a title from a list */
+export function removeItemFromList(
+  list: CustomList,
+  id: number,
+  mediaType: 'movie' | 'tv',
+  now: string
+): CustomList {
+  if (!listContains(list, id, mediaType)) return list;
+  return {
+    ...list,
+    items: list.items.filter(i => !(i.id === id && i.mediaType === mediaType)),
+    updatedAt: now,
+  };
+}
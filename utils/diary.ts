@@ -0,0 +1,231 @@
+/**
+ * Watch diary helpers
+ * Pure functions shared by the diary store, storage partitioning and diary UI
+ */
+
+import type {
+  DiaryDay,
+  DiaryEntry,
+  DiaryEntryInput,
+  DiaryMonth,
+  DiaryTitle,
+} from '@/types/diary';
+import type { EpisodeRef } from '@/types/progress';
+import { t } from '@/services/localization';
+
+const DIARY_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Zero-pad a date part */
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Format a date as a diary day in local time
+ * @param date - Date to format
+ * @returns Day string (YYYY-MM-DD)
+ */
+export function toDiaryDate(date: Date): string {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Check that a value is a real calendar day (YYYY-MM-DD)
+ * @param value - Day string
+ * @returns True for valid days such as 2025-02-28, false for 2025-02-30
+ */
+export function isValidDiaryDate(value: string): boolean {
+  if (!DIARY_DATE_PATTERN.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+/**
+ * Validate a day entered for a diary entry
+ * @param value - Day string (YYYY-MM-DD)
+ * @param today - Today's day string
+ * @returns Error message, or null when valid
+ */
+export function validateDiaryDate(value: string, today: string): string | null {
+  if (!isValidDiaryDate(value.trim())) {
+    return t('diary.invalidDate');
+  }
+  if (value.trim() > today) {
+    return t('diary.futureDate');
+  }
+  return null;
+}
+
+/**
+ * Parse a diary day as local midnight
+ * @param watchedOn - Day (YYYY-MM-DD)
+ * @returns Date for display formatting
+ */
+export function parseDiaryDate(watchedOn: string): Date {
+  const [year, month, day] = watchedOn.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Month a diary day is stored under
+ * @param watchedOn - Day (YYYY-MM-DD)
+ * @returns Month (YYYY-MM)
+ */
+export function toDiaryMonth(watchedOn: string): DiaryMonth {
+  return watchedOn.slice(0, 7);
+}
+
+/**
+ * Move a month forwards or backwards
+ * @param month - Month (YYYY-MM)
+ * @param offset - Months to move (negative moves back)
+ * @returns Shifted month (YYYY-MM)
+ */
+export function shiftDiaryMonth(month: DiaryMonth, offset: number): DiaryMonth {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const date = new Date(year, monthNumber - 1 + offset, 1);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+}
+
+/**
+ * Calendar grid for a month, in weeks starting on Sunday
+ * @param month - Month (YYYY-MM)
+ * @returns Weeks of days (YYYY-MM-DD), padded with null outside the month
+ */
+export function getCalendarWeeks(month: DiaryMonth): (string | null)[][] {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const firstWeekday = new Date(year, monthNumber - 1, 1).getDay();
+  const dayCount = new Date(year, monthNumber, 0).getDate();
+
+  const cells: (string | null)[] = [
+    ...Array<null>(firstWeekday).fill(null),
+    ...Array.from({ length: dayCount }, (_, i) => `${month}-${pad(i + 1)}`),
+  ];
+  while (cells.length % 7 !== 0) {
+    cells.push(null);
+  }
+
+  return Array.from({ length: cells.length / 7 }, (_, i) => cells.slice(i * 7, i * 7 + 7));
+}
+
+/** Generate a unique diary entry ID */
+export function generateDiaryEntryId(now: number = Date.now()): string {
+  return `diary-${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Create a diary entry for a watch
+ * @param title - Title watched
+ * @param input - Day, rewatch flag, note and optional episode
+ * @param now - Creation timestamp
+ * @param entryId - Entry ID (generated when omitted)
+ * @returns New diary entry
+ */
+export function createDiaryEntry(
+  title: DiaryTitle,
+  input: DiaryEntryInput,
+  now: string,
+  entryId: string = generateDiaryEntryId()
+): DiaryEntry {
+  return {
+    entryId,
+    id: title.id,
+    mediaType: title.mediaType,
+    idSpace: title.idSpace,
+    imdbId: title.imdbId,
+    title: title.title,
+    posterPath: title.posterPath,
+    episode: title.mediaType === 'tv' ? input.episode ?? null : null,
+    watchedOn: input.watchedOn,
+    isRewatch: input.isRewatch,
+    note: input.note.trim(),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Apply edits to a diary entry
+ * @param entry - Entry being edited
+ * @param changes - Fields to change
+ * @param now - Update timestamp
+ * @returns Updated entry
+ */
+export function updateDiaryEntry(
+  entry: DiaryEntry,
+  changes: Partial<DiaryEntryInput>,
+  now: string
+): DiaryEntry {
+  return {
+    ...entry,
+    ...changes,
+    episode: entry.mediaType === 'tv' ? changes.episode ?? entry.episode ?? null : null,
+    note: (changes.note ?? entry.note).trim(),
+    updatedAt: now,
+  };
+}
+
+/**
+ * Sort diary entries, most recent watch first
+ * Entries on the same day are ordered by when they were logged.
+ * @param entries - Diary entries
+ * @returns Sorted copy
+ */
+export function sortDiaryEntries(entries: DiaryEntry[]): DiaryEntry[] {
+  return [...entries].sort((a, b) =>
+    b.watchedOn.localeCompare(a.watchedOn) || b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+/**
+ * Group diary entries by day for the timeline
+ * @param entries - Diary entries
+ * @returns Days, most recent first
+ */
+export function groupDiaryByDay(entries: DiaryEntry[]): DiaryDay[] {
+  const days: DiaryDay[] = [];
+  for (const entry of sortDiaryEntries(entries)) {
+    const last = days[days.length - 1];
+    if (last && last.date === entry.watchedOn) {
+      last.entries.push(entry);
+    } else {
+      days.push({ date: entry.watchedOn, entries: [entry] });
+    }
+  }
+  return days;
+}
+
+/**
+ * Count diary entries per day
+ * @param entries - Diary entries
+ * @returns Entry count keyed by day (YYYY-MM-DD)
+ */
+export function countEntriesByDay(entries: DiaryEntry[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const entry of entries) {
+    counts[entry.watchedOn] = (counts[entry.watchedOn] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Check whether a title (or episode) already has a diary entry
+ * Used to suggest the rewatch flag when logging.
+ * @param entries - Diary entries
+ * @param id - Title ID
+ * @param mediaType - Title media type
+ * @param episode - Episode, for episode-level entries
+ * @returns True if it has been logged before
+ */
+export function hasDiaryEntry(
+  entries: DiaryEntry[],
+  id: number,
+  mediaType: 'movie' | 'tv',
+  episode?: EpisodeRef | null
+): boolean {
+  return entries.some(entry =>
+    entry.id === id &&
+    entry.mediaType === mediaType &&
+    (entry.episode?.seasonNumber ?? null) === (episode?.seasonNumber ?? null) &&
+    (entry.episode?.episodeNumber ?? null) === (episode?.episodeNumber ?? null)
+  );
+}
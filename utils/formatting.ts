@@ -1,31 +1,91 @@
-import * as Localization from 'expo-localization';
-import { getCurrentLocale } from '../services/localization';
+/**
+ * Locale-aware formatting
+ * Dates, numbers, currency, durations and file sizes in the app language,
+ * formatted with `Intl` rather than English strings
+ *
+ * - Everything follows the current i18n locale, so switching language
+ *   reformats every screen along with its translations
+ * - Where a JavaScript engine lacks an `Intl` feature, output falls back to
+ *   the English format instead of failing
+ */
+
+import { getCurrentLocale, t } from '../services/localization';
+
+/** Intl locales for the app languages, region-qualified where formats differ by region */
+const INTL_LOCALES: Record<string, string> = {
+  en: 'en-US',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  ja: 'ja-JP',
+  zh: 'zh-CN',
+  ar: 'ar',
+  he: 'he-IL',
+  ru: 'ru-RU',
+  hi: 'hi-IN',
+};
+
+/** Units durations and file sizes are formatted in */
+type FormatUnit = 'hour' | 'minute' | 'byte' | 'kilobyte' | 'megabyte' | 'gigabyte' | 'terabyte';
+
+/** English unit suffixes for engines without unit formatting */
+const UNIT_FALLBACKS: Record<FormatUnit, string> = {
+  hour: 'h',
+  minute: 'm',
+  byte: ' B',
+  kilobyte: ' KB',
+  megabyte: ' MB',
+  gigabyte: ' GB',
+  terabyte: ' TB',
+};
+
+const FILE_SIZE_UNITS: FormatUnit[] = ['byte', 'kilobyte', 'megabyte', 'gigabyte', 'terabyte'];
+
+/** A Sunday, used to name the days of the week */
+const REFERENCE_SUNDAY = new Date(2023, 0, 1);
+
+/**
+ * Get the Intl locale for the current app language
+ */
+export function getIntlLocale(): string {
+  return INTL_LOCALES[getCurrentLocale()] ?? 'en-US';
+}
+
+/**
+ * Parse a date, reading date-only strings ("2023-12-15") as local dates
+ * so they don't shift a day in time zones west of UTC
+ */
+function toDate(date: Date | string | number): Date {
+  if (typeof date === 'string') {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(date);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date(date);
+  }
+  return typeof date === 'number' ? new Date(date) : date;
+}
 
 /**
  * Format a date according to the current locale
+ * Pass `undefined` for a part (e.g. `day: undefined`) to leave it out
  */
 export function formatDate(
   date: Date | string | number,
   options: Intl.DateTimeFormatOptions = {}
 ): string {
-  const dateObj = typeof date === 'string' || typeof date === 'number' ? new Date(date) : date;
-  
+  const dateObj = toDate(date);
+
   if (isNaN(dateObj.getTime())) {
     return 'Invalid Date';
   }
-  
-  const locale = getCurrentLocale();
-  const localeCode = getIntlLocaleCode(locale);
-  
+
   const defaultOptions: Intl.DateTimeFormatOptions = {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
     ...options,
   };
-  
+
   try {
-    return new Intl.DateTimeFormat(localeCode, defaultOptions).format(dateObj);
+    return new Intl.DateTimeFormat(getIntlLocale(), defaultOptions).format(dateObj);
   } catch (error) {
     // Fallback to English if locale is not supported
     return new Intl.DateTimeFormat('en-US', defaultOptions).format(dateObj);
@@ -37,11 +97,11 @@ export function formatDate(
  */
 export function formatReleaseDate(date: string): string {
   if (!date) return '';
-  
-  const dateObj = new Date(date);
+
+  const dateObj = toDate(date);
   if (isNaN(dateObj.getTime())) return date;
-  
-  return formatDate(dateObj, { year: 'numeric' });
+
+  return formatDate(dateObj, { year: 'numeric', month: undefined, day: undefined });
 }
 
 /**
@@ -49,10 +109,10 @@ export function formatReleaseDate(date: string): string {
  */
 export function formatDetailDate(date: string): string {
   if (!date) return '';
-  
-  const dateObj = new Date(date);
+
+  const dateObj = toDate(date);
   if (isNaN(dateObj.getTime())) return date;
-  
+
   return formatDate(dateObj, {
     year: 'numeric',
     month: 'long',
@@ -60,6 +120,58 @@ export function formatDetailDate(date: string): string {
   });
 }
 
+/**
+ * Format an air or release date, or "TBA" when it isn't known yet
+ * @param date - ISO date string
+ * @param options - Date parts to show (default "Dec 15, 2023")
+ */
+export function formatAirDate(
+  date: string | null | undefined,
+  options: Intl.DateTimeFormatOptions = { month: 'short' }
+): string {
+  if (!date) return t('common.tba');
+
+  const dateObj = toDate(date);
+  if (isNaN(dateObj.getTime())) return t('common.tba');
+
+  return formatDate(dateObj, options);
+}
+
+/**
+ * Format the day of the week of a date (e.g., "Fri")
+ */
+export function formatWeekday(
+  date: Date | string | number,
+  width: 'long' | 'short' | 'narrow' = 'short'
+): string {
+  return formatDate(date, { weekday: width, year: undefined, month: undefined, day: undefined });
+}
+
+/**
+ * Get the names of the days of the week, starting on Sunday
+ * @param width - "narrow" gives calendar column initials ("S", "M", ...)
+ */
+export function getWeekdayNames(width: 'long' | 'short' | 'narrow' = 'narrow'): string[] {
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(REFERENCE_SUNDAY);
+    day.setDate(REFERENCE_SUNDAY.getDate() + index);
+    return formatWeekday(day, width);
+  });
+}
+
+/**
+ * Format a time of day (e.g., "4:30 PM")
+ */
+export function formatTime(date: Date | string | number): string {
+  return formatDate(date, {
+    year: undefined,
+    month: undefined,
+    day: undefined,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
 /**
  * Format a number according to the current locale
  */
@@ -70,54 +182,87 @@ export function formatNumber(
   if (typeof number !== 'number' || isNaN(number)) {
     return '0';
   }
-  
-  const locale = getCurrentLocale();
-  const localeCode = getIntlLocaleCode(locale);
-  
+
   try {
-    return new Intl.NumberFormat(localeCode, options).format(number);
+    return new Intl.NumberFormat(getIntlLocale(), options).format(number);
   } catch (error) {
     // Fallback to English if locale is not supported
     return new Intl.NumberFormat('en-US', options).format(number);
   }
 }
 
+/**
+ * Format a large count compactly (e.g., "1.2K", "3.4M" in English)
+ * Used for vote counts, where the exact number doesn't matter
+ */
+export function formatCompactNumber(number: number): string {
+  if (typeof number !== 'number' || isNaN(number)) {
+    return '0';
+  }
+
+  try {
+    return new Intl.NumberFormat(getIntlLocale(), {
+      notation: 'compact',
+      maximumFractionDigits: 1,
+    }).format(number);
+  } catch (error) {
+    return formatNumber(number);
+  }
+}
+
 /**
  * Format a rating (e.g., "8.5", "7.2/10")
  */
-export function formatRating(rating: number, maxRating: number = 10): string {
+export function formatRating(rating: number | null | undefined, maxRating: number = 10): string {
   if (typeof rating !== 'number' || isNaN(rating)) {
     return '';
   }
-  
+
   const formattedRating = formatNumber(rating, {
     minimumFractionDigits: 1,
     maximumFractionDigits: 1,
   });
-  
+
   return maxRating === 10 ? formattedRating : `${formattedRating}/${maxRating}`;
 }
 
+/**
+ * Format a value with a unit in the current locale ("2h", "2 Std.")
+ */
+function formatUnit(value: number, unit: FormatUnit, options: Intl.NumberFormatOptions = {}): string {
+  try {
+    return new Intl.NumberFormat(getIntlLocale(), {
+      style: 'unit',
+      unit,
+      unitDisplay: 'narrow',
+      ...options,
+    }).format(value);
+  } catch (error) {
+    return `${formatNumber(value, options)}${UNIT_FALLBACKS[unit]}`;
+  }
+}
+
 /**
  * Format runtime in minutes to hours and minutes (e.g., "2h 30m")
+ * @returns The formatted runtime, or an empty string when it isn't known
  */
-export function formatRuntime(minutes: number): string {
+export function formatRuntime(minutes: number | null | undefined): string {
   if (typeof minutes !== 'number' || isNaN(minutes) || minutes <= 0) {
     return '';
   }
-  
+
   const hours = Math.floor(minutes / 60);
-  const remainingMinutes = minutes % 60;
-  
+  const remainingMinutes = Math.round(minutes % 60);
+
   if (hours === 0) {
-    return `${remainingMinutes}m`;
+    return formatUnit(remainingMinutes, 'minute');
   }
-  
+
   if (remainingMinutes === 0) {
-    return `${hours}h`;
+    return formatUnit(hours, 'hour');
   }
-  
-  return `${hours}h ${remainingMinutes}m`;
+
+  return `${formatUnit(hours, 'hour')} ${formatUnit(remainingMinutes, 'minute')}`;
 }
 
 /**
@@ -125,57 +270,58 @@ export function formatRuntime(minutes: number): string {
  */
 export function formatFileSize(bytes: number): string {
   if (typeof bytes !== 'number' || isNaN(bytes) || bytes < 0) {
-    return '0 B';
+    bytes = 0;
   }
-  
-  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+
   let size = bytes;
   let unitIndex = 0;
-  
-  while (size >= 1024 && unitIndex < units.length - 1) {
+
+  while (size >= 1024 && unitIndex < FILE_SIZE_UNITS.length - 1) {
     size /= 1024;
     unitIndex++;
   }
-  
-  const formattedSize = formatNumber(size, {
-    minimumFractionDigits: unitIndex > 0 ? 1 : 0,
+
+  return formatUnit(size, FILE_SIZE_UNITS[unitIndex], {
+    unitDisplay: 'short',
+    minimumFractionDigits: 0,
     maximumFractionDigits: unitIndex > 0 ? 1 : 0,
   });
-  
-  return `${formattedSize} ${units[unitIndex]}`;
 }
 
 /**
  * Format percentage (e.g., "75%")
+ * @param value - Fraction, where 1 is 100%
+ * @param fractionDigits - Decimals to show at most
  */
-export function formatPercentage(value: number): string {
+export function formatPercentage(value: number, fractionDigits: number = 0): string {
   if (typeof value !== 'number' || isNaN(value)) {
-    return '0%';
+    value = 0;
   }
-  
+
   return formatNumber(value, {
     style: 'percent',
     minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
+    maximumFractionDigits: fractionDigits,
   });
 }
 
 /**
  * Format currency according to locale
+ * @param amount - Amount in the currency's main unit
+ * @param currency - ISO 4217 currency code
+ * @param compact - Abbreviate large amounts ("$150M"), as for budgets and revenue
  */
-export function formatCurrency(amount: number, currency: string = 'USD'): string {
+export function formatCurrency(amount: number, currency: string = 'USD', compact: boolean = false): string {
   if (typeof amount !== 'number' || isNaN(amount)) {
     return '';
   }
-  
-  const locale = getCurrentLocale();
-  const localeCode = getIntlLocaleCode(locale);
-  
+
+  const options: Intl.NumberFormatOptions = compact
+    ? { style: 'currency', currency, notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: 1 }
+    : { style: 'currency', currency };
+
   try {
-    return new Intl.NumberFormat(localeCode, {
-      style: 'currency',
-      currency,
-    }).format(amount);
+    return new Intl.NumberFormat(getIntlLocale(), options).format(amount);
   } catch (error) {
     // Fallback to USD format
     return new Intl.NumberFormat('en-US', {
@@ -189,33 +335,31 @@ export function formatCurrency(amount: number, currency: string = 'USD'): string
  * Format relative time (e.g., "2 hours ago", "in 3 days")
  */
 export function formatRelativeTime(date: Date | string | number): string {
-  const dateObj = typeof date === 'string' || typeof date === 'number' ? new Date(date) : date;
-  
+  const dateObj = toDate(date);
+
   if (isNaN(dateObj.getTime())) {
     return '';
   }
-  
-  const locale = getCurrentLocale();
-  const localeCode = getIntlLocaleCode(locale);
-  
+
   const now = new Date();
-  const diffInSeconds = Math.floor((now.getTime() - dateObj.getTime()) / 1000);
-  
+  const diffInSeconds = Math.round((dateObj.getTime() - now.getTime()) / 1000);
+  const elapsed = Math.abs(diffInSeconds);
+
   try {
-    const rtf = new Intl.RelativeTimeFormat(localeCode, { numeric: 'auto' });
-    
-    if (Math.abs(diffInSeconds) < 60) {
-      return rtf.format(-diffInSeconds, 'second');
-    } else if (Math.abs(diffInSeconds) < 3600) {
-      return rtf.format(-Math.floor(diffInSeconds / 60), 'minute');
-    } else if (Math.abs(diffInSeconds) < 86400) {
-      return rtf.format(-Math.floor(diffInSeconds / 3600), 'hour');
-    } else if (Math.abs(diffInSeconds) < 2592000) {
-      return rtf.format(-Math.floor(diffInSeconds / 86400), 'day');
-    } else if (Math.abs(diffInSeconds) < 31536000) {
-      return rtf.format(-Math.floor(diffInSeconds / 2592000), 'month');
+    const rtf = new Intl.RelativeTimeFormat(getIntlLocale(), { numeric: 'auto' });
+
+    if (elapsed < 60) {
+      return rtf.format(diffInSeconds, 'second');
+    } else if (elapsed < 3600) {
+      return rtf.format(Math.trunc(diffInSeconds / 60), 'minute');
+    } else if (elapsed < 86400) {
+      return rtf.format(Math.trunc(diffInSeconds / 3600), 'hour');
+    } else if (elapsed < 2592000) {
+      return rtf.format(Math.trunc(diffInSeconds / 86400), 'day');
+    } else if (elapsed < 31536000) {
+      return rtf.format(Math.trunc(diffInSeconds / 2592000), 'month');
     } else {
-      return rtf.format(-Math.floor(diffInSeconds / 31536000), 'year');
+      return rtf.format(Math.trunc(diffInSeconds / 31536000), 'year');
     }
   } catch (error) {
     // Fallback to simple format
@@ -224,45 +368,26 @@ export function formatRelativeTime(date: Date | string | number): string {
 }
 
 /**
- * Convert app locale code to Intl-compatible locale code
- */
-function getIntlLocaleCode(locale: string): string {
-  const localeMap: Record<string, string> = {
-    en: 'en-US',
-    es: 'es-ES',
-    fr: 'fr-FR',
-    de: 'de-DE',
-    ja: 'ja-JP',
-    zh: 'zh-CN',
-    ru: 'ru-RU',
-    hi: 'hi-IN',
-  };
-  
-  return localeMap[locale] || 'en-US';
-}
-
-/**
- * Get locale-specific decimal and grouping separators
+ * Get the decimal and grouping separators of the app language
  */
 export function getLocaleSeparators(): {
   decimal: string;
   grouping: string;
 } {
-  const localeInfo = Localization.getLocales()[0];
-  
-  return {
-    decimal: localeInfo?.decimalSeparator || '.',
-    grouping: localeInfo?.digitGroupingSeparator || ',',
-  };
+  try {
+    const parts = new Intl.NumberFormat(getIntlLocale()).formatToParts(1234567.5);
+    return {
+      decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+      grouping: parts.find(part => part.type === 'group')?.value ?? ',',
+    };
+  } catch (error) {
+    return { decimal: '.', grouping: ',' };
+  }
 }
 
 /**
  * Format a number with locale-specific separators
  */
 export function formatNumberWithSeparators(number: number): string {
-  const separators = getLocaleSeparators();
-  const formatted = formatNumber(number);
-  
-  // The Intl.NumberFormat already handles separators correctly
-  return formatted;
-}
\ No newline at end of file
+  return formatNumber(number, { useGrouping: true });
+}
@@ -0,0 +1,71 @@
+/**
+ * Right-to-left layout helpers
+ * Pure functions for mirroring what React Native doesn't flip by itself
+ * when the app is laid out right to left (Arabic and Hebrew)
+ *
+ * - Flex rows, margins and absolute left/right positions flip natively
+ * - Directional icons, gradient coordinates and horizontal scroll offsets
+ *   don't, so screens run them through these helpers
+ */
+
+/** Icons pointing the opposite way, for Ionicons and SF Symbols names */
+const MIRRORED_ICONS: Record<string, string> = {
+  'chevron-back': 'chevron-forward',
+  'chevron-forward': 'chevron-back',
+  'arrow-back': 'arrow-forward',
+  'arrow-forward': 'arrow-back',
+  'chevron.left': 'chevron.right',
+  'chevron.right': 'chevron.left',
+};
+
+/** A point in gradient coordinates, from 0 to 1 on each axis */
+export interface GradientPoint {
+  x: number;
+  y: number;
+}
+
+/** Where a linear gradient starts and ends */
+export interface GradientDirection {
+  start: GradientPoint;
+  end: GradientPoint;
+}
+
+/**
+ * Get the icon pointing the right way for the layout direction
+ * "Back" and "forward" icons are drawn for left-to-right layouts, so they
+ * are swapped for their opposite in right-to-left layouts
+ * @param name - Icon name as drawn for left-to-right layouts
+ * @param isRTL - Whether the app is laid out right to left
+ */
+export function getDirectionalIcon<T extends string>(name: T, isRTL: boolean): T {
+  return isRTL ? ((MIRRORED_ICONS[name] ?? name) as T) : name;
+}
+
+/**
+ * Mirror a gradient horizontally for right-to-left layouts
+ * @param direction - Gradient direction for left-to-right layouts
+ * @param isRTL - Whether the app is laid out right to left
+ */
+export function mirrorGradient(direction: GradientDirection, isRTL: boolean): GradientDirection {
+  if (!isRTL) return direction;
+  return {
+    start: { x: 1 - direction.start.x, y: direction.start.y },
+    end: { x: 1 - direction.end.x, y: direction.end.y },
+  };
+}
+
+/**
+ * Get the page a paged horizontal list has been scrolled to
+ * Scroll offsets are measured from the left edge, so in right-to-left
+ * layouts the first page is the one furthest to the right
+ * @param offsetX - Horizontal scroll offset
+ * @param pageWidth - Width of one page
+ * @param pageCount - Number of pages
+ * @param isRTL - Whether the app is laid out right to left
+ * @returns Page index from the start of the list, clamped to the pages there are
+ */
+export function getPageIndex(offsetX: number, pageWidth: number, pageCount: number, isRTL: boolean): number {
+  if (pageCount <= 0 || pageWidth <= 0) return 0;
+  const fromLeft = Math.min(Math.max(Math.round(offsetX / pageWidth), 0), pageCount - 1);
+  return isRTL ? pageCount - 1 - fromLeft : fromLeft;
+}
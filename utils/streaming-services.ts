@@ -0,0 +1,113 @@
+/**
+ * Streaming service helpers
+ * Pure functions for the "My Services" preference and "available to me"
+ * filtering of search results, country hubs, recommendations and the watchlist
+ *
+ * - With no services chosen, any subscription service counts as "mine"
+ * - Only subscription (flatrate) providers count; renting or buying doesn't
+ */
+
+import { STREAMING_AVAILABILITY_CONFIG } from '@/constants/api';
+import { STREAMING_SERVICES } from '@/constants/streaming-services';
+import { getWatchlistKey } from '@/services/sync';
+import { t } from '@/services/localization';
+import type { MediaRef, StreamingAvailability, StreamingProvider } from '@/types/media';
+
+/**
+ * Get the providers a title can be streamed on with a subscription
+ * @param providers - Every provider for the title
+ */
+export function getSubscriptionProviders(providers: StreamingProvider[]): StreamingProvider[] {
+  return providers.filter(provider => provider.type === 'flatrate' && provider.isAvailable);
+}
+
+/**
+ * Check whether a title streams on the user's services
+ * @param providerIds - Subscription providers streaming the title
+ * @param serviceIds - The user's services (any service when empty)
+ */
+export function isOnMyServices(providerIds: number[], serviceIds: number[]): boolean {
+  return serviceIds.length === 0
+    ? providerIds.length > 0
+    : providerIds.some(id => serviceIds.includes(id));
+}
+
+/**
+ * Check whether a provider is one of the user's services
+ * Rent and buy providers are never highlighted, even from a subscribed service.
+ * @param provider - Provider to check
+ * @param serviceIds - The user's services
+ */
+export function isMyService(
+  provider: Pick<StreamingProvider, 'providerId' | 'type'>,
+  serviceIds: number[]
+): boolean {
+  return provider.type === 'flatrate' && serviceIds.includes(provider.providerId);
+}
+
+/**
+ * Put the user's services first, keeping the order within each part
+ * @param providers - Providers to sort
+ * @param serviceIds - The user's services
+ * @returns New sorted array
+ */
+export function sortProvidersByServices<T extends Pick<StreamingProvider, 'providerId' | 'type'>>(
+  providers: T[],
+  serviceIds: number[]
+): T[] {
+  return [
+    ...providers.filter(p => isMyService(p, serviceIds)),
+    ...providers.filter(p => !isMyService(p, serviceIds)),
+  ];
+}
+
+/**
+ * Check whether a title's availability needs checking
+ * @param availability - Last check, if any
+ * @param now - Current time
+ * @param countryCode - Region the check should be for
+ */
+export function isAvailabilityStale(
+  availability: StreamingAvailability | undefined,
+  now: Date = new Date(),
+  countryCode: string = STREAMING_AVAILABILITY_CONFIG.COUNTRY_CODE
+): boolean {
+  if (!availability || availability.countryCode !== countryCode) return true;
+  const age = now.getTime() - new Date(availability.checkedAt).getTime();
+  return !(age < STREAMING_AVAILABILITY_CONFIG.MAX_AGE_MS);
+}
+
+/**
+ * Keep the titles streaming on the user's services
+ * Titles whose availability hasn't been checked yet are left out.
+ * @param items - Titles to filter
+ * @param availability - Availability per watchlist key (`movie:123`)
+ * @param serviceIds - The user's services (any service when empty)
+ * @returns Titles available to the user, in their original order
+ */
+export function filterAvailableToMe<T extends MediaRef>(
+  items: T[],
+  availability: Record<string, StreamingAvailability>,
+  serviceIds: number[]
+): T[] {
+  return items.filter(item => {
+    const checked = availability[getWatchlistKey(item.id, item.mediaType)];
+    return !!checked && isOnMyServices(checked.providerIds, serviceIds);
+  });
+}
+
+/**
+ * Describe the user's services for settings, e.g. "Netflix, Hulu +2"
+ * @param serviceIds - The user's services
+ * @param shown - Most names listed before the rest are counted
+ */
+export function describeStreamingServices(serviceIds: number[], shown: number = 2): string {
+  const names = STREAMING_SERVICES
+    .filter(service => serviceIds.includes(service.providerId))
+    .map(service => service.providerName);
+  if (names.length === 0) return t('settings.anyStreamingService');
+  const rest = names.length - shown;
+  return rest > 0
+    ? t('settings.streamingServicesMore', { names: names.slice(0, shown).join(', '), count: rest })
+    : names.join(', ');
+}
@@ -0,0 +1,210 @@
+/**
+ * "What should I watch tonight?" picker helpers
+ * Pure functions for candidate filtering, weighting and suggestion history
+ */
+
+import { PICKER_CONFIG, PICKER_MOODS } from '@/constants/picker';
+import { getWatchlistKey } from '@/services/sync';
+import type { PickerCandidate, PickerConstraints, PickHistoryEntry } from '@/types/picker';
+import type { WatchlistItem, WatchlistMetadataCache } from '@/types/watchlist';
+import { toDiaryDate } from '@/utils/diary';
+import { isOnMyServices } from '@/utils/streaming-services';
+import { getItemStatus } from '@/utils/watchlist-status';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Turn a watchlist item into a picker candidate
+ * @param item - Watchlist item
+ * @param metadata - Metadata per watchlist key
+ */
+export function toWatchlistCandidate(
+  item: WatchlistItem,
+  metadata: WatchlistMetadataCache
+): PickerCandidate {
+  const key = getWatchlistKey(item.id, item.mediaType);
+  return {
+    id: item.id,
+    mediaType: item.mediaType,
+    idSpace: item.idSpace,
+    imdbId: item.imdbId,
+    key,
+    title: item.title,
+    posterPath: item.posterPath,
+    source: 'watchlist',
+    status: getItemStatus(item),
+    metadata: metadata[key] ?? null,
+  };
+}
+
+/**
+ * Combine watchlist and recommended candidates, one per title
+ * A title on the watchlist is kept as a watchlist candidate.
+ * @param watchlist - Watchlist candidates
+ * @param recommendations - Recommended candidates
+ */
+export function mergeCandidates(
+  watchlist: PickerCandidate[],
+  recommendations: PickerCandidate[]
+): PickerCandidate[] {
+  const keys = new Set(watchlist.map(c => c.key));
+  const merged = [...watchlist];
+  for (const candidate of recommendations) {
+    if (keys.has(candidate.key)) continue;
+    keys.add(candidate.key);
+    merged.push(candidate);
+  }
+  return merged;
+}
+
+/**
+ * Check whether a candidate can be watched tonight within the constraints
+ * Finished and dropped titles never fit, nor do unreleased ones. Candidates
+ * whose details haven't been fetched only fit when nothing needs them.
+ * @param candidate - Candidate title
+ * @param constraints - Picker constraints
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export function fitsConstraints(
+  candidate: PickerCandidate,
+  constraints: PickerConstraints,
+  today: string
+): boolean {
+  const { minutesAvailable, moodId, mediaType, onMyServices, serviceIds } = constraints;
+
+  if (mediaType !== 'all' && candidate.mediaType !== mediaType) return false;
+  if (candidate.status === 'completed' || candidate.status === 'dropped') return false;
+
+  const { metadata } = candidate;
+  if (!metadata) {
+    return minutesAvailable === null && moodId === null && !onMyServices;
+  }
+
+  if (metadata.releaseDate === null || metadata.releaseDate > today) return false;
+  if (minutesAvailable !== null && (metadata.runtime === null || metadata.runtime > minutesAvailable)) {
+    return false;
+  }
+  if (moodId !== null) {
+    const mood = PICKER_MOODS.find(m => m.id === moodId);
+    if (mood && !metadata.genres.some(g => mood.genreIds.includes(g.id))) return false;
+  }
+  if (onMyServices) {
+    const providerIds = metadata.streamingProviders.map(p => p.providerId);
+    if (!isOnMyServices(providerIds, serviceIds)) return false;
+  }
+  return true;
+}
+
+/**
+ * How likely a candidate is to be picked
+ * Watchlist titles outweigh recommendations, series in progress get a boost,
+ * and well-reviewed titles count up to double.
+ * @param candidate - Candidate title
+ * @returns Positive weight
+ */
+export function getCandidateWeight(candidate: PickerCandidate): number {
+  let weight = candidate.source === 'watchlist'
+    ? PICKER_CONFIG.WATCHLIST_WEIGHT
+    : PICKER_CONFIG.RECOMMENDATION_WEIGHT;
+
+  if (candidate.status === 'watching') {
+    weight *= PICKER_CONFIG.WATCHING_BOOST;
+  }
+
+  const vote = candidate.metadata?.voteAverage;
+  if (vote !== null && vote !== undefined) {
+    weight *= 1 + Math.min(Math.max(vote - 5, 0), 5) / 5;
+  }
+  return weight;
+}
+
+/**
+ * Pick an item at random, in proportion to its weight
+ * @param items - Items to pick from
+ * @param getWeight - Weight of an item (non-positive weights are never picked)
+ * @param random - Random number in [0, 1)
+ * @returns Picked item, or null when none can be picked
+ */
+export function pickWeighted<T>(
+  items: T[],
+  getWeight: (item: T) => number,
+  random: () => number = Math.random
+): T | null {
+  const weights = items.map(item => Math.max(getWeight(item), 0));
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total <= 0) return null;
+
+  let remaining = random() * total;
+  for (let i = 0; i < items.length; i++) {
+    if (weights[i] === 0) continue;
+    remaining -= weights[i];
+    if (remaining < 0) return items[i];
+  }
+  // Rounding can leave a sliver at the end; it belongs to the last pickable item
+  return items[weights.map(weight => weight > 0).lastIndexOf(true)];
+}
+
+/**
+ * Drop suggestions older than the history window
+ * @param history - Past suggestions
+ * @param now - Current time
+ */
+export function pruneHistory(history: PickHistoryEntry[], now: Date = new Date()): PickHistoryEntry[] {
+  const cutoff = now.getTime() - PICKER_CONFIG.HISTORY_DAYS * DAY_MS;
+  return history.filter(entry => new Date(entry.pickedAt).getTime() > cutoff);
+}
+
+/**
+ * Record a suggestion in the history
+ * @param history - Past suggestions
+ * @param candidate - Title suggested
+ * @param now - When it was suggested
+ * @returns History with the suggestion added and expired ones dropped
+ */
+export function recordPick(
+  history: PickHistoryEntry[],
+  candidate: PickerCandidate,
+  now: Date = new Date()
+): PickHistoryEntry[] {
+  return [
+    ...pruneHistory(history, now).filter(entry => entry.key !== candidate.key),
+    { key: candidate.key, title: candidate.title, pickedAt: now.toISOString() },
+  ];
+}
+
+/**
+ * Get the candidates that could be suggested now
+ * @param candidates - Every candidate
+ * @param constraints - Picker constraints
+ * @param history - Past suggestions
+ * @param now - Current time
+ */
+export function getEligibleCandidates(
+  candidates: PickerCandidate[],
+  constraints: PickerConstraints,
+  history: PickHistoryEntry[],
+  now: Date = new Date()
+): PickerCandidate[] {
+  const recent = new Set(pruneHistory(history, now).map(entry => entry.key));
+  const today = toDiaryDate(now);
+  return candidates.filter(c => !recent.has(c.key) && fitsConstraints(c, constraints, today));
+}
+
+/**
+ * Pick tonight's suggestion
+ * @param candidates - Every candidate
+ * @param constraints - Picker constraints
+ * @param history - Past suggestions, which aren't suggested again within the window
+ * @param now - Current time
+ * @param random - Random number in [0, 1)
+ * @returns Suggestion, or null when nothing fits
+ */
+export function pickTonight(
+  candidates: PickerCandidate[],
+  constraints: PickerConstraints,
+  history: PickHistoryEntry[],
+  now: Date = new Date(),
+  random: () => number = Math.random
+): PickerCandidate | null {
+  return pickWeighted(getEligibleCandidates(candidates, constraints, history, now), getCandidateWeight, random);
+}
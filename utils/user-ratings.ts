@@ -0,0 +1,117 @@
+/**
+ * Personal rating helpers
+ * Pure functions shared by the ratings store, rating UI and watchlist sorting
+ */
+
+import {
+  MAX_USER_RATING,
+  type RatedTitle,
+  type UserRating,
+  type UserRatingInput,
+} from '@/types/ratings';
+import { t } from '@/services/localization';
+
+/** Fill state of a single star in a five-star display */
+export type StarFill = 'full' | 'half' | 'empty';
+
+/** Number of stars in the rating display */
+export const STAR_COUNT = MAX_USER_RATING / 2;
+
+/** Longest private note allowed */
+export const MAX_NOTE_LENGTH = 2000;
+
+/**
+ * Snap a rating to the nearest half star within 0-10
+ * @param value - Raw rating (e.g. from a slider or an import)
+ * @returns Whole number 0-10, or null when the value isn't a number
+ */
+export function normalizeRating(value: number | null | undefined): number | null {
+  if (value === null || value === undefined || !Number.isFinite(value)) {
+    return null;
+  }
+  return Math.min(Math.max(Math.round(value), 0), MAX_USER_RATING);
+}
+
+/**
+ * Star fills for a rating
+ * @param rating - Rating 0-10 (null shows empty stars)
+ * @returns One fill per star
+ */
+export function getStarFills(rating: number | null): StarFill[] {
+  const value = normalizeRating(rating) ?? 0;
+  return Array.from({ length: STAR_COUNT }, (_, i) => {
+    const remaining = value - i * 2;
+    if (remaining >= 2) return 'full';
+    if (remaining === 1) return 'half';
+    return 'empty';
+  });
+}
+
+/**
+ * Format a rating as stars out of five
+ * @param rating - Rating 0-10
+ * @returns Display string such as "3.5/5", or "Not rated"
+ */
+export function formatUserRating(rating: number | null): string {
+  const value = normalizeRating(rating);
+  if (value === null) return t('ratings.notRated');
+  return `${value / 2}/${STAR_COUNT}`;
+}
+
+/**
+ * Find the personal rating for a title
+ * @param ratings - All personal ratings
+ * @param id - Title ID
+ * @param mediaType - Title media type
+ * @returns Rating entry or undefined
+ */
+export function findUserRating(
+  ratings: UserRating[],
+  id: number,
+  mediaType: 'movie' | 'tv'
+): UserRating | undefined {
+  return ratings.find(r => r.id === id && r.mediaType === mediaType);
+}
+
+/**
+ * Save a rating and note for a title
+ * Entries left with no rating and an empty note are removed.
+ * @param ratings - All personal ratings
+ * @param title - Title being rated
+ * @param input - New rating and note
+ * @param now - Update timestamp
+ * @returns Updated ratings
+ */
+export function upsertUserRating(
+  ratings: UserRating[],
+  title: RatedTitle,
+  input: UserRatingInput,
+  now: string
+): UserRating[] {
+  const rating = normalizeRating(input.rating);
+  const note = input.note.trim().slice(0, MAX_NOTE_LENGTH);
+  const existing = findUserRating(ratings, title.id, title.mediaType);
+  const others = ratings.filter(r => r !== existing);
+
+  if (rating === null && note.length === 0) {
+    return existing ? others : ratings;
+  }
+
+  const entry: UserRating = {
+    ...existing,
+    id: title.id,
+    mediaType: title.mediaType,
+    idSpace: title.idSpace ?? existing?.idSpace,
+    imdbId: title.imdbId ?? existing?.imdbId,
+    title: title.title,
+    posterPath: title.posterPath,
+    rating,
+    note,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  return existing
+    ? ratings.map(r => (r === existing ? entry : r))
+    : [...ratings, entry];
+}
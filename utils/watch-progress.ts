@@ -0,0 +1,172 @@
+/**
+ * Episode watch progress helpers
+ * Pure functions shared by the watch progress store and progress UI
+ */
+
+import type { MediaDetails } from '@/types/media';
+import type {
+  EpisodeRef,
+  ProgressSummary,
+  SeriesProgress,
+  SeriesProgressInfo,
+  WatchedEpisode,
+} from '@/types/progress';
+
+/** Unique key for an episode within a series, e.g. "S1E3" */
+export function getEpisodeKey(seasonNumber: number, episodeNumber: number): string {
+  return `S${seasonNumber}E${episodeNumber}`;
+}
+
+/** Order episodes by season, then episode number */
+export function compareEpisodes(a: EpisodeRef, b: EpisodeRef): number {
+  return a.seasonNumber - b.seasonNumber || a.episodeNumber - b.episodeNumber;
+}
+
+/** Series fields used for progress tracking, taken from detail page data */
+export function toSeriesProgressInfo(details: MediaDetails): SeriesProgressInfo {
+  return {
+    id: details.id,
+    title: details.title,
+    posterPath: details.posterPath,
+    imdbId: details.imdbId ?? null,
+    totalEpisodes: details.numberOfEpisodes ?? null,
+    totalSeasons: details.numberOfSeasons ?? null,
+  };
+}
+
+/** Create an empty progress entry for a series */
+export function createSeriesProgress(series: SeriesProgressInfo, now: string): SeriesProgress {
+  return {
+    id: series.id,
+    mediaType: 'tv',
+    imdbId: series.imdbId ?? null,
+    title: series.title,
+    posterPath: series.posterPath,
+    watchedEpisodes: [],
+    seasonEpisodeCounts: {},
+    totalEpisodes: series.totalEpisodes,
+    totalSeasons: series.totalSeasons,
+    updatedAt: now,
+  };
+}
+
+/** Check whether an episode has been marked as watched */
+export function isEpisodeWatched(
+  progress: SeriesProgress | undefined,
+  seasonNumber: number,
+  episodeNumber: number
+): boolean {
+  return !!progress?.watchedEpisodes.some(
+    e => e.seasonNumber === seasonNumber && e.episodeNumber === episodeNumber
+  );
+}
+
+/**
+ * Mark episodes as watched, keeping the list sorted and free of duplicates
+ * Episodes already watched keep their original timestamp
+ */
+export function addWatchedEpisodes(
+  progress: SeriesProgress,
+  episodes: EpisodeRef[],
+  now: string
+): SeriesProgress {
+  const byKey = new Map<string, WatchedEpisode>(
+    progress.watchedEpisodes.map(e => [getEpisodeKey(e.seasonNumber, e.episodeNumber), e])
+  );
+
+  episodes.forEach(({ seasonNumber, episodeNumber }) => {
+    const key = getEpisodeKey(seasonNumber, episodeNumber);
+    if (!byKey.has(key)) {
+      byKey.set(key, { seasonNumber, episodeNumber, watchedAt: now });
+    }
+  });
+
+  return {
+    ...progress,
+    watchedEpisodes: [...byKey.values()].sort(compareEpisodes),
+    updatedAt: now,
+  };
+}
+
+/** Remove episodes from the watched list */
+export function removeWatchedEpisodes(
+  progress: SeriesProgress,
+  episodes: EpisodeRef[],
+  now: string
+): SeriesProgress {
+  const removed = new Set(episodes.map(e => getEpisodeKey(e.seasonNumber, e.episodeNumber)));
+
+  return {
+    ...progress,
+    watchedEpisodes: progress.watchedEpisodes.filter(
+      e => !removed.has(getEpisodeKey(e.seasonNumber, e.episodeNumber))
+    ),
+    updatedAt: now,
+  };
+}
+
+/** Watched share of a total, clamped to 0-1 */
+export function getProgressFraction(watched: number, total: number | null): number {
+  if (!total || total <= 0) return 0;
+  return Math.min(1, Math.max(0, watched / total));
+}
+
+/**
+ * Progress within a single season
+ * @param episodeCount - Episode count when known from season details
+ */
+export function getSeasonProgress(
+  progress: SeriesProgress | undefined,
+  seasonNumber: number,
+  episodeCount?: number | null
+): ProgressSummary {
+  const watched = progress?.watchedEpisodes.filter(e => e.seasonNumber === seasonNumber).length ?? 0;
+  const total = episodeCount ?? progress?.seasonEpisodeCounts[seasonNumber] ?? null;
+
+  return { watched, total, fraction: getProgressFraction(watched, total) };
+}
+
+/** Progress across the whole series */
+export function getSeriesProgress(progress: SeriesProgress | undefined): ProgressSummary {
+  const watched = progress?.watchedEpisodes.length ?? 0;
+  const total = progress?.totalEpisodes ?? null;
+
+  return { watched, total, fraction: getProgressFraction(watched, total) };
+}
+
+/** Whether every episode of a series has been watched, as far as we know */
+export function isSeriesComplete(progress: SeriesProgress | undefined): boolean {
+  if (!progress || progress.watchedEpisodes.length === 0) return false;
+  const { watched, total } = getSeriesProgress(progress);
+  return (total !== null && watched >= total) || getNextEpisode(progress) === null;
+}
+
+/**
+ * Episode to watch next: the one after the furthest watched episode
+ * Rolls over to the next season once a season's known episode count is reached.
+ * Returns S1E1 when nothing is watched and null once the final episode is watched.
+ */
+export function getNextEpisode(progress: SeriesProgress | undefined): EpisodeRef | null {
+  const watched = progress?.watchedEpisodes ?? [];
+  if (!progress || watched.length === 0) {
+    return { seasonNumber: 1, episodeNumber: 1 };
+  }
+
+  const last = watched.reduce((furthest, e) => (compareEpisodes(e, furthest) > 0 ? e : furthest));
+  const seasonCount = progress.seasonEpisodeCounts[last.seasonNumber];
+
+  if (seasonCount === undefined || last.episodeNumber < seasonCount) {
+    return { seasonNumber: last.seasonNumber, episodeNumber: last.episodeNumber + 1 };
+  }
+
+  if (progress.totalSeasons !== null && last.seasonNumber >= progress.totalSeasons) {
+    return null;
+  }
+
+  return { seasonNumber: last.seasonNumber + 1, episodeNumber: 1 };
+}
+
+/** Short label for an episode, e.g. "S2 · E5" */
+export function formatEpisodeLabel(episode: EpisodeRef): string {
+  return `S${episode.seasonNumber} · E${episode.episodeNumber}`;
+}
@@ -0,0 +1,56 @@
+/**
+ * Watchlist status helpers
+ * Pure functions shared by the watchlist store and status UI
+ */
+
+import {
+  DEFAULT_WATCHLIST_STATUS,
+  type WatchlistItem,
+  type WatchlistStatus,
+} from '@/types/watchlist';
+
+/**
+ * Get an item's viewing status
+ * @param item - Watchlist item
+ * @returns Status, defaulting to plan to watch for items saved before statuses existed
+ */
+export function getItemStatus(item: WatchlistItem): WatchlistStatus {
+  return item.status ?? DEFAULT_WATCHLIST_STATUS;
+}
+
+/**
+ * Move an item to a new status, recording the transition
+ * @param item - Watchlist item
+ * @param status - New status
+ * @param changedAt - Transition timestamp
+ * @returns Updated item, or the same item when the status is unchanged
+ */
+export function applyStatusChange(
+  item: WatchlistItem,
+  status: WatchlistStatus,
+  changedAt: string
+): WatchlistItem {
+  if (getItemStatus(item) === status) {
+    return item;
+  }
+
+  // Items saved before statuses existed start their history at the date they were added
+  const history = item.statusHistory ?? [{ status: getItemStatus(item), changedAt: item.addedAt }];
+
+  return {
+    ...item,
+    status,
+    statusHistory: [...history, { status, changedAt }],
+  };
+}
+
+/**
+ * Status implied by recorded watch progress
+ * Any progress means the title is being watched (including a new season of a
+ * completed or dropped series); finishing it marks it completed.
+ * @param isComplete - Whether the title has been watched in full
+ * @returns Status the item should move to
+ */
+export function getProgressStatus(isComplete: boolean): WatchlistStatus {
+  return isComplete ? 'completed' : 'watching';
+}